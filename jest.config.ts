@@ -7,6 +7,13 @@ const config: Config = {
   transform: {
     "^.+\\.(ts|tsx)$": "ts-jest",
   },
+  // Tests use source code of workspace packages instead of their bundles.
+  // Bundled verb-nurbs can't find the global object in jest, and classes
+  // compiled to ES5 by ts-jest can't extend native classes in bundles.
+  moduleNameMapper: {
+    "^@mlightcad/(common|geometry-engine|graphic-interface)$":
+      "<rootDir>/packages/$1/src",
+  },
   testPathIgnorePatterns: [
     "packages/dxf-json/",
   ]
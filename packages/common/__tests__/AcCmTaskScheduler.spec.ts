@@ -0,0 +1,64 @@
+import { AcCmTask, AcCmTaskScheduler } from '../src'
+
+class AddTask extends AcCmTask<number, number> {
+  constructor(
+    name: string,
+    private readonly callback?: () => void
+  ) {
+    super(name)
+  }
+
+  run(input: number) {
+    this.callback?.()
+    return input + 1
+  }
+}
+
+describe('Test AcCmTaskScheduler', () => {
+  it('runs all tasks and passes results between tasks', async () => {
+    const scheduler = new AcCmTaskScheduler<number, number>()
+    scheduler.addTask(new AddTask('first'))
+    scheduler.addTask(new AddTask('second'))
+    const onComplete = jest.fn()
+    scheduler.setCompleteCallback(onComplete)
+
+    await scheduler.run(0)
+    expect(onComplete).toHaveBeenCalledWith(2)
+  })
+
+  it('stops running tasks when the signal is aborted', async () => {
+    const controller = new AbortController()
+    const scheduler = new AcCmTaskScheduler<number, number>()
+    const second = new AddTask('second')
+    const runSecond = jest.spyOn(second, 'run')
+    scheduler.addTask(new AddTask('first', () => controller.abort()))
+    scheduler.addTask(second)
+    const onComplete = jest.fn()
+    const onAbort = jest.fn()
+    scheduler.setCompleteCallback(onComplete)
+    scheduler.setAbortCallback(onAbort)
+
+    await scheduler.run(0, controller.signal)
+    expect(runSecond).not.toHaveBeenCalled()
+    expect(onAbort).toHaveBeenCalledWith(second)
+    expect(onComplete).not.toHaveBeenCalled()
+  })
+
+  it('treats errors thrown after abortion as abortion', async () => {
+    const controller = new AbortController()
+    const scheduler = new AcCmTaskScheduler<number, number>()
+    const task = new AddTask('failed', () => {
+      controller.abort()
+      throw new Error('aborted')
+    })
+    scheduler.addTask(task)
+    const onError = jest.fn()
+    const onAbort = jest.fn()
+    scheduler.setErrorCallback(onError)
+    scheduler.setAbortCallback(onAbort)
+
+    await scheduler.run(0, controller.signal)
+    expect(onAbort).toHaveBeenCalledWith(task)
+    expect(onError).not.toHaveBeenCalled()
+  })
+})
@@ -131,6 +131,14 @@ export type AcCmCompleteCallback<T> = (finalResult: T) => void
  */
 type AcCmErrorCallback = (error: AcCmTaskError) => boolean
 
+/**
+ * Callback function that handles abortion of task execution.
+ *
+ * @param {AcCmTask<unknown, unknown>} task - The task which was running or about to run
+ * when the execution was aborted.
+ */
+export type AcCmAbortCallback = (task: AcCmTask<unknown, unknown>) => void
+
 /**
  * Type-safe task scheduler that executes a chain of named tasks in order.
  *
@@ -168,6 +176,7 @@ export class AcCmTaskScheduler<TInitial, TFinal = TInitial> {
   private onProgress: AcCmProgressCallback = () => {}
   private onComplete: AcCmCompleteCallback<TFinal> = () => {}
   private onError: AcCmErrorCallback = () => false
+  private onAbort: AcCmAbortCallback = () => {}
 
   /**
    * Schedules a task to be executed asynchronously.
@@ -228,15 +237,33 @@ export class AcCmTaskScheduler<TInitial, TFinal = TInitial> {
     this.onError = callback
   }
 
+  /**
+   * Sets a callback to be called if task execution is aborted.
+   */
+  setAbortCallback(callback: AcCmAbortCallback): void {
+    this.onAbort = callback
+  }
+
   /**
    * Starts execution of the task queue with the given initial input.
+   *
+   * If the specified signal is aborted, no more tasks are executed and the abort
+   * callback is called instead of the complete callback. Errors thrown by the
+   * running task after the signal is aborted are treated as abortion too.
+   *
+   * @param initialData - The input of the first task
+   * @param signal - Optional signal used to abort the execution
    */
-  async run(initialData: TInitial): Promise<void> {
+  async run(initialData: TInitial, signal?: AbortSignal): Promise<void> {
     const total = this.tasks.length
     let result: unknown = initialData
 
     for (let i = 0; i < total; i++) {
       const task = this.tasks[i]
+      if (signal?.aborted) {
+        this.onAbort(task)
+        return
+      }
 
       try {
         result = await this.scheduleTask(async () => {
@@ -245,6 +272,10 @@ export class AcCmTaskScheduler<TInitial, TFinal = TInitial> {
           return output
         })
       } catch (error) {
+        if (signal?.aborted) {
+          this.onAbort(task)
+          return
+        }
         const shouldInterrupt = this.onError({ error, taskIndex: i, task })
         if (shouldInterrupt) {
           // Stop executing further tasks
@@ -0,0 +1,151 @@
+import {
+  AcDbDimensionFormatter,
+  AcDbDimStyleTableRecord,
+  AcDbDimStyleTableRecordAttrs
+} from '../src'
+
+const createFormatter = (attrs: Partial<AcDbDimStyleTableRecordAttrs> = {}) =>
+  new AcDbDimensionFormatter(new AcDbDimStyleTableRecord(attrs))
+
+describe('AcDbDimensionFormatter', () => {
+  it('formats decimal lengths', () => {
+    expect(createFormatter().formatMeasurement(12.5)).toBe('12.5000')
+    expect(
+      createFormatter({ dimdec: 1, dimlfac: 2 }).formatMeasurement(12.5)
+    ).toBe('25.0')
+    expect(
+      createFormatter({ dimdec: 2, dimrnd: 0.25 }).formatMeasurement(12.4)
+    ).toBe('12.50')
+  })
+
+  it('suppresses zeros and replaces the decimal separator', () => {
+    const attrs = { dimdec: 2, dimdsep: ',' }
+    expect(createFormatter({ ...attrs, dimzin: 8 }).formatLength(0.5)).toBe(
+      '0,5'
+    )
+    expect(createFormatter({ ...attrs, dimzin: 12 }).formatLength(0.5)).toBe(
+      ',5'
+    )
+    expect(createFormatter({ ...attrs, dimzin: 8 }).formatLength(-0.001)).toBe(
+      '0'
+    )
+  })
+
+  it('formats lengths in other unit formats', () => {
+    expect(
+      createFormatter({ dimlunit: 1, dimdec: 2 }).formatLength(1234.5)
+    ).toBe('1.23E+03')
+    expect(createFormatter({ dimlunit: 3, dimdec: 2 }).formatLength(30.5)).toBe(
+      '2\'-6.50"'
+    )
+
+    const architectural = createFormatter({ dimlunit: 4, dimzin: 0 })
+    expect(architectural.formatLength(30.5)).toBe('2\'-6 \\S1/2;"')
+    expect(architectural.formatLength(6)).toBe('6"')
+    expect(architectural.formatLength(24)).toMatch(/^2'$/)
+    expect(
+      createFormatter({ dimlunit: 4, dimfrac: 2 }).formatLength(30.5)
+    ).toBe('2\'-6 1/2"')
+    expect(createFormatter({ dimlunit: 4, dimzin: 1 }).formatLength(6)).toBe(
+      '0\'-6"'
+    )
+    expect(createFormatter({ dimlunit: 4, dimzin: 3 }).formatLength(24)).toBe(
+      '2\'-0"'
+    )
+
+    expect(
+      createFormatter({ dimlunit: 5, dimdec: 3, dimfrac: 1 }).formatLength(2.25)
+    ).toBe('2 \\S1#4;')
+  })
+
+  it('formats angles', () => {
+    const angle = Math.PI / 4
+    expect(createFormatter().formatAngle(angle)).toBe('45%%d')
+    expect(createFormatter({ dimadec: 2 }).formatAngle(angle)).toBe('45.00%%d')
+    expect(createFormatter({ dimadec: 2, dimazin: 2 }).formatAngle(angle)).toBe(
+      '45%%d'
+    )
+    expect(createFormatter({ dimaunit: 2 }).formatAngle(angle)).toBe('50g')
+    expect(
+      createFormatter({ dimaunit: 3, dimadec: 2 }).formatAngle(angle)
+    ).toBe('0.79r')
+
+    const halfDegree = (45.5 * Math.PI) / 180
+    expect(
+      createFormatter({ dimaunit: 1, dimadec: 2 }).formatAngle(halfDegree)
+    ).toMatch(/^45%%d30'$/)
+    expect(
+      createFormatter({ dimaunit: 1, dimadec: 4 }).formatAngle(halfDegree)
+    ).toBe('45%%d30\'0"')
+  })
+
+  it('adds prefixes, suffixes and user-supplied text', () => {
+    const formatter = createFormatter({ dimdec: 2, dimpost: '<> mm' })
+    expect(formatter.formatMeasurement(12.5, { prefix: 'R' })).toBe('R12.50 mm')
+    expect(
+      createFormatter({ dimdec: 2, dimpost: 'mm' }).formatMeasurement(1)
+    ).toBe('1.00mm')
+    expect(
+      formatter.formatMeasurement(1, { isAngular: true, prefix: 'A' })
+    ).toBe('A57%%d')
+
+    expect(formatter.formatMeasurement(12.5, { dimensionText: '.' })).toBe('')
+    expect(formatter.formatMeasurement(12.5, { dimensionText: '' })).toBe(
+      '12.50 mm'
+    )
+    expect(formatter.formatMeasurement(12.5, { dimensionText: 'L=<>' })).toBe(
+      'L=12.50 mm'
+    )
+    expect(formatter.formatMeasurement(12.5, { dimensionText: 'TEXT' })).toBe(
+      'TEXT'
+    )
+  })
+
+  it('formats tolerances and limits', () => {
+    const attrs: Partial<AcDbDimStyleTableRecordAttrs> = {
+      dimdec: 2,
+      dimtdec: 1,
+      dimtol: 1
+    }
+    expect(
+      createFormatter({ ...attrs, dimtp: 0.1, dimtm: 0.1 }).formatMeasurement(
+        12.5
+      )
+    ).toBe('12.50%%p0.1')
+    expect(
+      createFormatter({ ...attrs, dimtp: 0.2, dimtm: 0.1 }).formatMeasurement(
+        12.5
+      )
+    ).toBe('12.50\\S+0.2^-0.1;')
+    expect(
+      createFormatter({
+        dimdec: 1,
+        dimlim: 1,
+        dimtp: 0.2,
+        dimtm: 0.1
+      }).formatMeasurement(10)
+    ).toBe('\\S10.2^9.9;')
+  })
+
+  it('formats alternate units', () => {
+    const formatter = createFormatter({
+      dimdec: 2,
+      dimalt: 1,
+      dimaltf: 25.4,
+      dimaltd: 1,
+      dimapost: ' mm'
+    })
+    expect(formatter.formatMeasurement(1)).toBe('1.00 [25.4 mm]')
+    expect(formatter.formatMeasurement(1, { dimensionText: '<> ([])' })).toBe(
+      '1.00 (25.4 mm)'
+    )
+    expect(
+      createFormatter({
+        dimalt: 1,
+        dimaltf: 1,
+        dimaltu: 7,
+        dimaltd: 2
+      }).formatAlternateLength(0.75)
+    ).toBe('3/4')
+  })
+})
@@ -0,0 +1,251 @@
+import { encodeBinaryDxf } from '../src/converter/AcDbBinaryDxf'
+import { AcDbDxfParser } from '../src/converter/AcDbDxfParser'
+
+const TEXT = 'héllo 中文'
+
+const createDxf = (version: string) =>
+  [
+    '  0',
+    'SECTION',
+    '  2',
+    'HEADER',
+    '  9',
+    '$ACADVER',
+    '  1',
+    version,
+    '  9',
+    '$DWGCODEPAGE',
+    '  3',
+    'ANSI_1252',
+    '  0',
+    'ENDSEC',
+    '  0',
+    'SECTION',
+    '  2',
+    'ENTITIES',
+    '  0',
+    'TEXT',
+    '  5',
+    '1F',
+    '  8',
+    '0',
+    ' 10',
+    '0',
+    ' 20',
+    '0',
+    ' 30',
+    '0',
+    ' 40',
+    '1',
+    '  1',
+    TEXT,
+    '  0',
+    'ENDSEC',
+    '  0',
+    'EOF',
+    ''
+  ].join('\n')
+
+const getText = (data: ArrayBuffer) => {
+  const parsed = new AcDbDxfParser().parse(data)
+  return (parsed.entities[0] as unknown as { text: string }).text
+}
+
+describe('AcDbDxfParser', () => {
+  // AcDbDxfWriter writes UTF-8 strings with version AC1021 or later
+  it('reads non-ASCII text of UTF-8 ASCII DXF files', () => {
+    const data = new TextEncoder().encode(createDxf('AC1021'))
+    expect(getText(data.buffer as ArrayBuffer)).toBe(TEXT)
+  })
+
+  it('reads non-ASCII text of UTF-8 binary DXF files', () => {
+    const data = encodeBinaryDxf(createDxf('AC1021'))
+    expect(getText(data)).toBe(TEXT)
+  })
+
+  it('decodes old DXF files with the declared code page', () => {
+    const data = new TextEncoder().encode(createDxf('AC1014'))
+    expect(getText(data.buffer as ArrayBuffer)).not.toBe(TEXT)
+    expect(getText(data.buffer as ArrayBuffer)).toBe(
+      new TextDecoder('windows-1252').decode(new TextEncoder().encode(TEXT))
+    )
+  })
+
+  it('keeps positions of MLINE entities', () => {
+    const mline = (handle: string, owner: string) => [
+      '  0',
+      'MLINE',
+      '  5',
+      handle,
+      '330',
+      owner,
+      '100',
+      'AcDbMline',
+      '  2',
+      'STANDARD',
+      ' 40',
+      '1',
+      ' 70',
+      '0',
+      ' 71',
+      '1',
+      ' 72',
+      '0',
+      ' 73',
+      '0',
+      ' 10',
+      '0',
+      ' 20',
+      '0',
+      ' 30',
+      '0'
+    ]
+    const line = (handle: string, owner: string) => [
+      '  0',
+      'LINE',
+      '  5',
+      handle,
+      '330',
+      owner,
+      ' 10',
+      '0',
+      ' 20',
+      '0',
+      ' 11',
+      '1',
+      ' 21',
+      '1'
+    ]
+    const text = [
+      '  0',
+      'SECTION',
+      '  2',
+      'TABLES',
+      '  0',
+      'TABLE',
+      '  2',
+      'BLOCK_RECORD',
+      '  5',
+      '1',
+      '330',
+      '0',
+      '100',
+      'AcDbSymbolTable',
+      ' 70',
+      '1',
+      '  0',
+      'BLOCK_RECORD',
+      '  5',
+      '1F',
+      '330',
+      '1',
+      '100',
+      'AcDbSymbolTableRecord',
+      '100',
+      'AcDbBlockTableRecord',
+      '  2',
+      'B',
+      '  0',
+      'ENDTAB',
+      '  0',
+      'ENDSEC',
+      '  0',
+      'SECTION',
+      '  2',
+      'BLOCKS',
+      '  0',
+      'BLOCK',
+      '  5',
+      '20',
+      '330',
+      '1F',
+      '100',
+      'AcDbEntity',
+      '  8',
+      '0',
+      '100',
+      'AcDbBlockBegin',
+      '  2',
+      'B',
+      ' 70',
+      '0',
+      ' 10',
+      '0',
+      ' 20',
+      '0',
+      ' 30',
+      '0',
+      '  3',
+      'B',
+      '  1',
+      '',
+      ...mline('21', '1F'),
+      ...line('22', '1F'),
+      '  0',
+      'ENDBLK',
+      '  5',
+      '23',
+      '330',
+      '1F',
+      '100',
+      'AcDbEntity',
+      '  8',
+      '0',
+      '100',
+      'AcDbBlockEnd',
+      '  0',
+      'ENDSEC',
+      '  0',
+      'SECTION',
+      '  2',
+      'ENTITIES',
+      ...mline('30', '1A'),
+      ...line('31', '1A'),
+      '  0',
+      'POLYLINE',
+      '  5',
+      '32',
+      '330',
+      '1A',
+      ' 66',
+      '1',
+      '  0',
+      'VERTEX',
+      '  5',
+      '33',
+      '330',
+      '32',
+      ' 10',
+      '0',
+      ' 20',
+      '0',
+      '  0',
+      'SEQEND',
+      '  5',
+      '34',
+      '330',
+      '32',
+      ...mline('35', '1A'),
+      ...line('36', '1A'),
+      '  0',
+      'ENDSEC',
+      '  0',
+      'EOF',
+      ''
+    ].join('\n')
+    const parsed = new AcDbDxfParser().parse(
+      new TextEncoder().encode(text).buffer as ArrayBuffer
+    )
+    expect(parsed.entities.map(entity => entity.handle)).toEqual([
+      '30',
+      '31',
+      '32',
+      '35',
+      '36'
+    ])
+    expect(parsed.blocks['B'].entities?.map(entity => entity.handle)).toEqual([
+      '21',
+      '22'
+    ])
+  })
+})
@@ -0,0 +1,176 @@
+import {
+  AcCmColor,
+  AcDbAttribute,
+  AcDbBlockReference,
+  AcDbBlockTableRecord,
+  AcDbDatabase,
+  AcDbFileType,
+  acdbHostApplicationServices,
+  AcDbLine,
+  AcDbMLeader,
+  AcDbMLeaderContentType,
+  AcDbMline,
+  AcDbMlineJustification,
+  AcDbMlineStyle,
+  AcGePoint3d
+} from '../src'
+
+const createDatabase = () => {
+  const db = new AcDbDatabase()
+  acdbHostApplicationServices().workingDatabase = db
+  db.createDefaultData()
+  return db
+}
+
+const writeAndRead = async (db: AcDbDatabase) => {
+  const dxf = db.write(AcDbFileType.DXF) as string
+  const result = new AcDbDatabase()
+  acdbHostApplicationServices().workingDatabase = result
+  await result.read(new TextEncoder().encode(dxf).buffer, {})
+  return result
+}
+
+const getModelSpaceEntities = (db: AcDbDatabase) =>
+  db.tables.blockTable.modelSpace.newIterator().toArray()
+
+describe('AcDbDxfWriter', () => {
+  it('writes attributes of block references', async () => {
+    const db = createDatabase()
+    const block = new AcDbBlockTableRecord()
+    block.name = 'DOOR'
+    db.tables.blockTable.add(block)
+    block.appendEntity(
+      new AcDbLine(new AcGePoint3d(0, 0, 0), new AcGePoint3d(1, 0, 0))
+    )
+
+    const blockRef = new AcDbBlockReference('DOOR')
+    blockRef.position = new AcGePoint3d(10, 20, 0)
+    db.tables.blockTable.modelSpace.appendEntity(blockRef)
+    const attribute = new AcDbAttribute()
+    attribute.tag = 'NAME'
+    attribute.textString = 'Front door'
+    attribute.height = 2.5
+    attribute.position = new AcGePoint3d(11, 21, 0)
+    attribute.isInvisible = true
+    blockRef.appendAttribute(attribute)
+
+    const entities = getModelSpaceEntities(await writeAndRead(db))
+    expect(entities).toHaveLength(1)
+    const result = entities[0] as AcDbBlockReference
+    expect(result).toBeInstanceOf(AcDbBlockReference)
+    expect(result.blockName).toBe('DOOR')
+    expect(result.position).toMatchObject({ x: 10, y: 20, z: 0 })
+
+    const attributes = result.attributeIterator().toArray()
+    expect(attributes).toHaveLength(1)
+    expect(attributes[0].ownerId).toBe(result.objectId)
+    expect(attributes[0].tag).toBe('NAME')
+    expect(attributes[0].textString).toBe('Front door')
+    expect(attributes[0].height).toBe(2.5)
+    expect(attributes[0].position).toMatchObject({ x: 11, y: 21, z: 0 })
+    expect(attributes[0].isInvisible).toBe(true)
+  })
+
+  it('writes multileaders', async () => {
+    const db = createDatabase()
+    const mleader = new AcDbMLeader()
+    mleader.contentType = AcDbMLeaderContentType.MTextContent
+    mleader.contents = 'Check here'
+    mleader.textLocation = { x: 12, y: 10, z: 0 }
+    mleader.textHeight = 2
+    mleader.arrowSize = 1.5
+    mleader.addLeaderCluster(
+      { x: 10, y: 10, z: 0 },
+      { x: 1, y: 0, z: 0 },
+      [
+        [
+          { x: 0, y: 0, z: 0 },
+          { x: 5, y: 8, z: 0 }
+        ],
+        [{ x: 0, y: 20, z: 0 }]
+      ],
+      2
+    )
+    db.tables.blockTable.modelSpace.appendEntity(mleader)
+
+    const entities = getModelSpaceEntities(await writeAndRead(db))
+    expect(entities).toHaveLength(1)
+    const result = entities[0] as AcDbMLeader
+    expect(result).toBeInstanceOf(AcDbMLeader)
+    expect(result.contentType).toBe(AcDbMLeaderContentType.MTextContent)
+    expect(result.contents).toBe('Check here')
+    expect(result.textLocation).toMatchObject({ x: 12, y: 10, z: 0 })
+    expect(result.textHeight).toBe(2)
+    expect(result.arrowSize).toBe(1.5)
+
+    expect(result.leaderClusters).toHaveLength(1)
+    const [cluster] = result.leaderClusters
+    expect(cluster.landingPoint).toMatchObject({ x: 10, y: 10, z: 0 })
+    expect(cluster.doglegVector).toMatchObject({ x: 1, y: 0, z: 0 })
+    expect(cluster.doglegLength).toBe(2)
+    expect(
+      cluster.leaderLines.map(line =>
+        line.vertices.map(vertex => [vertex.x, vertex.y, vertex.z])
+      )
+    ).toEqual([
+      [
+        [0, 0, 0],
+        [5, 8, 0]
+      ],
+      [[0, 20, 0]]
+    ])
+  })
+
+  it('writes multilines and keeps their draw order', async () => {
+    const db = createDatabase()
+    const modelSpace = db.tables.blockTable.modelSpace
+    modelSpace.appendEntity(
+      new AcDbLine(new AcGePoint3d(0, 0, 0), new AcGePoint3d(1, 0, 0))
+    )
+    const style = new AcDbMlineStyle()
+    style.name = 'WALL'
+    style.addElement(0.5, new AcCmColor(), 'BYLAYER')
+    style.addElement(-0.5, new AcCmColor(), 'BYLAYER')
+    db.dictionaries.mlineStyles.setAt(style.name, style)
+
+    const mline = new AcDbMline()
+    mline.styleName = 'WALL'
+    mline.scale = 2
+    mline.justification = AcDbMlineJustification.Zero
+    mline.suppressEndCaps = true
+    mline.appendSeg({ x: 0, y: 0, z: 0 })
+    mline.appendSeg({ x: 10, y: 0, z: 0 })
+    mline.appendSeg({ x: 10, y: 10, z: 0 })
+    modelSpace.appendEntity(mline)
+    modelSpace.appendEntity(
+      new AcDbLine(new AcGePoint3d(0, 1, 0), new AcGePoint3d(1, 1, 0))
+    )
+
+    const entities = getModelSpaceEntities(await writeAndRead(db))
+    expect(entities.map(entity => entity.type)).toEqual([
+      'Line',
+      'Mline',
+      'Line'
+    ])
+    const result = entities[1] as AcDbMline
+    expect(result.styleName).toBe('WALL')
+    expect(result.mlineStyle?.name).toBe('WALL')
+    expect(result.mlineStyle?.elements.map(element => element.offset)).toEqual([
+      0.5, -0.5
+    ])
+    expect(result.scale).toBe(2)
+    expect(result.justification).toBe(AcDbMlineJustification.Zero)
+    expect(result.suppressStartCaps).toBe(false)
+    expect(result.suppressEndCaps).toBe(true)
+    expect(result.closed).toBe(false)
+    expect(
+      result.vertices.map(vertex => [vertex.position.x, vertex.position.y])
+    ).toEqual([
+      [0, 0],
+      [10, 0],
+      [10, 10]
+    ])
+    expect(result.vertices[0].direction).toMatchObject({ x: 1, y: 0, z: 0 })
+    expect(result.vertices[2].direction).toMatchObject({ x: 0, y: 1, z: 0 })
+  })
+})
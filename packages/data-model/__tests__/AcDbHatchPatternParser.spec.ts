@@ -0,0 +1,62 @@
+import { AcDbHatchPatternParser } from '../src/misc/AcDbHatchPatternParser'
+
+const PAT = [
+  ';; Hatch patterns for testing',
+  '*ANSI31, ANSI Iron, Brick, Stone masonry',
+  '45, 0,0, 0,.125',
+  '',
+  '*dash,Dashed lines ; trailing comment',
+  '0, 0,0, .125,.125, .125,-.0625',
+  'not a definition line',
+  '0, 0',
+  '*SOLID',
+  '*BOX, Box steel',
+  '90, 0,0, 0,1',
+  '90, .25,0, 0,1, 1,-.5'
+].join('\r\n')
+
+describe('AcDbHatchPatternParser', () => {
+  const patterns = new AcDbHatchPatternParser().parse(PAT)
+
+  it('reads names and descriptions of patterns', () => {
+    expect(
+      patterns.map(pattern => [pattern.name, pattern.description])
+    ).toEqual([
+      ['ANSI31', 'ANSI Iron, Brick, Stone masonry'],
+      ['DASH', 'Dashed lines'],
+      ['SOLID', ''],
+      ['BOX', 'Box steel']
+    ])
+  })
+
+  it('converts offsets of definition lines to X and Y axes', () => {
+    const [line] = patterns[0].lines
+    expect(line.angle).toBe(45)
+    expect(line.origin).toEqual({ x: 0, y: 0 })
+    expect(line.delta.x).toBeCloseTo(-0.125 * Math.SQRT1_2)
+    expect(line.delta.y).toBeCloseTo(0.125 * Math.SQRT1_2)
+    expect(line.dashPattern).toEqual([])
+
+    const [, second] = patterns[3].lines
+    expect(second.origin).toEqual({ x: 0.25, y: 0 })
+    expect(second.delta.x).toBeCloseTo(-1)
+    expect(second.delta.y).toBeCloseTo(0)
+    expect(second.dashPattern).toEqual([1, -0.5])
+  })
+
+  it('ignores comments and malformed definition lines', () => {
+    expect(patterns[1].lines).toEqual([
+      {
+        angle: 0,
+        origin: { x: 0, y: 0 },
+        delta: { x: 0.125, y: 0.125 },
+        dashPattern: [0.125, -0.0625]
+      }
+    ])
+    expect(patterns[2].lines).toEqual([])
+  })
+
+  it('ignores definition lines before the first pattern', () => {
+    expect(new AcDbHatchPatternParser().parse('45, 0,0, 0,.125')).toEqual([])
+  })
+})
@@ -0,0 +1,122 @@
+import {
+  AcDbDatabase,
+  acdbHostApplicationServices,
+  AcDbLine,
+  AcDbPolyline,
+  AcGeMatrix3d,
+  AcGePoint2d,
+  AcGePoint3d
+} from '../src'
+
+const createDatabase = () => {
+  const db = new AcDbDatabase()
+  acdbHostApplicationServices().workingDatabase = db
+  db.createDefaultData()
+  return db
+}
+
+const createLine = () =>
+  new AcDbLine(new AcGePoint3d(0, 0, 0), new AcGePoint3d(10, 0, 0))
+
+describe('AcDbTransactionManager', () => {
+  it('undoes and redoes appending entities', () => {
+    const db = createDatabase()
+    const manager = db.transactionManager
+    const modelSpace = db.tables.blockTable.modelSpace
+    const line = createLine()
+    manager.startTransaction()
+    modelSpace.appendEntity(line)
+    manager.commit()
+
+    expect(manager.undo()).toBe(true)
+    expect(modelSpace.getIdAt(line.objectId)).toBeUndefined()
+    expect(manager.redo()).toBe(true)
+    expect(modelSpace.getIdAt(line.objectId)).toBe(line)
+    expect(manager.redo()).toBe(false)
+  })
+
+  it('undoes and redoes changes of entity properties and geometries', () => {
+    const db = createDatabase()
+    const manager = db.transactionManager
+    const line = createLine()
+    db.tables.blockTable.modelSpace.appendEntity(line)
+    const modified: unknown[] = []
+    db.events.entityModified.addEventListener(args =>
+      modified.push(args.entity)
+    )
+
+    manager.startTransaction()
+    line.layer = 'X'
+    line.transformBy(new AcGeMatrix3d().makeTranslation(100, 0, 0))
+    line.layer = 'Y'
+    manager.commit()
+
+    manager.undo()
+    expect(line.layer).toBe('0')
+    expect(line.startPoint).toMatchObject({ x: 0, y: 0, z: 0 })
+    expect(line.endPoint).toMatchObject({ x: 10, y: 0, z: 0 })
+    expect(modified).toEqual([line])
+
+    manager.redo()
+    expect(line.layer).toBe('Y')
+    expect(line.startPoint).toMatchObject({ x: 100, y: 0, z: 0 })
+    expect(line.endPoint).toMatchObject({ x: 110, y: 0, z: 0 })
+
+    manager.undo()
+    expect(line.layer).toBe('0')
+    expect(line.startPoint).toMatchObject({ x: 0, y: 0, z: 0 })
+  })
+
+  it('undoes changes made by methods of entities', () => {
+    const db = createDatabase()
+    const manager = db.transactionManager
+    const polyline = new AcDbPolyline()
+    polyline.addVertexAt(0, new AcGePoint2d(0, 0))
+    polyline.addVertexAt(1, new AcGePoint2d(1, 0))
+    db.tables.blockTable.modelSpace.appendEntity(polyline)
+
+    manager.startTransaction()
+    polyline.addVertexAt(2, new AcGePoint2d(1, 1))
+    manager.commit()
+    expect(polyline.numberOfVertices).toBe(3)
+
+    manager.undo()
+    expect(polyline.numberOfVertices).toBe(2)
+    manager.redo()
+    expect(polyline.numberOfVertices).toBe(3)
+    expect(polyline.getPoint2dAt(2)).toMatchObject({ x: 1, y: 1 })
+  })
+
+  it('reverts changes of aborted nested transactions only', () => {
+    const db = createDatabase()
+    const manager = db.transactionManager
+    const line = createLine()
+    db.tables.blockTable.modelSpace.appendEntity(line)
+
+    manager.startTransaction()
+    line.layer = 'A'
+    manager.startTransaction()
+    line.startPoint = new AcGePoint3d(5, 5, 0)
+    line.layer = 'B'
+    manager.abort()
+    expect(line.layer).toBe('A')
+    expect(line.startPoint).toMatchObject({ x: 0, y: 0, z: 0 })
+    manager.commit()
+
+    manager.undo()
+    expect(line.layer).toBe('0')
+  })
+
+  it('records nothing without active transactions', () => {
+    const db = createDatabase()
+    const manager = db.transactionManager
+    const line = createLine()
+    db.tables.blockTable.modelSpace.appendEntity(line)
+    line.layer = 'X'
+    line.transformBy(new AcGeMatrix3d().makeTranslation(1, 0, 0))
+
+    expect(manager.canUndo).toBe(false)
+    expect(manager.undo()).toBe(false)
+    expect(line.layer).toBe('X')
+  })
+})
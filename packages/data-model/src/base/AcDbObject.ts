@@ -134,6 +134,9 @@ export class AcDbObject<ATTRS extends AcDbObjectAttrs = AcDbObjectAttrs> {
   /**
    * Sets the value of an attribute.
    *
+   * If this object is resident in one database with active transactions, the
+   * change is recorded so that it can be undone.
+   *
    * @param attrName - The name of the attribute to set
    * @param val - The value to assign to the attribute
    *
@@ -144,6 +147,14 @@ export class AcDbObject<ATTRS extends AcDbObjectAttrs = AcDbObjectAttrs> {
    */
   setAttr<A extends AcCmStringKey<ATTRS>>(attrName: A, val?: ATTRS[A]) {
     this._attrs.set(attrName, val)
+    const transactionManager = this._database?.transactionManager
+    if (transactionManager?.isRecording && this._attrs.hasChanged(attrName)) {
+      transactionManager.addAttrUndoRecord(
+        this,
+        { [attrName]: this._attrs.previous(attrName) },
+        { [attrName]: val }
+      )
+    }
   }
 
   /**
@@ -256,4 +267,144 @@ export class AcDbObject<ATTRS extends AcDbObjectAttrs = AcDbObjectAttrs> {
    * ```
    */
   close() {}
+
+  /**
+   * Makes sure this object can be modified. It must be called at the beginning
+   * of every method which changes values stored in fields of this object, such
+   * as setters of entity properties and `transformBy`. Changes of attributes
+   * are recorded by {@link setAttr} and don't need to call this method.
+   *
+   * If this object is resident in one database with active transactions,
+   * values of this object are saved when it is modified the first time in the
+   * top transaction so that changes made to it can be undone.
+   *
+   * @example
+   * ```typescript
+   * set radius(value: number) {
+   *   this.assertWriteEnabled()
+   *   this._geo.radius = value
+   * }
+   * ```
+   */
+  assertWriteEnabled() {
+    this._database?.transactionManager.addObjectUndoRecord(this)
+  }
+
+  /**
+   * Saves one deep copy of values stored in fields of this object. Attributes,
+   * the object id and the database of this object aren't saved.
+   *
+   * @returns Saved values of this object
+   * @internal
+   */
+  saveValues() {
+    return this.copyValues(new Map())
+  }
+
+  /**
+   * Replaces values stored in fields of this object with the specified values
+   * saved by {@link saveValues}. The specified values are used directly
+   * instead of being copied.
+   *
+   * @param values - Values saved by {@link saveValues}
+   * @internal
+   */
+  restoreValues(values: Record<string, unknown>) {
+    const target = this as unknown as Record<string, unknown>
+    Object.keys(target).forEach(key => {
+      if (!(key in values) && key !== '_attrs' && key !== '_database') {
+        delete target[key]
+      }
+    })
+    Object.assign(this, values)
+  }
+
+  /**
+   * Creates one deep copy of this object. The copy has one new object id and
+   * isn't added to any database or owner. Values stored in this object (such
+   * as points, vectors and geometries) are copied too. However, references to
+   * other database objects are kept instead of being copied.
+   *
+   * Subclasses which need extra initialization (for example, registering event
+   * listeners) should override this method and initialize the copy after calling
+   * this method.
+   *
+   * @returns The copy of this object
+   *
+   * @example
+   * ```typescript
+   * const copy = line.clone();
+   * copy.transformBy(AcGeMatrix3d.translation(10, 0, 0));
+   * db.tables.blockTable.modelSpace.appendEntity(copy);
+   * ```
+   */
+  clone(): this {
+    const copy = Object.create(Object.getPrototypeOf(this)) as this
+    const copied = new Map<unknown, unknown>()
+    Object.assign(copy, this.copyValues(copied))
+
+    const attrs = deepCopy(this._attrs.attributes, copied)
+    attrs.objectId = uid()
+    delete attrs.ownerId
+    copy._attrs = new AcCmObject<ATTRS>(attrs)
+    return copy
+  }
+
+  private copyValues(copied: Map<unknown, unknown>) {
+    const source = this as unknown as Record<string, unknown>
+    const values: Record<string, unknown> = {}
+    Object.keys(source).forEach(key => {
+      if (key !== '_attrs' && key !== '_database') {
+        values[key] = deepCopy(source[key], copied)
+      }
+    })
+    return values
+  }
+}
+
+/**
+ * Deeply copies the specified value and keeps prototypes of copied objects.
+ * Database objects and binary data (such as images) are shared instead of
+ * being copied.
+ *
+ * @param value - The value to copy
+ * @param copied - Map from values copied already to their copies
+ * @returns The copy of the value
+ */
+function deepCopy<T>(value: T, copied: Map<unknown, unknown>): T {
+  if (value === null || typeof value !== 'object') return value
+  if (value instanceof AcDbObject) return value
+  if (typeof Blob !== 'undefined' && value instanceof Blob) return value
+  if (copied.has(value)) return copied.get(value) as T
+
+  let copy: unknown
+  if (Array.isArray(value)) {
+    const array: unknown[] = []
+    copied.set(value, array)
+    value.forEach(item => array.push(deepCopy(item, copied)))
+    copy = array
+  } else if (value instanceof Map) {
+    const map = new Map()
+    copied.set(value, map)
+    value.forEach((item, key) => map.set(key, deepCopy(item, copied)))
+    copy = map
+  } else if (value instanceof Set) {
+    const set = new Set()
+    copied.set(value, set)
+    value.forEach(item => set.add(deepCopy(item, copied)))
+    copy = set
+  } else if (value instanceof Date) {
+    copy = new Date(value.getTime())
+  } else if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+    copy = (value as unknown as Uint8Array).slice()
+  } else {
+    const object = Object.create(Object.getPrototypeOf(value))
+    copied.set(value, object)
+    Object.keys(value).forEach(key => {
+      object[key] = deepCopy((value as Record<string, unknown>)[key], copied)
+    })
+    copy = object
+  }
+  copied.set(value, copy)
+  return copy as T
 }
@@ -180,6 +180,9 @@ export class AcDbBatchProcessing {
    * asynchronously, allowing the UI to remain responsive.
    *
    * @param callback - The callback function to execute for each chunk
+   * @param signal - Optional signal used to abort processing. If it is aborted,
+   * no more chunks are processed and the returned promise is rejected with the
+   * abort reason of the signal.
    * @returns Promise that resolves when all chunks have been processed
    *
    * @example
@@ -192,10 +195,14 @@ export class AcDbBatchProcessing {
    * });
    * ```
    */
-  public async processChunk(callback: AcDbChunkProcessingCallback) {
+  public async processChunk(
+    callback: AcDbChunkProcessingCallback,
+    signal?: AbortSignal
+  ) {
     let currentIndex = 0
 
     const processNextChunk = async (): Promise<void> => {
+      signal?.throwIfAborted()
       const start = currentIndex
       const end = Math.min(currentIndex + this._chunkSize, this._count)
 
@@ -0,0 +1,299 @@
+// Please don't modify the following two lines to import from '../database' and
+// import from '../misc' so that treeshaking can include classes really needed.
+import { AcDbDwgVersion } from '../database/AcDbDwgVersion'
+import { AcDbCodePage, dwgCodePageToEncoding } from '../misc/AcDbCodePage'
+
+/**
+ * Sentinel at the beginning of binary DXF files.
+ */
+export const AC_DB_BINARY_DXF_SENTINEL = 'AutoCAD Binary DXF\r\n\x1a\0'
+
+/**
+ * Type of the value of one DXF group in binary DXF files.
+ */
+export type AcDbDxfGroupValueType =
+  | 'string'
+  | 'double'
+  | 'int16'
+  | 'int32'
+  | 'int64'
+  | 'bool'
+  | 'binary'
+
+/**
+ * One DXF group (group code and value). Values of binary chunk groups are
+ * formatted as hexadecimal strings as in ASCII DXF files.
+ */
+export interface AcDbDxfGroup {
+  code: number
+  value: string | number
+}
+
+/**
+ * Returns true if the specified data starts with the binary DXF sentinel.
+ *
+ * @param data - The content of one drawing file
+ */
+export function isBinaryDxf(data: ArrayBuffer) {
+  const length = AC_DB_BINARY_DXF_SENTINEL.length
+  if (data.byteLength < length) return false
+  const bytes = new Uint8Array(data, 0, length)
+  for (let i = 0; i < length; ++i) {
+    if (bytes[i] !== AC_DB_BINARY_DXF_SENTINEL.charCodeAt(i)) return false
+  }
+  return true
+}
+
+/**
+ * Gets type of the value of the specified group code in binary DXF files.
+ *
+ * @param code - The group code
+ */
+export function dxfGroupValueType(code: number): AcDbDxfGroupValueType {
+  if (code >= 10 && code <= 59) return 'double'
+  if (code >= 60 && code <= 79) return 'int16'
+  if (code >= 90 && code <= 99) return 'int32'
+  if (code >= 110 && code <= 149) return 'double'
+  if (code >= 160 && code <= 169) return 'int64'
+  if (code >= 170 && code <= 179) return 'int16'
+  if (code >= 210 && code <= 239) return 'double'
+  if (code >= 270 && code <= 289) return 'int16'
+  if (code >= 290 && code <= 299) return 'bool'
+  if (code >= 310 && code <= 319) return 'binary'
+  if (code >= 370 && code <= 389) return 'int16'
+  if (code >= 400 && code <= 409) return 'int16'
+  if (code >= 420 && code <= 429) return 'int32'
+  if (code >= 440 && code <= 459) return 'int32'
+  if (code >= 460 && code <= 469) return 'double'
+  if (code === 1004) return 'binary'
+  if (code >= 1010 && code <= 1059) return 'double'
+  if (code >= 1060 && code <= 1070) return 'int16'
+  if (code === 1071) return 'int32'
+  return 'string'
+}
+
+/**
+ * Tokenizer of binary DXF files.
+ *
+ * It reads DXF groups from binary DXF data and can convert them to ASCII DXF
+ * text so that binary DXF files share the same parser and the same `ParsedDxf`
+ * model as ASCII DXF files. Both one-byte group codes (R12 and before) and
+ * two-byte group codes (R13 and later) are supported.
+ *
+ * Strings are decoded with UTF-8 by default. If the drawing version is AutoCAD
+ * 2000 format (AC1015) or older and `$DWGCODEPAGE` is specified in HEADER
+ * section, strings after it are decoded using the encoding of that code page.
+ *
+ * @example
+ * ```typescript
+ * if (isBinaryDxf(data)) {
+ *   const text = new AcDbBinaryDxfTokenizer(data).toText();
+ * }
+ * ```
+ */
+export class AcDbBinaryDxfTokenizer {
+  private _view: DataView
+  private _bytes: Uint8Array
+  private _offset: number
+  private _isShortCode: boolean
+  private _decoder: TextDecoder
+
+  /**
+   * Creates one tokenizer of the specified binary DXF data.
+   *
+   * @param data - The content of one binary DXF file
+   * @throws {Error} When the data doesn't start with the binary DXF sentinel
+   */
+  constructor(data: ArrayBuffer) {
+    if (!isBinaryDxf(data)) {
+      throw new Error('The data is not a binary DXF file!')
+    }
+    this._view = new DataView(data)
+    this._bytes = new Uint8Array(data)
+    this._offset = AC_DB_BINARY_DXF_SENTINEL.length
+    // The first group is always '0 SECTION'. Group code is stored in one byte
+    // in R12 and older files. So the second byte is 'S' in those files.
+    this._isShortCode = this._bytes[this._offset + 1] === 0x53
+    this._decoder = new TextDecoder()
+  }
+
+  /**
+   * Iterates all of DXF groups in the data until group `0 EOF` or end of the data.
+   *
+   * @throws {Error} When the data ends in the middle of one group
+   */
+  *groups(): Generator<AcDbDxfGroup> {
+    let version: AcDbDwgVersion | undefined
+    let variable: string | undefined
+    while (this._offset < this._bytes.length) {
+      const code = this.readCode()
+      const value = this.readValue(code)
+      yield { code, value }
+
+      if (code === 0 && value === 'EOF') break
+      if (code === 9) {
+        variable = value as string
+      } else if (variable === '$ACADVER' && code === 1) {
+        version = new AcDbDwgVersion(value as string)
+      } else if (variable === '$DWGCODEPAGE' && code === 3) {
+        // Only drawings of AutoCAD 2000 format (AC1015) or older use code page
+        const codePage = AcDbCodePage[value as keyof typeof AcDbCodePage]
+        const encoding = dwgCodePageToEncoding(codePage)
+        if (version && version.value <= 23 && encoding) {
+          this._decoder = new TextDecoder(encoding)
+        }
+      }
+    }
+  }
+
+  /**
+   * Converts the data to ASCII DXF text.
+   */
+  toText() {
+    const lines: string[] = []
+    for (const group of this.groups()) {
+      lines.push(group.code.toString().padStart(3, ' '), group.value.toString())
+    }
+    return lines.join('\n') + '\n'
+  }
+
+  private readCode() {
+    if (this._isShortCode) {
+      const code = this.readUint8()
+      // Code 255 means that the real group code is stored in next two bytes
+      return code === 255 ? this.readInt16() : code
+    }
+    return this.readInt16()
+  }
+
+  private readValue(code: number): string | number {
+    switch (dxfGroupValueType(code)) {
+      case 'double':
+        return this.read(8, offset => this._view.getFloat64(offset, true))
+      case 'int16':
+        return this.readInt16()
+      case 'int32':
+        return this.read(4, offset => this._view.getInt32(offset, true))
+      case 'int64':
+        return this.read(8, offset =>
+          this._view.getBigInt64(offset, true).toString()
+        )
+      case 'bool':
+        return this.readUint8()
+      case 'binary':
+        return this.readBinary()
+      default:
+        return this.readString()
+    }
+  }
+
+  private readUint8() {
+    return this.read(1, offset => this._bytes[offset])
+  }
+
+  private readInt16() {
+    return this.read(2, offset => this._view.getInt16(offset, true))
+  }
+
+  private readString() {
+    const start = this._offset
+    let end = start
+    while (end < this._bytes.length && this._bytes[end] !== 0) ++end
+    if (end >= this._bytes.length) this.throwUnexpectedEnd()
+    this._offset = end + 1
+    return this._decoder.decode(this._bytes.subarray(start, end))
+  }
+
+  private readBinary() {
+    const length = this.readUint8()
+    return this.read(length, offset => {
+      let hex = ''
+      for (let i = 0; i < length; ++i) {
+        hex += this._bytes[offset + i].toString(16).padStart(2, '0')
+      }
+      return hex.toUpperCase()
+    })
+  }
+
+  private read<T>(size: number, reader: (offset: number) => T) {
+    if (this._offset + size > this._bytes.length) this.throwUnexpectedEnd()
+    const value = reader(this._offset)
+    this._offset += size
+    return value
+  }
+
+  private throwUnexpectedEnd(): never {
+    throw new Error(
+      `Unexpected end of binary DXF data at offset ${this._offset}!`
+    )
+  }
+}
+
+/**
+ * Encodes ASCII DXF text to binary DXF data with two-byte group codes. Strings
+ * are encoded with UTF-8.
+ *
+ * @param text - The ASCII DXF text
+ * @returns The binary DXF data
+ */
+export function encodeBinaryDxf(text: string) {
+  const lines = text.split(/\r?\n/)
+  const encoder = new TextEncoder()
+  const parts: Uint8Array[] = [encoder.encode(AC_DB_BINARY_DXF_SENTINEL)]
+  let byteLength = parts[0].length
+
+  const push = (size: number, writer: (view: DataView) => void) => {
+    const part = new Uint8Array(size)
+    writer(new DataView(part.buffer))
+    parts.push(part)
+    byteLength += size
+  }
+
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = parseInt(lines[i].trim())
+    const value = lines[i + 1]
+    if (isNaN(code)) continue
+    push(2, view => view.setInt16(0, code, true))
+    switch (dxfGroupValueType(code)) {
+      case 'double':
+        push(8, view => view.setFloat64(0, parseFloat(value), true))
+        break
+      case 'int16':
+        push(2, view => view.setInt16(0, parseInt(value), true))
+        break
+      case 'int32':
+        push(4, view => view.setInt32(0, parseInt(value), true))
+        break
+      case 'int64':
+        push(8, view => view.setBigInt64(0, BigInt(value.trim()), true))
+        break
+      case 'bool':
+        push(1, view => view.setUint8(0, parseInt(value) ? 1 : 0))
+        break
+      case 'binary': {
+        const hex = value.trim()
+        const length = Math.min(hex.length >> 1, 255)
+        push(length + 1, view => {
+          view.setUint8(0, length)
+          for (let j = 0; j < length; ++j) {
+            view.setUint8(j + 1, parseInt(hex.substring(j * 2, j * 2 + 2), 16))
+          }
+        })
+        break
+      }
+      default: {
+        const bytes = encoder.encode(value)
+        push(bytes.length + 1, view => new Uint8Array(view.buffer).set(bytes))
+        break
+      }
+    }
+  }
+
+  const result = new Uint8Array(byteLength)
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result.buffer
+}
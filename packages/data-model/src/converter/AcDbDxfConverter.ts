@@ -1,5 +1,6 @@
 import { AcCmColor } from '@mlightcad/common'
 import {
+  AttributeEntity,
   InsertEntity,
   MTextEntity,
   ParsedDxf,
@@ -37,8 +38,13 @@ import {
   AcDbConversionProgressCallback,
   AcDbDatabaseConverter
 } from '../database/AcDbDatabaseConverter'
-import { AcDbEntity } from '../entity'
+import { AcDbAttribute, AcDbBlockReference, AcDbEntity } from '../entity'
 import { AcDbBatchProcessing } from './AcDbBatchProcessing'
+import {
+  AcDbDxfMLeaderEntity,
+  AcDbDxfMLeaderStyleObject
+} from './AcDbDxfMLeaderParser'
+import { AcDbDxfMlineStyleObject } from './AcDbDxfMlineParser'
 import { AcDbDxfParser } from './AcDbDxfParser'
 import { AcDbEntityConverter } from './AcDbEntitiyConverter'
 import { AcDbObjectConverter } from './AcDbObjectConverter'
@@ -70,17 +76,26 @@ export class AcDbDxfConverter extends AcDbDatabaseConverter<ParsedDxf> {
    * Parses DXF data into a ParsedDxf object.
    *
    * @param data - The DXF data
+   * @param signal - Optional signal used to abort parsing in the worker
    * @returns Parsed DXF object containing all the parsed data
    *
    */
-  protected async parse(data: ArrayBuffer) {
+  protected async parse(
+    data: ArrayBuffer,
+    _workerUrl?: string,
+    signal?: AbortSignal
+  ) {
     if (this.config.useWorker && this.config.parserWorkerUrl) {
       const api = createWorkerApi({
         workerUrl: this.config.parserWorkerUrl,
         // One concurrent worker needed for parser
         maxConcurrentWorkers: 1
       })
-      const result = await api.execute<ArrayBuffer, ParsedDxf>(data)
+      const result = await api.execute<ArrayBuffer, ParsedDxf>(
+        data,
+        undefined,
+        signal
+      )
       // Release worker
       api.destroy()
       if (result.success) {
@@ -125,6 +140,8 @@ export class AcDbDxfConverter extends AcDbDatabaseConverter<ParsedDxf> {
   protected getFonts(dxf: ParsedDxf) {
     // Build text style map. The key is text style name, and the value is font name list.
     const styleMap = new Map<string, string[]>()
+    // Multileaders reference text styles by handle instead of name
+    const styleHandleMap = new Map<string, string[]>()
     const getFontName = (fontFileName: string) => {
       if (fontFileName) {
         const lastDotIndex = fontFileName.lastIndexOf('.')
@@ -150,15 +167,22 @@ export class AcDbDxfConverter extends AcDbDatabaseConverter<ParsedDxf> {
         if (fontName) fontNames.push(fontName)
       }
       styleMap.set(style.name, fontNames)
+      styleHandleMap.set(style.handle, fontNames)
     })
 
     const fonts: Set<string> = new Set<string>()
-    this.getFontsInBlock(dxf.entities, dxf.blocks, styleMap, fonts)
+    this.getFontsInBlock(
+      dxf.entities,
+      dxf.blocks,
+      styleMap,
+      styleHandleMap,
+      fonts
+    )
     return Array.from(fonts)
   }
 
   /**
-   * Iterates through entities in a block to get fonts used by text, MText, and insert entities.
+   * Iterates through entities in a block to get fonts used by text, MText, attribute and insert entities.
    *
    * This is a helper method that recursively processes entities to extract font information
    * from text-based entities and block references.
@@ -166,18 +190,20 @@ export class AcDbDxfConverter extends AcDbDatabaseConverter<ParsedDxf> {
    * @param entities - Array of DXF entities to process
    * @param blockMap - Map of block definitions
    * @param styleMap - Map of text styles to font names
+   * @param styleHandleMap - Map of handles of text styles to font names
    * @param fonts - Set to collect font names
    *
    * @example
    * ```typescript
    * const fonts = new Set<string>();
-   * converter.getFontsInBlock(entities, blocks, styleMap, fonts);
+   * converter.getFontsInBlock(entities, blocks, styleMap, styleHandleMap, fonts);
    * ```
    */
   private getFontsInBlock(
     entities: CommonDxfEntity[],
     blockMap: Record<string, DxfBlock>,
     styleMap: Map<string, string[]>,
+    styleHandleMap: Map<string, string[]>,
     fonts: Set<string>
   ) {
     const regex = /\\f(.*?)\|/g
@@ -190,15 +216,34 @@ export class AcDbDxfConverter extends AcDbDatabaseConverter<ParsedDxf> {
         })
         const fontNames = styleMap.get(mtext.styleName)
         fontNames?.forEach(name => fonts.add(name))
-      } else if (entity.type == 'TEXT') {
+      } else if (entity.type == 'TEXT' || entity.type == 'ATTDEF') {
         const text = entity as TextEntity
         const fontNames = styleMap.get(text.styleName)
         fontNames?.forEach(name => fonts.add(name))
+      } else if (entity.type == 'ATTRIB') {
+        const attribute = entity as AttributeEntity
+        const fontNames = styleMap.get(attribute.textStyle)
+        fontNames?.forEach(name => fonts.add(name))
+      } else if (entity.type == 'MULTILEADER') {
+        const mleader = entity as AcDbDxfMLeaderEntity
+        ;[...(mleader.text ?? '').matchAll(regex)].forEach(match => {
+          fonts.add(match[1].toLowerCase())
+        })
+        if (mleader.textStyleId) {
+          const fontNames = styleHandleMap.get(mleader.textStyleId)
+          fontNames?.forEach(name => fonts.add(name))
+        }
       } else if (entity.type == 'INSERT') {
         const insert = entity as InsertEntity
         const block = blockMap[insert.name]
         if (block && block.entities)
-          this.getFontsInBlock(block.entities, blockMap, styleMap, fonts)
+          this.getFontsInBlock(
+            block.entities,
+            blockMap,
+            styleMap,
+            styleHandleMap,
+            fonts
+          )
       }
     })
   }
@@ -216,6 +261,7 @@ export class AcDbDxfConverter extends AcDbDatabaseConverter<ParsedDxf> {
    * @param minimumChunkSize - Minimum number of entities to process in each chunk
    * @param startPercentage - Object containing the starting percentage for progress tracking
    * @param progress - Optional callback for progress updates
+   * @param signal - Optional signal used to abort processing
    *
    * @example
    * ```typescript
@@ -227,12 +273,16 @@ export class AcDbDxfConverter extends AcDbDatabaseConverter<ParsedDxf> {
     db: AcDbDatabase,
     minimumChunkSize: number,
     startPercentage: { value: number },
-    progress?: AcDbConversionProgressCallback
+    progress?: AcDbConversionProgressCallback,
+    signal?: AbortSignal
   ) {
     const converter = new AcDbEntityConverter()
 
+    // Attributes are attached to block references instead of model space
+    const attributes = new Map<CommonDxfEntity, AttributeEntity[]>()
+    let entities = this.extractAttributes(dxf.entities, attributes)
+
     // Create an instance of AcDbBatchProcessing
-    let entities = dxf.entities
     const entityCount = entities.length
     const batchProcessor = new AcDbBatchProcessing(
       entityCount,
@@ -255,6 +305,7 @@ export class AcDbDxfConverter extends AcDbDatabaseConverter<ParsedDxf> {
         const entity = entities[i]
         const dbEntity = converter.convert(entity)
         if (dbEntity) {
+          this.attachAttributes(converter, dbEntity, attributes.get(entity))
           if (this.config.convertByEntityType && entity.type !== entityType) {
             modelSpaceBlockTableRecord.appendEntity(dbEntities)
             dbEntities = []
@@ -274,7 +325,7 @@ export class AcDbDxfConverter extends AcDbDatabaseConverter<ParsedDxf> {
         if (percentage > 100) percentage = 100
         await progress(percentage, 'ENTITY', 'IN-PROGRESS')
       }
-    })
+    }, signal)
   }
 
   /**
@@ -296,12 +347,15 @@ export class AcDbDxfConverter extends AcDbDatabaseConverter<ParsedDxf> {
     blockTableRecord: AcDbBlockTableRecord
   ) {
     const converter = new AcDbEntityConverter()
+    const attributes = new Map<CommonDxfEntity, AttributeEntity[]>()
+    entities = this.extractAttributes(entities, attributes)
     const entityCount = entities.length
     const dbEntities: AcDbEntity[] = []
     for (let i = 0; i < entityCount; i++) {
       const entity = entities[i]
       const dbEntity = converter.convert(entity)
       if (dbEntity) {
+        this.attachAttributes(converter, dbEntity, attributes.get(entity))
         dbEntities.push(dbEntity)
       }
     }
@@ -334,6 +388,8 @@ export class AcDbDxfConverter extends AcDbDatabaseConverter<ParsedDxf> {
         dbBlock.name = name
         dbBlock.origin.copy(block.position)
         db.tables.blockTable.add(dbBlock)
+      } else if (block.position) {
+        dbBlock.origin.copy(block.position)
       }
       if (block.entities) {
         this.processEntitiesInBlock(block.entities, dbBlock)
@@ -369,6 +425,11 @@ export class AcDbDxfConverter extends AcDbDatabaseConverter<ParsedDxf> {
     if (header['$EXTMAX']) db.extmax = header['$EXTMAX']
     if (header['$EXTMIN']) db.extmin = header['$EXTMIN']
     if (header['$INSUNITS'] != null) db.insunits = header['$INSUNITS']
+    if (header['$LTSCALE'] != null) db.ltscale = header['$LTSCALE']
+    if (header['$MEASUREMENT'] != null) {
+      db.measurement = header['$MEASUREMENT']
+    }
+    if (header['$CELTSCALE'] != null) db.celtscale = header['$CELTSCALE']
     db.pdmode = header['$PDMODE'] || 0
     db.pdsize = header['$PDSIZE'] || 0.0
   }
@@ -437,6 +498,24 @@ export class AcDbDxfConverter extends AcDbDatabaseConverter<ParsedDxf> {
         imageDefDict.setAt(dbImageDef.objectId, dbImageDef)
       })
     }
+    if ('MLEADERSTYLE' in objects) {
+      const mleaderStyleDict = db.dictionaries.mleaderStyles
+      objects['MLEADERSTYLE'].forEach(style => {
+        const dbStyle = objectConverter.convertMLeaderStyle(
+          style as AcDbDxfMLeaderStyleObject
+        )
+        mleaderStyleDict.setAt(dbStyle.name, dbStyle)
+      })
+    }
+    if ('MLINESTYLE' in objects) {
+      const mlineStyleDict = db.dictionaries.mlineStyles
+      objects['MLINESTYLE'].forEach(style => {
+        const dbStyle = objectConverter.convertMlineStyle(
+          style as AcDbDxfMlineStyleObject
+        )
+        mlineStyleDict.setAt(dbStyle.name, dbStyle)
+      })
+    }
   }
 
   /**
@@ -720,7 +799,11 @@ export class AcDbDxfConverter extends AcDbDatabaseConverter<ParsedDxf> {
           dimaunit: item.DIMAUNIT,
           dimfrac: item.DIMFRAC,
           dimlunit: item.DIMLUNIT,
-          dimdsep: item.DIMDSEP,
+          // DIMDSEP is stored as character code in DXF file
+          dimdsep:
+            typeof item.DIMDSEP === 'number'
+              ? String.fromCharCode(item.DIMDSEP)
+              : item.DIMDSEP,
           dimtmove: item.DIMTMOVE || 0,
           dimjust: item.DIMJUST as unknown as AcDbDimTextHorizontal.Center,
           dimsd1: item.DIMSD1,
@@ -798,4 +881,59 @@ export class AcDbDxfConverter extends AcDbDatabaseConverter<ParsedDxf> {
 
     return order.flatMap(type => groups[type])
   }
+
+  /**
+   * Removes ATTRIB entities from the specified entity array and groups them by
+   * the INSERT entity they belong to. In DXF files, ATTRIB entities of one
+   * INSERT entity are placed right after it.
+   *
+   * @param entities - DXF entities to process
+   * @param attributes - Map to store ATTRIB entities keyed by their INSERT entity
+   * @returns DXF entities excluding ATTRIB entities
+   */
+  private extractAttributes(
+    entities: CommonDxfEntity[],
+    attributes: Map<CommonDxfEntity, AttributeEntity[]>
+  ) {
+    const results: CommonDxfEntity[] = []
+    let insert: CommonDxfEntity | undefined
+    for (const entity of entities) {
+      if (entity.type == 'ATTRIB') {
+        if (insert) {
+          let group = attributes.get(insert)
+          if (!group) {
+            group = []
+            attributes.set(insert, group)
+          }
+          group.push(entity as AttributeEntity)
+        }
+        continue
+      }
+      insert = entity.type == 'INSERT' ? entity : undefined
+      results.push(entity)
+    }
+    return results
+  }
+
+  /**
+   * Converts the specified ATTRIB entities and attaches them to the converted
+   * block reference.
+   *
+   * @param converter - The entity converter
+   * @param dbEntity - The converted entity
+   * @param attributes - ATTRIB entities of the INSERT entity
+   */
+  private attachAttributes(
+    converter: AcDbEntityConverter,
+    dbEntity: AcDbEntity,
+    attributes?: AttributeEntity[]
+  ) {
+    if (!attributes || !(dbEntity instanceof AcDbBlockReference)) return
+    attributes.forEach(attribute => {
+      const dbAttribute = converter.convert(attribute)
+      if (dbAttribute instanceof AcDbAttribute) {
+        dbEntity.appendAttribute(dbAttribute)
+      }
+    })
+  }
 }
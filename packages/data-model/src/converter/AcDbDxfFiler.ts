@@ -0,0 +1,136 @@
+import { AcGePoint2dLike, AcGePoint3dLike } from '@mlightcad/geometry-engine'
+
+/**
+ * Collects DXF group code/value pairs and serializes them to ASCII DXF text.
+ *
+ * This class is the counterpart of the DXF parser. It only knows how to format
+ * group codes and values. Which groups to write and in which order is decided by
+ * the caller (for example, {@link AcDbDxfWriter}).
+ *
+ * @example
+ * ```typescript
+ * const filer = new AcDbDxfFiler();
+ * filer.writeString(0, 'SECTION');
+ * filer.writeString(2, 'ENTITIES');
+ * filer.writeString(0, 'ENDSEC');
+ * const dxf = filer.toString();
+ * ```
+ */
+export class AcDbDxfFiler {
+  /** Lines of the DXF output. Each group produces two lines. */
+  private _lines: string[]
+
+  /**
+   * Creates a new empty DXF filer.
+   */
+  constructor() {
+    this._lines = []
+  }
+
+  /**
+   * Writes one group with a string value.
+   *
+   * Line breaks in the value are replaced with spaces because one group value
+   * must be on one line in DXF files.
+   *
+   * @param code - The group code
+   * @param value - The string value. Nothing is written if it is null or undefined.
+   */
+  writeString(code: number, value: string | null | undefined) {
+    if (value == null) return
+    this.writeGroup(code, value.replace(/\r?\n/g, ' '))
+  }
+
+  /**
+   * Writes one group with an integer value.
+   *
+   * @param code - The group code
+   * @param value - The integer value. Nothing is written if it is null or undefined.
+   */
+  writeInt(code: number, value: number | null | undefined) {
+    if (value == null) return
+    this.writeGroup(code, Math.round(value).toString())
+  }
+
+  /**
+   * Writes one group with a boolean value as integer 1 or 0.
+   *
+   * @param code - The group code
+   * @param value - The boolean value
+   */
+  writeBool(code: number, value: boolean) {
+    this.writeGroup(code, value ? '1' : '0')
+  }
+
+  /**
+   * Writes one group with a floating point value.
+   *
+   * @param code - The group code
+   * @param value - The floating point value. Nothing is written if it is null or undefined.
+   */
+  writeDouble(code: number, value: number | null | undefined) {
+    if (value == null) return
+    this.writeGroup(code, this.formatDouble(value))
+  }
+
+  /**
+   * Writes one handle (hexadecimal object id) group.
+   *
+   * @param code - The group code
+   * @param handle - The handle. Nothing is written if it is empty.
+   */
+  writeHandle(code: number, handle: string | null | undefined) {
+    if (!handle) return
+    this.writeGroup(code, handle)
+  }
+
+  /**
+   * Writes one 2d point as groups `code`, `code + 10`.
+   *
+   * @param code - The group code of x coordinate
+   * @param point - The point to write
+   */
+  writePoint2d(code: number, point: AcGePoint2dLike) {
+    this.writeDouble(code, point.x)
+    this.writeDouble(code + 10, point.y)
+  }
+
+  /**
+   * Writes one 3d point as groups `code`, `code + 10` and `code + 20`.
+   *
+   * @param code - The group code of x coordinate
+   * @param point - The point to write. Its z coordinate is 0 if it is missing.
+   */
+  writePoint3d(code: number, point: AcGePoint2dLike | AcGePoint3dLike) {
+    this.writeDouble(code, point.x)
+    this.writeDouble(code + 10, point.y)
+    this.writeDouble(code + 20, (point as AcGePoint3dLike).z || 0)
+  }
+
+  /**
+   * Writes one group with its value already formatted as string.
+   *
+   * @param code - The group code
+   * @param value - The formatted value
+   */
+  writeGroup(code: number, value: string) {
+    this._lines.push(code.toString().padStart(3, ' '), value)
+  }
+
+  /**
+   * Returns the content written so far as ASCII DXF text.
+   */
+  toString() {
+    return this._lines.join('\n') + '\n'
+  }
+
+  /**
+   * Formats one floating point value. Integers are always written with one decimal
+   * digit so that the value is recognized as a real number by other applications.
+   */
+  private formatDouble(value: number) {
+    if (!isFinite(value)) return '0.0'
+    if (Number.isInteger(value)) return value.toFixed(1)
+    return value.toString()
+  }
+}
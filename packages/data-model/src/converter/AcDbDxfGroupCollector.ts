@@ -0,0 +1,203 @@
+import { CommonDxfEntity, Point3D } from '@mlightcad/dxf-json'
+
+import { AcDbDxfGroup } from './AcDbBinaryDxf'
+
+/**
+ * Groups of one entity or object in one DXF file.
+ */
+export interface AcDbDxfGroupRecord {
+  /** The entity or object type, such as 'MLINE' */
+  type: string
+  /** Groups of the entity or object excluding the leading group with code 0 */
+  groups: AcDbDxfGroup[]
+  /**
+   * Handle of the entity or object preceding this one in the DXF text. It is used
+   * to insert entities skipped by the DXF parser at their original positions. It
+   * is undefined if this one is the first one in its section or block.
+   */
+  previousHandle?: string
+}
+
+/**
+ * Types of entities owned by the entity preceding them, such as vertices of
+ * polylines. They aren't stored in entity lists of the DXF parser.
+ */
+const SUB_ENTITY_TYPES = ['VERTEX', 'ATTRIB', 'SEQEND']
+/**
+ * Types of records starting one section or block instead of one entity or object
+ */
+const CONTAINER_TYPES = ['SECTION', 'BLOCK', 'ENDBLK']
+
+/**
+ * Collects groups of entities and objects of the specified types in the
+ * specified DXF text.
+ *
+ * It is used to parse entities and objects which aren't supported or aren't
+ * fully supported by the DXF parser. Only lines of those entities and objects
+ * are visited. So it is much cheaper than parsing the whole DXF text again.
+ *
+ * @param text - The DXF text
+ * @param types - Entity or object types to collect
+ * @returns Groups of entities and objects in the order of the DXF text
+ */
+export function collectDxfGroups(text: string, types: string[]) {
+  const records: AcDbDxfGroupRecord[] = []
+  // Group codes are always integers. So one line with the type name following
+  // one line with '0' must be one group with code 0.
+  const pattern = new RegExp(`^[ \\t]*0\\r?\\n(${types.join('|')})\\r?$`, 'gm')
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) != null) {
+    const record: AcDbDxfGroupRecord = {
+      type: match[1],
+      groups: [],
+      previousHandle: findPreviousHandle(text, match.index)
+    }
+    let offset = match.index + match[0].length + 1
+    while (offset < text.length) {
+      const codeLine = readLine(text, offset)
+      const valueLine = readLine(text, codeLine.next)
+      const code = parseInt(codeLine.line)
+      if (code === 0 || isNaN(code)) break
+      record.groups.push({ code, value: valueLine.line })
+      offset = valueLine.next
+    }
+    records.push(record)
+    pattern.lastIndex = offset
+  }
+  return records
+}
+
+/**
+ * Reads one point starting from the group with the X coordinate. Y and Z
+ * coordinates are stored in groups with group code plus 10 and 20.
+ *
+ * @param groups - Groups of one entity or object
+ * @param index - The index of the group with the X coordinate
+ * @returns The point and the index of the last group of the point
+ */
+export function readDxfPoint(groups: AcDbDxfGroup[], index: number) {
+  const code = groups[index].code
+  const point: Point3D = {
+    x: parseFloat(String(groups[index].value)),
+    y: 0,
+    z: 0
+  }
+  if (groups[index + 1]?.code === code + 10) {
+    point.y = parseFloat(String(groups[++index].value))
+    if (groups[index + 1]?.code === code + 20) {
+      point.z = parseFloat(String(groups[++index].value))
+    }
+  }
+  return { point, index }
+}
+
+/**
+ * Reads one group shared by all entities, such as handle, layer and color,
+ * into the specified entity.
+ *
+ * @param entity - The entity to store the value of the group
+ * @param code - The group code
+ * @param value - The group value
+ * @returns True if the group is one group shared by all entities
+ */
+export function readDxfCommonEntityGroup(
+  entity: CommonDxfEntity,
+  code: number,
+  value: string
+) {
+  switch (code) {
+    case 5:
+      entity.handle = value.trim()
+      break
+    case 330:
+      // Only the first owner is the block table record owning the entity
+      if (!entity.ownerBlockRecordSoftId) {
+        entity.ownerBlockRecordSoftId = value.trim()
+      }
+      break
+    case 67:
+      entity.isInPaperSpace = parseInt(value) === 1
+      break
+    case 8:
+      entity.layer = value.trim()
+      break
+    case 6:
+      entity.lineType = value.trim()
+      break
+    case 62:
+      entity.colorIndex = parseInt(value)
+      break
+    case 420:
+      entity.color = parseInt(value)
+      break
+    case 370:
+      entity.lineweight = parseInt(value)
+      break
+    case 48:
+      entity.lineTypeScale = parseFloat(value)
+      break
+    case 60:
+      // Keep the same meaning as the DXF parser (true if invisible)
+      entity.isVisible = parseInt(value) === 1
+      break
+    case 440:
+      entity.transparency = parseInt(value)
+      break
+    default:
+      return false
+  }
+  return true
+}
+
+/**
+ * Finds the handle of the entity or object preceding the one starting at the
+ * specified offset. Sub-entities are skipped because they aren't stored in entity
+ * lists of the DXF parser.
+ */
+function findPreviousHandle(text: string, offset: number) {
+  // Lines are visited backward. One line with '0' followed by one line which
+  // isn't one integer must be one group with code 0 because group codes are
+  // always integers.
+  let end = offset - 1
+  let next: string | undefined
+  while (end > 0) {
+    const start = text.lastIndexOf('\n', end - 1) + 1
+    const line = text.substring(start, end).trim()
+    if (line === '0' && next != null && isNaN(parseInt(next))) {
+      if (CONTAINER_TYPES.includes(next)) return undefined
+      if (!SUB_ENTITY_TYPES.includes(next)) return readHandle(text, end + 1)
+    }
+    next = line
+    end = start - 1
+  }
+  return undefined
+}
+
+/**
+ * Reads the handle of the entity or object whose first group after the group
+ * with code 0 starts at the specified offset.
+ */
+function readHandle(text: string, offset: number) {
+  // Skip the line with the type name
+  offset = readLine(text, offset).next
+  while (offset < text.length) {
+    const codeLine = readLine(text, offset)
+    const valueLine = readLine(text, codeLine.next)
+    const code = parseInt(codeLine.line)
+    if (code === 0 || isNaN(code)) break
+    // DIMSTYLE stores its handle in group 105
+    if (code === 5 || code === 105) return valueLine.line.trim()
+    offset = valueLine.next
+  }
+  return undefined
+}
+
+function readLine(text: string, offset: number) {
+  let end = text.indexOf('\n', offset)
+  if (end < 0) end = text.length
+  const line = text.substring(offset, end)
+  return {
+    line: line.endsWith('\r') ? line.substring(0, line.length - 1) : line,
+    next: end + 1
+  }
+}
@@ -0,0 +1,113 @@
+import { CommonDxfEntity, ParsedDxf } from '@mlightcad/dxf-json'
+
+import { AcDbDxfGroup } from './AcDbBinaryDxf'
+import { AcDbDxfGroupRecord } from './AcDbDxfGroupCollector'
+
+/**
+ * One color of one gradient in DXF format.
+ */
+export interface AcDbDxfGradientColor {
+  /** The position of the color in the gradient (group code 463) */
+  value: number
+  /** The color index (group code 63) */
+  colorIndex?: number
+  /** The RGB value (group code 421) */
+  color?: number
+}
+
+/**
+ * Gradient data of one HATCH entity which isn't returned by the DXF parser.
+ */
+export interface AcDbDxfHatchGradient {
+  /** The gradient name (group code 470) */
+  gradientName?: string
+  /** Colors of the gradient */
+  gradientColors?: AcDbDxfGradientColor[]
+}
+
+/**
+ * Parses gradient data of HATCH entities in DXF files.
+ *
+ * DXF parser used by this package reads the gradient flag, angle, shift and tint of HATCH
+ * entities, but it ignores the gradient name and gradient colors. So groups of HATCH entities
+ * are collected from DXF text again and the missing values are added to HATCH entities with the
+ * same handle.
+ *
+ * @internal
+ */
+export class AcDbDxfHatchGradientParser {
+  /**
+   * Entity types parsed by this class
+   */
+  static readonly TYPES = ['HATCH']
+
+  /**
+   * Returns true if the specified DXF text may contain gradient hatches, in which the gradient
+   * flag (group code 450) is 1.
+   *
+   * @param text - The DXF text
+   */
+  static hasGradient(text: string) {
+    return /^[ \t]*450\r?\n[ \t]*1[ \t]*\r?$/m.test(text)
+  }
+
+  /**
+   * Adds gradient names and gradient colors in the specified groups to HATCH entities in the
+   * parsed DXF data.
+   *
+   * @param records - Groups collected from the DXF text
+   * @param parsed - The data parsed from the same DXF text
+   */
+  patch(records: AcDbDxfGroupRecord[], parsed: ParsedDxf) {
+    const gradients = new Map<string, AcDbDxfHatchGradient>()
+    records.forEach(record => {
+      if (record.type !== 'HATCH') return
+      const handle = record.groups.find(group => group.code === 5)
+      const gradient = this.parseGradient(record.groups)
+      if (handle && gradient) {
+        gradients.set(String(handle.value).trim(), gradient)
+      }
+    })
+    if (gradients.size === 0) return
+
+    const patch = (entities: CommonDxfEntity[]) => {
+      entities.forEach(entity => {
+        const gradient = entity.type === 'HATCH' && gradients.get(entity.handle)
+        if (gradient) Object.assign(entity, gradient)
+      })
+    }
+    patch(parsed.entities)
+    Object.values(parsed.blocks).forEach(block => {
+      if (block.entities) patch(block.entities)
+    })
+  }
+
+  private parseGradient(groups: AcDbDxfGroup[]) {
+    let isGradient = false
+    let color: AcDbDxfGradientColor | undefined
+    const gradient: AcDbDxfHatchGradient = { gradientColors: [] }
+    groups.forEach(({ code, value }) => {
+      const text = String(value)
+      switch (code) {
+        case 450:
+          isGradient = parseInt(text) === 1
+          break
+        case 463:
+          color = { value: parseFloat(text) }
+          gradient.gradientColors!.push(color)
+          break
+        // Color groups are used by gradient colors only after group 463
+        case 63:
+          if (color) color.colorIndex = parseInt(text)
+          break
+        case 421:
+          if (color) color.color = parseInt(text)
+          break
+        case 470:
+          gradient.gradientName = text.trim()
+          break
+      }
+    })
+    return isGradient ? gradient : undefined
+  }
+}
@@ -0,0 +1,409 @@
+import {
+  CommonDxfEntity,
+  CommonDXFObject,
+  ParsedDxf,
+  Point3D
+} from '@mlightcad/dxf-json'
+
+import { AcDbDxfGroup } from './AcDbBinaryDxf'
+import { AcDbDxfGroupRecord, readDxfPoint } from './AcDbDxfGroupCollector'
+
+/**
+ * One leader line of one MULTILEADER entity in DXF format.
+ */
+export interface AcDbDxfMLeaderLine {
+  vertices: Point3D[]
+}
+
+/**
+ * One leader (cluster of leader lines sharing one landing) of one MULTILEADER
+ * entity in DXF format.
+ */
+export interface AcDbDxfMLeaderCluster {
+  landingPoint?: Point3D
+  doglegVector?: Point3D
+  doglegLength?: number
+  leaderLines: AcDbDxfMLeaderLine[]
+}
+
+/**
+ * MULTILEADER entity in DXF format. Values of the context data section are
+ * flattened into this interface.
+ */
+export interface AcDbDxfMLeaderEntity extends CommonDxfEntity {
+  type: 'MULTILEADER'
+  styleId?: string
+  leaderLineType?: number
+  enableLanding?: boolean
+  enableDogleg?: boolean
+  doglegLength?: number
+  arrowHeadId?: string
+  arrowHeadSize?: number
+  contentType?: number
+  textStyleId?: string
+  blockContentId?: string
+  contentScale?: number
+  landingGap?: number
+  hasMText?: boolean
+  text?: string
+  textHeight?: number
+  textNormal?: Point3D
+  textLocation?: Point3D
+  textDirection?: Point3D
+  textRotation?: number
+  textWidth?: number
+  textLineSpacingFactor?: number
+  textAttachmentPoint?: number
+  hasBlock?: boolean
+  blockNormal?: Point3D
+  blockPosition?: Point3D
+  blockScale?: Point3D
+  blockRotation?: number
+  leaders: AcDbDxfMLeaderCluster[]
+}
+
+/**
+ * MLEADERSTYLE object in DXF format.
+ */
+export interface AcDbDxfMLeaderStyleObject extends CommonDXFObject {
+  styleName: string
+  description?: string
+  contentType?: number
+  maxLeaderSegmentsPoints?: number
+  leaderLineType?: number
+  enableLanding?: boolean
+  landingGap?: number
+  enableDogleg?: boolean
+  doglegLength?: number
+  arrowHeadId?: string
+  arrowHeadSize?: number
+  defaultMText?: string
+  textStyleId?: string
+  textHeight?: number
+  blockContentId?: string
+  blockScale?: Point3D
+  blockRotation?: number
+  scale?: number
+}
+
+type AcDbDxfMLeaderSection = 'entity' | 'context' | 'leader' | 'line'
+
+/**
+ * Parses MULTILEADER entities and MLEADERSTYLE objects in DXF files.
+ *
+ * DXF parser used by this package doesn't parse context data of MULTILEADER
+ * entities and doesn't support MLEADERSTYLE objects. So their groups are
+ * collected from DXF text again and parsed by this class.
+ *
+ * @internal
+ */
+export class AcDbDxfMLeaderParser {
+  /**
+   * Entity and object types parsed by this class
+   */
+  static readonly TYPES = ['MULTILEADER', 'MLEADERSTYLE']
+
+  /**
+   * Parses MULTILEADER entities and MLEADERSTYLE objects in the specified
+   * groups and patches them into the parsed DXF data. MULTILEADER entities
+   * parsed by the DXF parser are replaced in place.
+   *
+   * @param records - Groups collected from the DXF text
+   * @param parsed - The data parsed from the same DXF text
+   */
+  patch(records: AcDbDxfGroupRecord[], parsed: ParsedDxf) {
+    const mleaders = new Map<string, AcDbDxfGroup[]>()
+    const styles: AcDbDxfGroup[][] = []
+    records.forEach(record => {
+      if (record.type === 'MULTILEADER') {
+        const handle = record.groups.find(group => group.code === 5)
+        if (handle) mleaders.set(String(handle.value).trim(), record.groups)
+      } else if (record.type === 'MLEADERSTYLE') {
+        styles.push(record.groups)
+      }
+    })
+
+    if (mleaders.size > 0) {
+      const replace = (entities: CommonDxfEntity[]) => {
+        entities.forEach((entity, index) => {
+          const groups =
+            entity.type === 'MULTILEADER' && mleaders.get(entity.handle)
+          if (groups) entities[index] = this.parseMLeader(entity, groups)
+        })
+      }
+      replace(parsed.entities)
+      Object.values(parsed.blocks).forEach(block => {
+        if (block.entities) replace(block.entities)
+      })
+    }
+
+    if (styles.length > 0) {
+      const names = this.getDictionaryEntryNames(parsed)
+      parsed.objects.byName['MLEADERSTYLE'] = styles.map(groups =>
+        this.parseMLeaderStyle(groups, names)
+      )
+    }
+  }
+
+  private getDictionaryEntryNames(parsed: ParsedDxf) {
+    const names = new Map<string, string>()
+    const dictionaries = (parsed.objects.byName['DICTIONARY'] ?? []) as {
+      entries?: { name: string; objectSoftId?: string; objectHardId?: string }[]
+    }[]
+    dictionaries.forEach(dictionary => {
+      dictionary.entries?.forEach(entry => {
+        const id = entry.objectSoftId ?? entry.objectHardId
+        if (id) names.set(id, entry.name)
+      })
+    })
+    return names
+  }
+
+  private parseMLeader(entity: CommonDxfEntity, groups: AcDbDxfGroup[]) {
+    const mleader: AcDbDxfMLeaderEntity = {
+      ...entity,
+      type: 'MULTILEADER',
+      leaders: []
+    }
+    let section: AcDbDxfMLeaderSection = 'entity'
+    let leader: AcDbDxfMLeaderCluster | undefined
+    let line: AcDbDxfMLeaderLine | undefined
+
+    for (let i = 0; i < groups.length; ++i) {
+      const { code, value } = groups[i]
+      const text = String(value)
+      const marker = text.trim()
+      if (code === 300 && marker === 'CONTEXT_DATA{') {
+        section = 'context'
+        continue
+      } else if (code === 301 && section === 'context') {
+        section = 'entity'
+        continue
+      } else if (code === 302 && marker === 'LEADER{') {
+        section = 'leader'
+        leader = { leaderLines: [] }
+        mleader.leaders.push(leader)
+        continue
+      } else if (code === 303 && section === 'leader') {
+        section = 'context'
+        continue
+      } else if (code === 304 && section === 'leader') {
+        section = 'line'
+        line = { vertices: [] }
+        leader!.leaderLines.push(line)
+        continue
+      } else if (code === 305 && section === 'line') {
+        section = 'leader'
+        continue
+      }
+
+      const point = () => {
+        const result = readDxfPoint(groups, i)
+        i = result.index
+        return result.point
+      }
+      const num = () => parseFloat(text)
+      const bool = () => parseInt(text) !== 0
+
+      if (section === 'line') {
+        if (code === 10) line!.vertices.push(point())
+      } else if (section === 'leader') {
+        if (code === 10) leader!.landingPoint = point()
+        else if (code === 11) leader!.doglegVector = point()
+        else if (code === 40) leader!.doglegLength = num()
+      } else if (section === 'context') {
+        switch (code) {
+          case 40:
+            mleader.contentScale = num()
+            break
+          case 41:
+            mleader.textHeight = num()
+            break
+          case 140:
+            mleader.arrowHeadSize = num()
+            break
+          case 145:
+            mleader.landingGap = num()
+            break
+          case 290:
+            mleader.hasMText = bool()
+            break
+          case 304:
+            mleader.text = text
+            break
+          case 11:
+            mleader.textNormal = point()
+            break
+          case 340:
+            mleader.textStyleId = marker
+            break
+          case 12:
+            mleader.textLocation = point()
+            break
+          case 13:
+            mleader.textDirection = point()
+            break
+          case 42:
+            mleader.textRotation = num()
+            break
+          case 43:
+            mleader.textWidth = num()
+            break
+          case 45:
+            mleader.textLineSpacingFactor = num()
+            break
+          case 171:
+            mleader.textAttachmentPoint = parseInt(text)
+            break
+          case 296:
+            mleader.hasBlock = bool()
+            break
+          case 341:
+            mleader.blockContentId = marker
+            break
+          case 14:
+            mleader.blockNormal = point()
+            break
+          case 15:
+            mleader.blockPosition = point()
+            break
+          case 16:
+            mleader.blockScale = point()
+            break
+          case 46:
+            mleader.blockRotation = num()
+            break
+        }
+      } else {
+        switch (code) {
+          case 340:
+            mleader.styleId = marker
+            break
+          case 170:
+            mleader.leaderLineType = parseInt(text)
+            break
+          case 290:
+            mleader.enableLanding = bool()
+            break
+          case 291:
+            mleader.enableDogleg = bool()
+            break
+          case 41:
+            mleader.doglegLength = num()
+            break
+          case 342:
+            mleader.arrowHeadId = marker
+            break
+          case 42:
+            if (mleader.arrowHeadSize == null) mleader.arrowHeadSize = num()
+            break
+          case 172:
+            mleader.contentType = parseInt(text)
+            break
+          case 343:
+            if (!mleader.textStyleId) mleader.textStyleId = marker
+            break
+          case 344:
+            if (!mleader.blockContentId) mleader.blockContentId = marker
+            break
+        }
+      }
+    }
+    return mleader
+  }
+
+  private parseMLeaderStyle(
+    groups: AcDbDxfGroup[],
+    names: Map<string, string>
+  ) {
+    const style: AcDbDxfMLeaderStyleObject = {
+      name: 'MLEADERSTYLE',
+      styleName: '',
+      handle: '',
+      ownerObjectId: ''
+    }
+    for (let i = 0; i < groups.length; ++i) {
+      const { code, value } = groups[i]
+      const text = String(value)
+      const marker = text.trim()
+      const num = () => parseFloat(text)
+      const bool = () => parseInt(text) !== 0
+      switch (code) {
+        case 5:
+          style.handle = marker
+          break
+        case 330:
+          if (!style.ownerObjectId) style.ownerObjectId = marker
+          break
+        case 3:
+          style.description = text
+          break
+        case 170:
+          style.contentType = parseInt(text)
+          break
+        case 90:
+          style.maxLeaderSegmentsPoints = parseInt(text)
+          break
+        case 173:
+          style.leaderLineType = parseInt(text)
+          break
+        case 290:
+          style.enableLanding = bool()
+          break
+        case 42:
+          style.landingGap = num()
+          break
+        case 291:
+          style.enableDogleg = bool()
+          break
+        case 43:
+          style.doglegLength = num()
+          break
+        case 341:
+          style.arrowHeadId = marker
+          break
+        case 44:
+          style.arrowHeadSize = num()
+          break
+        case 300:
+          style.defaultMText = text
+          break
+        case 342:
+          style.textStyleId = marker
+          break
+        case 45:
+          style.textHeight = num()
+          break
+        case 343:
+          style.blockContentId = marker
+          break
+        case 47:
+          style.blockScale = {
+            ...(style.blockScale ?? { y: 1, z: 1 }),
+            x: num()
+          }
+          break
+        case 49:
+          style.blockScale = {
+            ...(style.blockScale ?? { x: 1, z: 1 }),
+            y: num()
+          }
+          break
+        case 140:
+          style.blockScale = {
+            ...(style.blockScale ?? { x: 1, y: 1 }),
+            z: num()
+          }
+          break
+        case 141:
+          style.blockRotation = num()
+          break
+        case 142:
+          style.scale = num()
+          break
+      }
+    }
+    style.styleName = names.get(style.handle) ?? style.handle
+    return style
+  }
+}
@@ -0,0 +1,285 @@
+import {
+  CommonDxfEntity,
+  CommonDXFObject,
+  ParsedDxf,
+  Point3D
+} from '@mlightcad/dxf-json'
+
+import { AcDbDxfGroup } from './AcDbBinaryDxf'
+import {
+  AcDbDxfGroupRecord,
+  readDxfCommonEntityGroup,
+  readDxfPoint
+} from './AcDbDxfGroupCollector'
+
+/**
+ * One vertex of one MLINE entity in DXF format.
+ */
+export interface AcDbDxfMlineVertex {
+  position: Point3D
+  direction: Point3D
+  miter: Point3D
+  elementParams: number[][]
+  fillParams: number[][]
+}
+
+/**
+ * MLINE entity in DXF format.
+ */
+export interface AcDbDxfMlineEntity extends CommonDxfEntity {
+  type: 'MLINE'
+  styleName: string
+  styleId?: string
+  scale: number
+  justification: number
+  flags: number
+  numberOfElements: number
+  startPoint?: Point3D
+  extrusionDirection?: Point3D
+  vertices: AcDbDxfMlineVertex[]
+}
+
+/**
+ * One element of one MLINESTYLE object in DXF format.
+ */
+export interface AcDbDxfMlineStyleElement {
+  offset: number
+  colorIndex?: number
+  color?: number
+  lineType?: string
+}
+
+/**
+ * MLINESTYLE object in DXF format.
+ */
+export interface AcDbDxfMlineStyleObject extends CommonDXFObject {
+  styleName: string
+  flags: number
+  description?: string
+  fillColorIndex?: number
+  fillColor?: number
+  startAngle?: number
+  endAngle?: number
+  elements: AcDbDxfMlineStyleElement[]
+}
+
+/**
+ * Parses MLINE entities and MLINESTYLE objects in DXF files.
+ *
+ * DXF parser used by this package doesn't support MLINE entities and
+ * MLINESTYLE objects. So their groups are collected from DXF text again and
+ * parsed by this class.
+ *
+ * @internal
+ */
+export class AcDbDxfMlineParser {
+  /**
+   * Entity and object types parsed by this class
+   */
+  static readonly TYPES = ['MLINE', 'MLINESTYLE']
+
+  /**
+   * Parses MLINE entities and MLINESTYLE objects in the specified groups and
+   * adds them to the parsed DXF data. MLINE entities are added to the block
+   * owning them according to their owner handle. They are inserted after the
+   * entities preceding them in the DXF text so that the draw order is kept.
+   *
+   * @param records - Groups collected from the DXF text
+   * @param parsed - The data parsed from the same DXF text
+   */
+  patch(records: AcDbDxfGroupRecord[], parsed: ParsedDxf) {
+    const blockNames = new Map<string, string>()
+    parsed.tables.BLOCK_RECORD?.entries.forEach(btr => {
+      blockNames.set(btr.handle, btr.name)
+    })
+
+    const styles: AcDbDxfMlineStyleObject[] = []
+    records.forEach(record => {
+      if (record.type === 'MLINE') {
+        const mline = this.parseMline(record.groups)
+        const blockName = mline.ownerBlockRecordSoftId
+          ? blockNames.get(mline.ownerBlockRecordSoftId)
+          : undefined
+        const block = blockName && parsed.blocks[blockName]
+        // Entities in model space and the active paper space are stored in
+        // ENTITIES section instead of BLOCKS section.
+        let entities = parsed.entities
+        if (block && !/^\*(MODEL|PAPER)_SPACE$/i.test(blockName)) {
+          block.entities = block.entities ?? []
+          entities = block.entities
+        }
+        this.insertEntity(entities, mline, record.previousHandle)
+      } else if (record.type === 'MLINESTYLE') {
+        styles.push(this.parseMlineStyle(record.groups))
+      }
+    })
+    if (styles.length > 0) parsed.objects.byName['MLINESTYLE'] = styles
+  }
+
+  /**
+   * Inserts the entity after the entity with the specified handle. The entity is
+   * inserted at the beginning if no handle is specified and appended if no entity
+   * has the handle.
+   */
+  private insertEntity(
+    entities: CommonDxfEntity[],
+    entity: CommonDxfEntity,
+    previousHandle?: string
+  ) {
+    const index = previousHandle
+      ? entities.findIndex(item => item.handle === previousHandle)
+      : -1
+    if (previousHandle && index < 0) {
+      entities.push(entity)
+    } else {
+      entities.splice(index + 1, 0, entity)
+    }
+  }
+
+  private parseMline(groups: AcDbDxfGroup[]) {
+    const mline: AcDbDxfMlineEntity = {
+      type: 'MLINE',
+      handle: '',
+      layer: '0',
+      styleName: 'STANDARD',
+      scale: 1,
+      justification: 0,
+      flags: 0,
+      numberOfElements: 0,
+      vertices: []
+    }
+    let vertex: AcDbDxfMlineVertex | undefined
+    let params: number[] | undefined
+
+    for (let i = 0; i < groups.length; ++i) {
+      const { code, value } = groups[i]
+      const text = String(value)
+      switch (code) {
+        case 2:
+          mline.styleName = text.trim()
+          break
+        case 340:
+          mline.styleId = text.trim()
+          break
+        case 40:
+          mline.scale = parseFloat(text)
+          break
+        case 70:
+          mline.justification = parseInt(text)
+          break
+        case 71:
+          mline.flags = parseInt(text)
+          break
+        case 73:
+          mline.numberOfElements = parseInt(text)
+          break
+        case 10: {
+          const result = readDxfPoint(groups, i)
+          i = result.index
+          mline.startPoint = result.point
+          break
+        }
+        case 210: {
+          const result = readDxfPoint(groups, i)
+          i = result.index
+          mline.extrusionDirection = result.point
+          break
+        }
+        case 11:
+        case 12:
+        case 13: {
+          const result = readDxfPoint(groups, i)
+          i = result.index
+          if (code === 11) {
+            vertex = {
+              position: result.point,
+              direction: { x: 1, y: 0, z: 0 },
+              miter: { x: 0, y: 1, z: 0 },
+              elementParams: [],
+              fillParams: []
+            }
+            mline.vertices.push(vertex)
+          } else if (vertex) {
+            if (code === 12) vertex.direction = result.point
+            else vertex.miter = result.point
+          }
+          break
+        }
+        case 74:
+          params = []
+          vertex?.elementParams.push(params)
+          break
+        case 41:
+          params?.push(parseFloat(text))
+          break
+        case 75:
+          params = []
+          vertex?.fillParams.push(params)
+          break
+        case 42:
+          params?.push(parseFloat(text))
+          break
+        default:
+          readDxfCommonEntityGroup(mline, code, text)
+          break
+      }
+    }
+    return mline
+  }
+
+  private parseMlineStyle(groups: AcDbDxfGroup[]) {
+    const style: AcDbDxfMlineStyleObject = {
+      name: 'MLINESTYLE',
+      styleName: '',
+      handle: '',
+      ownerObjectId: '',
+      flags: 0,
+      elements: []
+    }
+    let element: AcDbDxfMlineStyleElement | undefined
+
+    groups.forEach(({ code, value }) => {
+      const text = String(value)
+      switch (code) {
+        case 5:
+          style.handle = text.trim()
+          break
+        case 330:
+          if (!style.ownerObjectId) style.ownerObjectId = text.trim()
+          break
+        case 2:
+          style.styleName = text.trim()
+          break
+        case 70:
+          style.flags = parseInt(text)
+          break
+        case 3:
+          style.description = text
+          break
+        case 51:
+          style.startAngle = parseFloat(text)
+          break
+        case 52:
+          style.endAngle = parseFloat(text)
+          break
+        case 49:
+          element = { offset: parseFloat(text) }
+          style.elements.push(element)
+          break
+        // Colors and line types before the first element are fill settings
+        case 62:
+          if (element) element.colorIndex = parseInt(text)
+          else style.fillColorIndex = parseInt(text)
+          break
+        case 420:
+          if (element) element.color = parseInt(text)
+          else style.fillColor = parseInt(text)
+          break
+        case 6:
+          if (element) element.lineType = text.trim()
+          break
+      }
+    })
+    return style
+  }
+}
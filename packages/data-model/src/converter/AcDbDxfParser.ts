@@ -4,6 +4,11 @@ import DxfParser, { ParsedDxf } from '@mlightcad/dxf-json'
 // import from '../misc' so that treeshaking can include classes really needed.
 import { AcDbDwgVersion } from '../database/AcDbDwgVersion'
 import { AcDbCodePage, dwgCodePageToEncoding } from '../misc/AcDbCodePage'
+import { AcDbBinaryDxfTokenizer, isBinaryDxf } from './AcDbBinaryDxf'
+import { collectDxfGroups } from './AcDbDxfGroupCollector'
+import { AcDbDxfHatchGradientParser } from './AcDbDxfHatchGradientParser'
+import { AcDbDxfMLeaderParser } from './AcDbDxfMLeaderParser'
+import { AcDbDxfMlineParser } from './AcDbDxfMlineParser'
 
 /**
  * Extracts DXF version and code page from an ArrayBuffer containing the DXF data.
@@ -20,12 +25,15 @@ export interface AcDbDxfHeaderInfo {
  */
 export class AcDbDxfParser {
   parse(data: ArrayBuffer): ParsedDxf {
-    const parser = new DxfParser()
+    // Binary DXF is converted to ASCII DXF text so that they share the same parser
+    if (isBinaryDxf(data)) {
+      return this.parseText(new AcDbBinaryDxfTokenizer(data).toText())
+    }
     // Use our own parser to parse version and code page information only to avoid
     // parsing the whole dxf file in order to imporve performance
     const headerInfo = this.getDxfInfoFromBuffer(data)
-    // If the version is less than or equal to AutoCAD 2000 format (AC1015),
-    // we need to decode it to string.
+    // Strings of drawings of AutoCAD 2000 format (AC1015, version value 23) or
+    // older are decoded with the code page in $DWGCODEPAGE. Newer ones use UTF-8.
     let text = ''
     if (
       headerInfo.version &&
@@ -36,7 +44,25 @@ export class AcDbDxfParser {
     } else {
       text = new TextDecoder().decode(data)
     }
-    return parser.parseSync(text)
+    return this.parseText(text)
+  }
+
+  private parseText(text: string) {
+    const parsed = new DxfParser().parseSync(text)
+    // Some entities and objects aren't supported or aren't fully supported by
+    // the DXF parser. So parse them again and patch them into the parsed data.
+    const types = [...AcDbDxfMLeaderParser.TYPES, ...AcDbDxfMlineParser.TYPES]
+    // Hatches are parsed again only if there are gradient hatches
+    if (AcDbDxfHatchGradientParser.hasGradient(text)) {
+      types.push(...AcDbDxfHatchGradientParser.TYPES)
+    }
+    if (types.some(type => text.includes(type))) {
+      const records = collectDxfGroups(text, types)
+      new AcDbDxfMLeaderParser().patch(records, parsed)
+      new AcDbDxfMlineParser().patch(records, parsed)
+      new AcDbDxfHatchGradientParser().patch(records, parsed)
+    }
+    return parsed
   }
 
   /**
@@ -0,0 +1,1780 @@
+import { AcCmColor, AcCmStringKey } from '@mlightcad/common'
+import {
+  AcGeCircArc2d,
+  AcGeEllipseArc2d,
+  AcGeLine2d,
+  AcGeLoop2d,
+  AcGeMathUtil,
+  AcGePoint3dLike,
+  AcGePolyline2d,
+  AcGeSpline3d,
+  TAU
+} from '@mlightcad/geometry-engine'
+
+import {
+  AcDbBlockTableRecord,
+  AcDbDatabase,
+  AcDbDatabaseWriteOptions,
+  AcDbDatabaseWriter,
+  AcDbDimStyleTableRecord,
+  AcDbDimStyleTableRecordAttrs,
+  AcDbSymbolTableRecord
+} from '../database'
+import { AcDbDwgVersion } from '../database/AcDbDwgVersion'
+import {
+  AcDb2dPolyline,
+  AcDb3dPolyline,
+  AcDb3PointAngularDimension,
+  AcDbAlignedDimension,
+  AcDbArc,
+  AcDbArcDimension,
+  AcDbAttribute,
+  AcDbAttributeDefinition,
+  AcDbBlockReference,
+  AcDbCircle,
+  AcDbDiametricDimension,
+  AcDbDimension,
+  AcDbEllipse,
+  AcDbEntity,
+  AcDbFace,
+  AcDbHatch,
+  AcDbLeader,
+  AcDbLine,
+  AcDbMLeader,
+  AcDbMline,
+  AcDbMText,
+  AcDbOrdinateDimension,
+  AcDbPoint,
+  AcDbPoly2dType,
+  AcDbPoly3dType,
+  AcDbPolyFaceMesh,
+  AcDbPolygonMesh,
+  AcDbPolyline,
+  AcDbPolyMeshType,
+  AcDbRadialDimension,
+  AcDbRasterImage,
+  AcDbRay,
+  AcDbRotatedDimension,
+  AcDbSpline,
+  AcDbTable,
+  AcDbText,
+  AcDbTrace,
+  AcDbViewport,
+  AcDbWipeout,
+  AcDbXline
+} from '../entity'
+import { ByLayer } from '../misc'
+import { AcDbMLeaderContentType } from '../object'
+import { encodeBinaryDxf } from './AcDbBinaryDxf'
+import { AcDbDxfFiler } from './AcDbDxfFiler'
+
+/**
+ * Mapping between dimension style attributes and their DXF group codes.
+ *
+ * The order follows the order used by AutoCAD when writing DIMSTYLE table
+ * entries.
+ */
+const DIM_STYLE_GROUP_CODES: [
+  AcCmStringKey<AcDbDimStyleTableRecordAttrs>,
+  number
+][] = [
+  ['dimpost', 3],
+  ['dimapost', 4],
+  ['dimscale', 40],
+  ['dimasz', 41],
+  ['dimexo', 42],
+  ['dimdli', 43],
+  ['dimexe', 44],
+  ['dimrnd', 45],
+  ['dimdle', 46],
+  ['dimtp', 47],
+  ['dimtm', 48],
+  ['dimtxt', 140],
+  ['dimcen', 141],
+  ['dimtsz', 142],
+  ['dimaltf', 143],
+  ['dimlfac', 144],
+  ['dimtvp', 145],
+  ['dimtfac', 146],
+  ['dimgap', 147],
+  ['dimaltrnd', 148],
+  ['dimtol', 71],
+  ['dimlim', 72],
+  ['dimtih', 73],
+  ['dimtoh', 74],
+  ['dimse1', 75],
+  ['dimse2', 76],
+  ['dimtad', 77],
+  ['dimzin', 78],
+  ['dimazin', 79],
+  ['dimalt', 170],
+  ['dimaltd', 171],
+  ['dimtofl', 172],
+  ['dimsah', 173],
+  ['dimtix', 174],
+  ['dimsoxd', 175],
+  ['dimclrd', 176],
+  ['dimclre', 177],
+  ['dimclrt', 178],
+  ['dimadec', 179],
+  ['dimunit', 270],
+  ['dimdec', 271],
+  ['dimtdec', 272],
+  ['dimaltu', 273],
+  ['dimalttd', 274],
+  ['dimaunit', 275],
+  ['dimfrac', 276],
+  ['dimlunit', 277],
+  ['dimdsep', 278],
+  ['dimjust', 280],
+  ['dimsd1', 281],
+  ['dimsd2', 282],
+  ['dimtolj', 283],
+  ['dimtzin', 284],
+  ['dimaltz', 285],
+  ['dimalttz', 286],
+  ['dimfit', 287],
+  ['dimupt', 288],
+  ['dimatfit', 289],
+  ['dimtxsty', 340],
+  ['dimldrblk', 341],
+  ['dimblk', 342],
+  ['dimblk1', 343],
+  ['dimblk2', 344],
+  ['dimlwd', 371],
+  ['dimlwe', 372]
+]
+
+/**
+ * Maximum length of one text chunk of MTEXT entity. Longer contents are split
+ * into multiple group code 3 values followed by one group code 1 value.
+ */
+const MTEXT_CHUNK_SIZE = 250
+
+/**
+ * Strings are always written as UTF-8. DXF files older than AutoCAD 2007 format
+ * (AC1021) are decoded with the code page in `$DWGCODEPAGE` by AutoCAD and by
+ * `AcDbDxfParser`. So the version written is AC1021 at least.
+ */
+const MIN_UTF8_DXF_VERSION = new AcDbDwgVersion('AC1021')
+
+/**
+ * Database writer to serialize one drawing database to ASCII DXF text or binary
+ * DXF data.
+ *
+ * The output contains HEADER, TABLES, BLOCKS, ENTITIES and OBJECTS sections. It
+ * is designed to be read back by {@link AcDbDxfConverter} so that reading the
+ * output produces one database equivalent to the original one.
+ *
+ * Object ids of database-resident objects are written as DXF handles. Objects
+ * which don't exist in the database (such as symbol tables and BLOCK/ENDBLK
+ * entities) get new handles which don't conflict with existing object ids.
+ *
+ * @example
+ * ```typescript
+ * const writer = new AcDbDxfWriter();
+ * const dxf = writer.write(database);
+ * const binaryDxf = writer.write(database, { binary: true });
+ * ```
+ */
+export class AcDbDxfWriter implements AcDbDatabaseWriter {
+  /** Filer used to format the output of the current write operation */
+  private _filer: AcDbDxfFiler = new AcDbDxfFiler()
+  /** Next handle available for objects created by this writer */
+  private _handseed: number = 1
+
+  /**
+   * Serializes the specified database to ASCII DXF text or binary DXF data.
+   *
+   * @param db - The database to serialize
+   * @param options - Options to write the database
+   * @returns The content of the DXF file. It is one ArrayBuffer if option `binary`
+   * is true, otherwise it is one string.
+   */
+  write(db: AcDbDatabase, options: AcDbDatabaseWriteOptions = {}) {
+    this._filer = new AcDbDxfFiler()
+    this._handseed = this.computeHandseed(db)
+
+    // Handles of objects which are referenced by more than one section
+    const handles = {
+      rootDict: this.newHandle(),
+      layoutDict: this.newHandle(),
+      imageDict: this.newHandle(),
+      mleaderStyleDict: this.newHandle(),
+      mlineStyleDict: this.newHandle()
+    }
+
+    const tables = this.writeTablesToString(db)
+    const blocks = this.writeBlocksToString(db)
+    const entities = this.writeEntitiesToString(db)
+    const objects = this.writeObjectsToString(db, handles)
+
+    // Header needs to be written at last because $HANDSEED is known only
+    // after all of other sections are written.
+    this._filer = new AcDbDxfFiler()
+    this.writeHeader(db)
+    const header = this._filer.toString()
+
+    const text = header + tables + blocks + entities + objects + '  0\nEOF\n'
+    return options.binary ? encodeBinaryDxf(text) : text
+  }
+
+  /**
+   * Computes the first handle which is larger than all of object ids in the
+   * database. Object ids which aren't hexadecimal strings are ignored.
+   */
+  private computeHandseed(db: AcDbDatabase) {
+    let max = 0
+    const check = (id: string) => {
+      if (/^[0-9A-Fa-f]+$/.test(id)) {
+        const value = parseInt(id, 16)
+        if (value > max) max = value
+      }
+    }
+    const tables = db.tables
+    const symbolTables = [
+      tables.viewportTable,
+      tables.linetypeTable,
+      tables.layerTable,
+      tables.textStyleTable,
+      tables.dimStyleTable,
+      tables.blockTable
+    ]
+    symbolTables.forEach(table => {
+      for (const record of table.newIterator()) {
+        check(record.objectId)
+      }
+    })
+    for (const btr of tables.blockTable.newIterator()) {
+      for (const entity of btr.newIterator()) {
+        check(entity.objectId)
+        if (entity instanceof AcDbBlockReference) {
+          for (const attribute of entity.attributeIterator()) {
+            check(attribute.objectId)
+          }
+        }
+      }
+    }
+    for (const layout of db.dictionaries.layouts.newIterator()) {
+      check(layout.objectId)
+    }
+    for (const imageDef of db.dictionaries.imageDefs.newIterator()) {
+      check(imageDef.objectId)
+    }
+    for (const style of db.dictionaries.mleaderStyles.newIterator()) {
+      check(style.objectId)
+    }
+    for (const style of db.dictionaries.mlineStyles.newIterator()) {
+      check(style.objectId)
+    }
+    return max + 1
+  }
+
+  /**
+   * Creates one new handle which isn't used by any object in the database.
+   */
+  private newHandle() {
+    return (this._handseed++).toString(16).toUpperCase()
+  }
+
+  // ---------------------------------------------------------------------
+  // Sections
+  // ---------------------------------------------------------------------
+
+  private beginSection(name: string) {
+    this._filer.writeString(0, 'SECTION')
+    this._filer.writeString(2, name)
+  }
+
+  private endSection() {
+    this._filer.writeString(0, 'ENDSEC')
+  }
+
+  private writeHeader(db: AcDbDatabase) {
+    const filer = this._filer
+    const writeVariable = (name: string) => filer.writeString(9, name)
+
+    this.beginSection('HEADER')
+    writeVariable('$ACADVER')
+    const version =
+      db.version.value < MIN_UTF8_DXF_VERSION.value
+        ? MIN_UTF8_DXF_VERSION
+        : db.version
+    filer.writeString(1, version.name)
+    writeVariable('$DWGCODEPAGE')
+    filer.writeString(3, 'ANSI_1252')
+    writeVariable('$INSBASE')
+    filer.writePoint3d(10, { x: 0, y: 0, z: 0 })
+    if (!db.extents.isEmpty()) {
+      writeVariable('$EXTMIN')
+      filer.writePoint3d(10, db.extmin)
+      writeVariable('$EXTMAX')
+      filer.writePoint3d(10, db.extmax)
+    }
+    writeVariable('$LTSCALE')
+    filer.writeDouble(40, db.ltscale)
+    writeVariable('$CECOLOR')
+    filer.writeInt(62, db.cecolor.colorIndex ?? 256)
+    writeVariable('$CELTSCALE')
+    filer.writeDouble(40, db.celtscale)
+    writeVariable('$INSUNITS')
+    filer.writeInt(70, db.insunits)
+    writeVariable('$MEASUREMENT')
+    filer.writeInt(70, db.measurement)
+    writeVariable('$ANGBASE')
+    filer.writeDouble(50, db.angBase)
+    writeVariable('$ANGDIR')
+    filer.writeInt(70, db.angDir)
+    writeVariable('$AUNITS')
+    filer.writeInt(70, db.aunits)
+    writeVariable('$PDMODE')
+    filer.writeInt(70, db.pdmode)
+    writeVariable('$PDSIZE')
+    filer.writeDouble(40, db.pdsize)
+    writeVariable('$HANDSEED')
+    filer.writeString(5, this._handseed.toString(16).toUpperCase())
+    this.endSection()
+  }
+
+  private writeTablesToString(db: AcDbDatabase) {
+    this._filer = new AcDbDxfFiler()
+    this.beginSection('TABLES')
+    this.writeViewportTable(db)
+    this.writeLinetypeTable(db)
+    this.writeLayerTable(db)
+    this.writeTextStyleTable(db)
+    this.writeDimStyleTable(db)
+    this.writeBlockRecordTable(db)
+    this.endSection()
+    return this._filer.toString()
+  }
+
+  private writeBlocksToString(db: AcDbDatabase) {
+    this._filer = new AcDbDxfFiler()
+    const filer = this._filer
+    this.beginSection('BLOCKS')
+    for (const btr of db.tables.blockTable.newIterator()) {
+      filer.writeString(0, 'BLOCK')
+      filer.writeHandle(5, this.newHandle())
+      filer.writeHandle(330, btr.objectId)
+      filer.writeString(100, 'AcDbEntity')
+      if (btr.isPaperSapce) filer.writeInt(67, 1)
+      filer.writeString(8, '0')
+      filer.writeString(100, 'AcDbBlockBegin')
+      filer.writeString(2, btr.name)
+      filer.writeInt(70, 0)
+      filer.writePoint3d(10, btr.origin)
+      filer.writeString(3, btr.name)
+      filer.writeString(1, '')
+
+      // Entities in model space are written in ENTITIES section
+      if (!btr.isModelSapce) {
+        for (const entity of btr.newIterator()) {
+          this.writeEntity(entity, btr)
+        }
+      }
+
+      filer.writeString(0, 'ENDBLK')
+      filer.writeHandle(5, this.newHandle())
+      filer.writeHandle(330, btr.objectId)
+      filer.writeString(100, 'AcDbEntity')
+      if (btr.isPaperSapce) filer.writeInt(67, 1)
+      filer.writeString(8, '0')
+      filer.writeString(100, 'AcDbBlockEnd')
+    }
+    this.endSection()
+    return this._filer.toString()
+  }
+
+  private writeEntitiesToString(db: AcDbDatabase) {
+    this._filer = new AcDbDxfFiler()
+    this.beginSection('ENTITIES')
+    const modelSpace = db.tables.blockTable.modelSpace
+    for (const entity of modelSpace.newIterator()) {
+      this.writeEntity(entity, modelSpace)
+    }
+    this.endSection()
+    return this._filer.toString()
+  }
+
+  private writeObjectsToString(
+    db: AcDbDatabase,
+    handles: {
+      rootDict: string
+      layoutDict: string
+      imageDict: string
+      mleaderStyleDict: string
+      mlineStyleDict: string
+    }
+  ) {
+    this._filer = new AcDbDxfFiler()
+    const filer = this._filer
+    const layouts = db.dictionaries.layouts.newIterator().toArray()
+    const imageDefs = db.dictionaries.imageDefs.newIterator().toArray()
+    const mleaderStyles = db.dictionaries.mleaderStyles.newIterator().toArray()
+    const mlineStyles = db.dictionaries.mlineStyles.newIterator().toArray()
+
+    this.beginSection('OBJECTS')
+
+    // Named object dictionary
+    filer.writeString(0, 'DICTIONARY')
+    filer.writeHandle(5, handles.rootDict)
+    filer.writeString(330, '0')
+    filer.writeString(100, 'AcDbDictionary')
+    filer.writeInt(281, 1)
+    filer.writeString(3, 'ACAD_IMAGE_DICT')
+    filer.writeHandle(350, handles.imageDict)
+    filer.writeString(3, 'ACAD_LAYOUT')
+    filer.writeHandle(350, handles.layoutDict)
+    filer.writeString(3, 'ACAD_MLEADERSTYLE')
+    filer.writeHandle(350, handles.mleaderStyleDict)
+    filer.writeString(3, 'ACAD_MLINESTYLE')
+    filer.writeHandle(350, handles.mlineStyleDict)
+
+    // Layout dictionary
+    filer.writeString(0, 'DICTIONARY')
+    filer.writeHandle(5, handles.layoutDict)
+    filer.writeHandle(330, handles.rootDict)
+    filer.writeString(100, 'AcDbDictionary')
+    filer.writeInt(281, 1)
+    layouts.forEach(layout => {
+      filer.writeString(3, layout.layoutName)
+      filer.writeHandle(350, layout.objectId)
+    })
+
+    // Image definition dictionary
+    filer.writeString(0, 'DICTIONARY')
+    filer.writeHandle(5, handles.imageDict)
+    filer.writeHandle(330, handles.rootDict)
+    filer.writeString(100, 'AcDbDictionary')
+    filer.writeInt(281, 1)
+    imageDefs.forEach(imageDef => {
+      filer.writeString(3, imageDef.objectId)
+      filer.writeHandle(350, imageDef.objectId)
+    })
+
+    // Multileader style dictionary. Names of multileader styles are stored as
+    // names of dictionary entries.
+    filer.writeString(0, 'DICTIONARY')
+    filer.writeHandle(5, handles.mleaderStyleDict)
+    filer.writeHandle(330, handles.rootDict)
+    filer.writeString(100, 'AcDbDictionary')
+    filer.writeInt(281, 1)
+    mleaderStyles.forEach(style => {
+      filer.writeString(3, style.name)
+      filer.writeHandle(350, style.objectId)
+    })
+
+    // Multiline style dictionary
+    filer.writeString(0, 'DICTIONARY')
+    filer.writeHandle(5, handles.mlineStyleDict)
+    filer.writeHandle(330, handles.rootDict)
+    filer.writeString(100, 'AcDbDictionary')
+    filer.writeInt(281, 1)
+    mlineStyles.forEach(style => {
+      filer.writeString(3, style.name)
+      filer.writeHandle(350, style.objectId)
+    })
+
+    layouts.forEach(layout => {
+      filer.writeString(0, 'LAYOUT')
+      filer.writeHandle(5, layout.objectId)
+      filer.writeHandle(330, handles.layoutDict)
+      filer.writeString(100, 'AcDbPlotSettings')
+      filer.writeString(1, '')
+      filer.writeInt(70, 0)
+      filer.writeString(100, 'AcDbLayout')
+      filer.writeString(1, layout.layoutName)
+      filer.writeInt(70, 1)
+      filer.writeInt(71, layout.tabOrder)
+      filer.writePoint2d(10, layout.limits.min)
+      filer.writePoint2d(11, layout.limits.max)
+      filer.writePoint3d(12, { x: 0, y: 0, z: 0 })
+      filer.writePoint3d(14, layout.extents.min)
+      filer.writePoint3d(15, layout.extents.max)
+      filer.writeHandle(330, layout.blockTableRecordId)
+    })
+
+    imageDefs.forEach(imageDef => {
+      filer.writeString(0, 'IMAGEDEF')
+      filer.writeHandle(5, imageDef.objectId)
+      filer.writeHandle(330, handles.imageDict)
+      filer.writeString(100, 'AcDbRasterImageDef')
+      filer.writeInt(90, 0)
+      filer.writeString(1, imageDef.sourceFileName)
+      filer.writePoint2d(10, { x: 1, y: 1 })
+      filer.writePoint2d(11, { x: 1, y: 1 })
+      filer.writeInt(280, 1)
+      filer.writeInt(281, 0)
+    })
+
+    mleaderStyles.forEach(style => {
+      filer.writeString(0, 'MLEADERSTYLE')
+      filer.writeHandle(5, style.objectId)
+      filer.writeHandle(330, handles.mleaderStyleDict)
+      filer.writeString(100, 'AcDbMLeaderStyle')
+      filer.writeInt(179, 2)
+      filer.writeInt(170, style.contentType)
+      filer.writeInt(90, style.maxLeaderSegmentsPoints)
+      filer.writeInt(173, style.leaderLineType)
+      filer.writeBool(290, style.enableLanding)
+      filer.writeDouble(42, style.landingGap)
+      filer.writeBool(291, style.enableDogleg)
+      filer.writeDouble(43, style.doglegLength)
+      filer.writeString(3, style.description)
+      filer.writeHandle(341, style.arrowSymbolId)
+      filer.writeDouble(44, style.arrowSize)
+      filer.writeString(300, style.defaultMText)
+      filer.writeHandle(342, style.textStyleId)
+      filer.writeDouble(45, style.textHeight)
+      filer.writeHandle(343, style.blockId)
+      filer.writeDouble(47, style.blockScale.x)
+      filer.writeDouble(49, style.blockScale.y)
+      filer.writeDouble(140, style.blockScale.z)
+      filer.writeDouble(141, style.blockRotation)
+      filer.writeDouble(142, style.scale)
+    })
+
+    mlineStyles.forEach(style => {
+      filer.writeString(0, 'MLINESTYLE')
+      filer.writeHandle(5, style.objectId)
+      filer.writeHandle(330, handles.mlineStyleDict)
+      filer.writeString(100, 'AcDbMlineStyle')
+      filer.writeString(2, style.name)
+      filer.writeInt(70, style.flags)
+      filer.writeString(3, style.description)
+      this.writeMlineStyleColor(style.fillColor)
+      filer.writeDouble(51, AcGeMathUtil.radToDeg(style.startAngle))
+      filer.writeDouble(52, AcGeMathUtil.radToDeg(style.endAngle))
+      filer.writeInt(71, style.elements.length)
+      style.elements.forEach(element => {
+        filer.writeDouble(49, element.offset)
+        this.writeMlineStyleColor(element.color)
+        filer.writeString(6, element.linetype)
+      })
+    })
+
+    this.endSection()
+    return this._filer.toString()
+  }
+
+  /**
+   * Writes the fill color or the color of one element of one multiline style.
+   */
+  private writeMlineStyleColor(color: AcCmColor) {
+    this._filer.writeInt(62, color.colorIndex ?? 256)
+    if (color.isByColor) this._filer.writeInt(420, color.RGB)
+  }
+
+  // ---------------------------------------------------------------------
+  // Tables
+  // ---------------------------------------------------------------------
+
+  private beginTable(name: string, handle: string, count: number) {
+    const filer = this._filer
+    filer.writeString(0, 'TABLE')
+    filer.writeString(2, name)
+    filer.writeHandle(5, handle)
+    filer.writeString(330, '0')
+    filer.writeString(100, 'AcDbSymbolTable')
+    filer.writeInt(70, count)
+  }
+
+  private endTable() {
+    this._filer.writeString(0, 'ENDTAB')
+  }
+
+  private writeTableRecordCommon(
+    name: string,
+    record: AcDbSymbolTableRecord,
+    ownerId: string,
+    subclass: string,
+    handleCode = 5
+  ) {
+    const filer = this._filer
+    filer.writeString(0, name)
+    filer.writeHandle(handleCode, record.objectId)
+    filer.writeHandle(330, ownerId)
+    filer.writeString(100, 'AcDbSymbolTableRecord')
+    filer.writeString(100, subclass)
+    filer.writeString(2, record.name)
+  }
+
+  private writeViewportTable(db: AcDbDatabase) {
+    const filer = this._filer
+    const table = db.tables.viewportTable
+    const handle = this.newHandle()
+    this.beginTable('VPORT', handle, table.numEntries)
+    for (const record of table.newIterator()) {
+      const view = record.gsView
+      this.writeTableRecordCommon(
+        'VPORT',
+        record,
+        handle,
+        'AcDbViewportTableRecord'
+      )
+      filer.writeInt(70, record.standardFlag)
+      filer.writePoint2d(10, record.lowerLeftCorner)
+      filer.writePoint2d(11, record.upperRightCorner)
+      filer.writePoint2d(12, record.center)
+      filer.writePoint2d(13, record.snapBase)
+      filer.writePoint2d(14, record.snapIncrements)
+      filer.writePoint2d(15, record.gridIncrements)
+      filer.writePoint3d(16, view.viewDirectionFromTarget)
+      filer.writePoint3d(17, view.viewTarget)
+      filer.writeDouble(42, view.lensLength)
+      filer.writeDouble(43, view.frontClippingPlane)
+      filer.writeDouble(44, view.backClippingPlane)
+      filer.writeDouble(45, view.viewHeight)
+      filer.writeDouble(50, record.snapAngle)
+      filer.writeDouble(51, view.viewTwistAngle)
+      filer.writeInt(72, record.circleSides)
+      view.frozenLayers.forEach(layer => filer.writeString(331, layer))
+      filer.writeString(1, view.styleSheet)
+      filer.writeInt(281, view.renderMode)
+      filer.writeInt(71, view.viewMode)
+      filer.writeInt(74, view.ucsIconSetting)
+      filer.writePoint3d(110, view.ucsOrigin)
+      filer.writePoint3d(111, view.ucsXAxis)
+      filer.writePoint3d(112, view.ucsYAxis)
+      filer.writeInt(79, view.orthographicType)
+      filer.writeInt(170, view.shadePlotSetting)
+      filer.writeInt(61, record.gridMajor)
+      filer.writeHandle(332, record.backgroundObjectId)
+      filer.writeHandle(333, view.shadePlotObjectId)
+      filer.writeHandle(348, view.visualStyleObjectId)
+      filer.writeBool(292, view.isDefaultLightingOn)
+      filer.writeInt(282, view.defaultLightingType)
+      filer.writeDouble(141, view.brightness)
+      filer.writeDouble(142, view.contrast)
+      filer.writeInt(63, view.ambientColor)
+    }
+    this.endTable()
+  }
+
+  private writeLinetypeTable(db: AcDbDatabase) {
+    const filer = this._filer
+    const table = db.tables.linetypeTable
+    const handle = this.newHandle()
+    this.beginTable('LTYPE', handle, table.numEntries)
+    for (const record of table.newIterator()) {
+      const linetype = record.linetype
+      const pattern = linetype.pattern || []
+      this.writeTableRecordCommon(
+        'LTYPE',
+        record,
+        handle,
+        'AcDbLinetypeTableRecord'
+      )
+      filer.writeInt(70, linetype.standardFlag)
+      filer.writeString(3, linetype.description)
+      filer.writeInt(72, 65)
+      filer.writeInt(73, pattern.length)
+      filer.writeDouble(40, linetype.totalPatternLength)
+      pattern.forEach(element => {
+        filer.writeDouble(49, element.elementLength)
+        filer.writeInt(74, element.elementTypeFlag)
+        if (element.elementTypeFlag) {
+          filer.writeInt(75, element.shapeNumber ?? 0)
+          filer.writeHandle(340, element.styleObjectId)
+          filer.writeDouble(46, element.scale ?? 1)
+          filer.writeDouble(50, element.rotation ?? 0)
+          filer.writeDouble(44, element.offsetX ?? 0)
+          filer.writeDouble(45, element.offsetY ?? 0)
+          if (element.elementTypeFlag & 0x02) {
+            filer.writeString(9, element.text ?? '')
+          }
+        }
+      })
+    }
+    this.endTable()
+  }
+
+  private writeLayerTable(db: AcDbDatabase) {
+    const filer = this._filer
+    const table = db.tables.layerTable
+    const handle = this.newHandle()
+    this.beginTable('LAYER', handle, table.numEntries)
+    for (const record of table.newIterator()) {
+      this.writeTableRecordCommon(
+        'LAYER',
+        record,
+        handle,
+        'AcDbLayerTableRecord'
+      )
+      filer.writeInt(70, record.standardFlags)
+      // Negative color index means that the layer is off
+      const colorIndex = record.color.colorIndex ?? 7
+      filer.writeInt(62, record.isOff ? -colorIndex : colorIndex)
+      filer.writeString(6, record.linetype || 'Continuous')
+      filer.writeBool(290, record.isPlottable)
+      filer.writeInt(370, record.lineWeight)
+      if (record.color.isByColor) {
+        filer.writeInt(420, record.color.RGB)
+      }
+    }
+    this.endTable()
+  }
+
+  private writeTextStyleTable(db: AcDbDatabase) {
+    const filer = this._filer
+    const table = db.tables.textStyleTable
+    const handle = this.newHandle()
+    this.beginTable('STYLE', handle, table.numEntries)
+    for (const record of table.newIterator()) {
+      const style = record.textStyle
+      this.writeTableRecordCommon(
+        'STYLE',
+        record,
+        handle,
+        'AcDbTextStyleTableRecord'
+      )
+      filer.writeInt(70, style.standardFlag)
+      filer.writeDouble(40, style.fixedTextHeight)
+      filer.writeDouble(41, style.widthFactor)
+      filer.writeDouble(50, style.obliqueAngle)
+      filer.writeInt(71, style.textGenerationFlag)
+      filer.writeDouble(42, style.lastHeight)
+      filer.writeString(3, style.font)
+      filer.writeString(4, style.bigFont)
+      if (style.extendedFont) {
+        filer.writeString(1001, 'ACAD')
+        filer.writeString(1000, style.extendedFont)
+      }
+    }
+    this.endTable()
+  }
+
+  private writeDimStyleTable(db: AcDbDatabase) {
+    const filer = this._filer
+    const table = db.tables.dimStyleTable
+    const handle = this.newHandle()
+    this.beginTable('DIMSTYLE', handle, table.numEntries)
+    filer.writeString(100, 'AcDbDimStyleTable')
+    filer.writeInt(71, 0)
+    for (const record of table.newIterator()) {
+      this.writeTableRecordCommon(
+        'DIMSTYLE',
+        record,
+        handle,
+        'AcDbDimStyleTableRecord',
+        105
+      )
+      filer.writeInt(70, 0)
+      this.writeDimStyleVariables(record)
+    }
+    this.endTable()
+  }
+
+  private writeDimStyleVariables(record: AcDbDimStyleTableRecord) {
+    const filer = this._filer
+    DIM_STYLE_GROUP_CODES.forEach(([name, code]) => {
+      const value = record.getAttrWithoutException(name)
+      if (value == null || value === '') return
+      if (code == 278 && typeof value === 'string') {
+        // Decimal separator is stored as character code in DXF file
+        filer.writeInt(code, value.charCodeAt(0))
+      } else if (typeof value === 'string') {
+        filer.writeString(code, value)
+      } else if (typeof value === 'number') {
+        if (code < 60 || (code >= 140 && code < 150)) {
+          filer.writeDouble(code, value)
+        } else {
+          filer.writeInt(code, value)
+        }
+      }
+    })
+  }
+
+  private writeBlockRecordTable(db: AcDbDatabase) {
+    const filer = this._filer
+    const table = db.tables.blockTable
+    const handle = this.newHandle()
+    this.beginTable('BLOCK_RECORD', handle, table.numEntries)
+    for (const record of table.newIterator()) {
+      this.writeTableRecordCommon(
+        'BLOCK_RECORD',
+        record,
+        handle,
+        'AcDbBlockTableRecord'
+      )
+      filer.writeHandle(340, record.layoutId)
+    }
+    this.endTable()
+  }
+
+  // ---------------------------------------------------------------------
+  // Entities
+  // ---------------------------------------------------------------------
+
+  /**
+   * Writes one entity. Entities not supported by this writer are skipped.
+   *
+   * @param entity - The entity to write
+   * @param owner - The block table record which owns this entity
+   */
+  private writeEntity(entity: AcDbEntity, owner: AcDbBlockTableRecord) {
+    if (entity instanceof AcDbLine) {
+      this.writeLine(entity, owner)
+    } else if (entity instanceof AcDbArc) {
+      this.writeArc(entity, owner)
+    } else if (entity instanceof AcDbCircle) {
+      this.writeCircle(entity, owner)
+    } else if (entity instanceof AcDbEllipse) {
+      this.writeEllipse(entity, owner)
+    } else if (entity instanceof AcDbPoint) {
+      this.writePoint(entity, owner)
+    } else if (entity instanceof AcDbSpline) {
+      this.writeSpline(entity, owner)
+    } else if (entity instanceof AcDbPolyline) {
+      this.writeLWPolyline(entity, owner)
+    } else if (entity instanceof AcDb2dPolyline) {
+      this.write2dPolyline(entity, owner)
+    } else if (entity instanceof AcDb3dPolyline) {
+      this.write3dPolyline(entity, owner)
+    } else if (entity instanceof AcDbPolyFaceMesh) {
+      this.writePolyFaceMesh(entity, owner)
+    } else if (entity instanceof AcDbPolygonMesh) {
+      this.writePolygonMesh(entity, owner)
+    } else if (entity instanceof AcDbHatch) {
+      this.writeHatch(entity, owner)
+    } else if (entity instanceof AcDbTable) {
+      this.writeTable(entity, owner)
+    } else if (entity instanceof AcDbBlockReference) {
+      this.writeBlockReference(entity, owner)
+    } else if (entity instanceof AcDbAttributeDefinition) {
+      this.writeAttributeDefinition(entity, owner)
+    } else if (entity instanceof AcDbAttribute) {
+      this.writeAttribute(entity, owner, owner.objectId)
+    } else if (entity instanceof AcDbText) {
+      this.writeText(entity, owner)
+    } else if (entity instanceof AcDbMText) {
+      this.writeMText(entity, owner)
+    } else if (entity instanceof AcDbLeader) {
+      this.writeLeader(entity, owner)
+    } else if (entity instanceof AcDbMLeader) {
+      this.writeMLeader(entity, owner)
+    } else if (entity instanceof AcDbMline) {
+      this.writeMline(entity, owner)
+    } else if (entity instanceof AcDbDimension) {
+      this.writeDimension(entity, owner)
+    } else if (entity instanceof AcDbWipeout) {
+      this.writeRasterImage(entity, owner, 'WIPEOUT', 'AcDbWipeout')
+    } else if (entity instanceof AcDbRasterImage) {
+      this.writeRasterImage(entity, owner, 'IMAGE', 'AcDbRasterImage')
+    } else if (entity instanceof AcDbTrace) {
+      this.writeTrace(entity, owner)
+    } else if (entity instanceof AcDbFace) {
+      this.writeFace(entity, owner)
+    } else if (entity instanceof AcDbRay) {
+      this.writeRay(entity, owner, 'RAY', 'AcDbRay')
+    } else if (entity instanceof AcDbXline) {
+      this.writeRay(entity, owner, 'XLINE', 'AcDbXline')
+    } else if (entity instanceof AcDbViewport) {
+      this.writeViewport(entity, owner)
+    }
+  }
+
+  /**
+   * Writes group codes shared by all of entities.
+   *
+   * @param name - The DXF entity name
+   * @param entity - The entity to write
+   * @param owner - The block table record which contains this entity
+   * @param ownerId - The object id of the owner of this entity. It is the block
+   * table record by default and it is the block reference for attributes.
+   */
+  private writeEntityCommon(
+    name: string,
+    entity: AcDbEntity,
+    owner: AcDbBlockTableRecord,
+    ownerId: string = owner.objectId
+  ) {
+    const filer = this._filer
+    filer.writeString(0, name)
+    filer.writeHandle(5, entity.objectId)
+    filer.writeHandle(330, ownerId)
+    filer.writeString(100, 'AcDbEntity')
+    if (owner.isPaperSapce) filer.writeInt(67, 1)
+    filer.writeString(8, entity.layer)
+    if (entity.lineType && entity.lineType !== ByLayer) {
+      filer.writeString(6, entity.lineType)
+    }
+    const color = entity.color
+    if (color.isByColor) {
+      filer.writeInt(420, color.RGB)
+    } else {
+      filer.writeInt(62, color.colorIndex ?? 256)
+    }
+    if (entity.lineWeight !== -1) filer.writeInt(370, entity.lineWeight)
+    if (entity.linetypeScale >= 0) {
+      filer.writeDouble(48, entity.linetypeScale)
+    }
+    if (!entity.visibility) filer.writeInt(60, 1)
+    if (!entity.transparency.isByLayer) {
+      filer.writeInt(440, entity.transparency.serialize())
+    }
+  }
+
+  private writeLine(entity: AcDbLine, owner: AcDbBlockTableRecord) {
+    const filer = this._filer
+    this.writeEntityCommon('LINE', entity, owner)
+    filer.writeString(100, 'AcDbLine')
+    filer.writePoint3d(10, entity.startPoint)
+    filer.writePoint3d(11, entity.endPoint)
+  }
+
+  private writeCircle(entity: AcDbCircle, owner: AcDbBlockTableRecord) {
+    const filer = this._filer
+    this.writeEntityCommon('CIRCLE', entity, owner)
+    filer.writeString(100, 'AcDbCircle')
+    filer.writePoint3d(10, entity.center)
+    filer.writeDouble(40, entity.radius)
+    filer.writePoint3d(210, entity.normal)
+  }
+
+  private writeArc(entity: AcDbArc, owner: AcDbBlockTableRecord) {
+    const filer = this._filer
+    this.writeEntityCommon('ARC', entity, owner)
+    filer.writeString(100, 'AcDbCircle')
+    filer.writePoint3d(10, entity.center)
+    filer.writeDouble(40, entity.radius)
+    filer.writePoint3d(210, entity.normal)
+    filer.writeString(100, 'AcDbArc')
+    filer.writeDouble(50, AcGeMathUtil.radToDeg(entity.startAngle))
+    filer.writeDouble(51, AcGeMathUtil.radToDeg(entity.endAngle))
+  }
+
+  private writeEllipse(entity: AcDbEllipse, owner: AcDbBlockTableRecord) {
+    const filer = this._filer
+    const majorAxis = entity.majorAxis
+      .clone()
+      .multiplyScalar(entity.majorAxisRadius)
+    this.writeEntityCommon('ELLIPSE', entity, owner)
+    filer.writeString(100, 'AcDbEllipse')
+    filer.writePoint3d(10, entity.center)
+    filer.writePoint3d(11, majorAxis)
+    filer.writePoint3d(210, entity.normal)
+    filer.writeDouble(40, entity.minorAxisRadius / entity.majorAxisRadius)
+    filer.writeDouble(41, entity.startAngle)
+    filer.writeDouble(42, entity.endAngle)
+  }
+
+  private writePoint(entity: AcDbPoint, owner: AcDbBlockTableRecord) {
+    const filer = this._filer
+    this.writeEntityCommon('POINT', entity, owner)
+    filer.writeString(100, 'AcDbPoint')
+    filer.writePoint3d(10, entity.position)
+  }
+
+  private writeSpline(entity: AcDbSpline, owner: AcDbBlockTableRecord) {
+    const filer = this._filer
+    const knots = entity.knots
+    const weights = entity.weights
+    const numControlPoints = entity.numControlPoints
+    const numFitPoints = entity.numFitPoints
+    const isRational = weights.some(weight => weight !== 1)
+
+    this.writeEntityCommon('SPLINE', entity, owner)
+    filer.writeString(100, 'AcDbSpline')
+    filer.writePoint3d(210, { x: 0, y: 0, z: 1 })
+    filer.writeInt(
+      70,
+      (entity.closed ? 0x01 : 0) | (isRational ? 0x04 : 0) | 0x08
+    )
+    filer.writeInt(71, entity.degree)
+    filer.writeInt(72, knots.length)
+    filer.writeInt(73, numControlPoints)
+    filer.writeInt(74, numFitPoints)
+    knots.forEach(knot => filer.writeDouble(40, knot))
+    if (isRational) {
+      weights.forEach(weight => filer.writeDouble(41, weight))
+    }
+    for (let i = 0; i < numControlPoints; ++i) {
+      filer.writePoint3d(10, entity.getControlPointAt(i))
+    }
+    for (let i = 0; i < numFitPoints; ++i) {
+      filer.writePoint3d(11, entity.getFitPointAt(i))
+    }
+  }
+
+  private writeLWPolyline(entity: AcDbPolyline, owner: AcDbBlockTableRecord) {
+    const filer = this._filer
+    const count = entity.numberOfVertices
+    this.writeEntityCommon('LWPOLYLINE', entity, owner)
+    filer.writeString(100, 'AcDbPolyline')
+    filer.writeInt(90, count)
+    filer.writeInt(70, entity.closed ? 1 : 0)
+    filer.writeDouble(38, entity.elevation)
+    for (let i = 0; i < count; ++i) {
+      filer.writePoint2d(10, entity.getPoint2dAt(i))
+      const startWidth = entity.getStartWidthAt(i)
+      const endWidth = entity.getEndWidthAt(i)
+      if (startWidth || endWidth) {
+        filer.writeDouble(40, startWidth)
+        filer.writeDouble(41, endWidth)
+      }
+      const bulge = entity.getBulgeAt(i)
+      if (bulge) filer.writeDouble(42, bulge)
+    }
+  }
+
+  private write2dPolyline(entity: AcDb2dPolyline, owner: AcDbBlockTableRecord) {
+    const filer = this._filer
+    let flag = entity.closed ? 0x01 : 0
+    let smoothType = 0
+    switch (entity.polyType) {
+      case AcDbPoly2dType.FitCurvePoly:
+        flag |= 0x02
+        break
+      case AcDbPoly2dType.QuadSplinePoly:
+        flag |= 0x04
+        smoothType = 5
+        break
+      case AcDbPoly2dType.CubicSplinePoly:
+        flag |= 0x04
+        smoothType = 6
+        break
+    }
+
+    this.writeEntityCommon('POLYLINE', entity, owner)
+    filer.writeString(100, 'AcDb2dPolyline')
+    filer.writeInt(66, 1)
+    filer.writePoint3d(10, { x: 0, y: 0, z: entity.elevation })
+    filer.writeInt(70, flag)
+    filer.writeInt(75, smoothType)
+
+    const count = entity.numberOfVertices
+    for (let i = 0; i < count; ++i) {
+      const point = entity.getPointAt(i)
+      this.writeVertexCommon(entity, owner)
+      filer.writeString(100, 'AcDb2dVertex')
+      filer.writePoint3d(10, { x: point.x, y: point.y, z: 0 })
+      const startWidth = entity.getStartWidthAt(i)
+      const endWidth = entity.getEndWidthAt(i)
+      if (startWidth || endWidth) {
+        filer.writeDouble(40, startWidth)
+        filer.writeDouble(41, endWidth)
+      }
+      const bulge = entity.getBulgeAt(i)
+      if (bulge) filer.writeDouble(42, bulge)
+      filer.writeInt(70, 0)
+    }
+    this.writeSeqEnd(entity, owner)
+  }
+
+  private write3dPolyline(entity: AcDb3dPolyline, owner: AcDbBlockTableRecord) {
+    const filer = this._filer
+    let flag = 0x08 | (entity.closed ? 0x01 : 0)
+    let smoothType = 0
+    if (entity.polyType == AcDbPoly3dType.QuadSplinePoly) {
+      flag |= 0x04
+      smoothType = 5
+    } else if (entity.polyType == AcDbPoly3dType.CubicSplinePoly) {
+      flag |= 0x04
+      smoothType = 6
+    }
+
+    this.writeEntityCommon('POLYLINE', entity, owner)
+    filer.writeString(100, 'AcDb3dPolyline')
+    filer.writeInt(66, 1)
+    filer.writePoint3d(10, { x: 0, y: 0, z: 0 })
+    filer.writeInt(70, flag)
+    filer.writeInt(75, smoothType)
+
+    const count = entity.numberOfVertices
+    for (let i = 0; i < count; ++i) {
+      this.writeVertexCommon(entity, owner)
+      filer.writeString(100, 'AcDb3dPolylineVertex')
+      filer.writePoint3d(10, entity.getPointAt(i))
+      filer.writeInt(70, 32)
+    }
+    this.writeSeqEnd(entity, owner)
+  }
+
+  private writePolyFaceMesh(
+    entity: AcDbPolyFaceMesh,
+    owner: AcDbBlockTableRecord
+  ) {
+    const filer = this._filer
+    this.writeEntityCommon('POLYLINE', entity, owner)
+    filer.writeString(100, 'AcDbPolyFaceMesh')
+    filer.writeInt(66, 1)
+    filer.writePoint3d(10, { x: 0, y: 0, z: 0 })
+    filer.writeInt(70, 0x40)
+    filer.writeInt(71, entity.numVertices)
+    filer.writeInt(72, entity.numFaces)
+
+    for (let i = 0; i < entity.numVertices; ++i) {
+      this.writeVertexCommon(entity, owner)
+      filer.writeString(100, 'AcDbPolyFaceMeshVertex')
+      filer.writePoint3d(10, entity.getVertexAt(i))
+      filer.writeInt(70, 192)
+    }
+    for (let i = 0; i < entity.numFaces; ++i) {
+      this.writeVertexCommon(entity, owner)
+      filer.writeString(100, 'AcDbFaceRecord')
+      filer.writePoint3d(10, { x: 0, y: 0, z: 0 })
+      filer.writeInt(70, 128)
+      entity
+        .getFaceRecordAt(i)
+        .forEach((index, j) => filer.writeInt(71 + j, index))
+    }
+    this.writeSeqEnd(entity, owner)
+  }
+
+  private writePolygonMesh(
+    entity: AcDbPolygonMesh,
+    owner: AcDbBlockTableRecord
+  ) {
+    const filer = this._filer
+    let flag = 0x10 | (entity.mClosed ? 0x01 : 0) | (entity.nClosed ? 0x20 : 0)
+    let smoothType = 0
+    if (entity.polyMeshType == AcDbPolyMeshType.QuadSurfaceMesh) {
+      flag |= 0x04
+      smoothType = 5
+    } else if (entity.polyMeshType == AcDbPolyMeshType.CubicSurfaceMesh) {
+      flag |= 0x04
+      smoothType = 6
+    } else if (entity.polyMeshType == AcDbPolyMeshType.BezierSurfaceMesh) {
+      flag |= 0x04
+      smoothType = 8
+    }
+
+    this.writeEntityCommon('POLYLINE', entity, owner)
+    filer.writeString(100, 'AcDbPolygonMesh')
+    filer.writeInt(66, 1)
+    filer.writePoint3d(10, { x: 0, y: 0, z: 0 })
+    filer.writeInt(70, flag)
+    filer.writeInt(71, entity.mSize)
+    filer.writeInt(72, entity.nSize)
+    filer.writeInt(73, entity.mSurfaceDensity)
+    filer.writeInt(74, entity.nSurfaceDensity)
+    filer.writeInt(75, smoothType)
+
+    for (let m = 0; m < entity.mSize; ++m) {
+      for (let n = 0; n < entity.nSize; ++n) {
+        this.writeVertexCommon(entity, owner)
+        filer.writeString(100, 'AcDbPolygonMeshVertex')
+        filer.writePoint3d(10, entity.getVertexAt(m, n))
+        filer.writeInt(70, 64)
+      }
+    }
+    this.writeSeqEnd(entity, owner)
+  }
+
+  /**
+   * Writes group codes shared by VERTEX entities of one POLYLINE entity.
+   * Vertices have no object id in database. So new handles are used.
+   */
+  private writeVertexCommon(polyline: AcDbEntity, owner: AcDbBlockTableRecord) {
+    const filer = this._filer
+    filer.writeString(0, 'VERTEX')
+    filer.writeHandle(5, this.newHandle())
+    filer.writeHandle(330, polyline.objectId)
+    filer.writeString(100, 'AcDbEntity')
+    if (owner.isPaperSapce) filer.writeInt(67, 1)
+    filer.writeString(8, polyline.layer)
+    filer.writeString(100, 'AcDbVertex')
+  }
+
+  /**
+   * Writes one SEQEND entity which terminates vertices of one POLYLINE entity
+   * or attributes of one INSERT entity.
+   */
+  private writeSeqEnd(parent: AcDbEntity, owner: AcDbBlockTableRecord) {
+    const filer = this._filer
+    filer.writeString(0, 'SEQEND')
+    filer.writeHandle(5, this.newHandle())
+    filer.writeHandle(330, parent.objectId)
+    filer.writeString(100, 'AcDbEntity')
+    if (owner.isPaperSapce) filer.writeInt(67, 1)
+    filer.writeString(8, parent.layer)
+  }
+
+  private writeHatch(entity: AcDbHatch, owner: AcDbBlockTableRecord) {
+    const filer = this._filer
+    const loops = entity.loops
+    this.writeEntityCommon('HATCH', entity, owner)
+    filer.writeString(100, 'AcDbHatch')
+    filer.writePoint3d(10, { x: 0, y: 0, z: entity.elevation })
+    filer.writePoint3d(210, { x: 0, y: 0, z: 1 })
+    filer.writeString(2, entity.patternName)
+    filer.writeInt(70, entity.isSolidFill ? 1 : 0)
+    filer.writeInt(71, 0)
+    filer.writeInt(91, loops.length)
+    loops.forEach(loop => {
+      if (loop instanceof AcGePolyline2d) {
+        this.writeHatchPolylineLoop(loop)
+      } else {
+        this.writeHatchEdgeLoop(loop)
+      }
+    })
+    filer.writeInt(75, entity.hatchStyle)
+    filer.writeInt(76, entity.patternType)
+    if (!entity.isSolidFill) {
+      const lines = entity.definitionLines
+      filer.writeDouble(52, entity.patternAngle)
+      filer.writeDouble(41, entity.patternScale)
+      filer.writeInt(77, 0)
+      filer.writeInt(78, lines.length)
+      lines.forEach(line => {
+        filer.writeDouble(53, line.angle)
+        filer.writeDouble(43, line.origin.x)
+        filer.writeDouble(44, line.origin.y)
+        filer.writeDouble(45, line.delta.x)
+        filer.writeDouble(46, line.delta.y)
+        filer.writeInt(79, line.dashPattern.length)
+        line.dashPattern.forEach(dash => filer.writeDouble(49, dash))
+      })
+    }
+    filer.writeInt(98, 0)
+    if (entity.isGradient) {
+      const colors = entity.gradientColors
+      filer.writeInt(450, 1)
+      filer.writeInt(451, 0)
+      filer.writeDouble(460, entity.gradientAngle)
+      filer.writeDouble(461, entity.gradientShift)
+      filer.writeInt(452, entity.gradientOneColorMode ? 1 : 0)
+      filer.writeDouble(462, entity.shadeTintValue)
+      filer.writeInt(453, colors.length)
+      colors.forEach((color, index) => {
+        filer.writeDouble(463, index)
+        if (color.isByACI) filer.writeInt(63, color.colorIndex!)
+        if (color.RGB != null) filer.writeInt(421, color.RGB)
+      })
+      filer.writeString(470, entity.gradientName)
+    }
+  }
+
+  private writeHatchPolylineLoop(loop: AcGePolyline2d) {
+    const filer = this._filer
+    const vertices = loop.vertices
+    const hasBulge = vertices.some(vertex => !!vertex.bulge)
+    filer.writeInt(92, 0x02)
+    filer.writeBool(72, hasBulge)
+    filer.writeBool(73, loop.closed)
+    filer.writeInt(93, vertices.length)
+    vertices.forEach(vertex => {
+      filer.writePoint2d(10, vertex)
+      if (hasBulge) filer.writeDouble(42, vertex.bulge || 0)
+    })
+    filer.writeInt(97, 0)
+  }
+
+  private writeHatchEdgeLoop(loop: AcGeLoop2d) {
+    const filer = this._filer
+    const edges = loop.curves
+    filer.writeInt(92, 0)
+    filer.writeInt(93, edges.length)
+    edges.forEach(edge => {
+      if (edge instanceof AcGeLine2d) {
+        filer.writeInt(72, 1)
+        filer.writePoint2d(10, edge.startPoint)
+        filer.writePoint2d(11, edge.endPoint)
+      } else if (edge instanceof AcGeCircArc2d) {
+        filer.writeInt(72, 2)
+        filer.writePoint2d(10, edge.center)
+        filer.writeDouble(40, edge.radius)
+        filer.writeDouble(50, AcGeMathUtil.radToDeg(edge.startAngle))
+        filer.writeDouble(51, AcGeMathUtil.radToDeg(edge.endAngle))
+        filer.writeBool(73, !edge.clockwise)
+      } else if (edge instanceof AcGeEllipseArc2d) {
+        // The reader stores angles of clockwise elliptical arcs as
+        // `2 * PI - angle`. So it is reverted here.
+        let startAngle = edge.startAngle
+        let endAngle = edge.endAngle
+        if (edge.clockwise) {
+          startAngle = (TAU - startAngle) % TAU
+          endAngle = (TAU - endAngle) % TAU
+        }
+        const rotation = edge.rotation
+        filer.writeInt(72, 3)
+        filer.writePoint2d(10, edge.center)
+        filer.writePoint2d(11, {
+          x: edge.majorAxisRadius * Math.cos(rotation),
+          y: edge.majorAxisRadius * Math.sin(rotation)
+        })
+        filer.writeDouble(40, edge.minorAxisRadius / edge.majorAxisRadius)
+        filer.writeDouble(50, AcGeMathUtil.radToDeg(startAngle))
+        filer.writeDouble(51, AcGeMathUtil.radToDeg(endAngle))
+        filer.writeBool(73, !edge.clockwise)
+      } else if (edge instanceof AcGeSpline3d) {
+        this.writeHatchSplineEdge(edge)
+      }
+    })
+    filer.writeInt(97, 0)
+  }
+
+  private writeHatchSplineEdge(edge: AcGeSpline3d) {
+    const filer = this._filer
+    const knots = edge.knots
+    const weights = edge.weights
+    const count = edge.numControlPoints
+    const isRational = weights.some(weight => weight !== 1)
+    filer.writeInt(72, 4)
+    filer.writeInt(94, edge.degree)
+    filer.writeBool(73, isRational)
+    filer.writeBool(74, false)
+    filer.writeInt(95, knots.length)
+    filer.writeInt(96, count)
+    knots.forEach(knot => filer.writeDouble(40, knot))
+    for (let i = 0; i < count; ++i) {
+      filer.writePoint2d(10, edge.getControlPointAt(i))
+      if (isRational) filer.writeDouble(42, weights[i])
+    }
+    filer.writeInt(97, 0)
+  }
+
+  private writeBlockReference(
+    entity: AcDbBlockReference,
+    owner: AcDbBlockTableRecord
+  ) {
+    const filer = this._filer
+    const attributes = entity.attributeIterator().toArray()
+    this.writeEntityCommon('INSERT', entity, owner)
+    filer.writeString(100, 'AcDbBlockReference')
+    if (attributes.length > 0) filer.writeInt(66, 1)
+    filer.writeString(2, entity.blockName)
+    filer.writePoint3d(10, entity.position)
+    filer.writeDouble(41, entity.scaleFactors.x)
+    filer.writeDouble(42, entity.scaleFactors.y)
+    filer.writeDouble(43, entity.scaleFactors.z)
+    filer.writeDouble(50, AcGeMathUtil.radToDeg(entity.rotation))
+    filer.writePoint3d(210, entity.normal)
+
+    // Attributes are written right after the block reference and terminated
+    // by one SEQEND entity.
+    if (attributes.length > 0) {
+      attributes.forEach(attribute =>
+        this.writeAttribute(attribute, owner, entity.objectId)
+      )
+      this.writeSeqEnd(entity, owner)
+    }
+  }
+
+  private writeTable(entity: AcDbTable, owner: AcDbBlockTableRecord) {
+    const filer = this._filer
+    const numRows = entity.numRows
+    const numColumns = entity.numColumns
+    this.writeEntityCommon('ACAD_TABLE', entity, owner)
+    filer.writeString(100, 'AcDbBlockReference')
+    filer.writeString(2, entity.blockName)
+    filer.writePoint3d(10, entity.position)
+    filer.writeString(100, 'AcDbTable')
+    filer.writeInt(280, 0)
+    filer.writePoint3d(11, { x: 1, y: 0, z: 0 })
+    filer.writeInt(91, numRows)
+    filer.writeInt(92, numColumns)
+    filer.writeInt(170, entity.attachmentPoint)
+    for (let i = 0; i < numRows; ++i) {
+      filer.writeDouble(141, entity.rowHeight(i) ?? 0)
+    }
+    for (let i = 0; i < numColumns; ++i) {
+      filer.writeDouble(142, entity.columnWidth(i) ?? 0)
+    }
+    for (let i = 0; i < numRows * numColumns; ++i) {
+      const cell = entity.cell(i)
+      if (!cell) continue
+      filer.writeInt(171, cell.cellType)
+      filer.writeInt(172, cell.flagValue)
+      filer.writeInt(173, cell.mergedValue)
+      filer.writeInt(174, cell.autoFit)
+      filer.writeDouble(175, cell.borderWidth)
+      filer.writeDouble(176, cell.borderHeight)
+      filer.writeInt(91, cell.overrideFlag)
+      filer.writeInt(178, cell.virtualEdgeFlag)
+      filer.writeDouble(145, cell.rotation)
+      filer.writeHandle(345, cell.fieldObjetId)
+      filer.writeHandle(340, cell.blockTableRecordId)
+      filer.writeDouble(146, cell.blockScale)
+      filer.writeInt(177, cell.blockAttrNum)
+      filer.writeString(7, cell.textStyle)
+      filer.writeDouble(140, cell.textHeight)
+      filer.writeInt(170, cell.attachmentPoint)
+      filer.writeInt(92, cell.extendedCellFlags)
+      filer.writeString(301, 'CELL_VALUE')
+      filer.writeString(1, cell.text)
+      filer.writeString(304, 'ACVALUE_END')
+    }
+  }
+
+  private writeText(entity: AcDbText, owner: AcDbBlockTableRecord) {
+    const filer = this._filer
+    this.writeEntityCommon('TEXT', entity, owner)
+    this.writeTextData(entity)
+    filer.writeString(100, 'AcDbText')
+    filer.writeInt(73, entity.verticalMode)
+  }
+
+  /**
+   * Writes group codes of subclass AcDbText shared by TEXT, ATTDEF and ATTRIB
+   * entities. The vertical alignment isn't written because its group code is
+   * different for them.
+   */
+  private writeTextData(entity: AcDbText) {
+    const filer = this._filer
+    filer.writeString(100, 'AcDbText')
+    filer.writeDouble(39, entity.thickness)
+    filer.writePoint3d(10, entity.position)
+    filer.writeDouble(40, entity.height)
+    filer.writeString(1, entity.textString)
+    filer.writeDouble(50, AcGeMathUtil.radToDeg(entity.rotation))
+    filer.writeDouble(41, entity.widthFactor)
+    filer.writeDouble(51, entity.oblique)
+    filer.writeString(7, entity.styleName)
+    filer.writeInt(72, entity.horizontalMode)
+    filer.writePoint3d(11, entity.position)
+  }
+
+  private writeAttributeDefinition(
+    entity: AcDbAttributeDefinition,
+    owner: AcDbBlockTableRecord
+  ) {
+    const filer = this._filer
+    this.writeEntityCommon('ATTDEF', entity, owner)
+    this.writeTextData(entity)
+    filer.writeString(100, 'AcDbAttributeDefinition')
+    filer.writeInt(280, 0)
+    filer.writeString(3, entity.prompt)
+    filer.writeString(2, entity.tag)
+    filer.writeInt(70, entity.flags)
+    filer.writeInt(74, entity.verticalMode)
+    filer.writeInt(280, entity.lockPositionInBlock ? 1 : 0)
+  }
+
+  /**
+   * Writes one ATTRIB entity.
+   *
+   * @param entity - The attribute to write
+   * @param owner - The block table record which contains the block reference
+   * @param ownerId - The object id of the block reference owning this attribute
+   */
+  private writeAttribute(
+    entity: AcDbAttribute,
+    owner: AcDbBlockTableRecord,
+    ownerId: string
+  ) {
+    const filer = this._filer
+    this.writeEntityCommon('ATTRIB', entity, owner, ownerId)
+    this.writeTextData(entity)
+    filer.writeString(100, 'AcDbAttribute')
+    filer.writeInt(280, 0)
+    filer.writeString(2, entity.tag)
+    filer.writeInt(70, entity.flags)
+    filer.writeInt(74, entity.verticalMode)
+    filer.writeInt(280, entity.lockPositionInBlock ? 1 : 0)
+  }
+
+  private writeMText(entity: AcDbMText, owner: AcDbBlockTableRecord) {
+    const filer = this._filer
+    const contents = entity.contents
+    this.writeEntityCommon('MTEXT', entity, owner)
+    filer.writeString(100, 'AcDbMText')
+    filer.writePoint3d(10, entity.location)
+    filer.writeDouble(40, entity.height)
+    filer.writeDouble(41, entity.width)
+    filer.writeInt(71, entity.attachmentPoint)
+    filer.writeInt(72, entity.drawingDirection)
+    let index = 0
+    while (contents.length - index > MTEXT_CHUNK_SIZE) {
+      filer.writeString(3, contents.substr(index, MTEXT_CHUNK_SIZE))
+      index += MTEXT_CHUNK_SIZE
+    }
+    filer.writeString(1, contents.substr(index))
+    filer.writeString(7, entity.styleName)
+    filer.writePoint3d(11, entity.direction)
+    filer.writeDouble(50, AcGeMathUtil.radToDeg(entity.rotation))
+    filer.writeInt(73, entity.lineSpacingStyle)
+    filer.writeDouble(44, entity.lineSpacingFactor)
+  }
+
+  private writeLeader(entity: AcDbLeader, owner: AcDbBlockTableRecord) {
+    const filer = this._filer
+    const count = entity.numVertices
+    this.writeEntityCommon('LEADER', entity, owner)
+    filer.writeString(100, 'AcDbLeader')
+    filer.writeString(3, entity.dimensionStyle)
+    filer.writeBool(71, entity.hasArrowHead)
+    filer.writeBool(72, entity.isSplined)
+    filer.writeInt(73, entity.annoType)
+    filer.writeInt(74, 0)
+    filer.writeBool(75, entity.hasHookLine)
+    filer.writeInt(76, count)
+    for (let i = 0; i < count; ++i) {
+      filer.writePoint3d(10, entity.vertexAt(i))
+    }
+  }
+
+  /**
+   * Writes one MULTILEADER entity. Content and leader clusters are written in
+   * the context data section. Properties overriding the multileader style are
+   * written after it.
+   */
+  private writeMLeader(entity: AcDbMLeader, owner: AcDbBlockTableRecord) {
+    const filer = this._filer
+    const hasMText = entity.contentType === AcDbMLeaderContentType.MTextContent
+    const hasBlock = entity.contentType === AcDbMLeaderContentType.BlockContent
+    this.writeEntityCommon('MULTILEADER', entity, owner)
+    filer.writeString(100, 'AcDbMLeader')
+    filer.writeInt(270, 2)
+
+    filer.writeString(300, 'CONTEXT_DATA{')
+    filer.writeDouble(40, 1)
+    filer.writePoint3d(
+      10,
+      hasBlock ? entity.blockPosition : entity.textLocation
+    )
+    filer.writeDouble(41, entity.textHeight)
+    filer.writeDouble(140, entity.arrowSize)
+    filer.writeDouble(145, entity.landingGap)
+    filer.writeBool(290, hasMText)
+    if (hasMText) {
+      filer.writeString(304, entity.contents)
+      filer.writePoint3d(11, entity.normal)
+      filer.writeHandle(340, entity.textStyleId)
+      filer.writePoint3d(12, entity.textLocation)
+      filer.writePoint3d(13, entity.textDirection)
+      filer.writeDouble(42, entity.textRotation)
+      filer.writeDouble(43, entity.textWidth)
+      filer.writeDouble(45, 1)
+      filer.writeInt(171, entity.textAttachmentPoint)
+    }
+    filer.writeBool(296, hasBlock)
+    if (hasBlock) {
+      filer.writeHandle(341, entity.blockContentId)
+      filer.writePoint3d(14, entity.normal)
+      filer.writePoint3d(15, entity.blockPosition)
+      filer.writePoint3d(16, entity.blockScale)
+      filer.writeDouble(46, entity.blockRotation)
+    }
+    entity.leaderClusters.forEach((cluster, index) => {
+      filer.writeString(302, 'LEADER{')
+      filer.writePoint3d(10, cluster.landingPoint)
+      filer.writePoint3d(11, cluster.doglegVector)
+      filer.writeInt(90, index)
+      filer.writeDouble(40, cluster.doglegLength)
+      cluster.leaderLines.forEach((line, lineIndex) => {
+        filer.writeString(304, 'LEADER_LINE{')
+        line.vertices.forEach(vertex => filer.writePoint3d(10, vertex))
+        filer.writeInt(91, lineIndex)
+        filer.writeString(305, '}')
+      })
+      filer.writeString(303, '}')
+    })
+    filer.writeString(301, '}')
+
+    filer.writeHandle(340, entity.mleaderStyleId)
+    filer.writeInt(170, entity.leaderLineType)
+    filer.writeBool(290, entity.enableLanding)
+    filer.writeBool(291, entity.enableDogleg)
+    filer.writeHandle(342, entity.arrowSymbolId)
+    filer.writeDouble(42, entity.arrowSize)
+    filer.writeInt(172, entity.contentType)
+    filer.writeHandle(343, entity.textStyleId)
+    filer.writeHandle(344, entity.blockContentId)
+  }
+
+  private writeMline(entity: AcDbMline, owner: AcDbBlockTableRecord) {
+    const filer = this._filer
+    const vertices = entity.vertices
+    const numElements =
+      vertices[0]?.elementParams.length ||
+      entity.mlineStyle?.elements.length ||
+      0
+    this.writeEntityCommon('MLINE', entity, owner)
+    filer.writeString(100, 'AcDbMline')
+    filer.writeString(2, entity.styleName)
+    filer.writeHandle(340, entity.mlineStyleId || entity.mlineStyle?.objectId)
+    filer.writeDouble(40, entity.scale)
+    filer.writeInt(70, entity.justification)
+    filer.writeInt(71, entity.flags)
+    filer.writeInt(72, vertices.length)
+    filer.writeInt(73, numElements)
+    filer.writePoint3d(10, vertices[0]?.position ?? { x: 0, y: 0, z: 0 })
+    filer.writePoint3d(210, entity.normal)
+    vertices.forEach(vertex => {
+      filer.writePoint3d(11, vertex.position)
+      filer.writePoint3d(12, vertex.direction)
+      filer.writePoint3d(13, vertex.miter)
+      vertex.elementParams.forEach(params => {
+        filer.writeInt(74, params.length)
+        params.forEach(param => filer.writeDouble(41, param))
+        filer.writeInt(75, 0)
+      })
+    })
+  }
+
+  private writeDimension(entity: AcDbDimension, owner: AcDbBlockTableRecord) {
+    const filer = this._filer
+    const name =
+      entity instanceof AcDbArcDimension ? 'ARC_DIMENSION' : 'DIMENSION'
+    // Bit 32 means the block is referenced by this dimension only
+    let dimType = 32
+    let definitionPoint: AcGePoint3dLike = entity.textPosition
+    const isRotated =
+      entity instanceof AcDbRotatedDimension ||
+      (entity instanceof AcDbAlignedDimension && !!entity.rotation)
+    if (entity instanceof AcDbAlignedDimension) {
+      dimType |= isRotated ? 0 : 1
+      definitionPoint = entity.dimLinePoint
+    } else if (entity instanceof AcDb3PointAngularDimension) {
+      dimType |= 5
+      definitionPoint = entity.arcPoint
+    } else if (entity instanceof AcDbArcDimension) {
+      dimType |= 5
+      definitionPoint = entity.arcPoint
+    } else if (entity instanceof AcDbOrdinateDimension) {
+      dimType |= entity.isUsingXAxis ? 6 | 64 : 6
+      definitionPoint = entity.origin
+    } else if (entity instanceof AcDbRadialDimension) {
+      dimType |= 4
+      definitionPoint = entity.center
+    } else if (entity instanceof AcDbDiametricDimension) {
+      dimType |= 3
+      definitionPoint = entity.chordPoint
+    }
+
+    this.writeEntityCommon(name, entity, owner)
+    filer.writeString(100, 'AcDbDimension')
+    filer.writeString(2, entity.dimBlockId)
+    filer.writePoint3d(10, definitionPoint)
+    filer.writePoint3d(11, entity.textPosition)
+    filer.writeInt(70, dimType)
+    filer.writeString(1, entity.dimensionText)
+    filer.writeDouble(42, entity.measurement)
+    filer.writeDouble(53, entity.textRotation)
+    filer.writeDouble(41, entity.textLineSpacingFactor)
+    filer.writeInt(72, entity.textLineSpacingStyle)
+    filer.writeString(3, entity.dimensionStyleName)
+    filer.writePoint3d(210, entity.normal)
+
+    if (entity instanceof AcDbAlignedDimension) {
+      filer.writeString(100, 'AcDbAlignedDimension')
+      filer.writePoint3d(12, entity.dimBlockPosition)
+      filer.writePoint3d(13, entity.xLine1Point)
+      filer.writePoint3d(14, entity.xLine2Point)
+      if (isRotated) {
+        filer.writeDouble(50, AcGeMathUtil.radToDeg(entity.rotation))
+      }
+      filer.writeDouble(52, entity.oblique)
+      if (isRotated) {
+        filer.writeString(100, 'AcDbRotatedDimension')
+      }
+    } else if (entity instanceof AcDb3PointAngularDimension) {
+      filer.writeString(100, 'AcDb3PointAngularDimension')
+      filer.writePoint3d(13, entity.xLine1Point)
+      filer.writePoint3d(14, entity.xLine2Point)
+      filer.writePoint3d(15, entity.centerPoint)
+    } else if (entity instanceof AcDbArcDimension) {
+      filer.writeString(100, 'AcDbArcDimension')
+      filer.writePoint3d(13, entity.xLine1Point)
+      filer.writePoint3d(14, entity.xLine2Point)
+      filer.writePoint3d(15, entity.centerPoint)
+    } else if (entity instanceof AcDbOrdinateDimension) {
+      filer.writeString(100, 'AcDbOrdinateDimension')
+      filer.writePoint3d(13, entity.definingPoint)
+      filer.writePoint3d(14, entity.leaderEndPoint)
+    } else if (entity instanceof AcDbRadialDimension) {
+      filer.writeString(100, 'AcDbRadialDimension')
+      filer.writePoint3d(15, entity.chordPoint)
+      filer.writeDouble(40, entity.leaderLength)
+    } else if (entity instanceof AcDbDiametricDimension) {
+      filer.writeString(100, 'AcDbDiametricDimension')
+      filer.writePoint3d(15, entity.farChordPoint)
+      filer.writeDouble(40, entity.leaderLength)
+    }
+  }
+
+  private writeRasterImage(
+    entity: AcDbRasterImage,
+    owner: AcDbBlockTableRecord,
+    name: string,
+    subclass: string
+  ) {
+    const filer = this._filer
+    const rotation = entity.rotation
+    const boundary = entity.clipBoundary
+    // Image size is always written as 1x1 pixel so that the width and height
+    // of the image are stored in U and V vectors.
+    const uVector = {
+      x: entity.width * Math.cos(rotation),
+      y: entity.width * Math.sin(rotation),
+      z: 0
+    }
+    const vVector = {
+      x: -entity.height * Math.sin(rotation),
+      y: entity.height * Math.cos(rotation),
+      z: 0
+    }
+    let flags = 0
+    if (entity.isImageShown) flags |= 0x03
+    if (entity.isShownClipped) flags |= 0x04
+    if (entity.isImageTransparent) flags |= 0x08
+
+    this.writeEntityCommon(name, entity, owner)
+    filer.writeString(100, subclass)
+    filer.writeInt(90, 0)
+    filer.writePoint3d(10, entity.position)
+    filer.writePoint3d(11, uVector)
+    filer.writePoint3d(12, vVector)
+    filer.writePoint2d(13, { x: 1, y: 1 })
+    filer.writeHandle(340, entity.imageDefId)
+    filer.writeInt(70, flags)
+    filer.writeBool(280, entity.isClipped)
+    filer.writeInt(281, entity.brightness)
+    filer.writeInt(282, entity.contrast)
+    filer.writeInt(283, entity.fade)
+    filer.writeInt(71, entity.clipBoundaryType)
+    filer.writeInt(91, boundary.length)
+    boundary.forEach(point => filer.writePoint2d(14, point))
+  }
+
+  private writeTrace(entity: AcDbTrace, owner: AcDbBlockTableRecord) {
+    const filer = this._filer
+    this.writeEntityCommon('SOLID', entity, owner)
+    filer.writeString(100, 'AcDbTrace')
+    for (let i = 0; i < 4; ++i) {
+      filer.writePoint3d(10 + i, entity.getPointAt(i))
+    }
+    filer.writeDouble(39, entity.thickness)
+  }
+
+  private writeFace(entity: AcDbFace, owner: AcDbBlockTableRecord) {
+    const filer = this._filer
+    let invisibleEdges = 0
+    this.writeEntityCommon('3DFACE', entity, owner)
+    filer.writeString(100, 'AcDbFace')
+    for (let i = 0; i < 4; ++i) {
+      filer.writePoint3d(10 + i, entity.getVertexAt(i))
+      if (!entity.isEdgeVisibleAt(i)) invisibleEdges |= 1 << i
+    }
+    filer.writeInt(70, invisibleEdges)
+  }
+
+  private writeRay(
+    entity: AcDbRay | AcDbXline,
+    owner: AcDbBlockTableRecord,
+    name: string,
+    subclass: string
+  ) {
+    const filer = this._filer
+    this.writeEntityCommon(name, entity, owner)
+    filer.writeString(100, subclass)
+    filer.writePoint3d(10, entity.basePoint)
+    filer.writePoint3d(11, entity.unitDir)
+  }
+
+  private writeViewport(entity: AcDbViewport, owner: AcDbBlockTableRecord) {
+    const filer = this._filer
+    this.writeEntityCommon('VIEWPORT', entity, owner)
+    filer.writeString(100, 'AcDbViewport')
+    filer.writePoint3d(10, entity.centerPoint)
+    filer.writeDouble(40, entity.width)
+    filer.writeDouble(41, entity.height)
+    filer.writeInt(68, 1)
+    filer.writeInt(69, entity.number)
+    filer.writePoint2d(12, entity.viewCenter)
+    filer.writeDouble(45, entity.viewHeight)
+  }
+}
@@ -1,7 +1,13 @@
-import { AcCmTransparency } from '@mlightcad/common'
+import { AcCmColor, AcCmTransparency } from '@mlightcad/common'
 import {
   ArcEntity,
+  AttdefEntity,
+  AttributeEntity,
+  DimensionType,
   FaceEntity,
+  GradientHatchEntity,
+  HatchGradientColorFlag,
+  HatchGradientFlag,
   HatchSolidFill,
   SmoothType,
   VertexFlag
@@ -69,6 +75,8 @@ import {
   AcDb3PointAngularDimension,
   AcDbAlignedDimension,
   AcDbArc,
+  AcDbAttribute,
+  AcDbAttributeDefinition,
   AcDbBlockReference,
   AcDbCircle,
   AcDbDiametricDimension,
@@ -77,22 +85,30 @@ import {
   AcDbEntity,
   AcDbFace,
   AcDbHatch,
+  AcDbHatchObjectType,
   AcDbHatchPatternType,
   AcDbHatchStyle,
   AcDbLeader,
   AcDbLeaderAnnotationType,
   AcDbLine,
   AcDbLineSpacingStyle,
+  AcDbMLeader,
+  AcDbMline,
+  AcDbMlineJustification,
   AcDbMText,
   AcDbOrdinateDimension,
   AcDbPoint,
   AcDbPoly2dType,
   AcDbPoly3dType,
+  AcDbPolyFaceMesh,
+  AcDbPolygonMesh,
   AcDbPolyline,
+  AcDbPolyMeshType,
   AcDbRadialDimension,
   AcDbRasterImage,
   AcDbRasterImageClipBoundaryType,
   AcDbRay,
+  AcDbRotatedDimension,
   AcDbSpline,
   AcDbTable,
   AcDbTableCell,
@@ -104,6 +120,10 @@ import {
   AcDbWipeout,
   AcDbXline
 } from '../entity'
+import { AcDbMLeaderContentType, AcDbMLeaderLineType } from '../object'
+import { AcDbDxfHatchGradient } from './AcDbDxfHatchGradientParser'
+import { AcDbDxfMLeaderEntity } from './AcDbDxfMLeaderParser'
+import { AcDbDxfMlineEntity } from './AcDbDxfMlineParser'
 
 /**
  * Converts DXF entities to AcDbEntity objects.
@@ -169,6 +189,10 @@ export class AcDbEntityConverter {
       return this.convertFace(entity as FaceEntity)
     } else if (entity.type == 'ARC') {
       return this.convertArc(entity as ArcEntity)
+    } else if (entity.type == 'ATTDEF') {
+      return this.convertAttributeDefinition(entity as AttdefEntity)
+    } else if (entity.type == 'ATTRIB') {
+      return this.convertAttribute(entity as AttributeEntity)
     } else if (entity.type == 'CIRCLE') {
       return this.convertCirle(entity as CircleEntity)
     } else if (entity.type == 'DIMENSION') {
@@ -185,6 +209,10 @@ export class AcDbEntityConverter {
       return this.convertLine(entity as LineEntity)
     } else if (entity.type == 'LWPOLYLINE') {
       return this.convertLWPolyline(entity as LWPolylineEntity)
+    } else if (entity.type == 'MULTILEADER') {
+      return this.convertMLeader(entity as AcDbDxfMLeaderEntity)
+    } else if (entity.type == 'MLINE') {
+      return this.convertMline(entity as AcDbDxfMlineEntity)
     } else if (entity.type == 'MTEXT') {
       return this.convertMText(entity as MTextEntity)
     } else if (entity.type == 'POLYLINE') {
@@ -365,6 +393,12 @@ export class AcDbEntityConverter {
     // 32 = The polygon mesh is closed in the N direction
     // 64 = The polyline is a polyface mesh
     // 128 = The linetype pattern is generated continuously around the vertices of this polyline
+    if (polyline.flag & 0x40) {
+      return this.convertPolyFaceMesh(polyline)
+    } else if (polyline.flag & 0x10) {
+      return this.convertPolygonMesh(polyline)
+    }
+
     const isClosed = !!(polyline.flag & 0x01)
     const is3dPolyline = !!(polyline.flag & 0x08)
     // Filter out spline control points
@@ -401,7 +435,7 @@ export class AcDbEntityConverter {
           polyType = AcDbPoly2dType.QuadSplinePoly
         }
       }
-      return new AcDb2dPolyline(
+      const dbEntity = new AcDb2dPolyline(
         polyType,
         vertices,
         0,
@@ -410,19 +444,109 @@ export class AcDbEntityConverter {
         polyline.endWidth,
         bulges
       )
+      // Widths of vertices default to 0 in dxf-json. So default widths of the
+      // polyline are used if both widths of one vertex are 0.
+      let index = 0
+      polyline.vertices.forEach(vertex => {
+        if (vertex.flag & VertexFlag.SPLINE_CONTROL_POINT) return
+        if (vertex.startWidth || vertex.endWidth) {
+          dbEntity.setWidthsAt(
+            index,
+            vertex.startWidth ?? 0,
+            vertex.endWidth ?? 0
+          )
+        }
+        ++index
+      })
+      return dbEntity
     }
   }
 
+  private convertPolyFaceMesh(polyline: PolylineEntity) {
+    const dbEntity = new AcDbPolyFaceMesh()
+    polyline.vertices.forEach(vertex => {
+      if (!(vertex.flag & VertexFlag.POLYFACE)) return
+      if (vertex.flag & VertexFlag.FOR_POLYGON) {
+        dbEntity.appendVertex({ x: vertex.x, y: vertex.y, z: vertex.z })
+      } else {
+        // The parser of dxf-json stores vertex indices of one face record
+        // (group codes 71-74) in property 'faces' even though its type
+        // definition declares them as 'polyfaceIndex0' to 'polyfaceIndex3'.
+        const faces = (
+          vertex as PolylineEntity['vertices'][number] & { faces?: number[] }
+        ).faces
+        dbEntity.appendFaceRecord(
+          faces ?? [
+            vertex.polyfaceIndex0 ?? 0,
+            vertex.polyfaceIndex1 ?? 0,
+            vertex.polyfaceIndex2 ?? 0,
+            vertex.polyfaceIndex3 ?? 0
+          ]
+        )
+      }
+    })
+    return dbEntity
+  }
+
+  private convertPolygonMesh(polyline: PolylineEntity) {
+    // Filter out spline control points
+    const vertices: AcGePoint3dLike[] = []
+    polyline.vertices.forEach(vertex => {
+      if (!(vertex.flag & VertexFlag.SPLINE_CONTROL_POINT)) {
+        vertices.push({ x: vertex.x, y: vertex.y, z: vertex.z })
+      }
+    })
+
+    let polyMeshType = AcDbPolyMeshType.SimpleMesh
+    if (polyline.flag & 0x04) {
+      if (polyline.smoothType == SmoothType.CUBIC) {
+        polyMeshType = AcDbPolyMeshType.CubicSurfaceMesh
+      } else if (polyline.smoothType == SmoothType.QUADRATIC) {
+        polyMeshType = AcDbPolyMeshType.QuadSurfaceMesh
+      } else if (polyline.smoothType == SmoothType.BEZIER) {
+        polyMeshType = AcDbPolyMeshType.BezierSurfaceMesh
+      }
+    }
+
+    // Vertices of one smoothed mesh are the surface-fit vertices whose sizes
+    // are defined by surface densities instead of mesh vertex counts.
+    let mSize = polyline.meshMVertexCount ?? 0
+    let nSize = polyline.meshNVertexCount ?? 0
+    const mDensity = polyline.surfaceMDensity ?? 0
+    const nDensity = polyline.surfaceNDensity ?? 0
+    if (
+      polyMeshType != AcDbPolyMeshType.SimpleMesh &&
+      vertices.length != mSize * nSize &&
+      vertices.length == mDensity * nDensity
+    ) {
+      mSize = mDensity
+      nSize = nDensity
+    }
+
+    const dbEntity = new AcDbPolygonMesh(
+      polyMeshType,
+      mSize,
+      nSize,
+      vertices,
+      !!(polyline.flag & 0x01),
+      !!(polyline.flag & 0x20)
+    )
+    dbEntity.mSurfaceDensity = mDensity
+    dbEntity.nSurfaceDensity = nDensity
+    return dbEntity
+  }
+
   private convertLWPolyline(polyline: LWPolylineEntity) {
     const dbEntity = new AcDbPolyline()
     dbEntity.closed = !!(polyline.flag & 0x01)
+    dbEntity.elevation = polyline.elevation ?? 0
     polyline.vertices.forEach((vertex, index) => {
       dbEntity.addVertexAt(
         index,
         new AcGePoint2d(vertex.x, vertex.y),
         vertex.bulge,
-        vertex.startWidth,
-        vertex.endWidth
+        vertex.startWidth ?? polyline.constantWidth,
+        vertex.endWidth ?? polyline.constantWidth
       )
     })
     return dbEntity
@@ -445,6 +569,12 @@ export class AcDbEntityConverter {
     dbEntity.patternType = hatch.patternType as unknown as AcDbHatchPatternType
     dbEntity.patternAngle = hatch.patternAngle == null ? 0 : hatch.patternAngle
     dbEntity.patternScale = hatch.patternScale == null ? 0 : hatch.patternScale
+    if (hatch.gradientFlag === HatchGradientFlag.Gradient) {
+      this.processHatchGradient(
+        hatch as GradientHatchEntity & AcDbDxfHatchGradient,
+        dbEntity
+      )
+    }
 
     const paths = hatch.boundaryPaths
     paths.forEach(path => {
@@ -587,6 +717,45 @@ export class AcDbEntityConverter {
     return dbEntity
   }
 
+  private convertAttributeDefinition(attdef: AttdefEntity) {
+    const dbEntity = new AcDbAttributeDefinition()
+    dbEntity.textString = attdef.text
+    dbEntity.styleName = attdef.styleName
+    dbEntity.height = attdef.textHeight
+    dbEntity.position.copy(attdef.startPoint)
+    dbEntity.rotation = AcGeMathUtil.degToRad(attdef.rotation || 0)
+    dbEntity.oblique = attdef.obliqueAngle ?? 0
+    dbEntity.thickness = attdef.thickness
+    dbEntity.horizontalMode = attdef.halign as unknown as AcDbTextHorizontalMode
+    dbEntity.verticalMode = attdef.valign as unknown as AcDbTextVerticalMode
+    dbEntity.widthFactor = attdef.xScale ?? 1
+    dbEntity.prompt = attdef.prompt ?? ''
+    dbEntity.tag = attdef.tag
+    dbEntity.flags = attdef.attributeFlag ?? 0
+    dbEntity.lockPositionInBlock = !!attdef.isLocked
+    return dbEntity
+  }
+
+  private convertAttribute(attrib: AttributeEntity) {
+    const dbEntity = new AcDbAttribute()
+    dbEntity.textString = attrib.text
+    dbEntity.styleName = attrib.textStyle
+    dbEntity.height = attrib.textHeight
+    dbEntity.position.copy(attrib.startPoint)
+    dbEntity.rotation = AcGeMathUtil.degToRad(attrib.rotation || 0)
+    dbEntity.oblique = attrib.obliqueAngle ?? 0
+    dbEntity.thickness = attrib.thickness
+    dbEntity.horizontalMode =
+      attrib.horizontalJustification as unknown as AcDbTextHorizontalMode
+    dbEntity.verticalMode =
+      attrib.verticalJustification as unknown as AcDbTextVerticalMode
+    dbEntity.widthFactor = attrib.scale ?? 1
+    dbEntity.tag = attrib.tag
+    dbEntity.flags = attrib.attributeFlag ?? 0
+    dbEntity.lockPositionInBlock = !!attrib.lockPositionFlag
+    return dbEntity
+  }
+
   private convertMText(mtext: MTextEntity) {
     const dbEntity = new AcDbMText()
     dbEntity.contents = mtext.text
@@ -621,21 +790,138 @@ export class AcDbEntityConverter {
     return dbEntity
   }
 
+  private convertMLeader(mleader: AcDbDxfMLeaderEntity) {
+    const dbEntity = new AcDbMLeader()
+    if (mleader.styleId) dbEntity.mleaderStyleId = mleader.styleId
+    if (mleader.contentType != null) {
+      dbEntity.contentType = mleader.contentType as AcDbMLeaderContentType
+    }
+    if (mleader.leaderLineType != null) {
+      dbEntity.leaderLineType = mleader.leaderLineType as AcDbMLeaderLineType
+    }
+    if (mleader.enableLanding != null) {
+      dbEntity.enableLanding = mleader.enableLanding
+    }
+    if (mleader.enableDogleg != null) {
+      dbEntity.enableDogleg = mleader.enableDogleg
+    }
+    if (mleader.arrowHeadId) dbEntity.arrowSymbolId = mleader.arrowHeadId
+    if (mleader.arrowHeadSize != null) {
+      dbEntity.arrowSize = mleader.arrowHeadSize
+    }
+    if (mleader.landingGap != null) dbEntity.landingGap = mleader.landingGap
+
+    if (mleader.hasMText !== false && mleader.text) {
+      dbEntity.contents = mleader.text
+    }
+    if (mleader.textStyleId) dbEntity.textStyleId = mleader.textStyleId
+    if (mleader.textHeight != null) dbEntity.textHeight = mleader.textHeight
+    if (mleader.textLocation) dbEntity.textLocation = mleader.textLocation
+    if (mleader.textDirection) dbEntity.textDirection = mleader.textDirection
+    dbEntity.textRotation = mleader.textRotation ?? 0
+    dbEntity.textWidth = mleader.textWidth ?? 0
+    if (mleader.textAttachmentPoint) {
+      dbEntity.textAttachmentPoint =
+        mleader.textAttachmentPoint as AcGiMTextAttachmentPoint
+    }
+
+    if (mleader.blockContentId) {
+      dbEntity.blockContentId = mleader.blockContentId
+    }
+    if (mleader.blockPosition) dbEntity.blockPosition = mleader.blockPosition
+    if (mleader.blockScale) dbEntity.blockScale = mleader.blockScale
+    dbEntity.blockRotation = mleader.blockRotation ?? 0
+    if (mleader.blockNormal) dbEntity.normal = mleader.blockNormal
+    else if (mleader.textNormal) dbEntity.normal = mleader.textNormal
+
+    mleader.leaders.forEach(leader => {
+      const leaderLines = leader.leaderLines.map(line => line.vertices)
+      const landingPoint =
+        leader.landingPoint ?? leaderLines[0]?.[leaderLines[0].length - 1]
+      if (!landingPoint) return
+      dbEntity.addLeaderCluster(
+        landingPoint,
+        leader.doglegVector ?? AcGeVector3d.X_AXIS,
+        leaderLines,
+        leader.doglegLength ?? mleader.doglegLength ?? 0
+      )
+    })
+    return dbEntity
+  }
+
+  /**
+   * Converts a DXF multiline entity to an AcDbMline.
+   *
+   * @param mline - The DXF multiline entity to convert
+   * @returns The converted AcDbMline entity
+   */
+  private convertMline(mline: AcDbDxfMlineEntity) {
+    const dbEntity = new AcDbMline()
+    dbEntity.styleName = mline.styleName
+    if (mline.styleId) dbEntity.mlineStyleId = mline.styleId
+    dbEntity.scale = mline.scale
+    dbEntity.justification = mline.justification as AcDbMlineJustification
+    if (mline.extrusionDirection) dbEntity.normal = mline.extrusionDirection
+    mline.vertices.forEach(vertex => {
+      dbEntity.appendVertex({
+        position: new AcGePoint3d(vertex.position),
+        direction: new AcGeVector3d(vertex.direction),
+        miter: new AcGeVector3d(vertex.miter),
+        elementParams: vertex.elementParams
+      })
+    })
+    // Set flags after appending vertices so that directions and miters stored
+    // in the file are kept as they are.
+    dbEntity.flags = mline.flags
+    return dbEntity
+  }
+
+  private processHatchGradient(
+    hatch: GradientHatchEntity & AcDbDxfHatchGradient,
+    dbEntity: AcDbHatch
+  ) {
+    dbEntity.hatchObjectType = AcDbHatchObjectType.GradientObject
+    dbEntity.gradientName = hatch.gradientName || 'LINEAR'
+    dbEntity.gradientAngle = hatch.gradientRotation ?? 0
+    dbEntity.gradientShift = hatch.gradientDefinition ?? 0
+    dbEntity.gradientOneColorMode =
+      hatch.gradientColorFlag === HatchGradientColorFlag.OneColor
+    dbEntity.shadeTintValue = hatch.colorTint ?? 0
+    dbEntity.gradientColors = (hatch.gradientColors ?? []).map(item => {
+      const color = new AcCmColor()
+      if (item.color != null) {
+        color.setRGBValue(item.color)
+      } else if (item.colorIndex != null) {
+        color.colorIndex = item.colorIndex
+      }
+      return color
+    })
+  }
+
   private convertDimension(dimension: DimensionEntityCommon) {
     if (
       dimension.subclassMarker == 'AcDbAlignedDimension' ||
       dimension.subclassMarker == 'AcDbRotatedDimension'
     ) {
       const entity = dimension as AlignedDimensionEntity
-      const dbEntity = new AcDbAlignedDimension(
-        entity.subDefinitionPoint1,
-        entity.subDefinitionPoint2,
-        entity.definitionPoint
-      )
+      const rotation = AcGeMathUtil.degToRad(entity.rotationAngle || 0)
+      const dbEntity =
+        dimension.subclassMarker == 'AcDbRotatedDimension'
+          ? new AcDbRotatedDimension(
+              rotation,
+              entity.subDefinitionPoint1,
+              entity.subDefinitionPoint2,
+              entity.definitionPoint
+            )
+          : new AcDbAlignedDimension(
+              entity.subDefinitionPoint1,
+              entity.subDefinitionPoint2,
+              entity.definitionPoint
+            )
       if (entity.insertionPoint) {
         dbEntity.dimBlockPosition = { ...entity.insertionPoint, z: 0 }
       }
-      dbEntity.rotation = AcGeMathUtil.degToRad(entity.rotationAngle || 0)
+      dbEntity.rotation = rotation
       this.processDimensionCommonAttrs(dimension, dbEntity)
       return dbEntity
     } else if (dimension.subclassMarker == 'AcDb3PointAngularDimension') {
@@ -654,6 +940,10 @@ export class AcDbEntityConverter {
         entity.subDefinitionPoint1,
         entity.subDefinitionPoint2
       )
+      dbEntity.origin = entity.definitionPoint
+      if (entity.dimensionType & DimensionType.IsOrdinateXTypeFlag) {
+        dbEntity.useXAxis()
+      }
       this.processDimensionCommonAttrs(dimension, dbEntity)
       return dbEntity
     } else if (dimension.subclassMarker == 'AcDbRadialDimension') {
@@ -805,7 +1095,7 @@ export class AcDbEntityConverter {
     dbEntity: AcDbDimension
   ) {
     dbEntity.dimBlockId = entity.name
-    dbEntity.textPosition.copy(entity.textPoint)
+    dbEntity.textPosition = entity.textPoint
     dbEntity.textRotation = entity.textRotation || 0
     if (entity.textLineSpacingFactor) {
       dbEntity.textLineSpacingFactor = entity.textLineSpacingFactor
@@ -859,8 +1149,10 @@ export class AcDbEntityConverter {
     if (entity.colorName) {
       dbEntity.color.colorName = entity.colorName
     }
+    // Group code 60 is 1 if the entity is invisible. However, the parser stores
+    // its value in the misnamed property 'isVisible'.
     if (entity.isVisible != null) {
-      dbEntity.visibility = entity.isVisible
+      dbEntity.visibility = !entity.isVisible
     }
     if (entity.transparency != null) {
       dbEntity.transparency = AcCmTransparency.deserialize(entity.transparency)
@@ -1,3 +1,4 @@
+import { AcCmColor } from '@mlightcad/common'
 import { ParsedDxf } from '@mlightcad/dxf-json'
 import {
   CommonDXFObject,
@@ -7,7 +8,16 @@ import {
 
 import { AcDbObject } from '../base'
 import { AcDbBlockTableRecord } from '../database/AcDbBlockTableRecord'
-import { AcDbLayout, AcDbRasterImageDef } from '../object'
+import {
+  AcDbLayout,
+  AcDbMLeaderContentType,
+  AcDbMLeaderLineType,
+  AcDbMLeaderStyle,
+  AcDbMlineStyle,
+  AcDbRasterImageDef
+} from '../object'
+import { AcDbDxfMLeaderStyleObject } from './AcDbDxfMLeaderParser'
+import { AcDbDxfMlineStyleObject } from './AcDbDxfMlineParser'
 
 /**
  * Converts DXF objects to AcDbObject instances.
@@ -96,6 +106,87 @@ export class AcDbObjectConverter {
     return dbObject
   }
 
+  /**
+   * Converts a DXF multileader style object to an AcDbMLeaderStyle.
+   *
+   * @param style - The DXF multileader style object to convert
+   * @returns The converted AcDbMLeaderStyle instance
+   *
+   * @example
+   * ```typescript
+   * const dxfStyle = { styleName: 'Standard', arrowHeadSize: 2.5, ... };
+   * const acDbStyle = converter.convertMLeaderStyle(dxfStyle);
+   * ```
+   */
+  convertMLeaderStyle(style: AcDbDxfMLeaderStyleObject) {
+    const dbObject = new AcDbMLeaderStyle()
+    dbObject.name = style.styleName
+    dbObject.description = style.description ?? ''
+    if (style.contentType != null) {
+      dbObject.contentType = style.contentType as AcDbMLeaderContentType
+    }
+    if (style.leaderLineType != null) {
+      dbObject.leaderLineType = style.leaderLineType as AcDbMLeaderLineType
+    }
+    if (style.maxLeaderSegmentsPoints != null) {
+      dbObject.maxLeaderSegmentsPoints = style.maxLeaderSegmentsPoints
+    }
+    if (style.enableLanding != null) {
+      dbObject.enableLanding = style.enableLanding
+    }
+    if (style.landingGap != null) dbObject.landingGap = style.landingGap
+    if (style.enableDogleg != null) dbObject.enableDogleg = style.enableDogleg
+    if (style.doglegLength != null) dbObject.doglegLength = style.doglegLength
+    if (style.arrowHeadId) dbObject.arrowSymbolId = style.arrowHeadId
+    if (style.arrowHeadSize != null) dbObject.arrowSize = style.arrowHeadSize
+    if (style.defaultMText) dbObject.defaultMText = style.defaultMText
+    if (style.textStyleId) dbObject.textStyleId = style.textStyleId
+    if (style.textHeight != null) dbObject.textHeight = style.textHeight
+    if (style.blockContentId) dbObject.blockId = style.blockContentId
+    if (style.blockScale) dbObject.blockScale.copy(style.blockScale)
+    if (style.blockRotation != null) {
+      dbObject.blockRotation = style.blockRotation
+    }
+    if (style.scale != null) dbObject.scale = style.scale
+    this.processCommonAttrs(style, dbObject)
+    return dbObject
+  }
+
+  /**
+   * Converts a DXF multiline style object to an AcDbMlineStyle.
+   *
+   * @param style - The DXF multiline style object to convert
+   * @returns The converted AcDbMlineStyle instance
+   *
+   * @example
+   * ```typescript
+   * const dxfStyle = { styleName: 'STANDARD', flags: 0, elements: [...] };
+   * const acDbStyle = converter.convertMlineStyle(dxfStyle);
+   * ```
+   */
+  convertMlineStyle(style: AcDbDxfMlineStyleObject) {
+    const dbObject = new AcDbMlineStyle()
+    dbObject.name = style.styleName
+    dbObject.description = style.description ?? ''
+    dbObject.flags = style.flags
+    dbObject.fillColor = this.createColor(style.fillColorIndex, style.fillColor)
+    if (style.startAngle != null) {
+      dbObject.startAngle = (style.startAngle * Math.PI) / 180
+    }
+    if (style.endAngle != null) {
+      dbObject.endAngle = (style.endAngle * Math.PI) / 180
+    }
+    style.elements.forEach(element => {
+      dbObject.addElement(
+        element.offset,
+        this.createColor(element.colorIndex, element.color),
+        element.lineType ?? 'BYLAYER'
+      )
+    })
+    this.processCommonAttrs(style, dbObject)
+    return dbObject
+  }
+
   /**
    * Processes common attributes from a DXF object to an AcDbObject.
    *
@@ -114,4 +205,14 @@ export class AcDbObjectConverter {
     dbObject.objectId = object.handle
     dbObject.ownerId = object.ownerObjectId
   }
+
+  private createColor(colorIndex?: number, rgb?: number) {
+    const color = new AcCmColor()
+    if (rgb != null) {
+      color.setRGBValue(rgb)
+    } else if (colorIndex != null) {
+      color.colorIndex = colorIndex
+    }
+    return color
+  }
 }
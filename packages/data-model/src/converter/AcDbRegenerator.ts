@@ -51,19 +51,22 @@ export class AcDbRegenerator extends AcDbDatabaseConverter<AcDbDatabase> {
    * executed asynchronously. This is often referred to as "batch processing" or
    * "cooperative multitasking," where the time-consuming task is broken into
    * smaller pieces and executed in small intervals to allow the UI to remain responsive.
+   * Erased entities are skipped.
    *
    * @param source - Source database
    * @param target - Target database
    * @param minimumChunkSize - Minimum number of entities to process in each chunk
    * @param startPercentage - Object containing the starting percentage for progress tracking
    * @param progress - Optional callback for progress updates
+   * @param signal - Optional signal used to abort processing
    */
   protected async processEntities(
     source: AcDbDatabase,
     target: AcDbDatabase,
     minimumChunkSize: number,
     startPercentage: { value: number },
-    progress?: AcDbConversionProgressCallback
+    progress?: AcDbConversionProgressCallback,
+    signal?: AbortSignal
   ) {
     // Create an instance of AcDbBatchProcessing
     let entities = source.tables.blockTable.modelSpace.newIterator().toArray()
@@ -105,7 +108,7 @@ export class AcDbRegenerator extends AcDbDatabaseConverter<AcDbDatabase> {
         if (percentage > 100) percentage = 100
         await progress(percentage, 'ENTITY', 'IN-PROGRESS')
       }
-    })
+    }, signal)
   }
 
   /**
@@ -1,4 +1,7 @@
+export * from './AcDbBinaryDxf'
 export * from './AcDbBatchProcessing'
 export * from './AcDbDxfConverter'
+export * from './AcDbDxfFiler'
+export * from './AcDbDxfWriter'
 export * from './AcDbRegenerator'
 export * from './worker'
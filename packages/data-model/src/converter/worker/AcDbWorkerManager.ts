@@ -50,20 +50,25 @@ export class AcDbWorkerManager {
   }
 
   /**
-   * Execute a task with worker support and fallback
+   * Execute a task with worker support and fallback. If the specified signal is
+   * aborted, the worker running the task is terminated and one failed result is
+   * returned.
    */
   async execute<TInput, TOutput>(
     input: TInput,
-    workerUrl?: string
+    workerUrl?: string,
+    signal?: AbortSignal
   ): Promise<AcDbWorkerResult<TOutput>> {
     const startTime = Date.now()
     const taskId = this.generateTaskId()
 
     try {
+      signal?.throwIfAborted()
       return await this.executeInWorker(
         taskId,
         input,
-        workerUrl || this.config.workerUrl
+        workerUrl || this.config.workerUrl,
+        signal
       )
     } catch (error) {
       const duration = Date.now() - startTime
@@ -81,7 +86,8 @@ export class AcDbWorkerManager {
   private async executeInWorker<TInput, TOutput>(
     taskId: string,
     input: TInput,
-    workerUrl: string
+    workerUrl: string,
+    signal?: AbortSignal
   ): Promise<AcDbWorkerResult<TOutput>> {
     const startTime = Date.now()
 
@@ -92,6 +98,7 @@ export class AcDbWorkerManager {
       // Set up timeout
       const timeout = setTimeout(() => {
         this.cleanupTask(taskId)
+        signal?.removeEventListener('abort', abortHandler)
         this.releaseWorker(worker)
         reject(
           new Error(`Worker operation timed out after ${this.config.timeout}ms`)
@@ -113,12 +120,22 @@ export class AcDbWorkerManager {
         timeout
       })
 
+      // Terminate the worker because there is no way to stop the running task
+      const abortHandler = () => {
+        clearTimeout(timeout)
+        this.cleanupTask(taskId)
+        this.terminateWorker(worker)
+        reject(signal!.reason)
+      }
+      signal?.addEventListener('abort', abortHandler, { once: true })
+
       // Set up message handler
       const messageHandler = (event: MessageEvent) => {
         const { id, success, data, error } = event.data
         if (id !== taskId) return
 
         this.cleanupTask(taskId)
+        signal?.removeEventListener('abort', abortHandler)
 
         const duration = Date.now() - startTime
         if (success) {
@@ -138,6 +155,7 @@ export class AcDbWorkerManager {
 
       const errorHandler = (error: ErrorEvent) => {
         this.cleanupTask(taskId)
+        signal?.removeEventListener('abort', abortHandler)
         reject(new Error(`Worker error: ${error.message}`))
       }
 
@@ -224,6 +242,19 @@ export class AcDbWorkerManager {
     }
   }
 
+  /**
+   * Terminate a worker and remove it from the pool
+   */
+  private terminateWorker(worker: Worker): void {
+    for (const [id, instance] of this.workers) {
+      if (instance.worker === worker) {
+        instance.worker.terminate()
+        this.workers.delete(id)
+        break
+      }
+    }
+  }
+
   /**
    * Generate unique worker ID
    */
@@ -278,9 +309,10 @@ export class AcDbWorkerApi {
    */
   async execute<TInput, TOutput>(
     input: TInput,
-    workerUrl?: string
+    workerUrl?: string,
+    signal?: AbortSignal
   ): Promise<AcDbWorkerResult<TOutput>> {
-    return this.framework.execute(input, workerUrl)
+    return this.framework.execute(input, workerUrl, signal)
   }
 
   /**
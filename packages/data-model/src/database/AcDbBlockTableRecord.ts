@@ -1,4 +1,10 @@
-import { AcGePoint3d } from '@mlightcad/geometry-engine'
+import {
+  AcGeBox2d,
+  AcGePoint2dLike,
+  AcGePoint3d,
+  AcGeRTree2d,
+  AcGeRTreeItem
+} from '@mlightcad/geometry-engine'
 
 import { AcDbObjectId } from '../base/AcDbObject'
 import { AcDbEntity } from '../entity/AcDbEntity'
@@ -35,6 +41,8 @@ export class AcDbBlockTableRecord extends AcDbSymbolTableRecord {
   private _layoutId: AcDbObjectId
   /** Map of entities indexed by their object IDs */
   private _entities: Map<AcDbObjectId, AcDbEntity>
+  /** Spatial index of entities created when querying entities at the first time */
+  private _spatialIndex?: AcGeRTree2d<AcDbEntity>
 
   /**
    * Returns true if the specified name is the name of the model space block table record.
@@ -200,6 +208,13 @@ export class AcDbBlockTableRecord extends AcDbSymbolTableRecord {
       entity.ownerId = this.objectId
       this._entities.set(entity.objectId, entity)
     }
+    this.updateSpatialIndex(entity)
+
+    const entities = Array.isArray(entity) ? entity : [entity]
+    this.database.transactionManager.addUndoRecord({
+      undo: () => this.removeEntity(entities.map(item => item.objectId)),
+      redo: () => this.appendEntity(entity)
+    })
 
     // When creating one block, it will also go to this function. But we don't want `entityAppended` event
     // tiggered in this case. So check whether the block name is name of the model space.
@@ -211,8 +226,51 @@ export class AcDbBlockTableRecord extends AcDbSymbolTableRecord {
     }
   }
 
+  /**
+   * Removes the entity or entities with the specified ids from this block table record.
+   *
+   * Event `entityErased` of the database is dispatched if this is a model space or paper
+   * space block table record. This change is recorded in the active transaction so that
+   * it can be undone.
+   *
+   * @param id - The id or ids of entities to remove
+   * @returns True if at least one entity is removed, false otherwise
+   *
+   * @example
+   * ```typescript
+   * blockRecord.removeEntity(line.objectId);
+   * ```
+   */
+  removeEntity(id: AcDbObjectId | AcDbObjectId[]) {
+    const ids = Array.isArray(id) ? id : [id]
+    const entities: AcDbEntity[] = []
+    ids.forEach(item => {
+      const entity = this._entities.get(item)
+      if (entity) {
+        this._entities.delete(item)
+        this._spatialIndex?.remove(entity)
+        entities.push(entity)
+      }
+    })
+    if (entities.length === 0) return false
+
+    this.database.transactionManager.addUndoRecord({
+      undo: () => this.appendEntity(entities),
+      redo: () => this.removeEntity(entities.map(item => item.objectId))
+    })
+
+    if (this.isModelSapce || this.isPaperSapce) {
+      this.database.events.entityErased.dispatch({
+        database: this.database,
+        entity: Array.isArray(id) ? entities : entities[0]
+      })
+    }
+    return true
+  }
+
   /**
    * Creates an iterator object that can be used to iterate over the entities in the block table record.
+   * Erased entities are skipped.
    *
    * @returns An iterator object that can be used to iterate over the entities
    *
@@ -225,7 +283,73 @@ export class AcDbBlockTableRecord extends AcDbSymbolTableRecord {
    * ```
    */
   newIterator(): AcDbObjectIterator<AcDbEntity> {
-    return new AcDbObjectIterator(this._entities)
+    return new AcDbObjectIterator(this._entities, entity => !entity.isErased)
+  }
+
+  /**
+   * Finds entities whose geometric extents intersect the specified box.
+   *
+   * Entities are found by one spatial index instead of iterating all entities. The index
+   * is created when querying entities at the first time. It is kept up to date when
+   * entities are appended to or removed from this block table record and when event
+   * `entityModified` of the database is dispatched. Erased entities are skipped. Extents
+   * are projected onto the XY plane of the coordinate system of this block table record.
+   *
+   * @param box - The box to search in
+   * @returns The entities whose extents intersect the box in no particular order
+   *
+   * @example
+   * ```typescript
+   * const box = new AcGeBox2d({ x: 0, y: 0 }, { x: 100, y: 100 });
+   * const entities = blockRecord.queryBox(box);
+   * ```
+   */
+  queryBox(box: AcGeBox2d) {
+    return this.spatialIndex.search(box, entity => !entity.isErased)
+  }
+
+  /**
+   * Finds entities whose geometric extents contain the specified point. It is used to
+   * find candidates of entities picked by the point.
+   *
+   * See {@link queryBox} for details of the spatial index used to find entities.
+   *
+   * @param point - The point to search at
+   * @param tolerance - The distance by which extents of entities are expanded
+   * @returns The entities whose extents contain the point in no particular order
+   *
+   * @example
+   * ```typescript
+   * const entities = blockRecord.queryPoint({ x: 10, y: 20 }, 0.5);
+   * ```
+   */
+  queryPoint(point: AcGePoint2dLike, tolerance: number = 0) {
+    const box = new AcGeBox2d(point, point).expandByScalar(tolerance)
+    return this.queryBox(box)
+  }
+
+  /**
+   * Finds entities nearest to the specified point. The distance from the point to one
+   * entity is the distance from the point to the geometric extents of the entity.
+   *
+   * See {@link queryBox} for details of the spatial index used to find entities.
+   *
+   * @param point - The point to search from
+   * @param k - The maximum number of entities to return
+   * @returns The entities sorted by their distances to the point
+   *
+   * @example
+   * ```typescript
+   * const [nearestEntity] = blockRecord.nearest({ x: 10, y: 20 });
+   * ```
+   */
+  nearest(point: AcGePoint2dLike, k: number = 1) {
+    return this.spatialIndex.nearest(
+      point,
+      k,
+      Infinity,
+      entity => !entity.isErased
+    )
   }
 
   /**
@@ -245,4 +369,69 @@ export class AcDbBlockTableRecord extends AcDbSymbolTableRecord {
   getIdAt(id: string) {
     return this._entities.get(id)
   }
+
+  /**
+   * Creates one deep copy of this block table record. Entities owned by this
+   * block table record are copied too and owned by the copy.
+   *
+   * @returns The copy of this block table record
+   */
+  clone() {
+    const copy = super.clone()
+    copy._spatialIndex = undefined
+    copy._entities = new Map<string, AcDbEntity>()
+    this._entities.forEach(entity => {
+      const entityCopy = entity.clone()
+      entityCopy.ownerId = copy.objectId
+      copy._entities.set(entityCopy.objectId, entityCopy)
+    })
+    return copy
+  }
+
+  /**
+   * The spatial index of entities. It is created from all entities at the first time.
+   */
+  private get spatialIndex() {
+    if (!this._spatialIndex) {
+      const items: AcGeRTreeItem<AcDbEntity>[] = []
+      this._entities.forEach(entity => {
+        const box = this.getEntityBox(entity)
+        if (box) items.push({ item: entity, box })
+      })
+      this._spatialIndex = new AcGeRTree2d<AcDbEntity>().load(items)
+    }
+    return this._spatialIndex
+  }
+
+  /**
+   * Updates extents of the specified entities in the spatial index if it is created.
+   * Entities not owned by this block table record are ignored. It is called by the
+   * database when event `entityModified` is dispatched.
+   *
+   * @internal
+   */
+  updateSpatialIndex(entity: AcDbEntity | AcDbEntity[]) {
+    const index = this._spatialIndex
+    if (!index) return
+    const entities = Array.isArray(entity) ? entity : [entity]
+    entities.forEach(item => {
+      if (this._entities.get(item.objectId) !== item) return
+      const box = this.getEntityBox(item)
+      if (box) {
+        index.insert(item, box)
+      } else {
+        index.remove(item)
+      }
+    })
+  }
+
+  /**
+   * Returns the geometric extents of the specified entity projected onto the XY plane,
+   * or undefined if its extents are empty.
+   */
+  private getEntityBox(entity: AcDbEntity) {
+    const extents = entity.geometricExtents
+    if (extents.isEmpty()) return undefined
+    return new AcGeBox2d(extents.min, extents.max)
+  }
 }
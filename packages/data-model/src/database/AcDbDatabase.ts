@@ -1,18 +1,27 @@
 /* eslint-disable simple-import-sort/imports */
 import { AcCmColor, AcCmEventManager } from '@mlightcad/common'
 
-import { AcDbObject, AcDbObjectId } from '../base'
-import { AcDbRegenerator } from '../converter'
+import { AcDbObject, AcDbObjectId } from '../base/AcDbObject'
+import { AcDbRegenerator, isBinaryDxf } from '../converter'
 import {
   AcDbDatabaseConverterManager,
   AcDbFileType
 } from './AcDbDatabaseConverterManager'
-import { AcDbEntity } from '../entity'
+import {
+  AcDbBlockReference,
+  AcDbDimension,
+  AcDbEntity,
+  AcDbMText,
+  AcDbRasterImage,
+  AcDbText
+} from '../entity'
 import { AcDbAngleUnits, AcDbDataGenerator, AcDbUnitsValue } from '../misc'
 import {
   AcDbDictionary,
   AcDbLayout,
   AcDbLayoutDictionary,
+  AcDbMLeaderStyle,
+  AcDbMlineStyle,
   AcDbRasterImageDef
 } from '../object'
 import { AcDbBlockTable } from './AcDbBlockTable'
@@ -25,7 +34,10 @@ import {
   AcDbLayerTableRecordAttrs
 } from './AcDbLayerTableRecord'
 import { AcDbLinetypeTable } from './AcDbLinetypeTable'
+import { AcDbSymbolTable } from './AcDbSymbolTable'
+import { AcDbSymbolTableRecord } from './AcDbSymbolTableRecord'
 import { AcDbTextStyleTable } from './AcDbTextStyleTable'
+import { AcDbTransactionManager } from './AcDbTransactionManager'
 import { AcDbViewportTable } from './AcDbViewportTable'
 import {
   AcGeBox3d,
@@ -33,6 +45,7 @@ import {
   AcGePoint3dLike
 } from '@mlightcad/geometry-engine'
 import { AcDbDwgVersion } from './AcDbDwgVersion'
+import { AcDbDatabaseWriteOptions } from './AcDbDatabaseWriter'
 
 /**
  * Event arguments for object events in the dictionary.
@@ -202,6 +215,16 @@ export interface AcDbOpenDatabaseOptions {
    * database processing is broken into chunks for better performance.
    */
   minimumChunkSize?: number
+
+  /**
+   * Signal used to abort opening the drawing database.
+   *
+   * When it is aborted, fetching and conversion of the drawing stop as soon as
+   * possible, one progress event with status 'ABORTED' is dispatched, the
+   * database is cleared and the returned promise is rejected with the abort
+   * reason of the signal.
+   */
+  signal?: AbortSignal
 }
 
 /**
@@ -283,6 +306,8 @@ export class AcDbDatabase extends AcDbObject {
   private _insunits: AcDbUnitsValue
   /** Global linetype scale */
   private _ltscale: number
+  /** Drawing units as imperial (0) or metric (1) */
+  private _measurement: number
   /** Point display mode */
   private _pdmode: number
   /** Point display size */
@@ -293,9 +318,13 @@ export class AcDbDatabase extends AcDbObject {
   private _dictionaries: {
     readonly layouts: AcDbLayoutDictionary
     readonly imageDefs: AcDbDictionary<AcDbRasterImageDef>
+    readonly mleaderStyles: AcDbDictionary<AcDbMLeaderStyle>
+    readonly mlineStyles: AcDbDictionary<AcDbMlineStyle>
   }
   /** Current space (model space or paper space) */
   private _currentSpace?: AcDbBlockTableRecord
+  /** Transaction manager of the database */
+  private _transactionManager: AcDbTransactionManager
 
   /**
    * Events that can be triggered by the database.
@@ -312,6 +341,8 @@ export class AcDbDatabase extends AcDbObject {
     entityAppended: new AcCmEventManager<AcDbEntityEventArgs>(),
     /** Fired when an entity is modified in the database */
     entityModified: new AcCmEventManager<AcDbEntityEventArgs>(),
+    /** Fired when an entity is erased or removed from the database */
+    entityErased: new AcCmEventManager<AcDbEntityEventArgs>(),
     /** Fired when a layer is appended to the database */
     layerAppended: new AcCmEventManager<AcDbLayerEventArgs>(),
     /** Fired when a layer is modified in the database */
@@ -339,8 +370,11 @@ export class AcDbDatabase extends AcDbObject {
     // TODO: Default value is 1 (imperial) or 4 (metric)
     this._insunits = AcDbUnitsValue.Millimeters
     this._ltscale = 1
+    this._measurement = 1
     this._pdmode = 0
     this._pdsize = 0
+    // Tables record changes in the transaction manager. So it must be created before tables.
+    this._transactionManager = new AcDbTransactionManager(this)
     this._tables = {
       blockTable: new AcDbBlockTable(this),
       dimStyleTable: new AcDbDimStyleTable(this),
@@ -351,8 +385,39 @@ export class AcDbDatabase extends AcDbObject {
     }
     this._dictionaries = {
       layouts: new AcDbLayoutDictionary(this),
-      imageDefs: new AcDbDictionary(this)
+      imageDefs: new AcDbDictionary(this),
+      mleaderStyles: new AcDbDictionary(this),
+      mlineStyles: new AcDbDictionary(this)
     }
+    // Spatial indices of block table records are updated by the database instead of
+    // block table records so that no listener is left when records are removed.
+    this.events.entityModified.addEventListener(args => {
+      const entities = Array.isArray(args.entity) ? args.entity : [args.entity]
+      entities.forEach(entity => {
+        const ownerId = entity.getAttrWithoutException('ownerId')
+        if (ownerId) {
+          this._tables.blockTable.getIdAt(ownerId)?.updateSpatialIndex(entity)
+        }
+      })
+    })
+  }
+
+  /**
+   * Gets the transaction manager of this drawing database. It is used to group
+   * changes made to this database in transactions and to undo/redo them.
+   *
+   * @returns The transaction manager of this database
+   *
+   * @example
+   * ```typescript
+   * database.transactionManager.startTransaction();
+   * layer.isOff = true;
+   * database.transactionManager.commit();
+   * database.transactionManager.undo();
+   * ```
+   */
+  get transactionManager() {
+    return this._transactionManager
   }
 
   /**
@@ -638,6 +703,20 @@ export class AcDbDatabase extends AcDbObject {
     return this._extents
   }
 
+  /**
+   * Whether the drawing uses imperial or metric units. It determines which hatch pattern file and
+   * linetype file are used.
+   * - 0: Imperial (acad.pat and acad.lin)
+   * - 1: Metric (acadiso.pat and acadiso.lin)
+   */
+  get measurement(): number {
+    return this._measurement
+  }
+  set measurement(value: number) {
+    this._measurement = value === 0 ? 0 : 1
+    this.triggerHeaderSysVarChangedEvent('measurement')
+  }
+
   /**
    * Point display mode. Please get more details on value of this property from [this page](https://help.autodesk.com/view/ACDLT/2022/ENU/?guid=GUID-82F9BB52-D026-4D6A-ABA6-BF29641F459B).
    */
@@ -674,7 +753,10 @@ export class AcDbDatabase extends AcDbObject {
    *   - For DXF files: Pass a string containing the DXF content
    *   - For DWG files: Pass an ArrayBuffer instance containing the binary DWG data
    * @param options - Options for reading the database
-   * @param fileType - The type of file being read (defaults to DXF)
+   * @param fileType - The type of file being read (defaults to DXF). If the data
+   * starts with the binary DXF sentinel, it is always read as one DXF file.
+   * @throws The abort reason of `options.signal` if it is aborted. The database
+   * is cleared in this case.
    *
    * @example
    * ```typescript
@@ -692,12 +774,15 @@ export class AcDbDatabase extends AcDbObject {
     options: AcDbOpenDatabaseOptions,
     fileType: AcDbFileType = AcDbFileType.DXF
   ) {
+    if (isBinaryDxf(data)) fileType = AcDbFileType.DXF
     const converter = AcDbDatabaseConverterManager.instance.get(fileType)
     if (converter == null)
       throw new Error(
         `Database converter for file type '${fileType}' isn't registered and can can't read this file!`
       )
 
+    const signal = options && options.signal
+    signal?.throwIfAborted()
     this.clear()
 
     await converter.read(
@@ -729,17 +814,61 @@ export class AcDbDatabase extends AcDbObject {
             : this.tables.textStyleTable.fonts
           await options.fontLoader.load(fonts)
         }
-      }
+      },
+      signal
     )
+
+    if (signal?.aborted) {
+      this.clear()
+      signal.throwIfAborted()
+    }
+  }
+
+  /**
+   * Writes this database to the content of one drawing file.
+   *
+   * This method uses the database writer registered for the specified file type
+   * in {@link AcDbDatabaseConverterManager}. By default, only DXF writer is
+   * registered.
+   *
+   * @param fileType - The type of the file to write
+   * @param options - Options to write the database
+   * @returns The content of the drawing file. It is one ArrayBuffer if option
+   * `binary` is true, otherwise it is one string.
+   * @throws {Error} When no writer is registered for the specified file type
+   *
+   * @example
+   * ```typescript
+   * const dxf = database.write(AcDbFileType.DXF);
+   * const blob = new Blob([dxf], { type: 'application/dxf' });
+   * const binaryDxf = database.write(AcDbFileType.DXF, { binary: true });
+   * ```
+   */
+  write(
+    fileType: AcDbFileType = AcDbFileType.DXF,
+    options?: AcDbDatabaseWriteOptions
+  ) {
+    const writer = AcDbDatabaseConverterManager.instance.getWriter(fileType)
+    if (writer == null)
+      throw new Error(
+        `Database writer for file type '${fileType}' isn't registered and can can't write this file!`
+      )
+    return writer.write(this, options)
   }
 
   /**
    * Read AutoCAD DXF or DWG drawing specified by the URL into the database object.
-   * The method automatically detects the file type based on the URL extension:
-   * - .dxf files are read as text using readAsText()
-   * - .dwg files are read as binary data using readAsArrayBuffer()
+   * The file type is detected by file type detectors registered in
+   * {@link AcDbDatabaseConverterManager}. By default, the following information
+   * is checked in order:
+   * - file content (DWG version magic and DXF sentinels)
+   * - HTTP headers 'Content-Type' and 'Content-Disposition'
+   * - extension of the file name in the URL
+   *
+   * DXF is used if the file type can't be detected.
    * @param url Input the URL linked to one AutoCAD DXF or DWG file
    * @param options Input options to read drawing data
+   * @throws The abort reason of `options.signal` if it is aborted
    */
   async openUri(url: string, options: AcDbOpenDatabaseOptions): Promise<void> {
     this.events.openProgress.dispatch({
@@ -749,69 +878,85 @@ export class AcDbDatabase extends AcDbObject {
       subStageStatus: 'START'
     })
 
-    const response = await fetch(url)
-    if (!response.ok) {
-      this.events.openProgress.dispatch({
-        database: this,
-        percentage: 100,
-        stage: 'FETCH_FILE',
-        subStageStatus: 'ERROR'
-      })
-      throw new Error(
-        `Failed to fetch file '${url}' with HTTP status code '${response.status}'!`
-      )
-    }
+    const signal = options && options.signal
+    let response: Response
+    let content: Uint8Array
+    try {
+      response = await fetch(url, { signal })
+      if (!response.ok) {
+        this.events.openProgress.dispatch({
+          database: this,
+          percentage: 100,
+          stage: 'FETCH_FILE',
+          subStageStatus: 'ERROR'
+        })
+        throw new Error(
+          `Failed to fetch file '${url}' with HTTP status code '${response.status}'!`
+        )
+      }
 
-    const contentLength = response.headers.get('content-length')
-    const totalBytes = contentLength ? parseInt(contentLength, 10) : null
-    let loadedBytes = 0
+      const contentLength = response.headers.get('content-length')
+      const totalBytes = contentLength ? parseInt(contentLength, 10) : null
+      let loadedBytes = 0
 
-    // Create a reader to track progress
-    const reader = response.body?.getReader()
-    if (!reader) {
-      throw new Error('Failed to get response reader')
-    }
+      // Create a reader to track progress
+      const reader = response.body?.getReader()
+      if (!reader) {
+        throw new Error('Failed to get response reader')
+      }
 
-    const chunks = []
+      const chunks = []
 
-    while (true) {
-      const { done, value } = await reader.read()
+      while (true) {
+        const { done, value } = await reader.read()
 
-      if (done) {
-        break
-      }
+        if (done) {
+          break
+        }
 
-      chunks.push(value)
-      loadedBytes += value.length
+        chunks.push(value)
+        loadedBytes += value.length
+
+        // Calculate and report progress if we know the total size
+        if (totalBytes !== null) {
+          const percentage = Math.round((loadedBytes / totalBytes) * 100)
+          this.events.openProgress.dispatch({
+            database: this,
+            percentage: percentage,
+            stage: 'FETCH_FILE',
+            subStageStatus: 'IN-PROGRESS'
+          })
+        }
+      }
 
-      // Calculate and report progress if we know the total size
-      if (totalBytes !== null) {
-        const percentage = Math.round((loadedBytes / totalBytes) * 100)
+      // Combine all chunks into a single buffer
+      content = new Uint8Array(loadedBytes)
+      let position = 0
+      for (const chunk of chunks) {
+        content.set(chunk, position)
+        position += chunk.length
+      }
+    } catch (error) {
+      if (signal?.aborted) {
         this.events.openProgress.dispatch({
           database: this,
-          percentage: percentage,
+          percentage: 100,
           stage: 'FETCH_FILE',
-          subStageStatus: 'IN-PROGRESS'
+          subStageStatus: 'ABORTED'
         })
+        this.clear()
       }
+      throw error
     }
 
-    // Combine all chunks into a single buffer
-    const content = new Uint8Array(loadedBytes)
-    let position = 0
-    for (const chunk of chunks) {
-      content.set(chunk, position)
-      position += chunk.length
-    }
-
-    const fileName = this.getFileNameFromUri(url)
-    const fileExtension = fileName.toLowerCase().split('.').pop()
-    if (fileExtension === 'dwg') {
-      // DWG files are binary, convert to ArrayBuffer
-      await this.read(content.buffer, options, AcDbFileType.DWG)
-    } else {
-      await this.read(content.buffer, options, AcDbFileType.DXF)
-    }
+    const fileType =
+      AcDbDatabaseConverterManager.instance.detectFileType({
+        data: content.buffer,
+        fileName: this.getFileNameFromUri(url),
+        contentType: response.headers.get('content-type'),
+        contentDisposition: response.headers.get('content-disposition')
+      }) ?? AcDbFileType.DXF
+    await this.read(content.buffer, options, fileType)
 
     this.events.openProgress.dispatch({
       database: this,
@@ -848,6 +993,64 @@ export class AcDbDatabase extends AcDbObject {
     )
   }
 
+  /**
+   * Deeply clones the specified entities and appends their copies to the
+   * specified block table record. The block table record may belong to this
+   * database or another database.
+   *
+   * References of copied entities are remapped as follows:
+   * - Each dimension gets its own copy of its dimension block.
+   * - When cloning entities into another database, layers, line types, text
+   *   styles, dimension styles, blocks and image definitions referenced by the
+   *   copied entities are copied into that database if records with the same
+   *   names don't exist there yet. Otherwise, existing records are used.
+   *
+   * Ids of all copied objects (entities and referenced objects) are recorded in
+   * `idMap`. Entities whose ids are already in `idMap` are skipped so that the
+   * same map can be passed to multiple calls.
+   *
+   * @param ids - Ids of entities in this database to clone
+   * @param ownerId - Id of the block table record to own copied entities
+   * @param idMap - Map from ids of source objects to ids of their copies
+   * @param ownerDatabase - The database which contains the owner block table
+   * record. It is this database by default.
+   * @returns Copied entities
+   * @throws {Error} When the owner block table record doesn't exist
+   *
+   * @example
+   * ```typescript
+   * const idMap = new Map<AcDbObjectId, AcDbObjectId>();
+   * const copies = db.deepCloneObjects(
+   *   [line.objectId, circle.objectId],
+   *   otherDb.tables.blockTable.modelSpace.objectId,
+   *   idMap,
+   *   otherDb
+   * );
+   * ```
+   */
+  deepCloneObjects(
+    ids: AcDbObjectId[],
+    ownerId: AcDbObjectId,
+    idMap: Map<AcDbObjectId, AcDbObjectId> = new Map(),
+    ownerDatabase: AcDbDatabase = this
+  ) {
+    const owner = ownerDatabase.tables.blockTable.getIdAt(ownerId)
+    if (!owner) {
+      throw new Error(
+        `[AcDbDatabase] The owner block table record '${ownerId}' doesn't exist!`
+      )
+    }
+
+    const copies: AcDbEntity[] = []
+    ids.forEach(id => {
+      if (idMap.has(id)) return
+      const entity = this.findEntity(id)
+      if (entity) copies.push(this.cloneEntity(entity, ownerDatabase, idMap))
+    })
+    if (copies.length > 0) owner.appendEntity(copies)
+    return copies
+  }
+
   /**
    * Create default layer, line type, dimension type, text style and layout.
    * @param - Options to specify data to create
@@ -909,8 +1112,209 @@ export class AcDbDatabase extends AcDbObject {
     this._tables.layerTable.removeAll()
     this._tables.viewportTable.removeAll()
     this._dictionaries.layouts.removeAll()
+    this._dictionaries.mleaderStyles.removeAll()
+    this._dictionaries.mlineStyles.removeAll()
     this._currentSpace = undefined
     this._extents.makeEmpty()
+    this._transactionManager.clear()
+  }
+
+  /**
+   * Finds the entity with the specified id in all block table records.
+   *
+   * @param id - The id of the entity to find
+   * @returns The found entity, or undefined if not found
+   */
+  private findEntity(id: AcDbObjectId) {
+    for (const block of this._tables.blockTable.newIterator()) {
+      const entity = block.getIdAt(id)
+      if (entity) return entity
+    }
+    return undefined
+  }
+
+  /**
+   * Creates one copy of the specified entity and remaps its references for the
+   * target database. The copy isn't appended to any block table record.
+   *
+   * @param entity - The entity to clone
+   * @param db - The database to add the copy to
+   * @param idMap - Map from ids of source objects to ids of their copies
+   * @returns The copy of the entity
+   */
+  private cloneEntity(
+    entity: AcDbEntity,
+    db: AcDbDatabase,
+    idMap: Map<AcDbObjectId, AcDbObjectId>
+  ) {
+    const copy = entity.clone()
+    idMap.set(entity.objectId, copy.objectId)
+
+    if (db !== this) {
+      const tables = this._tables
+      const layer = this.cloneRecord(
+        tables.layerTable,
+        db.tables.layerTable,
+        entity.layer,
+        idMap
+      )
+      if (layer) {
+        this.cloneRecord(
+          tables.linetypeTable,
+          db.tables.linetypeTable,
+          layer.linetype,
+          idMap
+        )
+      }
+      this.cloneRecord(
+        tables.linetypeTable,
+        db.tables.linetypeTable,
+        entity.lineType,
+        idMap
+      )
+      if (entity instanceof AcDbText || entity instanceof AcDbMText) {
+        this.cloneRecord(
+          tables.textStyleTable,
+          db.tables.textStyleTable,
+          entity.styleName,
+          idMap
+        )
+      }
+      if (entity instanceof AcDbDimension && entity.dimensionStyleName) {
+        this.cloneRecord(
+          tables.dimStyleTable,
+          db.tables.dimStyleTable,
+          entity.dimensionStyleName,
+          idMap
+        )
+      }
+      if (entity instanceof AcDbBlockReference) {
+        const block = tables.blockTable.getAt(entity.blockName)
+        if (block && !idMap.has(block.objectId)) {
+          const existing = db.tables.blockTable.getAt(block.name)
+          if (existing) {
+            idMap.set(block.objectId, existing.objectId)
+          } else {
+            this.cloneBlock(block, db, idMap, block.name)
+          }
+        }
+        const attributes = (copy as AcDbBlockReference).attributeIterator()
+        for (const attribute of attributes) {
+          this.cloneRecord(
+            tables.layerTable,
+            db.tables.layerTable,
+            attribute.layer,
+            idMap
+          )
+          this.cloneRecord(
+            tables.textStyleTable,
+            db.tables.textStyleTable,
+            attribute.styleName,
+            idMap
+          )
+          attribute.database = db
+        }
+      }
+      if (entity instanceof AcDbRasterImage && entity.imageDefId) {
+        const imageDef = this._dictionaries.imageDefs.getIdAt(entity.imageDefId)
+        if (imageDef) {
+          let imageDefId = idMap.get(imageDef.objectId)
+          if (imageDefId == null) {
+            const imageDefCopy = imageDef.clone()
+            imageDefId = imageDefCopy.objectId
+            idMap.set(imageDef.objectId, imageDefId)
+            db.dictionaries.imageDefs.setAt(imageDefId, imageDefCopy)
+          }
+          ;(copy as AcDbRasterImage).imageDefId = imageDefId
+        }
+      }
+    }
+
+    // Dimension blocks are transformed together with their dimensions. So each
+    // copied dimension needs its own dimension block.
+    if (entity instanceof AcDbDimension && entity.dimBlockId) {
+      const block = this._tables.blockTable.getAt(entity.dimBlockId)
+      if (block) {
+        const name = this.getAnonymousBlockName(db, '*D')
+        ;(copy as AcDbDimension).dimBlockId = name
+        this.cloneBlock(block, db, idMap, name)
+      }
+    }
+    return copy
+  }
+
+  /**
+   * Copies the symbol table record with the specified name into the target
+   * symbol table if no record with the same name exists there.
+   *
+   * @param source - The symbol table of this database to copy the record from
+   * @param target - The symbol table to copy the record into
+   * @param name - The name of the record to copy
+   * @param idMap - Map from ids of source objects to ids of their copies
+   * @returns The source record, or undefined if it doesn't exist
+   */
+  private cloneRecord<RecordType extends AcDbSymbolTableRecord>(
+    source: AcDbSymbolTable<RecordType>,
+    target: AcDbSymbolTable<RecordType>,
+    name: string,
+    idMap: Map<AcDbObjectId, AcDbObjectId>
+  ) {
+    const record = source.getAt(name)
+    if (record && !idMap.has(record.objectId)) {
+      const existing = target.getAt(name)
+      if (existing) {
+        idMap.set(record.objectId, existing.objectId)
+      } else {
+        const copy = record.clone()
+        idMap.set(record.objectId, copy.objectId)
+        target.add(copy)
+      }
+    }
+    return record
+  }
+
+  /**
+   * Copies the specified block table record and entities owned by it into the
+   * block table of the target database.
+   *
+   * @param block - The block table record to copy
+   * @param db - The database to add the copy to
+   * @param idMap - Map from ids of source objects to ids of their copies
+   * @param name - The name of the copy
+   * @returns The copy of the block table record
+   */
+  private cloneBlock(
+    block: AcDbBlockTableRecord,
+    db: AcDbDatabase,
+    idMap: Map<AcDbObjectId, AcDbObjectId>,
+    name: string
+  ) {
+    const copy = new AcDbBlockTableRecord()
+    copy.name = name
+    copy.origin = block.origin
+    idMap.set(block.objectId, copy.objectId)
+    db.tables.blockTable.add(copy)
+
+    const entities: AcDbEntity[] = []
+    for (const entity of block.newIterator()) {
+      entities.push(this.cloneEntity(entity, db, idMap))
+    }
+    if (entities.length > 0) copy.appendEntity(entities)
+    return copy
+  }
+
+  /**
+   * Generates one anonymous block name which isn't used in the block table of
+   * the specified database.
+   *
+   * @param db - The database to add the block to
+   * @param prefix - The prefix of the block name, such as '*D' for dimensions
+   * @returns The unused block name
+   */
+  private getAnonymousBlockName(db: AcDbDatabase, prefix: string) {
+    let index = 1
+    while (db.tables.blockTable.has(`${prefix}${index}`)) ++index
+    return `${prefix}${index}`
   }
 
   /**
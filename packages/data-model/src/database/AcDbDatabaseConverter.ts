@@ -76,7 +76,12 @@ export type AcDbConversionStage =
 /**
  * Represents the status of a stage.
  */
-export type AcDbStageStatus = 'START' | 'END' | 'IN-PROGRESS' | 'ERROR'
+export type AcDbStageStatus =
+  | 'START'
+  | 'END'
+  | 'IN-PROGRESS'
+  | 'ERROR'
+  | 'ABORTED'
 
 /**
  * Callback function to update progress when parsing one file.
@@ -375,14 +380,18 @@ export abstract class AcDbDatabaseConverter<TModel = unknown> {
    * @param db - The database to populate with converted data
    * @param minimumChunkSize - Minimum chunk size for batch processing
    * @param progress - Optional progress callback
-   * @returns Promise that resolves when conversion is complete
+   * @param signal - Optional signal used to abort the conversion. If it is aborted,
+   * the remaining stages are skipped and the progress callback is called with
+   * status 'ABORTED'.
+   * @returns Promise that resolves when conversion is complete or aborted
    *
    */
   async read(
     data: ArrayBuffer,
     db: AcDbDatabase,
     minimumChunkSize: number,
-    progress?: AcDbConversionProgressCallback
+    progress?: AcDbConversionProgressCallback,
+    signal?: AbortSignal
   ) {
     const loadDbTimeEntry: AcCmPerformanceEntry<AcDbConvertDatabasePerformanceData> =
       {
@@ -407,6 +416,9 @@ export abstract class AcDbDatabaseConverter<TModel = unknown> {
     const scheduler = new AcCmTaskScheduler<string | ArrayBuffer, void>()
     scheduler.setCompleteCallback(() => this.onFinished())
     scheduler.setErrorCallback((error: AcCmTaskError) => this.onError(error))
+    scheduler.setAbortCallback((task: AcCmTask<unknown, unknown>) =>
+      this.onAborted(task)
+    )
     scheduler.addTask(
       new AcDbConversionTask(
         {
@@ -427,7 +439,7 @@ export abstract class AcDbDatabaseConverter<TModel = unknown> {
           step: 5,
           progress: percentage,
           task: async (data: ArrayBuffer) => {
-            return await this.parse(data)
+            return await this.parse(data, undefined, signal)
           }
         },
         progress
@@ -594,7 +606,8 @@ export abstract class AcDbDatabaseConverter<TModel = unknown> {
               db,
               minimumChunkSize,
               percentage,
-              progress
+              progress,
+              signal
             )
             return data
           }
@@ -617,7 +630,7 @@ export abstract class AcDbDatabaseConverter<TModel = unknown> {
     )
 
     const t = Date.now()
-    await scheduler.run(data)
+    await scheduler.run(data, signal)
     loadDbTimeEntry.data.total = Date.now() - t
   }
 
@@ -647,6 +660,15 @@ export abstract class AcDbDatabaseConverter<TModel = unknown> {
     return true
   }
 
+  protected onAborted(task: AcCmTask<unknown, unknown>) {
+    if (this.progress) {
+      const data = (task as AcDbConversionTask<unknown, unknown>).data
+      this.progress(data.progress.value, data.stage, 'ABORTED')
+    }
+    // Clear cache to reduce memory consumption
+    AcDbRenderingCache.instance.clear()
+  }
+
   protected onFinished() {
     if (this.progress) {
       this.progress(100, 'END', 'END')
@@ -657,7 +679,8 @@ export abstract class AcDbDatabaseConverter<TModel = unknown> {
 
   protected async parse(
     _data: ArrayBuffer,
-    _workerUrl?: string
+    _workerUrl?: string,
+    _signal?: AbortSignal
   ): Promise<AcDbParsingTaskResult<TModel>> {
     throw new Error('Not impelemented yet!')
   }
@@ -707,7 +730,8 @@ export abstract class AcDbDatabaseConverter<TModel = unknown> {
     _db: AcDbDatabase,
     _minimumChunkSize: number,
     _percentage: { value: number },
-    _progress?: AcDbConversionProgressCallback
+    _progress?: AcDbConversionProgressCallback,
+    _signal?: AbortSignal
   ) {
     throw new Error('Not impelemented yet!')
   }
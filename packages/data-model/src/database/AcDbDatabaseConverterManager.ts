@@ -1,7 +1,16 @@
 import { AcCmEventManager } from '@mlightcad/common'
 
-import { AcDbDxfConverter } from '../converter'
+import { AcDbDxfConverter, AcDbDxfWriter } from '../converter'
 import { AcDbDatabaseConverter } from './AcDbDatabaseConverter'
+import { AcDbDatabaseWriter } from './AcDbDatabaseWriter'
+import {
+  AcDbDwgMagicDetector,
+  AcDbDxfSentinelDetector,
+  AcDbFileExtensionDetector,
+  AcDbFileTypeDetectionContext,
+  AcDbFileTypeDetector,
+  AcDbHttpHeaderDetector
+} from './AcDbFileTypeDetector'
 
 /**
  * Represents the supported drawing file types.
@@ -49,6 +58,10 @@ export class AcDbDatabaseConverterManager {
   private static _instance?: AcDbDatabaseConverterManager
   /** Map of file types to their associated converters */
   private _converters: Map<AcDbFileType, AcDbDatabaseConverter>
+  /** Map of file types to their associated writers */
+  private _writers: Map<AcDbFileType, AcDbDatabaseWriter>
+  /** File type detectors ordered by priority */
+  private _detectors: AcDbFileTypeDetector[]
 
   /**
    * Events that can be triggered by the converter manager.
@@ -102,11 +115,21 @@ export class AcDbDatabaseConverterManager {
   /**
    * Private constructor to enforce singleton pattern.
    *
-   * Initializes the manager with a default DXF converter.
+   * Initializes the manager with a default DXF converter, a default DXF writer and
+   * default file type detectors. Default detectors check file content first, then
+   * HTTP headers and file extension at last.
    */
   private constructor() {
     this._converters = new Map()
+    this._writers = new Map()
+    this._detectors = [
+      new AcDbDwgMagicDetector(),
+      new AcDbDxfSentinelDetector(),
+      new AcDbHttpHeaderDetector(),
+      new AcDbFileExtensionDetector()
+    ]
     this.register(AcDbFileType.DXF, new AcDbDxfConverter())
+    this.registerWriter(AcDbFileType.DXF, new AcDbDxfWriter())
   }
 
   /**
@@ -184,4 +207,106 @@ export class AcDbDatabaseConverterManager {
       })
     }
   }
+
+  /**
+   * Registers a database writer for the specified file type.
+   *
+   * @param fileType - The file type to register the writer for
+   * @param writer - The database writer to register
+   *
+   * @example
+   * ```typescript
+   * const writer = new MyCustomWriter();
+   * manager.registerWriter(AcDbFileType.DWG, writer);
+   * ```
+   */
+  public registerWriter(fileType: AcDbFileType, writer: AcDbDatabaseWriter) {
+    this._writers.set(fileType, writer)
+  }
+
+  /**
+   * Gets the database writer associated with the specified file type.
+   *
+   * @param fileType - The file type to get the writer for
+   * @returns The database writer associated with the specified file type, or undefined if not found
+   *
+   * @example
+   * ```typescript
+   * const writer = manager.getWriter(AcDbFileType.DXF);
+   * if (writer) {
+   *   const dxf = writer.write(database);
+   * }
+   * ```
+   */
+  public getWriter(fileType: AcDbFileType) {
+    return this._writers.get(fileType)
+  }
+
+  /**
+   * Unregisters the database writer for the specified file type.
+   *
+   * @param fileType - The file type to unregister the writer for
+   *
+   * @example
+   * ```typescript
+   * manager.unregisterWriter(AcDbFileType.DXF);
+   * ```
+   */
+  public unregisterWriter(fileType: AcDbFileType) {
+    this._writers.delete(fileType)
+  }
+
+  /**
+   * Registers a file type detector. Detectors registered by this method are
+   * consulted before default detectors and the one registered later is consulted
+   * earlier. So third-party converters can claim their formats.
+   *
+   * @param detector - The file type detector to register
+   *
+   * @example
+   * ```typescript
+   * manager.registerDetector(new MyDwgDetector());
+   * ```
+   */
+  public registerDetector(detector: AcDbFileTypeDetector) {
+    this._detectors.unshift(detector)
+  }
+
+  /**
+   * Unregisters the specified file type detector.
+   *
+   * @param detector - The file type detector to unregister
+   *
+   * @example
+   * ```typescript
+   * manager.unregisterDetector(myDwgDetector);
+   * ```
+   */
+  public unregisterDetector(detector: AcDbFileTypeDetector) {
+    const index = this._detectors.indexOf(detector)
+    if (index >= 0) this._detectors.splice(index, 1)
+  }
+
+  /**
+   * Detects the type of one drawing file by consulting registered detectors in
+   * order. The result of the first detector which recognizes the file is used.
+   *
+   * @param context - Information of the drawing file
+   * @returns The file type or undefined if no detector can recognize it
+   *
+   * @example
+   * ```typescript
+   * const fileType = manager.detectFileType({
+   *   data,
+   *   contentType: response.headers.get('content-type')
+   * });
+   * ```
+   */
+  public detectFileType(context: AcDbFileTypeDetectionContext) {
+    for (const detector of this._detectors) {
+      const fileType = detector.detect(context)
+      if (fileType) return fileType
+    }
+    return undefined
+  }
 }
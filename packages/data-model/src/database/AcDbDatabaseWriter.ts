@@ -0,0 +1,47 @@
+import { AcDbDatabase } from './AcDbDatabase'
+
+/**
+ * Options to write one drawing database.
+ */
+export interface AcDbDatabaseWriteOptions {
+  /**
+   * Whether to write the drawing file in binary format. It is supported by DXF
+   * writer only. Default value is false.
+   */
+  binary?: boolean
+}
+
+/**
+ * Interface of database writers which serialize one drawing database to the
+ * content of one drawing file.
+ *
+ * Database writers are registered by file type in
+ * {@link AcDbDatabaseConverterManager} and are used by {@link AcDbDatabase.write}.
+ *
+ * @example
+ * ```typescript
+ * class MyDxfWriter implements AcDbDatabaseWriter {
+ *   write(db: AcDbDatabase) {
+ *     return '  0\nEOF\n';
+ *   }
+ * }
+ * AcDbDatabaseConverterManager.instance.registerWriter(
+ *   AcDbFileType.DXF,
+ *   new MyDxfWriter()
+ * );
+ * ```
+ */
+export interface AcDbDatabaseWriter {
+  /**
+   * Serializes the specified database.
+   *
+   * @param db - The database to serialize
+   * @param options - Options to write the database
+   * @returns The content of the drawing file. It is one string for text files
+   * and one ArrayBuffer for binary files.
+   */
+  write(
+    db: AcDbDatabase,
+    options?: AcDbDatabaseWriteOptions
+  ): string | ArrayBuffer
+}
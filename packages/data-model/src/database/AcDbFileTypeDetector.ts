@@ -0,0 +1,200 @@
+// Please don't modify the following line to import from '../converter' so that
+// treeshaking can include classes really needed.
+import { isBinaryDxf } from '../converter/AcDbBinaryDxf'
+import { AcDbFileType } from './AcDbDatabaseConverterManager'
+import { AcDbDwgVersion } from './AcDbDwgVersion'
+
+/**
+ * Information used to detect the type of one drawing file.
+ */
+export interface AcDbFileTypeDetectionContext {
+  /**
+   * The content of the drawing file. It may be only the beginning of the file.
+   */
+  data: ArrayBuffer
+  /**
+   * The file name, for example, the last part of the path of the URL
+   */
+  fileName?: string
+  /**
+   * The value of HTTP header 'Content-Type'
+   */
+  contentType?: string | null
+  /**
+   * The value of HTTP header 'Content-Disposition'
+   */
+  contentDisposition?: string | null
+}
+
+/**
+ * Interface of file type detectors. File type detectors are registered in
+ * {@link AcDbDatabaseConverterManager} and are used to find the converter to
+ * read one drawing file.
+ *
+ * @example
+ * ```typescript
+ * class MyDwgDetector implements AcDbFileTypeDetector {
+ *   detect(context: AcDbFileTypeDetectionContext) {
+ *     return context.contentType === 'application/x-my-dwg'
+ *       ? AcDbFileType.DWG
+ *       : undefined;
+ *   }
+ * }
+ * AcDbDatabaseConverterManager.instance.registerDetector(new MyDwgDetector());
+ * ```
+ */
+export interface AcDbFileTypeDetector {
+  /**
+   * Detects the type of the drawing file.
+   *
+   * @param context - Information of the drawing file
+   * @returns The file type or undefined if this detector can't recognize it
+   */
+  detect(context: AcDbFileTypeDetectionContext): AcDbFileType | undefined
+}
+
+/**
+ * Number of bytes at the beginning of the file checked by content detectors
+ */
+const SNIFF_LENGTH = 1024
+
+/**
+ * Content types used by servers for DWG files
+ */
+const DWG_CONTENT_TYPES = [
+  'application/acad',
+  'application/autocad_dwg',
+  'application/dwg',
+  'application/x-acad',
+  'application/x-autocad',
+  'application/x-dwg',
+  'drawing/dwg',
+  'image/vnd.dwg',
+  'image/x-dwg'
+]
+
+/**
+ * Content types used by servers for DXF files
+ */
+const DXF_CONTENT_TYPES = [
+  'application/dxf',
+  'application/x-dxf',
+  'drawing/x-dxf',
+  'image/vnd.dxf',
+  'image/x-dxf'
+]
+
+/**
+ * Detects DWG files by the version name (such as 'AC1032') stored in the first
+ * six bytes of the file.
+ */
+export class AcDbDwgMagicDetector implements AcDbFileTypeDetector {
+  /**
+   * @inheritdoc
+   */
+  detect(context: AcDbFileTypeDetectionContext) {
+    if (context.data.byteLength < 6) return undefined
+    const magic = String.fromCharCode(...new Uint8Array(context.data, 0, 6))
+    if (!magic.startsWith('AC')) return undefined
+    try {
+      new AcDbDwgVersion(magic)
+      return AcDbFileType.DWG
+    } catch {
+      return undefined
+    }
+  }
+}
+
+/**
+ * Detects binary DXF files by the binary DXF sentinel and ASCII DXF files by
+ * the first group, which is either `0 SECTION` or one `999` comment.
+ */
+export class AcDbDxfSentinelDetector implements AcDbFileTypeDetector {
+  /**
+   * @inheritdoc
+   */
+  detect(context: AcDbFileTypeDetectionContext) {
+    const data = context.data
+    if (isBinaryDxf(data)) return AcDbFileType.DXF
+
+    const length = Math.min(data.byteLength, SNIFF_LENGTH)
+    const text = new TextDecoder()
+      .decode(new Uint8Array(data, 0, length))
+      .replace(/^\uFEFF/, '')
+    const lines = text.split(/\r?\n/).map(line => line.trim())
+    // Skip leading empty lines
+    let index = 0
+    while (index < lines.length && lines[index] === '') ++index
+    const code = lines[index]
+    const value = lines[index + 1]
+    if (code === '0' && value === 'SECTION') return AcDbFileType.DXF
+    if (code === '999' && value != null) return AcDbFileType.DXF
+    return undefined
+  }
+}
+
+/**
+ * Detects file type by HTTP headers 'Content-Type' and 'Content-Disposition'.
+ * Generic content types such as 'application/octet-stream' are ignored.
+ */
+export class AcDbHttpHeaderDetector implements AcDbFileTypeDetector {
+  /**
+   * @inheritdoc
+   */
+  detect(context: AcDbFileTypeDetectionContext) {
+    if (context.contentType) {
+      const mimeType = context.contentType.split(';')[0].trim().toLowerCase()
+      if (DWG_CONTENT_TYPES.includes(mimeType)) return AcDbFileType.DWG
+      if (DXF_CONTENT_TYPES.includes(mimeType)) return AcDbFileType.DXF
+    }
+    if (context.contentDisposition) {
+      const fileName = this.getFileName(context.contentDisposition)
+      if (fileName) return fileTypeFromExtension(fileName)
+    }
+    return undefined
+  }
+
+  /**
+   * Gets the file name from the value of HTTP header 'Content-Disposition'.
+   * Parameter 'filename*' (RFC 5987) takes precedence over parameter 'filename'.
+   */
+  private getFileName(contentDisposition: string) {
+    const extended = /filename\*\s*=\s*([^;]+)/i.exec(contentDisposition)
+    if (extended) {
+      // Format: charset'language'encoded-value
+      const value = extended[1].trim().replace(/^"|"$/g, '')
+      const encoded = value.replace(/^[^']*'[^']*'/, '')
+      try {
+        return decodeURIComponent(encoded)
+      } catch {
+        return encoded
+      }
+    }
+    const plain = /filename\s*=\s*("[^"]*"|[^;]+)/i.exec(contentDisposition)
+    return plain ? plain[1].trim().replace(/^"|"$/g, '') : undefined
+  }
+}
+
+/**
+ * Detects file type by the extension of the file name.
+ */
+export class AcDbFileExtensionDetector implements AcDbFileTypeDetector {
+  /**
+   * @inheritdoc
+   */
+  detect(context: AcDbFileTypeDetectionContext) {
+    return context.fileName
+      ? fileTypeFromExtension(context.fileName)
+      : undefined
+  }
+}
+
+/**
+ * Gets file type from the extension of the specified file name.
+ */
+function fileTypeFromExtension(fileName: string) {
+  const extension = fileName.toLowerCase().split('.').pop()
+  if (extension === 'dwg') return AcDbFileType.DWG
+  if (extension === 'dxf') return AcDbFileType.DXF
+  return undefined
+}
@@ -80,13 +80,16 @@ export class AcDbLayerTableRecord extends AcDbSymbolTableRecord<AcDbLayerTableRe
       materialId: -1
     })
     super(attrs, defaultAttrs)
-    this.attrs.events.attrChanged.addEventListener(args => {
-      this.database.events.layerModified.dispatch({
-        database: this.database,
-        layer: this,
-        changes: args.object.changedAttributes()
-      })
-    })
+    this.listenAttrChanged()
+  }
+
+  /**
+   * @inheritdoc
+   */
+  clone() {
+    const copy = super.clone()
+    copy.listenAttrChanged()
+    return copy
   }
 
   /**
@@ -372,4 +375,18 @@ export class AcDbLayerTableRecord extends AcDbSymbolTableRecord<AcDbLayerTableRe
   set materialId(value: string) {
     this.setAttr('materialId', value)
   }
+
+  /**
+   * Dispatches event `layerModified` of the database when attributes of this
+   * layer are changed.
+   */
+  private listenAttrChanged() {
+    this.attrs.events.attrChanged.addEventListener(args => {
+      this.database.events.layerModified.dispatch({
+        database: this.database,
+        layer: this,
+        changes: args.object.changedAttributes()
+      })
+    })
+  }
 }
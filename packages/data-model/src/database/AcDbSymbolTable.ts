@@ -71,6 +71,10 @@ export class AcDbSymbolTable<
     const normalizedName = this.normalizeName(record.name)
     this._recordsByName.set(normalizedName, record)
     this._recordsById.set(record.objectId, record)
+    this.database.transactionManager.addUndoRecord({
+      undo: () => this.deleteRecord(record),
+      redo: () => this.add(record)
+    })
   }
 
   /**
@@ -91,8 +95,7 @@ export class AcDbSymbolTable<
     const normalizedName = this.normalizeName(name)
     const record = this._recordsByName.get(normalizedName)
     if (record) {
-      this._recordsById.delete(record.objectId)
-      this._recordsByName.delete(name)
+      this.deleteRecord(record)
       return true
     }
     return false
@@ -115,8 +118,7 @@ export class AcDbSymbolTable<
   removeId(id: AcDbObjectId) {
     const record = this._recordsById.get(id)
     if (record) {
-      this._recordsByName.delete(record.name)
-      this._recordsById.delete(id)
+      this.deleteRecord(record)
       return true
     }
     return false
@@ -243,6 +245,21 @@ export class AcDbSymbolTable<
     return new AcDbObjectIterator(this._recordsByName)
   }
 
+  /**
+   * Removes the specified record from this table and records the removal so
+   * that it can be undone.
+   *
+   * @param record - The record to remove
+   */
+  private deleteRecord(record: RecordType) {
+    this._recordsByName.delete(this.normalizeName(record.name))
+    this._recordsById.delete(record.objectId)
+    this.database.transactionManager.addUndoRecord({
+      undo: () => this.add(record),
+      redo: () => this.deleteRecord(record)
+    })
+  }
+
   /**
    * Normalizes the name of a symbol table record.
    *
@@ -0,0 +1,382 @@
+import { AcCmAttributes } from '@mlightcad/common'
+
+import { AcDbObject } from '../base/AcDbObject'
+import { AcDbEntity } from '../entity/AcDbEntity'
+import { AcDbDatabase } from './AcDbDatabase'
+
+/**
+ * One reversible change made to the database. Undo records are created by
+ * objects when they are modified in one transaction.
+ */
+export interface AcDbUndoRecord {
+  /**
+   * Reverts the change.
+   */
+  undo(): void
+  /**
+   * Applies the change again after it is reverted.
+   */
+  redo(): void
+}
+
+/**
+ * Undo record to revert changes of attributes of one object.
+ */
+class AcDbAttrUndoRecord implements AcDbUndoRecord {
+  constructor(
+    private _object: AcDbObject,
+    private _before: AcCmAttributes,
+    private _after: AcCmAttributes
+  ) {}
+
+  undo() {
+    this.apply(this._before)
+  }
+
+  redo() {
+    this.apply(this._after)
+  }
+
+  private apply(attrs: AcCmAttributes) {
+    this._object.attrs.set(attrs)
+    if (this._object instanceof AcDbEntity) {
+      this._object.triggerModifiedEvent()
+    }
+  }
+}
+
+/**
+ * Undo record to revert changes of values stored in fields of one object. It
+ * holds values of the object before the change until the change is undone, and
+ * holds values after the change until the change is redone.
+ */
+class AcDbObjectUndoRecord implements AcDbUndoRecord {
+  private _values: Record<string, unknown>
+
+  constructor(private _object: AcDbObject) {
+    this._values = _object.saveValues()
+  }
+
+  undo() {
+    this.swap()
+  }
+
+  redo() {
+    this.swap()
+  }
+
+  private swap() {
+    const values = this._object.saveValues()
+    this._object.restoreValues(this._values)
+    this._values = values
+    if (this._object instanceof AcDbEntity) {
+      this._object.triggerModifiedEvent()
+    }
+  }
+}
+
+/**
+ * Group of changes made to the database between starting and ending one
+ * transaction.
+ */
+export class AcDbTransaction {
+  /** Changes made in this transaction in the order they were made */
+  private _records: AcDbUndoRecord[] = []
+  /** Objects whose values are saved in this transaction */
+  private _savedObjects = new Set<AcDbObject>()
+
+  /**
+   * Returns true if no change was made in this transaction.
+   */
+  get isEmpty() {
+    return this._records.length === 0
+  }
+
+  /**
+   * Adds one change to this transaction.
+   *
+   * @param record - The change to add
+   */
+  addRecord(record: AcDbUndoRecord) {
+    this._records.push(record)
+  }
+
+  /**
+   * Saves values of the specified object if they aren't saved in this
+   * transaction yet. It is called before the object is modified.
+   *
+   * @param object - The object to be modified
+   */
+  saveObject(object: AcDbObject) {
+    if (this._savedObjects.has(object)) return
+    this._savedObjects.add(object)
+    this.addRecord(new AcDbObjectUndoRecord(object))
+  }
+
+  /**
+   * Reverts all changes made in this transaction in reverse order.
+   */
+  undo() {
+    for (let i = this._records.length - 1; i >= 0; --i) {
+      this._records[i].undo()
+    }
+  }
+
+  /**
+   * Applies all changes made in this transaction again in original order.
+   */
+  redo() {
+    this._records.forEach(record => record.redo())
+  }
+
+  /**
+   * Moves all changes made in the specified transaction into this transaction.
+   *
+   * @param transaction - The nested transaction to merge
+   */
+  merge(transaction: AcDbTransaction) {
+    this._records.push(...transaction._records)
+    transaction._records = []
+  }
+}
+
+/**
+ * Manages transactions of one drawing database and the undo/redo stack.
+ *
+ * Changes are recorded only when there is at least one active transaction.
+ * Transactions can be nested. Committing one nested transaction merges its
+ * changes into the outer transaction. Committing the outermost transaction
+ * pushes all of its changes onto the undo stack as one undo step. Aborting one
+ * transaction reverts changes made in it.
+ *
+ * The following changes are recorded:
+ * - Attributes set by {@link AcDbObject.setAttr}
+ * - Values of objects modified after calling
+ *   {@link AcDbObject.assertWriteEnabled}, such as entity properties changed by
+ *   setters and geometries changed by `transformBy`
+ * - Entities appended to block table records
+ * - Records added to or removed from symbol tables
+ *
+ * Events `entityAppended` and `entityModified` of the database are dispatched
+ * when the related changes are undone or redone.
+ *
+ * @example
+ * ```typescript
+ * const manager = db.transactionManager;
+ * manager.startTransaction();
+ * db.tables.blockTable.modelSpace.appendEntity(line);
+ * db.tables.layerTable.getAt('0')!.isOff = true;
+ * manager.commit();
+ *
+ * manager.undo(); // Remove the line and turn on layer '0'
+ * manager.redo(); // Append the line and turn off layer '0' again
+ * ```
+ */
+export class AcDbTransactionManager {
+  /** The database managed by this transaction manager */
+  private _database: AcDbDatabase
+  /** Active transactions. The last one is the top transaction. */
+  private _transactions: AcDbTransaction[] = []
+  /** Committed transactions which can be undone */
+  private _undoStack: AcDbTransaction[] = []
+  /** Undone transactions which can be redone */
+  private _redoStack: AcDbTransaction[] = []
+  /** The flag whether changes are being reverted or applied again */
+  private _replaying: boolean = false
+
+  /**
+   * Creates one transaction manager for the specified database.
+   *
+   * @param db - The database managed by this transaction manager
+   */
+  constructor(db: AcDbDatabase) {
+    this._database = db
+  }
+
+  /**
+   * The database managed by this transaction manager
+   */
+  get database() {
+    return this._database
+  }
+
+  /**
+   * The number of active transactions
+   */
+  get numActiveTransactions() {
+    return this._transactions.length
+  }
+
+  /**
+   * The most recently started transaction which is still active. It is
+   * undefined if there is no active transaction.
+   */
+  get topTransaction(): AcDbTransaction | undefined {
+    return this._transactions[this._transactions.length - 1]
+  }
+
+  /**
+   * Returns true if changes made to the database are recorded now.
+   */
+  get isRecording() {
+    return this._transactions.length > 0 && !this._replaying
+  }
+
+  /**
+   * Returns true if there is any committed transaction which can be undone.
+   */
+  get canUndo() {
+    return this._undoStack.length > 0
+  }
+
+  /**
+   * Returns true if there is any undone transaction which can be redone.
+   */
+  get canRedo() {
+    return this._redoStack.length > 0
+  }
+
+  /**
+   * Starts one new transaction. If there is one active transaction already,
+   * the new transaction is nested in it.
+   *
+   * @returns The new transaction
+   */
+  startTransaction() {
+    const transaction = new AcDbTransaction()
+    this._transactions.push(transaction)
+    return transaction
+  }
+
+  /**
+   * Commits the top transaction. Changes of one nested transaction are merged
+   * into its outer transaction. Changes of the outermost transaction are pushed
+   * onto the undo stack and the redo stack is cleared.
+   *
+   * @throws {Error} When there is no active transaction
+   */
+  commit() {
+    const transaction = this.popTransaction()
+    const outer = this.topTransaction
+    if (outer) {
+      outer.merge(transaction)
+    } else if (!transaction.isEmpty) {
+      this._undoStack.push(transaction)
+      this._redoStack = []
+    }
+  }
+
+  /**
+   * Aborts the top transaction and reverts all changes made in it.
+   *
+   * @throws {Error} When there is no active transaction
+   */
+  abort() {
+    const transaction = this.popTransaction()
+    this.replay(() => transaction.undo())
+  }
+
+  /**
+   * Reverts changes of the most recently committed transaction.
+   *
+   * @returns True if one transaction is undone, false if there is nothing to undo
+   * @throws {Error} When there is any active transaction
+   */
+  undo() {
+    this.assertNoActiveTransaction('undo')
+    const transaction = this._undoStack.pop()
+    if (!transaction) return false
+    this.replay(() => transaction.undo())
+    this._redoStack.push(transaction)
+    return true
+  }
+
+  /**
+   * Applies changes of the most recently undone transaction again.
+   *
+   * @returns True if one transaction is redone, false if there is nothing to redo
+   * @throws {Error} When there is any active transaction
+   */
+  redo() {
+    this.assertNoActiveTransaction('redo')
+    const transaction = this._redoStack.pop()
+    if (!transaction) return false
+    this.replay(() => transaction.redo())
+    this._undoStack.push(transaction)
+    return true
+  }
+
+  /**
+   * Adds one change to the top transaction. Nothing happens if changes are not
+   * recorded now. This method is called by database objects when they are
+   * modified. You only need to call it for changes not recorded by database
+   * objects themselves.
+   *
+   * @param record - The change to add
+   */
+  addUndoRecord(record: AcDbUndoRecord) {
+    if (this.isRecording) this.topTransaction!.addRecord(record)
+  }
+
+  /**
+   * Records changes of attributes of the specified object.
+   *
+   * @param object - The modified object
+   * @param before - Values of the changed attributes before modification
+   * @param after - Values of the changed attributes after modification
+   */
+  addAttrUndoRecord(
+    object: AcDbObject,
+    before: AcCmAttributes,
+    after: AcCmAttributes
+  ) {
+    this.addUndoRecord(new AcDbAttrUndoRecord(object, before, after))
+  }
+
+  /**
+   * Saves values of the specified object in the top transaction before it is
+   * modified so that the change can be undone. Values of one object are saved
+   * only once in one transaction. Nothing happens if changes are not recorded
+   * now.
+   *
+   * @param object - The object to be modified
+   */
+  addObjectUndoRecord(object: AcDbObject) {
+    if (this.isRecording) this.topTransaction!.saveObject(object)
+  }
+
+  /**
+   * Discards all active transactions without reverting their changes and
+   * clears the undo and redo stacks. It is called when the database is cleared.
+   */
+  clear() {
+    this._transactions = []
+    this._undoStack = []
+    this._redoStack = []
+  }
+
+  private popTransaction() {
+    const transaction = this._transactions.pop()
+    if (!transaction) {
+      throw new Error('[AcDbTransactionManager] No active transaction!')
+    }
+    return transaction
+  }
+
+  private assertNoActiveTransaction(operation: string) {
+    if (this._transactions.length > 0) {
+      throw new Error(
+        `[AcDbTransactionManager] Can not ${operation} when there are active transactions!`
+      )
+    }
+  }
+
+  private replay(action: () => void) {
+    this._replaying = true
+    try {
+      action()
+    } finally {
+      this._replaying = false
+    }
+  }
+}
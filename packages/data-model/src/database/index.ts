@@ -3,9 +3,11 @@ export * from './AcDbBlockTable'
 export * from './AcDbBlockTableRecord'
 export * from './AcDbDatabaseConverter'
 export * from './AcDbDatabaseConverterManager'
+export * from './AcDbDatabaseWriter'
 export * from './AcDbDimStyleTable'
 export * from './AcDbDimStyleTableRecord'
 export * from './AcDbDwgVersion'
+export * from './AcDbFileTypeDetector'
 export * from './AcDbLayerTable'
 export * from './AcDbLayerTableRecord'
 export * from './AcDbLinetypeTable'
@@ -15,5 +17,6 @@ export * from './AcDbSymbolTableRecord'
 export * from './AcDbSysVarManager'
 export * from './AcDbTextStyleTable'
 export * from './AcDbTextStyleTableRecord'
+export * from './AcDbTransactionManager'
 export * from './AcDbViewportTable'
 export * from './AcDbViewportTableRecord'
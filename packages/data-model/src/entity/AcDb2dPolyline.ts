@@ -1,12 +1,23 @@
 import {
+  AcGeArea2d,
   AcGeBox3d,
+  AcGeCircArc3d,
+  AcGeExtendType,
+  AcGeMatrix2d,
+  AcGeMatrix3d,
   AcGePoint3d,
   AcGePoint3dLike,
   AcGePolyline2d,
-  AcGePolyline2dVertex
+  AcGeVector3d
 } from '@mlightcad/geometry-engine'
-import { AcGiRenderer } from '@mlightcad/graphic-interface'
+import { AcGiEntity, AcGiRenderer } from '@mlightcad/graphic-interface'
 
+import {
+  AcDbOsnapHelper,
+  AcDbOsnapMode,
+  AcDbPolylineWidthHelper,
+  AcDbWidePolylineVertex
+} from '../misc'
 import { AcDbCurve } from './AcDbCurve'
 
 /**
@@ -55,7 +66,7 @@ export class AcDb2dPolyline extends AcDbCurve {
   /** The elevation (Z-coordinate) of the polyline plane */
   private _elevation: number
   /** The underlying geometric polyline object */
-  private _geo: AcGePolyline2d<AcGePolyline2dVertex>
+  private _geo: AcGePolyline2d<AcDbWidePolylineVertex>
 
   /**
    * Creates a new empty 2d polyline entity.
@@ -65,8 +76,8 @@ export class AcDb2dPolyline extends AcDbCurve {
     vertices: AcGePoint3dLike[],
     elevation = 0,
     closed = false,
-    _startWidth = 0,
-    _endWidth = 0,
+    startWidth = 0,
+    endWidth = 0,
     bulges: number[] | null = null
   ) {
     super()
@@ -77,7 +88,9 @@ export class AcDb2dPolyline extends AcDbCurve {
       return {
         x: vertex.x,
         y: vertex.y,
-        bulge: hasBulge ? bulges[index] : undefined
+        bulge: hasBulge ? bulges[index] : undefined,
+        startWidth,
+        endWidth
       }
     })
     this._geo = new AcGePolyline2d(polylineVertices, closed)
@@ -98,6 +111,7 @@ export class AcDb2dPolyline extends AcDbCurve {
    * @param value - The curve/spline-fit type for this 2d polyline.
    */
   set polyType(value: AcDbPoly2dType) {
+    this.assertWriteEnabled()
     this._polyType = value
   }
 
@@ -130,9 +144,82 @@ export class AcDb2dPolyline extends AcDbCurve {
    * ```
    */
   set elevation(value: number) {
+    this.assertWriteEnabled()
     this._elevation = value
   }
 
+  /**
+   * Gets the number of vertices in this polyline.
+   *
+   * @returns The number of vertices
+   */
+  get numberOfVertices(): number {
+    return this._geo.numberOfVertices
+  }
+
+  /**
+   * Gets the 3D location of a vertex at the specified index. The Z-coordinate
+   * is set to the polyline's elevation.
+   *
+   * @param index - The index (0-based) of the vertex
+   * @returns The 3D point location of the vertex
+   *
+   * @example
+   * ```typescript
+   * const point = polyline.getPointAt(0);
+   * console.log(`Vertex 0: ${point.x}, ${point.y}, ${point.z}`);
+   * ```
+   */
+  getPointAt(index: number): AcGePoint3d {
+    const vertex = this._geo.getPointAt(index)
+    return new AcGePoint3d(vertex.x, vertex.y, this._elevation)
+  }
+
+  /**
+   * Gets the bulge value of the segment starting at the specified vertex.
+   *
+   * @param index - The index (0-based) of the vertex
+   * @returns The bulge value (0 for a straight segment)
+   */
+  getBulgeAt(index: number): number {
+    return this._geo.vertices[index].bulge || 0
+  }
+
+  /**
+   * Gets the starting width of the segment starting at the specified vertex.
+   *
+   * @param index - The index (0-based) of the vertex
+   * @returns The starting width, or 0 if no width is set
+   */
+  getStartWidthAt(index: number): number {
+    return this._geo.vertices[index].startWidth || 0
+  }
+
+  /**
+   * Gets the ending width of the segment starting at the specified vertex.
+   *
+   * @param index - The index (0-based) of the vertex
+   * @returns The ending width, or 0 if no width is set
+   */
+  getEndWidthAt(index: number): number {
+    return this._geo.vertices[index].endWidth || 0
+  }
+
+  /**
+   * Sets the starting and ending widths of the segment starting at the
+   * specified vertex.
+   *
+   * @param index - The index (0-based) of the vertex
+   * @param startWidth - The starting width of the segment
+   * @param endWidth - The ending width of the segment
+   */
+  setWidthsAt(index: number, startWidth: number, endWidth: number) {
+    this.assertWriteEnabled()
+    const vertex = this._geo.vertices[index]
+    vertex.startWidth = startWidth
+    vertex.endWidth = endWidth
+  }
+
   /**
    * Gets whether this polyline is closed.
    *
@@ -151,6 +238,110 @@ export class AcDb2dPolyline extends AcDbCurve {
     return this._geo.closed
   }
 
+  /**
+   * @inheritdoc
+   */
+  get startParam() {
+    return this._geo.startParam
+  }
+
+  /**
+   * @inheritdoc
+   */
+  get endParam() {
+    return this._geo.endParam
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getPointAtParam(param: number) {
+    const point = this._geo.getPointAtParam(param)
+    return new AcGePoint3d(point.x, point.y, this._elevation)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getParamAtPoint(point: AcGePoint3dLike) {
+    return this._geo.getParamAtPoint(point)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getDistAtParam(param: number) {
+    return this._geo.getDistAtParam(param)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getParamAtDist(dist: number) {
+    return this._geo.getParamAtDist(dist)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getFirstDeriv(param: number) {
+    const deriv = this._geo.getFirstDeriv(param)
+    return new AcGeVector3d(deriv.x, deriv.y, 0)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getClosestPointTo(point: AcGePoint3dLike) {
+    const closest = this._geo.getClosestPointTo(point)
+    return new AcGePoint3d(closest.x, closest.y, this._elevation)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getArea() {
+    return this._geo.area
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getSplitCurves(params: number[]) {
+    return this._geo.split(params).map(geo => {
+      const polyline = new AcDb2dPolyline(
+        this._polyType,
+        geo.vertices.map(vertex => ({ x: vertex.x, y: vertex.y, z: 0 })),
+        this._elevation,
+        false,
+        0,
+        0,
+        geo.vertices.map(vertex => vertex.bulge || 0)
+      )
+      polyline.setPropertiesFrom(this)
+      return polyline
+    })
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getOffsetCurves(distance: number) {
+    return this._geo.getOffsetCurves(distance).map(geo => {
+      const polyline = new AcDb2dPolyline(
+        this._polyType,
+        geo.vertices.map(vertex => ({ x: vertex.x, y: vertex.y, z: 0 })),
+        this._elevation,
+        geo.closed,
+        0,
+        0,
+        geo.vertices.map(vertex => vertex.bulge || 0)
+      )
+      polyline.setPropertiesFrom(this)
+      return polyline
+    })
+  }
+
   /**
    * Sets whether this polyline is closed.
    *
@@ -162,6 +353,7 @@ export class AcDb2dPolyline extends AcDbCurve {
    * ```
    */
   set closed(value: boolean) {
+    this.assertWriteEnabled()
     this._geo.closed = value
   }
 
@@ -177,7 +369,12 @@ export class AcDb2dPolyline extends AcDbCurve {
    * ```
    */
   get geometricExtents(): AcGeBox3d {
-    const box = this._geo.box
+    const box = this._geo.box.clone()
+    // Outlines of segments with width may exceed the centerline
+    AcDbPolylineWidthHelper.createOutlines(
+      this._geo.vertices,
+      this.closed
+    ).forEach(outline => outline.forEach(point => box.expandByPoint(point)))
     return new AcGeBox3d(
       { x: box.min.x, y: box.min.y, z: this._elevation },
       { x: box.max.x, y: box.max.y, z: this._elevation }
@@ -198,6 +395,113 @@ export class AcDb2dPolyline extends AcDbCurve {
     return gripPoints
   }
 
+  /**
+   * Gets the object snap points for this polyline.
+   *
+   * Supported snap modes are EndPoint, MidPoint, Center, Quadrant, Centroid,
+   * Nearest, Perpendicular and Tangent. End points and middle points are computed
+   * for each segment. Arc segments created by bulges are handled as circular arcs.
+   * Center points and quadrant points are returned for arc segments only. Centroid
+   * is returned only for closed polylines.
+   *
+   * @param osnapMode - The object snap mode
+   * @param pickPoint - The point where the user picked
+   * @param lastPoint - The last point picked by the user
+   * @param snapPoints - Array to populate with snap points
+   *
+   * @example
+   * ```typescript
+   * const snapPoints: AcGePoint3d[] = [];
+   * polyline.subGetOsnapPoints(AcDbOsnapMode.EndPoint, pickPoint, lastPoint, snapPoints);
+   * // snapPoints now contains all vertices of the polyline
+   * ```
+   */
+  subGetOsnapPoints(
+    osnapMode: AcDbOsnapMode,
+    pickPoint: AcGePoint3dLike,
+    lastPoint: AcGePoint3dLike,
+    snapPoints: AcGePoint3dLike[]
+  ) {
+    if (
+      osnapMode === AcDbOsnapMode.Center ||
+      osnapMode === AcDbOsnapMode.Quadrant
+    ) {
+      this._geo.getCurves3d(this._elevation).forEach(curve => {
+        if (!(curve instanceof AcGeCircArc3d)) return
+        AcDbOsnapHelper.pushUniquePoints(
+          osnapMode === AcDbOsnapMode.Center
+            ? [curve.center]
+            : AcDbOsnapHelper.getQuadrantPoints(curve),
+          snapPoints
+        )
+      })
+      return
+    }
+
+    const curves = AcDbOsnapHelper.createPolyline(
+      this._geo.vertices,
+      this.closed,
+      this._elevation
+    )
+    if (osnapMode === AcDbOsnapMode.Centroid) {
+      const centroid = this.closed && AcDbOsnapHelper.getCentroid(curves)
+      if (centroid) snapPoints.push(centroid)
+    } else {
+      AcDbOsnapHelper.getOsnapPoints(
+        curves,
+        osnapMode,
+        pickPoint,
+        lastPoint,
+        snapPoints
+      )
+    }
+  }
+
+  /**
+   * @inheritdoc
+   */
+  protected subGetIntersectCurves() {
+    return {
+      curves: this._geo.getCurves3d(this._elevation),
+      extend: AcGeExtendType.None
+    }
+  }
+
+  /**
+   * Transforms this polyline by the specified matrix.
+   *
+   * Vertices are transformed in the plane of the polyline and the elevation is
+   * set to the transformed z-coordinate of the polyline plane. Widths of segments
+   * are scaled by the scale factor of the transformation. Arc segments can't be
+   * scaled non-uniformly. One error is thrown in this case and this polyline isn't
+   * changed.
+   *
+   * @param matrix - The transformation matrix to apply
+   * @returns This polyline after transformation
+   *
+   * @example
+   * ```typescript
+   * const translationMatrix = AcGeMatrix3d.translation(10, 0, 0);
+   * polyline.transformBy(translationMatrix);
+   * // Polyline is now translated 10 units in the X direction
+   * ```
+   */
+  transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    const matrix2d = new AcGeMatrix2d().setFromMatrix4InXYPlane(matrix)
+    const scale = Math.sqrt(Math.abs(matrix2d.determinant()))
+    // Transform vertices at first so that nothing is changed if it fails
+    this._geo.transform(matrix2d)
+    this._elevation = new AcGePoint3d(0, 0, this._elevation).applyMatrix4(
+      matrix
+    ).z
+    this._geo.vertices.forEach(vertex => {
+      if (vertex.startWidth != null) vertex.startWidth *= scale
+      if (vertex.endWidth != null) vertex.endWidth *= scale
+    })
+    return this
+  }
+
   /**
    * Draws this polyline using the specified renderer.
    *
@@ -211,8 +515,26 @@ export class AcDb2dPolyline extends AcDbCurve {
       points.push(new AcGePoint3d().set(point.x, point.y, this.elevation))
     )
 
-    this.attachToEntityTraits(renderer.subEntityTraits)
+    const traits = renderer.subEntityTraits
+    this.attachToEntityTraits(traits)
 
-    return renderer.lines(points)
+    const outlines = AcDbPolylineWidthHelper.createOutlines(
+      this._geo.vertices,
+      this.closed
+    )
+    if (outlines.length == 0) return renderer.lines(points)
+
+    // Segments with width are drawn as filled areas and the centerline is
+    // still needed by segments without width.
+    const results: AcGiEntity[] = [renderer.lines(points)]
+    traits.fillType = { solidFill: true, patternAngle: 0, patternLines: [] }
+    outlines.forEach(outline => {
+      const area = new AcGeArea2d()
+      area.add(new AcGePolyline2d(outline, true))
+      results.push(renderer.area(area))
+    })
+    const group = renderer.group(results)
+    this.attachEntityInfo(group)
+    return group
   }
 }
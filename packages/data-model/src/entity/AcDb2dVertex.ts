@@ -84,6 +84,7 @@ export class AcDb2dVertex extends AcDbEntity {
    * @param value - The position value of the vertex
    */
   set position(value: AcGePoint3dLike) {
+    this.assertWriteEnabled()
     this._position.copy(value)
   }
 
@@ -102,6 +103,7 @@ export class AcDb2dVertex extends AcDbEntity {
    * @param value - The vertex's bulge value
    */
   set bulge(value: number) {
+    this.assertWriteEnabled()
     this._bulge = value
   }
 
@@ -122,6 +124,7 @@ export class AcDb2dVertex extends AcDbEntity {
    * @param value - The start width for the vertex
    */
   set startWidth(value: number) {
+    this.assertWriteEnabled()
     this._startWidth = value
   }
 
@@ -142,6 +145,7 @@ export class AcDb2dVertex extends AcDbEntity {
    * @param value - The end width for the vertex
    */
   set endWidth(value: number) {
+    this.assertWriteEnabled()
     this._endWidth = value
   }
 
@@ -158,6 +162,7 @@ export class AcDb2dVertex extends AcDbEntity {
    * @param value - The type of this vertex
    */
   set vertexType(value: AcDb2dVertexType) {
+    this.assertWriteEnabled()
     this._vertexType = value
   }
 
@@ -188,6 +193,7 @@ export class AcDb2dVertex extends AcDbEntity {
    * @returns This vertex after transformation
    */
   transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
     this._position.applyMatrix4(matrix)
     return this
   }
@@ -1,12 +1,16 @@
 import {
   AcGeBox3d,
+  AcGeExtendType,
+  AcGeLine3d,
+  AcGeMatrix3d,
   AcGePoint3d,
   AcGePoint3dLike,
   AcGePolyline2d,
-  AcGePolyline2dVertex
+  AcGeVector3d
 } from '@mlightcad/geometry-engine'
 import { AcGiRenderer } from '@mlightcad/graphic-interface'
 
+import { AcDbOsnapCurve, AcDbOsnapHelper, AcDbOsnapMode } from '../misc'
 import { AcDbCurve } from './AcDbCurve'
 
 /**
@@ -37,7 +41,7 @@ export class AcDb3dPolyline extends AcDbCurve {
   /** The spline-fit type for this 3D polyline */
   private _polyType: AcDbPoly3dType
   /** The underlying geometric polyline object */
-  private _geo: AcGePolyline2d<AcGePolyline2dVertex>
+  private _geo: AcGePolyline2d<AcGePoint3dLike>
 
   /**
    * Creates a new empty 2d polyline entity.
@@ -67,9 +71,36 @@ export class AcDb3dPolyline extends AcDbCurve {
    * @param value - The spline-fit type for this 3D polyline.
    */
   set polyType(value: AcDbPoly3dType) {
+    this.assertWriteEnabled()
     this._polyType = value
   }
 
+  /**
+   * Gets the number of vertices in this polyline.
+   *
+   * @returns The number of vertices
+   */
+  get numberOfVertices(): number {
+    return this._geo.numberOfVertices
+  }
+
+  /**
+   * Gets the 3D location of a vertex at the specified index in WCS coordinates.
+   *
+   * @param index - The index (0-based) of the vertex
+   * @returns The 3D point location of the vertex
+   *
+   * @example
+   * ```typescript
+   * const point = polyline.getPointAt(0);
+   * console.log(`Vertex 0: ${point.x}, ${point.y}, ${point.z}`);
+   * ```
+   */
+  getPointAt(index: number): AcGePoint3d {
+    const vertex = this._geo.vertices[index]
+    return new AcGePoint3d(vertex.x, vertex.y, vertex.z || 0)
+  }
+
   /**
    * Gets whether this polyline is closed.
    *
@@ -88,6 +119,169 @@ export class AcDb3dPolyline extends AcDbCurve {
     return this._geo.closed
   }
 
+  /**
+   * @inheritdoc
+   */
+  get startParam() {
+    return 0
+  }
+
+  /**
+   * @inheritdoc
+   */
+  get endParam() {
+    return this.segments.length
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getPointAtParam(param: number) {
+    const [index, ratio] = this.splitParam(param)
+    const segment = this.segments[index]
+    return segment.getPointAtParam(segment.length * ratio)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getParamAtPoint(point: AcGePoint3dLike) {
+    let result = 0
+    let minDistance = Infinity
+    this.segments.forEach((segment, index) => {
+      const closest = segment.getClosestPointTo(point)
+      const distance = closest.distanceTo(point)
+      if (distance < minDistance) {
+        minDistance = distance
+        result =
+          index +
+          (segment.length > 0
+            ? segment.getParamAtPoint(closest) / segment.length
+            : 0)
+      }
+    })
+    return result
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getDistAtParam(param: number) {
+    const segments = this.segments
+    const [index, ratio] = this.splitParam(param)
+    let dist = 0
+    for (let i = 0; i < index; ++i) dist += segments[i].length
+    return dist + segments[index].length * ratio
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getParamAtDist(dist: number) {
+    const segments = this.segments
+    let remaining = dist
+    for (let i = 0; i < segments.length; ++i) {
+      const length = segments[i].length
+      if (remaining <= length || i == segments.length - 1) {
+        return i + (length > 0 ? Math.min(remaining / length, 1) : 0)
+      }
+      remaining -= length
+    }
+    return 0
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getFirstDeriv(param: number) {
+    const [index] = this.splitParam(param)
+    const segment = this.segments[index]
+    return segment.direction.multiplyScalar(segment.length)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getClosestPointTo(point: AcGePoint3dLike) {
+    return this.getPointAtParam(this.getParamAtPoint(point))
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getArea() {
+    // Area of the planar polygon computed by Newell's method
+    const vertices = this._geo.vertices
+    const normal = new AcGeVector3d()
+    vertices.forEach((vertex, index) => {
+      const next = vertices[(index + 1) % vertices.length]
+      const z1 = vertex.z || 0
+      const z2 = next.z || 0
+      normal.x += (vertex.y - next.y) * (z1 + z2)
+      normal.y += (z1 - z2) * (vertex.x + next.x)
+      normal.z += (vertex.x - next.x) * (vertex.y + next.y)
+    })
+    return normal.length() / 2
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getSplitCurves(params: number[]) {
+    const startParam = this.startParam
+    const endParam = this.endParam
+    const sorted = params
+      .filter(param => param > startParam && param < endParam)
+      .sort((a, b) => a - b)
+    const result: AcDb3dPolyline[] = []
+    if (this.closed && sorted.length < 2) return result
+
+    // Pieces of closed polyline go through its start point, so the first
+    // piece is merged with the last one.
+    const bounds = this.closed
+      ? [...sorted, sorted[0] + endParam]
+      : [startParam, ...sorted, endParam]
+    for (let i = 0; i < bounds.length - 1; ++i) {
+      const start = bounds[i]
+      const end = bounds[i + 1]
+      if (end - start <= 0) continue
+      const points = [this.getPointAtParam(start % endParam)]
+      for (let j = Math.floor(start) + 1; j < end; ++j) {
+        points.push(this.getPointAt(j % this.numberOfVertices))
+      }
+      points.push(this.getPointAtParam(end > endParam ? end - endParam : end))
+      const polyline = new AcDb3dPolyline(this._polyType, points, false)
+      polyline.setPropertiesFrom(this)
+      result.push(polyline)
+    }
+    return result
+  }
+
+  /**
+   * Line segments of this polyline
+   */
+  private get segments() {
+    const vertices = this._geo.vertices
+    const count = this.closed ? vertices.length : vertices.length - 1
+    const segments: AcGeLine3d[] = []
+    for (let i = 0; i < count; ++i) {
+      segments.push(
+        new AcGeLine3d(vertices[i], vertices[(i + 1) % vertices.length])
+      )
+    }
+    return segments
+  }
+
+  /**
+   * Split the specified parameter into segment index and the ratio in the segment
+   */
+  private splitParam(param: number): [number, number] {
+    const count = this.segments.length
+    const clamped = Math.min(Math.max(param, 0), count)
+    const index = Math.min(Math.floor(clamped), count - 1)
+    return [index, clamped - index]
+  }
+
   /**
    * Sets whether this polyline is closed.
    *
@@ -99,6 +293,7 @@ export class AcDb3dPolyline extends AcDbCurve {
    * ```
    */
   set closed(value: boolean) {
+    this.assertWriteEnabled()
     this._geo.closed = value
   }
 
@@ -136,6 +331,82 @@ export class AcDb3dPolyline extends AcDbCurve {
     return gripPoints
   }
 
+  /**
+   * Gets the object snap points for this polyline.
+   *
+   * Supported snap modes are EndPoint, MidPoint, Nearest and Perpendicular.
+   * End points and middle points are computed for each segment.
+   *
+   * @param osnapMode - The object snap mode
+   * @param pickPoint - The point where the user picked
+   * @param lastPoint - The last point picked by the user
+   * @param snapPoints - Array to populate with snap points
+   *
+   * @example
+   * ```typescript
+   * const snapPoints: AcGePoint3d[] = [];
+   * polyline.subGetOsnapPoints(AcDbOsnapMode.MidPoint, pickPoint, lastPoint, snapPoints);
+   * // snapPoints now contains middle points of all segments
+   * ```
+   */
+  subGetOsnapPoints(
+    osnapMode: AcDbOsnapMode,
+    pickPoint: AcGePoint3dLike,
+    lastPoint: AcGePoint3dLike,
+    snapPoints: AcGePoint3dLike[]
+  ) {
+    const vertices = this._geo.vertices
+    const count = this.closed ? vertices.length : vertices.length - 1
+    const curves: AcDbOsnapCurve[] = []
+    for (let i = 0; i < count; ++i) {
+      curves.push(
+        AcDbOsnapHelper.createLine(
+          vertices[i],
+          vertices[(i + 1) % vertices.length]
+        )
+      )
+    }
+    AcDbOsnapHelper.getOsnapPoints(
+      curves,
+      osnapMode,
+      pickPoint,
+      lastPoint,
+      snapPoints
+    )
+  }
+
+  /**
+   * @inheritdoc
+   */
+  protected subGetIntersectCurves() {
+    return {
+      curves: this.segments,
+      extend: AcGeExtendType.None
+    }
+  }
+
+  /**
+   * Transforms this polyline by the specified matrix.
+   *
+   * @param matrix - The transformation matrix to apply
+   * @returns This polyline after transformation
+   *
+   * @example
+   * ```typescript
+   * const translationMatrix = AcGeMatrix3d.translation(10, 0, 0);
+   * polyline.transformBy(translationMatrix);
+   * // Polyline is now translated 10 units in the X direction
+   * ```
+   */
+  transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    const vertices = this._geo.vertices.map(vertex =>
+      new AcGePoint3d(vertex).applyMatrix4(matrix)
+    )
+    this._geo = new AcGePolyline2d(vertices, this._geo.closed)
+    return this
+  }
+
   /**
    * Draws this polyline using the specified renderer.
    *
@@ -61,6 +61,7 @@ export class AcDb3dVertex extends AcDbEntity {
    * @param value - The WCS point value of this vertex.
    */
   set position(value: AcGePoint3dLike) {
+    this.assertWriteEnabled()
     this._position.copy(value)
   }
 
@@ -77,6 +78,7 @@ export class AcDb3dVertex extends AcDbEntity {
    * @param value - The type of this vertex
    */
   set vertexType(value: AcDb3dVertexType) {
+    this.assertWriteEnabled()
     this._vertexType = value
   }
 
@@ -107,6 +109,7 @@ export class AcDb3dVertex extends AcDbEntity {
    * @returns This vertex after transformation
    */
   transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
     this._position.applyMatrix4(matrix)
     return this
   }
@@ -1,14 +1,21 @@
 import {
   AcGeCircArc3d,
+  AcGeEllipseArc3d,
+  AcGeExtendType,
+  AcGeMatrix2d,
   AcGeMatrix3d,
   AcGePoint3d,
   AcGePoint3dLike,
+  AcGeTol,
   AcGeVector3d,
-  AcGeVector3dLike
+  AcGeVector3dLike,
+  FLOAT_TOL
 } from '@mlightcad/geometry-engine'
 import { AcGiRenderer } from '@mlightcad/graphic-interface'
 
+import { AcDbOsnapHelper, AcDbOsnapMode } from '../misc'
 import { AcDbCurve } from './AcDbCurve'
+import { AcDbEllipse } from './AcDbEllipse'
 import { AcDbEntityProperties } from './AcDbEntityProperties'
 
 /**
@@ -118,6 +125,7 @@ export class AcDbArc extends AcDbCurve {
    * ```
    */
   set center(value: AcGePoint3dLike) {
+    this.assertWriteEnabled()
     this._geo.center = value
   }
 
@@ -147,6 +155,7 @@ export class AcDbArc extends AcDbCurve {
    * ```
    */
   set radius(value: number) {
+    this.assertWriteEnabled()
     this._geo.radius = value
   }
 
@@ -176,6 +185,7 @@ export class AcDbArc extends AcDbCurve {
    * ```
    */
   set startAngle(value: number) {
+    this.assertWriteEnabled()
     this._geo.startAngle = value
   }
 
@@ -205,6 +215,7 @@ export class AcDbArc extends AcDbCurve {
    * ```
    */
   set endAngle(value: number) {
+    this.assertWriteEnabled()
     this._geo.endAngle = value
   }
 
@@ -234,6 +245,7 @@ export class AcDbArc extends AcDbCurve {
    * ```
    */
   set normal(value: AcGeVector3dLike) {
+    this.assertWriteEnabled()
     this._geo.normal = value
   }
 
@@ -298,6 +310,103 @@ export class AcDbArc extends AcDbCurve {
     return this._geo.closed
   }
 
+  /**
+   * @inheritdoc
+   */
+  get startParam() {
+    return this._geo.startParam
+  }
+
+  /**
+   * @inheritdoc
+   */
+  get endParam() {
+    return this._geo.endParam
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getPointAtParam(param: number) {
+    return this._geo.getPointAtParam(param)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getParamAtPoint(point: AcGePoint3dLike) {
+    return this._geo.getParamAtPoint(point)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getDistAtParam(param: number) {
+    return this._geo.getDistAtParam(param)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getParamAtDist(dist: number) {
+    return this._geo.getParamAtDist(dist)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getFirstDeriv(param: number) {
+    return this._geo.getFirstDeriv(param)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getClosestPointTo(point: AcGePoint3dLike, extend = false) {
+    return this._geo.getClosestPointTo(point, extend)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getArea() {
+    return this._geo.area
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getSplitCurves(params: number[]) {
+    return this._geo.split(params).map(geo => {
+      const arc = new AcDbArc(
+        geo.center,
+        geo.radius,
+        geo.startAngle,
+        geo.endAngle,
+        geo.normal
+      )
+      arc.setPropertiesFrom(this)
+      return arc
+    })
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getOffsetCurves(distance: number) {
+    return this._geo.getOffsetCurves(distance).map(geo => {
+      const arc = new AcDbArc(
+        geo.center,
+        geo.radius,
+        geo.startAngle,
+        geo.endAngle,
+        geo.normal
+      )
+      arc.setPropertiesFrom(this)
+      return arc
+    })
+  }
+
   /**
    * Returns the full property definition for this arc entity, including
    * general group and geometry group.
@@ -443,6 +552,60 @@ export class AcDbArc extends AcDbCurve {
     return gripPoints
   }
 
+  /**
+   * Gets the object snap points for this arc.
+   *
+   * Supported snap modes are EndPoint, MidPoint, Center, Quadrant, Nearest,
+   * Perpendicular and Tangent. Quadrant points are returned only if they are
+   * on the arc.
+   *
+   * @param osnapMode - The object snap mode
+   * @param pickPoint - The point where the user picked
+   * @param lastPoint - The last point picked by the user
+   * @param snapPoints - Array to populate with snap points
+   *
+   * @example
+   * ```typescript
+   * const snapPoints: AcGePoint3d[] = [];
+   * arc.subGetOsnapPoints(AcDbOsnapMode.Center, pickPoint, lastPoint, snapPoints);
+   * // snapPoints now contains the center of the arc
+   * ```
+   */
+  subGetOsnapPoints(
+    osnapMode: AcDbOsnapMode,
+    pickPoint: AcGePoint3dLike,
+    lastPoint: AcGePoint3dLike,
+    snapPoints: AcGePoint3dLike[]
+  ) {
+    switch (osnapMode) {
+      case AcDbOsnapMode.Center:
+        snapPoints.push(this.center)
+        break
+      case AcDbOsnapMode.Quadrant:
+        snapPoints.push(...AcDbOsnapHelper.getQuadrantPoints(this._geo))
+        break
+      default:
+        AcDbOsnapHelper.getOsnapPoints(
+          [AcDbOsnapHelper.createArc(this._geo)],
+          osnapMode,
+          pickPoint,
+          lastPoint,
+          snapPoints
+        )
+        break
+    }
+  }
+
+  /**
+   * @inheritdoc
+   */
+  protected subGetIntersectCurves() {
+    return {
+      curves: [this._geo],
+      extend: AcGeExtendType.None
+    }
+  }
+
   /**
    * Transforms this arc by the specified matrix.
    *
@@ -460,10 +623,80 @@ export class AcDbArc extends AcDbCurve {
    * ```
    */
   transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    if (!this.isUniformlyScaledBy(matrix)) {
+      throw new Error(
+        '[AcDbArc] Can not scale arc non-uniformly! Use getTransformedCopy instead.'
+      )
+    }
     this._geo.transform(matrix)
     return this
   }
 
+  /**
+   * Creates one transformed copy of this arc. The arc can't keep its shape
+   * when being scaled non-uniformly in its plane. So one ellipse is returned in
+   * this case. Otherwise, one arc is returned.
+   *
+   * @param matrix - The transformation matrix to apply
+   * @returns The transformed copy of this arc
+   *
+   * @example
+   * ```typescript
+   * const matrix = new AcGeMatrix3d().makeScale(2, 1, 1);
+   * const ellipse = arc.getTransformedCopy(matrix);
+   * ```
+   */
+  getTransformedCopy(matrix: AcGeMatrix3d): AcDbArc | AcDbEllipse {
+    let copy: AcDbArc | AcDbEllipse
+    if (this.isUniformlyScaledBy(matrix)) {
+      copy = new AcDbArc(
+        this.center,
+        this.radius,
+        this.startAngle,
+        this.endAngle,
+        this.normal
+      ).transformBy(matrix)
+    } else {
+      const geo = new AcGeEllipseArc3d(
+        this.center,
+        this.normal,
+        this._geo.refVec,
+        this.radius,
+        this.radius,
+        this.startAngle,
+        this.endAngle
+      ).transform(matrix)
+      copy = new AcDbEllipse(
+        geo.center,
+        geo.normal,
+        geo.majorAxis,
+        geo.majorAxisRadius,
+        geo.minorAxisRadius,
+        geo.startAngle,
+        geo.endAngle
+      )
+    }
+    return copy.setPropertiesFrom(this)
+  }
+
+  /**
+   * Returns true if the specified matrix scales this arc uniformly in its
+   * plane so that it is still one arc after transformation.
+   */
+  private isUniformlyScaledBy(matrix: AcGeMatrix3d) {
+    const linear = new AcGeMatrix2d().setFromMatrix4(matrix)
+    const xAxis = this._geo.refVec.clone().applyMatrix3(linear)
+    const yAxis = new AcGeVector3d()
+      .crossVectors(this.normal, this._geo.refVec)
+      .applyMatrix3(linear)
+    const length = xAxis.length()
+    return (
+      AcGeTol.equal(length, yAxis.length(), length * FLOAT_TOL) &&
+      AcGeTol.equalToZero(xAxis.dot(yAxis), length * length * FLOAT_TOL)
+    )
+  }
+
   /**
    * Draws this arc using the specified renderer.
    *
@@ -480,7 +713,7 @@ export class AcDbArc extends AcDbCurve {
    */
   draw(renderer: AcGiRenderer) {
     this.attachToEntityTraits(renderer.subEntityTraits)
- 
+
     return renderer.circularArc(this._geo)
   }
 }
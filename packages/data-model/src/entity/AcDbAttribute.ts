@@ -0,0 +1,142 @@
+import { AcGiRenderer } from '@mlightcad/graphic-interface'
+
+import { AcDbAttributeFlags } from './AcDbAttributeDefinition'
+import { AcDbText } from './AcDbText'
+
+/**
+ * Represents an attribute entity in AutoCAD.
+ *
+ * One attribute is one tagged text string attached to one block reference.
+ * Attributes aren't stored in block table records directly. They are owned by
+ * block references and can be accessed by {@link AcDbBlockReference.attributeIterator}.
+ * The position of one attribute is in WCS coordinates. That is, it is
+ * transformed by the block reference already.
+ *
+ * @example
+ * ```typescript
+ * const attrib = new AcDbAttribute();
+ * attrib.tag = 'PART_NO';
+ * attrib.textString = 'A-1024';
+ * attrib.position = new AcGePoint3d(10, 15, 0);
+ * attrib.height = 2.5;
+ * blockRef.appendAttribute(attrib);
+ * ```
+ */
+export class AcDbAttribute extends AcDbText {
+  /** The entity type name */
+  static override typeName: string = 'Attribute'
+
+  /** The tag string identifying the attribute */
+  private _tag: string
+  /** The attribute flags */
+  private _flags: number
+  /** The flag whether the position of the attribute is locked in the block */
+  private _lockPositionInBlock: boolean
+
+  /**
+   * Creates a new attribute entity.
+   */
+  constructor() {
+    super()
+    this._tag = ''
+    this._flags = AcDbAttributeFlags.None
+    this._lockPositionInBlock = false
+  }
+
+  /**
+   * Gets the tag string of this attribute. The tag identifies the attribute
+   * definition this attribute is created from.
+   */
+  get tag() {
+    return this._tag
+  }
+  set tag(value: string) {
+    this.assertWriteEnabled()
+    this._tag = value
+  }
+
+  /**
+   * Gets the attribute flags. Refer to {@link AcDbAttributeFlags} for the
+   * meaning of each bit.
+   */
+  get flags() {
+    return this._flags
+  }
+  set flags(value: number) {
+    this.assertWriteEnabled()
+    this._flags = value
+  }
+
+  /**
+   * Returns true if this attribute is invisible.
+   */
+  get isInvisible() {
+    return (this._flags & AcDbAttributeFlags.Invisible) !== 0
+  }
+  set isInvisible(value: boolean) {
+    this.assertWriteEnabled()
+    this.setFlag(AcDbAttributeFlags.Invisible, value)
+  }
+
+  /**
+   * Returns true if this attribute has one constant value.
+   */
+  get isConstant() {
+    return (this._flags & AcDbAttributeFlags.Constant) !== 0
+  }
+  set isConstant(value: boolean) {
+    this.assertWriteEnabled()
+    this.setFlag(AcDbAttributeFlags.Constant, value)
+  }
+
+  /**
+   * Returns true if the value of this attribute needs to be verified.
+   */
+  get isVerifiable() {
+    return (this._flags & AcDbAttributeFlags.Verifiable) !== 0
+  }
+  set isVerifiable(value: boolean) {
+    this.assertWriteEnabled()
+    this.setFlag(AcDbAttributeFlags.Verifiable, value)
+  }
+
+  /**
+   * Returns true if the default value is used without prompting.
+   */
+  get isPreset() {
+    return (this._flags & AcDbAttributeFlags.Preset) !== 0
+  }
+  set isPreset(value: boolean) {
+    this.assertWriteEnabled()
+    this.setFlag(AcDbAttributeFlags.Preset, value)
+  }
+
+  /**
+   * Gets the flag whether the position of this attribute is locked relative
+   * to the block reference.
+   */
+  get lockPositionInBlock() {
+    return this._lockPositionInBlock
+  }
+  set lockPositionInBlock(value: boolean) {
+    this.assertWriteEnabled()
+    this._lockPositionInBlock = value
+  }
+
+  /**
+   * Draws this attribute using the specified renderer. Nothing is drawn if
+   * this attribute is invisible.
+   *
+   * @param renderer - The renderer to use for drawing
+   * @param delay - The flag to delay creating one rendered entity
+   * @returns The rendered attribute, or undefined if it is invisible
+   */
+  draw(renderer: AcGiRenderer, delay?: boolean) {
+    if (this.isInvisible) return undefined
+    return super.draw(renderer, delay)
+  }
+
+  private setFlag(flag: AcDbAttributeFlags, value: boolean) {
+    this._flags = value ? this._flags | flag : this._flags & ~flag
+  }
+}
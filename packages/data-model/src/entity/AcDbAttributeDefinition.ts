@@ -0,0 +1,189 @@
+import { AcGiRenderer } from '@mlightcad/graphic-interface'
+
+import { AcDbText } from './AcDbText'
+
+/**
+ * Defines flags of attributes and attribute definitions. Flags can be combined.
+ */
+export enum AcDbAttributeFlags {
+  /** No flag is set */
+  None = 0,
+  /** The attribute isn't displayed */
+  Invisible = 1,
+  /** The attribute has one constant value which can't be changed */
+  Constant = 2,
+  /** The value of the attribute needs to be verified when inserting */
+  Verifiable = 4,
+  /** The default value of the attribute is used without prompting */
+  Preset = 8
+}
+
+/**
+ * Represents an attribute definition entity in AutoCAD.
+ *
+ * Attribute definitions are stored in block table records and describe the
+ * attributes (tagged text strings) attached to block references of that block.
+ * When one block is inserted, one {@link AcDbAttribute} is created for each
+ * non-constant attribute definition of the block. The text string of one
+ * attribute definition is the default value of attributes created from it.
+ *
+ * @example
+ * ```typescript
+ * const attdef = new AcDbAttributeDefinition();
+ * attdef.tag = 'PART_NO';
+ * attdef.prompt = 'Enter part number';
+ * attdef.textString = '0000';
+ * attdef.position = new AcGePoint3d(0, -5, 0);
+ * attdef.height = 2.5;
+ * blockTableRecord.appendEntity(attdef);
+ * ```
+ */
+export class AcDbAttributeDefinition extends AcDbText {
+  /** The entity type name */
+  static override typeName: string = 'AttributeDefinition'
+
+  /** The prompt string shown when inserting the block */
+  private _prompt: string
+  /** The tag string identifying the attribute */
+  private _tag: string
+  /** The attribute flags */
+  private _flags: number
+  /** The flag whether the position of the attribute is locked in the block */
+  private _lockPositionInBlock: boolean
+
+  /**
+   * Creates a new attribute definition entity.
+   */
+  constructor() {
+    super()
+    this._prompt = ''
+    this._tag = ''
+    this._flags = AcDbAttributeFlags.None
+    this._lockPositionInBlock = false
+  }
+
+  /**
+   * Gets the prompt string shown when inserting the block which owns this
+   * attribute definition.
+   */
+  get prompt() {
+    return this._prompt
+  }
+  set prompt(value: string) {
+    this.assertWriteEnabled()
+    this._prompt = value
+  }
+
+  /**
+   * Gets the tag string of this attribute definition. The tag identifies
+   * attributes created from this attribute definition.
+   */
+  get tag() {
+    return this._tag
+  }
+  set tag(value: string) {
+    this.assertWriteEnabled()
+    this._tag = value
+  }
+
+  /**
+   * Gets the attribute flags. Refer to {@link AcDbAttributeFlags} for the
+   * meaning of each bit.
+   */
+  get flags() {
+    return this._flags
+  }
+  set flags(value: number) {
+    this.assertWriteEnabled()
+    this._flags = value
+  }
+
+  /**
+   * Returns true if attributes created from this attribute definition are
+   * invisible.
+   */
+  get isInvisible() {
+    return (this._flags & AcDbAttributeFlags.Invisible) !== 0
+  }
+  set isInvisible(value: boolean) {
+    this.assertWriteEnabled()
+    this.setFlag(AcDbAttributeFlags.Invisible, value)
+  }
+
+  /**
+   * Returns true if this attribute definition has one constant value. No
+   * attribute is created from one constant attribute definition and its text
+   * string is displayed by block references directly.
+   */
+  get isConstant() {
+    return (this._flags & AcDbAttributeFlags.Constant) !== 0
+  }
+  set isConstant(value: boolean) {
+    this.assertWriteEnabled()
+    this.setFlag(AcDbAttributeFlags.Constant, value)
+  }
+
+  /**
+   * Returns true if the value of attributes need to be verified when inserting
+   * the block.
+   */
+  get isVerifiable() {
+    return (this._flags & AcDbAttributeFlags.Verifiable) !== 0
+  }
+  set isVerifiable(value: boolean) {
+    this.assertWriteEnabled()
+    this.setFlag(AcDbAttributeFlags.Verifiable, value)
+  }
+
+  /**
+   * Returns true if the default value is used without prompting when
+   * inserting the block.
+   */
+  get isPreset() {
+    return (this._flags & AcDbAttributeFlags.Preset) !== 0
+  }
+  set isPreset(value: boolean) {
+    this.assertWriteEnabled()
+    this.setFlag(AcDbAttributeFlags.Preset, value)
+  }
+
+  /**
+   * Gets the flag whether the position of this attribute definition is locked
+   * relative to the block.
+   */
+  get lockPositionInBlock() {
+    return this._lockPositionInBlock
+  }
+  set lockPositionInBlock(value: boolean) {
+    this.assertWriteEnabled()
+    this._lockPositionInBlock = value
+  }
+
+  /**
+   * Draws this attribute definition using the specified renderer. The tag is
+   * displayed for non-constant attribute definitions and the text string is
+   * displayed for constant attribute definitions.
+   *
+   * Non-constant attribute definitions are skipped when drawing block
+   * references because attributes of block references are drawn instead.
+   *
+   * @param renderer - The renderer to use for drawing
+   * @param delay - The flag to delay creating one rendered entity
+   * @returns The rendered attribute definition
+   */
+  draw(renderer: AcGiRenderer, delay?: boolean) {
+    if (this.isConstant) return super.draw(renderer, delay)
+
+    const value = this.textString
+    this.textString = this._tag
+    try {
+      return super.draw(renderer, delay)
+    } finally {
+      this.textString = value
+    }
+  }
+
+  private setFlag(flag: AcDbAttributeFlags, value: boolean) {
+    this._flags = value ? this._flags | flag : this._flags & ~flag
+  }
+}
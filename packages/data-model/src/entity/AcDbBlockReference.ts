@@ -1,15 +1,24 @@
 import {
   AcGeBox3d,
   AcGeEuler,
+  AcGeMatrix2d,
   AcGeMatrix3d,
   AcGePoint3d,
+  AcGePoint3dLike,
   AcGeQuaternion,
   AcGeVector3d,
   AcGeVector3dLike
 } from '@mlightcad/geometry-engine'
 import { AcGiEntity, AcGiRenderer } from '@mlightcad/graphic-interface'
 
-import { AcDbRenderingCache } from '../misc'
+import { AcDbObjectId } from '../base'
+import {
+  AcDbObjectIterator,
+  AcDbOsnapHelper,
+  AcDbOsnapMode,
+  AcDbRenderingCache
+} from '../misc'
+import { AcDbAttribute } from './AcDbAttribute'
 import { AcDbEntity } from './AcDbEntity'
 import { AcDbEntityProperties } from './AcDbEntityProperties'
 
@@ -49,6 +58,8 @@ export class AcDbBlockReference extends AcDbEntity {
   private _normal: AcGeVector3d
   /** The name of the referenced block */
   private _blockName: string
+  /** Attributes attached to this block reference indexed by their object IDs */
+  private _attributes: Map<AcDbObjectId, AcDbAttribute>
 
   /**
    * Creates a new block reference entity.
@@ -72,6 +83,7 @@ export class AcDbBlockReference extends AcDbEntity {
     this._rotation = 0.0
     this._normal = new AcGeVector3d(0, 0, 1)
     this._scaleFactors = new AcGePoint3d(1, 1, 1)
+    this._attributes = new Map()
   }
 
   /**
@@ -100,6 +112,7 @@ export class AcDbBlockReference extends AcDbEntity {
    * ```
    */
   set position(value: AcGePoint3d) {
+    this.assertWriteEnabled()
     this._position.copy(value)
   }
 
@@ -134,6 +147,7 @@ export class AcDbBlockReference extends AcDbEntity {
    * ```
    */
   set rotation(value: number) {
+    this.assertWriteEnabled()
     this._rotation = value
   }
 
@@ -163,6 +177,7 @@ export class AcDbBlockReference extends AcDbEntity {
    * ```
    */
   set scaleFactors(value: AcGePoint3d) {
+    this.assertWriteEnabled()
     this._scaleFactors.copy(value)
   }
 
@@ -192,9 +207,24 @@ export class AcDbBlockReference extends AcDbEntity {
    * ```
    */
   set normal(value: AcGeVector3dLike) {
+    this.assertWriteEnabled()
     this._normal.copy(value).normalize()
   }
 
+  /**
+   * Gets the name of the block referenced by this block reference.
+   *
+   * @returns The name of the referenced block
+   *
+   * @example
+   * ```typescript
+   * console.log(`Block name: ${blockRef.blockName}`);
+   * ```
+   */
+  get blockName() {
+    return this._blockName
+  }
+
   /**
    * Gets the block table record referenced by this block reference.
    *
@@ -214,6 +244,44 @@ export class AcDbBlockReference extends AcDbEntity {
     return this.database.tables.blockTable.getAt(this._blockName)
   }
 
+  /**
+   * Attaches the specified attribute to this block reference. This block
+   * reference becomes the owner of the attribute.
+   *
+   * @param attribute - The attribute to attach
+   *
+   * @example
+   * ```typescript
+   * const attrib = new AcDbAttribute();
+   * attrib.tag = 'PART_NO';
+   * attrib.textString = 'A-1024';
+   * blockRef.appendAttribute(attrib);
+   * ```
+   */
+  appendAttribute(attribute: AcDbAttribute) {
+    this.assertWriteEnabled()
+    attribute.database = this.database
+    attribute.ownerId = this.objectId
+    this._attributes.set(attribute.objectId, attribute)
+  }
+
+  /**
+   * Creates an iterator object that can be used to iterate over attributes
+   * attached to this block reference.
+   *
+   * @returns An iterator object that can be used to iterate over attributes
+   *
+   * @example
+   * ```typescript
+   * for (const attrib of blockRef.attributeIterator()) {
+   *   console.log(`${attrib.tag}: ${attrib.textString}`);
+   * }
+   * ```
+   */
+  attributeIterator(): AcDbObjectIterator<AcDbAttribute> {
+    return new AcDbObjectIterator(this._attributes)
+  }
+
   /**
    * Returns the full property definition for this block reference entity, including
    * general group and geometry group.
@@ -391,7 +459,128 @@ export class AcDbBlockReference extends AcDbEntity {
   }
 
   /**
-   * @inheritdoc
+   * Gets the object snap points for this block reference.
+   *
+   * Snap mode Insertion returns the position of this block reference and
+   * positions of its visible attributes. For other snap modes, snap points of entities in the referenced block are
+   * computed and transformed by the transformation of this block reference.
+   *
+   * @param osnapMode - The object snap mode
+   * @param pickPoint - The point where the user picked
+   * @param lastPoint - The last point picked by the user
+   * @param snapPoints - Array to populate with snap points
+   *
+   * @example
+   * ```typescript
+   * const snapPoints: AcGePoint3d[] = [];
+   * blockRef.subGetOsnapPoints(AcDbOsnapMode.EndPoint, pickPoint, lastPoint, snapPoints);
+   * // snapPoints now contains end points of entities in the block
+   * ```
+   */
+  subGetOsnapPoints(
+    osnapMode: AcDbOsnapMode,
+    pickPoint: AcGePoint3dLike,
+    lastPoint: AcGePoint3dLike,
+    snapPoints: AcGePoint3dLike[]
+  ) {
+    if (osnapMode === AcDbOsnapMode.Insertion) {
+      snapPoints.push(this.position)
+      this._attributes.forEach(attribute => {
+        if (!attribute.isInvisible) snapPoints.push(attribute.position)
+      })
+      return
+    }
+
+    const blockTableRecord = this.blockTableRecord
+    if (blockTableRecord == null) return
+    AcDbOsnapHelper.getTransformedOsnapPoints(
+      this.computeTransformMatrix(),
+      osnapMode,
+      pickPoint,
+      lastPoint,
+      snapPoints,
+      (localPickPoint, localLastPoint, localSnapPoints) => {
+        for (const entity of blockTableRecord.newIterator()) {
+          entity.subGetOsnapPoints(
+            osnapMode,
+            localPickPoint,
+            localLastPoint,
+            localSnapPoints
+          )
+        }
+      }
+    )
+  }
+
+  /**
+   * Transforms this block reference by the specified matrix.
+   *
+   * The insertion point, rotation and scale factors of the block reference are
+   * updated so that the block is transformed by the specified matrix. Mirroring
+   * results in one negative scale factor in Y direction. Attributes attached to
+   * this block reference are transformed too.
+   *
+   * @param matrix - The transformation matrix to apply
+   * @returns This block reference after transformation
+   *
+   * @example
+   * ```typescript
+   * const translationMatrix = AcGeMatrix3d.translation(10, 0, 0);
+   * blockRef.transformBy(translationMatrix);
+   * // Block reference is now translated 10 units in the X direction
+   * ```
+   */
+  transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    const linear = new AcGeMatrix2d().setFromMatrix4(matrix)
+    const cos = Math.cos(this._rotation)
+    const sin = Math.sin(this._rotation)
+    const scale = this._scaleFactors
+    const xAxis = new AcGeVector3d(cos, sin, 0)
+      .multiplyScalar(scale.x)
+      .applyMatrix3(linear)
+    const yAxis = new AcGeVector3d(-sin, cos, 0)
+      .multiplyScalar(scale.y)
+      .applyMatrix3(linear)
+    const zAxis = new AcGeVector3d(0, 0, scale.z).applyMatrix3(linear)
+
+    this._position.applyMatrix4(matrix)
+    this._normal.applyNormalMatrix(new AcGeMatrix2d().getNormalMatrix(matrix))
+    this._rotation = Math.atan2(xAxis.y, xAxis.x)
+    const mirrored = xAxis.x * yAxis.y - xAxis.y * yAxis.x < 0
+    this._scaleFactors.set(
+      xAxis.length(),
+      mirrored ? -yAxis.length() : yAxis.length(),
+      zAxis.z < 0 ? -zAxis.length() : zAxis.length()
+    )
+    this._attributes.forEach(attribute => attribute.transformBy(matrix))
+    return this
+  }
+
+  /**
+   * Creates one deep copy of this block reference. Attributes attached to this
+   * block reference are copied too and attached to the copy.
+   *
+   * @returns The copy of this block reference
+   */
+  clone() {
+    const copy = super.clone()
+    copy._attributes = new Map<AcDbObjectId, AcDbAttribute>()
+    this._attributes.forEach(attribute => {
+      const attributeCopy = attribute.clone()
+      attributeCopy.ownerId = copy.objectId
+      copy._attributes.set(attributeCopy.objectId, attributeCopy)
+    })
+    return copy
+  }
+
+  /**
+   * Draws this block reference using the specified renderer. Entities in the
+   * referenced block are drawn first. Visible attributes attached to this block
+   * reference are drawn and grouped with them if any.
+   *
+   * @param renderer - The renderer to use for drawing
+   * @returns The rendered block reference
    */
   draw(renderer: AcGiRenderer) {
     const results: AcGiEntity[] = []
@@ -406,15 +595,30 @@ export class AcDbBlockReference extends AcDbEntity {
         matrix,
         this.normal
       )
+      if (this._attributes.size > 0) {
+        if (block) results.push(block)
+        this.drawAttributes(renderer, results)
+        const group = renderer.group(results)
+        this.attachEntityInfo(group)
+        return group
+      }
       this.attachEntityInfo(block)
       return block
     } else {
+      this.drawAttributes(renderer, results)
       const block = renderer.group(results)
       this.attachEntityInfo(block)
       return block
     }
   }
 
+  private drawAttributes(renderer: AcGiRenderer, results: AcGiEntity[]) {
+    this._attributes.forEach(attribute => {
+      const object = attribute.draw(renderer)
+      if (object) results.push(object)
+    })
+  }
+
   private computeTransformMatrix() {
     const quaternion = new AcGeQuaternion()
     quaternion.setFromAxisAngle(AcGeVector3d.Z_AXIS, this.rotation)
@@ -1,16 +1,24 @@
 import {
   AcGeCircArc3d,
+  AcGeEllipseArc3d,
+  AcGeExtendType,
+  AcGeMatrix2d,
   AcGeMatrix3d,
   AcGePoint3d,
   AcGePoint3dLike,
   AcGePointLike,
+  AcGeTol,
   AcGeVector3d,
   AcGeVector3dLike,
+  FLOAT_TOL,
   TAU
 } from '@mlightcad/geometry-engine'
 import { AcGiRenderer } from '@mlightcad/graphic-interface'
 
+import { AcDbOsnapHelper, AcDbOsnapMode } from '../misc'
+import { AcDbArc } from './AcDbArc'
 import { AcDbCurve } from './AcDbCurve'
+import { AcDbEllipse } from './AcDbEllipse'
 import { AcDbEntityProperties } from './AcDbEntityProperties'
 
 /**
@@ -110,6 +118,7 @@ export class AcDbCircle extends AcDbCurve {
    * ```
    */
   set center(value: AcGePoint3dLike) {
+    this.assertWriteEnabled()
     this._geo.center = value
   }
 
@@ -139,6 +148,7 @@ export class AcDbCircle extends AcDbCurve {
    * ```
    */
   set radius(value: number) {
+    this.assertWriteEnabled()
     this._geo.radius = value
   }
 
@@ -185,6 +195,99 @@ export class AcDbCircle extends AcDbCurve {
     return this._geo.closed
   }
 
+  /**
+   * @inheritdoc
+   */
+  get startParam() {
+    return this._geo.startParam
+  }
+
+  /**
+   * @inheritdoc
+   */
+  get endParam() {
+    return this._geo.endParam
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getPointAtParam(param: number) {
+    return this._geo.getPointAtParam(param)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getParamAtPoint(point: AcGePoint3dLike) {
+    return this._geo.getParamAtPoint(point)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getDistAtParam(param: number) {
+    return this._geo.getDistAtParam(param)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getParamAtDist(dist: number) {
+    return this._geo.getParamAtDist(dist)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getFirstDeriv(param: number) {
+    return this._geo.getFirstDeriv(param)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getClosestPointTo(point: AcGePoint3dLike, extend = false) {
+    return this._geo.getClosestPointTo(point, extend)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getArea() {
+    return this._geo.area
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getSplitCurves(params: number[]): Array<AcDbArc | AcDbCircle> {
+    return this._geo.split(params).map(geo => {
+      const curve = geo.closed
+        ? new AcDbCircle(geo.center, geo.radius, geo.normal)
+        : new AcDbArc(
+            geo.center,
+            geo.radius,
+            geo.startAngle,
+            geo.endAngle,
+            geo.normal
+          )
+      curve.setPropertiesFrom(this)
+      return curve
+    })
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getOffsetCurves(distance: number) {
+    return this._geo.getOffsetCurves(distance).map(geo => {
+      const circle = new AcDbCircle(geo.center, geo.radius, geo.normal)
+      circle.setPropertiesFrom(this)
+      return circle
+    })
+  }
+
   /**
    * Returns the full property definition for this circle entity, including
    * general group and geometry group.
@@ -306,6 +409,62 @@ export class AcDbCircle extends AcDbCurve {
     return gripPoints
   }
 
+  /**
+   * Gets the object snap points for this circle.
+   *
+   * Supported snap modes are Center, Centroid, Quadrant, Nearest, Perpendicular
+   * and Tangent.
+   *
+   * @param osnapMode - The object snap mode
+   * @param pickPoint - The point where the user picked
+   * @param lastPoint - The last point picked by the user
+   * @param snapPoints - Array to populate with snap points
+   *
+   * @example
+   * ```typescript
+   * const snapPoints: AcGePoint3d[] = [];
+   * circle.subGetOsnapPoints(AcDbOsnapMode.Quadrant, pickPoint, lastPoint, snapPoints);
+   * // snapPoints now contains four quadrant points of the circle
+   * ```
+   */
+  subGetOsnapPoints(
+    osnapMode: AcDbOsnapMode,
+    pickPoint: AcGePoint3dLike,
+    lastPoint: AcGePoint3dLike,
+    snapPoints: AcGePoint3dLike[]
+  ) {
+    switch (osnapMode) {
+      case AcDbOsnapMode.Center:
+      case AcDbOsnapMode.Centroid:
+        snapPoints.push(this.center)
+        break
+      case AcDbOsnapMode.Quadrant:
+        for (let i = 0; i < 4; ++i) {
+          snapPoints.push(this._geo.getPointAtAngle((i * Math.PI) / 2))
+        }
+        break
+      default:
+        AcDbOsnapHelper.getOsnapPoints(
+          [AcDbOsnapHelper.createArc(this._geo)],
+          osnapMode,
+          pickPoint,
+          lastPoint,
+          snapPoints
+        )
+        break
+    }
+  }
+
+  /**
+   * @inheritdoc
+   */
+  protected subGetIntersectCurves() {
+    return {
+      curves: [this._geo],
+      extend: AcGeExtendType.None
+    }
+  }
+
   /**
    * Transforms this circle by the specified matrix.
    *
@@ -323,10 +482,76 @@ export class AcDbCircle extends AcDbCurve {
    * ```
    */
   transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    if (!this.isUniformlyScaledBy(matrix)) {
+      throw new Error(
+        '[AcDbCircle] Can not scale circle non-uniformly! Use getTransformedCopy instead.'
+      )
+    }
     this._geo.transform(matrix)
     return this
   }
 
+  /**
+   * Creates one transformed copy of this circle. The circle can't keep its shape
+   * when being scaled non-uniformly in its plane. So one ellipse is returned in
+   * this case. Otherwise, one circle is returned.
+   *
+   * @param matrix - The transformation matrix to apply
+   * @returns The transformed copy of this circle
+   *
+   * @example
+   * ```typescript
+   * const matrix = new AcGeMatrix3d().makeScale(2, 1, 1);
+   * const ellipse = circle.getTransformedCopy(matrix);
+   * ```
+   */
+  getTransformedCopy(matrix: AcGeMatrix3d): AcDbCircle | AcDbEllipse {
+    let copy: AcDbCircle | AcDbEllipse
+    if (this.isUniformlyScaledBy(matrix)) {
+      copy = new AcDbCircle(this.center, this.radius, this.normal).transformBy(
+        matrix
+      )
+    } else {
+      const geo = new AcGeEllipseArc3d(
+        this.center,
+        this.normal,
+        this._geo.refVec,
+        this.radius,
+        this.radius,
+        0,
+        TAU
+      ).transform(matrix)
+      copy = new AcDbEllipse(
+        geo.center,
+        geo.normal,
+        geo.majorAxis,
+        geo.majorAxisRadius,
+        geo.minorAxisRadius,
+        geo.startAngle,
+        geo.endAngle
+      )
+    }
+    return copy.setPropertiesFrom(this)
+  }
+
+  /**
+   * Returns true if the specified matrix scales this circle uniformly in its
+   * plane so that it is still one circle after transformation.
+   */
+  private isUniformlyScaledBy(matrix: AcGeMatrix3d) {
+    const linear = new AcGeMatrix2d().setFromMatrix4(matrix)
+    const xAxis = this._geo.refVec.clone().applyMatrix3(linear)
+    const yAxis = new AcGeVector3d()
+      .crossVectors(this.normal, this._geo.refVec)
+      .applyMatrix3(linear)
+    const length = xAxis.length()
+    return (
+      AcGeTol.equal(length, yAxis.length(), length * FLOAT_TOL) &&
+      AcGeTol.equalToZero(xAxis.dot(yAxis), length * length * FLOAT_TOL)
+    )
+  }
+
   /**
    * Draws this circle using the specified renderer.
    *
@@ -1,3 +1,10 @@
+import { AcCmErrors } from '@mlightcad/common'
+import {
+  AcGePoint3d,
+  AcGePoint3dLike,
+  AcGeVector3d
+} from '@mlightcad/geometry-engine'
+
 import { AcDbEntity } from './AcDbEntity'
 
 /**
@@ -7,6 +14,13 @@ import { AcDbEntity } from './AcDbEntity'
  * including the ability to determine if a curve is closed. A curve is
  * considered closed if its start point is identical to its end point.
  *
+ * Points on one curve are accessed by parameters in the range from
+ * {@link startParam} to {@link endParam}. The meaning of the parameter depends
+ * on the type of the curve. For example, it is the distance from the start
+ * point for lines, the angle for arcs and the vertex index for polylines.
+ * Curves which don't support parametric access throw one error from these
+ * methods.
+ *
  * @example
  * ```typescript
  * class MyCurve extends AcDbCurve {
@@ -40,4 +54,158 @@ export abstract class AcDbCurve extends AcDbEntity {
    * ```
    */
   abstract get closed(): boolean
+
+  /**
+   * Gets the parameter of the start point of this curve.
+   *
+   * @returns The start parameter
+   */
+  get startParam(): number {
+    throw AcCmErrors.NOT_IMPLEMENTED
+  }
+
+  /**
+   * Gets the parameter of the end point of this curve.
+   *
+   * @returns The end parameter
+   */
+  get endParam(): number {
+    throw AcCmErrors.NOT_IMPLEMENTED
+  }
+
+  /**
+   * Gets the point on this curve at the specified parameter.
+   *
+   * @param _param - The parameter in the range from start parameter to end parameter
+   * @returns The point in WCS coordinates
+   *
+   * @example
+   * ```typescript
+   * const line = new AcDbLine({ x: 0, y: 0, z: 0 }, { x: 10, y: 0, z: 0 });
+   * const midPoint = line.getPointAtParam((line.startParam + line.endParam) / 2);
+   * ```
+   */
+  getPointAtParam(_param: number): AcGePoint3d {
+    throw AcCmErrors.NOT_IMPLEMENTED
+  }
+
+  /**
+   * Gets the parameter of the specified point on this curve.
+   *
+   * @param _point - The point on this curve in WCS coordinates
+   * @returns The parameter of the point
+   */
+  getParamAtPoint(_point: AcGePoint3dLike): number {
+    throw AcCmErrors.NOT_IMPLEMENTED
+  }
+
+  /**
+   * Gets the distance along this curve from the start point to the point at
+   * the specified parameter.
+   *
+   * @param _param - The parameter
+   * @returns The distance along this curve
+   */
+  getDistAtParam(_param: number): number {
+    throw AcCmErrors.NOT_IMPLEMENTED
+  }
+
+  /**
+   * Gets the parameter of the point whose distance along this curve from the
+   * start point is equal to the specified distance.
+   *
+   * @param _dist - The distance along this curve
+   * @returns The parameter of the point
+   */
+  getParamAtDist(_dist: number): number {
+    throw AcCmErrors.NOT_IMPLEMENTED
+  }
+
+  /**
+   * Gets the first derivative of this curve at the specified parameter.
+   *
+   * @param _param - The parameter
+   * @returns The first derivative vector in WCS coordinates
+   */
+  getFirstDeriv(_param: number): AcGeVector3d {
+    throw AcCmErrors.NOT_IMPLEMENTED
+  }
+
+  /**
+   * Gets the point on this curve that is the closest to the specified point.
+   *
+   * @param _point - The point in WCS coordinates
+   * @param _extend - Whether to extend this curve when searching the closest
+   * point. It is only used by curves which can be extended, such as lines,
+   * arcs and ellipses.
+   * @returns The closest point on this curve in WCS coordinates
+   *
+   * @example
+   * ```typescript
+   * const closest = curve.getClosestPointTo({ x: 5, y: 5, z: 0 });
+   * ```
+   */
+  getClosestPointTo(_point: AcGePoint3dLike, _extend = false): AcGePoint3d {
+    throw AcCmErrors.NOT_IMPLEMENTED
+  }
+
+  /**
+   * Gets the area enclosed by this curve. The area of open curves is
+   * calculated as if they are closed by one line segment from the end point to
+   * the start point.
+   *
+   * @returns The area enclosed by this curve
+   */
+  getArea(): number {
+    throw AcCmErrors.NOT_IMPLEMENTED
+  }
+
+  /**
+   * Splits this curve at the specified parameters. Parameters out of the range
+   * of this curve are ignored. One closed curve is split into curves between
+   * adjacent parameters, so at least two parameters are required to split it.
+   *
+   * Curves returned have the same properties (layer, color, linetype, etc.) as
+   * this curve and aren't added to any database.
+   *
+   * @param _params - The parameters at which to split this curve
+   * @returns Curves split from this curve in order
+   *
+   * @example
+   * ```typescript
+   * const line = new AcDbLine({ x: 0, y: 0, z: 0 }, { x: 10, y: 0, z: 0 });
+   * const [first, second] = line.getSplitCurves([4]);
+   * ```
+   */
+  getSplitCurves(_params: number[]): AcDbCurve[] {
+    throw AcCmErrors.NOT_IMPLEMENTED
+  }
+
+  /**
+   * Creates curves offset from this curve by the specified distance. Positive
+   * distance offsets this curve to its right side when looking along the curve
+   * direction from above its plane. So arcs and circles get larger radii and
+   * one counterclockwise closed polyline grows outward.
+   *
+   * One curve may be offset into multiple curves. For example, parts of one
+   * offset polyline which intersect themselves are trimmed away. Curves which
+   * can't be represented exactly, such as offset ellipses and splines, are
+   * approximated by splines.
+   *
+   * Curves returned have the same properties (layer, color, linetype, etc.) as
+   * this curve and aren't added to any database.
+   *
+   * @param _distance - The offset distance
+   * @returns Offset curves, or an empty array if this curve can't be offset by
+   * the specified distance
+   *
+   * @example
+   * ```typescript
+   * const circle = new AcDbCircle({ x: 0, y: 0, z: 0 }, 5);
+   * const [larger] = circle.getOffsetCurves(2); // circle with radius 7
+   * ```
+   */
+  getOffsetCurves(_distance: number): AcDbCurve[] {
+    throw AcCmErrors.NOT_IMPLEMENTED
+  }
 }
@@ -1,14 +1,20 @@
 import {
   AcGeEllipseArc3d,
+  AcGeExtendType,
+  AcGeMathUtil,
+  AcGeMatrix3d,
   AcGePoint3d,
   AcGePoint3dLike,
   AcGePointLike,
+  AcGeVector3d,
   AcGeVector3dLike
 } from '@mlightcad/geometry-engine'
 import { AcGiRenderer } from '@mlightcad/graphic-interface'
 
+import { AcDbOsnapHelper, AcDbOsnapMode } from '../misc'
 import { AcDbCurve } from './AcDbCurve'
 import { AcDbEntityProperties } from './AcDbEntityProperties'
+import { AcDbSpline } from './AcDbSpline'
 
 /**
  * Represents an ellipse entity in AutoCAD.
@@ -130,9 +136,25 @@ export class AcDbEllipse extends AcDbCurve {
    * ```
    */
   set center(value: AcGePoint3dLike) {
+    this.assertWriteEnabled()
     this._geo.center = value
   }
 
+  /**
+   * Gets the unit major axis vector of this ellipse in WCS coordinates.
+   *
+   * @returns The unit major axis vector
+   *
+   * @example
+   * ```typescript
+   * const majorAxis = ellipse.majorAxis;
+   * console.log(`Major axis: ${majorAxis.x}, ${majorAxis.y}, ${majorAxis.z}`);
+   * ```
+   */
+  get majorAxis(): AcGeVector3d {
+    return this._geo.majorAxis
+  }
+
   /**
    * Gets the major axis radius of this ellipse.
    *
@@ -159,6 +181,7 @@ export class AcDbEllipse extends AcDbCurve {
    * ```
    */
   set majorAxisRadius(value: number) {
+    this.assertWriteEnabled()
     this._geo.majorAxisRadius = value
   }
 
@@ -188,6 +211,7 @@ export class AcDbEllipse extends AcDbCurve {
    * ```
    */
   set minorAxisRadius(value: number) {
+    this.assertWriteEnabled()
     this._geo.minorAxisRadius = value
   }
 
@@ -217,6 +241,7 @@ export class AcDbEllipse extends AcDbCurve {
    * ```
    */
   set startAngle(value: number) {
+    this.assertWriteEnabled()
     this._geo.startAngle = value
   }
 
@@ -246,6 +271,7 @@ export class AcDbEllipse extends AcDbCurve {
    * ```
    */
   set endAngle(value: number) {
+    this.assertWriteEnabled()
     this._geo.endAngle = value
   }
 
@@ -277,6 +303,7 @@ export class AcDbEllipse extends AcDbCurve {
    * ```
    */
   set normal(value: AcGeVector3dLike) {
+    this.assertWriteEnabled()
     this._geo.normal = value
   }
 
@@ -307,6 +334,103 @@ export class AcDbEllipse extends AcDbCurve {
     return this._geo.closed
   }
 
+  /**
+   * @inheritdoc
+   */
+  get startParam() {
+    return this._geo.startParam
+  }
+
+  /**
+   * @inheritdoc
+   */
+  get endParam() {
+    return this._geo.endParam
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getPointAtParam(param: number) {
+    return this._geo.getPointAtParam(param)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getParamAtPoint(point: AcGePoint3dLike) {
+    return this._geo.getParamAtPoint(point)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getDistAtParam(param: number) {
+    return this._geo.getDistAtParam(param)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getParamAtDist(dist: number) {
+    return this._geo.getParamAtDist(dist)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getFirstDeriv(param: number) {
+    return this._geo.getFirstDeriv(param)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getClosestPointTo(point: AcGePoint3dLike, extend = false) {
+    return this._geo.getClosestPointTo(point, extend)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getArea() {
+    return this._geo.area
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getSplitCurves(params: number[]) {
+    return this._geo.split(params).map(geo => {
+      const ellipse = new AcDbEllipse(
+        geo.center,
+        geo.normal,
+        geo.majorAxis,
+        geo.majorAxisRadius,
+        geo.minorAxisRadius,
+        geo.startAngle,
+        geo.endAngle
+      )
+      ellipse.setPropertiesFrom(this)
+      return ellipse
+    })
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getOffsetCurves(distance: number) {
+    return this._geo.getOffsetCurves(distance).map(geo => {
+      const fitPoints: AcGePoint3dLike[] = []
+      for (let i = 0; i < geo.numFitPoints; ++i) {
+        fitPoints.push(geo.getFitPointAt(i))
+      }
+      const spline = new AcDbSpline(fitPoints, 'Chord')
+      spline.setPropertiesFrom(this)
+      return spline
+    })
+  }
+
   /**
    * Returns the full property definition for this ellipse entity, including
    * general group and geometry group.
@@ -440,6 +564,94 @@ export class AcDbEllipse extends AcDbCurve {
     }
   }
 
+  /**
+   * Gets the object snap points for this ellipse.
+   *
+   * Supported snap modes are EndPoint, MidPoint, Center, Centroid, Quadrant,
+   * Nearest, Perpendicular and Tangent. End points and middle points are
+   * returned only for elliptical arcs. Quadrant points are returned only if
+   * they are on the elliptical arc.
+   *
+   * @param osnapMode - The object snap mode
+   * @param pickPoint - The point where the user picked
+   * @param lastPoint - The last point picked by the user
+   * @param snapPoints - Array to populate with snap points
+   *
+   * @example
+   * ```typescript
+   * const snapPoints: AcGePoint3d[] = [];
+   * ellipse.subGetOsnapPoints(AcDbOsnapMode.Quadrant, pickPoint, lastPoint, snapPoints);
+   * // snapPoints now contains quadrant points at ends of the major and minor axes
+   * ```
+   */
+  subGetOsnapPoints(
+    osnapMode: AcDbOsnapMode,
+    pickPoint: AcGePoint3dLike,
+    lastPoint: AcGePoint3dLike,
+    snapPoints: AcGePoint3dLike[]
+  ) {
+    const curve = AcDbOsnapHelper.createEllipseArc(this._geo)
+    switch (osnapMode) {
+      case AcDbOsnapMode.Center:
+        snapPoints.push(this.center)
+        break
+      case AcDbOsnapMode.Centroid:
+        if (curve.closed) snapPoints.push(this.center)
+        break
+      case AcDbOsnapMode.Quadrant:
+        for (let i = 0; i < 4; ++i) {
+          const angle = (i * Math.PI) / 2
+          const delta = AcGeMathUtil.normalizeAngle(angle - curve.startParam)
+          if (curve.closed || delta <= curve.endParam - curve.startParam) {
+            snapPoints.push(this._geo.getPointAtAngle(angle))
+          }
+        }
+        break
+      default:
+        AcDbOsnapHelper.getOsnapPoints(
+          [curve],
+          osnapMode,
+          pickPoint,
+          lastPoint,
+          snapPoints
+        )
+        break
+    }
+  }
+
+  /**
+   * @inheritdoc
+   */
+  protected subGetIntersectCurves() {
+    return {
+      curves: [this._geo],
+      extend: AcGeExtendType.None
+    }
+  }
+
+  /**
+   * Transforms this ellipse by the specified matrix.
+   *
+   * This method applies a geometric transformation to the ellipse, updating
+   * the center point, axes, and angles according to the transformation matrix.
+   * Non-uniform scaling is supported because the result is still one ellipse.
+   *
+   * @param matrix - The transformation matrix to apply
+   * @returns This ellipse after transformation
+   *
+   * @example
+   * ```typescript
+   * const translationMatrix = AcGeMatrix3d.translation(10, 0, 0);
+   * ellipse.transformBy(translationMatrix);
+   * // Ellipse is now translated 10 units in the X direction
+   * ```
+   */
+  transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    this._geo.transform(matrix)
+    return this
+  }
+
   /**
    * Draws this ellipse using the specified renderer.
    *
@@ -455,8 +667,8 @@ export class AcDbEllipse extends AcDbCurve {
    * ```
    */
   draw(renderer: AcGiRenderer) {
-  this.attachToEntityTraits(renderer.subEntityTraits)
+    this.attachToEntityTraits(renderer.subEntityTraits)
 
-  return renderer.ellipticalArc(this._geo)
+    return renderer.ellipticalArc(this._geo)
   }
 }
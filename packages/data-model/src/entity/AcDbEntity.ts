@@ -1,6 +1,9 @@
 import { AcCmColor, AcCmTransparency } from '@mlightcad/common'
 import {
   AcGeBox3d,
+  AcGeCurve3d,
+  AcGeExtendType,
+  AcGeIntersectionUtil,
   AcGeMatrix3d,
   AcGePoint3d
 } from '@mlightcad/geometry-engine'
@@ -10,16 +13,36 @@ import {
   AcGiLineWeight,
   AcGiRenderer,
   AcGiStyleType,
-  AcGiSubEntityTraits,
+  AcGiSubEntityTraits
 } from '@mlightcad/graphic-interface'
 
 import { AcDbObject } from '../base/AcDbObject'
-import { AcDbOsnapMode, ByBlock, ByLayer, DEFAULT_LINE_TYPE } from '../misc'
+import {
+  AcDbIntersectType,
+  AcDbOsnapMode,
+  ByBlock,
+  ByLayer,
+  DEFAULT_LINE_TYPE
+} from '../misc'
 import {
   AcDbEntityProperties,
   AcDbEntityPropertyGroup
 } from './AcDbEntityProperties'
 
+/**
+ * Curves of one entity used to compute intersections with other entities.
+ */
+export interface AcDbIntersectCurves {
+  /**
+   * Curves in WCS coordinates connected end to end
+   */
+  curves: AcGeCurve3d[]
+  /**
+   * Ends of curves which are always extended, such as the end of one ray
+   */
+  extend: AcGeExtendType
+}
+
 /**
  * Abstract base class for all drawing entities.
  *
@@ -58,6 +81,8 @@ export abstract class AcDbEntity extends AcDbObject {
   private _visibility: boolean = true
   /** The transparency level of this entity (0-1) */
   private _transparency: AcCmTransparency = new AcCmTransparency()
+  /** Whether this entity is erased */
+  private _isErased: boolean = false
 
   /**
    * Gets the type name of this entity.
@@ -102,6 +127,7 @@ export abstract class AcDbEntity extends AcDbObject {
    * ```
    */
   set layer(value: string) {
+    this.assertWriteEnabled()
     this._layer = value
   }
 
@@ -130,6 +156,7 @@ export abstract class AcDbEntity extends AcDbObject {
    * ```
    */
   set color(value: AcCmColor) {
+    this.assertWriteEnabled()
     this._color.copy(value)
   }
 
@@ -190,6 +217,7 @@ export abstract class AcDbEntity extends AcDbObject {
    * ```
    */
   set lineType(value: string) {
+    this.assertWriteEnabled()
     this._lineType = value || ByLayer
   }
 
@@ -208,6 +236,7 @@ export abstract class AcDbEntity extends AcDbObject {
    * @param value - The new line weight value
    */
   set lineWeight(value: AcGiLineWeight) {
+    this.assertWriteEnabled()
     this._lineWeight = value
   }
 
@@ -241,6 +270,7 @@ export abstract class AcDbEntity extends AcDbObject {
    * ```
    */
   set linetypeScale(value: number) {
+    this.assertWriteEnabled()
     this._linetypeScale = value
   }
 
@@ -269,6 +299,7 @@ export abstract class AcDbEntity extends AcDbObject {
    * ```
    */
   set visibility(value: boolean) {
+    this.assertWriteEnabled()
     this._visibility = value
   }
 
@@ -297,9 +328,63 @@ export abstract class AcDbEntity extends AcDbObject {
    * ```
    */
   set transparency(value: AcCmTransparency) {
+    this.assertWriteEnabled()
     this._transparency = value.clone()
   }
 
+  /**
+   * Returns true if this entity is erased. Erased entities are still stored in
+   * their owner block table record, but they are skipped when iterating
+   * entities of the block table record.
+   *
+   * @returns True if this entity is erased
+   */
+  get isErased() {
+    return this._isErased
+  }
+
+  /**
+   * Erases or unerases this entity.
+   *
+   * If this entity is in model space or paper space, event `entityErased` of
+   * the database is dispatched when erasing it and event `entityAppended` is
+   * dispatched when unerasing it. This change is recorded in the active
+   * transaction so that it can be undone.
+   *
+   * @param erasing - True to erase this entity, false to unerase it
+   *
+   * @example
+   * ```typescript
+   * entity.erase();
+   * console.log(entity.isErased); // true
+   * entity.erase(false);
+   * ```
+   */
+  erase(erasing: boolean = true) {
+    if (this._isErased === erasing) return
+    this._isErased = erasing
+
+    // Nothing else to do if this entity isn't appended to one block table record
+    const ownerId = this.getAttrWithoutException('ownerId')
+    if (!ownerId) return
+
+    const database = this.database
+    database.transactionManager.addUndoRecord({
+      undo: () => this.erase(!erasing),
+      redo: () => this.erase(erasing)
+    })
+
+    const owner = database.tables.blockTable.getIdAt(ownerId)
+    if (owner && (owner.isModelSapce || owner.isPaperSapce)) {
+      const args = { database, entity: this }
+      if (erasing) {
+        database.events.entityErased.dispatch(args)
+      } else {
+        database.events.entityAppended.dispatch(args)
+      }
+    }
+  }
+
   /**
    * Returns the full property definition for this entity, including
    * all property groups and runtime accessors.
@@ -370,15 +455,64 @@ export abstract class AcDbEntity extends AcDbObject {
     // @ts-expect-error not use '_' prefix so that typedoc can the correct parameter to generate doc
     lastPoint: AcGePoint3dLike,
     // @ts-expect-error not use '_' prefix so that typedoc can the correct parameter to generate doc
-    snapPoints: AcGePoint3d[]
+    snapPoints: AcGePoint3dLike[]
   ) {}
 
+  /**
+   * Gets intersection points of this entity with the specified entity.
+   *
+   * Entities are intersected as curves. Extended lines are infinite, and
+   * extended arcs are full circles or full ellipses. Closed curves and splines
+   * aren't extended. Entities which aren't curves have no intersections.
+   *
+   * @param entity - The entity to intersect with this entity
+   * @param intType - Specifies which entities are extended
+   * @returns Array of intersection points in WCS coordinates
+   *
+   * @example
+   * ```typescript
+   * const points = line.intersectWith(circle, AcDbIntersectType.ExtendThis);
+   * ```
+   */
+  intersectWith(
+    entity: AcDbEntity,
+    intType: AcDbIntersectType = AcDbIntersectType.OnBothOperands
+  ): AcGePoint3d[] {
+    const curves1 = this.subGetIntersectCurves()
+    const curves2 = entity.subGetIntersectCurves()
+    if (!curves1 || !curves2) return []
+
+    return AcGeIntersectionUtil.intersectCurves3d(
+      curves1.curves,
+      curves2.curves,
+      intType & AcDbIntersectType.ExtendThis
+        ? AcGeExtendType.Both
+        : curves1.extend,
+      intType & AcDbIntersectType.ExtendArg
+        ? AcGeExtendType.Both
+        : curves2.extend
+    )
+  }
+
+  /**
+   * Gets curves of this entity used to compute intersections with other
+   * entities. This method should be overridden by subclasses which can be
+   * intersected.
+   *
+   * @returns Curves of this entity, or undefined if this entity can't be
+   * intersected
+   */
+  protected subGetIntersectCurves(): AcDbIntersectCurves | undefined {
+    return undefined
+  }
+
   /**
    * Transforms this entity by the specified matrix.
    *
    * This method applies a geometric transformation to the entity.
    * Subclasses should override this method to provide entity-specific
-   * transformation behavior.
+   * transformation behavior and call {@link assertWriteEnabled} before
+   * changing anything so that the transformation can be undone.
    *
    * @param matrix - The transformation matrix to apply
    * @returns This entity after transformation
@@ -394,6 +528,31 @@ export abstract class AcDbEntity extends AcDbObject {
     return this
   }
 
+  /**
+   * Copies general properties (layer, color, linetype, lineweight, linetype
+   * scale, visibility and transparency) of the specified entity to this entity.
+   * It is used when one entity is created to replace another entity.
+   *
+   * @param entity - The entity whose properties are copied
+   * @returns This entity
+   *
+   * @example
+   * ```typescript
+   * const ellipse = new AcDbEllipse(...);
+   * ellipse.setPropertiesFrom(circle);
+   * ```
+   */
+  setPropertiesFrom(entity: AcDbEntity) {
+    this.layer = entity.layer
+    this.color = entity.color
+    this.lineType = entity.lineType
+    this.lineWeight = entity.lineWeight
+    this.linetypeScale = entity.linetypeScale
+    this.visibility = entity.visibility
+    this.transparency = entity.transparency
+    return this
+  }
+
   /**
    * Gets the geometric extents of this entity.
    *
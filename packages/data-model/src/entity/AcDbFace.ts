@@ -1,10 +1,13 @@
 import {
   AcGeBox3d,
+  AcGeMatrix3d,
   AcGePoint3d,
+  AcGePoint3dLike,
   AcGePointLike
 } from '@mlightcad/geometry-engine'
 import { AcGiRenderer } from '@mlightcad/graphic-interface'
 
+import { AcDbOsnapCurve, AcDbOsnapHelper, AcDbOsnapMode } from '../misc'
 import { AcDbEntity } from './AcDbEntity'
 
 /**
@@ -76,6 +79,7 @@ export class AcDbFace extends AcDbEntity {
    * ```
    */
   setVertexAt(index: number, point: AcGePointLike) {
+    this.assertWriteEnabled()
     if (index < 0) this._vertices[0].copy(point)
     if (index >= 3) {
       if (this._vertices.length === 3) {
@@ -102,6 +106,7 @@ export class AcDbFace extends AcDbEntity {
    * ```
    */
   setEdgeInvisibilities(invisibilities: number) {
+    this.assertWriteEnabled()
     this._edgeInvisibilities = invisibilities
   }
 
@@ -187,6 +192,67 @@ export class AcDbFace extends AcDbEntity {
     return gripPoints
   }
 
+  /**
+   * Gets the object snap points for this face.
+   *
+   * Supported snap modes are EndPoint, MidPoint, Nearest and Perpendicular.
+   * End points and middle points are computed for each edge of this face.
+   *
+   * @param osnapMode - The object snap mode
+   * @param pickPoint - The point where the user picked
+   * @param lastPoint - The last point picked by the user
+   * @param snapPoints - Array to populate with snap points
+   *
+   * @example
+   * ```typescript
+   * const snapPoints: AcGePoint3d[] = [];
+   * face.subGetOsnapPoints(AcDbOsnapMode.EndPoint, pickPoint, lastPoint, snapPoints);
+   * // snapPoints now contains all vertices of the face
+   * ```
+   */
+  subGetOsnapPoints(
+    osnapMode: AcDbOsnapMode,
+    pickPoint: AcGePoint3dLike,
+    lastPoint: AcGePoint3dLike,
+    snapPoints: AcGePoint3dLike[]
+  ) {
+    const vertices = this._vertices
+    const curves: AcDbOsnapCurve[] = []
+    vertices.forEach((vertex, index) => {
+      const next = vertices[(index + 1) % vertices.length]
+      // Skip the degenerated edge of triangular faces
+      if (!vertex.equals(next)) {
+        curves.push(AcDbOsnapHelper.createLine(vertex, next))
+      }
+    })
+    AcDbOsnapHelper.getOsnapPoints(
+      curves,
+      osnapMode,
+      pickPoint,
+      lastPoint,
+      snapPoints
+    )
+  }
+
+  /**
+   * Transforms this face by the specified matrix.
+   *
+   * @param matrix - The transformation matrix to apply
+   * @returns This face after transformation
+   *
+   * @example
+   * ```typescript
+   * const translationMatrix = AcGeMatrix3d.translation(10, 0, 0);
+   * face.transformBy(translationMatrix);
+   * // Face is now translated 10 units in the X direction
+   * ```
+   */
+  transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    this._vertices.forEach(vertex => vertex.applyMatrix4(matrix))
+    return this
+  }
+
   /**
    * Draws this face using the specified renderer.
    *
@@ -1,14 +1,34 @@
+import { AcCmColor } from '@mlightcad/common'
 import {
   AcGeArea2d,
   AcGeBox3d,
-  AcGeLoop2dType
+  AcGeCircArc2d,
+  AcGeEllipseArc2d,
+  AcGeLine2d,
+  AcGeLoop2dType,
+  AcGeMathUtil,
+  AcGeMatrix2d,
+  AcGeMatrix3d,
+  AcGePoint2d,
+  AcGePoint3d,
+  AcGePoint3dLike,
+  AcGePolyline2d,
+  AcGeVector3d,
+  TAU
 } from '@mlightcad/geometry-engine'
 import {
+  AcGiHatchGradient,
   AcGiHatchPatternLine,
   AcGiRenderer,
   AcGiSubEntityTraits
 } from '@mlightcad/graphic-interface'
 
+import {
+  AcDbHatchPatternManager,
+  AcDbOsnapCurve,
+  AcDbOsnapHelper,
+  AcDbOsnapMode
+} from '../misc'
 import { AcDbEntity } from './AcDbEntity'
 
 /**
@@ -68,6 +88,20 @@ export enum AcDbHatchStyle {
   Ignore = 2
 }
 
+/**
+ * Defines whether one hatch is filled by one pattern or one gradient.
+ */
+export enum AcDbHatchObjectType {
+  /**
+   * The hatch is filled by one solid color or one pattern.
+   */
+  HatchObject = 0,
+  /**
+   * The hatch is filled by one gradient.
+   */
+  GradientObject = 1
+}
+
 /**
  * Represents a hatch entity in AutoCAD.
  *
@@ -113,12 +147,26 @@ export class AcDbHatch extends AcDbEntity {
   private _patternName: string
   /** The type of hatch pattern */
   private _patternType: AcDbHatchPatternType
-  /** The angle of the hatch pattern in radians */
+  /** The angle of the hatch pattern in degrees */
   private _patternAngle: number
   /** The scale factor for the hatch pattern */
   private _patternScale: number
   /** The hatch style for determining which areas to hatch */
   private _hatchStyle: AcDbHatchStyle
+  /** Whether the hatch is filled by one pattern or one gradient */
+  private _hatchObjectType: AcDbHatchObjectType
+  /** The name of the gradient */
+  private _gradientName: string
+  /** The angle of the gradient in radians */
+  private _gradientAngle: number
+  /** The shift of the gradient center */
+  private _gradientShift: number
+  /** The flag to indicate whether the gradient uses one color only */
+  private _gradientOneColorMode: boolean
+  /** The tint or shade value of one-color gradients */
+  private _shadeTintValue: number
+  /** Colors of the gradient */
+  private _gradientColors: AcCmColor[]
 
   /**
    * Creates a new hatch entity.
@@ -145,6 +193,13 @@ export class AcDbHatch extends AcDbEntity {
     this._patternAngle = 0
     this._patternScale = 1
     this._hatchStyle = AcDbHatchStyle.Normal
+    this._hatchObjectType = AcDbHatchObjectType.HatchObject
+    this._gradientName = 'LINEAR'
+    this._gradientAngle = 0
+    this._gradientShift = 0
+    this._gradientOneColorMode = false
+    this._shadeTintValue = 0
+    this._gradientColors = []
   }
 
   /**
@@ -157,6 +212,7 @@ export class AcDbHatch extends AcDbEntity {
    * Sets whether the hatch object is configured for solid fill.
    */
   set isSolidFill(value: boolean) {
+    this.assertWriteEnabled()
     this._isSolidFill = value
   }
 
@@ -182,6 +238,7 @@ export class AcDbHatch extends AcDbEntity {
     return this._patternName
   }
   set patternName(value: string) {
+    this.assertWriteEnabled()
     this._patternName = value
   }
 
@@ -192,16 +249,18 @@ export class AcDbHatch extends AcDbEntity {
     return this._patternType
   }
   set patternType(value: AcDbHatchPatternType) {
+    this.assertWriteEnabled()
     this._patternType = value
   }
 
   /**
-   * The pattern angle (in radians) of this hatch.
+   * The pattern angle (in degrees) of this hatch.
    */
   get patternAngle() {
     return this._patternAngle
   }
   set patternAngle(value: number) {
+    this.assertWriteEnabled()
     this._patternAngle = value
   }
 
@@ -212,6 +271,7 @@ export class AcDbHatch extends AcDbEntity {
     return this._patternScale
   }
   set patternScale(value: number) {
+    this.assertWriteEnabled()
     this._patternScale = value
   }
 
@@ -222,15 +282,124 @@ export class AcDbHatch extends AcDbEntity {
     return this._hatchStyle
   }
   set hatchStyle(value: AcDbHatchStyle) {
+    this.assertWriteEnabled()
     this._hatchStyle = value
   }
 
+  /**
+   * Whether this hatch is filled by one pattern or one gradient.
+   */
+  get hatchObjectType() {
+    return this._hatchObjectType
+  }
+  set hatchObjectType(value: AcDbHatchObjectType) {
+    this.assertWriteEnabled()
+    this._hatchObjectType = value
+  }
+
+  /**
+   * Returns true if this hatch is filled by one gradient.
+   */
+  get isGradient() {
+    return this._hatchObjectType === AcDbHatchObjectType.GradientObject
+  }
+
+  /**
+   * The gradient name of this hatch, such as 'LINEAR', 'CYLINDER' and 'SPHERICAL'.
+   */
+  get gradientName() {
+    return this._gradientName
+  }
+  set gradientName(value: string) {
+    this.assertWriteEnabled()
+    this._gradientName = value
+  }
+
+  /**
+   * The gradient angle (in radians) of this hatch.
+   */
+  get gradientAngle() {
+    return this._gradientAngle
+  }
+  set gradientAngle(value: number) {
+    this.assertWriteEnabled()
+    this._gradientAngle = value
+  }
+
+  /**
+   * The shift of the gradient center of this hatch in the range [0, 1]. 0 means the gradient
+   * is centered.
+   */
+  get gradientShift() {
+    return this._gradientShift
+  }
+  set gradientShift(value: number) {
+    this.assertWriteEnabled()
+    this._gradientShift = value
+  }
+
+  /**
+   * Whether the gradient of this hatch uses one color only. If true, the second color is
+   * computed from the first color and {@link shadeTintValue}.
+   */
+  get gradientOneColorMode() {
+    return this._gradientOneColorMode
+  }
+  set gradientOneColorMode(value: boolean) {
+    this.assertWriteEnabled()
+    this._gradientOneColorMode = value
+  }
+
+  /**
+   * The tint or shade value of one-color gradients in the range [0, 1]. Values less than 0.5
+   * mix the first color with black and values greater than 0.5 mix the first color with white.
+   */
+  get shadeTintValue() {
+    return this._shadeTintValue
+  }
+  set shadeTintValue(value: number) {
+    this.assertWriteEnabled()
+    this._shadeTintValue = value
+  }
+
+  /**
+   * Colors of the gradient of this hatch. Two-color gradients use the first two colors and
+   * one-color gradients use the first color only.
+   */
+  get gradientColors() {
+    return this._gradientColors
+  }
+  set gradientColors(value: AcCmColor[]) {
+    this.assertWriteEnabled()
+    this._gradientColors = value
+  }
+
+  /**
+   * The elevation (Z-coordinate) of the hatch plane.
+   */
+  get elevation() {
+    return this._elevation
+  }
+  set elevation(value: number) {
+    this.assertWriteEnabled()
+    this._elevation = value
+  }
+
+  /**
+   * The boundary loops of this hatch. The first loop is the outter loop and the others are
+   * inner loops.
+   */
+  get loops() {
+    return this._geo.loops
+  }
+
   /**
    * Append one loop to loops of this area. If it is the first loop added, it is the outter loop.
    * Otherwise, it is an inner loop.
    * @param loop Input the loop to append
    */
   add(loop: AcGeLoop2dType) {
+    this.assertWriteEnabled()
     this._geo.add(loop)
   }
 
@@ -245,6 +414,91 @@ export class AcDbHatch extends AcDbEntity {
     )
   }
 
+  /**
+   * Gets the object snap points for this hatch.
+   *
+   * Snap points are computed from edges of boundary loops of this hatch.
+   * Supported snap modes are EndPoint, MidPoint, Nearest, Perpendicular and
+   * Tangent.
+   *
+   * @param osnapMode - The object snap mode
+   * @param pickPoint - The point where the user picked
+   * @param lastPoint - The last point picked by the user
+   * @param snapPoints - Array to populate with snap points
+   *
+   * @example
+   * ```typescript
+   * const snapPoints: AcGePoint3d[] = [];
+   * hatch.subGetOsnapPoints(AcDbOsnapMode.EndPoint, pickPoint, lastPoint, snapPoints);
+   * // snapPoints now contains vertices of boundary loops
+   * ```
+   */
+  subGetOsnapPoints(
+    osnapMode: AcDbOsnapMode,
+    pickPoint: AcGePoint3dLike,
+    lastPoint: AcGePoint3dLike,
+    snapPoints: AcGePoint3dLike[]
+  ) {
+    const curves: AcDbOsnapCurve[] = []
+    this._geo.loops.forEach(loop => curves.push(...this.getLoopCurves(loop)))
+    AcDbOsnapHelper.getOsnapPoints(
+      curves,
+      osnapMode,
+      pickPoint,
+      lastPoint,
+      snapPoints
+    )
+  }
+
+  /**
+   * Transforms this hatch by the specified matrix.
+   *
+   * Boundary loops are transformed in the plane of the hatch and the elevation
+   * is set to the transformed z-coordinate of the hatch plane. Pattern lines are
+   * rotated and scaled with the hatch so that the pattern keeps its appearance.
+   *
+   * @param matrix - The transformation matrix to apply
+   * @returns This hatch after transformation
+   *
+   * @example
+   * ```typescript
+   * const translationMatrix = AcGeMatrix3d.translation(10, 0, 0);
+   * hatch.transformBy(translationMatrix);
+   * // Hatch is now translated 10 units in the X direction
+   * ```
+   */
+  transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    const matrix2d = new AcGeMatrix2d().setFromMatrix4InXYPlane(matrix)
+    const e = matrix2d.elements
+    const rotation = Math.atan2(e[1], e[0])
+    const scale = Math.sqrt(Math.abs(matrix2d.determinant()))
+    const cos = Math.cos(rotation)
+    const sin = Math.sin(rotation)
+
+    this._elevation = new AcGePoint3d(0, 0, this._elevation).applyMatrix4(
+      matrix
+    ).z
+    this._geo.transform(matrix2d)
+    // Angles of pattern lines are in degrees
+    const degrees = AcGeMathUtil.radToDeg(rotation)
+    this._patternAngle += degrees
+    this._patternScale *= scale
+    this._gradientAngle += rotation
+    this._definitionLines.forEach(line => {
+      const origin = new AcGePoint2d(line.origin).applyMatrix2d(matrix2d)
+      const delta = line.delta
+      line.angle += degrees
+      line.origin = { x: origin.x, y: origin.y }
+      line.delta = {
+        x: (delta.x * cos - delta.y * sin) * scale,
+        y: (delta.x * sin + delta.y * cos) * scale
+      }
+      line.dashPattern = line.dashPattern.map(dash => dash * scale)
+    })
+    return this
+  }
+
   /**
    * @inheritdoc
    */
@@ -255,12 +509,142 @@ export class AcDbHatch extends AcDbEntity {
   }
 
   protected override attachToEntityTraits(traits: AcGiSubEntityTraits): void {
-    super.attachToEntityTraits(traits)  
+    super.attachToEntityTraits(traits)
 
     traits.fillType = {
       solidFill: this.isSolidFill,
       patternAngle: this.patternAngle,
-      patternLines: this.definitionLines
+      patternLines: this.getPatternLines(),
+      gradient: this.isGradient ? this.getGradient() : undefined
+    }
+  }
+
+  /**
+   * Gets the gradient used to draw this hatch. Colors without RGB values, such as 'ByLayer', are
+   * resolved to the color of this hatch.
+   */
+  private getGradient(): AcGiHatchGradient {
+    const first = this._gradientColors[0]?.RGB ?? this.rgbColor
+    let second: number
+    if (this._gradientOneColorMode) {
+      const tint = Math.min(1, Math.max(0, this._shadeTintValue))
+      const target = tint >= 0.5 ? 0xff : 0
+      const ratio = Math.abs(tint - 0.5) * 2
+      second = 0
+      for (let shift = 0; shift <= 16; shift += 8) {
+        const channel = (first >> shift) & 0xff
+        second |= Math.round(channel + (target - channel) * ratio) << shift
+      }
+    } else {
+      second = this._gradientColors[1]?.RGB ?? first
+    }
+    return {
+      name: this._gradientName,
+      angle: this._gradientAngle,
+      shift: this._gradientShift,
+      colors: [first, second]
+    }
+  }
+
+  /**
+   * Gets pattern lines used to draw this hatch. Definition lines stored in the drawing are used if
+   * they exist. Otherwise, pattern lines are created from the pattern with the same name in
+   * {@link AcDbHatchPatternManager} and are rotated and scaled by the pattern angle and scale of
+   * this hatch.
+   */
+  private getPatternLines() {
+    if (
+      this._definitionLines.length > 0 ||
+      this.isSolidFill ||
+      this._patternType === AcDbHatchPatternType.UserDefined
+    ) {
+      return this._definitionLines
+    }
+    const pattern = AcDbHatchPatternManager.instance.getPattern(
+      this._patternName,
+      this.database.measurement === 1
+    )
+    if (!pattern) return this._definitionLines
+
+    const rotation = AcGeMathUtil.degToRad(this._patternAngle)
+    const cos = Math.cos(rotation)
+    const sin = Math.sin(rotation)
+    const scale = this._patternScale || 1
+    const transform = (point: { x: number; y: number }) => ({
+      x: (point.x * cos - point.y * sin) * scale,
+      y: (point.x * sin + point.y * cos) * scale
+    })
+    return pattern.lines.map(line => ({
+      angle: line.angle + this._patternAngle,
+      origin: transform(line.origin),
+      delta: transform(line.delta),
+      dashPattern: line.dashPattern.map(dash => dash * scale)
+    }))
+  }
+
+  /**
+   * Converts edges of the specified boundary loop to curves to compute object
+   * snap points.
+   */
+  private getLoopCurves(loop: AcGeLoop2dType) {
+    const elevation = this._elevation
+    if (loop instanceof AcGePolyline2d) {
+      return AcDbOsnapHelper.createPolyline(
+        loop.vertices,
+        loop.closed,
+        elevation
+      )
     }
+
+    const curves: AcDbOsnapCurve[] = []
+    loop.curves.forEach(edge => {
+      if (edge instanceof AcGeLine2d) {
+        const start = edge.startPoint
+        const end = edge.endPoint
+        curves.push(
+          AcDbOsnapHelper.createLine(
+            { x: start.x, y: start.y, z: elevation },
+            { x: end.x, y: end.y, z: elevation }
+          )
+        )
+      } else if (edge instanceof AcGeCircArc2d) {
+        const center = edge.center
+        const start = edge.startPoint
+        const end = edge.endPoint
+        const startAngle = Math.atan2(start.y - center.y, start.x - center.x)
+        const endAngle = Math.atan2(end.y - center.y, end.x - center.x)
+        let sweepAngle = edge.clockwise
+          ? -AcGeMathUtil.normalizeAngle(startAngle - endAngle)
+          : AcGeMathUtil.normalizeAngle(endAngle - startAngle)
+        if (edge.closed) sweepAngle = edge.clockwise ? -TAU : TAU
+        curves.push(
+          AcDbOsnapHelper.createArc2d(
+            center,
+            edge.radius,
+            startAngle,
+            sweepAngle,
+            elevation
+          )
+        )
+      } else if (edge instanceof AcGeEllipseArc2d) {
+        curves.push({
+          startParam: 0,
+          endParam: 1,
+          closed: edge.closed,
+          normal: AcGeVector3d.Z_AXIS,
+          evaluate: param => {
+            const point = edge.getPoint(param)
+            return new AcGePoint3d(point.x, point.y, elevation)
+          }
+        })
+      } else {
+        const curve = AcDbOsnapHelper.createSpline(edge, AcGeVector3d.Z_AXIS)
+        curves.push({
+          ...curve,
+          evaluate: param => curve.evaluate(param).setZ(elevation)
+        })
+      }
+    })
+    return curves
   }
 }
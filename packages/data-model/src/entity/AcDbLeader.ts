@@ -1,5 +1,6 @@
 import {
   AcGeBox3d,
+  AcGeMatrix3d,
   AcGePoint3d,
   AcGePoint3dLike,
   AcGeSpline3d
@@ -119,6 +120,7 @@ export class AcDbLeader extends AcDbCurve {
    * ```
    */
   set isSplined(value: boolean) {
+    this.assertWriteEnabled()
     this._isSplined = value
   }
 
@@ -148,6 +150,7 @@ export class AcDbLeader extends AcDbCurve {
    * ```
    */
   set hasArrowHead(value: boolean) {
+    this.assertWriteEnabled()
     this._hasArrowHead = value
   }
 
@@ -180,6 +183,7 @@ export class AcDbLeader extends AcDbCurve {
    * ```
    */
   set hasHookLine(value: boolean) {
+    this.assertWriteEnabled()
     this._hasHookLine = value
   }
 
@@ -224,6 +228,7 @@ export class AcDbLeader extends AcDbCurve {
    * ```
    */
   set dimensionStyle(value: string) {
+    this.assertWriteEnabled()
     this._dimensionStyle = value
   }
 
@@ -253,6 +258,7 @@ export class AcDbLeader extends AcDbCurve {
    * ```
    */
   set annoType(value: AcDbLeaderAnnotationType) {
+    this.assertWriteEnabled()
     this._annoType = value
   }
 
@@ -264,6 +270,7 @@ export class AcDbLeader extends AcDbCurve {
    * @param point Input point (in WCS coordinates) to add to the vertex list
    */
   appendVertex(point: AcGePoint3dLike) {
+    this.assertWriteEnabled()
     this._vertices.push(new AcGePoint3d().copy(point))
     this._updated = true
   }
@@ -276,6 +283,7 @@ export class AcDbLeader extends AcDbCurve {
    * @param point Input new point value (in WCS) to use
    */
   setVertexAt(index: number, point: AcGePoint3dLike) {
+    this.assertWriteEnabled()
     if (index < 0 || index >= this._vertices.length) {
       // TODO: Project the point onto the plane containing the leader
       this._vertices[index].copy(point)
@@ -290,9 +298,9 @@ export class AcDbLeader extends AcDbCurve {
    */
   vertexAt(index: number) {
     if (index < 0 || index >= this._vertices.length) {
-      this._vertices[index]
+      throw new Error('The vertex index is out of range!')
     }
-    throw new Error('The vertex index is out of range!')
+    return this._vertices[index]
   }
 
   /**
@@ -314,9 +322,30 @@ export class AcDbLeader extends AcDbCurve {
     return false
   }
   set closed(_value: boolean) {
+    this.assertWriteEnabled()
     // TODO: Not sure whether the leader really support setting value of property 'closed'
   }
 
+  /**
+   * Transforms this leader by the specified matrix.
+   *
+   * @param matrix - The transformation matrix to apply
+   * @returns This leader after transformation
+   *
+   * @example
+   * ```typescript
+   * const translationMatrix = AcGeMatrix3d.translation(10, 0, 0);
+   * leader.transformBy(translationMatrix);
+   * // Leader is now translated 10 units in the X direction
+   * ```
+   */
+  transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    this._vertices.forEach(vertex => vertex.applyMatrix4(matrix))
+    this._updated = true
+    return this
+  }
+
   /**
    * @inheritdoc
    */
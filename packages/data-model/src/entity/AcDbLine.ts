@@ -1,5 +1,6 @@
 import {
   AcGeBox3d,
+  AcGeExtendType,
   AcGeLine3d,
   AcGeMatrix3d,
   AcGePoint3d,
@@ -87,6 +88,7 @@ export class AcDbLine extends AcDbCurve {
    * ```
    */
   set startPoint(value: AcGePoint3dLike) {
+    this.assertWriteEnabled()
     this._geo.startPoint = value
   }
 
@@ -116,6 +118,7 @@ export class AcDbLine extends AcDbCurve {
    * ```
    */
   set endPoint(value: AcGePoint3dLike) {
+    this.assertWriteEnabled()
     this._geo.endPoint = value
   }
 
@@ -162,6 +165,91 @@ export class AcDbLine extends AcDbCurve {
     return false
   }
 
+  /**
+   * @inheritdoc
+   */
+  get startParam() {
+    return this._geo.startParam
+  }
+
+  /**
+   * @inheritdoc
+   */
+  get endParam() {
+    return this._geo.endParam
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getPointAtParam(param: number) {
+    return this._geo.getPointAtParam(param)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getParamAtPoint(point: AcGePoint3dLike) {
+    return this._geo.getParamAtPoint(point)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getDistAtParam(param: number) {
+    return this._geo.getDistAtParam(param)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getParamAtDist(dist: number) {
+    return this._geo.getParamAtDist(dist)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getFirstDeriv(param: number) {
+    return this._geo.getFirstDeriv(param)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getClosestPointTo(point: AcGePoint3dLike, extend = false) {
+    return this._geo.getClosestPointTo(point, extend)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getArea() {
+    return 0
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getSplitCurves(params: number[]) {
+    return this._geo.split(params).map(geo => {
+      const line = new AcDbLine(geo.startPoint, geo.endPoint)
+      line.setPropertiesFrom(this)
+      return line
+    })
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getOffsetCurves(distance: number) {
+    return this._geo.getOffsetCurves(distance).map(geo => {
+      const line = new AcDbLine(geo.startPoint, geo.endPoint)
+      line.setPropertiesFrom(this)
+      return line
+    })
+  }
+
   /**
    * Returns the full property definition for this line entity, including
    * general group and geometry group.
@@ -334,6 +422,16 @@ export class AcDbLine extends AcDbCurve {
     }
   }
 
+  /**
+   * @inheritdoc
+   */
+  protected subGetIntersectCurves() {
+    return {
+      curves: [this._geo],
+      extend: AcGeExtendType.None
+    }
+  }
+
   /**
    * Transforms this line by the specified matrix.
    *
@@ -351,6 +449,7 @@ export class AcDbLine extends AcDbCurve {
    * ```
    */
   transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
     this._geo.transform(matrix)
     return this
   }
@@ -0,0 +1,707 @@
+import {
+  AcGeBox3d,
+  AcGeMatrix2d,
+  AcGeMatrix3d,
+  AcGePoint3d,
+  AcGePoint3dLike,
+  AcGeQuaternion,
+  AcGeSpline3d,
+  AcGeVector3d,
+  AcGeVector3dLike
+} from '@mlightcad/geometry-engine'
+import {
+  AcGiEntity,
+  AcGiMTextAttachmentPoint,
+  AcGiMTextData,
+  AcGiMTextFlowDirection,
+  AcGiRenderer,
+  AcGiTextStyle
+} from '@mlightcad/graphic-interface'
+
+import { AcDbObjectId } from '../base'
+import {
+  AcDbArrowHelper,
+  AcDbOsnapHelper,
+  AcDbOsnapMode,
+  AcDbRenderingCache
+} from '../misc'
+import {
+  AcDbMLeaderContentType,
+  AcDbMLeaderLineType
+} from '../object/AcDbMLeaderStyle'
+import { AcDbEntity } from './AcDbEntity'
+
+/**
+ * Represents one leader line of one multileader.
+ */
+export interface AcDbMLeaderLine {
+  /**
+   * Vertices of this leader line. The first vertex is where the arrowhead is
+   * drawn. The last vertex is connected to the landing point of the leader
+   * cluster owning this leader line.
+   */
+  vertices: AcGePoint3d[]
+}
+
+/**
+ * Represents one group of leader lines sharing one landing of one multileader.
+ */
+export interface AcDbMLeaderCluster {
+  /** The point where leader lines of this cluster are connected to */
+  landingPoint: AcGePoint3d
+  /** The unit vector of the dogleg starting from the landing point */
+  doglegVector: AcGeVector3d
+  /** The length of the dogleg */
+  doglegLength: number
+  /** Leader lines of this cluster */
+  leaderLines: AcDbMLeaderLine[]
+}
+
+/**
+ * Represents a multileader entity in AutoCAD.
+ *
+ * One multileader consists of one content (multiline text or one block) and
+ * one or more leader clusters. Each leader cluster has one landing with one
+ * optional dogleg and one or more leader lines ending with arrowheads.
+ * Settings of multileaders are defined by multileader styles. Values stored in
+ * one multileader override values of its multileader style.
+ *
+ * @example
+ * ```typescript
+ * const mleader = new AcDbMLeader();
+ * mleader.contents = 'Note';
+ * mleader.textLocation = new AcGePoint3d(12, 10, 0);
+ * mleader.addLeaderCluster(
+ *   new AcGePoint3d(10, 8, 0),
+ *   new AcGeVector3d(1, 0, 0),
+ *   [[new AcGePoint3d(0, 0, 0)]]
+ * );
+ * ```
+ */
+export class AcDbMLeader extends AcDbEntity {
+  /** The entity type name */
+  static override typeName: string = 'MLeader'
+
+  /** The id of the multileader style */
+  private _mleaderStyleId: AcDbObjectId
+  /** The content type */
+  private _contentType: AcDbMLeaderContentType
+  /** The leader line type */
+  private _leaderLineType: AcDbMLeaderLineType
+  /** The flag whether landing is enabled */
+  private _enableLanding: boolean
+  /** The flag whether dogleg is enabled */
+  private _enableDogleg: boolean
+  /** The id of the block table record used as arrowhead */
+  private _arrowSymbolId: AcDbObjectId
+  /** The size of arrowheads */
+  private _arrowSize: number
+  /** The gap between the landing and the content */
+  private _landingGap: number
+  /** The contents of multiline text content */
+  private _contents: string
+  /** The location of multiline text content */
+  private _textLocation: AcGePoint3d
+  /** The height of multiline text content */
+  private _textHeight: number
+  /** The id of the text style of multiline text content */
+  private _textStyleId: AcDbObjectId
+  /** The rotation of multiline text content in radians */
+  private _textRotation: number
+  /** The width of multiline text content */
+  private _textWidth: number
+  /** The attachment point of multiline text content */
+  private _textAttachmentPoint: AcGiMTextAttachmentPoint
+  /** The direction of multiline text content */
+  private _textDirection: AcGeVector3d
+  /** The id of the block table record used as block content */
+  private _blockContentId: AcDbObjectId
+  /** The position of block content */
+  private _blockPosition: AcGePoint3d
+  /** The scale factors of block content */
+  private _blockScale: AcGePoint3d
+  /** The rotation of block content in radians */
+  private _blockRotation: number
+  /** The normal vector */
+  private _normal: AcGeVector3d
+  /** Leader clusters */
+  private _leaderClusters: AcDbMLeaderCluster[]
+
+  /**
+   * Creates a new multileader entity with settings of the default 'Standard'
+   * multileader style.
+   */
+  constructor() {
+    super()
+    this._mleaderStyleId = ''
+    this._contentType = AcDbMLeaderContentType.MTextContent
+    this._leaderLineType = AcDbMLeaderLineType.StraightLeader
+    this._enableLanding = true
+    this._enableDogleg = true
+    this._arrowSymbolId = ''
+    this._arrowSize = 4
+    this._landingGap = 2
+    this._contents = ''
+    this._textLocation = new AcGePoint3d()
+    this._textHeight = 4
+    this._textStyleId = ''
+    this._textRotation = 0
+    this._textWidth = 0
+    this._textAttachmentPoint = AcGiMTextAttachmentPoint.TopLeft
+    this._textDirection = new AcGeVector3d(1, 0, 0)
+    this._blockContentId = ''
+    this._blockPosition = new AcGePoint3d()
+    this._blockScale = new AcGePoint3d(1, 1, 1)
+    this._blockRotation = 0
+    this._normal = new AcGeVector3d(0, 0, 1)
+    this._leaderClusters = []
+  }
+
+  /**
+   * Gets the id of the multileader style of this multileader.
+   */
+  get mleaderStyleId() {
+    return this._mleaderStyleId
+  }
+  set mleaderStyleId(value: AcDbObjectId) {
+    this.assertWriteEnabled()
+    this._mleaderStyleId = value
+  }
+
+  /**
+   * Gets the multileader style of this multileader. Returns undefined if the
+   * multileader style can't be found in the database.
+   */
+  get mleaderStyle() {
+    return this.database.dictionaries.mleaderStyles.getIdAt(
+      this._mleaderStyleId
+    )
+  }
+
+  /**
+   * Gets the content type of this multileader.
+   */
+  get contentType() {
+    return this._contentType
+  }
+  set contentType(value: AcDbMLeaderContentType) {
+    this.assertWriteEnabled()
+    this._contentType = value
+  }
+
+  /**
+   * Gets the type of leader lines of this multileader.
+   */
+  get leaderLineType() {
+    return this._leaderLineType
+  }
+  set leaderLineType(value: AcDbMLeaderLineType) {
+    this.assertWriteEnabled()
+    this._leaderLineType = value
+  }
+
+  /**
+   * Gets the flag whether leader lines are connected to the content by one
+   * landing.
+   */
+  get enableLanding() {
+    return this._enableLanding
+  }
+  set enableLanding(value: boolean) {
+    this.assertWriteEnabled()
+    this._enableLanding = value
+  }
+
+  /**
+   * Gets the flag whether doglegs are drawn at landing points.
+   */
+  get enableDogleg() {
+    return this._enableDogleg
+  }
+  set enableDogleg(value: boolean) {
+    this.assertWriteEnabled()
+    this._enableDogleg = value
+  }
+
+  /**
+   * Gets the id of the block table record used as arrowhead. Empty string
+   * means the default closed filled arrowhead.
+   */
+  get arrowSymbolId() {
+    return this._arrowSymbolId
+  }
+  set arrowSymbolId(value: AcDbObjectId) {
+    this.assertWriteEnabled()
+    this._arrowSymbolId = value
+  }
+
+  /**
+   * Gets the size of arrowheads.
+   */
+  get arrowSize() {
+    return this._arrowSize
+  }
+  set arrowSize(value: number) {
+    this.assertWriteEnabled()
+    this._arrowSize = value
+  }
+
+  /**
+   * Gets the gap between the landing and the content.
+   */
+  get landingGap() {
+    return this._landingGap
+  }
+  set landingGap(value: number) {
+    this.assertWriteEnabled()
+    this._landingGap = value
+  }
+
+  /**
+   * Gets the contents of multiline text content.
+   */
+  get contents() {
+    return this._contents
+  }
+  set contents(value: string) {
+    this.assertWriteEnabled()
+    this._contents = value
+  }
+
+  /**
+   * Gets the location of multiline text content.
+   */
+  get textLocation() {
+    return this._textLocation
+  }
+  set textLocation(value: AcGePoint3dLike) {
+    this.assertWriteEnabled()
+    this._textLocation.copy(value)
+  }
+
+  /**
+   * Gets the height of multiline text content.
+   */
+  get textHeight() {
+    return this._textHeight
+  }
+  set textHeight(value: number) {
+    this.assertWriteEnabled()
+    this._textHeight = value
+  }
+
+  /**
+   * Gets the id of the text style of multiline text content.
+   */
+  get textStyleId() {
+    return this._textStyleId
+  }
+  set textStyleId(value: AcDbObjectId) {
+    this.assertWriteEnabled()
+    this._textStyleId = value
+  }
+
+  /**
+   * Gets the rotation of multiline text content in radians.
+   */
+  get textRotation() {
+    return this._textRotation
+  }
+  set textRotation(value: number) {
+    this.assertWriteEnabled()
+    this._textRotation = value
+  }
+
+  /**
+   * Gets the width of multiline text content. Zero means no wrapping.
+   */
+  get textWidth() {
+    return this._textWidth
+  }
+  set textWidth(value: number) {
+    this.assertWriteEnabled()
+    this._textWidth = value
+  }
+
+  /**
+   * Gets the attachment point of multiline text content.
+   */
+  get textAttachmentPoint() {
+    return this._textAttachmentPoint
+  }
+  set textAttachmentPoint(value: AcGiMTextAttachmentPoint) {
+    this.assertWriteEnabled()
+    this._textAttachmentPoint = value
+  }
+
+  /**
+   * Gets the direction of multiline text content.
+   */
+  get textDirection() {
+    return this._textDirection
+  }
+  set textDirection(value: AcGeVector3dLike) {
+    this.assertWriteEnabled()
+    this._textDirection.copy(value)
+  }
+
+  /**
+   * Gets the id of the block table record used as block content.
+   */
+  get blockContentId() {
+    return this._blockContentId
+  }
+  set blockContentId(value: AcDbObjectId) {
+    this.assertWriteEnabled()
+    this._blockContentId = value
+  }
+
+  /**
+   * Gets the position of block content.
+   */
+  get blockPosition() {
+    return this._blockPosition
+  }
+  set blockPosition(value: AcGePoint3dLike) {
+    this.assertWriteEnabled()
+    this._blockPosition.copy(value)
+  }
+
+  /**
+   * Gets the scale factors of block content.
+   */
+  get blockScale() {
+    return this._blockScale
+  }
+  set blockScale(value: AcGePoint3dLike) {
+    this.assertWriteEnabled()
+    this._blockScale.copy(value)
+  }
+
+  /**
+   * Gets the rotation of block content in radians.
+   */
+  get blockRotation() {
+    return this._blockRotation
+  }
+  set blockRotation(value: number) {
+    this.assertWriteEnabled()
+    this._blockRotation = value
+  }
+
+  /**
+   * Gets the normal vector of this multileader.
+   */
+  get normal() {
+    return this._normal
+  }
+  set normal(value: AcGeVector3dLike) {
+    this.assertWriteEnabled()
+    this._normal.copy(value).normalize()
+  }
+
+  /**
+   * Gets leader clusters of this multileader.
+   */
+  get leaderClusters(): readonly AcDbMLeaderCluster[] {
+    return this._leaderClusters
+  }
+
+  /**
+   * Adds one leader cluster to this multileader.
+   *
+   * @param landingPoint - The point where leader lines are connected to
+   * @param doglegVector - The direction of the dogleg
+   * @param leaderLines - Vertices of leader lines. The first vertex of each
+   * leader line is where the arrowhead is drawn.
+   * @param doglegLength - The length of the dogleg
+   * @returns The added leader cluster
+   */
+  addLeaderCluster(
+    landingPoint: AcGePoint3dLike,
+    doglegVector: AcGeVector3dLike,
+    leaderLines: AcGePoint3dLike[][],
+    doglegLength: number = 8
+  ) {
+    this.assertWriteEnabled()
+    const cluster: AcDbMLeaderCluster = {
+      landingPoint: new AcGePoint3d(landingPoint),
+      doglegVector: new AcGeVector3d(doglegVector).normalize(),
+      doglegLength,
+      leaderLines: leaderLines.map(vertices => ({
+        vertices: vertices.map(vertex => new AcGePoint3d(vertex))
+      }))
+    }
+    this._leaderClusters.push(cluster)
+    return cluster
+  }
+
+  /**
+   * @inheritdoc
+   */
+  get geometricExtents() {
+    const points: AcGePoint3d[] = []
+    this._leaderClusters.forEach(cluster => {
+      points.push(cluster.landingPoint, this.getDoglegEnd(cluster))
+      cluster.leaderLines.forEach(line => points.push(...line.vertices))
+    })
+    if (this.hasTextContent) {
+      points.push(this._textLocation)
+    } else if (this.hasBlockContent) {
+      points.push(this._blockPosition)
+    }
+    return new AcGeBox3d().setFromPoints(points)
+  }
+
+  /**
+   * Gets the object snap points for this multileader.
+   *
+   * Vertices of leader lines and doglegs are used as end points. The location
+   * of the content is used as the insertion point.
+   *
+   * @param osnapMode - The object snap mode
+   * @param pickPoint - The point where the user picked
+   * @param lastPoint - The last point picked by the user
+   * @param snapPoints - Array to populate with snap points
+   */
+  subGetOsnapPoints(
+    osnapMode: AcDbOsnapMode,
+    pickPoint: AcGePoint3dLike,
+    lastPoint: AcGePoint3dLike,
+    snapPoints: AcGePoint3dLike[]
+  ) {
+    if (osnapMode === AcDbOsnapMode.Insertion) {
+      if (this.hasTextContent) {
+        snapPoints.push(this._textLocation.clone())
+      } else if (this.hasBlockContent) {
+        snapPoints.push(this._blockPosition.clone())
+      }
+      return
+    }
+
+    const polylines = [...this.getLeaderPolylines(), ...this.getDoglegs()]
+    const curves = polylines.flatMap(points =>
+      points
+        .slice(1)
+        .map((point, index) => AcDbOsnapHelper.createLine(points[index], point))
+    )
+    AcDbOsnapHelper.getOsnapPoints(
+      curves,
+      osnapMode,
+      pickPoint,
+      lastPoint,
+      snapPoints
+    )
+  }
+
+  /**
+   * Transforms this multileader by the specified matrix.
+   *
+   * @param matrix - The transformation matrix to apply
+   * @returns This multileader after transformation
+   */
+  transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    const linear = new AcGeMatrix2d().setFromMatrix4(matrix)
+    const xAxis = this._textDirection.clone().normalize().applyMatrix3(linear)
+    const scale = xAxis.length()
+
+    this._leaderClusters.forEach(cluster => {
+      cluster.landingPoint.applyMatrix4(matrix)
+      cluster.doglegVector.applyMatrix3(linear).normalize()
+      cluster.doglegLength *= scale
+      cluster.leaderLines.forEach(line =>
+        line.vertices.forEach(vertex => vertex.applyMatrix4(matrix))
+      )
+    })
+    this._textLocation.applyMatrix4(matrix)
+    this._blockPosition.applyMatrix4(matrix)
+    this._normal.applyNormalMatrix(new AcGeMatrix2d().getNormalMatrix(matrix))
+    if (scale > 0) {
+      const rotation = Math.atan2(xAxis.y, xAxis.x)
+      const delta =
+        rotation - Math.atan2(this._textDirection.y, this._textDirection.x)
+      this._textRotation += delta
+      this._blockRotation += delta
+      this._textDirection.copy(xAxis).normalize()
+      this._textHeight *= scale
+      this._textWidth *= scale
+      this._arrowSize *= scale
+      this._landingGap *= scale
+      this._blockScale.multiplyScalar(scale)
+    }
+    return this
+  }
+
+  /**
+   * Creates one deep copy of this multileader. Leader clusters are copied
+   * too.
+   *
+   * @returns The copy of this multileader
+   */
+  clone() {
+    const copy = super.clone()
+    copy._leaderClusters = this._leaderClusters.map(cluster => ({
+      landingPoint: cluster.landingPoint.clone(),
+      doglegVector: cluster.doglegVector.clone(),
+      doglegLength: cluster.doglegLength,
+      leaderLines: cluster.leaderLines.map(line => ({
+        vertices: line.vertices.map(vertex => vertex.clone())
+      }))
+    }))
+    return copy
+  }
+
+  /**
+   * Draws this multileader using the specified renderer.
+   *
+   * Leader lines, arrowheads, doglegs and the content are drawn and grouped
+   * into one rendered entity.
+   *
+   * @param renderer - The renderer to use for drawing
+   * @returns The rendered multileader
+   */
+  draw(renderer: AcGiRenderer) {
+    const results: AcGiEntity[] = []
+    const db = this.database
+    const arrowType = AcDbArrowHelper.getArrowType(db, this._arrowSymbolId)
+
+    this.attachToEntityTraits(renderer.subEntityTraits)
+    if (this._leaderLineType !== AcDbMLeaderLineType.InvisibleLeader) {
+      this.getLeaderPolylines().forEach(points => {
+        results.push(renderer.lines(points))
+
+        const direction = new AcGeVector3d(points[0]).sub(points[1])
+        const arrow = AcDbArrowHelper.draw(
+          renderer,
+          db,
+          arrowType,
+          points[0],
+          direction,
+          this._arrowSize,
+          this.rgbColor
+        )
+        if (arrow) results.push(arrow)
+        this.attachToEntityTraits(renderer.subEntityTraits)
+      })
+      this.getDoglegs().forEach(points => {
+        results.push(renderer.lines(points))
+      })
+    }
+
+    if (this.hasTextContent) {
+      results.push(this.drawText(renderer))
+    } else if (this.hasBlockContent) {
+      const block = this.drawBlock(renderer)
+      if (block) results.push(block)
+    }
+
+    const group = renderer.group(results)
+    this.attachEntityInfo(group)
+    return group
+  }
+
+  private get hasTextContent() {
+    return (
+      this._contentType === AcDbMLeaderContentType.MTextContent &&
+      this._contents.length > 0
+    )
+  }
+
+  private get hasBlockContent() {
+    return (
+      this._contentType === AcDbMLeaderContentType.BlockContent &&
+      !!this._blockContentId
+    )
+  }
+
+  private getDoglegEnd(cluster: AcDbMLeaderCluster) {
+    return new AcGePoint3d(cluster.landingPoint).add(
+      cluster.doglegVector.clone().multiplyScalar(cluster.doglegLength)
+    )
+  }
+
+  /**
+   * Gets points of leader lines to draw. Each leader line ends at the landing
+   * point of its cluster. Spline leader lines are tessellated.
+   */
+  private getLeaderPolylines() {
+    const polylines: AcGePoint3d[][] = []
+    this._leaderClusters.forEach(cluster => {
+      cluster.leaderLines.forEach(line => {
+        if (line.vertices.length === 0) return
+        const vertices = [...line.vertices, cluster.landingPoint]
+        if (
+          this._leaderLineType === AcDbMLeaderLineType.SplineLeader &&
+          vertices.length > 2
+        ) {
+          const spline = new AcGeSpline3d(vertices, 'Uniform')
+          polylines.push(spline.getPoints(100))
+        } else {
+          polylines.push(vertices)
+        }
+      })
+    })
+    return polylines.filter(points => points.length > 1)
+  }
+
+  /**
+   * Gets start and end points of doglegs to draw.
+   */
+  private getDoglegs() {
+    if (!this._enableLanding || !this._enableDogleg) return []
+    return this._leaderClusters
+      .filter(cluster => cluster.doglegLength > 0)
+      .map(cluster => [cluster.landingPoint, this.getDoglegEnd(cluster)])
+  }
+
+  private drawText(renderer: AcGiRenderer) {
+    const mtextData: AcGiMTextData = {
+      text: this._contents,
+      height: this._textHeight,
+      width: this._textWidth,
+      position: this._textLocation,
+      rotation: this._textRotation,
+      directionVector: this._textDirection,
+      attachmentPoint: this._textAttachmentPoint,
+      drawingDirection: AcGiMTextFlowDirection.LEFT_TO_RIGHT
+    }
+    const textStyle: AcGiTextStyle = {
+      ...this.getTextStyle()
+    }
+    return renderer.mtext(mtextData, textStyle)
+  }
+
+  private drawBlock(renderer: AcGiRenderer) {
+    const blockTableRecord = this.database.tables.blockTable.getIdAt(
+      this._blockContentId
+    )
+    if (blockTableRecord == null) return undefined
+    const matrix = new AcGeMatrix3d().compose(
+      this._blockPosition,
+      new AcGeQuaternion().setFromAxisAngle(
+        AcGeVector3d.Z_AXIS,
+        this._blockRotation
+      ),
+      this._blockScale
+    )
+    return AcDbRenderingCache.instance.draw(
+      renderer,
+      blockTableRecord,
+      this.rgbColor,
+      true,
+      matrix,
+      this._normal
+    )
+  }
+
+  private getTextStyle(): AcGiTextStyle {
+    const textStyleTable = this.database.tables.textStyleTable
+    let style = textStyleTable.getIdAt(this._textStyleId)
+    if (!style) {
+      style = (textStyleTable.getAt('STANDARD') ||
+        textStyleTable.getAt('Standard'))!
+    }
+    return style.textStyle
+  }
+}
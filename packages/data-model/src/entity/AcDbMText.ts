@@ -1,5 +1,7 @@
 import {
   AcGeBox3d,
+  AcGeMatrix2d,
+  AcGeMatrix3d,
   AcGePoint3d,
   AcGePoint3dLike,
   AcGeVector3d
@@ -11,6 +13,7 @@ import {
   AcGiMTextFlowDirection
 } from '@mlightcad/graphic-interface'
 
+import { AcDbOsnapMode } from '../misc'
 import { AcDbEntity } from './AcDbEntity'
 import { AcDbEntityProperties } from './AcDbEntityProperties'
 
@@ -135,6 +138,7 @@ export class AcDbMText extends AcDbEntity {
    * ```
    */
   set contents(value: string) {
+    this.assertWriteEnabled()
     this._contents = value
   }
 
@@ -164,6 +168,7 @@ export class AcDbMText extends AcDbEntity {
    * ```
    */
   set height(value: number) {
+    this.assertWriteEnabled()
     this._height = value
   }
 
@@ -197,6 +202,7 @@ export class AcDbMText extends AcDbEntity {
    * ```
    */
   set width(value: number) {
+    this.assertWriteEnabled()
     this._width = value
   }
 
@@ -218,6 +224,7 @@ export class AcDbMText extends AcDbEntity {
     return this._rotation
   }
   set rotation(value: number) {
+    this.assertWriteEnabled()
     this._rotation = value
   }
 
@@ -228,6 +235,7 @@ export class AcDbMText extends AcDbEntity {
     return this._lineSpacingFactor
   }
   set lineSpacingFactor(value: number) {
+    this.assertWriteEnabled()
     this._lineSpacingFactor = value
   }
 
@@ -238,6 +246,7 @@ export class AcDbMText extends AcDbEntity {
     return this._lineSpacingStyle
   }
   set lineSpacingStyle(value: number) {
+    this.assertWriteEnabled()
     this._lineSpacingStyle = value
   }
 
@@ -250,6 +259,7 @@ export class AcDbMText extends AcDbEntity {
     return this._backgroundFill
   }
   set backgroundFill(value: boolean) {
+    this.assertWriteEnabled()
     this._backgroundFill = value
     this._backgroundFillColor = 0xc8c8c8
   }
@@ -261,6 +271,7 @@ export class AcDbMText extends AcDbEntity {
     return this._backgroundFillColor
   }
   set backgroundFillColor(value: number) {
+    this.assertWriteEnabled()
     this._backgroundFillColor = value
   }
 
@@ -271,6 +282,7 @@ export class AcDbMText extends AcDbEntity {
     return this._backgroundFillTransparency
   }
   set backgroundFillTransparency(value: number) {
+    this.assertWriteEnabled()
     this._backgroundFillTransparency = value
   }
 
@@ -281,6 +293,7 @@ export class AcDbMText extends AcDbEntity {
     return this._backgroundScaleFactor
   }
   set backgroundScaleFactor(value: number) {
+    this.assertWriteEnabled()
     this._backgroundScaleFactor = value
   }
 
@@ -291,6 +304,7 @@ export class AcDbMText extends AcDbEntity {
     return this._styleName
   }
   set styleName(value: string) {
+    this.assertWriteEnabled()
     this._styleName = value
   }
 
@@ -301,6 +315,7 @@ export class AcDbMText extends AcDbEntity {
     return this._location
   }
   set location(value: AcGePoint3dLike) {
+    this.assertWriteEnabled()
     this._location.copy(value)
   }
 
@@ -314,6 +329,7 @@ export class AcDbMText extends AcDbEntity {
     return this._attachmentPoint
   }
   set attachmentPoint(value: AcGiMTextAttachmentPoint) {
+    this.assertWriteEnabled()
     this._attachmentPoint = value
   }
 
@@ -325,6 +341,7 @@ export class AcDbMText extends AcDbEntity {
     return this._direction
   }
   set direction(value: AcGeVector3d) {
+    this.assertWriteEnabled()
     this._direction.copy(value)
   }
 
@@ -332,6 +349,7 @@ export class AcDbMText extends AcDbEntity {
     return this._drawingDirection
   }
   set drawingDirection(value: AcGiMTextFlowDirection) {
+    this.assertWriteEnabled()
     this._drawingDirection = value
   }
 
@@ -554,6 +572,78 @@ export class AcDbMText extends AcDbEntity {
     return style.textStyle
   }
 
+  /**
+   * Gets the object snap points for this mtext.
+   *
+   * Only snap mode Insertion is supported and the snap point is the insertion
+   * point of this mtext.
+   *
+   * @param osnapMode - The object snap mode
+   * @param _pickPoint - The point where the user picked (unused)
+   * @param _lastPoint - The last point picked by the user (unused)
+   * @param snapPoints - Array to populate with snap points
+   *
+   * @example
+   * ```typescript
+   * const snapPoints: AcGePoint3d[] = [];
+   * mtext.subGetOsnapPoints(AcDbOsnapMode.Insertion, pickPoint, lastPoint, snapPoints);
+   * // snapPoints now contains the insertion point of the mtext
+   * ```
+   */
+  subGetOsnapPoints(
+    osnapMode: AcDbOsnapMode,
+    _pickPoint: AcGePoint3dLike,
+    _lastPoint: AcGePoint3dLike,
+    snapPoints: AcGePoint3dLike[]
+  ) {
+    if (osnapMode === AcDbOsnapMode.Insertion) {
+      snapPoints.push(this.location)
+    }
+  }
+
+  /**
+   * Transforms this mtext by the specified matrix.
+   *
+   * The location, direction, rotation, height and width of the mtext are
+   * updated according to the transformation matrix. Text is kept readable when
+   * being mirrored. That is, it isn't drawn from right to left after mirroring.
+   *
+   * @param matrix - The transformation matrix to apply
+   * @returns This mtext after transformation
+   *
+   * @example
+   * ```typescript
+   * const translationMatrix = AcGeMatrix3d.translation(10, 0, 0);
+   * mtext.transformBy(translationMatrix);
+   * // MText is now translated 10 units in the X direction
+   * ```
+   */
+  transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    const linear = new AcGeMatrix2d().setFromMatrix4(matrix)
+    const direction = this._direction.clone().normalize()
+    const xAxis = direction.clone().applyMatrix3(linear)
+    const yAxis = new AcGeVector3d(-direction.y, direction.x, 0).applyMatrix3(
+      linear
+    )
+    const xLength = xAxis.length()
+    const yLength = yAxis.length()
+
+    this._location.applyMatrix4(matrix)
+    if (xLength > 0 && yLength > 0) {
+      // Keep text readable if it is mirrored
+      if (xAxis.x * yAxis.y - xAxis.y * yAxis.x < 0 && xAxis.x < 0) {
+        xAxis.negate()
+      }
+      this._rotation +=
+        Math.atan2(xAxis.y, xAxis.x) - Math.atan2(direction.y, direction.x)
+      this._direction.copy(xAxis).normalize()
+      this._height *= yLength
+      this._width *= xLength
+    }
+    return this
+  }
+
   /**
    * Draws this entity using the specified renderer.
    *
@@ -0,0 +1,660 @@
+import { AcCmColor } from '@mlightcad/common'
+import {
+  AcGeArea2d,
+  AcGeBox3d,
+  AcGeCircArc3d,
+  AcGeMatrix2d,
+  AcGeMatrix3d,
+  AcGePoint3d,
+  AcGePoint3dLike,
+  AcGePolyline2d,
+  AcGeVector3d,
+  AcGeVector3dLike
+} from '@mlightcad/geometry-engine'
+import { AcGiEntity, AcGiRenderer } from '@mlightcad/graphic-interface'
+
+import { AcDbObjectId } from '../base'
+import { AcDbOsnapHelper, AcDbOsnapMode } from '../misc'
+import { AcDbMlineStyle } from '../object/AcDbMlineStyle'
+import { AcDbEntity } from './AcDbEntity'
+
+/**
+ * Defines the justification of multilines, that is, the position of the
+ * vertices relative to elements of the multiline.
+ */
+export enum AcDbMlineJustification {
+  /** Vertices are on the element with the maximum offset */
+  Top = 0,
+  /** Vertices are on the multiline origin */
+  Zero = 1,
+  /** Vertices are on the element with the minimum offset */
+  Bottom = 2
+}
+
+/**
+ * Defines flags of multilines. Flags can be combined.
+ */
+export enum AcDbMlineFlags {
+  /** No flag is set */
+  None = 0,
+  /** The multiline has at least one vertex */
+  HasVertices = 1,
+  /** The multiline is closed */
+  Closed = 2,
+  /** Caps at the start aren't drawn */
+  SuppressStartCaps = 4,
+  /** Caps at the end aren't drawn */
+  SuppressEndCaps = 8
+}
+
+/**
+ * Represents one vertex of one multiline.
+ */
+export interface AcDbMlineVertex {
+  /** The position of this vertex */
+  position: AcGePoint3d
+  /** The unit direction of the segment starting from this vertex */
+  direction: AcGeVector3d
+  /** The unit miter direction at this vertex */
+  miter: AcGeVector3d
+  /**
+   * Parameters of each element at this vertex. The first parameter is the
+   * distance from this vertex along the miter direction to the element. The
+   * remaining parameters are distances along the segment from that point to
+   * starts and ends of dashes of the element. Empty if parameters are
+   * computed from the multiline style.
+   */
+  elementParams: number[][]
+}
+
+/**
+ * Offsets of the default 'Standard' multiline style
+ */
+const STANDARD_OFFSETS = [0.5, -0.5]
+
+/**
+ * Represents a multiline entity in AutoCAD.
+ *
+ * One multiline consists of multiple parallel lines (elements) following
+ * the same vertices. Offsets, colors and line types of elements, caps and
+ * fill are defined by the multiline style referenced by the multiline.
+ *
+ * @example
+ * ```typescript
+ * const mline = new AcDbMline();
+ * mline.styleName = 'WALL';
+ * mline.scale = 1;
+ * mline.justification = AcDbMlineJustification.Zero;
+ * mline.appendSeg(new AcGePoint3d(0, 0, 0));
+ * mline.appendSeg(new AcGePoint3d(5000, 0, 0));
+ * mline.appendSeg(new AcGePoint3d(5000, 3000, 0));
+ * ```
+ */
+export class AcDbMline extends AcDbEntity {
+  /** The entity type name */
+  static override typeName: string = 'Mline'
+
+  /** The name of the multiline style */
+  private _styleName: string
+  /** The id of the multiline style */
+  private _mlineStyleId: AcDbObjectId
+  /** The scale factor applied to offsets of elements */
+  private _scale: number
+  /** The justification */
+  private _justification: AcDbMlineJustification
+  /** The multiline flags */
+  private _flags: number
+  /** The normal vector */
+  private _normal: AcGeVector3d
+  /** Vertices of this multiline */
+  private _vertices: AcDbMlineVertex[]
+
+  /**
+   * Creates a new multiline entity.
+   */
+  constructor() {
+    super()
+    this._styleName = 'STANDARD'
+    this._mlineStyleId = ''
+    this._scale = 1
+    this._justification = AcDbMlineJustification.Top
+    this._flags = AcDbMlineFlags.None
+    this._normal = new AcGeVector3d(0, 0, 1)
+    this._vertices = []
+  }
+
+  /**
+   * Gets the name of the multiline style of this multiline.
+   */
+  get styleName() {
+    return this._styleName
+  }
+  set styleName(value: string) {
+    this.assertWriteEnabled()
+    this._styleName = value
+  }
+
+  /**
+   * Gets the id of the multiline style of this multiline.
+   */
+  get mlineStyleId() {
+    return this._mlineStyleId
+  }
+  set mlineStyleId(value: AcDbObjectId) {
+    this.assertWriteEnabled()
+    this._mlineStyleId = value
+  }
+
+  /**
+   * Gets the multiline style of this multiline. The style is searched by id
+   * first and then by name. Returns undefined if the multiline style can't be
+   * found in the database.
+   */
+  get mlineStyle(): AcDbMlineStyle | undefined {
+    const styles = this.database.dictionaries.mlineStyles
+    return (
+      (this._mlineStyleId && styles.getIdAt(this._mlineStyleId)) ||
+      styles.getAt(this._styleName) ||
+      styles.getAt(this._styleName.toUpperCase())
+    )
+  }
+
+  /**
+   * Gets the scale factor applied to offsets of elements.
+   */
+  get scale() {
+    return this._scale
+  }
+  set scale(value: number) {
+    this.assertWriteEnabled()
+    this._scale = value
+  }
+
+  /**
+   * Gets the justification of this multiline.
+   */
+  get justification() {
+    return this._justification
+  }
+  set justification(value: AcDbMlineJustification) {
+    this.assertWriteEnabled()
+    this._justification = value
+  }
+
+  /**
+   * Gets the multiline flags. Refer to {@link AcDbMlineFlags} for the meaning
+   * of each bit.
+   */
+  get flags() {
+    return this._flags
+  }
+  set flags(value: number) {
+    this.assertWriteEnabled()
+    this._flags = value
+  }
+
+  /**
+   * Returns true if this multiline is closed.
+   */
+  get closed() {
+    return (this._flags & AcDbMlineFlags.Closed) !== 0
+  }
+  set closed(value: boolean) {
+    this.assertWriteEnabled()
+    this.setFlag(AcDbMlineFlags.Closed, value)
+    this.updateDirections()
+  }
+
+  /**
+   * Returns true if caps at the start aren't drawn.
+   */
+  get suppressStartCaps() {
+    return (this._flags & AcDbMlineFlags.SuppressStartCaps) !== 0
+  }
+  set suppressStartCaps(value: boolean) {
+    this.assertWriteEnabled()
+    this.setFlag(AcDbMlineFlags.SuppressStartCaps, value)
+  }
+
+  /**
+   * Returns true if caps at the end aren't drawn.
+   */
+  get suppressEndCaps() {
+    return (this._flags & AcDbMlineFlags.SuppressEndCaps) !== 0
+  }
+  set suppressEndCaps(value: boolean) {
+    this.assertWriteEnabled()
+    this.setFlag(AcDbMlineFlags.SuppressEndCaps, value)
+  }
+
+  /**
+   * Gets the normal vector of this multiline.
+   */
+  get normal() {
+    return this._normal
+  }
+  set normal(value: AcGeVector3dLike) {
+    this.assertWriteEnabled()
+    this._normal.copy(value).normalize()
+  }
+
+  /**
+   * Gets the number of vertices of this multiline.
+   */
+  get numVertices() {
+    return this._vertices.length
+  }
+
+  /**
+   * Gets vertices of this multiline.
+   */
+  get vertices(): readonly AcDbMlineVertex[] {
+    return this._vertices
+  }
+
+  /**
+   * Gets the position of the vertex at the specified index.
+   *
+   * @param index - The index (0 based) of the vertex
+   * @returns The position of the vertex
+   */
+  vertexAt(index: number) {
+    if (index < 0 || index >= this._vertices.length) {
+      throw new Error('The vertex index is out of range!')
+    }
+    return this._vertices[index].position
+  }
+
+  /**
+   * Appends one vertex to the end of this multiline. Directions and miters of
+   * all vertices are recomputed and parameters of elements are computed from
+   * the multiline style when drawing.
+   *
+   * @param point - The position of the new vertex
+   */
+  appendSeg(point: AcGePoint3dLike) {
+    this.assertWriteEnabled()
+    this._vertices.push({
+      position: new AcGePoint3d(point),
+      direction: new AcGeVector3d(1, 0, 0),
+      miter: new AcGeVector3d(0, 1, 0),
+      elementParams: []
+    })
+    this._flags |= AcDbMlineFlags.HasVertices
+    this.updateDirections()
+  }
+
+  /**
+   * Appends one vertex with its directions and parameters of elements. It is
+   * used to restore multilines stored in drawing files.
+   *
+   * @param vertex - The vertex to append
+   */
+  appendVertex(vertex: AcDbMlineVertex) {
+    this.assertWriteEnabled()
+    this._vertices.push({
+      position: new AcGePoint3d(vertex.position),
+      direction: new AcGeVector3d(vertex.direction).normalize(),
+      miter: new AcGeVector3d(vertex.miter).normalize(),
+      elementParams: vertex.elementParams.map(params => [...params])
+    })
+    this._flags |= AcDbMlineFlags.HasVertices
+  }
+
+  /**
+   * @inheritdoc
+   */
+  get geometricExtents() {
+    const points: AcGePoint3d[] = []
+    this.getElementLines().forEach(line => points.push(...line))
+    this._vertices.forEach(vertex => points.push(vertex.position))
+    return new AcGeBox3d().setFromPoints(points)
+  }
+
+  /**
+   * Gets the object snap points for this multiline.
+   *
+   * Snap points are computed from line segments of all elements.
+   *
+   * @param osnapMode - The object snap mode
+   * @param pickPoint - The point where the user picked
+   * @param lastPoint - The last point picked by the user
+   * @param snapPoints - Array to populate with snap points
+   */
+  subGetOsnapPoints(
+    osnapMode: AcDbOsnapMode,
+    pickPoint: AcGePoint3dLike,
+    lastPoint: AcGePoint3dLike,
+    snapPoints: AcGePoint3dLike[]
+  ) {
+    const curves = this.getElementLines().flatMap(points =>
+      points
+        .slice(1)
+        .map((point, index) => AcDbOsnapHelper.createLine(points[index], point))
+    )
+    AcDbOsnapHelper.getOsnapPoints(
+      curves,
+      osnapMode,
+      pickPoint,
+      lastPoint,
+      snapPoints
+    )
+  }
+
+  /**
+   * Transforms this multiline by the specified matrix.
+   *
+   * @param matrix - The transformation matrix to apply
+   * @returns This multiline after transformation
+   */
+  transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    const linear = new AcGeMatrix2d().setFromMatrix4(matrix)
+    const xAxis = new AcGeVector3d(1, 0, 0).applyMatrix3(linear)
+    const yAxis = new AcGeVector3d(0, 1, 0).applyMatrix3(linear)
+    const factor = Math.sqrt(Math.abs(xAxis.x * yAxis.y - xAxis.y * yAxis.x))
+
+    this._vertices.forEach(vertex => {
+      vertex.position.applyMatrix4(matrix)
+      vertex.direction.applyMatrix3(linear).normalize()
+      vertex.miter.applyMatrix3(linear).normalize()
+      vertex.elementParams.forEach(params => {
+        for (let i = 0; i < params.length; ++i) params[i] *= factor
+      })
+    })
+    this._normal.applyNormalMatrix(new AcGeMatrix2d().getNormalMatrix(matrix))
+    this._scale *= factor
+    return this
+  }
+
+  /**
+   * Creates one deep copy of this multiline. Vertices are copied too.
+   *
+   * @returns The copy of this multiline
+   */
+  clone() {
+    const copy = super.clone()
+    copy._vertices = []
+    this._vertices.forEach(vertex => copy.appendVertex(vertex))
+    return copy
+  }
+
+  /**
+   * Draws this multiline using the specified renderer.
+   *
+   * Elements are drawn with colors defined in the multiline style. Fill,
+   * miters and caps are drawn according to settings of the multiline style.
+   *
+   * @param renderer - The renderer to use for drawing
+   * @returns The rendered multiline
+   */
+  draw(renderer: AcGiRenderer) {
+    const results: AcGiEntity[] = []
+    const style = this.mlineStyle
+    const lines = this.getElementLines(style)
+    const count = lines.length
+    const traits = renderer.subEntityTraits
+
+    this.attachToEntityTraits(traits)
+    if (count > 1 && style?.filled) {
+      this.setTraitsColor(renderer, style.fillColor)
+      traits.fillType = { solidFill: true, patternAngle: 0, patternLines: [] }
+      const area = new AcGeArea2d()
+      if (this.closed) {
+        area.add(new AcGePolyline2d(lines[0], true))
+        area.add(new AcGePolyline2d(lines[count - 1], true))
+      } else {
+        area.add(
+          new AcGePolyline2d(
+            [...lines[0], ...[...lines[count - 1]].reverse()],
+            true
+          )
+        )
+      }
+      results.push(renderer.area(area))
+      this.attachToEntityTraits(traits)
+    }
+
+    lines.forEach((points, index) => {
+      this.setTraitsColor(renderer, style?.elements[index]?.color)
+      this.getDashes(points, index).forEach(dash => {
+        results.push(renderer.lines(dash))
+      })
+    })
+    this.attachToEntityTraits(traits)
+
+    if (count > 1 && style) {
+      this.drawJoints(renderer, style, lines, results)
+    }
+
+    const group = renderer.group(results)
+    this.attachEntityInfo(group)
+    return group
+  }
+
+  /**
+   * Draws miters and caps of this multiline.
+   */
+  private drawJoints(
+    renderer: AcGiRenderer,
+    style: AcDbMlineStyle,
+    lines: AcGePoint3d[][],
+    results: AcGiEntity[]
+  ) {
+    const count = lines.length
+    const last = this._vertices.length - 1
+    const connect = (index: number) =>
+      results.push(renderer.lines([lines[0][index], lines[count - 1][index]]))
+
+    if (style.showMiters) {
+      const start = this.closed ? 0 : 1
+      const end = this.closed ? last : last - 1
+      for (let i = start; i <= end; ++i) connect(i)
+    }
+    if (this.closed) return
+
+    if (!this.suppressStartCaps) {
+      if (style.startSquareCap) connect(0)
+      const direction = this._vertices[0].direction.clone().negate()
+      this.drawArcs(
+        renderer,
+        lines,
+        0,
+        direction,
+        style.startRoundCap,
+        style.startInnerArcs,
+        results
+      )
+    }
+    if (!this.suppressEndCaps) {
+      if (style.endSquareCap) connect(last)
+      const direction = this._vertices[Math.max(last - 1, 0)].direction
+      this.drawArcs(
+        renderer,
+        lines,
+        last,
+        direction,
+        style.endRoundCap,
+        style.endInnerArcs,
+        results
+      )
+    }
+  }
+
+  /**
+   * Draws arcs between pairs of elements at one end of this multiline.
+   *
+   * @param direction - The direction pointing outside of this multiline
+   */
+  private drawArcs(
+    renderer: AcGiRenderer,
+    lines: AcGePoint3d[][],
+    index: number,
+    direction: AcGeVector3d,
+    outer: boolean,
+    inner: boolean,
+    results: AcGiEntity[]
+  ) {
+    const count = lines.length
+    for (let i = outer ? 0 : 1; i < count - 1 - i; ++i) {
+      if (i > 0 && !inner) break
+      const start = lines[i][index]
+      const end = lines[count - 1 - i][index]
+      const center = new AcGePoint3d(start).add(end).multiplyScalar(0.5)
+      const radius = center.distanceTo(start)
+      if (radius <= 0) continue
+      // Go from the start point through the point in the outside direction
+      const startAngle = Math.atan2(start.y - center.y, start.x - center.x)
+      const outside = Math.atan2(direction.y, direction.x)
+      const ccw =
+        Math.sin(outside - startAngle) >= 0 ? startAngle : startAngle - Math.PI
+      results.push(
+        renderer.circularArc(
+          new AcGeCircArc3d(center, radius, ccw, ccw + Math.PI, this._normal)
+        )
+      )
+    }
+  }
+
+  /**
+   * Gets points of each element at all vertices. Elements are in the same
+   * order as elements of the multiline style. For closed multilines, the
+   * first point is appended to the end of each element.
+   */
+  private getElementLines(style: AcDbMlineStyle | undefined = this.mlineStyle) {
+    const offsets = this.getElementOffsets(style)
+    const lines = offsets.map((offset, index) =>
+      this._vertices.map(vertex => {
+        const params = vertex.elementParams[index]
+        let distance: number
+        if (params && params.length > 0) {
+          distance = params[0]
+        } else {
+          const perp = new AcGeVector3d(
+            -vertex.direction.y,
+            vertex.direction.x,
+            0
+          )
+          const cos = vertex.miter.dot(perp)
+          distance = Math.abs(cos) > 1e-6 ? offset / cos : offset
+        }
+        return new AcGePoint3d(vertex.position).add(
+          vertex.miter.clone().multiplyScalar(distance)
+        )
+      })
+    )
+    if (this.closed && this._vertices.length > 2) {
+      lines.forEach(points => points.push(points[0].clone()))
+    }
+    return lines
+  }
+
+  /**
+   * Gets offsets of elements scaled by the scale factor and shifted by the
+   * justification.
+   */
+  private getElementOffsets(style: AcDbMlineStyle | undefined) {
+    const offsets =
+      style && style.elements.length > 0
+        ? style.elements.map(element => element.offset)
+        : STANDARD_OFFSETS
+    let shift = 0
+    if (this._justification === AcDbMlineJustification.Top) {
+      shift = Math.max(...offsets)
+    } else if (this._justification === AcDbMlineJustification.Bottom) {
+      shift = Math.min(...offsets)
+    }
+    return offsets.map(offset => (offset - shift) * this._scale)
+  }
+
+  /**
+   * Splits points of one element into dashes by parameters of the element.
+   */
+  private getDashes(points: AcGePoint3d[], element: number) {
+    const dashes: AcGePoint3d[][] = []
+    let current: AcGePoint3d[] = []
+    for (let i = 0; i < points.length - 1; ++i) {
+      const start = points[i]
+      const end = points[i + 1]
+      const params = this._vertices[i].elementParams[element] ?? []
+      // Each segment is one dash if there are no breaks
+      if (params.length <= 2 && !params[1]) {
+        if (current.length === 0) current.push(start)
+        current.push(end)
+        continue
+      }
+
+      if (current.length > 1) dashes.push(current)
+      current = []
+      const direction = new AcGeVector3d(end).sub(start)
+      const length = direction.length()
+      direction.normalize()
+      for (let j = 1; j < params.length; j += 2) {
+        const from = Math.min(params[j], length)
+        const to =
+          j + 1 < params.length ? Math.min(params[j + 1], length) : length
+        if (to > from) {
+          dashes.push([
+            new AcGePoint3d(start).add(direction.clone().multiplyScalar(from)),
+            new AcGePoint3d(start).add(direction.clone().multiplyScalar(to))
+          ])
+        }
+      }
+    }
+    if (current.length > 1) dashes.push(current)
+    return dashes
+  }
+
+  /**
+   * Recomputes directions and miters of all vertices from their positions.
+   */
+  private updateDirections() {
+    const count = this._vertices.length
+    if (count < 2) return
+    const closed = this.closed && count > 2
+    const segmentDirection = (index: number) => {
+      const next = closed ? (index + 1) % count : index + 1
+      return new AcGeVector3d(this._vertices[next].position)
+        .sub(this._vertices[index].position)
+        .normalize()
+    }
+    const perp = (v: AcGeVector3d) => new AcGeVector3d(-v.y, v.x, 0)
+
+    this._vertices.forEach((vertex, index) => {
+      const isLast = index === count - 1
+      const direction =
+        isLast && !closed
+          ? segmentDirection(index - 1)
+          : segmentDirection(index)
+      vertex.direction.copy(direction)
+      vertex.elementParams = []
+
+      const hasPrevious = closed || index > 0
+      const hasNext = closed || !isLast
+      if (hasPrevious && hasNext) {
+        const previous = segmentDirection((index - 1 + count) % count)
+        const miter = perp(previous).add(perp(direction))
+        if (miter.length() > 1e-9) {
+          vertex.miter.copy(miter.normalize())
+          return
+        }
+      }
+      vertex.miter.copy(perp(direction))
+    })
+  }
+
+  /**
+   * Sets the color of the specified element or fill color of the multiline
+   * style. 'ByLayer' and 'ByBlock' colors are resolved to the color of this
+   * multiline.
+   */
+  private setTraitsColor(renderer: AcGiRenderer, color?: AcCmColor) {
+    const rgb =
+      color && !color.isByLayer && !color.isByBlock ? color.RGB : undefined
+    renderer.subEntityTraits.rgbColor = rgb ?? this.rgbColor
+  }
+
+  private setFlag(flag: AcDbMlineFlags, value: boolean) {
+    this._flags = value ? this._flags | flag : this._flags & ~flag
+  }
+}
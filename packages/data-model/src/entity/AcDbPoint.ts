@@ -2,10 +2,12 @@ import {
   AcGeBox3d,
   AcGeMatrix3d,
   AcGePoint3d,
+  AcGePoint3dLike,
   AcGePointLike
 } from '@mlightcad/geometry-engine'
 import { AcGiRenderer } from '@mlightcad/graphic-interface'
 
+import { AcDbOsnapMode } from '../misc'
 import { AcDbEntity } from './AcDbEntity'
 import { AcDbEntityProperties } from './AcDbEntityProperties'
 
@@ -80,6 +82,7 @@ export class AcDbPoint extends AcDbEntity {
    * ```
    */
   set position(value: AcGePointLike) {
+    this.assertWriteEnabled()
     this._geo.set(value.x, value.y, value.z || 0)
   }
 
@@ -157,6 +160,35 @@ export class AcDbPoint extends AcDbEntity {
     }
   }
 
+  /**
+   * Gets the object snap points for this point.
+   *
+   * Only snap mode Node is supported and the snap point is the position of
+   * this point.
+   *
+   * @param osnapMode - The object snap mode
+   * @param _pickPoint - The point where the user picked (unused)
+   * @param _lastPoint - The last point picked by the user (unused)
+   * @param snapPoints - Array to populate with snap points
+   *
+   * @example
+   * ```typescript
+   * const snapPoints: AcGePoint3d[] = [];
+   * point.subGetOsnapPoints(AcDbOsnapMode.Node, pickPoint, lastPoint, snapPoints);
+   * // snapPoints now contains the position of the point
+   * ```
+   */
+  subGetOsnapPoints(
+    osnapMode: AcDbOsnapMode,
+    _pickPoint: AcGePoint3dLike,
+    _lastPoint: AcGePoint3dLike,
+    snapPoints: AcGePoint3dLike[]
+  ) {
+    if (osnapMode === AcDbOsnapMode.Node) {
+      snapPoints.push(this.position)
+    }
+  }
+
   /**
    * Transforms this point by the specified matrix.
    *
@@ -174,6 +206,7 @@ export class AcDbPoint extends AcDbEntity {
    * ```
    */
   transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
     this._geo.applyMatrix4(matrix)
     return this
   }
@@ -194,7 +227,7 @@ export class AcDbPoint extends AcDbEntity {
    */
   draw(renderer: AcGiRenderer) {
     this.attachToEntityTraits(renderer.subEntityTraits)
-   
+
     return renderer.point(this._geo, {
       displayMode: this.database.pdmode,
       displaySize: this.database.pdsize
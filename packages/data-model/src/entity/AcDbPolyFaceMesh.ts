@@ -0,0 +1,240 @@
+import {
+  AcGeBox3d,
+  AcGeMatrix3d,
+  AcGePoint3d,
+  AcGePoint3dLike
+} from '@mlightcad/geometry-engine'
+import { AcGiRenderer } from '@mlightcad/graphic-interface'
+
+import { AcDbOsnapCurve, AcDbOsnapHelper, AcDbOsnapMode } from '../misc'
+import { AcDbEntity } from './AcDbEntity'
+
+/**
+ * Represents a polyface mesh entity in AutoCAD. It is stored as one POLYLINE
+ * entity with flag 64 in DXF files.
+ *
+ * A polyface mesh consists of a list of vertices and a list of face records.
+ * Each face record references three or four vertices by their one-based
+ * indices. A negative index means the edge starting at that vertex is
+ * invisible. Faces with more than four vertices are composed of multiple
+ * face records with invisible shared edges.
+ *
+ * @example
+ * ```typescript
+ * const mesh = new AcDbPolyFaceMesh();
+ * mesh.appendVertex({ x: 0, y: 0, z: 0 });
+ * mesh.appendVertex({ x: 10, y: 0, z: 0 });
+ * mesh.appendVertex({ x: 10, y: 10, z: 0 });
+ * mesh.appendVertex({ x: 0, y: 10, z: 0 });
+ * // Two triangles with the invisible diagonal edge
+ * mesh.appendFaceRecord([1, 2, -3]);
+ * mesh.appendFaceRecord([3, 4, -1]);
+ * ```
+ */
+export class AcDbPolyFaceMesh extends AcDbEntity {
+  /** The entity type name */
+  static override typeName: string = 'PolyFaceMesh'
+
+  /** The vertices of this mesh */
+  private _vertices: AcGePoint3d[]
+  /** The one-based vertex indices of faces of this mesh */
+  private _faces: number[][]
+
+  /**
+   * Creates a new empty polyface mesh entity.
+   */
+  constructor() {
+    super()
+    this._vertices = []
+    this._faces = []
+  }
+
+  /**
+   * Gets the number of vertices in this mesh.
+   *
+   * @returns The number of vertices
+   */
+  get numVertices() {
+    return this._vertices.length
+  }
+
+  /**
+   * Gets the number of face records in this mesh.
+   *
+   * @returns The number of face records
+   */
+  get numFaces() {
+    return this._faces.length
+  }
+
+  /**
+   * Appends one vertex to this mesh.
+   *
+   * @param point - The vertex location in WCS coordinates
+   * @returns The one-based index of the appended vertex used by face records
+   */
+  appendVertex(point: AcGePoint3dLike) {
+    this.assertWriteEnabled()
+    this._vertices.push(new AcGePoint3d(point))
+    return this._vertices.length
+  }
+
+  /**
+   * Gets the vertex at the specified index.
+   *
+   * @param index - The zero-based index of the vertex
+   * @returns The vertex location in WCS coordinates
+   */
+  getVertexAt(index: number): AcGePoint3d {
+    return this._vertices[index]
+  }
+
+  /**
+   * Appends one face record to this mesh.
+   *
+   * @param indices - One-based indices of vertices of the face. A negative
+   * index makes the edge starting at that vertex invisible. Zero indices are
+   * ignored because they mean unused vertices in DXF files.
+   */
+  appendFaceRecord(indices: number[]) {
+    this.assertWriteEnabled()
+    const face = indices.filter(index => index != 0).slice(0, 4)
+    if (face.length > 0) this._faces.push(face)
+  }
+
+  /**
+   * Gets the face record at the specified index.
+   *
+   * @param index - The zero-based index of the face record
+   * @returns One-based vertex indices of the face. Negative indices mean the
+   * edges starting at those vertices are invisible.
+   */
+  getFaceRecordAt(index: number): number[] {
+    return [...this._faces[index]]
+  }
+
+  /**
+   * Checks if the specified edge of the specified face is visible.
+   *
+   * @param faceIndex - The zero-based index of the face record
+   * @param edgeIndex - The zero-based index of the edge in the face, which
+   * starts at the vertex with the same index in the face record
+   * @returns True if the edge is visible, false otherwise
+   */
+  isEdgeVisibleAt(faceIndex: number, edgeIndex: number): boolean {
+    return this._faces[faceIndex][edgeIndex] > 0
+  }
+
+  /**
+   * Makes the specified edge of the specified face invisible.
+   *
+   * @param faceIndex - The zero-based index of the face record
+   * @param edgeIndex - The zero-based index of the edge in the face
+   */
+  makeEdgeInvisibleAt(faceIndex: number, edgeIndex: number) {
+    const face = this._faces[faceIndex]
+    face[edgeIndex] = -Math.abs(face[edgeIndex])
+  }
+
+  /**
+   * Gets the geometric extents (bounding box) of this mesh.
+   *
+   * @returns The bounding box that encompasses all vertices of this mesh
+   */
+  get geometricExtents(): AcGeBox3d {
+    return new AcGeBox3d().setFromPoints(this._vertices)
+  }
+
+  /**
+   * Gets the grip points for this mesh, which are all vertices of this mesh.
+   *
+   * @returns Array of grip points
+   */
+  subGetGripPoints() {
+    return this._vertices.map(vertex => vertex.clone())
+  }
+
+  /**
+   * Gets the object snap points for this mesh.
+   *
+   * Snap points are computed for visible edges of this mesh.
+   *
+   * @param osnapMode - The object snap mode
+   * @param pickPoint - The point where the user picked
+   * @param lastPoint - The last point picked by the user
+   * @param snapPoints - Array to populate with snap points
+   */
+  subGetOsnapPoints(
+    osnapMode: AcDbOsnapMode,
+    pickPoint: AcGePoint3dLike,
+    lastPoint: AcGePoint3dLike,
+    snapPoints: AcGePoint3dLike[]
+  ) {
+    const curves: AcDbOsnapCurve[] = this.getVisibleEdges().map(([i, j]) =>
+      AcDbOsnapHelper.createLine(this._vertices[i], this._vertices[j])
+    )
+    AcDbOsnapHelper.getOsnapPoints(
+      curves,
+      osnapMode,
+      pickPoint,
+      lastPoint,
+      snapPoints
+    )
+  }
+
+  /**
+   * Transforms this mesh by the specified matrix.
+   *
+   * @param matrix - The transformation matrix to apply
+   * @returns This mesh after transformation
+   */
+  transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    this._vertices.forEach(vertex => vertex.applyMatrix4(matrix))
+    return this
+  }
+
+  /**
+   * Draws visible edges of this mesh using the specified renderer. Edges
+   * shared by adjacent faces are drawn only once.
+   *
+   * @param renderer - The renderer to use for drawing
+   * @returns The rendered mesh entity
+   */
+  draw(renderer: AcGiRenderer) {
+    const buffer = new Float32Array(this._vertices.length * 3)
+    this._vertices.forEach((vertex, index) => {
+      buffer[index * 3] = vertex.x
+      buffer[index * 3 + 1] = vertex.y
+      buffer[index * 3 + 2] = vertex.z
+    })
+    const indices = new Uint16Array(this.getVisibleEdges().flat())
+
+    this.attachToEntityTraits(renderer.subEntityTraits)
+
+    return renderer.lineSegments(buffer, 3, indices)
+  }
+
+  /**
+   * Returns zero-based vertex indices of visible edges. Edges referencing
+   * vertices which don't exist are ignored.
+   */
+  private getVisibleEdges() {
+    const edges: [number, number][] = []
+    const keys = new Set<string>()
+    const count = this._vertices.length
+    this._faces.forEach(face => {
+      face.forEach((index, i) => {
+        if (index < 0) return
+        const start = index - 1
+        const end = Math.abs(face[(i + 1) % face.length]) - 1
+        if (start == end || start >= count || end < 0 || end >= count) return
+        const key = start < end ? `${start},${end}` : `${end},${start}`
+        if (keys.has(key)) return
+        keys.add(key)
+        edges.push([start, end])
+      })
+    })
+    return edges
+  }
+}
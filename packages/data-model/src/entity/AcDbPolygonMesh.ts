@@ -0,0 +1,309 @@
+import {
+  AcGeBox3d,
+  AcGeMatrix3d,
+  AcGePoint3d,
+  AcGePoint3dLike
+} from '@mlightcad/geometry-engine'
+import { AcGiRenderer } from '@mlightcad/graphic-interface'
+
+import { AcDbOsnapCurve, AcDbOsnapHelper, AcDbOsnapMode } from '../misc'
+import { AcDbEntity } from './AcDbEntity'
+
+/**
+ * Represents the surface-fit type of one polygon mesh.
+ */
+export enum AcDbPolyMeshType {
+  /**
+   * A standard polygon mesh with no surface fitting.
+   */
+  SimpleMesh,
+  /**
+   * A polygon mesh fitted by a quadratic B-spline surface.
+   */
+  QuadSurfaceMesh,
+  /**
+   * A polygon mesh fitted by a cubic B-spline surface.
+   */
+  CubicSurfaceMesh,
+  /**
+   * A polygon mesh fitted by a Bezier surface.
+   */
+  BezierSurfaceMesh
+}
+
+/**
+ * Represents a 3D polygon mesh entity in AutoCAD. It is stored as one POLYLINE
+ * entity with flag 16 in DXF files.
+ *
+ * A polygon mesh is a grid of M x N vertices. Vertices are stored row by row,
+ * so the vertex at row m and column n is the vertex at index `m * nSize + n`.
+ * The mesh may be closed in the M direction, the N direction, or both.
+ *
+ * @example
+ * ```typescript
+ * const mesh = new AcDbPolygonMesh(AcDbPolyMeshType.SimpleMesh, 2, 2, [
+ *   { x: 0, y: 0, z: 0 },
+ *   { x: 10, y: 0, z: 0 },
+ *   { x: 0, y: 10, z: 0 },
+ *   { x: 10, y: 10, z: 5 }
+ * ]);
+ * ```
+ */
+export class AcDbPolygonMesh extends AcDbEntity {
+  /** The entity type name */
+  static override typeName: string = 'PolygonMesh'
+
+  /** The surface-fit type of this mesh */
+  private _polyMeshType: AcDbPolyMeshType
+  /** The number of vertices in the M direction */
+  private _mSize: number
+  /** The number of vertices in the N direction */
+  private _nSize: number
+  /** The vertices of this mesh stored row by row */
+  private _vertices: AcGePoint3d[]
+  /** Whether this mesh is closed in the M direction */
+  private _mClosed: boolean
+  /** Whether this mesh is closed in the N direction */
+  private _nClosed: boolean
+  /** The surface density in the M direction */
+  private _mSurfaceDensity: number
+  /** The surface density in the N direction */
+  private _nSurfaceDensity: number
+
+  /**
+   * Creates a new polygon mesh entity.
+   *
+   * @param polyMeshType - The surface-fit type of this mesh
+   * @param mSize - The number of vertices in the M direction
+   * @param nSize - The number of vertices in the N direction
+   * @param vertices - The vertices stored row by row in WCS coordinates
+   * @param mClosed - Whether this mesh is closed in the M direction
+   * @param nClosed - Whether this mesh is closed in the N direction
+   */
+  constructor(
+    polyMeshType: AcDbPolyMeshType = AcDbPolyMeshType.SimpleMesh,
+    mSize: number = 0,
+    nSize: number = 0,
+    vertices: AcGePoint3dLike[] = [],
+    mClosed: boolean = false,
+    nClosed: boolean = false
+  ) {
+    super()
+    this._polyMeshType = polyMeshType
+    this._mSize = mSize
+    this._nSize = nSize
+    this._vertices = vertices.map(vertex => new AcGePoint3d(vertex))
+    this._mClosed = mClosed
+    this._nClosed = nClosed
+    this._mSurfaceDensity = 0
+    this._nSurfaceDensity = 0
+  }
+
+  /**
+   * Gets the surface-fit type of this mesh.
+   */
+  get polyMeshType() {
+    return this._polyMeshType
+  }
+
+  /**
+   * Sets the surface-fit type of this mesh.
+   */
+  set polyMeshType(value: AcDbPolyMeshType) {
+    this.assertWriteEnabled()
+    this._polyMeshType = value
+  }
+
+  /**
+   * Gets the number of vertices in the M direction.
+   */
+  get mSize() {
+    return this._mSize
+  }
+
+  /**
+   * Gets the number of vertices in the N direction.
+   */
+  get nSize() {
+    return this._nSize
+  }
+
+  /**
+   * Gets whether this mesh is closed in the M direction, which means the last
+   * row of vertices is connected to the first row.
+   */
+  get mClosed() {
+    return this._mClosed
+  }
+
+  /**
+   * Sets whether this mesh is closed in the M direction.
+   */
+  set mClosed(value: boolean) {
+    this.assertWriteEnabled()
+    this._mClosed = value
+  }
+
+  /**
+   * Gets whether this mesh is closed in the N direction, which means the last
+   * column of vertices is connected to the first column.
+   */
+  get nClosed() {
+    return this._nClosed
+  }
+
+  /**
+   * Sets whether this mesh is closed in the N direction.
+   */
+  set nClosed(value: boolean) {
+    this.assertWriteEnabled()
+    this._nClosed = value
+  }
+
+  /**
+   * Gets the surface density in the M direction used by surface fitting.
+   */
+  get mSurfaceDensity() {
+    return this._mSurfaceDensity
+  }
+
+  /**
+   * Sets the surface density in the M direction used by surface fitting.
+   */
+  set mSurfaceDensity(value: number) {
+    this.assertWriteEnabled()
+    this._mSurfaceDensity = value
+  }
+
+  /**
+   * Gets the surface density in the N direction used by surface fitting.
+   */
+  get nSurfaceDensity() {
+    return this._nSurfaceDensity
+  }
+
+  /**
+   * Sets the surface density in the N direction used by surface fitting.
+   */
+  set nSurfaceDensity(value: number) {
+    this.assertWriteEnabled()
+    this._nSurfaceDensity = value
+  }
+
+  /**
+   * Gets the vertex at the specified row and column.
+   *
+   * @param m - The zero-based index of the row in the M direction
+   * @param n - The zero-based index of the column in the N direction
+   * @returns The vertex location in WCS coordinates
+   */
+  getVertexAt(m: number, n: number): AcGePoint3d {
+    return this._vertices[m * this._nSize + n]
+  }
+
+  /**
+   * Gets the geometric extents (bounding box) of this mesh.
+   *
+   * @returns The bounding box that encompasses all vertices of this mesh
+   */
+  get geometricExtents(): AcGeBox3d {
+    return new AcGeBox3d().setFromPoints(this._vertices)
+  }
+
+  /**
+   * Gets the grip points for this mesh, which are all vertices of this mesh.
+   *
+   * @returns Array of grip points
+   */
+  subGetGripPoints() {
+    return this._vertices.map(vertex => vertex.clone())
+  }
+
+  /**
+   * Gets the object snap points for this mesh.
+   *
+   * Snap points are computed for edges of this mesh.
+   *
+   * @param osnapMode - The object snap mode
+   * @param pickPoint - The point where the user picked
+   * @param lastPoint - The last point picked by the user
+   * @param snapPoints - Array to populate with snap points
+   */
+  subGetOsnapPoints(
+    osnapMode: AcDbOsnapMode,
+    pickPoint: AcGePoint3dLike,
+    lastPoint: AcGePoint3dLike,
+    snapPoints: AcGePoint3dLike[]
+  ) {
+    const curves: AcDbOsnapCurve[] = this.getEdges().map(([i, j]) =>
+      AcDbOsnapHelper.createLine(this._vertices[i], this._vertices[j])
+    )
+    AcDbOsnapHelper.getOsnapPoints(
+      curves,
+      osnapMode,
+      pickPoint,
+      lastPoint,
+      snapPoints
+    )
+  }
+
+  /**
+   * Transforms this mesh by the specified matrix.
+   *
+   * @param matrix - The transformation matrix to apply
+   * @returns This mesh after transformation
+   */
+  transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    this._vertices.forEach(vertex => vertex.applyMatrix4(matrix))
+    return this
+  }
+
+  /**
+   * Draws edges of this mesh using the specified renderer.
+   *
+   * @param renderer - The renderer to use for drawing
+   * @returns The rendered mesh entity
+   */
+  draw(renderer: AcGiRenderer) {
+    const buffer = new Float32Array(this._vertices.length * 3)
+    this._vertices.forEach((vertex, index) => {
+      buffer[index * 3] = vertex.x
+      buffer[index * 3 + 1] = vertex.y
+      buffer[index * 3 + 2] = vertex.z
+    })
+    const indices = new Uint16Array(this.getEdges().flat())
+
+    this.attachToEntityTraits(renderer.subEntityTraits)
+
+    return renderer.lineSegments(buffer, 3, indices)
+  }
+
+  /**
+   * Returns zero-based vertex indices of edges along rows and columns of this
+   * mesh, including edges closing this mesh.
+   */
+  private getEdges() {
+    const edges: [number, number][] = []
+    const mSize = this._mSize
+    const nSize = this._nSize
+    if (this._vertices.length < mSize * nSize) return edges
+
+    const index = (m: number, n: number) => m * nSize + n
+    for (let m = 0; m < mSize; ++m) {
+      for (let n = 0; n < nSize; ++n) {
+        if (n < nSize - 1) {
+          edges.push([index(m, n), index(m, n + 1)])
+        } else if (this._nClosed && nSize > 2) {
+          edges.push([index(m, n), index(m, 0)])
+        }
+        if (m < mSize - 1) {
+          edges.push([index(m, n), index(m + 1, n)])
+        } else if (this._mClosed && mSize > 2) {
+          edges.push([index(m, n), index(0, n)])
+        }
+      }
+    }
+    return edges
+  }
+}
@@ -1,12 +1,24 @@
 import {
+  AcGeArea2d,
   AcGeBox3d,
+  AcGeCircArc3d,
+  AcGeExtendType,
+  AcGeMatrix2d,
+  AcGeMatrix3d,
   AcGePoint2d,
   AcGePoint3d,
+  AcGePoint3dLike,
   AcGePolyline2d,
-  AcGePolyline2dVertex
+  AcGePolyline2dVertex,
+  AcGeVector3d
 } from '@mlightcad/geometry-engine'
-import { AcGiRenderer } from '@mlightcad/graphic-interface'
+import { AcGiEntity, AcGiRenderer } from '@mlightcad/graphic-interface'
 
+import {
+  AcDbOsnapHelper,
+  AcDbOsnapMode,
+  AcDbPolylineWidthHelper
+} from '../misc'
 import { AcDbCurve } from './AcDbCurve'
 
 /**
@@ -125,6 +137,7 @@ export class AcDbPolyline extends AcDbCurve {
    * ```
    */
   set elevation(value: number) {
+    this.assertWriteEnabled()
     this._elevation = value
   }
 
@@ -146,6 +159,113 @@ export class AcDbPolyline extends AcDbCurve {
     return this._geo.closed
   }
 
+  /**
+   * @inheritdoc
+   */
+  get startParam() {
+    return this._geo.startParam
+  }
+
+  /**
+   * @inheritdoc
+   */
+  get endParam() {
+    return this._geo.endParam
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getPointAtParam(param: number) {
+    const point = this._geo.getPointAtParam(param)
+    return new AcGePoint3d(point.x, point.y, this._elevation)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getParamAtPoint(point: AcGePoint3dLike) {
+    return this._geo.getParamAtPoint(point)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getDistAtParam(param: number) {
+    return this._geo.getDistAtParam(param)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getParamAtDist(dist: number) {
+    return this._geo.getParamAtDist(dist)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getFirstDeriv(param: number) {
+    const deriv = this._geo.getFirstDeriv(param)
+    return new AcGeVector3d(deriv.x, deriv.y, 0)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getClosestPointTo(point: AcGePoint3dLike) {
+    const closest = this._geo.getClosestPointTo(point)
+    return new AcGePoint3d(closest.x, closest.y, this._elevation)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getArea() {
+    return this._geo.area
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getSplitCurves(params: number[]) {
+    return this._geo.split(params).map(geo => {
+      const polyline = new AcDbPolyline()
+      geo.vertices.forEach((vertex, index) => {
+        polyline.addVertexAt(
+          index,
+          new AcGePoint2d(vertex.x, vertex.y),
+          vertex.bulge,
+          vertex.startWidth,
+          vertex.endWidth
+        )
+      })
+      polyline.elevation = this._elevation
+      polyline.setPropertiesFrom(this)
+      return polyline
+    })
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getOffsetCurves(distance: number) {
+    return this._geo.getOffsetCurves(distance).map(geo => {
+      const polyline = new AcDbPolyline()
+      geo.vertices.forEach((vertex, index) => {
+        polyline.addVertexAt(
+          index,
+          new AcGePoint2d(vertex.x, vertex.y),
+          vertex.bulge
+        )
+      })
+      polyline.closed = geo.closed
+      polyline.elevation = this._elevation
+      polyline.setPropertiesFrom(this)
+      return polyline
+    })
+  }
+
   /**
    * Sets whether this polyline is closed.
    *
@@ -157,6 +277,7 @@ export class AcDbPolyline extends AcDbCurve {
    * ```
    */
   set closed(value: boolean) {
+    this.assertWriteEnabled()
     this._geo.closed = value
   }
 
@@ -193,6 +314,7 @@ export class AcDbPolyline extends AcDbCurve {
     startWidth: number = -1,
     endWidth: number = -1
   ) {
+    this.assertWriteEnabled()
     const newStartWidth = startWidth < 0 ? undefined : startWidth
     const newEndWidth = endWidth < 0 ? undefined : endWidth
     const vertex: AcDbPolylineVertex = {
@@ -243,6 +365,41 @@ export class AcDbPolyline extends AcDbCurve {
     return new AcGePoint3d(vertex.x, vertex.y, this._elevation)
   }
 
+  /**
+   * Gets the bulge value of the segment starting at the specified vertex.
+   *
+   * @param index - The index (0-based) of the vertex
+   * @returns The bulge value (0 for a straight segment)
+   *
+   * @example
+   * ```typescript
+   * const bulge = polyline.getBulgeAt(0);
+   * ```
+   */
+  getBulgeAt(index: number): number {
+    return this._geo.vertices[index].bulge || 0
+  }
+
+  /**
+   * Gets the starting width of the segment starting at the specified vertex.
+   *
+   * @param index - The index (0-based) of the vertex
+   * @returns The starting width, or 0 if no width is set
+   */
+  getStartWidthAt(index: number): number {
+    return this._geo.vertices[index].startWidth || 0
+  }
+
+  /**
+   * Gets the ending width of the segment starting at the specified vertex.
+   *
+   * @param index - The index (0-based) of the vertex
+   * @returns The ending width, or 0 if no width is set
+   */
+  getEndWidthAt(index: number): number {
+    return this._geo.vertices[index].endWidth || 0
+  }
+
   /**
    * Gets the geometric extents (bounding box) of this polyline.
    *
@@ -255,7 +412,12 @@ export class AcDbPolyline extends AcDbCurve {
    * ```
    */
   get geometricExtents(): AcGeBox3d {
-    const box = this._geo.box
+    const box = this._geo.box.clone()
+    // Outlines of segments with width may exceed the centerline
+    AcDbPolylineWidthHelper.createOutlines(
+      this._geo.vertices,
+      this.closed
+    ).forEach(outline => outline.forEach(point => box.expandByPoint(point)))
     return new AcGeBox3d(
       { x: box.min.x, y: box.min.y, z: this._elevation },
       { x: box.max.x, y: box.max.y, z: this._elevation }
@@ -284,6 +446,113 @@ export class AcDbPolyline extends AcDbCurve {
     return gripPoints
   }
 
+  /**
+   * Gets the object snap points for this polyline.
+   *
+   * Supported snap modes are EndPoint, MidPoint, Center, Quadrant, Centroid,
+   * Nearest, Perpendicular and Tangent. End points and middle points are computed
+   * for each segment. Arc segments created by bulges are handled as circular arcs.
+   * Center points and quadrant points are returned for arc segments only. Centroid
+   * is returned only for closed polylines.
+   *
+   * @param osnapMode - The object snap mode
+   * @param pickPoint - The point where the user picked
+   * @param lastPoint - The last point picked by the user
+   * @param snapPoints - Array to populate with snap points
+   *
+   * @example
+   * ```typescript
+   * const snapPoints: AcGePoint3d[] = [];
+   * polyline.subGetOsnapPoints(AcDbOsnapMode.EndPoint, pickPoint, lastPoint, snapPoints);
+   * // snapPoints now contains all vertices of the polyline
+   * ```
+   */
+  subGetOsnapPoints(
+    osnapMode: AcDbOsnapMode,
+    pickPoint: AcGePoint3dLike,
+    lastPoint: AcGePoint3dLike,
+    snapPoints: AcGePoint3dLike[]
+  ) {
+    if (
+      osnapMode === AcDbOsnapMode.Center ||
+      osnapMode === AcDbOsnapMode.Quadrant
+    ) {
+      this._geo.getCurves3d(this._elevation).forEach(curve => {
+        if (!(curve instanceof AcGeCircArc3d)) return
+        AcDbOsnapHelper.pushUniquePoints(
+          osnapMode === AcDbOsnapMode.Center
+            ? [curve.center]
+            : AcDbOsnapHelper.getQuadrantPoints(curve),
+          snapPoints
+        )
+      })
+      return
+    }
+
+    const curves = AcDbOsnapHelper.createPolyline(
+      this._geo.vertices,
+      this.closed,
+      this._elevation
+    )
+    if (osnapMode === AcDbOsnapMode.Centroid) {
+      const centroid = this.closed && AcDbOsnapHelper.getCentroid(curves)
+      if (centroid) snapPoints.push(centroid)
+    } else {
+      AcDbOsnapHelper.getOsnapPoints(
+        curves,
+        osnapMode,
+        pickPoint,
+        lastPoint,
+        snapPoints
+      )
+    }
+  }
+
+  /**
+   * @inheritdoc
+   */
+  protected subGetIntersectCurves() {
+    return {
+      curves: this._geo.getCurves3d(this._elevation),
+      extend: AcGeExtendType.None
+    }
+  }
+
+  /**
+   * Transforms this polyline by the specified matrix.
+   *
+   * Vertices are transformed in the plane of the polyline and the elevation is
+   * set to the transformed z-coordinate of the polyline plane. Widths of segments
+   * are scaled by the scale factor of the transformation. Arc segments can't be
+   * scaled non-uniformly. One error is thrown in this case and this polyline isn't
+   * changed.
+   *
+   * @param matrix - The transformation matrix to apply
+   * @returns This polyline after transformation
+   *
+   * @example
+   * ```typescript
+   * const translationMatrix = AcGeMatrix3d.translation(10, 0, 0);
+   * polyline.transformBy(translationMatrix);
+   * // Polyline is now translated 10 units in the X direction
+   * ```
+   */
+  transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    const matrix2d = new AcGeMatrix2d().setFromMatrix4InXYPlane(matrix)
+    const scale = Math.sqrt(Math.abs(matrix2d.determinant()))
+    // Transform vertices at first so that nothing is changed if it fails
+    this._geo.transform(matrix2d)
+    this._elevation = new AcGePoint3d(0, 0, this._elevation).applyMatrix4(
+      matrix
+    ).z
+    this._geo.vertices.forEach(vertex => {
+      if (vertex.startWidth != null) vertex.startWidth *= scale
+      if (vertex.endWidth != null) vertex.endWidth *= scale
+    })
+    return this
+  }
+
   /**
    * Draws this polyline using the specified renderer.
    *
@@ -305,8 +574,26 @@ export class AcDbPolyline extends AcDbCurve {
       points.push(new AcGePoint3d().set(point.x, point.y, this.elevation))
     )
 
-    this.attachToEntityTraits(renderer.subEntityTraits)
+    const traits = renderer.subEntityTraits
+    this.attachToEntityTraits(traits)
+
+    const outlines = AcDbPolylineWidthHelper.createOutlines(
+      this._geo.vertices,
+      this.closed
+    )
+    if (outlines.length == 0) return renderer.lines(points)
 
-    return renderer.lines(points)
+    // Segments with width are drawn as filled areas and the centerline is
+    // still needed by segments without width.
+    const results: AcGiEntity[] = [renderer.lines(points)]
+    traits.fillType = { solidFill: true, patternAngle: 0, patternLines: [] }
+    outlines.forEach(outline => {
+      const area = new AcGeArea2d()
+      area.add(new AcGePolyline2d(outline, true))
+      results.push(renderer.area(area))
+    })
+    const group = renderer.group(results)
+    this.attachEntityInfo(group)
+    return group
   }
 }
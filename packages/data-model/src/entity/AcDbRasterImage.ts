@@ -1,13 +1,16 @@
 import {
   AcGeBox2d,
   AcGeBox3d,
+  AcGeMatrix2d,
+  AcGeMatrix3d,
   AcGePoint2d,
   AcGePoint3d,
-  AcGeVector2d
+  AcGeVector2d,
+  AcGeVector3d
 } from '@mlightcad/geometry-engine'
 import { AcGiRenderer } from '@mlightcad/graphic-interface'
-import { AcDbObjectId } from 'base'
 
+import { AcDbObjectId } from '../base'
 import { AcDbEntity } from './AcDbEntity'
 
 /**
@@ -152,6 +155,7 @@ export class AcDbRasterImage extends AcDbEntity {
     return this._brightness
   }
   set brightness(value: number) {
+    this.assertWriteEnabled()
     this._brightness = value
   }
 
@@ -162,6 +166,7 @@ export class AcDbRasterImage extends AcDbEntity {
     return this._contrast
   }
   set contrast(value: number) {
+    this.assertWriteEnabled()
     this._contrast = value
   }
 
@@ -172,6 +177,7 @@ export class AcDbRasterImage extends AcDbEntity {
     return this._fade
   }
   set fade(value: number) {
+    this.assertWriteEnabled()
     this._fade = value
   }
 
@@ -182,6 +188,7 @@ export class AcDbRasterImage extends AcDbEntity {
     return this._height
   }
   set height(value: number) {
+    this.assertWriteEnabled()
     this._height = value
   }
 
@@ -192,6 +199,7 @@ export class AcDbRasterImage extends AcDbEntity {
     return this._width
   }
   set width(value: number) {
+    this.assertWriteEnabled()
     this._width = value
   }
 
@@ -202,6 +210,7 @@ export class AcDbRasterImage extends AcDbEntity {
     return this._position
   }
   set position(value: AcGePoint3d) {
+    this.assertWriteEnabled()
     this._position = value
   }
 
@@ -212,6 +221,7 @@ export class AcDbRasterImage extends AcDbEntity {
     return this._rotation
   }
   set rotation(value: number) {
+    this.assertWriteEnabled()
     this._rotation = value
   }
 
@@ -222,6 +232,7 @@ export class AcDbRasterImage extends AcDbEntity {
     return this._scale
   }
   set scale(value: AcGeVector2d) {
+    this.assertWriteEnabled()
     this._scale.copy(value)
   }
 
@@ -232,6 +243,7 @@ export class AcDbRasterImage extends AcDbEntity {
     return this._clipBoundaryType
   }
   set clipBoundaryType(value: AcDbRasterImageClipBoundaryType) {
+    this.assertWriteEnabled()
     this._clipBoundaryType = value
   }
 
@@ -242,6 +254,7 @@ export class AcDbRasterImage extends AcDbEntity {
     return this._clipBoundary
   }
   set clipBoundary(value: AcGePoint2d[]) {
+    this.assertWriteEnabled()
     this._clipBoundary = []
     this._clipBoundary.push(...value)
   }
@@ -253,6 +266,7 @@ export class AcDbRasterImage extends AcDbEntity {
     return this._isClipped
   }
   set isClipped(value: boolean) {
+    this.assertWriteEnabled()
     this._isClipped = value
   }
 
@@ -263,6 +277,7 @@ export class AcDbRasterImage extends AcDbEntity {
     return this._isShownClipped
   }
   set isShownClipped(value: boolean) {
+    this.assertWriteEnabled()
     this._isShownClipped = value
   }
 
@@ -273,6 +288,7 @@ export class AcDbRasterImage extends AcDbEntity {
     return this._isImageShown
   }
   set isImageShown(value: boolean) {
+    this.assertWriteEnabled()
     this._isImageShown = value
   }
 
@@ -283,6 +299,7 @@ export class AcDbRasterImage extends AcDbEntity {
     return this._isImageTransparent
   }
   set isImageTransparent(value: boolean) {
+    this.assertWriteEnabled()
     this._isImageTransparent = value
   }
 
@@ -293,6 +310,7 @@ export class AcDbRasterImage extends AcDbEntity {
     return this._image
   }
   set image(value: Blob | undefined) {
+    this.assertWriteEnabled()
     this._image = value
   }
 
@@ -303,6 +321,7 @@ export class AcDbRasterImage extends AcDbEntity {
     return this._imageDefId
   }
   set imageDefId(value: AcDbObjectId) {
+    this.assertWriteEnabled()
     this._imageDefId = value
   }
 
@@ -342,12 +361,52 @@ export class AcDbRasterImage extends AcDbEntity {
     return this.boundaryPath()
   }
 
+  /**
+   * Transforms this image by the specified matrix.
+   *
+   * The insertion point, rotation, width and height of the image are updated
+   * according to the transformation matrix. The image is kept unmirrored when
+   * being mirrored. That is, only its boundary is mirrored.
+   *
+   * @param matrix - The transformation matrix to apply
+   * @returns This image after transformation
+   *
+   * @example
+   * ```typescript
+   * const translationMatrix = AcGeMatrix3d.translation(10, 0, 0);
+   * image.transformBy(translationMatrix);
+   * // Image is now translated 10 units in the X direction
+   * ```
+   */
+  transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    const linear = new AcGeMatrix2d().setFromMatrix4(matrix)
+    const cos = Math.cos(this._rotation)
+    const sin = Math.sin(this._rotation)
+    const uAxis = new AcGeVector3d(cos, sin, 0)
+      .multiplyScalar(this._width)
+      .applyMatrix3(linear)
+    const vAxis = new AcGeVector3d(-sin, cos, 0)
+      .multiplyScalar(this._height)
+      .applyMatrix3(linear)
+
+    this._position.applyMatrix4(matrix)
+    if (uAxis.x * vAxis.y - uAxis.y * vAxis.x < 0) {
+      // Use the transformed top-left corner as the new insertion point
+      this._position.add(vAxis)
+    }
+    this._rotation = Math.atan2(uAxis.y, uAxis.x)
+    this._width = uAxis.length()
+    this._height = vAxis.length()
+    return this
+  }
+
   /**
    * @inheritdoc
    */
   draw(renderer: AcGiRenderer) {
     this.attachToEntityTraits(renderer.subEntityTraits)
- 
+
     const points = this.boundaryPath()
     if (this._image) {
       return renderer.image(this._image, {
@@ -1,5 +1,8 @@
 import {
   AcGeBox3d,
+  AcGeExtendType,
+  AcGeLine3d,
+  AcGeMatrix3d,
   AcGePoint3d,
   AcGeVector3d
 } from '@mlightcad/geometry-engine'
@@ -83,6 +86,7 @@ export class AcDbRay extends AcDbCurve {
    * ```
    */
   set basePoint(value: AcGePoint3d) {
+    this.assertWriteEnabled()
     this._basePoint.copy(value)
   }
 
@@ -115,6 +119,7 @@ export class AcDbRay extends AcDbCurve {
    * ```
    */
   set unitDir(value: AcGePoint3d) {
+    this.assertWriteEnabled()
     this._unitDir.copy(value)
   }
 
@@ -264,6 +269,41 @@ export class AcDbRay extends AcDbCurve {
     return gripPoints
   }
 
+  /**
+   * @inheritdoc
+   */
+  protected subGetIntersectCurves() {
+    return {
+      curves: [
+        new AcGeLine3d(
+          this._basePoint,
+          this._basePoint.clone().add(this._unitDir)
+        )
+      ],
+      extend: AcGeExtendType.End
+    }
+  }
+
+  /**
+   * Transforms this ray by the specified matrix.
+   *
+   * @param matrix - The transformation matrix to apply
+   * @returns This ray after transformation
+   *
+   * @example
+   * ```typescript
+   * const translationMatrix = AcGeMatrix3d.translation(10, 0, 0);
+   * ray.transformBy(translationMatrix);
+   * // Ray is now translated 10 units in the X direction
+   * ```
+   */
+  transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    this._basePoint.applyMatrix4(matrix)
+    this._unitDir.transformDirection(matrix)
+    return this
+  }
+
   /**
    * Draws this ray using the specified renderer.
    *
@@ -1,11 +1,15 @@
 import { AcCmErrors } from '@mlightcad/common'
 import {
+  AcGeExtendType,
   AcGeKnotParameterizationType,
+  AcGeMatrix3d,
   AcGePoint3dLike,
-  AcGeSpline3d
+  AcGeSpline3d,
+  AcGeVector3d
 } from '@mlightcad/geometry-engine'
 import { AcGiRenderer } from '@mlightcad/graphic-interface'
 
+import { AcDbOsnapHelper, AcDbOsnapMode } from '../misc'
 import { AcDbCurve } from './AcDbCurve'
 
 /**
@@ -148,6 +152,77 @@ export class AcDbSpline extends AcDbCurve {
     return this._geo.box
   }
 
+  /**
+   * Gets the degree of this spline.
+   *
+   * @returns The degree of this spline
+   */
+  get degree(): number {
+    return this._geo.degree
+  }
+
+  /**
+   * Gets the number of control points in this spline.
+   *
+   * @returns The number of control points
+   */
+  get numControlPoints(): number {
+    return this._geo.numControlPoints
+  }
+
+  /**
+   * Gets the control point at the specified index.
+   *
+   * @param index - The index (0-based) of the control point
+   * @returns The control point in WCS coordinates
+   *
+   * @example
+   * ```typescript
+   * const point = spline.getControlPointAt(0);
+   * console.log(`Control point 0: ${point.x}, ${point.y}, ${point.z}`);
+   * ```
+   */
+  getControlPointAt(index: number): AcGePoint3dLike {
+    return this._geo.getControlPointAt(index)
+  }
+
+  /**
+   * Gets the number of fit points in this spline.
+   *
+   * @returns The number of fit points, or 0 if this spline is defined by control points
+   */
+  get numFitPoints(): number {
+    return this._geo.numFitPoints
+  }
+
+  /**
+   * Gets the fit point at the specified index.
+   *
+   * @param index - The index (0-based) of the fit point
+   * @returns The fit point in WCS coordinates
+   */
+  getFitPointAt(index: number): AcGePoint3dLike {
+    return this._geo.getFitPointAt(index)
+  }
+
+  /**
+   * Gets the knot vector of this spline.
+   *
+   * @returns The knot values
+   */
+  get knots(): number[] {
+    return this._geo.knots
+  }
+
+  /**
+   * Gets the weights of control points of this spline.
+   *
+   * @returns The weight values
+   */
+  get weights(): number[] {
+    return this._geo.weights
+  }
+
   /**
    * Gets whether this spline is closed.
    *
@@ -165,6 +240,105 @@ export class AcDbSpline extends AcDbCurve {
     return this._geo.closed
   }
 
+  /**
+   * @inheritdoc
+   */
+  get startParam() {
+    return this._geo.startParam
+  }
+
+  /**
+   * @inheritdoc
+   */
+  get endParam() {
+    return this._geo.endParam
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getPointAtParam(param: number) {
+    return this._geo.getPointAtParam(param)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getParamAtPoint(point: AcGePoint3dLike) {
+    return this._geo.getParamAtPoint(point)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getDistAtParam(param: number) {
+    return this._geo.getDistAtParam(param)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getParamAtDist(dist: number) {
+    return this._geo.getParamAtDist(dist)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getFirstDeriv(param: number) {
+    return this._geo.getFirstDeriv(param)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getClosestPointTo(point: AcGePoint3dLike) {
+    return this._geo.getClosestPointTo(point)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getArea() {
+    return this._geo.area
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getSplitCurves(params: number[]) {
+    return this._geo.split(params).map(geo => {
+      const controlPoints: AcGePoint3dLike[] = []
+      for (let i = 0; i < geo.numControlPoints; ++i) {
+        controlPoints.push(geo.getControlPointAt(i))
+      }
+      const spline = new AcDbSpline(
+        controlPoints,
+        geo.knots,
+        geo.weights,
+        geo.degree,
+        false
+      )
+      spline.setPropertiesFrom(this)
+      return spline
+    })
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getOffsetCurves(distance: number) {
+    return this._geo.getOffsetCurves(distance).map(geo => {
+      const fitPoints: AcGePoint3dLike[] = []
+      for (let i = 0; i < geo.numFitPoints; ++i) {
+        fitPoints.push(geo.getFitPointAt(i))
+      }
+      const spline = new AcDbSpline(fitPoints, 'Chord')
+      spline.setPropertiesFrom(this)
+      return spline
+    })
+  }
+
   /**
    * Sets whether this spline is closed.
    *
@@ -176,9 +350,75 @@ export class AcDbSpline extends AcDbCurve {
    * ```
    */
   set closed(value: boolean) {
+    this.assertWriteEnabled()
     this._geo.closed = value
   }
 
+  /**
+   * Gets the object snap points for this spline.
+   *
+   * Supported snap modes are EndPoint, MidPoint, Nearest, Perpendicular and
+   * Tangent. Tangent points are computed in the XY plane.
+   *
+   * @param osnapMode - The object snap mode
+   * @param pickPoint - The point where the user picked
+   * @param lastPoint - The last point picked by the user
+   * @param snapPoints - Array to populate with snap points
+   *
+   * @example
+   * ```typescript
+   * const snapPoints: AcGePoint3d[] = [];
+   * spline.subGetOsnapPoints(AcDbOsnapMode.Nearest, pickPoint, lastPoint, snapPoints);
+   * // snapPoints now contains the point on the spline nearest to pickPoint
+   * ```
+   */
+  subGetOsnapPoints(
+    osnapMode: AcDbOsnapMode,
+    pickPoint: AcGePoint3dLike,
+    lastPoint: AcGePoint3dLike,
+    snapPoints: AcGePoint3dLike[]
+  ) {
+    AcDbOsnapHelper.getOsnapPoints(
+      [AcDbOsnapHelper.createSpline(this._geo, AcGeVector3d.Z_AXIS)],
+      osnapMode,
+      pickPoint,
+      lastPoint,
+      snapPoints
+    )
+  }
+
+  /**
+   * @inheritdoc
+   */
+  protected subGetIntersectCurves() {
+    return {
+      curves: [this._geo],
+      extend: AcGeExtendType.None
+    }
+  }
+
+  /**
+   * Transforms this spline by the specified matrix.
+   *
+   * This method applies a geometric transformation to the control points and
+   * fit points of the spline. Knots and weights are kept unchanged.
+   *
+   * @param matrix - The transformation matrix to apply
+   * @returns This spline after transformation
+   *
+   * @example
+   * ```typescript
+   * const translationMatrix = AcGeMatrix3d.translation(10, 0, 0);
+   * spline.transformBy(translationMatrix);
+   * // Spline is now translated 10 units in the X direction
+   * ```
+   */
+  transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    this._geo.transform(matrix)
+    return this
+  }
+
   /**
    * Draws this spline using the specified renderer.
    *
@@ -121,6 +121,7 @@ export class AcDbTable extends AcDbBlockReference {
     return this._attachmentPoint
   }
   set attachmentPoint(value: AcGiMTextAttachmentPoint) {
+    this.assertWriteEnabled()
     this._attachmentPoint = value
   }
 
@@ -135,6 +136,7 @@ export class AcDbTable extends AcDbBlockReference {
     return this._numRows
   }
   set numRows(value: number) {
+    this.assertWriteEnabled()
     this._numRows = value
   }
 
@@ -149,6 +151,7 @@ export class AcDbTable extends AcDbBlockReference {
     return this._numColumns
   }
   set numColumns(value: number) {
+    this.assertWriteEnabled()
     this._numColumns = value
   }
 
@@ -182,6 +185,7 @@ export class AcDbTable extends AcDbBlockReference {
    * @param height - Height to be used for the specified row
    */
   setRowHeight(index: number, height: number) {
+    this.assertWriteEnabled()
     this._rowHeight[index] = height
   }
 
@@ -191,6 +195,7 @@ export class AcDbTable extends AcDbBlockReference {
    * @param height - Height to be used for all the rows in the table
    */
   setUniformRowHeight(height: number) {
+    this.assertWriteEnabled()
     this._rowHeight.fill(height)
   }
 
@@ -210,6 +215,7 @@ export class AcDbTable extends AcDbBlockReference {
    * @param width - Uniform width to be used for all the columns in the table
    */
   setUniformColumnWidth(width: number) {
+    this.assertWriteEnabled()
     this._columnWidth.fill(width)
   }
 
@@ -220,6 +226,7 @@ export class AcDbTable extends AcDbBlockReference {
    * @param width - Width to be used for the specified column
    */
   setColumnWidth(index: number, width: number) {
+    this.assertWriteEnabled()
     this._columnWidth[index] = width
   }
 
@@ -241,6 +248,7 @@ export class AcDbTable extends AcDbBlockReference {
    * @param cell - The cell data to set
    */
   setCell(index: number, cell: AcDbTableCell) {
+    this.assertWriteEnabled()
     this._cells[index] = cell
   }
 
@@ -265,6 +273,7 @@ export class AcDbTable extends AcDbBlockReference {
    * @param text - Text string to set
    */
   setTextString(row: number, col: number, text: string) {
+    this.assertWriteEnabled()
     this._cells[row * col].text = text
   }
 
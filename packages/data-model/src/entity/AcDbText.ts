@@ -1,5 +1,13 @@
-import { AcGeBox3d, AcGePoint3d } from '@mlightcad/geometry-engine'
 import {
+  AcGeBox3d,
+  AcGeMatrix2d,
+  AcGeMatrix3d,
+  AcGePoint3d,
+  AcGePoint3dLike,
+  AcGeVector3d
+} from '@mlightcad/geometry-engine'
+import {
+  AcGiEntity,
   AcGiMTextAttachmentPoint,
   AcGiMTextData,
   AcGiMTextFlowDirection,
@@ -7,6 +15,7 @@ import {
   AcGiTextStyle
 } from '@mlightcad/graphic-interface'
 
+import { AcDbOsnapMode } from '../misc'
 import { AcDbEntity } from './AcDbEntity'
 import { AcDbEntityProperties } from './AcDbEntityProperties'
 
@@ -144,6 +153,7 @@ export class AcDbText extends AcDbEntity {
    * ```
    */
   set textString(value: string) {
+    this.assertWriteEnabled()
     this._textString = value
   }
 
@@ -176,6 +186,7 @@ export class AcDbText extends AcDbEntity {
    * ```
    */
   set thickness(value: number) {
+    this.assertWriteEnabled()
     this._thickness = value
   }
 
@@ -208,6 +219,7 @@ export class AcDbText extends AcDbEntity {
    * ```
    */
   set height(value: number) {
+    this.assertWriteEnabled()
     this._height = value
   }
 
@@ -237,6 +249,7 @@ export class AcDbText extends AcDbEntity {
    * ```
    */
   set position(value: AcGePoint3d) {
+    this.assertWriteEnabled()
     this._position.copy(value)
   }
 
@@ -270,6 +283,7 @@ export class AcDbText extends AcDbEntity {
    * ```
    */
   set rotation(value: number) {
+    this.assertWriteEnabled()
     this._rotation = value
   }
 
@@ -303,6 +317,7 @@ export class AcDbText extends AcDbEntity {
    * ```
    */
   set oblique(value: number) {
+    this.assertWriteEnabled()
     this._oblique = value
   }
 
@@ -332,6 +347,7 @@ export class AcDbText extends AcDbEntity {
    * ```
    */
   set horizontalMode(value: AcDbTextHorizontalMode) {
+    this.assertWriteEnabled()
     this._horizontalMode = value
   }
 
@@ -361,6 +377,7 @@ export class AcDbText extends AcDbEntity {
    * ```
    */
   set verticalMode(value: AcDbTextVerticalMode) {
+    this.assertWriteEnabled()
     this._verticalModel = value
   }
 
@@ -390,6 +407,7 @@ export class AcDbText extends AcDbEntity {
    * ```
    */
   set styleName(value: string) {
+    this.assertWriteEnabled()
     this._styleName = value
   }
 
@@ -423,6 +441,7 @@ export class AcDbText extends AcDbEntity {
    * ```
    */
   set widthFactor(value: number) {
+    this.assertWriteEnabled()
     this._widthFactor = value
   }
 
@@ -593,6 +612,75 @@ export class AcDbText extends AcDbEntity {
     return style.textStyle
   }
 
+  /**
+   * Gets the object snap points for this text.
+   *
+   * Only snap mode Insertion is supported and the snap point is the insertion
+   * point of this text.
+   *
+   * @param osnapMode - The object snap mode
+   * @param _pickPoint - The point where the user picked (unused)
+   * @param _lastPoint - The last point picked by the user (unused)
+   * @param snapPoints - Array to populate with snap points
+   *
+   * @example
+   * ```typescript
+   * const snapPoints: AcGePoint3d[] = [];
+   * text.subGetOsnapPoints(AcDbOsnapMode.Insertion, pickPoint, lastPoint, snapPoints);
+   * // snapPoints now contains the insertion point of the text
+   * ```
+   */
+  subGetOsnapPoints(
+    osnapMode: AcDbOsnapMode,
+    _pickPoint: AcGePoint3dLike,
+    _lastPoint: AcGePoint3dLike,
+    snapPoints: AcGePoint3dLike[]
+  ) {
+    if (osnapMode === AcDbOsnapMode.Insertion) {
+      snapPoints.push(this.position)
+    }
+  }
+
+  /**
+   * Transforms this text by the specified matrix.
+   *
+   * The position, rotation, height and width factor of the text are updated
+   * according to the transformation matrix. Text is kept readable when being
+   * mirrored. That is, it isn't drawn from right to left after mirroring.
+   *
+   * @param matrix - The transformation matrix to apply
+   * @returns This text after transformation
+   *
+   * @example
+   * ```typescript
+   * const translationMatrix = AcGeMatrix3d.translation(10, 0, 0);
+   * text.transformBy(translationMatrix);
+   * // Text is now translated 10 units in the X direction
+   * ```
+   */
+  transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    const linear = new AcGeMatrix2d().setFromMatrix4(matrix)
+    const cos = Math.cos(this._rotation)
+    const sin = Math.sin(this._rotation)
+    const xAxis = new AcGeVector3d(cos, sin, 0).applyMatrix3(linear)
+    const yAxis = new AcGeVector3d(-sin, cos, 0).applyMatrix3(linear)
+    const xLength = xAxis.length()
+    const yLength = yAxis.length()
+
+    this._position.applyMatrix4(matrix)
+    if (xLength > 0 && yLength > 0) {
+      // Keep text readable if it is mirrored
+      if (xAxis.x * yAxis.y - xAxis.y * yAxis.x < 0 && xAxis.x < 0) {
+        xAxis.negate()
+      }
+      this._rotation = Math.atan2(xAxis.y, xAxis.x)
+      this._height *= yLength
+      this._widthFactor *= xLength / yLength
+    }
+    return this
+  }
+
   /**
    * Draws this text using the specified renderer.
    *
@@ -610,7 +698,7 @@ export class AcDbText extends AcDbEntity {
    * const renderedText = text.draw(renderer);
    * ```
    */
-  draw(renderer: AcGiRenderer, delay?: boolean) {
+  draw(renderer: AcGiRenderer, delay?: boolean): AcGiEntity | undefined {
     const mtextData: AcGiMTextData = {
       text: this.textString,
       height: this.height,
@@ -1,6 +1,8 @@
 import {
   AcGeArea2d,
   AcGeBox3d,
+  AcGeMatrix2d,
+  AcGeMatrix3d,
   AcGePoint3d,
   AcGePointLike,
   AcGePolyline2d
@@ -102,6 +104,7 @@ export class AcDbTrace extends AcDbCurve {
    * ```
    */
   set elevation(value: number) {
+    this.assertWriteEnabled()
     this._elevation = value
   }
 
@@ -145,6 +148,7 @@ export class AcDbTrace extends AcDbCurve {
    * ```
    */
   set thickness(value: number) {
+    this.assertWriteEnabled()
     this._thickness = value
   }
 
@@ -188,6 +192,7 @@ export class AcDbTrace extends AcDbCurve {
    * ```
    */
   setPointAt(index: number, point: AcGePointLike) {
+    this.assertWriteEnabled()
     if (index < 0) this._vertices[0].copy(point)
     if (index > 3) return this._vertices[3].copy(point)
     this._vertices[index].copy(point)
@@ -230,6 +235,37 @@ export class AcDbTrace extends AcDbCurve {
     return gripPoints
   }
 
+  /**
+   * Transforms this trace by the specified matrix.
+   *
+   * Vertices are transformed in the plane of the trace and the elevation is set
+   * to the transformed z-coordinate of the trace plane.
+   *
+   * @param matrix - The transformation matrix to apply
+   * @returns This trace after transformation
+   *
+   * @example
+   * ```typescript
+   * const translationMatrix = AcGeMatrix3d.translation(10, 0, 0);
+   * trace.transformBy(translationMatrix);
+   * // Trace is now translated 10 units in the X direction
+   * ```
+   */
+  transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    const e = new AcGeMatrix2d().setFromMatrix4InXYPlane(matrix).elements
+    this._elevation = new AcGePoint3d(0, 0, this._elevation).applyMatrix4(
+      matrix
+    ).z
+    this._vertices.forEach(vertex => {
+      const x = vertex.x
+      const y = vertex.y
+      vertex.setX(e[0] * x + e[3] * y + e[6])
+      vertex.setY(e[1] * x + e[4] * y + e[7])
+    })
+    return this
+  }
+
   /**
    * Draws this trace using the specified renderer.
    *
@@ -1,4 +1,10 @@
-import { AcGeBox3d, AcGePoint3d } from '@mlightcad/geometry-engine'
+import {
+  AcGeBox3d,
+  AcGeMatrix2d,
+  AcGeMatrix3d,
+  AcGePoint3d,
+  AcGeVector3d
+} from '@mlightcad/geometry-engine'
 import {
   AcGiEntity,
   AcGiRenderer,
@@ -80,6 +86,7 @@ export class AcDbViewport extends AcDbEntity {
     return this._number
   }
   set number(value: number) {
+    this.assertWriteEnabled()
     this._number = value
   }
 
@@ -95,6 +102,7 @@ export class AcDbViewport extends AcDbEntity {
     return this._centerPoint
   }
   set centerPoint(value: AcGePoint3d) {
+    this.assertWriteEnabled()
     this._centerPoint = value
   }
 
@@ -111,6 +119,7 @@ export class AcDbViewport extends AcDbEntity {
     return this._height
   }
   set height(value: number) {
+    this.assertWriteEnabled()
     this._height = value
   }
 
@@ -130,6 +139,7 @@ export class AcDbViewport extends AcDbEntity {
     return this._width
   }
   set width(value: number) {
+    this.assertWriteEnabled()
     this._width = value
   }
 
@@ -146,6 +156,7 @@ export class AcDbViewport extends AcDbEntity {
     return this._viewCenter
   }
   set viewCenter(value: AcGePoint3d) {
+    this.assertWriteEnabled()
     this._viewCenter = value
   }
 
@@ -165,6 +176,7 @@ export class AcDbViewport extends AcDbEntity {
     return this._viewHeight
   }
   set viewHeight(value: number) {
+    this.assertWriteEnabled()
     this._viewHeight = value
   }
 
@@ -182,6 +194,31 @@ export class AcDbViewport extends AcDbEntity {
     return new AcGeBox3d()
   }
 
+  /**
+   * Transforms this viewport by the specified matrix.
+   *
+   * The center point of the viewport is transformed and its width and height
+   * are scaled. The view displayed in the viewport isn't changed.
+   *
+   * @param matrix - The transformation matrix to apply
+   * @returns This viewport after transformation
+   *
+   * @example
+   * ```typescript
+   * const translationMatrix = AcGeMatrix3d.translation(10, 0, 0);
+   * viewport.transformBy(translationMatrix);
+   * // Viewport is now translated 10 units in the X direction
+   * ```
+   */
+  transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    const linear = new AcGeMatrix2d().setFromMatrix4(matrix)
+    this._centerPoint.applyMatrix4(matrix)
+    this._width *= new AcGeVector3d(1, 0, 0).applyMatrix3(linear).length()
+    this._height *= new AcGeVector3d(0, 1, 0).applyMatrix3(linear).length()
+    return this
+  }
+
   /**
    * Renders the viewport entity using the specified renderer.
    *
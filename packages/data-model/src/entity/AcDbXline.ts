@@ -1,5 +1,8 @@
 import {
   AcGeBox3d,
+  AcGeExtendType,
+  AcGeLine3d,
+  AcGeMatrix3d,
   AcGePoint3d,
   AcGeVector3d
 } from '@mlightcad/geometry-engine'
@@ -84,6 +87,7 @@ export class AcDbXline extends AcDbCurve {
    * ```
    */
   set basePoint(value: AcGePoint3d) {
+    this.assertWriteEnabled()
     this._basePoint.copy(value)
   }
 
@@ -116,6 +120,7 @@ export class AcDbXline extends AcDbCurve {
    * ```
    */
   set unitDir(value: AcGePoint3d) {
+    this.assertWriteEnabled()
     this._unitDir.copy(value)
   }
 
@@ -265,6 +270,41 @@ export class AcDbXline extends AcDbCurve {
     return gripPoints
   }
 
+  /**
+   * @inheritdoc
+   */
+  protected subGetIntersectCurves() {
+    return {
+      curves: [
+        new AcGeLine3d(
+          this._basePoint,
+          this._basePoint.clone().add(this._unitDir)
+        )
+      ],
+      extend: AcGeExtendType.Both
+    }
+  }
+
+  /**
+   * Transforms this xline by the specified matrix.
+   *
+   * @param matrix - The transformation matrix to apply
+   * @returns This xline after transformation
+   *
+   * @example
+   * ```typescript
+   * const translationMatrix = AcGeMatrix3d.translation(10, 0, 0);
+   * xline.transformBy(translationMatrix);
+   * // Xline is now translated 10 units in the X direction
+   * ```
+   */
+  transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    this._basePoint.applyMatrix4(matrix)
+    this._unitDir.transformDirection(matrix)
+    return this
+  }
+
   /**
    * Draws this xline using the specified renderer.
    *
@@ -1,8 +1,12 @@
 import {
   AcGeBox3d,
+  AcGeMathUtil,
+  AcGeMatrix3d,
   AcGePoint3d,
-  AcGePointLike
+  AcGePointLike,
+  AcGeVector3d
 } from '@mlightcad/geometry-engine'
+import { AcGiEntity, AcGiRenderer } from '@mlightcad/graphic-interface'
 
 import { AcDbDimension } from './AcDbDimension'
 
@@ -73,6 +77,7 @@ export class AcDb3PointAngularDimension extends AcDbDimension {
     return this._arcPoint
   }
   set arcPoint(value: AcGePoint3d) {
+    this.assertWriteEnabled()
     this._arcPoint.copy(value)
   }
 
@@ -88,6 +93,7 @@ export class AcDb3PointAngularDimension extends AcDbDimension {
     return this._centerPoint
   }
   set centerPoint(value: AcGePoint3d) {
+    this.assertWriteEnabled()
     this._centerPoint.copy(value)
   }
 
@@ -104,6 +110,7 @@ export class AcDb3PointAngularDimension extends AcDbDimension {
     return this._xLine1Point
   }
   set xLine1Point(value: AcGePoint3d) {
+    this.assertWriteEnabled()
     this._xLine1Point.copy(value)
   }
 
@@ -120,6 +127,7 @@ export class AcDb3PointAngularDimension extends AcDbDimension {
     return this._xLine2Point
   }
   set xLine2Point(value: AcGePoint3d) {
+    this.assertWriteEnabled()
     this._xLine2Point.copy(value)
   }
 
@@ -137,4 +145,141 @@ export class AcDb3PointAngularDimension extends AcDbDimension {
     // TODO: Finish it
     return new AcGeBox3d()
   }
+
+  /**
+   * @inheritdoc
+   */
+  transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    super.transformBy(matrix)
+    this._arcPoint.applyMatrix4(matrix)
+    this._centerPoint.applyMatrix4(matrix)
+    this._xLine1Point.applyMatrix4(matrix)
+    this._xLine2Point.applyMatrix4(matrix)
+    return this
+  }
+
+  /**
+   * @inheritdoc
+   */
+  protected computeMeasurement() {
+    return getDimensionArc(
+      this._centerPoint,
+      this._xLine1Point,
+      this._xLine2Point,
+      this._arcPoint
+    ).sweep
+  }
+
+  /**
+   * @inheritdoc
+   */
+  protected get isAngular() {
+    return true
+  }
+
+  /**
+   * @inheritdoc
+   */
+  protected drawDimensionGraphics(renderer: AcGiRenderer) {
+    const results: AcGiEntity[] = []
+    const { radius, startAngle, endAngle, sweep } = getDimensionArc(
+      this._centerPoint,
+      this._xLine1Point,
+      this._xLine2Point,
+      this._arcPoint
+    )
+    const dimStyle = this.dimensionStyle
+    if (!dimStyle.dimse1) {
+      const line = this.drawRadialExtensionLine(
+        renderer,
+        this._xLine1Point,
+        startAngle,
+        radius
+      )
+      if (line) results.push(line)
+    }
+    if (!dimStyle.dimse2) {
+      const line = this.drawRadialExtensionLine(
+        renderer,
+        this._xLine2Point,
+        endAngle,
+        radius
+      )
+      if (line) results.push(line)
+    }
+    const text = this.formatMeasurement(sweep)
+    results.push(
+      ...this.drawAngularDimensionArc(
+        renderer,
+        this._centerPoint,
+        radius,
+        startAngle,
+        endAngle,
+        text
+      )
+    )
+    return results
+  }
+
+  /**
+   * Draws the extension line from the specified point to the dimension arc
+   * along the radial direction at the specified angle.
+   */
+  private drawRadialExtensionLine(
+    renderer: AcGiRenderer,
+    point: AcGePoint3d,
+    angle: number,
+    radius: number
+  ) {
+    const direction = new AcGeVector3d(Math.cos(angle), Math.sin(angle), 0)
+    return this.drawExtensionLine(
+      renderer,
+      point,
+      new AcGePoint3d(this._centerPoint).addScaledVector(direction, radius)
+    )
+  }
+}
+
+/**
+ * Gets the dimension arc of angular and arc length dimensions. The dimension
+ * arc goes counterclockwise from the start angle to the end angle and passes
+ * through the arc point.
+ *
+ * @param center - The center of the dimension arc
+ * @param xLine1Point - The point defining the first extension line
+ * @param xLine2Point - The point defining the second extension line
+ * @param arcPoint - One point on the dimension arc
+ * @returns The radius, start angle, end angle and sweep angle of the dimension arc
+ *
+ * @internal
+ */
+export function getDimensionArc(
+  center: AcGePoint3d,
+  xLine1Point: AcGePoint3d,
+  xLine2Point: AcGePoint3d,
+  arcPoint: AcGePoint3d
+) {
+  const angleOf = (point: AcGePoint3d) =>
+    Math.atan2(point.y - center.y, point.x - center.x)
+  const ccwSweep = (from: number, to: number) =>
+    AcGeMathUtil.normalizeAngle(to - from)
+
+  let startAngle = angleOf(xLine1Point)
+  let endAngle = angleOf(xLine2Point)
+  // Swap two angles if the arc point isn't on the arc from the first one to
+  // the second one counterclockwise
+  if (
+    ccwSweep(startAngle, angleOf(arcPoint)) > ccwSweep(startAngle, endAngle)
+  ) {
+    const temp = startAngle
+    startAngle = endAngle
+    endAngle = temp
+  }
+  return {
+    radius: center.distanceTo(arcPoint),
+    startAngle,
+    endAngle,
+    sweep: ccwSweep(startAngle, endAngle)
+  }
 }
@@ -1,9 +1,14 @@
 import {
   AcGeBox3d,
+  AcGeMatrix2d,
+  AcGeMatrix3d,
   AcGePoint3d,
   AcGePoint3dLike,
-  AcGePointLike
+  AcGePointLike,
+  AcGeVector3d,
+  FLOAT_TOL
 } from '@mlightcad/geometry-engine'
+import { AcGiEntity, AcGiRenderer } from '@mlightcad/graphic-interface'
 
 import { AcDbDimension } from './AcDbDimension'
 
@@ -129,6 +134,7 @@ export class AcDbAlignedDimension extends AcDbDimension {
    * ```
    */
   set dimLinePoint(value: AcGePoint3dLike) {
+    this.assertWriteEnabled()
     this._dimLinePoint.copy(value)
   }
 
@@ -158,6 +164,7 @@ export class AcDbAlignedDimension extends AcDbDimension {
    * ```
    */
   set xLine1Point(value: AcGePoint3dLike) {
+    this.assertWriteEnabled()
     this._xLine1Point.copy(value)
   }
 
@@ -187,6 +194,7 @@ export class AcDbAlignedDimension extends AcDbDimension {
    * ```
    */
   set xLine2Point(value: AcGePoint3dLike) {
+    this.assertWriteEnabled()
     this._xLine2Point.copy(value)
   }
 
@@ -216,6 +224,7 @@ export class AcDbAlignedDimension extends AcDbDimension {
    * ```
    */
   set rotation(value: number) {
+    this.assertWriteEnabled()
     this._rotation = value
   }
 
@@ -245,6 +254,7 @@ export class AcDbAlignedDimension extends AcDbDimension {
    * ```
    */
   set oblique(value: number) {
+    this.assertWriteEnabled()
     this._oblique = value
   }
 
@@ -256,6 +266,88 @@ export class AcDbAlignedDimension extends AcDbDimension {
     return new AcGeBox3d()
   }
 
+  /**
+   * @inheritdoc
+   */
+  transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    super.transformBy(matrix)
+    const direction = new AcGeVector3d(
+      Math.cos(this._rotation),
+      Math.sin(this._rotation),
+      0
+    ).applyMatrix3(new AcGeMatrix2d().setFromMatrix4(matrix))
+    this._rotation = Math.atan2(direction.y, direction.x)
+    this._dimLinePoint.applyMatrix4(matrix)
+    this._xLine1Point.applyMatrix4(matrix)
+    this._xLine2Point.applyMatrix4(matrix)
+    return this
+  }
+
+  /**
+   * The direction of the dimension line. It is parallel to the line between two extension line points
+   * unless the rotation angle is set.
+   */
+  protected get dimensionLineDirection() {
+    if (this._rotation) {
+      return new AcGeVector3d(
+        Math.cos(this._rotation),
+        Math.sin(this._rotation),
+        0
+      )
+    }
+    const direction = new AcGeVector3d().subVectors(
+      this._xLine2Point,
+      this._xLine1Point
+    )
+    return direction.length() > FLOAT_TOL
+      ? direction.normalize()
+      : new AcGeVector3d(AcGeVector3d.X_AXIS)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  protected computeMeasurement() {
+    // The measurement is the distance between extension line points along
+    // the dimension line
+    return Math.abs(
+      new AcGeVector3d()
+        .subVectors(this._xLine2Point, this._xLine1Point)
+        .dot(this.dimensionLineDirection)
+    )
+  }
+
+  /**
+   * @inheritdoc
+   */
+  protected drawDimensionGraphics(renderer: AcGiRenderer) {
+    const results: AcGiEntity[] = []
+    const push = (entity?: AcGiEntity) => {
+      if (entity) results.push(entity)
+    }
+    const dimStyle = this.dimensionStyle
+    const direction = this.dimensionLineDirection
+    // Project extension line points onto the dimension line
+    const project = (point: AcGePoint3d) =>
+      new AcGePoint3d(this._dimLinePoint).addScaledVector(
+        direction,
+        new AcGeVector3d().subVectors(point, this._dimLinePoint).dot(direction)
+      )
+    const start = project(this._xLine1Point)
+    const end = project(this._xLine2Point)
+
+    if (!dimStyle.dimse1) {
+      push(this.drawExtensionLine(renderer, this._xLine1Point, start))
+    }
+    if (!dimStyle.dimse2) {
+      push(this.drawExtensionLine(renderer, this._xLine2Point, end))
+    }
+    const text = this.formatMeasurement(start.distanceTo(end))
+    results.push(...this.drawLinearDimensionLine(renderer, start, end, text))
+    return results
+  }
+
   /**
    * @inheritdoc
    */
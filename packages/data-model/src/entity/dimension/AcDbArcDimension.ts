@@ -1,9 +1,13 @@
 import {
   AcGeBox3d,
+  AcGeMatrix3d,
   AcGePoint3d,
-  AcGePoint3dLike
+  AcGePoint3dLike,
+  AcGeVector3d
 } from '@mlightcad/geometry-engine'
+import { AcGiEntity, AcGiRenderer } from '@mlightcad/graphic-interface'
 
+import { getDimensionArc } from './AcDb3PointAngularDimension'
 import { AcDbDimension } from './AcDbDimension'
 
 /**
@@ -75,6 +79,7 @@ export class AcDbArcDimension extends AcDbDimension {
     return this._arcPoint
   }
   set arcPoint(value: AcGePoint3d) {
+    this.assertWriteEnabled()
     this._arcPoint.copy(value)
   }
 
@@ -90,6 +95,7 @@ export class AcDbArcDimension extends AcDbDimension {
     return this._centerPoint
   }
   set centerPoint(value: AcGePoint3d) {
+    this.assertWriteEnabled()
     this._centerPoint.copy(value)
   }
 
@@ -106,6 +112,7 @@ export class AcDbArcDimension extends AcDbDimension {
     return this._xLine1Point
   }
   set xLine1Point(value: AcGePoint3d) {
+    this.assertWriteEnabled()
     this._xLine1Point.copy(value)
   }
 
@@ -122,6 +129,7 @@ export class AcDbArcDimension extends AcDbDimension {
     return this._xLine2Point
   }
   set xLine2Point(value: AcGePoint3d) {
+    this.assertWriteEnabled()
     this._xLine2Point.copy(value)
   }
 
@@ -139,4 +147,86 @@ export class AcDbArcDimension extends AcDbDimension {
     // TODO: Finish it
     return new AcGeBox3d()
   }
+
+  /**
+   * @inheritdoc
+   */
+  transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    super.transformBy(matrix)
+    this._arcPoint.applyMatrix4(matrix)
+    this._centerPoint.applyMatrix4(matrix)
+    this._xLine1Point.applyMatrix4(matrix)
+    this._xLine2Point.applyMatrix4(matrix)
+    return this
+  }
+
+  /**
+   * @inheritdoc
+   */
+  protected computeMeasurement() {
+    const { sweep } = getDimensionArc(
+      this._centerPoint,
+      this._xLine1Point,
+      this._xLine2Point,
+      this._arcPoint
+    )
+    return this._centerPoint.distanceTo(this._xLine1Point) * sweep
+  }
+
+  /**
+   * @inheritdoc
+   */
+  protected get measurementPrefix() {
+    return '\u2312'
+  }
+
+  /**
+   * @inheritdoc
+   */
+  protected drawDimensionGraphics(renderer: AcGiRenderer) {
+    const results: AcGiEntity[] = []
+    const { radius, startAngle, endAngle, sweep } = getDimensionArc(
+      this._centerPoint,
+      this._xLine1Point,
+      this._xLine2Point,
+      this._arcPoint
+    )
+    const dimStyle = this.dimensionStyle
+    const pointAt = (angle: number) =>
+      new AcGePoint3d(this._centerPoint).addScaledVector(
+        new AcGeVector3d(Math.cos(angle), Math.sin(angle), 0),
+        radius
+      )
+    if (!dimStyle.dimse1) {
+      const line = this.drawExtensionLine(
+        renderer,
+        this._xLine1Point,
+        pointAt(startAngle)
+      )
+      if (line) results.push(line)
+    }
+    if (!dimStyle.dimse2) {
+      const line = this.drawExtensionLine(
+        renderer,
+        this._xLine2Point,
+        pointAt(endAngle)
+      )
+      if (line) results.push(line)
+    }
+    // The measured arc length is along the arc through extension line points
+    const arcRadius = this._centerPoint.distanceTo(this._xLine1Point)
+    const text = this.formatMeasurement(arcRadius * sweep)
+    results.push(
+      ...this.drawAngularDimensionArc(
+        renderer,
+        this._centerPoint,
+        radius,
+        startAngle,
+        endAngle,
+        text
+      )
+    )
+    return results
+  }
 }
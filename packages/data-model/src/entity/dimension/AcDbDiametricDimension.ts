@@ -1,5 +1,6 @@
 import {
   AcGeBox3d,
+  AcGeMatrix3d,
   AcGePoint3d,
   AcGePoint3dLike
 } from '@mlightcad/geometry-engine'
@@ -87,6 +88,7 @@ export class AcDbDiametricDimension extends AcDbDimension {
     return this._chordPoint
   }
   set chordPoint(value: AcGePoint3d) {
+    this.assertWriteEnabled()
     this._chordPoint.copy(value)
   }
 
@@ -103,6 +105,7 @@ export class AcDbDiametricDimension extends AcDbDimension {
     return this._farChordPoint
   }
   set farChordPoint(value: AcGePoint3d) {
+    this.assertWriteEnabled()
     this._farChordPoint.copy(value)
   }
 
@@ -118,6 +121,7 @@ export class AcDbDiametricDimension extends AcDbDimension {
     return this._extArcStartAngle
   }
   set extArcStartAngle(value: number) {
+    this.assertWriteEnabled()
     this._extArcStartAngle = value
   }
 
@@ -133,6 +137,7 @@ export class AcDbDiametricDimension extends AcDbDimension {
     return this._extArcEndAngle
   }
   set extArcEndAngle(value: number) {
+    this.assertWriteEnabled()
     this._extArcEndAngle = value
   }
 
@@ -165,6 +170,44 @@ export class AcDbDiametricDimension extends AcDbDimension {
     return new AcGeBox3d()
   }
 
+  /**
+   * @inheritdoc
+   */
+  transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    super.transformBy(matrix)
+    this._chordPoint.applyMatrix4(matrix)
+    this._farChordPoint.applyMatrix4(matrix)
+    return this
+  }
+
+  /**
+   * @inheritdoc
+   */
+  protected computeMeasurement() {
+    return this._chordPoint.distanceTo(this._farChordPoint)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  protected get measurementPrefix() {
+    return '%%c'
+  }
+
+  /**
+   * @inheritdoc
+   */
+  protected drawDimensionGraphics(renderer: AcGiRenderer) {
+    const text = this.formatMeasurement(this.computeMeasurement())
+    return this.drawLinearDimensionLine(
+      renderer,
+      this._farChordPoint,
+      this._chordPoint,
+      text
+    )
+  }
+
   /**
    * Draws the dimension lines with appropriate arrow styles.
    *
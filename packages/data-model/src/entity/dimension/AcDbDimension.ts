@@ -1,24 +1,39 @@
+import { AcCmColor, AcCmColorMethod } from '@mlightcad/common'
 import {
+  AcGeCircArc3d,
   AcGeLine3d,
+  AcGeMathUtil,
+  AcGeMatrix2d,
   AcGeMatrix3d,
   AcGePoint2dLike,
   AcGePoint3d,
   AcGePoint3dLike,
   AcGeVector3d,
-  AcGeVector3dLike
+  AcGeVector3dLike,
+  FLOAT_TOL
 } from '@mlightcad/geometry-engine'
 import {
   AcGiArrowStyle,
   AcGiArrowType,
+  AcGiEntity,
   AcGiLineArrowStyle,
+  AcGiMTextAttachmentPoint,
+  AcGiMTextFlowDirection,
   AcGiRenderer
 } from '@mlightcad/graphic-interface'
-import { AcDbObjectId } from 'base'
 
+import { AcDbObjectId } from '../../base'
 import { AcDbDimStyleTableRecord } from '../../database'
-import { AcDbRenderingCache } from '../../misc'
+import {
+  AcDbArrowHelper,
+  AcDbDimArrowType,
+  AcDbOsnapHelper,
+  AcDbOsnapMode,
+  AcDbRenderingCache
+} from '../../misc'
 import { AcDbEntity } from '../AcDbEntity'
 import { AcDbLine } from '../AcDbLine'
+import { AcDbDimensionFormatter } from './AcDbDimensionFormatter'
 
 /**
  * Defines the line spacing style for dimension text.
@@ -74,6 +89,8 @@ export abstract class AcDbDimension extends AcDbEntity {
   private _dimStyle?: AcDbDimStyleTableRecord
   /** The normal vector of the plane containing the block reference */
   private _normal: AcGeVector3d
+  /** Whether the text is placed at the default position */
+  private _isUsingDefaultTextPosition: boolean
 
   /**
    * Creates a new dimension entity.
@@ -99,6 +116,7 @@ export abstract class AcDbDimension extends AcDbEntity {
     this._textPosition = new AcGePoint3d()
     this._textRotation = 0
     this._normal = new AcGeVector3d(0, 0, 1)
+    this._isUsingDefaultTextPosition = true
   }
 
   /**
@@ -127,6 +145,7 @@ export abstract class AcDbDimension extends AcDbEntity {
    * ```
    */
   set dimBlockId(value: string | null) {
+    this.assertWriteEnabled()
     this._dimBlockId = value
   }
 
@@ -177,6 +196,7 @@ export abstract class AcDbDimension extends AcDbEntity {
 
    */
   set dimBlockPosition(value: AcGePoint3dLike) {
+    this.assertWriteEnabled()
     this._dimBlockPosition.copy(value)
   }
 
@@ -206,6 +226,7 @@ export abstract class AcDbDimension extends AcDbEntity {
    * ```
    */
   set dimensionStyleName(value: string | null) {
+    this.assertWriteEnabled()
     this._dimensionStyleName = value
   }
 
@@ -237,6 +258,16 @@ export abstract class AcDbDimension extends AcDbEntity {
     return this._dimStyle
   }
 
+  /**
+   * @inheritdoc
+   */
+  clone() {
+    const copy = super.clone()
+    // The cached dimension style may belong to another database
+    copy._dimStyle = undefined
+    return copy
+  }
+
   /**
    * Gets the user-supplied dimension annotation text string.
    *
@@ -258,16 +289,20 @@ export abstract class AcDbDimension extends AcDbEntity {
     return this._dimensionText
   }
   set dimensionText(value: string | null) {
+    this.assertWriteEnabled()
     this._dimensionText = value
   }
 
   /**
-   * The current measurement value for this dimension
+   * The current measurement value for this dimension. It is recomputed from the geometry of this
+   * dimension so that it is always up to date after the dimension is edited. The value stored in the
+   * drawing is returned only if it can't be computed.
    */
   get measurement() {
-    return this._measurement
+    return this.computeMeasurement() ?? this._measurement
   }
   set measurement(value: number | undefined) {
+    this.assertWriteEnabled()
     this._measurement = value
   }
 
@@ -278,6 +313,7 @@ export abstract class AcDbDimension extends AcDbEntity {
     return this._textLineSpacingFactor
   }
   set textLineSpacingFactor(value: number) {
+    this.assertWriteEnabled()
     this._textLineSpacingFactor = value
   }
 
@@ -288,18 +324,47 @@ export abstract class AcDbDimension extends AcDbEntity {
     return this._textLineSpacingStyle
   }
   set textLineSpacingStyle(value: AcDbLineSpacingStyle) {
+    this.assertWriteEnabled()
     this._textLineSpacingStyle = value
   }
 
   /**
    * The dimension's text position point. This is the middle center point of the text (which is itself an
-   * MText object with middle-center justification).
+   * MText object with middle-center justification). Setting it makes the dimension use the set text
+   * position instead of the default one.
    */
   get textPosition() {
     return this._textPosition
   }
-  set textPosition(value: AcGePoint3d) {
+  set textPosition(value: AcGePoint3dLike) {
+    this.assertWriteEnabled()
     this._textPosition.copy(value)
+    this._isUsingDefaultTextPosition = false
+  }
+
+  /**
+   * Returns true if the text is placed at the default position computed from definition points of the
+   * dimension instead of the text position. It is only used when the dimension graphics are generated
+   * because the dimension block doesn't exist.
+   */
+  get isUsingDefaultTextPosition() {
+    return this._isUsingDefaultTextPosition
+  }
+
+  /**
+   * Places the text at the default position computed from definition points of the dimension.
+   */
+  useDefaultTextPosition() {
+    this.assertWriteEnabled()
+    this._isUsingDefaultTextPosition = true
+  }
+
+  /**
+   * Places the text at the text position of the dimension.
+   */
+  useSetTextPosition() {
+    this.assertWriteEnabled()
+    this._isUsingDefaultTextPosition = false
   }
 
   /**
@@ -313,6 +378,7 @@ export abstract class AcDbDimension extends AcDbEntity {
     return this._textRotation
   }
   set textRotation(value: number) {
+    this.assertWriteEnabled()
     this._textRotation = value
   }
 
@@ -331,9 +397,98 @@ export abstract class AcDbDimension extends AcDbEntity {
    * @param value - The new normal vector
    */
   set normal(value: AcGeVector3dLike) {
+    this.assertWriteEnabled()
     this._normal.copy(value).normalize()
   }
 
+  /**
+   * Gets the object snap points for this dimension.
+   *
+   * Snap points are computed from entities in the dimension block, such as
+   * dimension lines, extension lines, arrows, text and definition points.
+   *
+   * @param osnapMode - The object snap mode
+   * @param pickPoint - The point where the user picked
+   * @param lastPoint - The last point picked by the user
+   * @param snapPoints - Array to populate with snap points
+   *
+   * @example
+   * ```typescript
+   * const snapPoints: AcGePoint3d[] = [];
+   * dimension.subGetOsnapPoints(AcDbOsnapMode.Node, pickPoint, lastPoint, snapPoints);
+   * // snapPoints now contains definition points of the dimension
+   * ```
+   */
+  subGetOsnapPoints(
+    osnapMode: AcDbOsnapMode,
+    pickPoint: AcGePoint3dLike,
+    lastPoint: AcGePoint3dLike,
+    snapPoints: AcGePoint3dLike[]
+  ) {
+    if (!this.dimBlockId) return
+    const blockTableRecord = this.database.tables.blockTable.getAt(
+      this.dimBlockId
+    )
+    if (blockTableRecord == null) return
+    AcDbOsnapHelper.getTransformedOsnapPoints(
+      new AcGeMatrix3d().makeTranslation(this.dimBlockPosition),
+      osnapMode,
+      pickPoint,
+      lastPoint,
+      snapPoints,
+      (localPickPoint, localLastPoint, localSnapPoints) => {
+        for (const entity of blockTableRecord.newIterator()) {
+          entity.subGetOsnapPoints(
+            osnapMode,
+            localPickPoint,
+            localLastPoint,
+            localSnapPoints
+          )
+        }
+      }
+    )
+  }
+
+  /**
+   * Transforms this dimension by the specified matrix.
+   *
+   * The text position, the normal and entities in the block referenced by this
+   * dimension are transformed. Subclasses should override this method to
+   * transform their own defining points and call this method.
+   *
+   * @param matrix - The transformation matrix to apply
+   * @returns This dimension after transformation
+   *
+   * @example
+   * ```typescript
+   * const translationMatrix = AcGeMatrix3d.translation(10, 0, 0);
+   * dimension.transformBy(translationMatrix);
+   * // Dimension is now translated 10 units in the X direction
+   * ```
+   */
+  transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    this._textPosition.applyMatrix4(matrix)
+    this._normal.applyNormalMatrix(new AcGeMatrix2d().getNormalMatrix(matrix))
+    if (this.dimBlockId) {
+      const blockTableRecord = this.database.tables.blockTable.getAt(
+        this.dimBlockId
+      )
+      if (blockTableRecord) {
+        // Entities in the dimension block are offset by the block position
+        const position = this.dimBlockPosition
+        const blockMatrix = new AcGeMatrix3d()
+          .makeTranslation(-position.x, -position.y, -position.z)
+          .multiply(matrix)
+          .multiply(new AcGeMatrix3d().makeTranslation(position))
+        for (const entity of blockTableRecord.newIterator()) {
+          entity.transformBy(blockMatrix)
+        }
+      }
+    }
+    return this
+  }
+
   /**
    * @inheritdoc
    */
@@ -356,11 +511,453 @@ export abstract class AcDbDimension extends AcDbEntity {
         return group
       }
     }
-    const group = renderer.group([])
+    // Dimensions created by API or exported by some applications don't have
+    // the dimension block. So generate graphics from definition points.
+    this.attachToEntityTraits(renderer.subEntityTraits)
+    const group = renderer.group(this.drawDimensionGraphics(renderer))
+    this.attachToEntityTraits(renderer.subEntityTraits)
     this.attachEntityInfo(group)
     return group
   }
 
+  /**
+   * Generates graphics of this dimension, such as extension lines, dimension lines, arrows and text,
+   * from definition points of this dimension. It is called when the block referenced by this dimension
+   * doesn't exist. Subclasses should override this method to draw their own graphics.
+   *
+   * @param renderer - The renderer to use for drawing
+   * @returns The rendered graphics
+   */
+  // @ts-expect-error not use '_' prefix so that typedoc can the correct parameter to generate doc
+  protected drawDimensionGraphics(renderer: AcGiRenderer): AcGiEntity[] {
+    return []
+  }
+
+  /**
+   * The overall scale factor applied to sizes, such as arrow size and text height, of this dimension
+   */
+  protected get overallScale() {
+    return this.dimensionStyle.dimscale || 1
+  }
+
+  /**
+   * The height of the dimension text
+   */
+  protected get textHeight() {
+    return this.dimensionStyle.dimtxt * this.overallScale
+  }
+
+  /**
+   * The size of arrows. Tick marks are used instead of arrows if DIMTSZ isn't zero.
+   */
+  protected get arrowSize() {
+    const dimStyle = this.dimensionStyle
+    return (dimStyle.dimtsz || dimStyle.dimasz) * this.overallScale
+  }
+
+  /**
+   * Draws the dimension line between two points with arrows at both ends, and the dimension text. Arrows
+   * are placed outside if there isn't enough space between the two points. If the default text position
+   * is used, the text is placed above the dimension line or centered on it according to DIMTAD.
+   *
+   * @param renderer - The renderer to use for drawing
+   * @param start - The start point of the dimension line where the first arrow is
+   * @param end - The end point of the dimension line where the second arrow is
+   * @param text - The dimension text
+   * @returns The rendered dimension line, arrows and text
+   */
+  protected drawLinearDimensionLine(
+    renderer: AcGiRenderer,
+    start: AcGePoint3d,
+    end: AcGePoint3d,
+    text: string
+  ) {
+    const results: AcGiEntity[] = []
+    const push = (entity?: AcGiEntity) => {
+      if (entity) results.push(entity)
+    }
+    const dimStyle = this.dimensionStyle
+    const length = start.distanceTo(end)
+    const direction =
+      length > FLOAT_TOL
+        ? new AcGeVector3d().subVectors(end, start).normalize()
+        : new AcGeVector3d(AcGeVector3d.X_AXIS)
+    const arrowSize = this.arrowSize
+    const isOutside = !dimStyle.dimtsz && length < arrowSize * 2
+
+    // Extend the dimension line beyond extension lines for tick marks or
+    // arrows placed outside
+    const extension = isOutside
+      ? arrowSize * 2
+      : dimStyle.dimtsz
+        ? dimStyle.dimdle * this.overallScale
+        : 0
+    const lineStart = new AcGePoint3d(start).addScaledVector(
+      direction,
+      -extension
+    )
+    const lineEnd = new AcGePoint3d(end).addScaledVector(direction, extension)
+
+    const rotation = this.getTextRotation(direction)
+    const width = this.estimateTextWidth(text)
+    const gap = dimStyle.dimgap * this.overallScale
+    const middle = new AcGePoint3d().lerpVectors(start, end, 0.5)
+    let position = this.textPosition
+    let breakLine = false
+    if (this.isUsingDefaultTextPosition) {
+      if (dimStyle.dimtad) {
+        const up = new AcGeVector3d(-Math.sin(rotation), Math.cos(rotation), 0)
+        position = middle.addScaledVector(up, gap + this.textHeight / 2)
+      } else {
+        position = middle
+        breakLine = !!text && length > width + gap * 2
+      }
+    }
+
+    if (breakLine) {
+      const halfGap = width / 2 + gap
+      push(
+        this.drawDimensionLine(renderer, [
+          lineStart,
+          new AcGePoint3d(position).addScaledVector(direction, -halfGap)
+        ])
+      )
+      push(
+        this.drawDimensionLine(renderer, [
+          new AcGePoint3d(position).addScaledVector(direction, halfGap),
+          lineEnd
+        ])
+      )
+    } else {
+      push(this.drawDimensionLine(renderer, [lineStart, lineEnd]))
+    }
+
+    const outward = direction.clone().multiplyScalar(isOutside ? 1 : -1)
+    push(this.drawArrow(renderer, start, outward, true))
+    push(this.drawArrow(renderer, end, outward.clone().negate(), false))
+    push(this.drawText(renderer, text, position, rotation))
+    return results
+  }
+
+  /**
+   * Draws the dimension arc with arrows at both ends, and the dimension text. It is used by angular and
+   * arc length dimensions. The arc goes counterclockwise from the start angle to the end angle. If the
+   * default text position is used, the text is placed above the middle of the dimension arc or centered
+   * on it according to DIMTAD.
+   *
+   * @param renderer - The renderer to use for drawing
+   * @param center - The center of the dimension arc
+   * @param radius - The radius of the dimension arc
+   * @param startAngle - The start angle of the dimension arc in radians
+   * @param endAngle - The end angle of the dimension arc in radians
+   * @param text - The dimension text
+   * @returns The rendered dimension arc, arrows and text
+   */
+  protected drawAngularDimensionArc(
+    renderer: AcGiRenderer,
+    center: AcGePoint3d,
+    radius: number,
+    startAngle: number,
+    endAngle: number,
+    text: string
+  ) {
+    const results: AcGiEntity[] = []
+    const push = (entity?: AcGiEntity) => {
+      if (entity) results.push(entity)
+    }
+    const dimStyle = this.dimensionStyle
+    const pointAt = (angle: number, distance: number = radius) =>
+      new AcGePoint3d(center).add({
+        x: distance * Math.cos(angle),
+        y: distance * Math.sin(angle),
+        z: 0
+      })
+    const tangentAt = (angle: number) =>
+      new AcGeVector3d(-Math.sin(angle), Math.cos(angle), 0)
+    const arc = (start: number, end: number) =>
+      new AcGeCircArc3d(center, radius, start, end, AcGeVector3d.Z_AXIS)
+
+    const sweep = AcGeMathUtil.normalizeAngle(endAngle - startAngle)
+    const middleAngle = startAngle + sweep / 2
+    const width = this.estimateTextWidth(text)
+    const gap = dimStyle.dimgap * this.overallScale
+    let position = this.textPosition
+    let rotation: number
+    let breakAngle = 0
+    if (this.isUsingDefaultTextPosition) {
+      rotation = this.getTextRotation(tangentAt(middleAngle))
+      if (dimStyle.dimtad) {
+        position = pointAt(middleAngle, radius + gap + this.textHeight / 2)
+      } else {
+        position = pointAt(middleAngle)
+        if (text && radius > 0) {
+          breakAngle = (width / 2 + gap) / radius
+          if (breakAngle * 2 >= sweep) breakAngle = 0
+        }
+      }
+    } else {
+      const offset = new AcGeVector3d().subVectors(position, center)
+      rotation = this.getTextRotation(tangentAt(Math.atan2(offset.y, offset.x)))
+    }
+
+    if (breakAngle > 0) {
+      push(
+        this.drawDimensionArc(
+          renderer,
+          arc(startAngle, middleAngle - breakAngle)
+        )
+      )
+      push(
+        this.drawDimensionArc(renderer, arc(middleAngle + breakAngle, endAngle))
+      )
+    } else {
+      push(this.drawDimensionArc(renderer, arc(startAngle, endAngle)))
+    }
+
+    // Arrows point outward along the arc if there is enough space
+    const sign =
+      !dimStyle.dimtsz && radius * sweep < this.arrowSize * 2 ? 1 : -1
+    push(
+      this.drawArrow(
+        renderer,
+        pointAt(startAngle),
+        tangentAt(startAngle).multiplyScalar(sign),
+        true
+      )
+    )
+    push(
+      this.drawArrow(
+        renderer,
+        pointAt(endAngle),
+        tangentAt(endAngle).multiplyScalar(-sign),
+        false
+      )
+    )
+    push(this.drawText(renderer, text, position, rotation))
+    return results
+  }
+
+  /**
+   * Draws the center mark of radial and diametric dimensions according to DIMCEN.
+   *
+   * @param renderer - The renderer to use for drawing
+   * @param center - The center of the circle or arc
+   * @returns The rendered center mark
+   */
+  protected drawCenterMark(renderer: AcGiRenderer, center: AcGePoint3dLike) {
+    const results: AcGiEntity[] = []
+    const size = Math.abs(this.dimensionStyle.dimcen) * this.overallScale
+    if (size > 0) {
+      const { x, y, z } = center
+      results.push(
+        this.drawDimensionLine(renderer, [
+          { x: x - size, y, z },
+          { x: x + size, y, z }
+        ]),
+        this.drawDimensionLine(renderer, [
+          { x, y: y - size, z },
+          { x, y: y + size, z }
+        ])
+      )
+    }
+    return results
+  }
+
+  /**
+   * Draws the extension line from the specified definition point to the specified point on the dimension
+   * line. The extension line is offset from the definition point by DIMEXO and extends beyond the
+   * dimension line by DIMEXE.
+   *
+   * @param renderer - The renderer to use for drawing
+   * @param origin - The definition point where the extension line starts
+   * @param end - The point on the dimension line where the extension line ends
+   * @returns The rendered extension line, or undefined if the extension line has zero length
+   */
+  protected drawExtensionLine(
+    renderer: AcGiRenderer,
+    origin: AcGePoint3dLike,
+    end: AcGePoint3dLike
+  ) {
+    const line = new AcGeLine3d(origin, end)
+    if (line.length < FLOAT_TOL) return undefined
+    this.adjustExtensionLine(line)
+    this.setTraitsColor(renderer, this.dimensionStyle.dimclre)
+    return renderer.lines([line.startPoint, line.endPoint])
+  }
+
+  /**
+   * Draws the dimension line through the specified points.
+   *
+   * @param renderer - The renderer to use for drawing
+   * @param points - Points of the dimension line
+   * @returns The rendered dimension line
+   */
+  protected drawDimensionLine(
+    renderer: AcGiRenderer,
+    points: AcGePoint3dLike[]
+  ) {
+    this.setTraitsColor(renderer, this.dimensionStyle.dimclrd)
+    return renderer.lines(points)
+  }
+
+  /**
+   * Draws the dimension arc of angular and arc length dimensions.
+   *
+   * @param renderer - The renderer to use for drawing
+   * @param arc - The dimension arc
+   * @returns The rendered dimension arc
+   */
+  protected drawDimensionArc(renderer: AcGiRenderer, arc: AcGeCircArc3d) {
+    this.setTraitsColor(renderer, this.dimensionStyle.dimclrd)
+    return renderer.circularArc(arc)
+  }
+
+  /**
+   * Draws the first or second arrow of this dimension.
+   *
+   * @param renderer - The renderer to use for drawing
+   * @param tip - The tip point of the arrow
+   * @param direction - The direction the arrow points to
+   * @param isFirst - True to draw the first arrow, false to draw the second arrow
+   * @returns The rendered arrow, or undefined if nothing is drawn
+   */
+  protected drawArrow(
+    renderer: AcGiRenderer,
+    tip: AcGePoint3dLike,
+    direction: AcGeVector3dLike,
+    isFirst: boolean
+  ) {
+    const dimStyle = this.dimensionStyle
+    const arrowType = dimStyle.dimtsz
+      ? AcDbDimArrowType.Oblique
+      : AcDbArrowHelper.getArrowType(
+          this.database,
+          isFirst ? this.firstArrowTypeBtrId : this.secondArrowTypeBtrId
+        )
+    this.setTraitsColor(renderer, dimStyle.dimclrd)
+    return AcDbArrowHelper.draw(
+      renderer,
+      this.database,
+      arrowType,
+      tip,
+      direction,
+      this.arrowSize,
+      renderer.subEntityTraits.rgbColor
+    )
+  }
+
+  /**
+   * Draws the dimension text. The text is centered at the specified position.
+   *
+   * @param renderer - The renderer to use for drawing
+   * @param text - The text to draw
+   * @param position - The middle center point of the text
+   * @param rotation - The rotation angle of the text in radians
+   * @returns The rendered text, or undefined if the text is empty
+   */
+  protected drawText(
+    renderer: AcGiRenderer,
+    text: string,
+    position: AcGePoint3dLike,
+    rotation: number
+  ) {
+    if (!text) return undefined
+    this.setTraitsColor(renderer, this.dimensionStyle.dimclrt)
+    return renderer.mtext(
+      {
+        text,
+        height: this.textHeight,
+        width: 0,
+        position,
+        rotation,
+        attachmentPoint: AcGiMTextAttachmentPoint.MiddleCenter,
+        drawingDirection: AcGiMTextFlowDirection.LEFT_TO_RIGHT
+      },
+      this.getTextStyle()
+    )
+  }
+
+  /**
+   * Estimates the width of the specified dimension text. Formatting codes are ignored.
+   *
+   * @param text - The dimension text
+   * @returns The estimated width of the text
+   */
+  protected estimateTextWidth(text: string) {
+    const plainText = text
+      .replace(/\\S([^^;]*)\^([^;]*);/g, (_, upper: string, lower: string) =>
+        upper.length > lower.length ? upper : lower
+      )
+      .replace(/%%[cdp]/gi, '0')
+      .replace(/\\P/g, '')
+    return plainText.length * this.textHeight * 0.7
+  }
+
+  /**
+   * Gets the readable rotation angle of text along the specified direction. Text is never drawn upside
+   * down.
+   *
+   * @param direction - The direction of the text
+   * @returns The rotation angle in radians
+   */
+  protected getTextRotation(direction: AcGeVector3dLike) {
+    if (this.textRotation) return this.textRotation
+    let angle = Math.atan2(direction.y, direction.x)
+    if (angle > Math.PI / 2 + FLOAT_TOL) angle -= Math.PI
+    else if (angle <= -Math.PI / 2 + FLOAT_TOL) angle += Math.PI
+    return angle
+  }
+
+  /**
+   * Formats the specified measurement as the dimension text according to the dimension style, including
+   * the prefix, the suffix (DIMPOST), tolerances (DIMTOL and DIMLIM) and alternate units (DIMALT). '<>' in
+   * the user-supplied dimension text is replaced by the formatted measurement.
+   *
+   * @param measurement - The measurement in drawing units, or in radians for angular dimensions. The
+   * current measurement of this dimension is used by default.
+   * @returns The dimension text, or empty string if no text is displayed
+   *
+   * @example
+   * ```typescript
+   * dimension.xLine2Point = new AcGePoint3d(20, 0, 0);
+   * console.log(dimension.formatMeasurement()); // '20.0000'
+   * ```
+   */
+  formatMeasurement(measurement: number = this.measurement ?? 0) {
+    return new AcDbDimensionFormatter(this.dimensionStyle).formatMeasurement(
+      measurement,
+      {
+        isAngular: this.isAngular,
+        prefix: this.measurementPrefix,
+        dimensionText: this.dimensionText
+      }
+    )
+  }
+
+  /**
+   * Computes the measurement from the geometry of this dimension. Derived classes should override it
+   * to return the measured distance, or the measured angle in radians for angular dimensions.
+   *
+   * @returns The measurement, or undefined if it can't be computed
+   */
+  protected computeMeasurement(): number | undefined {
+    return undefined
+  }
+
+  /**
+   * True if the measurement of this dimension is one angle
+   */
+  protected get isAngular() {
+    return false
+  }
+
+  /**
+   * The prefix of the default dimension text, such as 'R' for radial dimensions
+   */
+  protected get measurementPrefix() {
+    return ''
+  }
+
   protected drawFirstArrow(renderer: AcGiRenderer) {
     const blockTableRecord = this.database.tables.blockTable.getAt(
       this.firstArrowType
@@ -530,8 +1127,30 @@ export abstract class AcDbDimension extends AcDbEntity {
    */
   protected adjustExtensionLine(extensionLine: AcGeLine3d) {
     const dimStyle = this.dimensionStyle
-    extensionLine.extend(dimStyle.dimexe)
-    extensionLine.extend(-dimStyle.dimexo, true)
+    extensionLine.extend(dimStyle.dimexe * this.overallScale)
+    extensionLine.extend(-dimStyle.dimexo * this.overallScale, true)
+  }
+
+  /**
+   * Sets the color used to draw the next part of this dimension. 'ByLayer' and 'ByBlock' colors are
+   * resolved to the color of this dimension.
+   */
+  private setTraitsColor(renderer: AcGiRenderer, colorIndex: number) {
+    renderer.subEntityTraits.rgbColor =
+      colorIndex > 0 && colorIndex < 256
+        ? new AcCmColor(AcCmColorMethod.ByACI, colorIndex).RGB!
+        : this.rgbColor
+  }
+
+  private getTextStyle() {
+    const textStyleTable = this.database.tables.textStyleTable
+    const name = this.dimensionStyle.dimtxsty
+    let style = textStyleTable.getIdAt(name) || textStyleTable.getAt(name)
+    if (!style) {
+      style = (textStyleTable.getAt('STANDARD') ||
+        textStyleTable.getAt('Standard'))!
+    }
+    return style.textStyle
   }
 
   /**
@@ -0,0 +1,416 @@
+import { AcDbDimStyleTableRecord } from '../../database'
+import { AcDbAngleUnits } from '../../misc'
+
+/**
+ * Unit formats used by DIMLUNIT and DIMALTU
+ */
+enum AcDbDimUnitFormat {
+  Scientific = 1,
+  Decimal = 2,
+  Engineering = 3,
+  Architectural = 4,
+  Fractional = 5,
+  WindowsDesktop = 6
+}
+
+/**
+ * Options to format the measurement of one dimension.
+ */
+export interface AcDbDimensionFormatOptions {
+  /**
+   * True if the measurement is one angle in radians
+   */
+  isAngular?: boolean
+  /**
+   * The prefix of the measurement, such as 'R' for radial dimensions
+   */
+  prefix?: string
+  /**
+   * The user-supplied dimension text. '<>' in it is replaced by the primary
+   * measurement and '[]' is replaced by the alternate measurement. Empty
+   * string or null means the default text. '.' means no text.
+   */
+  dimensionText?: string | null
+}
+
+/**
+ * Formats dimension measurements as dimension text according to settings of
+ * one dimension style.
+ *
+ * The following dimension variables are used:
+ * - Linear values: DIMLUNIT, DIMDEC, DIMRND, DIMZIN, DIMLFAC, DIMFRAC,
+ *   DIMDSEP and DIMPOST
+ * - Angular values: DIMAUNIT, DIMADEC and DIMAZIN
+ * - Tolerances: DIMTOL, DIMLIM, DIMTP, DIMTM, DIMTDEC and DIMTZIN
+ * - Alternate units: DIMALT, DIMALTF, DIMALTU, DIMALTD, DIMALTRND, DIMALTZ
+ *   and DIMAPOST
+ *
+ * Stacked fractions and tolerances are formatted with MText stacking codes.
+ *
+ * @example
+ * ```typescript
+ * const formatter = new AcDbDimensionFormatter(dimension.dimensionStyle);
+ * const text = formatter.formatMeasurement(25.4, { prefix: 'R' });
+ * ```
+ */
+export class AcDbDimensionFormatter {
+  private _dimStyle: AcDbDimStyleTableRecord
+
+  /**
+   * Creates a formatter using the specified dimension style.
+   *
+   * @param dimStyle - The dimension style providing format settings
+   */
+  constructor(dimStyle: AcDbDimStyleTableRecord) {
+    this._dimStyle = dimStyle
+  }
+
+  /**
+   * Formats the specified measurement as the complete dimension text,
+   * including the prefix, suffix, tolerances and alternate units.
+   *
+   * @param measurement - The measurement in drawing units, or in radians for
+   * angular dimensions
+   * @param options - Options to format the measurement
+   * @returns The dimension text, or empty string if no text is displayed
+   */
+  formatMeasurement(
+    measurement: number,
+    options: AcDbDimensionFormatOptions = {}
+  ) {
+    const { isAngular = false, prefix = '', dimensionText } = options
+    if (dimensionText === '.') return ''
+
+    const dimStyle = this._dimStyle
+    let primary: string
+    let alternate = ''
+    if (isAngular) {
+      primary = prefix + this.formatAngle(measurement)
+    } else {
+      const length = measurement * dimStyle.dimlfac
+      if (dimStyle.dimlim) {
+        const upper = this.formatLength(length + dimStyle.dimtp)
+        const lower = this.formatLength(length - dimStyle.dimtm)
+        primary = `\\S${upper}^${lower};`
+      } else {
+        primary = this.formatLength(length)
+      }
+      primary = applySuffix(prefix + primary, dimStyle.dimpost)
+      if (dimStyle.dimtol && !dimStyle.dimlim) {
+        primary += this.formatTolerance()
+      }
+      if (dimStyle.dimalt) {
+        alternate = applySuffix(
+          this.formatAlternateLength(measurement),
+          dimStyle.dimapost
+        )
+      }
+    }
+
+    const defaultText = alternate ? `${primary} [${alternate}]` : primary
+    if (!dimensionText) return defaultText
+    if (dimensionText.includes('[]')) {
+      return dimensionText.replace(/<>/g, primary).replace(/\[\]/g, alternate)
+    }
+    return dimensionText.replace(/<>/g, defaultText)
+  }
+
+  /**
+   * Formats the specified linear value in primary units. DIMLFAC isn't
+   * applied to the value.
+   *
+   * @param value - The linear value to format
+   * @returns The formatted value
+   */
+  formatLength(value: number) {
+    const dimStyle = this._dimStyle
+    return this.formatNumber(
+      roundTo(value, dimStyle.dimrnd),
+      dimStyle.dimlunit,
+      dimStyle.dimdec,
+      dimStyle.dimzin
+    )
+  }
+
+  /**
+   * Formats the specified measurement in alternate units. The measurement is
+   * multiplied by DIMLFAC and DIMALTF.
+   *
+   * @param measurement - The measurement in drawing units
+   * @returns The formatted value in alternate units
+   */
+  formatAlternateLength(measurement: number) {
+    const dimStyle = this._dimStyle
+    const value = measurement * dimStyle.dimlfac * dimStyle.dimaltf
+    // DIMALTU uses 6 and 7 for unstacked architectural and fractional units
+    let unit = dimStyle.dimaltu
+    let stacked = true
+    if (unit === 6 || unit === 7) {
+      unit -= 2
+      stacked = false
+    } else if (unit === 8) {
+      unit = AcDbDimUnitFormat.WindowsDesktop
+    }
+    return this.formatNumber(
+      roundTo(value, dimStyle.dimaltrnd),
+      unit,
+      dimStyle.dimaltd,
+      dimStyle.dimaltz,
+      stacked
+    )
+  }
+
+  /**
+   * Formats the specified angle according to DIMAUNIT, DIMADEC and DIMAZIN.
+   *
+   * @param angle - The angle in radians
+   * @returns The formatted angle
+   */
+  formatAngle(angle: number) {
+    const dimStyle = this._dimStyle
+    const decimals = dimStyle.dimadec < 0 ? dimStyle.dimdec : dimStyle.dimadec
+    const leading = (dimStyle.dimazin & 1) !== 0
+    const trailing = (dimStyle.dimazin & 2) !== 0
+    const degrees = (angle * 180) / Math.PI
+    switch (dimStyle.dimaunit) {
+      case AcDbAngleUnits.DegreesMinutesSeconds:
+      case AcDbAngleUnits.SurveyorsUnits:
+        return this.formatDms(degrees, decimals)
+      case AcDbAngleUnits.Gradians:
+        return (
+          this.formatDecimal(
+            (angle * 200) / Math.PI,
+            decimals,
+            leading,
+            trailing
+          ) + 'g'
+        )
+      case AcDbAngleUnits.Radians:
+        return this.formatDecimal(angle, decimals, leading, trailing) + 'r'
+      default:
+        return this.formatDecimal(degrees, decimals, leading, trailing) + '%%d'
+    }
+  }
+
+  /**
+   * Formats tolerance values appended to the primary measurement. Symmetrical
+   * tolerances are formatted as '±value' and deviation tolerances are stacked.
+   */
+  private formatTolerance() {
+    const dimStyle = this._dimStyle
+    const format = (value: number) =>
+      this.formatNumber(
+        Math.abs(value),
+        dimStyle.dimlunit,
+        dimStyle.dimtdec,
+        dimStyle.dimtzin
+      )
+    if (dimStyle.dimtp === dimStyle.dimtm) {
+      return `%%p${format(dimStyle.dimtp)}`
+    }
+    const upper = (dimStyle.dimtp < 0 ? '-' : '+') + format(dimStyle.dimtp)
+    const lower = (dimStyle.dimtm < 0 ? '+' : '-') + format(dimStyle.dimtm)
+    return `\\S${upper}^${lower};`
+  }
+
+  /**
+   * Formats the specified number in the specified unit format.
+   *
+   * @param value - The number to format
+   * @param unit - The unit format defined by DIMLUNIT
+   * @param decimals - The number of decimal places, or the precision of
+   * fractions as the power of 2 of the denominator
+   * @param zeroSuppression - The zero suppression flags defined by DIMZIN
+   * @param stacked - Whether fractions are stacked according to DIMFRAC
+   */
+  private formatNumber(
+    value: number,
+    unit: number,
+    decimals: number,
+    zeroSuppression: number,
+    stacked: boolean = true
+  ) {
+    const leading = (zeroSuppression & 4) !== 0
+    const trailing = (zeroSuppression & 8) !== 0
+    const sign = value < 0 ? '-' : ''
+    const absValue = Math.abs(value)
+    let text: string
+    switch (unit) {
+      case AcDbDimUnitFormat.Scientific:
+        return this.formatScientific(value, decimals, trailing)
+      case AcDbDimUnitFormat.Engineering:
+        text = this.formatFeetAndInches(absValue, decimals, zeroSuppression)
+        break
+      case AcDbDimUnitFormat.Architectural:
+        text = this.formatFeetAndInches(
+          absValue,
+          decimals,
+          zeroSuppression,
+          stacked
+        )
+        break
+      case AcDbDimUnitFormat.Fractional:
+        text = this.formatFraction(absValue, decimals, stacked)
+        break
+      default:
+        return this.formatDecimal(value, decimals, leading, trailing)
+    }
+    // Avoid showing negative zero values such as '-0"'
+    return Number(text.replace(/[^0-9]/g, '')) === 0 ? text : sign + text
+  }
+
+  private formatDecimal(
+    value: number,
+    decimals: number,
+    leading: boolean,
+    trailing: boolean
+  ) {
+    let text = Math.abs(value).toFixed(clampDecimals(decimals))
+    // Avoid showing '-0.00'
+    const sign = value < 0 && Number(text) !== 0 ? '-' : ''
+    if (trailing && text.includes('.')) {
+      text = text.replace(/0+$/, '').replace(/\.$/, '')
+    }
+    if (leading && text.startsWith('0.')) {
+      text = text.substring(1)
+    }
+    return sign + this.replaceSeparator(text || '0')
+  }
+
+  private formatScientific(value: number, decimals: number, trailing: boolean) {
+    const [mantissa, exponent] = value
+      .toExponential(clampDecimals(decimals))
+      .split('e')
+    const digits = exponent.substring(1).padStart(2, '0')
+    let text = mantissa
+    if (trailing && text.includes('.')) {
+      text = text.replace(/0+$/, '').replace(/\.$/, '')
+    }
+    return `${this.replaceSeparator(text)}E${exponent[0]}${digits}`
+  }
+
+  /**
+   * Formats the specified value in inches as feet and inches. Inches are
+   * formatted as fractions for architectural units or decimals for
+   * engineering units.
+   */
+  private formatFeetAndInches(
+    value: number,
+    decimals: number,
+    zeroSuppression: number,
+    fractional?: boolean
+  ) {
+    let feet = Math.floor(value / 12)
+    let inches = value - feet * 12
+    let inchText: string
+    if (fractional == null) {
+      inchText = inches.toFixed(clampDecimals(decimals))
+      if (Number(inchText) >= 12) {
+        feet += 1
+        inches = 0
+        inchText = inches.toFixed(clampDecimals(decimals))
+      }
+      inchText = this.formatDecimal(
+        Number(inchText),
+        decimals,
+        (zeroSuppression & 4) !== 0,
+        (zeroSuppression & 8) !== 0
+      )
+    } else {
+      const denominator = Math.pow(2, Math.max(0, Math.min(8, decimals)))
+      if (Math.round(inches * denominator) >= 12 * denominator) {
+        feet += 1
+        inches = 0
+      }
+      inchText = this.formatFraction(inches, decimals, fractional)
+    }
+    inches = Number(inchText.replace(/[^0-9.]/g, '')) === 0 ? 0 : inches
+
+    // The lowest two bits of DIMZIN control suppression of zero feet and zero
+    // inches
+    const mode = zeroSuppression & 3
+    const hideFeet = feet === 0 && (mode === 0 || mode === 3)
+    const hideInches = inches === 0 && (mode === 0 || mode === 2)
+    if (hideFeet && hideInches) return '0"'
+    if (hideFeet) return `${inchText}"`
+    if (hideInches) return `${feet}'`
+    return `${feet}'-${inchText}"`
+  }
+
+  /**
+   * Formats the specified value as one whole number and one fraction whose
+   * denominator is 2 to the power of the specified precision.
+   */
+  private formatFraction(value: number, precision: number, stacked: boolean) {
+    let denominator = Math.pow(2, Math.max(0, Math.min(8, precision)))
+    let numerator = Math.round(value * denominator)
+    const whole = Math.floor(numerator / denominator)
+    numerator -= whole * denominator
+    if (numerator === 0) return String(whole)
+    while (numerator % 2 === 0) {
+      numerator /= 2
+      denominator /= 2
+    }
+
+    let fraction: string
+    const fractionFormat = this._dimStyle.dimfrac
+    if (!stacked || fractionFormat === 2) {
+      fraction = `${numerator}/${denominator}`
+    } else if (fractionFormat === 1) {
+      fraction = `\\S${numerator}#${denominator};`
+    } else {
+      fraction = `\\S${numerator}/${denominator};`
+    }
+    return whole === 0 ? fraction : `${whole} ${fraction}`
+  }
+
+  /**
+   * Formats the specified angle in degrees as degrees, minutes and seconds.
+   * DIMADEC controls which parts are shown: 0 for degrees only, 1 or 2 for
+   * degrees and minutes, 3 or 4 for degrees, minutes and seconds, and larger
+   * values for decimal places of seconds.
+   */
+  private formatDms(degrees: number, decimals: number) {
+    const sign = degrees < 0 ? '-' : ''
+    const value = Math.abs(degrees)
+    if (decimals <= 0) {
+      return `${sign}${Math.round(value)}%%d`
+    }
+    if (decimals <= 2) {
+      const minutes = Math.round(value * 60)
+      return `${sign}${Math.floor(minutes / 60)}%%d${minutes % 60}'`
+    }
+    const secondDecimals = clampDecimals(decimals - 4)
+    const factor = Math.pow(10, secondDecimals)
+    const totalSeconds = Math.round(value * 3600 * factor) / factor
+    const wholeDegrees = Math.floor(totalSeconds / 3600)
+    const minutes = Math.floor((totalSeconds - wholeDegrees * 3600) / 60)
+    const seconds = totalSeconds - wholeDegrees * 3600 - minutes * 60
+    return (
+      `${sign}${wholeDegrees}%%d${minutes}'` +
+      `${this.replaceSeparator(seconds.toFixed(secondDecimals))}"`
+    )
+  }
+
+  private replaceSeparator(text: string) {
+    const separator = this._dimStyle.dimdsep
+    return separator && separator !== '.' ? text.replace('.', separator) : text
+  }
+}
+
+/**
+ * Applies the suffix defined by DIMPOST or DIMAPOST. '<>' in the suffix means
+ * the position of the value.
+ */
+function applySuffix(value: string, suffix: string) {
+  if (!suffix) return value
+  return suffix.includes('<>') ? suffix.replace('<>', value) : value + suffix
+}
+
+function roundTo(value: number, increment: number) {
+  return increment > 0 ? Math.round(value / increment) * increment : value
+}
+
+function clampDecimals(decimals: number) {
+  return Math.max(0, Math.min(8, Math.floor(decimals)))
+}
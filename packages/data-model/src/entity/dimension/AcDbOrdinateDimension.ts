@@ -1,8 +1,11 @@
 import {
   AcGeBox3d,
+  AcGeMatrix3d,
   AcGePoint3d,
-  AcGePoint3dLike
+  AcGePoint3dLike,
+  AcGeVector3d
 } from '@mlightcad/geometry-engine'
+import { AcGiEntity, AcGiRenderer } from '@mlightcad/graphic-interface'
 
 import { AcDbDimension } from './AcDbDimension'
 
@@ -25,6 +28,8 @@ export class AcDbOrdinateDimension extends AcDbDimension {
 
   private _definingPoint: AcGePoint3d
   private _leaderEndPoint: AcGePoint3d
+  private _origin: AcGePoint3d
+  private _isUsingXAxis: boolean
 
   /**
    * Creates a new ordinate dimension.
@@ -48,12 +53,61 @@ export class AcDbOrdinateDimension extends AcDbDimension {
     super()
     this._definingPoint = new AcGePoint3d().copy(definingPoint)
     this._leaderEndPoint = new AcGePoint3d().copy(leaderEndPoint)
+    this._origin = new AcGePoint3d()
+    this._isUsingXAxis = false
 
     this.dimensionText = dimText
     // TODO: Set it to the current default dimStyle within the AutoCAD editor if dimStyle is null
     this.dimensionStyleName = dimStyle
   }
 
+  /**
+   * Gets or sets the origin point of the ordinate dimension.
+   *
+   * The X or Y coordinate of the defining point is measured from this point.
+   *
+   * @returns The origin point of the ordinate dimension
+   */
+  get origin() {
+    return this._origin
+  }
+  set origin(value: AcGePoint3dLike) {
+    this.assertWriteEnabled()
+    this._origin.copy(value)
+  }
+
+  /**
+   * Returns true if the ordinate dimension measures the X coordinate of the
+   * defining point, or false if it measures the Y coordinate.
+   */
+  get isUsingXAxis() {
+    return this._isUsingXAxis
+  }
+
+  /**
+   * Returns true if the ordinate dimension measures the Y coordinate of the
+   * defining point, or false if it measures the X coordinate.
+   */
+  get isUsingYAxis() {
+    return !this._isUsingXAxis
+  }
+
+  /**
+   * Makes the ordinate dimension measure the X coordinate of the defining point.
+   */
+  useXAxis() {
+    this.assertWriteEnabled()
+    this._isUsingXAxis = true
+  }
+
+  /**
+   * Makes the ordinate dimension measure the Y coordinate of the defining point.
+   */
+  useYAxis() {
+    this.assertWriteEnabled()
+    this._isUsingXAxis = false
+  }
+
   /**
    * Gets or sets the ordinate point to be measured.
    *
@@ -67,6 +121,7 @@ export class AcDbOrdinateDimension extends AcDbDimension {
     return this._definingPoint
   }
   set definingPoint(value: AcGePoint3d) {
+    this.assertWriteEnabled()
     this._definingPoint.copy(value)
   }
 
@@ -83,6 +138,7 @@ export class AcDbOrdinateDimension extends AcDbDimension {
     return this._leaderEndPoint
   }
   set leaderEndPoint(value: AcGePoint3d) {
+    this.assertWriteEnabled()
     this._leaderEndPoint.copy(value)
   }
 
@@ -100,6 +156,79 @@ export class AcDbOrdinateDimension extends AcDbDimension {
     return new AcGeBox3d()
   }
 
+  /**
+   * @inheritdoc
+   */
+  transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    super.transformBy(matrix)
+    this._definingPoint.applyMatrix4(matrix)
+    this._leaderEndPoint.applyMatrix4(matrix)
+    this._origin.applyMatrix4(matrix)
+    return this
+  }
+
+  /**
+   * @inheritdoc
+   */
+  protected computeMeasurement() {
+    return Math.abs(
+      this._isUsingXAxis
+        ? this._definingPoint.x - this._origin.x
+        : this._definingPoint.y - this._origin.y
+    )
+  }
+
+  /**
+   * @inheritdoc
+   */
+  protected drawDimensionGraphics(renderer: AcGiRenderer) {
+    const results: AcGiEntity[] = []
+    const push = (entity?: AcGiEntity) => {
+      if (entity) results.push(entity)
+    }
+    const start = this._definingPoint
+    const end = this._leaderEndPoint
+    // The leader of X datum dimensions is vertical and the leader of Y datum
+    // dimensions is horizontal.
+    const axis = this._isUsingXAxis
+      ? new AcGeVector3d(AcGeVector3d.Y_AXIS)
+      : new AcGeVector3d(AcGeVector3d.X_AXIS)
+    const distance = new AcGeVector3d().subVectors(end, start).dot(axis)
+    if (distance < 0) axis.negate()
+    const length = Math.abs(distance)
+
+    const text = this.formatMeasurement(this.computeMeasurement())
+    const gap = this.dimensionStyle.dimgap * this.overallScale
+    const offset = this.dimensionStyle.dimexo * this.overallScale
+    const leaderStart = new AcGePoint3d(start).addScaledVector(axis, offset)
+    // Jog the leader in the middle if the leader end point isn't on the line
+    // along the axis through the defining point
+    const across = new AcGeVector3d()
+      .subVectors(end, start)
+      .addScaledVector(axis, -length)
+    const points = [leaderStart]
+    if (across.length() > gap) {
+      const jog = Math.min(this.arrowSize * 2, length / 3)
+      const middle = (length - jog) / 2
+      points.push(
+        new AcGePoint3d(start).addScaledVector(axis, middle),
+        new AcGePoint3d(end).addScaledVector(axis, -middle)
+      )
+    }
+    points.push(end)
+    push(this.drawDimensionLine(renderer, points))
+
+    const position = this.isUsingDefaultTextPosition
+      ? new AcGePoint3d(end).addScaledVector(
+          axis,
+          gap + this.estimateTextWidth(text) / 2
+        )
+      : this.textPosition
+    push(this.drawText(renderer, text, position, this.getTextRotation(axis)))
+    return results
+  }
+
   /**
    * Gets the number of arrow lines for this dimension.
    *
@@ -1,9 +1,16 @@
 import {
   AcGeBox3d,
+  AcGeMatrix3d,
   AcGePoint3d,
-  AcGePoint3dLike
+  AcGePoint3dLike,
+  AcGeVector3d,
+  FLOAT_TOL
 } from '@mlightcad/geometry-engine'
-import { AcGiLineArrowStyle } from '@mlightcad/graphic-interface'
+import {
+  AcGiEntity,
+  AcGiLineArrowStyle,
+  AcGiRenderer
+} from '@mlightcad/graphic-interface'
 
 import { AcDbLine } from '../AcDbLine'
 import { AcDbDimension } from './AcDbDimension'
@@ -135,6 +142,7 @@ export class AcDbRadialDimension extends AcDbDimension {
    * ```
    */
   set center(value: AcGePoint3d) {
+    this.assertWriteEnabled()
     this._center.copy(value)
   }
 
@@ -164,6 +172,7 @@ export class AcDbRadialDimension extends AcDbDimension {
    * ```
    */
   set chordPoint(value: AcGePoint3d) {
+    this.assertWriteEnabled()
     this._chordPoint.copy(value)
   }
 
@@ -193,6 +202,7 @@ export class AcDbRadialDimension extends AcDbDimension {
    * ```
    */
   set extArcStartAngle(value: number) {
+    this.assertWriteEnabled()
     this._extArcStartAngle = value
   }
 
@@ -222,6 +232,7 @@ export class AcDbRadialDimension extends AcDbDimension {
    * ```
    */
   set extArcEndAngle(value: number) {
+    this.assertWriteEnabled()
     this._extArcEndAngle = value
   }
 
@@ -255,6 +266,7 @@ export class AcDbRadialDimension extends AcDbDimension {
    * ```
    */
   set leaderLenght(value: number) {
+    this.assertWriteEnabled()
     this._leaderLength = value
   }
 
@@ -269,6 +281,78 @@ export class AcDbRadialDimension extends AcDbDimension {
   /**
    * @inheritdoc
    */
+  transformBy(matrix: AcGeMatrix3d) {
+    this.assertWriteEnabled()
+    super.transformBy(matrix)
+    this._center.applyMatrix4(matrix)
+    this._chordPoint.applyMatrix4(matrix)
+    return this
+  }
+
+  /**
+   * @inheritdoc
+   */
+  /**
+   * @inheritdoc
+   */
+  protected computeMeasurement() {
+    return this._center.distanceTo(this._chordPoint)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  protected get measurementPrefix() {
+    return 'R'
+  }
+
+  /**
+   * @inheritdoc
+   */
+  protected drawDimensionGraphics(renderer: AcGiRenderer) {
+    const results: AcGiEntity[] = []
+    const push = (entity?: AcGiEntity) => {
+      if (entity) results.push(entity)
+    }
+    const radius = this._center.distanceTo(this._chordPoint)
+    const direction =
+      radius > FLOAT_TOL
+        ? new AcGeVector3d()
+            .subVectors(this._chordPoint, this._center)
+            .normalize()
+        : new AcGeVector3d(AcGeVector3d.X_AXIS)
+    const text = this.formatMeasurement(radius)
+    const width = this.estimateTextWidth(text)
+    const gap = this.dimensionStyle.dimgap * this.overallScale
+
+    // The text is placed outside the circle along the radius by default. The
+    // dimension line goes from the center to the text.
+    const position = this.isUsingDefaultTextPosition
+      ? new AcGePoint3d(this._chordPoint).addScaledVector(
+          direction,
+          this.arrowSize * 2 + gap + width / 2
+        )
+      : this.textPosition
+    const textDistance = new AcGeVector3d()
+      .subVectors(position, this._center)
+      .dot(direction)
+    const lineEnd =
+      textDistance > radius
+        ? new AcGePoint3d(this._center).addScaledVector(
+            direction,
+            textDistance - width / 2 - gap
+          )
+        : this._chordPoint
+
+    results.push(...this.drawCenterMark(renderer, this._center))
+    push(this.drawDimensionLine(renderer, [this._center, lineEnd]))
+    push(this.drawArrow(renderer, this._chordPoint, direction, false))
+    push(
+      this.drawText(renderer, text, position, this.getTextRotation(direction))
+    )
+    return results
+  }
+
   protected getLineArrowStyle(_line: AcDbLine): AcGiLineArrowStyle | undefined {
     return {
       secondArrow: this.secondArrowStyle
@@ -0,0 +1,57 @@
+import { AcGePointLike, AcGeVector3d } from '@mlightcad/geometry-engine'
+
+import { AcDbAlignedDimension } from './AcDbAlignedDimension'
+
+/**
+ * Represents a rotated (linear) dimension entity in AutoCAD.
+ *
+ * A rotated dimension measures the distance between two points projected onto
+ * the dimension line, whose direction is defined by the rotation angle. So
+ * horizontal and vertical dimensions are rotated dimensions with rotation
+ * angles 0 and PI/2. Unlike aligned dimensions, the dimension line isn't
+ * parallel to the line between the two extension line points.
+ *
+ * @example
+ * ```typescript
+ * // Create a horizontal dimension
+ * const rotatedDim = new AcDbRotatedDimension(
+ *   0,
+ *   new AcGePoint3d(0, 0, 0),
+ *   new AcGePoint3d(10, 5, 0),
+ *   new AcGePoint3d(10, 8, 0)
+ * );
+ * ```
+ */
+export class AcDbRotatedDimension extends AcDbAlignedDimension {
+  /** The entity type name */
+  static override typeName: string = 'RotatedDimension'
+
+  /**
+   * Creates a new rotated dimension entity.
+   *
+   * @param rotation - Rotation angle in radians of the dimension line
+   * @param xLine1Point - Start point (in WCS coordinates) of first extension line
+   * @param xLine2Point - Start point (in WCS coordinates) of second extension line
+   * @param dimLinePoint - Point (in WCS coordinates) on dimension line itself
+   * @param dimText - Text string to use as the dimension annotation (optional)
+   * @param dimStyle - String name of dimension style table record to use (optional)
+   */
+  constructor(
+    rotation: number,
+    xLine1Point: AcGePointLike,
+    xLine2Point: AcGePointLike,
+    dimLinePoint: AcGePointLike,
+    dimText: string | null = null,
+    dimStyle: string | null = null
+  ) {
+    super(xLine1Point, xLine2Point, dimLinePoint, dimText, dimStyle)
+    this.rotation = rotation
+  }
+
+  /**
+   * @inheritdoc
+   */
+  protected get dimensionLineDirection() {
+    return new AcGeVector3d(Math.cos(this.rotation), Math.sin(this.rotation), 0)
+  }
+}
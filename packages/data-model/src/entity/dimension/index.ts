@@ -3,5 +3,7 @@ export * from './AcDbAlignedDimension'
 export * from './AcDbArcDimension'
 export * from './AcDbDiametricDimension'
 export * from './AcDbDimension'
+export * from './AcDbDimensionFormatter'
 export * from './AcDbOrdinateDimension'
 export * from './AcDbRadialDimension'
+export * from './AcDbRotatedDimension'
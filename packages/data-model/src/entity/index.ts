@@ -3,6 +3,8 @@ export * from './AcDb2dVertex'
 export * from './AcDb3dPolyline'
 export * from './AcDb3dVertex'
 export * from './AcDbArc'
+export * from './AcDbAttribute'
+export * from './AcDbAttributeDefinition'
 export * from './AcDbBlockReference'
 export * from './AcDbCircle'
 export * from './AcDbCurve'
@@ -13,11 +15,15 @@ export * from './AcDbFace'
 export * from './AcDbHatch'
 export * from './AcDbLeader'
 export * from './AcDbLine'
+export * from './AcDbMLeader'
+export * from './AcDbMline'
 export * from './AcDbMText'
 export * from './AcDbSpline'
 export * from './AcDbTable'
 export * from './AcDbText'
 export * from './AcDbTrace'
+export * from './AcDbPolyFaceMesh'
+export * from './AcDbPolygonMesh'
 export * from './AcDbPolyline'
 export * from './AcDbPoint'
 export * from './AcDbRasterImage'
@@ -0,0 +1,222 @@
+import {
+  AcGeArea2d,
+  AcGeCircArc3d,
+  AcGeMatrix3d,
+  AcGePoint2dLike,
+  AcGePoint3d,
+  AcGePoint3dLike,
+  AcGePolyline2d,
+  AcGePolyline2dVertex,
+  AcGeQuaternion,
+  AcGeVector3d,
+  AcGeVector3dLike
+} from '@mlightcad/geometry-engine'
+import { AcGiEntity, AcGiRenderer } from '@mlightcad/graphic-interface'
+
+import { AcDbObjectId } from '../base'
+import { AcDbDatabase } from '../database'
+import { AcDbDimArrowType } from './AcDbDimArrowType'
+import { AcDbRenderingCache } from './AcDbRenderingCache'
+
+/**
+ * Half width of closed and open arrowheads relative to their size
+ */
+const ARROW_HALF_WIDTH = 1 / 6
+
+/**
+ * Internal helper class to draw arrowheads of leaders and dimensions.
+ *
+ * Arrowheads other than the default closed filled one are stored as block
+ * table records named by {@link AcDbDimArrowType} in drawings. One block is
+ * defined with unit size. Its tip is at the origin and it points to the
+ * positive X axis. If the block of one arrowhead doesn't exist in the
+ * database, the arrowhead is drawn by built-in geometries.
+ *
+ * @internal
+ */
+export class AcDbArrowHelper {
+  /**
+   * Gets the arrowhead type by the id of the block table record of the
+   * arrowhead.
+   *
+   * @param db - The database containing the block table record
+   * @param blockId - The id of the block table record of the arrowhead. Empty
+   * string means the default closed filled arrowhead.
+   * @returns The arrowhead type. Names of user-defined arrowhead blocks are
+   * returned as they are.
+   */
+  static getArrowType(db: AcDbDatabase, blockId?: AcDbObjectId) {
+    if (!blockId) return AcDbDimArrowType.ClosedFilled
+    const blockTableRecord = db.tables.blockTable.getIdAt(blockId)
+    return (
+      blockTableRecord
+        ? blockTableRecord.name.toUpperCase()
+        : AcDbDimArrowType.ClosedFilled
+    ) as AcDbDimArrowType
+  }
+
+  /**
+   * Draws one arrowhead.
+   *
+   * @param renderer - The renderer to use for drawing
+   * @param db - The database containing arrowhead blocks
+   * @param arrowType - The arrowhead type
+   * @param tip - The tip point of the arrowhead
+   * @param direction - The direction the arrowhead points to
+   * @param size - The size of the arrowhead
+   * @param color - The color used to draw arrowhead blocks
+   * @returns The rendered arrowhead, or undefined if nothing is drawn
+   */
+  static draw(
+    renderer: AcGiRenderer,
+    db: AcDbDatabase,
+    arrowType: AcDbDimArrowType,
+    tip: AcGePoint3dLike,
+    direction: AcGeVector3dLike,
+    size: number,
+    color: number
+  ): AcGiEntity | undefined {
+    if (arrowType === AcDbDimArrowType.None || size <= 0) return undefined
+
+    const angle = Math.atan2(direction.y, direction.x)
+    const blockTableRecord = arrowType
+      ? db.tables.blockTable.getAt(arrowType)
+      : undefined
+    if (blockTableRecord) {
+      const matrix = new AcGeMatrix3d().compose(
+        new AcGePoint3d(tip),
+        new AcGeQuaternion().setFromAxisAngle(AcGeVector3d.Z_AXIS, angle),
+        new AcGePoint3d(size, size, size)
+      )
+      return AcDbRenderingCache.instance.draw(
+        renderer,
+        blockTableRecord,
+        color,
+        true,
+        matrix
+      )
+    }
+    return this.drawBuiltInArrow(renderer, arrowType, tip, angle, size)
+  }
+
+  private static drawBuiltInArrow(
+    renderer: AcGiRenderer,
+    arrowType: AcDbDimArrowType,
+    tip: AcGePoint3dLike,
+    angle: number,
+    size: number
+  ) {
+    const cos = Math.cos(angle) * size
+    const sin = Math.sin(angle) * size
+    const toWorld = (x: number, y: number) =>
+      new AcGePoint3d(
+        tip.x + x * cos - y * sin,
+        tip.y + x * sin + y * cos,
+        tip.z
+      )
+    const lines = (points: AcGePoint2dLike[]) =>
+      renderer.lines(points.map(point => toWorld(point.x, point.y)))
+    const area = (vertices: AcGePolyline2dVertex[]) => {
+      const geo = new AcGeArea2d()
+      geo.add(
+        new AcGePolyline2d(
+          vertices.map(vertex => ({
+            ...toWorld(vertex.x, vertex.y),
+            bulge: vertex.bulge
+          })),
+          true
+        )
+      )
+      renderer.subEntityTraits.fillType = {
+        solidFill: true,
+        patternAngle: 0,
+        patternLines: []
+      }
+      return renderer.area(geo)
+    }
+
+    const w = ARROW_HALF_WIDTH
+    switch (arrowType) {
+      case AcDbDimArrowType.Closed:
+      case AcDbDimArrowType.ClosedBlank:
+        return lines([
+          { x: 0, y: 0 },
+          { x: -1, y: w },
+          { x: -1, y: -w },
+          { x: 0, y: 0 }
+        ])
+      case AcDbDimArrowType.Open:
+        return lines([
+          { x: -1, y: w },
+          { x: 0, y: 0 },
+          { x: -1, y: -w }
+        ])
+      case AcDbDimArrowType.Open30: {
+        const half = Math.tan(Math.PI / 12)
+        return lines([
+          { x: -1, y: half },
+          { x: 0, y: 0 },
+          { x: -1, y: -half }
+        ])
+      }
+      case AcDbDimArrowType.Open90:
+        return lines([
+          { x: -0.5, y: 0.5 },
+          { x: 0, y: 0 },
+          { x: -0.5, y: -0.5 }
+        ])
+      case AcDbDimArrowType.ArchTick:
+      case AcDbDimArrowType.Oblique:
+        return lines([
+          { x: -0.5, y: -0.5 },
+          { x: 0.5, y: 0.5 }
+        ])
+      case AcDbDimArrowType.Box:
+        return lines([
+          { x: -0.5, y: -0.5 },
+          { x: 0.5, y: -0.5 },
+          { x: 0.5, y: 0.5 },
+          { x: -0.5, y: 0.5 },
+          { x: -0.5, y: -0.5 }
+        ])
+      case AcDbDimArrowType.BoxFilled:
+        return area([
+          { x: -0.5, y: -0.5 },
+          { x: 0.5, y: -0.5 },
+          { x: 0.5, y: 0.5 },
+          { x: -0.5, y: 0.5 }
+        ])
+      case AcDbDimArrowType.Dot:
+      case AcDbDimArrowType.DotSmall: {
+        const radius = arrowType === AcDbDimArrowType.Dot ? 0.5 : 0.125
+        return area([
+          { x: -radius, y: 0, bulge: 1 },
+          { x: radius, y: 0, bulge: 1 }
+        ])
+      }
+      case AcDbDimArrowType.DotBlank:
+        return renderer.circularArc(
+          new AcGeCircArc3d(
+            tip,
+            0.5 * size,
+            0,
+            Math.PI * 2,
+            AcGeVector3d.Z_AXIS,
+            AcGeVector3d.X_AXIS
+          )
+        )
+      case AcDbDimArrowType.Small:
+        return area([
+          { x: 0, y: 0 },
+          { x: -0.5, y: w / 2 },
+          { x: -0.5, y: -w / 2 }
+        ])
+      default:
+        return area([
+          { x: 0, y: 0 },
+          { x: -1, y: w },
+          { x: -1, y: -w }
+        ])
+    }
+  }
+}
@@ -0,0 +1,195 @@
+import {
+  AcGeBoundaryUtil,
+  AcGeCircArc3d,
+  AcGeEllipseArc3d,
+  AcGePoint2d,
+  AcGePoint2dLike,
+  AcGePoint3dLike,
+  AcGePolyline2d,
+  AcGePolyline2dVertex,
+  AcGeSpline3d,
+  TAU
+} from '@mlightcad/geometry-engine'
+
+import { AcDbBlockTableRecord } from '../database'
+import { AcDb2dPolyline } from '../entity/AcDb2dPolyline'
+import { AcDb3dPolyline } from '../entity/AcDb3dPolyline'
+import { AcDbArc } from '../entity/AcDbArc'
+import { AcDbCircle } from '../entity/AcDbCircle'
+import { AcDbEllipse } from '../entity/AcDbEllipse'
+import { AcDbEntity } from '../entity/AcDbEntity'
+import { AcDbLine } from '../entity/AcDbLine'
+import { AcDbPolyline } from '../entity/AcDbPolyline'
+import { AcDbSpline } from '../entity/AcDbSpline'
+
+/**
+ * Number of segments used to approximate one full circle or ellipse
+ */
+const SEGMENTS_PER_CIRCLE = 72
+
+/**
+ * Number of segments used to approximate one spline
+ */
+const SEGMENTS_PER_SPLINE = 100
+
+/**
+ * Options to trace the boundary of one region.
+ */
+export interface AcDbTraceBoundaryOptions {
+  /**
+   * Whether to find islands inside the region. The default value is true.
+   */
+  detectIslands?: boolean
+  /**
+   * The function to determine whether one entity is used as boundary objects. All of visible
+   * entities are used by default.
+   */
+  filter?: (entity: AcDbEntity) => boolean
+}
+
+/**
+ * Traces boundaries of regions enclosed by entities like BHATCH and BOUNDARY commands in
+ * AutoCAD.
+ *
+ * Lines, arcs, circles, ellipses, splines and polylines in one block table record are used as
+ * boundary objects. They are projected onto the XY plane and are approximated by line segments.
+ *
+ * @example
+ * ```typescript
+ * const loops = AcDbBoundaryTracer.traceBoundary(db.tables.blockTable.modelSpace, { x: 5, y: 5 });
+ * if (loops.length > 0) {
+ *   const hatch = new AcDbHatch();
+ *   hatch.patternName = 'ANSI31';
+ *   loops.forEach(loop => hatch.add(loop));
+ *   db.tables.blockTable.modelSpace.appendEntity(hatch);
+ * }
+ * ```
+ */
+export class AcDbBoundaryTracer {
+  /**
+   * Finds the smallest region enclosing the specified point.
+   *
+   * @param blockTableRecord - The block table record containing boundary objects
+   * @param point - The point inside the region
+   * @param options - Options to trace the boundary
+   * @returns Closed loops of the region. The first loop is the outer loop and the others are
+   * islands, which can be added to one hatch directly. Empty array is returned if the point isn't
+   * enclosed by boundary objects.
+   */
+  static traceBoundary(
+    blockTableRecord: AcDbBlockTableRecord,
+    point: AcGePoint2dLike,
+    options: AcDbTraceBoundaryOptions = {}
+  ) {
+    const { detectIslands = true, filter } = options
+    const curves: AcGePoint2dLike[][] = []
+    for (const entity of blockTableRecord.newIterator()) {
+      if (!entity.visibility || (filter && !filter(entity))) continue
+      const points = this.getCurvePoints(entity)
+      if (points && points.length > 1) curves.push(points)
+    }
+
+    const boundary = AcGeBoundaryUtil.traceBoundary(
+      curves,
+      point,
+      detectIslands
+    )
+    if (!boundary) return []
+    return [boundary.outer, ...boundary.islands].map(
+      points => new AcGePolyline2d<AcGePoint2d>(points, true)
+    )
+  }
+
+  /**
+   * Approximates the specified entity by points on it in the XY plane.
+   *
+   * @param entity - The entity to approximate
+   * @returns Points of the entity, or undefined if the entity can't be used as boundary objects
+   */
+  private static getCurvePoints(
+    entity: AcDbEntity
+  ): AcGePoint2dLike[] | undefined {
+    if (entity instanceof AcDbLine) {
+      return [entity.startPoint, entity.endPoint]
+    } else if (entity instanceof AcDbArc) {
+      const arc = new AcGeCircArc3d(
+        entity.center,
+        entity.radius,
+        entity.startAngle,
+        entity.endAngle,
+        entity.normal
+      )
+      return arc.getPoints(
+        Math.max(2, Math.ceil((arc.deltaAngle / TAU) * SEGMENTS_PER_CIRCLE))
+      )
+    } else if (entity instanceof AcDbCircle) {
+      return new AcGeCircArc3d(
+        entity.center,
+        entity.radius,
+        0,
+        TAU,
+        entity.normal
+      ).getPoints(SEGMENTS_PER_CIRCLE)
+    } else if (entity instanceof AcDbEllipse) {
+      return new AcGeEllipseArc3d(
+        entity.center,
+        entity.normal,
+        entity.majorAxis,
+        entity.majorAxisRadius,
+        entity.minorAxisRadius,
+        entity.startAngle,
+        entity.endAngle
+      ).getPoints(SEGMENTS_PER_CIRCLE)
+    } else if (entity instanceof AcDbSpline) {
+      const controlPoints: AcGePoint3dLike[] = []
+      for (let i = 0; i < entity.numControlPoints; ++i) {
+        controlPoints.push(entity.getControlPointAt(i))
+      }
+      return new AcGeSpline3d(
+        controlPoints,
+        entity.knots,
+        entity.weights,
+        entity.degree,
+        entity.closed
+      ).getPoints(SEGMENTS_PER_SPLINE)
+    } else if (entity instanceof AcDbPolyline) {
+      const vertices: AcGePolyline2dVertex[] = []
+      for (let i = 0; i < entity.numberOfVertices; ++i) {
+        const point = entity.getPoint2dAt(i)
+        vertices.push({ x: point.x, y: point.y, bulge: entity.getBulgeAt(i) })
+      }
+      return this.getPolylinePoints(vertices, entity.closed)
+    } else if (entity instanceof AcDb2dPolyline) {
+      const vertices: AcGePolyline2dVertex[] = []
+      for (let i = 0; i < entity.numberOfVertices; ++i) {
+        const point = entity.getPointAt(i)
+        vertices.push({ x: point.x, y: point.y, bulge: entity.getBulgeAt(i) })
+      }
+      return this.getPolylinePoints(vertices, entity.closed)
+    } else if (entity instanceof AcDb3dPolyline) {
+      const points: AcGePoint2dLike[] = []
+      for (let i = 0; i < entity.numberOfVertices; ++i) {
+        points.push(entity.getPointAt(i))
+      }
+      if (entity.closed && points.length > 0) points.push(points[0])
+      return points
+    }
+    return undefined
+  }
+
+  private static getPolylinePoints(
+    vertices: AcGePolyline2dVertex[],
+    closed: boolean
+  ) {
+    // Arc segments are approximated by 1/8 of segments of one full circle
+    const points = new AcGePolyline2d(vertices, closed).getPoints(
+      SEGMENTS_PER_CIRCLE / 8
+    )
+    if (closed && points.length > 0) {
+      const first = points[0]
+      const last = points[points.length - 1]
+      if (first.x !== last.x || first.y !== last.y) points.push(first)
+    }
+    return points
+  }
+}
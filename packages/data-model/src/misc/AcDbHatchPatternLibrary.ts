@@ -0,0 +1,134 @@
+/**
+ * Standard hatch patterns defined in inches. They are the same as patterns in acad.pat and are
+ * scaled by 25.4 in acadiso.pat.
+ *
+ * @internal
+ */
+export const AC_DB_IMPERIAL_HATCH_PATTERNS = `
+*ANGLE, Angle steel
+0, 0,0, 0,.275, .2,-.075
+90, 0,0, 0,.275, .2,-.075
+*ANSI31, ANSI Iron, Brick, Stone masonry
+45, 0,0, 0,.125
+*ANSI32, ANSI Steel
+45, 0,0, 0,.375
+45, .176776695,0, 0,.375
+*ANSI33, ANSI Bronze, Brass, Copper
+45, 0,0, 0,.25
+45, .176776695,0, 0,.25, .125,-.0625
+*ANSI34, ANSI Plastic, Rubber
+45, 0,0, 0,.75
+45, .176776695,0, 0,.75
+45, .353553391,0, 0,.75
+45, .530330086,0, 0,.75
+*ANSI35, ANSI Fire brick, Refractory material
+45, 0,0, 0,.25
+45, .176776695,0, 0,.25, .3125,-.0625,0,-.0625
+*ANSI36, ANSI Marble, Slate, Glass
+45, 0,0, .21875,.125, .3125,-.0625,0,-.0625
+*ANSI37, ANSI Lead, Zinc, Magnesium, Sound/Heat/Elec Insulation
+45, 0,0, 0,.125
+135, 0,0, 0,.125
+*ANSI38, ANSI Aluminum
+45, 0,0, 0,.125
+135, 0,0, .25,.125, .3125,-.1875
+*BOX, Box steel
+90, 0,0, 0,1
+90, .25,0, 0,1
+0, 0,0, 0,1, -.25,.25
+0, 0,.25, 0,1, -.25,.25
+0, 0,.5, 0,1, .25,-.25
+0, 0,.75, 0,1, .25,-.25
+90, .5,0, 0,1, .25,-.25
+90, .75,0, 0,1, .25,-.25
+*BRICK, Brick or masonry-type surface
+0, 0,0, 0,.25
+90, 0,0, 0,.5, .25,-.25
+90, .25,0, 0,.5, -.25,.25
+*CROSS, A series of crosses
+0, 0,0, .25,.25, .125,-.375
+90, .0625,-.0625, .25,.25, .125,-.375
+*DASH, Dashed lines
+0, 0,0, .125,.125, .125,-.125
+*DOTS, A series of dots
+0, 0,0, .03125,.0625, 0,-.0625
+*EARTH, Earth or ground (subterranean)
+0, 0,0, .25,.25, .25,-.25
+0, 0,.09375, .25,.25, .25,-.25
+0, 0,.1875, .25,.25, .25,-.25
+90, .03125,.21875, .25,.25, .25,-.25
+90, .125,.21875, .25,.25, .25,-.25
+90, .21875,.21875, .25,.25, .25,-.25
+*GRATE, Grated area
+0, 0,0, 0,.03125
+90, 0,0, 0,.125
+*HEX, Hexagons
+0, 0,0, 0,.216506351, .125,-.25
+120, 0,0, 0,.216506351, .125,-.25
+60, .125,0, 0,.216506351, .125,-.25
+*HONEY, Honeycomb pattern
+0, 0,0, .1875,.108253175, .125,-.25
+120, 0,0, .1875,.108253175, .125,-.25
+60, 0,0, .1875,.108253175, -.25,.125
+*LINE, Parallel horizontal lines
+0, 0,0, 0,.125
+*NET, Horizontal / vertical grid
+0, 0,0, 0,.125
+90, 0,0, 0,.125
+*NET3, Network pattern 0-60-120
+0, 0,0, 0,.125
+60, 0,0, 0,.125
+120, 0,0, 0,.125
+*SQUARE, Small aligned squares
+0, 0,0, 0,.125, .125,-.125
+90, 0,0, 0,.125, .125,-.125
+*STARS, Star of David
+0, 0,0, 0,.216506351, .125,-.125
+60, 0,0, 0,.216506351, .125,-.125
+120, .0625,.108253176, 0,.216506351, .125,-.125
+*ZIGZAG, Staircase effect
+0, 0,0, .125,.125, .125,-.125
+90, .125,0, .125,.125, .125,-.125
+`
+
+/**
+ * Standard ISO hatch patterns defined in millimeters. They are the same in both acad.pat and
+ * acadiso.pat.
+ *
+ * @internal
+ */
+export const AC_DB_ISO_HATCH_PATTERNS = `
+*ISO02W100, dashed line
+0, 0,0, 0,5, 12,-3
+*ISO03W100, dashed space line
+0, 0,0, 0,5, 12,-18
+*ISO04W100, long dashed dotted line
+0, 0,0, 0,5, 24,-3,.5,-3
+*ISO05W100, long dashed double dotted line
+0, 0,0, 0,5, 24,-3,.5,-3,.5,-3
+*ISO06W100, long dashed triplicate dotted line
+0, 0,0, 0,5, 24,-3,.5,-3,.5,-6.5
+0, 0,0, 0,5, -34,.5,-3
+*ISO07W100, dotted line
+0, 0,0, 0,5, .5,-3
+*ISO08W100, long dashed short dashed line
+0, 0,0, 0,5, 24,-3,6,-3
+*ISO09W100, long dashed double short dashed line
+0, 0,0, 0,5, 24,-3,6,-3,6,-3
+*ISO10W100, dashed dotted line
+0, 0,0, 0,5, 12,-3,.5,-3
+*ISO11W100, double dashed dotted line
+0, 0,0, 0,5, 12,-3,12,-3.5,.5,-3
+*ISO12W100, dashed double dotted line
+0, 0,0, 0,5, 12,-3,.5,-3,.5,-6.5
+0, 0,0, 0,5, -22,.5,-3
+*ISO13W100, double dashed double dotted line
+0, 0,0, 0,5, 12,-3,12,-3,.5,-10
+0, 0,0, 0,5, -33.5,.5,-3
+*ISO14W100, dashed triplicate dotted line
+0, 0,0, 0,5, 12,-3,.5,-3,.5,-10
+0, 0,0, 0,5, -22,.5,-3,.5,-3
+*ISO15W100, double dashed triplicate dotted line
+0, 0,0, 0,5, 12,-3,12,-3,.5,-10,.5,-3
+0, 0,0, 0,5, -33.5,.5,-3,.5,-3
+`
@@ -0,0 +1,153 @@
+import {
+  AC_DB_IMPERIAL_HATCH_PATTERNS,
+  AC_DB_ISO_HATCH_PATTERNS
+} from './AcDbHatchPatternLibrary'
+import {
+  AcDbHatchPattern,
+  AcDbHatchPatternParser
+} from './AcDbHatchPatternParser'
+
+/**
+ * Scale factor to convert imperial patterns in acad.pat to metric patterns in acadiso.pat
+ */
+const INCH_TO_MILLIMETER = 25.4
+
+/**
+ * Registry of hatch patterns used to draw hatches whose pattern definition lines aren't stored
+ * in drawings.
+ *
+ * It contains standard patterns of acad.pat and acadiso.pat by default. Patterns in custom PAT
+ * files can be registered by {@link loadPatFile}. Custom patterns take precedence over standard
+ * patterns with the same name.
+ *
+ * @example
+ * ```typescript
+ * const manager = AcDbHatchPatternManager.instance;
+ * manager.loadPatFile('*MYPAT, My pattern\n0, 0,0, 0,.5, .25,-.25');
+ * const pattern = manager.getPattern('MYPAT');
+ * ```
+ */
+export class AcDbHatchPatternManager {
+  /** Singleton instance of the manager */
+  private static _instance?: AcDbHatchPatternManager
+  /** The parser of PAT files */
+  private _parser: AcDbHatchPatternParser
+  /** Patterns in acad.pat keyed by pattern name */
+  private _imperialPatterns?: Map<string, AcDbHatchPattern>
+  /** Patterns in acadiso.pat keyed by pattern name */
+  private _metricPatterns?: Map<string, AcDbHatchPattern>
+  /** Patterns in custom PAT files keyed by pattern name */
+  private _customPatterns: Map<string, AcDbHatchPattern>
+
+  /**
+   * Gets the singleton instance of the hatch pattern manager.
+   *
+   * @returns The singleton instance of AcDbHatchPatternManager
+   */
+  static get instance() {
+    if (!this._instance) {
+      this._instance = new AcDbHatchPatternManager()
+    }
+    return this._instance
+  }
+
+  private constructor() {
+    this._parser = new AcDbHatchPatternParser()
+    this._customPatterns = new Map()
+  }
+
+  /**
+   * Parses the specified PAT file and registers all of patterns in it as custom patterns.
+   *
+   * @param text - The content of the PAT file
+   * @returns Names of registered patterns
+   */
+  loadPatFile(text: string) {
+    const patterns = this._parser.parse(text)
+    patterns.forEach(pattern => this.register(pattern))
+    return patterns.map(pattern => pattern.name)
+  }
+
+  /**
+   * Registers one custom pattern. The existing custom pattern with the same name is replaced.
+   *
+   * @param pattern - The pattern to register
+   */
+  register(pattern: AcDbHatchPattern) {
+    this._customPatterns.set(pattern.name.toUpperCase(), pattern)
+  }
+
+  /**
+   * Unregisters the custom pattern with the specified name.
+   *
+   * @param name - The pattern name
+   * @returns True if the pattern was registered
+   */
+  unregister(name: string) {
+    return this._customPatterns.delete(name.toUpperCase())
+  }
+
+  /**
+   * Gets the pattern with the specified name. Custom patterns are searched first. Then standard
+   * patterns in acad.pat or acadiso.pat are searched according to the specified units.
+   *
+   * @param name - The pattern name, which is case-insensitive
+   * @param isMetric - True to search patterns in acadiso.pat instead of acad.pat
+   * @returns The pattern, or undefined if no pattern with the name exists
+   */
+  getPattern(name: string, isMetric: boolean = true) {
+    const key = name.toUpperCase()
+    return (
+      this._customPatterns.get(key) ??
+      (isMetric ? this.metricPatterns : this.imperialPatterns).get(key)
+    )
+  }
+
+  /**
+   * Standard patterns in acad.pat
+   */
+  private get imperialPatterns() {
+    if (!this._imperialPatterns) {
+      this._imperialPatterns = this.createPatternMap([
+        ...this._parser.parse(AC_DB_IMPERIAL_HATCH_PATTERNS),
+        ...this._parser.parse(AC_DB_ISO_HATCH_PATTERNS)
+      ])
+    }
+    return this._imperialPatterns
+  }
+
+  /**
+   * Standard patterns in acadiso.pat
+   */
+  private get metricPatterns() {
+    if (!this._metricPatterns) {
+      const patterns = this._parser.parse(AC_DB_IMPERIAL_HATCH_PATTERNS)
+      patterns.forEach(pattern => {
+        pattern.lines.forEach(line => {
+          line.origin = {
+            x: line.origin.x * INCH_TO_MILLIMETER,
+            y: line.origin.y * INCH_TO_MILLIMETER
+          }
+          line.delta = {
+            x: line.delta.x * INCH_TO_MILLIMETER,
+            y: line.delta.y * INCH_TO_MILLIMETER
+          }
+          line.dashPattern = line.dashPattern.map(
+            dash => dash * INCH_TO_MILLIMETER
+          )
+        })
+      })
+      this._metricPatterns = this.createPatternMap([
+        ...patterns,
+        ...this._parser.parse(AC_DB_ISO_HATCH_PATTERNS)
+      ])
+    }
+    return this._metricPatterns
+  }
+
+  private createPatternMap(patterns: AcDbHatchPattern[]) {
+    const map = new Map<string, AcDbHatchPattern>()
+    patterns.forEach(pattern => map.set(pattern.name, pattern))
+    return map
+  }
+}
@@ -0,0 +1,101 @@
+import { AcGiHatchPatternLine } from '@mlightcad/graphic-interface'
+
+/**
+ * One hatch pattern defined in one PAT file.
+ */
+export interface AcDbHatchPattern {
+  /** The pattern name in upper case, such as 'ANSI31' */
+  name: string
+  /** The description following the pattern name */
+  description: string
+  /**
+   * Definition lines of the pattern with unit scale and zero rotation. Offsets of lines are
+   * converted to the same coordinate system as pattern definition lines of HATCH entities in
+   * DXF files. That is, they are measured along X and Y axes instead of along and perpendicular
+   * to the line.
+   */
+  lines: AcGiHatchPatternLine[]
+}
+
+/**
+ * Parses hatch patterns in PAT files, such as acad.pat and acadiso.pat.
+ *
+ * One PAT file contains one or more patterns. Each pattern starts with one header line and is
+ * followed by one or more definition lines.
+ *
+ * ```
+ * *pattern-name, description
+ * angle, x-origin, y-origin, delta-x, delta-y [, dash-1, dash-2, ...]
+ * ```
+ *
+ * Text following ';' is comment. Malformed definition lines are ignored.
+ *
+ * @example
+ * ```typescript
+ * const parser = new AcDbHatchPatternParser();
+ * const patterns = parser.parse('*ANSI31, ANSI Iron, Brick, Stone masonry\n45, 0,0, 0,.125');
+ * console.log(patterns[0].lines[0].delta); // { x: -0.0884, y: 0.0884 }
+ * ```
+ */
+export class AcDbHatchPatternParser {
+  /**
+   * Parses all of patterns in the specified PAT file content.
+   *
+   * @param text - The content of one PAT file
+   * @returns Patterns in the order of the PAT file
+   */
+  parse(text: string) {
+    const patterns: AcDbHatchPattern[] = []
+    let pattern: AcDbHatchPattern | undefined
+    text.split(/\r?\n/).forEach(rawLine => {
+      const commentIndex = rawLine.indexOf(';')
+      const line = (
+        commentIndex >= 0 ? rawLine.substring(0, commentIndex) : rawLine
+      ).trim()
+      if (!line) return
+
+      if (line.startsWith('*')) {
+        const header = line.substring(1)
+        const separator = header.indexOf(',')
+        const name = separator >= 0 ? header.substring(0, separator) : header
+        pattern = {
+          name: name.trim().toUpperCase(),
+          description:
+            separator >= 0 ? header.substring(separator + 1).trim() : '',
+          lines: []
+        }
+        patterns.push(pattern)
+      } else if (pattern) {
+        const patternLine = this.parseLine(line)
+        if (patternLine) pattern.lines.push(patternLine)
+      }
+    })
+    return patterns
+  }
+
+  /**
+   * Parses one definition line of one pattern.
+   *
+   * @param line - The definition line without comments
+   * @returns The pattern line, or undefined if the line is malformed
+   */
+  private parseLine(line: string): AcGiHatchPatternLine | undefined {
+    const values = line.split(',').map(value => parseFloat(value))
+    if (values.length < 5 || values.some(value => isNaN(value))) return
+
+    const [angle, x, y, deltaX, deltaY] = values
+    // Offsets in PAT files are measured along and perpendicular to the line
+    const radians = (angle * Math.PI) / 180
+    const cos = Math.cos(radians)
+    const sin = Math.sin(radians)
+    return {
+      angle,
+      origin: { x, y },
+      delta: {
+        x: deltaX * cos - deltaY * sin,
+        y: deltaX * sin + deltaY * cos
+      },
+      dashPattern: values.slice(5)
+    }
+  }
+}
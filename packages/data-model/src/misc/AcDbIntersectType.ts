@@ -0,0 +1,22 @@
+/**
+ * Specifies which entities are extended when computing intersections of two
+ * entities by `AcDbEntity.intersectWith`.
+ */
+export enum AcDbIntersectType {
+  /**
+   * Neither entity is extended
+   */
+  OnBothOperands = 0,
+  /**
+   * The entity whose `intersectWith` method is called is extended
+   */
+  ExtendThis = 1,
+  /**
+   * The entity passed as the argument is extended
+   */
+  ExtendArg = 2,
+  /**
+   * Both entities are extended
+   */
+  ExtendBoth = 3
+}
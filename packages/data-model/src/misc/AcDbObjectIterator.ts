@@ -14,11 +14,14 @@ export class AcDbObjectIterator<ResultType>
   private i = 0
   private _records: Map<string, ResultType>
   private _keys: string[]
+  private _filtered: boolean
 
   /**
    * Creates a new AcDbObjectIterator instance.
    *
    * @param records - Array of objects to iterate over
+   * @param filter - Optional function to skip objects. Objects for which it
+   * returns false are not iterated.
    *
    * @example
    * ```typescript
@@ -26,16 +29,23 @@ export class AcDbObjectIterator<ResultType>
    * const iterator = new AcDbObjectIterator(entities);
    * ```
    */
-  constructor(records: Map<string, ResultType>) {
+  constructor(
+    records: Map<string, ResultType>,
+    filter?: (value: ResultType) => boolean
+  ) {
     this._records = records
     this._keys = Array.from(records.keys())
+    this._filtered = filter != null
+    if (filter) {
+      this._keys = this._keys.filter(key => filter(records.get(key)!))
+    }
   }
 
   /**
    * The number of items
    */
   get count() {
-    return this._records.size
+    return this._filtered ? this._keys.length : this._records.size
   }
 
   /**
@@ -43,7 +53,9 @@ export class AcDbObjectIterator<ResultType>
    * @returns An array of values in the current iterator
    */
   toArray() {
-    return Array.from(this._records.values())
+    return this._filtered
+      ? this._keys.map(key => this._records.get(key)!)
+      : Array.from(this._records.values())
   }
 
   /**
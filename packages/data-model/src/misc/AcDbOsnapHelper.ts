@@ -0,0 +1,580 @@
+import {
+  AcGeCircArc3d,
+  AcGeEllipseArc3d,
+  AcGeMathUtil,
+  AcGeMatrix3d,
+  AcGePoint2dLike,
+  AcGePoint3d,
+  AcGePoint3dLike,
+  AcGePolyline2dVertex,
+  AcGeSpline3d,
+  AcGeTol,
+  AcGeVector3d,
+  AcGeVector3dLike,
+  DEFAULT_TOL,
+  TAU
+} from '@mlightcad/geometry-engine'
+
+import { AcDbOsnapMode } from './AcDbOsnapMode'
+
+/**
+ * One parametric curve (or one segment of one curve) used to compute object
+ * snap points.
+ */
+export interface AcDbOsnapCurve {
+  /**
+   * Parameter of the start point of the curve
+   */
+  startParam: number
+  /**
+   * Parameter of the end point of the curve
+   */
+  endParam: number
+  /**
+   * True if the start point of the curve is identical to its end point
+   */
+  closed: boolean
+  /**
+   * Normal of the plane in which the curve lies. Tangent points are computed in
+   * this plane. No tangent point is computed if it is undefined.
+   */
+  normal?: AcGeVector3dLike
+  /**
+   * Returns the point on the curve at the specified parameter.
+   *
+   * @param param - Parameter in the range from start parameter to end parameter
+   * @returns The point at the specified parameter
+   */
+  evaluate(param: number): AcGePoint3d
+}
+
+/** Number of samples of one curve to find candidates of snap points */
+const NUM_SAMPLES = 64
+/** Number of bisection iterations to refine one snap point */
+const NUM_ITERATIONS = 50
+/** Tolerance to check whether cosine or sine of one angle is zero */
+const ZERO_TOL = 1e-9
+
+/**
+ * Utility class to compute object snap points of curves.
+ *
+ * Entities describe their geometries as parametric curves by the factory
+ * methods of this class, such as {@link AcDbOsnapHelper.createLine} and
+ * {@link AcDbOsnapHelper.createArc}, and call
+ * {@link AcDbOsnapHelper.getOsnapPoints} to compute end points, middle points,
+ * nearest points, perpendicular points and tangent points. Snap points which
+ * depend on the type of entities (such as center points and quadrant points)
+ * are computed by entities themselves.
+ *
+ * Points which can't be computed analytically are found by sampling curves and
+ * refining candidates by bisection.
+ *
+ * @example
+ * ```typescript
+ * const snapPoints: AcGePoint3d[] = [];
+ * AcDbOsnapHelper.getOsnapPoints(
+ *   [AcDbOsnapHelper.createArc(arc)],
+ *   AcDbOsnapMode.Nearest,
+ *   pickPoint,
+ *   lastPoint,
+ *   snapPoints
+ * );
+ * ```
+ */
+export class AcDbOsnapHelper {
+  /**
+   * Creates one straight segment from the start point to the end point.
+   *
+   * @param start - The start point of the segment
+   * @param end - The end point of the segment
+   * @returns The curve of the segment
+   */
+  static createLine(
+    start: AcGePoint3dLike,
+    end: AcGePoint3dLike
+  ): AcDbOsnapCurve {
+    const startPoint = new AcGePoint3d(start)
+    const endPoint = new AcGePoint3d(end)
+    return {
+      startParam: 0,
+      endParam: 1,
+      closed: false,
+      evaluate: param =>
+        new AcGePoint3d().lerpVectors(startPoint, endPoint, param)
+    }
+  }
+
+  /**
+   * Creates one curve from one circular arc or one circle.
+   *
+   * @param arc - The circular arc
+   * @returns The curve of the circular arc
+   */
+  static createArc(arc: AcGeCircArc3d): AcDbOsnapCurve {
+    const closed = arc.closed
+    return {
+      startParam: arc.startAngle,
+      endParam: arc.startAngle + (closed ? TAU : arc.deltaAngle),
+      closed,
+      normal: arc.normal,
+      evaluate: param => arc.getPointAtAngle(param)
+    }
+  }
+
+  /**
+   * Creates one curve from one circular arc in the plane parallel to the XY
+   * plane.
+   *
+   * @param center - The center of the arc
+   * @param radius - The radius of the arc
+   * @param startAngle - The start angle of the arc measured from the X axis
+   * @param sweepAngle - The included angle of the arc. It is negative if the arc
+   * is clockwise.
+   * @param elevation - The Z coordinate of the plane containing the arc
+   * @returns The curve of the circular arc
+   */
+  static createArc2d(
+    center: AcGePoint2dLike,
+    radius: number,
+    startAngle: number,
+    sweepAngle: number,
+    elevation: number = 0
+  ): AcDbOsnapCurve {
+    return {
+      startParam: 0,
+      endParam: 1,
+      closed: Math.abs(Math.abs(sweepAngle) - TAU) < 1e-10,
+      normal: AcGeVector3d.Z_AXIS,
+      evaluate: param => {
+        const angle = startAngle + sweepAngle * param
+        return new AcGePoint3d(
+          center.x + radius * Math.cos(angle),
+          center.y + radius * Math.sin(angle),
+          elevation
+        )
+      }
+    }
+  }
+
+  /**
+   * Creates one segment of one polyline in the plane parallel to the XY plane.
+   * The segment is one circular arc if its bulge isn't zero.
+   *
+   * @param start - The start vertex of the segment
+   * @param end - The end vertex of the segment
+   * @param bulge - The bulge of the segment
+   * @param elevation - The Z coordinate of the plane containing the segment
+   * @returns The curve of the segment
+   */
+  static createBulgeSegment(
+    start: AcGePoint2dLike,
+    end: AcGePoint2dLike,
+    bulge: number = 0,
+    elevation: number = 0
+  ): AcDbOsnapCurve {
+    const dx = end.x - start.x
+    const dy = end.y - start.y
+    const chord = Math.sqrt(dx * dx + dy * dy)
+    if (AcGeTol.equalToZero(bulge) || AcGeTol.equalToZero(chord)) {
+      return AcDbOsnapHelper.createLine(
+        { x: start.x, y: start.y, z: elevation },
+        { x: end.x, y: end.y, z: elevation }
+      )
+    }
+
+    // The center is on the left of the chord for counterclockwise arcs
+    const offset = (1 - bulge * bulge) / (4 * bulge)
+    const center = {
+      x: (start.x + end.x) / 2 - dy * offset,
+      y: (start.y + end.y) / 2 + dx * offset
+    }
+    const radius = (chord * (1 + bulge * bulge)) / (4 * Math.abs(bulge))
+    const startAngle = Math.atan2(start.y - center.y, start.x - center.x)
+    return AcDbOsnapHelper.createArc2d(
+      center,
+      radius,
+      startAngle,
+      4 * Math.atan(bulge),
+      elevation
+    )
+  }
+
+  /**
+   * Creates segments of one polyline in the plane parallel to the XY plane.
+   *
+   * @param vertices - Vertices of the polyline
+   * @param closed - True if the polyline is closed
+   * @param elevation - The Z coordinate of the plane containing the polyline
+   * @returns Curves of segments of the polyline
+   */
+  static createPolyline(
+    vertices: AcGePolyline2dVertex[],
+    closed: boolean,
+    elevation: number = 0
+  ) {
+    const curves: AcDbOsnapCurve[] = []
+    const count = closed ? vertices.length : vertices.length - 1
+    for (let i = 0; i < count; ++i) {
+      const start = vertices[i]
+      const end = vertices[(i + 1) % vertices.length]
+      curves.push(
+        AcDbOsnapHelper.createBulgeSegment(start, end, start.bulge, elevation)
+      )
+    }
+    return curves
+  }
+
+  /**
+   * Creates one curve from one elliptical arc or one ellipse.
+   *
+   * @param ellipse - The elliptical arc
+   * @returns The curve of the elliptical arc
+   */
+  static createEllipseArc(ellipse: AcGeEllipseArc3d): AcDbOsnapCurve {
+    const closed = ellipse.closed
+    return {
+      startParam: ellipse.startAngle,
+      endParam: ellipse.startAngle + (closed ? TAU : ellipse.deltaAngle),
+      closed,
+      normal: ellipse.normal,
+      evaluate: param => ellipse.getPointAtAngle(param)
+    }
+  }
+
+  /**
+   * Creates one curve from one spline.
+   *
+   * @param spline - The spline
+   * @param normal - Normal of the plane in which the spline lies if it is planar
+   * @returns The curve of the spline
+   */
+  static createSpline(
+    spline: AcGeSpline3d,
+    normal?: AcGeVector3dLike
+  ): AcDbOsnapCurve {
+    return {
+      startParam: spline.startParam,
+      endParam: spline.endParam,
+      closed: spline.closed,
+      normal,
+      evaluate: param => spline.getPointAtParam(param)
+    }
+  }
+
+  /**
+   * Computes snap points of the specified curves and adds them into
+   * `snapPoints`.
+   *
+   * Supported object snap modes are as follows.
+   * - EndPoint: start points and end points of curves which aren't closed
+   * - MidPoint: points at the middle of lengths of curves which aren't closed
+   * - Nearest: the point on curves which is nearest to the pick point
+   * - Perpendicular: points on curves where lines from the last point are
+   *   perpendicular to curves
+   * - Tangent: points on curves where lines from the last point are tangent to
+   *   curves
+   *
+   * @param curves - Curves to compute snap points
+   * @param osnapMode - The object snap mode
+   * @param pickPoint - The point where the user picked
+   * @param lastPoint - The last point picked by the user
+   * @param snapPoints - Array to populate with snap points
+   */
+  static getOsnapPoints(
+    curves: AcDbOsnapCurve[],
+    osnapMode: AcDbOsnapMode,
+    pickPoint: AcGePoint3dLike,
+    lastPoint: AcGePoint3dLike,
+    snapPoints: AcGePoint3dLike[]
+  ) {
+    const points: AcGePoint3d[] = []
+    switch (osnapMode) {
+      case AcDbOsnapMode.EndPoint:
+        curves.forEach(curve => {
+          if (!curve.closed) {
+            points.push(curve.evaluate(curve.startParam))
+            points.push(curve.evaluate(curve.endParam))
+          }
+        })
+        break
+      case AcDbOsnapMode.MidPoint:
+        curves.forEach(curve => {
+          if (!curve.closed) points.push(AcDbOsnapHelper.getMidPoint(curve))
+        })
+        break
+      case AcDbOsnapMode.Nearest:
+        {
+          const point = AcDbOsnapHelper.getNearestPoint(curves, pickPoint)
+          if (point) points.push(point)
+        }
+        break
+      case AcDbOsnapMode.Perpendicular:
+        curves.forEach(curve => {
+          points.push(
+            ...AcDbOsnapHelper.getPerpendicularPoints(curve, lastPoint)
+          )
+        })
+        break
+      case AcDbOsnapMode.Tangent:
+        curves.forEach(curve => {
+          points.push(...AcDbOsnapHelper.getTangentPoints(curve, lastPoint))
+        })
+        break
+      default:
+        break
+    }
+    AcDbOsnapHelper.pushUniquePoints(points, snapPoints)
+  }
+
+  /**
+   * Computes snap points of geometries defined in one local coordinate system,
+   * such as entities in the block referenced by one block reference. The pick
+   * point and the last point are transformed into the local coordinate system
+   * and computed snap points are transformed back into WCS.
+   *
+   * @param matrix - Transformation from the local coordinate system to WCS
+   * @param osnapMode - The object snap mode
+   * @param pickPoint - The point where the user picked in WCS
+   * @param lastPoint - The last point picked by the user in WCS
+   * @param snapPoints - Array to populate with snap points in WCS
+   * @param getLocalOsnapPoints - Function to compute snap points in the local
+   * coordinate system
+   */
+  static getTransformedOsnapPoints(
+    matrix: AcGeMatrix3d,
+    osnapMode: AcDbOsnapMode,
+    pickPoint: AcGePoint3dLike,
+    lastPoint: AcGePoint3dLike,
+    snapPoints: AcGePoint3dLike[],
+    getLocalOsnapPoints: (
+      pickPoint: AcGePoint3d,
+      lastPoint: AcGePoint3d,
+      snapPoints: AcGePoint3dLike[]
+    ) => void
+  ) {
+    const inverse = matrix.clone().invert()
+    const localPoints: AcGePoint3dLike[] = []
+    getLocalOsnapPoints(
+      new AcGePoint3d(pickPoint).applyMatrix4(inverse),
+      new AcGePoint3d(lastPoint).applyMatrix4(inverse),
+      localPoints
+    )
+
+    let points = localPoints.map(point =>
+      new AcGePoint3d(point).applyMatrix4(matrix)
+    )
+    // Each geometry returns its own nearest point. Only the nearest one of
+    // them is kept.
+    if (osnapMode === AcDbOsnapMode.Nearest && points.length > 1) {
+      const distances = points.map(point => point.distanceTo(pickPoint))
+      points = [points[distances.indexOf(Math.min(...distances))]]
+    }
+    AcDbOsnapHelper.pushUniquePoints(points, snapPoints)
+  }
+
+  /**
+   * Adds the specified points into `snapPoints` and skips points which are
+   * added already, such as shared vertices of adjacent segments.
+   *
+   * @param points - Points to add
+   * @param snapPoints - Array to populate with snap points
+   */
+  static pushUniquePoints(
+    points: AcGePoint3dLike[],
+    snapPoints: AcGePoint3dLike[]
+  ) {
+    points.forEach(point => {
+      if (
+        !snapPoints.some(snapPoint =>
+          DEFAULT_TOL.equalPoint3d(snapPoint, point)
+        )
+      ) {
+        snapPoints.push(point)
+      }
+    })
+  }
+
+  /**
+   * Computes quadrant points of one circular arc. Quadrant points are at angles of
+   * 0, 90, 180 and 270 degrees measured from the reference vector of the arc and
+   * only points on the arc are returned.
+   *
+   * @param arc - The circular arc
+   * @returns Quadrant points on the arc
+   */
+  static getQuadrantPoints(arc: AcGeCircArc3d) {
+    const points: AcGePoint3d[] = []
+    for (let i = 0; i < 4; ++i) {
+      const angle = (i * Math.PI) / 2
+      const delta = AcGeMathUtil.normalizeAngle(angle - arc.startAngle)
+      if (delta <= arc.deltaAngle) {
+        points.push(arc.getPointAtAngle(angle))
+      }
+    }
+    return points
+  }
+
+  /**
+   * Computes the centroid of the area enclosed by the specified closed curves.
+   * All curves must lie in one plane parallel to the XY plane.
+   *
+   * @param curves - Connected curves forming one closed boundary
+   * @returns The centroid, or undefined if the enclosed area is zero
+   */
+  static getCentroid(curves: AcDbOsnapCurve[]) {
+    const points: AcGePoint3d[] = []
+    curves.forEach(curve => {
+      const step = (curve.endParam - curve.startParam) / NUM_SAMPLES
+      for (let i = 0; i < NUM_SAMPLES; ++i) {
+        points.push(curve.evaluate(curve.startParam + i * step))
+      }
+    })
+
+    let area = 0
+    let x = 0
+    let y = 0
+    for (let i = 0; i < points.length; ++i) {
+      const p1 = points[i]
+      const p2 = points[(i + 1) % points.length]
+      const cross = p1.x * p2.y - p2.x * p1.y
+      area += cross
+      x += (p1.x + p2.x) * cross
+      y += (p1.y + p2.y) * cross
+    }
+    if (AcGeTol.equalToZero(area)) return undefined
+    return new AcGePoint3d(x / (3 * area), y / (3 * area), points[0].z)
+  }
+
+  private static getMidPoint(curve: AcDbOsnapCurve) {
+    // Accumulate lengths of chords so that the middle point is measured by
+    // length instead of parameter
+    const params: number[] = []
+    const lengths: number[] = [0]
+    const step = (curve.endParam - curve.startParam) / NUM_SAMPLES
+    let previous = curve.evaluate(curve.startParam)
+    params.push(curve.startParam)
+    for (let i = 1; i <= NUM_SAMPLES; ++i) {
+      const param = curve.startParam + i * step
+      const point = curve.evaluate(param)
+      params.push(param)
+      lengths.push(lengths[i - 1] + point.distanceTo(previous))
+      previous = point
+    }
+
+    const half = lengths[NUM_SAMPLES] / 2
+    for (let i = 1; i <= NUM_SAMPLES; ++i) {
+      if (lengths[i] >= half) {
+        const segment = lengths[i] - lengths[i - 1]
+        const ratio = segment > 0 ? (half - lengths[i - 1]) / segment : 0
+        return curve.evaluate(params[i - 1] + ratio * step)
+      }
+    }
+    return curve.evaluate(curve.endParam)
+  }
+
+  private static getNearestPoint(
+    curves: AcDbOsnapCurve[],
+    point: AcGePoint3dLike
+  ) {
+    let nearest: AcGePoint3d | undefined = undefined
+    let minDistance = Infinity
+    const check = (candidate: AcGePoint3d) => {
+      const distance = candidate.distanceTo(point)
+      if (distance < minDistance) {
+        minDistance = distance
+        nearest = candidate
+      }
+    }
+    curves.forEach(curve => {
+      AcDbOsnapHelper.getPerpendicularPoints(curve, point).forEach(check)
+      if (!curve.closed) {
+        check(curve.evaluate(curve.startParam))
+        check(curve.evaluate(curve.endParam))
+      }
+    })
+    return nearest as AcGePoint3d | undefined
+  }
+
+  private static getPerpendicularPoints(
+    curve: AcDbOsnapCurve,
+    point: AcGePoint3dLike
+  ) {
+    // The vector from the point to the foot is perpendicular to the tangent
+    return AcDbOsnapHelper.findRoots(curve, param => {
+      const vector = curve.evaluate(param).sub(point).normalize()
+      return vector.dot(AcDbOsnapHelper.getTangentDirection(curve, param))
+    })
+  }
+
+  private static getTangentPoints(
+    curve: AcDbOsnapCurve,
+    point: AcGePoint3dLike
+  ) {
+    const normal = curve.normal
+    if (!normal) return []
+    // The vector from the point to the tangent point is parallel to the tangent
+    return AcDbOsnapHelper.findRoots(curve, param => {
+      const vector = curve.evaluate(param).sub(point).normalize()
+      return vector
+        .cross(AcDbOsnapHelper.getTangentDirection(curve, param))
+        .dot(normal)
+    })
+  }
+
+  private static getTangentDirection(curve: AcDbOsnapCurve, param: number) {
+    const range = curve.endParam - curve.startParam
+    const delta = range * 1e-6
+    let param1 = param - delta
+    let param2 = param + delta
+    if (curve.closed) {
+      // Parameters out of range are wrapped around for closed curves so that
+      // directions at the start point and the end point are accurate too
+      if (param1 < curve.startParam) param1 += range
+      if (param2 > curve.endParam) param2 -= range
+    } else {
+      param1 = Math.max(param1, curve.startParam)
+      param2 = Math.min(param2, curve.endParam)
+    }
+    return new AcGeVector3d()
+      .subVectors(curve.evaluate(param2), curve.evaluate(param1))
+      .normalize()
+  }
+
+  private static findRoots(
+    curve: AcDbOsnapCurve,
+    func: (param: number) => number
+  ) {
+    const roots: AcGePoint3d[] = []
+    const step = (curve.endParam - curve.startParam) / NUM_SAMPLES
+    let param1 = curve.startParam
+    let value1 = func(param1)
+    for (let i = 1; i <= NUM_SAMPLES; ++i) {
+      const param2 = curve.startParam + i * step
+      const value2 = func(param2)
+      if (Math.abs(value1) < ZERO_TOL) {
+        roots.push(curve.evaluate(param1))
+      } else if (value1 * value2 < 0) {
+        let low = param1
+        let high = param2
+        let lowValue = value1
+        for (let j = 0; j < NUM_ITERATIONS; ++j) {
+          const middle = (low + high) / 2
+          const middleValue = func(middle)
+          if (lowValue * middleValue <= 0) {
+            high = middle
+          } else {
+            low = middle
+            lowValue = middleValue
+          }
+        }
+        roots.push(curve.evaluate((low + high) / 2))
+      }
+      param1 = param2
+      value1 = value2
+    }
+    if (Math.abs(value1) < ZERO_TOL && !curve.closed) {
+      roots.push(curve.evaluate(param1))
+    }
+    return roots
+  }
+}
@@ -0,0 +1,223 @@
+import {
+  AcGePoint2d,
+  AcGePoint2dLike,
+  AcGePolyline2dVertex,
+  AcGeTol
+} from '@mlightcad/geometry-engine'
+
+/**
+ * Vertex of one polyline with widths of the segment starting at the vertex.
+ */
+export interface AcDbWidePolylineVertex extends AcGePolyline2dVertex {
+  /** The starting width of the segment starting at this vertex */
+  startWidth?: number
+  /** The ending width of the segment starting at this vertex */
+  endWidth?: number
+}
+
+/**
+ * Maximum distance between one miter point and its vertex relative to the
+ * half width of segments at the vertex. Sharper joints aren't mitered.
+ */
+const MITER_LIMIT = 4
+
+/**
+ * Angle step in radians used to approximate edges of arc segments
+ */
+const ARC_ANGLE_STEP = Math.PI / 36
+
+/**
+ * Left and right edges of one segment with width. Left and right are defined
+ * when looking along the direction of the segment.
+ */
+interface AcDbWideSegment {
+  left: AcGePoint2d[]
+  right: AcGePoint2d[]
+  startHalfWidth: number
+  endHalfWidth: number
+}
+
+/**
+ * Internal helper class to compute filled outlines of polylines with width.
+ *
+ * Width of one segment changes linearly from its starting width to its ending
+ * width. One closed outline is created for each segment with width. Edges of
+ * adjacent segments are mitered at their shared vertex if both segments have
+ * the same non-zero width at the vertex.
+ *
+ * @internal
+ */
+export class AcDbPolylineWidthHelper {
+  /**
+   * Creates outlines of segments with width of one polyline.
+   *
+   * @param vertices - Vertices of the polyline
+   * @param closed - True if the polyline is closed
+   * @returns One closed outline for each segment with width. Empty array is
+   * returned if no segment has width.
+   */
+  static createOutlines(vertices: AcDbWidePolylineVertex[], closed: boolean) {
+    const count = closed ? vertices.length : vertices.length - 1
+    const segments: (AcDbWideSegment | undefined)[] = []
+    for (let i = 0; i < count; ++i) {
+      segments.push(
+        AcDbPolylineWidthHelper.createSegment(
+          vertices[i],
+          vertices[(i + 1) % vertices.length]
+        )
+      )
+    }
+
+    for (let i = 1; i < count; ++i) {
+      AcDbPolylineWidthHelper.miter(segments[i - 1], segments[i], vertices[i])
+    }
+    if (closed && count > 1) {
+      AcDbPolylineWidthHelper.miter(
+        segments[count - 1],
+        segments[0],
+        vertices[0]
+      )
+    }
+
+    const outlines: AcGePoint2d[][] = []
+    segments.forEach(segment => {
+      if (segment) {
+        outlines.push([...segment.left, ...[...segment.right].reverse()])
+      }
+    })
+    return outlines
+  }
+
+  /**
+   * Creates edges of the segment starting at the specified vertex.
+   *
+   * @returns Edges of the segment, or undefined if the segment has no width
+   * or no length
+   */
+  private static createSegment(
+    start: AcDbWidePolylineVertex,
+    end: AcGePoint2dLike
+  ): AcDbWideSegment | undefined {
+    const startHalfWidth = (start.startWidth || 0) / 2
+    const endHalfWidth = (start.endWidth || 0) / 2
+    const dx = end.x - start.x
+    const dy = end.y - start.y
+    const chord = Math.sqrt(dx * dx + dy * dy)
+    if (
+      (startHalfWidth <= 0 && endHalfWidth <= 0) ||
+      AcGeTol.equalToZero(chord)
+    ) {
+      return undefined
+    }
+
+    const bulge = start.bulge || 0
+    if (AcGeTol.equalToZero(bulge)) {
+      const nx = -dy / chord
+      const ny = dx / chord
+      return {
+        left: [
+          new AcGePoint2d(
+            start.x + nx * startHalfWidth,
+            start.y + ny * startHalfWidth
+          ),
+          new AcGePoint2d(end.x + nx * endHalfWidth, end.y + ny * endHalfWidth)
+        ],
+        right: [
+          new AcGePoint2d(
+            start.x - nx * startHalfWidth,
+            start.y - ny * startHalfWidth
+          ),
+          new AcGePoint2d(end.x - nx * endHalfWidth, end.y - ny * endHalfWidth)
+        ],
+        startHalfWidth,
+        endHalfWidth
+      }
+    }
+
+    // The center is on the left of the chord for counterclockwise arcs
+    const offset = (1 - bulge * bulge) / (4 * bulge)
+    const cx = (start.x + end.x) / 2 - dy * offset
+    const cy = (start.y + end.y) / 2 + dx * offset
+    const radius = (chord * (1 + bulge * bulge)) / (4 * Math.abs(bulge))
+    const startAngle = Math.atan2(start.y - cy, start.x - cx)
+    const sweep = 4 * Math.atan(bulge)
+    // The left side of counterclockwise arcs is towards the center
+    const sign = sweep > 0 ? 1 : -1
+    const count = Math.max(Math.ceil(Math.abs(sweep) / ARC_ANGLE_STEP), 1)
+
+    const left: AcGePoint2d[] = []
+    const right: AcGePoint2d[] = []
+    for (let i = 0; i <= count; ++i) {
+      const t = i / count
+      const angle = startAngle + sweep * t
+      const halfWidth = startHalfWidth + (endHalfWidth - startHalfWidth) * t
+      const cos = Math.cos(angle)
+      const sin = Math.sin(angle)
+      const leftRadius = Math.max(radius - sign * halfWidth, 0)
+      const rightRadius = Math.max(radius + sign * halfWidth, 0)
+      left.push(new AcGePoint2d(cx + leftRadius * cos, cy + leftRadius * sin))
+      right.push(
+        new AcGePoint2d(cx + rightRadius * cos, cy + rightRadius * sin)
+      )
+    }
+    return { left, right, startHalfWidth, endHalfWidth }
+  }
+
+  /**
+   * Miters edges of two adjacent segments at their shared vertex by moving
+   * the end of edges of the previous segment and the start of edges of the
+   * next segment to the intersections of these edges.
+   */
+  private static miter(
+    prev: AcDbWideSegment | undefined,
+    next: AcDbWideSegment | undefined,
+    vertex: AcGePoint2dLike
+  ) {
+    if (!prev || !next || prev.endHalfWidth <= 0) return
+    if (!AcGeTol.equalToZero(prev.endHalfWidth - next.startHalfWidth)) return
+
+    const limit = MITER_LIMIT * prev.endHalfWidth
+    const sides = [
+      [prev.left, next.left],
+      [prev.right, next.right]
+    ]
+    sides.forEach(([prevEdge, nextEdge]) => {
+      const count = prevEdge.length
+      const point = AcDbPolylineWidthHelper.intersectLines(
+        prevEdge[count - 2],
+        prevEdge[count - 1],
+        nextEdge[0],
+        nextEdge[1]
+      )
+      if (point && point.distanceTo(vertex) <= limit) {
+        prevEdge[count - 1] = point
+        nextEdge[0] = point.clone()
+      }
+    })
+  }
+
+  /**
+   * Computes the intersection of two infinite lines passing through the
+   * specified points.
+   *
+   * @returns The intersection, or undefined if the two lines are parallel
+   */
+  private static intersectLines(
+    p1: AcGePoint2dLike,
+    p2: AcGePoint2dLike,
+    p3: AcGePoint2dLike,
+    p4: AcGePoint2dLike
+  ) {
+    const d1x = p2.x - p1.x
+    const d1y = p2.y - p1.y
+    const d2x = p4.x - p3.x
+    const d2y = p4.y - p3.y
+    const length = Math.sqrt((d1x * d1x + d1y * d1y) * (d2x * d2x + d2y * d2y))
+    const det = d1x * d2y - d1y * d2x
+    if (AcGeTol.equalToZero(length) || AcGeTol.equalToZero(det / length)) {
+      return undefined
+    }
+    const t = ((p3.x - p1.x) * d2y - (p3.y - p1.y) * d2x) / det
+    return new AcGePoint2d(p1.x + d1x * t, p1.y + d1y * t)
+  }
+}
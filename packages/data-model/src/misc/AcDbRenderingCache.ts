@@ -1,9 +1,10 @@
 import { AcCmColor } from '@mlightcad/common'
 import { AcGeMatrix3d, AcGeVector3d } from '@mlightcad/geometry-engine'
 import { AcGiEntity, AcGiRenderer } from '@mlightcad/graphic-interface'
-import { AcDbEntity } from 'entity'
 
 import { AcDbBlockTableRecord } from '../database'
+import { AcDbAttributeDefinition } from '../entity/AcDbAttributeDefinition'
+import { AcDbEntity } from '../entity/AcDbEntity'
 
 /**
  * Internal class used to cache rendered results to avoid duplicated rendering.
@@ -189,6 +190,12 @@ export class AcDbRenderingCache {
         const entities = blockTableRecord.newIterator()
         let isFirstEntity = true
         for (const entity of entities) {
+          // Non-constant attribute definitions are replaced with attributes of
+          // block references. So don't draw them.
+          if (entity instanceof AcDbAttributeDefinition && !entity.isConstant) {
+            continue
+          }
+
           // If the color of this entity is 'byBlock', then store the original color of this entity color
           // and set the color of this entity to block's color. After renderering this entity, restore
           // its original color
@@ -1,9 +1,16 @@
 export * from './AcDbAngleUnits'
+export * from './AcDbArrowHelper'
+export * from './AcDbBoundaryTracer'
 export * from './AcDbRenderingCache'
 export * from './AcDbCodePage'
 export * from './AcDbConstants'
 export * from './AcDbDataGenerator'
 export * from './AcDbDimArrowType'
+export * from './AcDbHatchPatternManager'
+export * from './AcDbHatchPatternParser'
+export * from './AcDbIntersectType'
 export * from './AcDbObjectIterator'
+export * from './AcDbOsnapHelper'
 export * from './AcDbOsnapMode'
+export * from './AcDbPolylineWidthHelper'
 export * from './AcDbUnitsValue'
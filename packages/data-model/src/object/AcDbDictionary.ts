@@ -1,4 +1,4 @@
-import { AcDbObject, AcDbObjectId } from '../base'
+import { AcDbObject, AcDbObjectId } from '../base/AcDbObject'
 import { AcDbDatabase } from '../database'
 import { AcDbObjectIterator } from '../misc'
 
@@ -0,0 +1,293 @@
+import { AcGePoint3d } from '@mlightcad/geometry-engine'
+
+import { AcDbObject, AcDbObjectId } from '../base/AcDbObject'
+
+/**
+ * Defines the content type of multileaders.
+ */
+export enum AcDbMLeaderContentType {
+  /** No content */
+  NoneContent = 0,
+  /** Block reference content */
+  BlockContent = 1,
+  /** Multiline text content */
+  MTextContent = 2,
+  /** Feature control frame content */
+  ToleranceContent = 3
+}
+
+/**
+ * Defines the type of leader lines of multileaders.
+ */
+export enum AcDbMLeaderLineType {
+  /** Leader lines are invisible */
+  InvisibleLeader = 0,
+  /** Leader lines are straight line segments */
+  StraightLeader = 1,
+  /** Leader lines are splines */
+  SplineLeader = 2
+}
+
+/**
+ * The AcDbMLeaderStyle object stores settings of multileaders, such as
+ * leader line type, arrowhead, landing and dogleg, and content. Multileader
+ * styles are stored in one AcDbDictionary named ACAD_MLEADERSTYLE in the
+ * named objects dictionary. Settings of one multileader style are used as
+ * default values of multileaders referencing it.
+ *
+ * @example
+ * ```typescript
+ * const style = new AcDbMLeaderStyle();
+ * style.name = 'Callout';
+ * style.arrowSize = 2.5;
+ * style.textHeight = 2.5;
+ * database.dictionaries.mleaderStyles.setAt(style.name, style);
+ * ```
+ */
+export class AcDbMLeaderStyle extends AcDbObject {
+  /** The name of this style */
+  private _name: string
+  /** The description of this style */
+  private _description: string
+  /** The content type */
+  private _contentType: AcDbMLeaderContentType
+  /** The leader line type */
+  private _leaderLineType: AcDbMLeaderLineType
+  /** The maximum number of points of leader lines */
+  private _maxLeaderSegmentsPoints: number
+  /** The flag whether landing is enabled */
+  private _enableLanding: boolean
+  /** The gap between the landing and the content */
+  private _landingGap: number
+  /** The flag whether dogleg is enabled */
+  private _enableDogleg: boolean
+  /** The length of dogleg */
+  private _doglegLength: number
+  /** The id of the block table record used as arrowhead */
+  private _arrowSymbolId: AcDbObjectId
+  /** The size of arrowheads */
+  private _arrowSize: number
+  /** The default contents of multiline text content */
+  private _defaultMText: string
+  /** The id of the text style of multiline text content */
+  private _textStyleId: AcDbObjectId
+  /** The height of multiline text content */
+  private _textHeight: number
+  /** The id of the block table record used as block content */
+  private _blockId: AcDbObjectId
+  /** The scale factors of block content */
+  private _blockScale: AcGePoint3d
+  /** The rotation of block content in radians */
+  private _blockRotation: number
+  /** The overall scale factor */
+  private _scale: number
+
+  /**
+   * Creates a new multileader style with settings of the default 'Standard'
+   * multileader style.
+   */
+  constructor() {
+    super()
+    this._name = ''
+    this._description = ''
+    this._contentType = AcDbMLeaderContentType.MTextContent
+    this._leaderLineType = AcDbMLeaderLineType.StraightLeader
+    this._maxLeaderSegmentsPoints = 2
+    this._enableLanding = true
+    this._landingGap = 2
+    this._enableDogleg = true
+    this._doglegLength = 8
+    this._arrowSymbolId = ''
+    this._arrowSize = 4
+    this._defaultMText = ''
+    this._textStyleId = ''
+    this._textHeight = 4
+    this._blockId = ''
+    this._blockScale = new AcGePoint3d(1, 1, 1)
+    this._blockRotation = 0
+    this._scale = 1
+  }
+
+  /**
+   * Gets the name of this style. It is the key of this style in the
+   * ACAD_MLEADERSTYLE dictionary.
+   */
+  get name() {
+    return this._name
+  }
+  set name(value: string) {
+    this._name = value
+  }
+
+  /**
+   * Gets the description of this style.
+   */
+  get description() {
+    return this._description
+  }
+  set description(value: string) {
+    this._description = value
+  }
+
+  /**
+   * Gets the content type of multileaders.
+   */
+  get contentType() {
+    return this._contentType
+  }
+  set contentType(value: AcDbMLeaderContentType) {
+    this._contentType = value
+  }
+
+  /**
+   * Gets the type of leader lines.
+   */
+  get leaderLineType() {
+    return this._leaderLineType
+  }
+  set leaderLineType(value: AcDbMLeaderLineType) {
+    this._leaderLineType = value
+  }
+
+  /**
+   * Gets the maximum number of points of leader lines.
+   */
+  get maxLeaderSegmentsPoints() {
+    return this._maxLeaderSegmentsPoints
+  }
+  set maxLeaderSegmentsPoints(value: number) {
+    this._maxLeaderSegmentsPoints = value
+  }
+
+  /**
+   * Gets the flag whether leader lines are connected to the content by one
+   * landing.
+   */
+  get enableLanding() {
+    return this._enableLanding
+  }
+  set enableLanding(value: boolean) {
+    this._enableLanding = value
+  }
+
+  /**
+   * Gets the gap between the landing and the content.
+   */
+  get landingGap() {
+    return this._landingGap
+  }
+  set landingGap(value: number) {
+    this._landingGap = value
+  }
+
+  /**
+   * Gets the flag whether one horizontal dogleg is drawn at the landing.
+   */
+  get enableDogleg() {
+    return this._enableDogleg
+  }
+  set enableDogleg(value: boolean) {
+    this._enableDogleg = value
+  }
+
+  /**
+   * Gets the length of doglegs.
+   */
+  get doglegLength() {
+    return this._doglegLength
+  }
+  set doglegLength(value: number) {
+    this._doglegLength = value
+  }
+
+  /**
+   * Gets the id of the block table record used as arrowhead. Empty string
+   * means the default closed filled arrowhead.
+   */
+  get arrowSymbolId() {
+    return this._arrowSymbolId
+  }
+  set arrowSymbolId(value: AcDbObjectId) {
+    this._arrowSymbolId = value
+  }
+
+  /**
+   * Gets the size of arrowheads.
+   */
+  get arrowSize() {
+    return this._arrowSize
+  }
+  set arrowSize(value: number) {
+    this._arrowSize = value
+  }
+
+  /**
+   * Gets the default contents of multiline text content.
+   */
+  get defaultMText() {
+    return this._defaultMText
+  }
+  set defaultMText(value: string) {
+    this._defaultMText = value
+  }
+
+  /**
+   * Gets the id of the text style of multiline text content.
+   */
+  get textStyleId() {
+    return this._textStyleId
+  }
+  set textStyleId(value: AcDbObjectId) {
+    this._textStyleId = value
+  }
+
+  /**
+   * Gets the height of multiline text content.
+   */
+  get textHeight() {
+    return this._textHeight
+  }
+  set textHeight(value: number) {
+    this._textHeight = value
+  }
+
+  /**
+   * Gets the id of the block table record used as block content.
+   */
+  get blockId() {
+    return this._blockId
+  }
+  set blockId(value: AcDbObjectId) {
+    this._blockId = value
+  }
+
+  /**
+   * Gets the scale factors of block content.
+   */
+  get blockScale() {
+    return this._blockScale
+  }
+  set blockScale(value: AcGePoint3d) {
+    this._blockScale.copy(value)
+  }
+
+  /**
+   * Gets the rotation of block content in radians.
+   */
+  get blockRotation() {
+    return this._blockRotation
+  }
+  set blockRotation(value: number) {
+    this._blockRotation = value
+  }
+
+  /**
+   * Gets the overall scale factor applied to sizes defined by this style.
+   */
+  get scale() {
+    return this._scale
+  }
+  set scale(value: number) {
+    this._scale = value
+  }
+}
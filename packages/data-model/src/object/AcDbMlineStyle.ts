@@ -0,0 +1,274 @@
+import { AcCmColor } from '@mlightcad/common'
+
+import { AcDbObject } from '../base/AcDbObject'
+
+/**
+ * Defines flags of multiline styles. Flags can be combined.
+ */
+export enum AcDbMlineStyleFlags {
+  /** No flag is set */
+  None = 0,
+  /** The area between the outermost elements is filled */
+  FillOn = 1,
+  /** Miters are displayed at vertices */
+  DisplayMiters = 2,
+  /** One line is drawn between the outermost elements at the start */
+  StartSquareCap = 16,
+  /** Arcs are drawn between pairs of inner elements at the start */
+  StartInnerArcs = 32,
+  /** One arc is drawn between the outermost elements at the start */
+  StartRoundCap = 64,
+  /** One line is drawn between the outermost elements at the end */
+  EndSquareCap = 256,
+  /** Arcs are drawn between pairs of inner elements at the end */
+  EndInnerArcs = 512,
+  /** One arc is drawn between the outermost elements at the end */
+  EndRoundCap = 1024
+}
+
+/**
+ * Represents one element (one parallel line) of one multiline style.
+ */
+export interface AcDbMlineStyleElement {
+  /** The offset of this element from the multiline origin */
+  offset: number
+  /** The color of this element */
+  color: AcCmColor
+  /** The name of the line type of this element */
+  linetype: string
+}
+
+/**
+ * The AcDbMlineStyle object stores settings of multilines, such as offsets,
+ * colors and line types of parallel lines (elements), caps at the start and
+ * end, and fill. Multiline styles are stored in one AcDbDictionary named
+ * ACAD_MLINESTYLE in the named objects dictionary.
+ *
+ * @example
+ * ```typescript
+ * const style = new AcDbMlineStyle();
+ * style.name = 'WALL';
+ * style.addElement(120, new AcCmColor(), 'BYLAYER');
+ * style.addElement(-120, new AcCmColor(), 'BYLAYER');
+ * style.startSquareCap = true;
+ * style.endSquareCap = true;
+ * database.dictionaries.mlineStyles.setAt(style.name, style);
+ * ```
+ */
+export class AcDbMlineStyle extends AcDbObject {
+  /** The name of this style */
+  private _name: string
+  /** The description of this style */
+  private _description: string
+  /** The style flags */
+  private _flags: number
+  /** The fill color */
+  private _fillColor: AcCmColor
+  /** The angle of caps at the start in radians */
+  private _startAngle: number
+  /** The angle of caps at the end in radians */
+  private _endAngle: number
+  /** Elements sorted by offset in descending order */
+  private _elements: AcDbMlineStyleElement[]
+
+  /**
+   * Creates a new multiline style without any element.
+   */
+  constructor() {
+    super()
+    this._name = ''
+    this._description = ''
+    this._flags = AcDbMlineStyleFlags.None
+    this._fillColor = new AcCmColor()
+    this._startAngle = Math.PI / 2
+    this._endAngle = Math.PI / 2
+    this._elements = []
+  }
+
+  /**
+   * Gets the name of this style. It is the key of this style in the
+   * ACAD_MLINESTYLE dictionary.
+   */
+  get name() {
+    return this._name
+  }
+  set name(value: string) {
+    this._name = value
+  }
+
+  /**
+   * Gets the description of this style.
+   */
+  get description() {
+    return this._description
+  }
+  set description(value: string) {
+    this._description = value
+  }
+
+  /**
+   * Gets the style flags. Refer to {@link AcDbMlineStyleFlags} for the
+   * meaning of each bit.
+   */
+  get flags() {
+    return this._flags
+  }
+  set flags(value: number) {
+    this._flags = value
+  }
+
+  /**
+   * Returns true if the area between the outermost elements is filled.
+   */
+  get filled() {
+    return (this._flags & AcDbMlineStyleFlags.FillOn) !== 0
+  }
+  set filled(value: boolean) {
+    this.setFlag(AcDbMlineStyleFlags.FillOn, value)
+  }
+
+  /**
+   * Returns true if miters are displayed at vertices.
+   */
+  get showMiters() {
+    return (this._flags & AcDbMlineStyleFlags.DisplayMiters) !== 0
+  }
+  set showMiters(value: boolean) {
+    this.setFlag(AcDbMlineStyleFlags.DisplayMiters, value)
+  }
+
+  /**
+   * Returns true if one line is drawn between the outermost elements at the
+   * start.
+   */
+  get startSquareCap() {
+    return (this._flags & AcDbMlineStyleFlags.StartSquareCap) !== 0
+  }
+  set startSquareCap(value: boolean) {
+    this.setFlag(AcDbMlineStyleFlags.StartSquareCap, value)
+  }
+
+  /**
+   * Returns true if arcs are drawn between pairs of inner elements at the
+   * start.
+   */
+  get startInnerArcs() {
+    return (this._flags & AcDbMlineStyleFlags.StartInnerArcs) !== 0
+  }
+  set startInnerArcs(value: boolean) {
+    this.setFlag(AcDbMlineStyleFlags.StartInnerArcs, value)
+  }
+
+  /**
+   * Returns true if one arc is drawn between the outermost elements at the
+   * start.
+   */
+  get startRoundCap() {
+    return (this._flags & AcDbMlineStyleFlags.StartRoundCap) !== 0
+  }
+  set startRoundCap(value: boolean) {
+    this.setFlag(AcDbMlineStyleFlags.StartRoundCap, value)
+  }
+
+  /**
+   * Returns true if one line is drawn between the outermost elements at the
+   * end.
+   */
+  get endSquareCap() {
+    return (this._flags & AcDbMlineStyleFlags.EndSquareCap) !== 0
+  }
+  set endSquareCap(value: boolean) {
+    this.setFlag(AcDbMlineStyleFlags.EndSquareCap, value)
+  }
+
+  /**
+   * Returns true if arcs are drawn between pairs of inner elements at the
+   * end.
+   */
+  get endInnerArcs() {
+    return (this._flags & AcDbMlineStyleFlags.EndInnerArcs) !== 0
+  }
+  set endInnerArcs(value: boolean) {
+    this.setFlag(AcDbMlineStyleFlags.EndInnerArcs, value)
+  }
+
+  /**
+   * Returns true if one arc is drawn between the outermost elements at the
+   * end.
+   */
+  get endRoundCap() {
+    return (this._flags & AcDbMlineStyleFlags.EndRoundCap) !== 0
+  }
+  set endRoundCap(value: boolean) {
+    this.setFlag(AcDbMlineStyleFlags.EndRoundCap, value)
+  }
+
+  /**
+   * Gets the color used to fill the area between the outermost elements.
+   */
+  get fillColor() {
+    return this._fillColor
+  }
+  set fillColor(value: AcCmColor) {
+    this._fillColor = value.clone()
+  }
+
+  /**
+   * Gets the angle of caps at the start in radians.
+   */
+  get startAngle() {
+    return this._startAngle
+  }
+  set startAngle(value: number) {
+    this._startAngle = value
+  }
+
+  /**
+   * Gets the angle of caps at the end in radians.
+   */
+  get endAngle() {
+    return this._endAngle
+  }
+  set endAngle(value: number) {
+    this._endAngle = value
+  }
+
+  /**
+   * Gets elements of this style sorted by offset in descending order.
+   */
+  get elements(): readonly AcDbMlineStyleElement[] {
+    return this._elements
+  }
+
+  /**
+   * Adds one element to this style. Elements are kept sorted by offset in
+   * descending order.
+   *
+   * @param offset - The offset of the element from the multiline origin
+   * @param color - The color of the element
+   * @param linetype - The name of the line type of the element
+   * @returns The index of the added element
+   */
+  addElement(offset: number, color: AcCmColor, linetype: string) {
+    const element: AcDbMlineStyleElement = {
+      offset,
+      color: color.clone(),
+      linetype
+    }
+    let index = this._elements.findIndex(item => item.offset < offset)
+    if (index < 0) index = this._elements.length
+    this._elements.splice(index, 0, element)
+    return index
+  }
+
+  /**
+   * Removes all elements of this style.
+   */
+  removeAllElements() {
+    this._elements = []
+  }
+
+  private setFlag(flag: AcDbMlineStyleFlags, value: boolean) {
+    this._flags = value ? this._flags | flag : this._flags & ~flag
+  }
+}
@@ -1,4 +1,4 @@
-import { AcDbObject } from '../base'
+import { AcDbObject } from '../base/AcDbObject'
 
 /**
  * The AcDbRasterImageDef object (or "image definition object") works with the AcDbRasterImage entity
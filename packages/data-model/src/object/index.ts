@@ -1,3 +1,5 @@
 export * from './layout'
 export * from './AcDbDictionary'
 export * from './AcDbRasterImageDef'
+export * from './AcDbMLeaderStyle'
+export * from './AcDbMlineStyle'
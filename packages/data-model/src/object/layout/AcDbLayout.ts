@@ -1,6 +1,6 @@
 import { AcGeBox2d, AcGeBox3d } from '@mlightcad/geometry-engine'
 
-import { AcDbObject } from '../../base'
+import { AcDbObject } from '../../base/AcDbObject'
 
 /**
  * Represents the stored characteristics of each paperspace layout.
@@ -0,0 +1,216 @@
+import {
+  AcGeArea2d,
+  AcGeCircArc2d,
+  AcGeLoop2d,
+  AcGePolyline2d,
+  AcGePolyline2dVertex
+} from '../src'
+
+const createRectangle = (
+  minX: number,
+  minY: number,
+  maxX: number,
+  maxY: number
+) =>
+  new AcGePolyline2d(
+    [
+      { x: minX, y: minY },
+      { x: maxX, y: minY },
+      { x: maxX, y: maxY },
+      { x: minX, y: maxY }
+    ],
+    true
+  )
+
+const createCircle = (x: number, y: number, radius: number) =>
+  new AcGePolyline2d<AcGePolyline2dVertex>(
+    [
+      { x: x + radius, y, bulge: 1 },
+      { x: x - radius, y, bulge: 1 }
+    ],
+    true
+  )
+
+const createArea = (...loops: AcGePolyline2d[]) => {
+  const area = new AcGeArea2d()
+  loops.forEach(loop => area.add(loop))
+  return area
+}
+
+describe('AcGeArea2d', () => {
+  describe('area properties', () => {
+    it('computes area, perimeter and centroid of one rectangle', () => {
+      const area = createArea(createRectangle(0, 0, 4, 2))
+      expect(area.area).toBeCloseTo(8, 9)
+      expect(area.perimeter).toBeCloseTo(12, 9)
+      expect(area.centroid.x).toBeCloseTo(2, 9)
+      expect(area.centroid.y).toBeCloseTo(1, 9)
+    })
+
+    it('does not depend on the orientation of loops', () => {
+      const loop = createRectangle(0, 0, 4, 2)
+      loop.vertices.reverse()
+      expect(createArea(loop).area).toBeCloseTo(8, 9)
+    })
+
+    it('excludes holes', () => {
+      const area = createArea(
+        createRectangle(0, 0, 10, 10),
+        createRectangle(6, 6, 8, 8)
+      )
+      expect(area.area).toBeCloseTo(96, 9)
+      expect(area.perimeter).toBeCloseTo(48, 9)
+      // (100 * 5 - 4 * 7) / 96
+      expect(area.centroid.x).toBeCloseTo(472 / 96, 9)
+      expect(area.centroid.y).toBeCloseTo(472 / 96, 9)
+    })
+
+    it('computes properties of loops with arcs', () => {
+      const area = createArea(createCircle(1, 2, 3))
+      expect(area.area).toBeCloseTo(Math.PI * 9, 9)
+      expect(area.perimeter).toBeCloseTo(Math.PI * 6, 9)
+      expect(area.centroid.x).toBeCloseTo(1, 9)
+      expect(area.centroid.y).toBeCloseTo(2, 9)
+    })
+
+    it('computes the centroid of one half disk', () => {
+      const area = createArea(
+        new AcGePolyline2d<AcGePolyline2dVertex>(
+          [
+            { x: 1, y: 0, bulge: 1 },
+            { x: -1, y: 0 }
+          ],
+          true
+        )
+      )
+      expect(area.area).toBeCloseTo(Math.PI / 2, 9)
+      expect(area.centroid.x).toBeCloseTo(0, 9)
+      expect(area.centroid.y).toBeCloseTo(4 / (3 * Math.PI), 9)
+    })
+
+    it('computes properties of loops made up of curves', () => {
+      const area = new AcGeArea2d()
+      area.add(
+        new AcGeLoop2d([new AcGeCircArc2d({ x: 0, y: 0 }, 2, 0, 0, false)])
+      )
+      expect(area.area).toBeCloseTo(Math.PI * 4, 9)
+      expect(area.perimeter).toBeCloseTo(Math.PI * 4, 9)
+    })
+
+    it('returns zero for empty areas', () => {
+      const area = new AcGeArea2d()
+      expect(area.area).toBe(0)
+      expect(area.perimeter).toBe(0)
+    })
+  })
+
+  describe('boolean operations', () => {
+    const area1 = createArea(createRectangle(0, 0, 2, 2))
+    const area2 = createArea(createRectangle(1, 1, 3, 3))
+
+    it('unites overlapping areas', () => {
+      const result = area1.union(area2)
+      expect(result.loops).toHaveLength(1)
+      expect((result.loops[0] as AcGePolyline2d).numberOfVertices).toBe(8)
+      expect(result.area).toBeCloseTo(7, 9)
+    })
+
+    it('intersects overlapping areas', () => {
+      const result = area1.intersect(area2)
+      expect(result.loops).toHaveLength(1)
+      expect((result.loops[0] as AcGePolyline2d).numberOfVertices).toBe(4)
+      expect(result.area).toBeCloseTo(1, 9)
+      expect(result.centroid.x).toBeCloseTo(1.5, 9)
+      expect(result.centroid.y).toBeCloseTo(1.5, 9)
+    })
+
+    it('subtracts overlapping areas', () => {
+      const result = area1.subtract(area2)
+      expect(result.loops).toHaveLength(1)
+      expect((result.loops[0] as AcGePolyline2d).numberOfVertices).toBe(6)
+      expect(result.area).toBeCloseTo(3, 9)
+    })
+
+    it('computes the exclusive or of overlapping areas', () => {
+      const result = area1.xor(area2)
+      expect(result.loops).toHaveLength(2)
+      expect(result.area).toBeCloseTo(6, 9)
+    })
+
+    it('creates holes when subtracting inner areas', () => {
+      const result = createArea(createRectangle(0, 0, 10, 10)).subtract(
+        createArea(createRectangle(2, 2, 4, 4))
+      )
+      expect(result.loops).toHaveLength(2)
+      expect(result.loops[0].box.size.width).toBeCloseTo(10, 9)
+      expect(result.area).toBeCloseTo(96, 9)
+    })
+
+    it('keeps disjoint areas when uniting them', () => {
+      const result = area1.union(createArea(createRectangle(5, 5, 6, 6)))
+      expect(result.loops).toHaveLength(2)
+      expect(result.area).toBeCloseTo(5, 9)
+      expect(result.box.max.x).toBeCloseTo(6, 9)
+      expect(
+        area1.intersect(createArea(createRectangle(5, 5, 6, 6))).loops
+      ).toHaveLength(0)
+    })
+
+    it('handles areas sharing edges', () => {
+      const right = createArea(createRectangle(2, 0, 4, 2))
+      const union = area1.union(right)
+      expect(union.loops).toHaveLength(1)
+      expect((union.loops[0] as AcGePolyline2d).numberOfVertices).toBe(4)
+      expect(union.area).toBeCloseTo(8, 9)
+      expect(area1.intersect(right).area).toBeCloseTo(0, 9)
+      expect(area1.subtract(right).area).toBeCloseTo(4, 9)
+    })
+
+    it('handles identical areas', () => {
+      expect(area1.union(area1).area).toBeCloseTo(4, 9)
+      expect(area1.intersect(area1).area).toBeCloseTo(4, 9)
+      expect(area1.subtract(area1).loops).toHaveLength(0)
+      expect(area1.xor(area1).loops).toHaveLength(0)
+    })
+
+    it('handles empty areas', () => {
+      const empty = new AcGeArea2d()
+      expect(area1.union(empty).area).toBeCloseTo(4, 9)
+      expect(area1.intersect(empty).loops).toHaveLength(0)
+      expect(area1.subtract(empty).area).toBeCloseTo(4, 9)
+      expect(empty.subtract(area1).loops).toHaveLength(0)
+    })
+
+    it('keeps arcs of overlapping circles', () => {
+      const circle1 = createArea(createCircle(0, 0, 1))
+      const circle2 = createArea(createCircle(1, 0, 1))
+      // Area of the lens shared by two unit circles whose centers are 1 apart
+      const lens = (2 * Math.PI) / 3 - Math.sqrt(3) / 2
+
+      const intersection = circle1.intersect(circle2)
+      expect(intersection.loops).toHaveLength(1)
+      const vertices = (intersection.loops[0] as AcGePolyline2d).vertices
+      expect(vertices).toHaveLength(2)
+      vertices.forEach(vertex => {
+        expect(vertex.bulge).toBeCloseTo(Math.tan(Math.PI / 6), 9)
+      })
+      expect(intersection.area).toBeCloseTo(lens, 9)
+      expect(circle1.union(circle2).area).toBeCloseTo(2 * Math.PI - lens, 9)
+      expect(circle1.subtract(circle2).area).toBeCloseTo(Math.PI - lens, 9)
+      expect(circle1.xor(circle2).area).toBeCloseTo(2 * Math.PI - 2 * lens, 9)
+    })
+
+    it('subtracts areas with holes', () => {
+      const frame = createArea(
+        createRectangle(0, 0, 10, 10),
+        createRectangle(2, 2, 8, 8)
+      )
+      const result = frame.subtract(createArea(createRectangle(-1, 4, 11, 6)))
+      expect(result.loops).toHaveLength(2)
+      expect(result.area).toBeCloseTo(56, 9)
+      expect(
+        frame.union(createArea(createRectangle(4, 4, 6, 6))).area
+      ).toBeCloseTo(68, 9)
+    })
+  })
+})
@@ -0,0 +1,94 @@
+import { AcGeBoundaryUtil, AcGePoint2dLike } from '../src'
+
+const rectangle = (x1: number, y1: number, x2: number, y2: number) => [
+  { x: x1, y: y1 },
+  { x: x2, y: y1 },
+  { x: x2, y: y2 },
+  { x: x1, y: y2 },
+  { x: x1, y: y1 }
+]
+
+const area = (points: AcGePoint2dLike[]) => {
+  let result = 0
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    result += points[j].x * points[i].y - points[i].x * points[j].y
+  }
+  return result / 2
+}
+
+describe('Test AcGeBoundaryUtil', () => {
+  it('finds the smallest region formed by intersecting lines', () => {
+    // One square split by one vertical line with dangling ends
+    const curves = [
+      rectangle(0, 0, 10, 10),
+      [
+        { x: 4, y: -5 },
+        { x: 4, y: 15 }
+      ]
+    ]
+    const left = AcGeBoundaryUtil.traceBoundary(curves, { x: 1, y: 5 })
+    expect(left).toBeDefined()
+    expect(area(left!.outer)).toBeCloseTo(40)
+    expect(left!.islands.length).toBe(0)
+
+    const right = AcGeBoundaryUtil.traceBoundary(curves, { x: 6, y: 5 })
+    expect(area(right!.outer)).toBeCloseTo(60)
+  })
+
+  it('returns undefined if the point is not enclosed', () => {
+    const curves = [rectangle(0, 0, 10, 10)]
+    expect(
+      AcGeBoundaryUtil.traceBoundary(curves, { x: 20, y: 5 })
+    ).toBeUndefined()
+    // Open curves don't enclose any region
+    expect(
+      AcGeBoundaryUtil.traceBoundary(
+        [
+          [
+            { x: 0, y: 0 },
+            { x: 10, y: 0 },
+            { x: 10, y: 10 }
+          ]
+        ],
+        { x: 8, y: 2 }
+      )
+    ).toBeUndefined()
+  })
+
+  it('detects islands inside the region', () => {
+    const curves = [
+      rectangle(0, 0, 10, 10),
+      rectangle(2, 2, 8, 8),
+      rectangle(4, 4, 6, 6),
+      rectangle(20, 20, 30, 30)
+    ]
+    const boundary = AcGeBoundaryUtil.traceBoundary(curves, { x: 1, y: 1 })
+    expect(area(boundary!.outer)).toBeCloseTo(100)
+    expect(boundary!.islands.length).toBe(2)
+    boundary!.islands.forEach(island => expect(area(island)).toBeLessThan(0))
+
+    const inner = AcGeBoundaryUtil.traceBoundary(curves, { x: 3, y: 3 })
+    expect(area(inner!.outer)).toBeCloseTo(36)
+    expect(inner!.islands.length).toBe(1)
+
+    const withoutIslands = AcGeBoundaryUtil.traceBoundary(
+      curves,
+      { x: 1, y: 1 },
+      false
+    )
+    expect(withoutIslands!.islands.length).toBe(0)
+  })
+
+  it('handles collinear overlapped segments', () => {
+    const curves = [
+      rectangle(0, 0, 10, 10),
+      rectangle(10, 0, 20, 5),
+      [
+        { x: 0, y: 0 },
+        { x: 20, y: 0 }
+      ]
+    ]
+    const boundary = AcGeBoundaryUtil.traceBoundary(curves, { x: 15, y: 2 })
+    expect(area(boundary!.outer)).toBeCloseTo(50)
+  })
+})
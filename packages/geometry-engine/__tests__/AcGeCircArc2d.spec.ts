@@ -1,4 +1,10 @@
-import { AcGeCircArc2d, AcGeTol, DEFAULT_TOL, ORIGIN_POINT_2D } from '../src'
+import {
+  AcGeCircArc2d,
+  AcGeMatrix2d,
+  AcGeTol,
+  DEFAULT_TOL,
+  ORIGIN_POINT_2D
+} from '../src'
 
 describe('Test AcGeCircArc2d', () => {
   it('computes closed property correctly', () => {
@@ -120,4 +126,16 @@ describe('Test AcGeCircArc2d', () => {
     expect(AcGeTol.equalToZero(arc2.endAngle)).toBeTruthy()
     expect(arc2.clockwise).toBe(true)
   })
+
+  it('transforms arc correctly', () => {
+    const arc = new AcGeCircArc2d({ x: 0, y: 0 }, 1, 0, Math.PI / 2, false)
+    arc.transform(new AcGeMatrix2d().makeScale(-2, 2))
+    expect(arc.radius).toBeCloseTo(2)
+    expect(arc.clockwise).toBe(true)
+    expect(arc.startPoint.x).toBeCloseTo(-2)
+    expect(arc.startPoint.y).toBeCloseTo(0)
+    expect(arc.endPoint.x).toBeCloseTo(0)
+    expect(arc.endPoint.y).toBeCloseTo(2)
+    expect(arc.length).toBeCloseTo(Math.PI)
+  })
 })
@@ -1,5 +1,5 @@
-import { AcGeVector3d } from '../src'
-import { AcGeCircArc3d, ORIGIN_POINT_3D } from '../src'
+import { AcGeMatrix3d, AcGeVector3d } from '../src'
+import { AcGeCircArc3d, ORIGIN_POINT_3D, TAU } from '../src'
 
 describe('Test AcGeCircArc3d', () => {
   it('computes length correctly', () => {
@@ -13,4 +13,137 @@ describe('Test AcGeCircArc3d', () => {
     )
     expect(arc.length).toBe(Math.PI)
   })
+
+  it('transforms arc correctly', () => {
+    const arc = new AcGeCircArc3d(
+      ORIGIN_POINT_3D,
+      1,
+      0,
+      Math.PI / 2,
+      AcGeVector3d.Z_AXIS,
+      AcGeVector3d.X_AXIS
+    )
+    arc.transform(new AcGeMatrix3d().makeTranslation(1, 2, 0))
+    expect(arc.center).toEqual({ x: 1, y: 2, z: 0 })
+    expect(arc.startPoint.x).toBeCloseTo(2)
+    expect(arc.startPoint.y).toBeCloseTo(2)
+    expect(arc.endPoint.x).toBeCloseTo(1)
+    expect(arc.endPoint.y).toBeCloseTo(3)
+
+    arc.transform(new AcGeMatrix3d().makeScale(2, 2, 2))
+    expect(arc.radius).toBeCloseTo(2)
+    expect(arc.startPoint.x).toBeCloseTo(4)
+    expect(arc.startPoint.y).toBeCloseTo(4)
+    expect(arc.length).toBeCloseTo(Math.PI)
+  })
+
+  it('keeps arc shape when mirroring it', () => {
+    const arc = new AcGeCircArc3d(
+      ORIGIN_POINT_3D,
+      1,
+      0,
+      Math.PI / 2,
+      AcGeVector3d.Z_AXIS,
+      AcGeVector3d.X_AXIS
+    )
+    arc.transform(new AcGeMatrix3d().makeScale(-1, 1, 1))
+    expect(arc.normal.z).toBeCloseTo(1)
+    expect(arc.startPoint.x).toBeCloseTo(0)
+    expect(arc.startPoint.y).toBeCloseTo(1)
+    expect(arc.endPoint.x).toBeCloseTo(-1)
+    expect(arc.endPoint.y).toBeCloseTo(0)
+    const midPoint = arc.getPointAtAngle(arc.startAngle + Math.PI / 4)
+    expect(midPoint.x).toBeCloseTo(-Math.SQRT1_2)
+    expect(midPoint.y).toBeCloseTo(Math.SQRT1_2)
+    expect(arc.refVec).toEqual({ x: 1, y: 0, z: 0 })
+    expect(arc.startAngle).toBeCloseTo(Math.PI / 2)
+    expect(arc.endAngle).toBeCloseTo(Math.PI)
+  })
+
+  it('measures angles from x axis after rotating arc', () => {
+    const arc = new AcGeCircArc3d(
+      ORIGIN_POINT_3D,
+      1,
+      0,
+      Math.PI / 2,
+      AcGeVector3d.Z_AXIS
+    )
+    arc.transform(new AcGeMatrix3d().makeRotationZ(Math.PI / 2))
+    expect(arc.refVec).toEqual({ x: 1, y: 0, z: 0 })
+    expect(arc.startAngle).toBeCloseTo(Math.PI / 2)
+    expect(arc.endAngle).toBeCloseTo(Math.PI)
+    expect(arc.startPoint.x).toBeCloseTo(0)
+    expect(arc.startPoint.y).toBeCloseTo(1)
+    expect(arc.endPoint.x).toBeCloseTo(-1)
+    expect(arc.endPoint.y).toBeCloseTo(0)
+
+    // Rotate arc into yz plane
+    arc.transform(new AcGeMatrix3d().makeRotationY(Math.PI / 2))
+    expect(arc.normal.x).toBeCloseTo(1)
+    expect(arc.refVec.dot(arc.normal)).toBeCloseTo(0)
+    expect(arc.startPoint.z).toBeCloseTo(0)
+    expect(arc.startPoint.y).toBeCloseTo(1)
+    expect(arc.endPoint.z).toBeCloseTo(1)
+    expect(arc.endPoint.y).toBeCloseTo(0)
+  })
+
+  it('computes parameters, distances and closest points correctly', () => {
+    const arc = new AcGeCircArc3d(
+      ORIGIN_POINT_3D,
+      2,
+      Math.PI * 1.5,
+      Math.PI / 2,
+      AcGeVector3d.Z_AXIS
+    )
+    expect(arc.startParam).toBeCloseTo(Math.PI * 1.5)
+    expect(arc.endParam).toBeCloseTo(Math.PI * 2.5)
+    expect(arc.getParamAtPoint({ x: 2, y: 0, z: 0 })).toBeCloseTo(TAU)
+    expect(arc.getDistAtParam(TAU)).toBeCloseTo(Math.PI)
+    expect(arc.getParamAtDist(Math.PI)).toBeCloseTo(TAU)
+
+    const deriv = arc.getFirstDeriv(0)
+    expect(deriv.x).toBeCloseTo(0)
+    expect(deriv.y).toBeCloseTo(2)
+
+    const closest = arc.getClosestPointTo({ x: -5, y: 1, z: 0 })
+    expect(closest.x).toBeCloseTo(0)
+    expect(closest.y).toBeCloseTo(2)
+    const extended = arc.getClosestPointTo({ x: -5, y: 0, z: 0 }, true)
+    expect(extended.x).toBeCloseTo(-2)
+  })
+
+  it('computes area and splits circle correctly', () => {
+    const circle = new AcGeCircArc3d(
+      ORIGIN_POINT_3D,
+      1,
+      0,
+      TAU,
+      AcGeVector3d.Z_AXIS
+    )
+    expect(circle.area).toBeCloseTo(Math.PI)
+    expect(circle.split([1]).length).toBe(1)
+
+    const arcs = circle.split([Math.PI / 2, Math.PI * 1.5])
+    expect(arcs.length).toBe(2)
+    expect(arcs[0].length).toBeCloseTo(Math.PI)
+    expect(arcs[1].startAngle).toBeCloseTo(Math.PI * 1.5)
+    expect(arcs[1].endAngle).toBeCloseTo(Math.PI / 2)
+    expect(arcs[0].area).toBeCloseTo(Math.PI / 2)
+  })
+
+  it('offsets arc correctly', () => {
+    const arc = new AcGeCircArc3d(
+      ORIGIN_POINT_3D,
+      2,
+      0,
+      Math.PI / 2,
+      AcGeVector3d.Z_AXIS
+    )
+    const [outer] = arc.getOffsetCurves(1)
+    expect(outer.radius).toBeCloseTo(3)
+    expect(outer.startAngle).toBeCloseTo(0)
+    expect(outer.endAngle).toBeCloseTo(Math.PI / 2)
+    expect(arc.getOffsetCurves(-1)[0].radius).toBeCloseTo(1)
+    expect(arc.getOffsetCurves(-2)).toEqual([])
+  })
 })
@@ -1,8 +1,10 @@
 import {
   AcGeEllipseArc3d,
+  AcGeMatrix3d,
   AcGeVector3d,
   DEFAULT_TOL,
-  ORIGIN_POINT_3D
+  ORIGIN_POINT_3D,
+  TAU
 } from '../src'
 
 describe('Test AcGeEllipseArc3d', () => {
@@ -71,4 +73,93 @@ describe('Test AcGeEllipseArc3d', () => {
     )
     expect(arc2.length).toBeCloseTo(9.688448220547675, 4)
   })
+
+  it('transforms ellipse arc by non-uniform scaling correctly', () => {
+    const arc = new AcGeEllipseArc3d(
+      ORIGIN_POINT_3D,
+      AcGeVector3d.Z_AXIS,
+      AcGeVector3d.X_AXIS,
+      2,
+      1,
+      0,
+      Math.PI / 2
+    )
+    arc.transform(new AcGeMatrix3d().makeScale(1, 3, 1))
+    expect(arc.majorAxisRadius).toBeCloseTo(3)
+    expect(arc.minorAxisRadius).toBeCloseTo(2)
+    expect(arc.startPoint.x).toBeCloseTo(2)
+    expect(arc.startPoint.y).toBeCloseTo(0)
+    expect(arc.endPoint.x).toBeCloseTo(0)
+    expect(arc.endPoint.y).toBeCloseTo(3)
+    expect(arc.box.max.x).toBeCloseTo(2)
+    expect(arc.box.max.y).toBeCloseTo(3)
+  })
+
+  it('computes parameters, distances and closest points correctly', () => {
+    const ellipse = new AcGeEllipseArc3d(
+      ORIGIN_POINT_3D,
+      AcGeVector3d.Z_AXIS,
+      AcGeVector3d.X_AXIS,
+      2,
+      1
+    )
+    expect(ellipse.startParam).toBe(0)
+    expect(ellipse.endParam).toBeCloseTo(Math.PI * 2)
+    expect(ellipse.getParamAtPoint({ x: 0, y: 1, z: 0 })).toBeCloseTo(
+      Math.PI / 2
+    )
+
+    // Perimeter of the ellipse with semi-axes 2 and 1
+    const length = ellipse.getDistAtParam(ellipse.endParam)
+    expect(length).toBeCloseTo(9.688448, 5)
+    expect(ellipse.getParamAtDist(length / 2)).toBeCloseTo(Math.PI)
+
+    const closest = ellipse.getClosestPointTo({ x: 0, y: 5, z: 0 })
+    expect(closest.x).toBeCloseTo(0)
+    expect(closest.y).toBeCloseTo(1)
+    expect(ellipse.area).toBeCloseTo(Math.PI * 2)
+  })
+
+  it('splits ellipse arc correctly', () => {
+    const arc = new AcGeEllipseArc3d(
+      ORIGIN_POINT_3D,
+      AcGeVector3d.Z_AXIS,
+      AcGeVector3d.X_AXIS,
+      2,
+      1,
+      0,
+      Math.PI
+    )
+    const arcs = arc.split([Math.PI / 2])
+    expect(arcs.length).toBe(2)
+    expect(arcs[0].endPoint.x).toBeCloseTo(0)
+    expect(arcs[0].endPoint.y).toBeCloseTo(1)
+    expect(arcs[1].endPoint.x).toBeCloseTo(-2)
+    // Closest point is limited to the ellipse arc
+    const closest = arc.getClosestPointTo({ x: 0, y: -5, z: 0 })
+    expect(Math.abs(closest.x)).toBeCloseTo(2)
+  })
+
+  it('offsets ellipse by spline correctly', () => {
+    const ellipse = new AcGeEllipseArc3d(
+      ORIGIN_POINT_3D,
+      AcGeVector3d.Z_AXIS,
+      AcGeVector3d.X_AXIS,
+      2,
+      1,
+      0,
+      TAU
+    )
+    const [outer] = ellipse.getOffsetCurves(0.5)
+    expect(outer.startPoint.x).toBeCloseTo(2.5)
+    expect(outer.endPoint.x).toBeCloseTo(2.5)
+    for (let i = 0; i < 10; ++i) {
+      const point = outer.getPointAtParam(i / 10)
+      const closest = ellipse.getClosestPointTo(point)
+      expect(closest.distanceTo(point)).toBeCloseTo(0.5, 4)
+    }
+    const [inner] = ellipse.getOffsetCurves(-0.25)
+    expect(inner.getPointAtParam(0.25).y).toBeCloseTo(0.75, 4)
+    expect(ellipse.getOffsetCurves(-1)).toEqual([])
+  })
 })
@@ -0,0 +1,382 @@
+import {
+  AcGeCircArc2d,
+  AcGeCircArc3d,
+  AcGeEllipseArc2d,
+  AcGeExtendType,
+  AcGeIntersectionUtil,
+  AcGeLine2d,
+  AcGeLine3d,
+  AcGePoint2dLike,
+  AcGePoint3dLike,
+  AcGePolyline2d,
+  AcGeSpline3d,
+  AcGeVector3d
+} from '../src'
+
+const sortPoints = <T extends AcGePoint2dLike>(points: T[]) =>
+  [...points].sort((a, b) => a.x - b.x || a.y - b.y)
+
+const expectPoints2d = (
+  actual: AcGePoint2dLike[],
+  expected: AcGePoint2dLike[]
+) => {
+  expect(actual).toHaveLength(expected.length)
+  const sortedActual = sortPoints(actual)
+  sortPoints(expected).forEach((point, index) => {
+    expect(sortedActual[index].x).toBeCloseTo(point.x, 6)
+    expect(sortedActual[index].y).toBeCloseTo(point.y, 6)
+  })
+}
+
+const expectPoints3d = (
+  actual: AcGePoint3dLike[],
+  expected: AcGePoint3dLike[]
+) => {
+  expectPoints2d(actual, expected)
+  const sortedActual = sortPoints(actual)
+  sortPoints(expected).forEach((point, index) => {
+    expect(sortedActual[index].z).toBeCloseTo(point.z, 6)
+  })
+}
+
+describe('AcGeIntersectionUtil', () => {
+  describe('intersectCurves2d', () => {
+    it('intersects two lines', () => {
+      const line1 = new AcGeLine2d({ x: 0, y: 0 }, { x: 10, y: 10 })
+      const line2 = new AcGeLine2d({ x: 0, y: 10 }, { x: 10, y: 0 })
+      expectPoints2d(AcGeIntersectionUtil.intersectCurves2d(line1, line2), [
+        { x: 5, y: 5 }
+      ])
+
+      const line3 = new AcGeLine2d({ x: 0, y: 1 }, { x: 10, y: 11 })
+      expect(AcGeIntersectionUtil.intersectCurves2d(line1, line3)).toEqual([])
+    })
+
+    it('returns end points of overlapping lines', () => {
+      const line1 = new AcGeLine2d({ x: 0, y: 0 }, { x: 10, y: 0 })
+      const line2 = new AcGeLine2d({ x: 5, y: 0 }, { x: 15, y: 0 })
+      expectPoints2d(AcGeIntersectionUtil.intersectCurves2d(line1, line2), [
+        { x: 5, y: 0 },
+        { x: 10, y: 0 }
+      ])
+    })
+
+    it('extends lines according to extend types', () => {
+      const line1 = new AcGeLine2d({ x: 0, y: 0 }, { x: 2, y: 0 })
+      const line2 = new AcGeLine2d({ x: 5, y: 1 }, { x: 5, y: 5 })
+      expect(AcGeIntersectionUtil.intersectCurves2d(line1, line2)).toEqual([])
+      expect(
+        AcGeIntersectionUtil.intersectCurves2d(
+          line1,
+          line2,
+          AcGeExtendType.End,
+          AcGeExtendType.None
+        )
+      ).toEqual([])
+      expect(
+        AcGeIntersectionUtil.intersectCurves2d(
+          line1,
+          line2,
+          AcGeExtendType.Start,
+          AcGeExtendType.Start
+        )
+      ).toEqual([])
+      expectPoints2d(
+        AcGeIntersectionUtil.intersectCurves2d(
+          line1,
+          line2,
+          AcGeExtendType.End,
+          AcGeExtendType.Start
+        ),
+        [{ x: 5, y: 0 }]
+      )
+    })
+
+    it('intersects line and circle', () => {
+      const circle = new AcGeCircArc2d({ x: 0, y: 0 }, 5, 0, 2 * Math.PI, false)
+      const line1 = new AcGeLine2d({ x: -10, y: 3 }, { x: 10, y: 3 })
+      expectPoints2d(AcGeIntersectionUtil.intersectCurves2d(line1, circle), [
+        { x: -4, y: 3 },
+        { x: 4, y: 3 }
+      ])
+
+      const line2 = new AcGeLine2d({ x: -10, y: 5 }, { x: 10, y: 5 })
+      expectPoints2d(AcGeIntersectionUtil.intersectCurves2d(circle, line2), [
+        { x: 0, y: 5 }
+      ])
+
+      const line3 = new AcGeLine2d({ x: -10, y: 6 }, { x: 10, y: 6 })
+      expect(AcGeIntersectionUtil.intersectCurves2d(line3, circle)).toEqual([])
+    })
+
+    it('intersects line and arc and extends arc to full circle', () => {
+      // Upper half of one circle drawn clockwise from (-5, 0) to (5, 0)
+      const arc = new AcGeCircArc2d({ x: 0, y: 0 }, 5, Math.PI, 0, true)
+      const line = new AcGeLine2d({ x: 3, y: -10 }, { x: 3, y: 10 })
+      expectPoints2d(AcGeIntersectionUtil.intersectCurves2d(line, arc), [
+        { x: 3, y: 4 }
+      ])
+      expectPoints2d(
+        AcGeIntersectionUtil.intersectCurves2d(
+          line,
+          arc,
+          AcGeExtendType.None,
+          AcGeExtendType.Both
+        ),
+        [
+          { x: 3, y: 4 },
+          { x: 3, y: -4 }
+        ]
+      )
+    })
+
+    it('intersects two circles', () => {
+      const circle1 = new AcGeCircArc2d(
+        { x: 0, y: 0 },
+        5,
+        0,
+        2 * Math.PI,
+        false
+      )
+      const circle2 = new AcGeCircArc2d(
+        { x: 8, y: 0 },
+        5,
+        0,
+        2 * Math.PI,
+        false
+      )
+      expectPoints2d(AcGeIntersectionUtil.intersectCurves2d(circle1, circle2), [
+        { x: 4, y: 3 },
+        { x: 4, y: -3 }
+      ])
+
+      const circle3 = new AcGeCircArc2d(
+        { x: 8, y: 0 },
+        3,
+        0,
+        2 * Math.PI,
+        false
+      )
+      expectPoints2d(AcGeIntersectionUtil.intersectCurves2d(circle1, circle3), [
+        { x: 5, y: 0 }
+      ])
+
+      const circle4 = new AcGeCircArc2d(
+        { x: 1, y: 0 },
+        1,
+        0,
+        2 * Math.PI,
+        false
+      )
+      expect(AcGeIntersectionUtil.intersectCurves2d(circle1, circle4)).toEqual(
+        []
+      )
+    })
+
+    it('intersects ellipse and circle', () => {
+      const ellipse = new AcGeEllipseArc2d({ x: 0, y: 0 }, 10, 5)
+      const circle = new AcGeCircArc2d({ x: 0, y: 0 }, 5, 0, 2 * Math.PI, false)
+      expectPoints2d(AcGeIntersectionUtil.intersectCurves2d(ellipse, circle), [
+        { x: 0, y: 5 },
+        { x: 0, y: -5 }
+      ])
+
+      const rotated = new AcGeEllipseArc2d(
+        { x: 0, y: 0 },
+        10,
+        5,
+        0,
+        2 * Math.PI,
+        false,
+        Math.PI / 2
+      )
+      const line = new AcGeLine2d({ x: -20, y: 0 }, { x: 20, y: 0 })
+      expectPoints2d(AcGeIntersectionUtil.intersectCurves2d(rotated, line), [
+        { x: -5, y: 0 },
+        { x: 5, y: 0 }
+      ])
+    })
+
+    it('intersects polylines with arc segments', () => {
+      // Square with its top edge replaced by one semicircle bulging upwards
+      const polyline = new AcGePolyline2d(
+        [
+          { x: 0, y: 0 },
+          { x: 10, y: 0 },
+          { x: 10, y: 10, bulge: 1 },
+          { x: 0, y: 10 }
+        ],
+        true
+      )
+      const line = new AcGeLine2d({ x: 5, y: -5 }, { x: 5, y: 20 })
+      expectPoints2d(AcGeIntersectionUtil.intersectCurves2d(polyline, line), [
+        { x: 5, y: 0 },
+        { x: 5, y: 15 }
+      ])
+
+      // Closed polylines aren't extended
+      const shortLine = new AcGeLine2d({ x: 5, y: 1 }, { x: 5, y: 2 })
+      expect(
+        AcGeIntersectionUtil.intersectCurves2d(
+          polyline,
+          shortLine,
+          AcGeExtendType.Both
+        )
+      ).toEqual([])
+      expect(
+        AcGeIntersectionUtil.intersectCurves2d(
+          polyline,
+          shortLine,
+          AcGeExtendType.None,
+          AcGeExtendType.Both
+        )
+      ).toHaveLength(2)
+    })
+  })
+
+  describe('intersectCurves3d', () => {
+    it('intersects skew and crossing 3d lines', () => {
+      const line1 = new AcGeLine3d({ x: 0, y: 0, z: 0 }, { x: 10, y: 0, z: 0 })
+      const line2 = new AcGeLine3d({ x: 5, y: -5, z: 1 }, { x: 5, y: 5, z: 1 })
+      expect(AcGeIntersectionUtil.intersectCurves3d(line1, line2)).toEqual([])
+
+      const line3 = new AcGeLine3d({ x: 5, y: -5, z: -5 }, { x: 5, y: 5, z: 5 })
+      expectPoints3d(AcGeIntersectionUtil.intersectCurves3d(line1, line3), [
+        { x: 5, y: 0, z: 0 }
+      ])
+    })
+
+    it('intersects line and circle on different planes', () => {
+      const circle = new AcGeCircArc3d(
+        { x: 0, y: 0, z: 0 },
+        5,
+        0,
+        2 * Math.PI,
+        AcGeVector3d.Z_AXIS
+      )
+      const line = new AcGeLine3d({ x: 3, y: 4, z: -1 }, { x: 3, y: 4, z: 1 })
+      expectPoints3d(AcGeIntersectionUtil.intersectCurves3d(circle, line), [
+        { x: 3, y: 4, z: 0 }
+      ])
+    })
+
+    it('intersects circles on perpendicular planes', () => {
+      const circle1 = new AcGeCircArc3d(
+        { x: 0, y: 0, z: 0 },
+        5,
+        0,
+        2 * Math.PI,
+        AcGeVector3d.Z_AXIS
+      )
+      const circle2 = new AcGeCircArc3d(
+        { x: 0, y: 0, z: 0 },
+        5,
+        0,
+        2 * Math.PI,
+        AcGeVector3d.X_AXIS,
+        AcGeVector3d.Y_AXIS
+      )
+      expectPoints3d(AcGeIntersectionUtil.intersectCurves3d(circle1, circle2), [
+        { x: 0, y: 5, z: 0 },
+        { x: 0, y: -5, z: 0 }
+      ])
+    })
+
+    it('intersects spline and line', () => {
+      const spline = new AcGeSpline3d(
+        [
+          { x: 0, y: -5, z: 0 },
+          { x: 5, y: 10, z: 0 },
+          { x: 10, y: -10, z: 0 },
+          { x: 15, y: 5, z: 0 }
+        ],
+        [0, 0, 0, 0, 1, 1, 1, 1]
+      )
+      const line = new AcGeLine3d({ x: -5, y: 0, z: 0 }, { x: 20, y: 0, z: 0 })
+      const points = AcGeIntersectionUtil.intersectCurves3d(spline, line)
+      expect(points).toHaveLength(3)
+      points.forEach(point => {
+        expect(point.y).toBeCloseTo(0, 6)
+        const closest = spline.getClosestPointTo(point)
+        expect(closest.distanceTo(point)).toBeLessThan(1e-4)
+      })
+    })
+
+    it('extends lines to intersect splines', () => {
+      const spline = new AcGeSpline3d(
+        [
+          { x: 0, y: 0, z: 0 },
+          { x: 3, y: 5, z: 0 },
+          { x: 6, y: 5, z: 0 },
+          { x: 10, y: 0, z: 0 }
+        ],
+        [0, 0, 0, 0, 1, 1, 1, 1]
+      )
+      const line = new AcGeLine3d({ x: 5, y: -3, z: 0 }, { x: 5, y: -1, z: 0 })
+      expect(AcGeIntersectionUtil.intersectCurves3d(spline, line)).toEqual([])
+
+      const points = AcGeIntersectionUtil.intersectCurves3d(
+        spline,
+        line,
+        AcGeExtendType.None,
+        AcGeExtendType.End
+      )
+      expect(points).toHaveLength(1)
+      expect(points[0].x).toBeCloseTo(5, 6)
+      expect(
+        spline.getClosestPointTo(points[0]).distanceTo(points[0])
+      ).toBeLessThan(1e-4)
+    })
+
+    it('intersects two splines', () => {
+      const spline1 = new AcGeSpline3d(
+        [
+          { x: 0, y: 0, z: 0 },
+          { x: 3, y: 6, z: 0 },
+          { x: 7, y: 6, z: 0 },
+          { x: 10, y: 0, z: 0 }
+        ],
+        [0, 0, 0, 0, 1, 1, 1, 1]
+      )
+      const spline2 = new AcGeSpline3d(
+        [
+          { x: 0, y: 4, z: 0 },
+          { x: 3, y: -2, z: 0 },
+          { x: 7, y: -2, z: 0 },
+          { x: 10, y: 4, z: 0 }
+        ],
+        [0, 0, 0, 0, 1, 1, 1, 1]
+      )
+      // The two splines are symmetric about y = 2
+      const points = AcGeIntersectionUtil.intersectCurves3d(spline1, spline2)
+      expect(points).toHaveLength(2)
+      points.forEach(point => expect(point.y).toBeCloseTo(2, 6))
+    })
+
+    it('treats arrays of curves as connected curves', () => {
+      const curves = [
+        new AcGeLine3d({ x: 0, y: 0, z: 0 }, { x: 10, y: 0, z: 0 }),
+        new AcGeLine3d({ x: 10, y: 0, z: 0 }, { x: 10, y: 10, z: 0 })
+      ]
+      const line = new AcGeLine3d({ x: 5, y: 5, z: 0 }, { x: 15, y: -5, z: 0 })
+      // The shared vertex is returned only once
+      expectPoints3d(AcGeIntersectionUtil.intersectCurves3d(curves, line), [
+        { x: 10, y: 0, z: 0 }
+      ])
+
+      const farLine = new AcGeLine3d(
+        { x: -5, y: 20, z: 0 },
+        { x: 5, y: 20, z: 0 }
+      )
+      expectPoints3d(
+        AcGeIntersectionUtil.intersectCurves3d(
+          curves,
+          farLine,
+          AcGeExtendType.End,
+          AcGeExtendType.Both
+        ),
+        [{ x: 10, y: 20, z: 0 }]
+      )
+    })
+  })
+})
@@ -5,4 +5,40 @@ describe('Test AcGeLine3d', () => {
     const line1 = new AcGeLine3d({ x: 1, y: 1, z: 1 }, { x: 1, y: 0, z: 1 })
     expect(line1.length).toBe(1)
   })
+
+  it('computes parameters, distances and closest points correctly', () => {
+    const line = new AcGeLine3d({ x: 0, y: 0, z: 0 }, { x: 3, y: 4, z: 0 })
+    expect(line.startParam).toBe(0)
+    expect(line.endParam).toBe(5)
+    const point = line.getPointAtParam(2.5)
+    expect(point.x).toBeCloseTo(1.5)
+    expect(point.y).toBeCloseTo(2)
+    expect(line.getParamAtPoint({ x: 3, y: 4, z: 0 })).toBeCloseTo(5)
+    expect(line.getParamAtDist(line.getDistAtParam(1))).toBe(1)
+    expect(line.getFirstDeriv(0).length()).toBeCloseTo(1)
+
+    const closest = line.getClosestPointTo({ x: 10, y: 0, z: 0 })
+    expect(closest).toEqual({ x: 3, y: 4, z: 0 })
+    const extended = line.getClosestPointTo({ x: 10, y: 0, z: 0 }, true)
+    expect(extended.x).toBeCloseTo(3.6)
+    expect(extended.y).toBeCloseTo(4.8)
+  })
+
+  it('splits line correctly', () => {
+    const line = new AcGeLine3d({ x: 0, y: 0, z: 0 }, { x: 10, y: 0, z: 0 })
+    const lines = line.split([7, 2, 20, 0])
+    expect(lines.length).toBe(3)
+    expect(lines[0].endPoint).toEqual({ x: 2, y: 0, z: 0 })
+    expect(lines[2].startPoint).toEqual({ x: 7, y: 0, z: 0 })
+  })
+
+  it('offsets line correctly', () => {
+    const line = new AcGeLine3d({ x: 0, y: 0, z: 0 }, { x: 10, y: 0, z: 0 })
+    const [right] = line.getOffsetCurves(2)
+    expect(right.startPoint.y).toBeCloseTo(-2)
+    expect(right.endPoint.x).toBeCloseTo(10)
+    const [left] = line.getOffsetCurves(-2)
+    expect(left.endPoint.y).toBeCloseTo(2)
+    expect(line.getOffsetCurves(2, { x: 1, y: 0, z: 0 })).toEqual([])
+  })
 })
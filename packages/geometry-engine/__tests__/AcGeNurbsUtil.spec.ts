@@ -4,6 +4,7 @@ import {
   generateSqrtChordKnots,
   basisFunction,
   evaluateNurbsPoint,
+  evaluateNurbsDerivative,
   calculateCurveLength,
   interpolateControlPoints
 } from '../src/util/AcGeNurbsUtil'
@@ -198,6 +199,85 @@ describe('AcGeNurbsUtil', () => {
     })
   })
 
+  describe('evaluateNurbsDerivative', () => {
+    it('should evaluate derivative of a straight line', () => {
+      const derivative = evaluateNurbsDerivative(
+        0.3,
+        1,
+        [0, 0, 1, 1],
+        [
+          [0, 0, 0],
+          [10, 5, 0]
+        ],
+        [1, 1]
+      )
+
+      expect(derivative[0]).toBeCloseTo(10)
+      expect(derivative[1]).toBeCloseTo(5)
+      expect(derivative[2]).toBeCloseTo(0)
+    })
+
+    it('should match finite differences of weighted curve', () => {
+      const degree = 3
+      const knots = [0, 0, 0, 0, 0.5, 1, 1, 1, 1]
+      const controlPoints = [
+        [0, 0, 0],
+        [1, 2, 0],
+        [2, -1, 1],
+        [3, 2, 0],
+        [4, 0, 0]
+      ]
+      const weights = [1, 2, 0.5, 1, 1]
+      const h = 1e-6
+
+      ;[0.2, 0.5, 0.8].forEach(u => {
+        const derivative = evaluateNurbsDerivative(
+          u,
+          degree,
+          knots,
+          controlPoints,
+          weights
+        )
+        const p1 = evaluateNurbsPoint(
+          u - h,
+          degree,
+          knots,
+          controlPoints,
+          weights
+        )
+        const p2 = evaluateNurbsPoint(
+          u + h,
+          degree,
+          knots,
+          controlPoints,
+          weights
+        )
+        for (let k = 0; k < 3; k++) {
+          expect(derivative[k]).toBeCloseTo((p2[k] - p1[k]) / (2 * h), 4)
+        }
+      })
+    })
+
+    it('should evaluate derivative at the end of the domain', () => {
+      const derivative = evaluateNurbsDerivative(
+        1,
+        3,
+        [0, 0, 0, 0, 1, 1, 1, 1],
+        [
+          [0, 0, 0],
+          [1, 1, 0],
+          [2, 0, 0],
+          [3, 1, 0]
+        ],
+        [1, 1, 1, 1]
+      )
+
+      // Derivative of clamped B-spline at the end is p * (P3 - P2)
+      expect(derivative[0]).toBeCloseTo(3)
+      expect(derivative[1]).toBeCloseTo(3)
+    })
+  })
+
   describe('calculateCurveLength', () => {
     it('should calculate length of a straight line', () => {
       const degree = 3
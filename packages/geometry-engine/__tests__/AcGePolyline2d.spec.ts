@@ -1,4 +1,4 @@
-import { AcGePolyline2d } from '../src'
+import { AcGeMatrix2d, AcGePolyline2d, AcGePolyline2dVertex } from '../src'
 
 describe('Test AcGePolyline2d', () => {
   it('computes length correctly', () => {
@@ -23,4 +23,204 @@ describe('Test AcGePolyline2d', () => {
     polyline4.closed = true
     expect(polyline4.length).toBe(2 * Math.PI)
   })
+
+  it('transforms vertices and bulges correctly', () => {
+    const polyline = new AcGePolyline2d()
+    polyline.addVertexAt(0, { x: 0, y: 0 })
+    polyline.addVertexAt(1, { x: 1, y: 0, bulge: 1 })
+    polyline.addVertexAt(2, { x: 3, y: 0 })
+
+    polyline.transform(new AcGeMatrix2d().makeTranslation(1, 1))
+    expect(polyline.getPointAt(2)).toEqual({ x: 4, y: 1 })
+    expect(polyline.box.max.y).toBeCloseTo(1)
+
+    polyline.transform(new AcGeMatrix2d().makeScale(1, -1))
+    expect(polyline.getPointAt(1)).toEqual({ x: 2, y: -1 })
+    expect(polyline.vertices[1].bulge).toBe(-1)
+    expect(polyline.box.max.y).toBeCloseTo(0)
+    expect(polyline.length).toBeCloseTo(1 + Math.PI)
+  })
+
+  it('rejects scaling arc segments non-uniformly', () => {
+    const polyline = new AcGePolyline2d()
+    polyline.addVertexAt(0, { x: 0, y: 0, bulge: 1 })
+    polyline.addVertexAt(1, { x: 2, y: 0 })
+
+    expect(() =>
+      polyline.transform(new AcGeMatrix2d().makeScale(2, 1))
+    ).toThrow()
+    expect(polyline.getPointAt(1)).toEqual({ x: 2, y: 0 })
+    expect(polyline.vertices[0].bulge).toBe(1)
+
+    // Uniform scaling with rotation keeps arc segments circular
+    polyline.transform(new AcGeMatrix2d().makeRotation(Math.PI / 6).scale(2, 2))
+    expect(polyline.vertices[0].bulge).toBe(1)
+    expect(polyline.length).toBeCloseTo(2 * Math.PI)
+
+    // Straight segments can be scaled non-uniformly
+    const line = new AcGePolyline2d()
+    line.addVertexAt(0, { x: 0, y: 0 })
+    line.addVertexAt(1, { x: 2, y: 1 })
+    line.transform(new AcGeMatrix2d().makeScale(2, 1))
+    expect(line.getPointAt(1)).toEqual({ x: 4, y: 1 })
+  })
+
+  it('computes parameters, distances and closest points correctly', () => {
+    // One straight segment and one semicircle
+    const polyline = new AcGePolyline2d()
+    polyline.addVertexAt(0, { x: 0, y: 0 })
+    polyline.addVertexAt(1, { x: 2, y: 0, bulge: 1 })
+    polyline.addVertexAt(2, { x: 2, y: 2 })
+    expect(polyline.endParam).toBe(2)
+
+    const point = polyline.getPointAtParam(1.5)
+    expect(point.x).toBeCloseTo(3)
+    expect(point.y).toBeCloseTo(1)
+    expect(polyline.getParamAtPoint({ x: 5, y: 1 })).toBeCloseTo(1.5)
+    expect(polyline.getDistAtParam(1.5)).toBeCloseTo(2 + Math.PI / 2)
+    expect(polyline.getParamAtDist(2 + Math.PI / 2)).toBeCloseTo(1.5)
+
+    const deriv = polyline.getFirstDeriv(1.5)
+    expect(deriv.x).toBeCloseTo(0)
+    expect(deriv.y).toBeCloseTo(Math.PI)
+    const closest = polyline.getClosestPointTo({ x: 1, y: -3 })
+    expect(closest).toEqual({ x: 1, y: 0 })
+  })
+
+  it('computes area correctly', () => {
+    const square = new AcGePolyline2d<AcGePolyline2dVertex>(
+      [
+        { x: 0, y: 0 },
+        { x: 2, y: 0 },
+        { x: 2, y: 2 },
+        { x: 0, y: 2 }
+      ],
+      true
+    )
+    expect(square.area).toBeCloseTo(4)
+
+    // Replace the right edge with one outward semicircle
+    square.vertices[1].bulge = 1
+    expect(square.area).toBeCloseTo(4 + Math.PI / 2)
+    // Replace the right edge with one inward semicircle
+    square.vertices[1].bulge = -1
+    expect(square.area).toBeCloseTo(4 - Math.PI / 2)
+  })
+
+  it('splits polyline correctly', () => {
+    const polyline = new AcGePolyline2d([
+      { x: 0, y: 0 },
+      { x: 2, y: 0, bulge: 1 },
+      { x: 2, y: 2 }
+    ])
+    const polylines = polyline.split([0.5, 1.5])
+    expect(polylines.length).toBe(3)
+    expect(polylines[0].vertices).toEqual([
+      { x: 0, y: 0, bulge: 0 },
+      { x: 1, y: 0, bulge: 0 }
+    ])
+    expect(polylines[1].numberOfVertices).toBe(3)
+    expect(polylines[1].vertices[1].bulge).toBeCloseTo(Math.tan(Math.PI / 8))
+    expect(polylines[2].length).toBeCloseTo(Math.PI / 2)
+
+    const closed = new AcGePolyline2d(
+      [
+        { x: 0, y: 0 },
+        { x: 2, y: 0 },
+        { x: 2, y: 2 },
+        { x: 0, y: 2 }
+      ],
+      true
+    )
+    const pieces = closed.split([3.5, 0.5])
+    expect(pieces.length).toBe(2)
+    expect(pieces[0].length).toBeCloseTo(6)
+    expect(pieces[1].length).toBeCloseTo(2)
+    expect(pieces[1].endPoint).toEqual({ x: 1, y: 0 })
+  })
+
+  it('offsets polyline correctly', () => {
+    const square = new AcGePolyline2d(
+      [
+        { x: 0, y: 0 },
+        { x: 2, y: 0 },
+        { x: 2, y: 2 },
+        { x: 0, y: 2 }
+      ],
+      true
+    )
+    const outer = square.getOffsetCurves(1)
+    expect(outer.length).toBe(1)
+    expect(outer[0].closed).toBe(true)
+    expect(outer[0].area).toBeCloseTo(16)
+    expect(outer[0].box.min.x).toBeCloseTo(-1)
+    const inner = square.getOffsetCurves(-0.5)
+    expect(inner.length).toBe(1)
+    expect(inner[0].area).toBeCloseTo(1)
+    expect(square.getOffsetCurves(-1.5)).toEqual([])
+
+    // Straight segments are extended and arc segments are joined by arcs
+    const open = new AcGePolyline2d<AcGePolyline2dVertex>([
+      { x: 0, y: 0 },
+      { x: 2, y: 0 },
+      { x: 2, y: 2 }
+    ])
+    const mitered = open.getOffsetCurves(1)
+    expect(mitered.length).toBe(1)
+    expect(mitered[0].vertices.map(({ x, y }) => ({ x, y }))).toEqual([
+      { x: 0, y: -1 },
+      { x: 3, y: -1 },
+      { x: 3, y: 2 }
+    ])
+    open.vertices[1].bulge = -1
+    open.vertices[2].x = 4
+    open.vertices[2].y = 0
+    const rounded = open.getOffsetCurves(0.5)
+    expect(rounded.length).toBe(1)
+    expect(rounded[0].length).toBeCloseTo(2 + 0.75 * Math.PI)
+    expect(rounded[0].endPoint.x).toBeCloseTo(3.5)
+    expect(rounded[0].endPoint.y).toBeCloseTo(0)
+  })
+
+  it('offsets polyline with bulges correctly', () => {
+    const circle = new AcGePolyline2d(
+      [
+        { x: -1, y: 0, bulge: 1 },
+        { x: 1, y: 0, bulge: 1 }
+      ],
+      true
+    )
+    const outer = circle.getOffsetCurves(1)
+    expect(outer.length).toBe(1)
+    expect(outer[0].area).toBeCloseTo(4 * Math.PI)
+    expect(circle.getOffsetCurves(-0.5)[0].area).toBeCloseTo(Math.PI / 4)
+    expect(circle.getOffsetCurves(-1)).toEqual([])
+  })
+
+  it('trims self-intersections of offset polyline', () => {
+    // Two squares connected by one narrow corridor
+    const polyline = new AcGePolyline2d(
+      [
+        { x: 0, y: 0 },
+        { x: 4, y: 0 },
+        { x: 4, y: 1.75 },
+        { x: 6, y: 1.75 },
+        { x: 6, y: 0 },
+        { x: 10, y: 0 },
+        { x: 10, y: 4 },
+        { x: 6, y: 4 },
+        { x: 6, y: 2.25 },
+        { x: 4, y: 2.25 },
+        { x: 4, y: 4 },
+        { x: 0, y: 4 }
+      ],
+      true
+    )
+    const offsets = polyline.getOffsetCurves(-1)
+    expect(offsets.length).toBe(2)
+    offsets.forEach(offset => {
+      expect(offset.closed).toBe(true)
+      expect(offset.area).toBeCloseTo(4)
+    })
+  })
 })
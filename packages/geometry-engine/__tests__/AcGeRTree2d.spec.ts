@@ -0,0 +1,118 @@
+import { AcGeBox2d, AcGePoint2dLike, AcGeRTree2d } from '../src'
+
+const createBox = (minX: number, minY: number, maxX: number, maxY: number) =>
+  new AcGeBox2d({ x: minX, y: minY }, { x: maxX, y: maxY })
+
+// Deterministic pseudo random boxes so that failures are reproducible
+const createRandomBoxes = (count: number) => {
+  let seed = 1
+  const random = () => {
+    seed = (seed * 16807) % 2147483647
+    return seed / 2147483647
+  }
+  const boxes: AcGeBox2d[] = []
+  for (let i = 0; i < count; ++i) {
+    const x = random() * 1000
+    const y = random() * 1000
+    boxes.push(createBox(x, y, x + random() * 20, y + random() * 20))
+  }
+  return boxes
+}
+
+const getDistance = (box: AcGeBox2d, point: AcGePoint2dLike) => {
+  const dx = Math.max(box.min.x - point.x, 0, point.x - box.max.x)
+  const dy = Math.max(box.min.y - point.y, 0, point.y - box.max.y)
+  return Math.sqrt(dx * dx + dy * dy)
+}
+
+const sortNumbers = (values: number[]) => [...values].sort((a, b) => a - b)
+
+describe('AcGeRTree2d', () => {
+  const boxes = createRandomBoxes(1000)
+  const query = createBox(200, 300, 400, 450)
+  const expected = boxes
+    .map((box, index) => (box.intersectsBox(query) ? index : -1))
+    .filter(index => index >= 0)
+
+  it('finds items by inserting them one by one', () => {
+    const tree = new AcGeRTree2d<number>()
+    boxes.forEach((box, index) => tree.insert(index, box))
+    expect(tree.size).toBe(boxes.length)
+    expect(sortNumbers(tree.search(query))).toEqual(expected)
+  })
+
+  it('finds items by loading them in bulk', () => {
+    const tree = new AcGeRTree2d<number>(16)
+    tree.load(boxes.map((box, index) => ({ item: index, box })))
+    expect(tree.size).toBe(boxes.length)
+    expect(sortNumbers(tree.search(query))).toEqual(expected)
+    expect(tree.search(createBox(-10, -10, -5, -5))).toHaveLength(0)
+  })
+
+  it('filters items when searching', () => {
+    const tree = new AcGeRTree2d<number>()
+    boxes.forEach((box, index) => tree.insert(index, box))
+    const result = tree.search(query, index => index % 2 == 0)
+    expect(sortNumbers(result)).toEqual(
+      expected.filter(index => index % 2 == 0)
+    )
+  })
+
+  it('removes items', () => {
+    const tree = new AcGeRTree2d<number>()
+    tree.load(boxes.map((box, index) => ({ item: index, box })))
+    for (let index = 0; index < boxes.length; index += 2) {
+      expect(tree.remove(index)).toBe(true)
+    }
+    expect(tree.remove(0)).toBe(false)
+    expect(tree.size).toBe(boxes.length / 2)
+    expect(sortNumbers(tree.search(query))).toEqual(
+      expected.filter(index => index % 2 == 1)
+    )
+
+    for (let index = 1; index < boxes.length; index += 2) {
+      tree.remove(index)
+    }
+    expect(tree.size).toBe(0)
+    expect(tree.search(createBox(0, 0, 1000, 1000))).toHaveLength(0)
+    tree.insert(0, boxes[0])
+    expect(tree.search(boxes[0])).toEqual([0])
+  })
+
+  it('updates bounding boxes of existing items', () => {
+    const tree = new AcGeRTree2d<string>()
+    tree.insert('a', createBox(0, 0, 1, 1))
+    tree.insert('b', createBox(5, 5, 6, 6))
+    tree.insert('a', createBox(10, 10, 11, 11))
+    expect(tree.size).toBe(2)
+    expect(tree.search(createBox(0, 0, 2, 2))).toHaveLength(0)
+    expect(tree.search(createBox(9, 9, 12, 12))).toEqual(['a'])
+    expect(tree.getBox('a')?.min.x).toBe(10)
+    expect(tree.getBox('c')).toBeUndefined()
+  })
+
+  it('finds nearest items', () => {
+    const tree = new AcGeRTree2d<number>()
+    tree.load(boxes.map((box, index) => ({ item: index, box })))
+    const point = { x: 500, y: 500 }
+    const distances = boxes.map(box => getDistance(box, point))
+    const expectedDistances = sortNumbers(distances).slice(0, 10)
+
+    const result = tree.nearest(point, 10)
+    expect(result).toHaveLength(10)
+    expect(result.map(index => distances[index])).toEqual(expectedDistances)
+  })
+
+  it('limits nearest items by distance and filter', () => {
+    const tree = new AcGeRTree2d<number>()
+    boxes.forEach((box, index) => tree.insert(index, box))
+    const point = { x: 500, y: 500 }
+    const expectedItems = boxes
+      .map((box, index) => (getDistance(box, point) <= 30 ? index : -1))
+      .filter(index => index >= 0 && index % 3 == 0)
+
+    const result = tree.nearest(point, Infinity, 30, index => index % 3 == 0)
+    expect(sortNumbers(result)).toEqual(expectedItems)
+    expect(new AcGeRTree2d<number>().nearest(point, 5)).toHaveLength(0)
+  })
+})
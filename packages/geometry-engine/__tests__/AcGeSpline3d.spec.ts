@@ -254,6 +254,15 @@ describe('AcGeSpline3d', () => {
       expect(endPoint.z).toBeCloseTo(0, 1)
     })
 
+    it('should return point at parameter', () => {
+      expect(spline.startParam).toBe(0)
+      expect(spline.endParam).toBe(1)
+      const midPoint = spline.getPointAtParam(0.5)
+      expect(midPoint.x).toBeCloseTo(1.5)
+      expect(midPoint.y).toBeCloseTo(0.5)
+      expect(spline.getPointAtParam(1).x).toBeCloseTo(3)
+    })
+
     it('should return correct length', () => {
       const length = spline.length
       expect(length).toBeGreaterThan(0)
@@ -302,6 +311,13 @@ describe('AcGeSpline3d', () => {
       expect(point.y).toBe(1)
       expect(point.z).toBe(0)
     })
+
+    it('should return number of control points, knots and weights', () => {
+      expect(spline.numControlPoints).toBe(4)
+      expect(spline.numFitPoints).toBe(0)
+      expect(spline.knots).toEqual([0, 0, 0, 0, 1, 1, 1, 1])
+      expect(spline.weights).toEqual([1, 1, 1, 1])
+    })
   })
 
   describe('Fit Points', () => {
@@ -468,6 +484,26 @@ describe('AcGeSpline3d', () => {
 
       expect(result).toBe(spline)
     })
+
+    it('should transform control points and keep knots', () => {
+      const controlPoints = [
+        { x: 0, y: 0, z: 0 },
+        { x: 1, y: 1, z: 0 },
+        { x: 2, y: 0, z: 0 },
+        { x: 3, y: 1, z: 0 }
+      ]
+      const knots = [0, 0, 0, 0, 1, 1, 1, 1]
+      const spline = new AcGeSpline3d(controlPoints, knots)
+
+      spline.transform(new AcGeMatrix3d().makeTranslation(1, 2, 3))
+
+      expect(spline.getControlPointAt(1)).toEqual({ x: 2, y: 3, z: 3 })
+      expect(spline.knots).toEqual(knots)
+      const endPoint = spline.endPoint
+      expect(endPoint.x).toBeCloseTo(4)
+      expect(endPoint.y).toBeCloseTo(3)
+      expect(endPoint.z).toBeCloseTo(3)
+    })
   })
 
   describe('Edge Cases', () => {
@@ -574,4 +610,53 @@ describe('AcGeSpline3d', () => {
       }).toThrow('At least 4 points are required for a degree 3 closed spline')
     })
   })
+
+  describe('Parametric methods', () => {
+    const controlPoints = [
+      { x: 0, y: 0, z: 0 },
+      { x: 1, y: 1, z: 0 },
+      { x: 2, y: 1, z: 0 },
+      { x: 3, y: 0, z: 0 }
+    ]
+    const knots = [0, 0, 0, 0, 1, 1, 1, 1]
+
+    it('should compute distances and closest points', () => {
+      const spline = new AcGeSpline3d(controlPoints, knots)
+      const length = spline.length
+      expect(spline.getDistAtParam(spline.endParam)).toBeCloseTo(length)
+      expect(spline.getParamAtDist(length / 2)).toBeCloseTo(0.5, 3)
+
+      const point = spline.getPointAtParam(0.25)
+      expect(spline.getParamAtPoint(point)).toBeCloseTo(0.25, 4)
+      const closest = spline.getClosestPointTo({ x: 1.5, y: 5, z: 0 })
+      expect(closest.x).toBeCloseTo(1.5)
+      expect(closest.y).toBeCloseTo(0.75)
+
+      const deriv = spline.getFirstDeriv(0)
+      expect(deriv.x).toBeCloseTo(3)
+      expect(deriv.y).toBeCloseTo(3)
+    })
+
+    it('should split spline', () => {
+      const spline = new AcGeSpline3d(controlPoints, knots)
+      const splines = spline.split([0.5])
+      expect(splines.length).toBe(2)
+      expect(splines[0].endPoint.x).toBeCloseTo(1.5)
+      expect(splines[1].startPoint.x).toBeCloseTo(1.5)
+      expect(splines[1].endPoint.x).toBeCloseTo(3)
+      expect(splines[0].length + splines[1].length).toBeCloseTo(spline.length)
+    })
+
+    it('should offset spline', () => {
+      const spline = new AcGeSpline3d(controlPoints, knots)
+      const [offset] = spline.getOffsetCurves(0.5)
+      expect(offset.startPoint.x).toBeCloseTo(0.5 / Math.SQRT2)
+      expect(offset.startPoint.y).toBeCloseTo(-0.5 / Math.SQRT2)
+      for (let i = 1; i < 10; ++i) {
+        const point = offset.getPointAtParam(i / 10)
+        const closest = spline.getClosestPointTo(point)
+        expect(closest.distanceTo(point)).toBeCloseTo(0.5, 4)
+      }
+    })
+  })
 })
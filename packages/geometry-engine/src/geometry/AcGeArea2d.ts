@@ -1,7 +1,16 @@
 import { AcGeBox2d, AcGeMatrix2d, AcGePoint2d, AcGePoint2dLike } from '../math'
-import { AcGeGeometryUtil, AcGeMathUtil } from '../util'
+import { AcGeGeometryUtil, AcGeMathUtil, AcGeTol, DEFAULT_TOL } from '../util'
 import { AcGeLoop2d } from './AcGeLoop2d'
 import { AcGePolyline2d } from './AcGePolyline2d'
+import {
+  AcGeRegionBooleanType,
+  AcGeRegionEdge,
+  computeRegionBoolean,
+  createLoopEdges,
+  getLoopLength,
+  getLoopMoments,
+  orientLoops
+} from './AcGeRegionUtil'
 import { AcGeShape2d } from './AcGeShape2d'
 
 export interface AcGeIndexNode {
@@ -11,6 +20,12 @@ export interface AcGeIndexNode {
 
 export type AcGeLoop2dType = AcGeLoop2d | AcGePolyline2d
 
+/**
+ * The maximum distance between elliptical arcs or splines and line segments approximating them in
+ * boolean operations and area properties, relative to the diagonal of the bounding box
+ */
+const APPROXIMATION_DEVIATION_RATIO = 1e-4
+
 /**
  * 2d area defined by one outter loop and multiple inner loops
  */
@@ -52,23 +67,106 @@ export class AcGeArea2d extends AcGeShape2d {
     return undefined
   }
 
+  /**
+   * Area of this area. Holes are excluded. Loops nested in an odd number of other loops are holes.
+   */
+  get area() {
+    return this.getOrientedLoops().reduce(
+      (area, edges) => area + getLoopMoments(edges).area,
+      0
+    )
+  }
+
+  /**
+   * Total length of all loops of this area, including holes
+   */
+  get perimeter() {
+    return this.getRegionLoops(this.getMaxDeviation()).reduce(
+      (length, edges) => length + getLoopLength(edges),
+      0
+    )
+  }
+
+  /**
+   * Centroid of this area. Holes are excluded. The center of the bounding box is returned if the
+   * area is zero.
+   */
+  get centroid() {
+    let area = 0
+    let x = 0
+    let y = 0
+    this.getOrientedLoops().forEach(edges => {
+      const moments = getLoopMoments(edges)
+      area += moments.area
+      x += moments.x
+      y += moments.y
+    })
+    if (area == 0) return new AcGePoint2d(this.box.center)
+    return new AcGePoint2d(x / area, y / area)
+  }
+
+  /**
+   * Return one new area covering this area and the specified area. Line segments and circular arcs
+   * are kept in the result. Elliptical arcs and splines are approximated by line segments.
+   * @param area Input the area to unite with
+   * @param tol Input the tolerance used to compare points
+   * @returns Return one new area whose first loop is the largest outer loop
+   */
+  union(area: AcGeArea2d, tol: AcGeTol = DEFAULT_TOL) {
+    return this.boolean(area, 'union', tol)
+  }
+
+  /**
+   * Return one new area covering the common part of this area and the specified area. Line
+   * segments and circular arcs are kept in the result. Elliptical arcs and splines are approximated
+   * by line segments.
+   * @param area Input the area to intersect with
+   * @param tol Input the tolerance used to compare points
+   * @returns Return one new area whose first loop is the largest outer loop
+   */
+  intersect(area: AcGeArea2d, tol: AcGeTol = DEFAULT_TOL) {
+    return this.boolean(area, 'intersect', tol)
+  }
+
+  /**
+   * Return one new area covering the part of this area outside the specified area. Line segments
+   * and circular arcs are kept in the result. Elliptical arcs and splines are approximated by line
+   * segments.
+   * @param area Input the area to subtract
+   * @param tol Input the tolerance used to compare points
+   * @returns Return one new area whose first loop is the largest outer loop
+   */
+  subtract(area: AcGeArea2d, tol: AcGeTol = DEFAULT_TOL) {
+    return this.boolean(area, 'subtract', tol)
+  }
+
+  /**
+   * Return one new area covering the parts of this area and the specified area which don't
+   * overlap. Line segments and circular arcs are kept in the result. Elliptical arcs and splines
+   * are approximated by line segments.
+   * @param area Input the area to compute the exclusive or with
+   * @param tol Input the tolerance used to compare points
+   * @returns Return one new area whose first loop is the largest outer loop
+   */
+  xor(area: AcGeArea2d, tol: AcGeTol = DEFAULT_TOL) {
+    return this.boolean(area, 'xor', tol)
+  }
+
   /**
    * @inheritdoc
    */
   calculateBoundingBox(): AcGeBox2d {
-    const outterLoop = this.outter
-    if (outterLoop) {
-      return outterLoop.box
-    } else {
-      return new AcGeBox2d()
-    }
+    // Results of boolean operations may have more than one outer loop
+    const box = new AcGeBox2d()
+    this._loops.forEach(loop => box.union(loop.box))
+    return box
   }
 
   /**
    * @inheritdoc
    */
-  transform(_matrix: AcGeMatrix2d) {
-    // TODO: implement it
+  transform(matrix: AcGeMatrix2d) {
+    this._loops.forEach(loop => loop.transform(matrix))
     this._boundingBoxNeedsUpdate = true
     return this
   }
@@ -134,6 +232,68 @@ export class AcGeArea2d extends AcGeShape2d {
     return rootNode
   }
 
+  /**
+   * Compute one boolean operation on this area and the specified area
+   */
+  private boolean(area: AcGeArea2d, type: AcGeRegionBooleanType, tol: AcGeTol) {
+    const maxDeviation = this.getMaxDeviation(area)
+    const loops = computeRegionBoolean(
+      this.getRegionLoops(maxDeviation, tol),
+      area.getRegionLoops(maxDeviation, tol),
+      type,
+      tol
+    )
+    const result = new AcGeArea2d()
+    loops
+      .map(edges => ({ edges, area: Math.abs(getLoopMoments(edges).area) }))
+      .sort((a, b) => b.area - a.area)
+      .forEach(({ edges }) => {
+        const vertices = edges.map(edge => ({
+          x: edge.start.x,
+          y: edge.start.y,
+          bulge: edge.bulge
+        }))
+        result.add(new AcGePolyline2d(vertices, true))
+      })
+    return result
+  }
+
+  /**
+   * Return the maximum distance between curves and line segments approximating them according to
+   * the size of this area and the specified area
+   */
+  private getMaxDeviation(area?: AcGeArea2d) {
+    const box = this.box.clone()
+    if (area) box.union(area.box)
+    if (box.isEmpty()) return DEFAULT_TOL.equalPointTol
+    const size = box.size
+    const diagonal = Math.sqrt(size.width ** 2 + size.height ** 2)
+    return Math.max(
+      diagonal * APPROXIMATION_DEVIATION_RATIO,
+      DEFAULT_TOL.equalPointTol
+    )
+  }
+
+  /**
+   * Convert loops of this area to edges of regions
+   */
+  private getRegionLoops(maxDeviation: number, tol: AcGeTol = DEFAULT_TOL) {
+    const loops: AcGeRegionEdge[][] = []
+    this._loops.forEach(loop => {
+      const edges = createLoopEdges(loop, maxDeviation, tol)
+      if (edges.length > 0) loops.push(edges)
+    })
+    return loops
+  }
+
+  /**
+   * Return loops of this area oriented so that outer loops are counterclockwise and holes are
+   * clockwise
+   */
+  private getOrientedLoops() {
+    return orientLoops(this.getRegionLoops(this.getMaxDeviation()))
+  }
+
   /**
    * Calcuate bounding box of each loop in this area and return an array of their bounding box
    * @param pointBoundaries An array of loop consisted by points
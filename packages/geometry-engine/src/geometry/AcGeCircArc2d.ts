@@ -403,8 +403,28 @@ export class AcGeCircArc2d extends AcGeCurve2d {
   /**
    * @inheritdoc
    */
-  transform(_matrix: AcGeMatrix2d) {
-    // TODO: implement it
+  transform(matrix: AcGeMatrix2d) {
+    // The transformation is assumed to keep the arc circular. That is, it only
+    // consists of translation, rotation, uniform scaling and mirroring.
+    const closed = this.closed
+    const startPoint = this.startPoint.applyMatrix2d(matrix)
+    const endPoint = this.endPoint.applyMatrix2d(matrix)
+    const center = this.center.clone().applyMatrix2d(matrix)
+    const determinant = matrix.determinant()
+
+    this.center = center
+    this.radius = this.radius * Math.sqrt(Math.abs(determinant))
+    if (!closed) {
+      // Store internal angles (unmirrored)
+      this._startAngle = AcGeMathUtil.normalizeAngle(
+        Math.atan2(startPoint.y - center.y, startPoint.x - center.x)
+      )
+      this._endAngle = AcGeMathUtil.normalizeAngle(
+        Math.atan2(endPoint.y - center.y, endPoint.x - center.x)
+      )
+    }
+    // Mirroring reverses direction of the arc
+    if (determinant < 0) this._clockwise = !this._clockwise
     this._boundingBoxNeedsUpdate = true
     return this
   }
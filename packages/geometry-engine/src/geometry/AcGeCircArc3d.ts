@@ -2,6 +2,7 @@ import { AcCmErrors } from '@mlightcad/common'
 
 import {
   AcGeBox3d,
+  AcGeMatrix2d,
   AcGeMatrix3d,
   AcGePlane,
   AcGePoint3d,
@@ -10,8 +11,9 @@ import {
   AcGeVector3d,
   AcGeVector3dLike
 } from '../math'
-import { AcGeMathUtil, ORIGIN_POINT_3D, TAU } from '../util'
+import { AcGeMathUtil, FLOAT_TOL, ORIGIN_POINT_3D, TAU } from '../util'
 import { AcGeCurve3d } from './AcGeCurve3d'
+import { sortClosedParams, sortParams } from './AcGeCurveUtil'
 import { AcGeLine3d } from './AcGeLine3d'
 
 /**
@@ -344,23 +346,33 @@ export class AcGeCircArc3d extends AcGeCurve3d {
    * @inheritdoc
    */
   transform(matrix: AcGeMatrix3d) {
-    const startVec = _vector3
-      .copy(this.refVec)
-      .applyAxisAngle(this.normal, this.startAngle)
-      .multiplyScalar(this.radius)
-    const endVec = _vector3
-      .copy(this.refVec)
-      .applyAxisAngle(this.normal, this.endAngle)
-      .multiplyScalar(this.radius)
-
-    this.center.applyMatrix4(matrix)
-    startVec.applyMatrix4(matrix)
-    endVec.applyMatrix4(matrix)
-    this.normal.applyMatrix4(matrix).normalize()
-    this.refVec.applyMatrix4(matrix).normalize()
-
-    this.startAngle = this.getAngle(startVec)
-    this.endAngle = this.getAngle(endVec)
+    // The transformation is assumed to keep the arc circular. That is, it only
+    // consists of translation, rotation, uniform scaling and mirroring.
+    const closed = this.closed
+    const startPoint = this.startPoint.applyMatrix4(matrix)
+    const endPoint = this.endPoint.applyMatrix4(matrix)
+    const center = this.center.clone().applyMatrix4(matrix)
+
+    this.center = center
+    this.radius = center.distanceTo(startPoint)
+    this.normal = this.normal
+      .clone()
+      .applyNormalMatrix(_matrix2d.getNormalMatrix(matrix))
+    // Angles are still measured from x axis of OCS. So they are computed again
+    // by the transformed start point and end point.
+    this.refVec = this.getOcsXAxis()
+
+    if (closed) {
+      this.startAngle = 0
+      this.endAngle = TAU
+    } else if (matrix.determinant() < 0) {
+      // Mirroring reverses direction of the arc
+      this.startAngle = this.getAngle(endPoint)
+      this.endAngle = this.getAngle(startPoint)
+    } else {
+      this.startAngle = this.getAngle(startPoint)
+      this.endAngle = this.getAngle(endPoint)
+    }
     this._boundingBoxNeedsUpdate = true
     return this
   }
@@ -401,11 +413,29 @@ export class AcGeCircArc3d extends AcGeCurve3d {
   getAngle(vec: AcGeVector3d) {
     vec.sub(this.center) // 转换到以圆心为中心的坐标系
     return Math.atan2(
-      vec.dot(_vector3.crossVectors(this.refVec, this.normal)),
+      vec.dot(_vector3.crossVectors(this.normal, this.refVec)),
       vec.dot(this.refVec)
     )
   }
 
+  /**
+   * Return x axis of the object coordinate system (OCS) of this arc. It is x axis
+   * of WCS if this arc is in xy plane, which is the default reference vector
+   * used by the constructor. Otherwise, it is computed by the arbitrary axis
+   * algorithm of DXF.
+   */
+  private getOcsXAxis() {
+    const normal = this.normal
+    if (Math.abs(normal.x) < FLOAT_TOL && Math.abs(normal.y) < FLOAT_TOL) {
+      return AcGeVector3d.X_AXIS
+    }
+    const axis =
+      Math.abs(normal.x) < 1 / 64 && Math.abs(normal.y) < 1 / 64
+        ? AcGeVector3d.Y_AXIS
+        : AcGeVector3d.Z_AXIS
+    return new AcGeVector3d().crossVectors(axis, normal).normalize()
+  }
+
   /**
    * Returns the point on the arc at a specific angle.
    * @param angle The angle at which to get the point.
@@ -433,6 +463,153 @@ export class AcGeCircArc3d extends AcGeCurve3d {
     )
   }
 
+  /**
+   * The parameter of the start point of this arc. The parameter of one point on the arc is the
+   * angle of the point.
+   */
+  get startParam() {
+    return this.closed ? 0 : this.startAngle
+  }
+
+  /**
+   * The parameter of the end point of this arc. It is always greater than the start parameter.
+   */
+  get endParam() {
+    return this.closed ? TAU : this.startAngle + this.deltaAngle
+  }
+
+  /**
+   * Return the point on this arc at the specified parameter.
+   * @param param Input the parameter, which is the angle of the point
+   * @returns Return the point on this arc at the specified parameter
+   */
+  getPointAtParam(param: number) {
+    return this.getPointAtAngle(param)
+  }
+
+  /**
+   * Return the parameter of the specified point. The angle of the projection of the point onto
+   * the plane of this arc is used if the point isn't on this arc.
+   * @param point Input the point on this arc
+   * @returns Return the parameter in the range from start parameter to end parameter if the point
+   * is on this arc
+   */
+  getParamAtPoint(point: AcGePoint3dLike) {
+    const angle = this.getAngle(new AcGeVector3d(point))
+    const startParam = this.startParam
+    return startParam + AcGeMathUtil.normalizeAngle(angle - startParam)
+  }
+
+  /**
+   * Return the distance along this arc from the start point to the point at the specified
+   * parameter.
+   * @param param Input the parameter
+   * @returns Return the distance from the start point
+   */
+  getDistAtParam(param: number) {
+    return (param - this.startParam) * this.radius
+  }
+
+  /**
+   * Return the parameter of the point whose distance along this arc from the start point is
+   * equal to the specified distance.
+   * @param dist Input the distance from the start point
+   * @returns Return the parameter of the point
+   */
+  getParamAtDist(dist: number) {
+    return this.startParam + dist / this.radius
+  }
+
+  /**
+   * Return the first derivative of this arc at the specified parameter.
+   * @param param Input the parameter
+   * @returns Return the first derivative
+   */
+  getFirstDeriv(param: number) {
+    const yAxis = new AcGeVector3d().crossVectors(this.normal, this.refVec)
+    return this.refVec
+      .clone()
+      .multiplyScalar(-Math.sin(param) * this.radius)
+      .addScaledVector(yAxis, Math.cos(param) * this.radius)
+  }
+
+  /**
+   * Return the point on this arc that is the closest to the specified point.
+   * @param point Input the point
+   * @param extend Input true to treat this arc as a full circle
+   * @returns Return the closest point
+   */
+  getClosestPointTo(point: AcGePoint3dLike, extend: boolean = false) {
+    const param = this.getParamAtPoint(point)
+    if (extend || this.closed || param <= this.endParam) {
+      return this.getPointAtParam(param)
+    }
+    const startPoint = this.startPoint
+    const endPoint = this.endPoint
+    return startPoint.distanceTo(point) < endPoint.distanceTo(point)
+      ? startPoint
+      : endPoint
+  }
+
+  /**
+   * The area enclosed by this arc and the chord between its start point and end point. The area
+   * of the circle is returned if this arc is closed.
+   */
+  get area() {
+    const sweep = this.endParam - this.startParam
+    return ((sweep - Math.sin(sweep)) * this.radius * this.radius) / 2
+  }
+
+  /**
+   * Split this arc at the specified parameters. Parameters out of the range of this arc are
+   * ignored. One closed circle is split into arcs between adjacent parameters and at least two
+   * parameters are required to split it.
+   * @param params Input parameters at which to split this arc
+   * @returns Return arcs split from this arc in order
+   */
+  split(params: number[]) {
+    const sorted = this.closed
+      ? sortClosedParams(params, this.startParam, this.endParam)
+      : sortParams(params, this.startParam, this.endParam)
+    if (sorted.length == 0) return [this.clone()]
+    const arcs: AcGeCircArc3d[] = []
+    for (let i = 1; i < sorted.length; ++i) {
+      arcs.push(
+        new AcGeCircArc3d(
+          this.center,
+          this.radius,
+          sorted[i - 1],
+          sorted[i],
+          this.normal,
+          this.refVec
+        )
+      )
+    }
+    return arcs
+  }
+
+  /**
+   * Return the circular arc offset from this circular arc by the specified distance. Because the
+   * circular arc goes counterclockwise around its normal, positive distance increases its radius.
+   * @param distance Input the offset distance
+   * @returns Return the offset circular arc. Empty array is returned if the radius of the offset
+   * circular arc isn't positive.
+   */
+  getOffsetCurves(distance: number) {
+    const radius = this.radius + distance
+    if (radius <= FLOAT_TOL) return []
+    return [
+      new AcGeCircArc3d(
+        this.center,
+        radius,
+        this.startAngle,
+        this.endAngle,
+        this.normal,
+        this.refVec
+      )
+    ]
+  }
+
   /**
    * Return the plane in which the circular arc lies.
    */
@@ -443,3 +620,4 @@ export class AcGeCircArc3d extends AcGeCurve3d {
 }
 
 const _vector3 = /*@__PURE__*/ new AcGeVector3d()
+const _matrix2d = /*@__PURE__*/ new AcGeMatrix2d()
@@ -50,6 +50,17 @@ export abstract class AcGeCurve2d extends AcGeShape2d {
     throw new Error('AcGeCurve2d: .getPoint() not implemented.')
   }
 
+  /**
+   * Return curves offset from this curve by the specified distance. Positive distance offsets this
+   * curve to its right side when looking along the curve direction.
+   * @param _distance Input the offset distance
+   * @returns Return offset curves. Empty array is returned if this curve can't be offset by the
+   * specified distance.
+   */
+  getOffsetCurves(_distance: number): AcGeCurve2d[] {
+    throw new Error('AcGeCurve2d: .getOffsetCurves() not implemented.')
+  }
+
   /**
    * Return a point for a given position on the curve according to the arc length.
    * @param u Input a position on the curve according to the arc length. Must be in the range [0, 1].
@@ -27,4 +27,15 @@ export abstract class AcGeCurve3d extends AcGeShape3d {
    * Length of this curve.
    */
   abstract get length(): number
+
+  /**
+   * Return curves offset from this curve by the specified distance. Positive distance offsets this
+   * curve to its right side when looking along the curve direction from above its plane.
+   * @param _distance Input the offset distance
+   * @returns Return offset curves. Empty array is returned if this curve can't be offset by the
+   * specified distance.
+   */
+  getOffsetCurves(_distance: number): AcGeCurve3d[] {
+    throw new Error('AcGeCurve3d: .getOffsetCurves() not implemented.')
+  }
 }
@@ -0,0 +1,94 @@
+import { FLOAT_TOL } from '../util/AcGeConstants'
+
+/**
+ * Return parameters used to split one curve. Parameters out of the range (startParam, endParam)
+ * or too close to another parameter are ignored.
+ * @param params Input parameters at which to split the curve
+ * @param startParam Input the start parameter of the curve
+ * @param endParam Input the end parameter of the curve
+ * @returns Return sorted parameters starting with startParam and ending with endParam
+ * @internal
+ */
+export function sortParams(
+  params: number[],
+  startParam: number,
+  endParam: number
+) {
+  const result = [startParam]
+  params
+    .filter(
+      param => param > startParam + FLOAT_TOL && param < endParam - FLOAT_TOL
+    )
+    .sort((a, b) => a - b)
+    .forEach(param => {
+      if (param - result[result.length - 1] > FLOAT_TOL) result.push(param)
+    })
+  result.push(endParam)
+  return result
+}
+
+/**
+ * Return parameters used to split one closed curve. Different from open curves, the closed curve
+ * isn't split at its start point and the last piece goes from the last parameter to the first
+ * parameter through the start point.
+ * @param params Input parameters at which to split the closed curve
+ * @param startParam Input the start parameter of the curve
+ * @param endParam Input the end parameter of the curve
+ * @returns Return sorted parameters. The first parameter is appended to the end of the array and
+ * is increased by the period of the curve. Empty array is returned if there are less than two
+ * parameters because the closed curve can't be split in this case.
+ * @internal
+ */
+export function sortClosedParams(
+  params: number[],
+  startParam: number,
+  endParam: number
+) {
+  const period = endParam - startParam
+  const result: number[] = []
+  params
+    .map(
+      param =>
+        startParam + ((((param - startParam) % period) + period) % period)
+    )
+    .sort((a, b) => a - b)
+    .forEach(param => {
+      if (result.length == 0 || param - result[result.length - 1] > FLOAT_TOL) {
+        result.push(param)
+      }
+    })
+  // The last parameter may be identical to the first one after wrapping around
+  if (
+    result.length > 1 &&
+    result[0] + period - result[result.length - 1] <= FLOAT_TOL
+  ) {
+    result.pop()
+  }
+  if (result.length < 2) return []
+  result.push(result[0] + period)
+  return result
+}
+
+/**
+ * Integrate the specified function over the interval [a, b] by the composite Simpson's rule.
+ * @param func Input the function to integrate
+ * @param a Input the lower limit of the interval
+ * @param b Input the upper limit of the interval
+ * @param segments Input the number of segments, which is rounded up to one even number
+ * @returns Return the integral value
+ * @internal
+ */
+export function integrate(
+  func: (x: number) => number,
+  a: number,
+  b: number,
+  segments: number = 64
+) {
+  const n = Math.max(2, Math.ceil(segments / 2) * 2)
+  const h = (b - a) / n
+  let sum = func(a) + func(b)
+  for (let i = 1; i < n; ++i) {
+    sum += func(a + i * h) * (i % 2 == 0 ? 2 : 4)
+  }
+  return (sum * h) / 3
+}
@@ -5,7 +5,8 @@ import {
   AcGeMatrix2d,
   AcGePoint2d,
   AcGePoint3d,
-  AcGePointLike
+  AcGePointLike,
+  AcGeVector2d
 } from '../math'
 import { AcGeMathUtil, TAU } from '../util'
 import { AcGeCurve2d } from './AcGeCurve2d'
@@ -252,7 +253,49 @@ export class AcGeEllipseArc2d extends AcGeCurve2d {
   /**
    * @inheritdoc
    */
-  transform(_matrix: AcGeMatrix2d) {
+  transform(matrix: AcGeMatrix2d) {
+    const e = matrix.elements
+    const cosR = Math.cos(this.rotation)
+    const sinR = Math.sin(this.rotation)
+    // Transformed half major axis and half minor axis are two conjugate semi-diameters
+    // of the new ellipse. So point on the new ellipse is 'center + u * cos(t) + v * sin(t)'.
+    const u = new AcGeVector2d(
+      this.majorAxisRadius * cosR,
+      this.majorAxisRadius * sinR
+    )
+    const v = new AcGeVector2d(
+      -this.minorAxisRadius * sinR,
+      this.minorAxisRadius * cosR
+    )
+    u.set(e[0] * u.x + e[3] * u.y, e[1] * u.x + e[4] * u.y)
+    v.set(e[0] * v.x + e[3] * v.y, e[1] * v.x + e[4] * v.y)
+
+    // Parameter of the new major axis, which maximizes |u * cos(t) + v * sin(t)|
+    const t0 = 0.5 * Math.atan2(2 * u.dot(v), u.dot(u) - v.dot(v))
+    const cos = Math.cos(t0)
+    const sin = Math.sin(t0)
+    const major = u.clone().multiplyScalar(cos).addScaledVector(v, sin)
+    const minor = v.clone().multiplyScalar(cos).addScaledVector(u, -sin)
+
+    const center = new AcGePoint2d(this.center.x, this.center.y)
+    center.applyMatrix2d(matrix)
+    this.center = { x: center.x, y: center.y, z: this.center.z }
+    this.majorAxisRadius = major.length()
+    this.minorAxisRadius = minor.length()
+    this.rotation = Math.atan2(major.y, major.x)
+    if (!this.closed) {
+      if (major.cross(minor) >= 0) {
+        this.startAngle = this.startAngle - t0
+        this.endAngle = this.endAngle - t0
+      } else {
+        // Mirroring reverses direction of the arc
+        this.startAngle = t0 - this.startAngle
+        this.endAngle = t0 - this.endAngle
+        this.clockwise = !this.clockwise
+      }
+    } else if (major.cross(minor) < 0) {
+      this.clockwise = !this.clockwise
+    }
     this._boundingBoxNeedsUpdate = true
     return this
   }
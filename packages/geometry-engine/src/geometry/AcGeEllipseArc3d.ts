@@ -2,16 +2,20 @@ import { AcCmErrors } from '@mlightcad/common'
 
 import {
   AcGeBox3d,
+  AcGeMatrix2d,
   AcGeMatrix3d,
   AcGePlane,
   AcGePoint3d,
+  AcGePoint3dLike,
   AcGePointLike,
   AcGeVector3d,
   AcGeVector3dLike
 } from '../math'
-import { AcGeMathUtil, ORIGIN_POINT_3D, TAU } from '../util'
-import { AcGeTol } from '../util/AcGeTol'
+import { AcGeMathUtil, FLOAT_TOL, ORIGIN_POINT_3D, TAU } from '../util'
+import { AcGeTol, DEFAULT_TOL } from '../util/AcGeTol'
 import { AcGeCurve3d } from './AcGeCurve3d'
+import { integrate, sortClosedParams, sortParams } from './AcGeCurveUtil'
+import { AcGeSpline3d } from './AcGeSpline3d'
 
 /**
  * Class representing a 3d ellipse arc defined by center, normal, majorAxis, majorAxisRadius,
@@ -371,6 +375,221 @@ export class AcGeEllipseArc3d extends AcGeCurve3d {
     )
   }
 
+  /**
+   * Return true if this ellipse arc is a full ellipse.
+   */
+  private get isFull() {
+    const deltaAngle = this.deltaAngle
+    return deltaAngle == 0 || deltaAngle == TAU
+  }
+
+  /**
+   * The parameter of the start point of this ellipse arc. The parameter of one point on the
+   * ellipse is the angle t in the parametric equation 'center + majorAxis * majorAxisRadius *
+   * cos(t) + minorAxis * minorAxisRadius * sin(t)'.
+   */
+  get startParam() {
+    return this.isFull ? 0 : this.startAngle
+  }
+
+  /**
+   * The parameter of the end point of this ellipse arc. It is always greater than the start
+   * parameter.
+   */
+  get endParam() {
+    return this.isFull ? TAU : this.startAngle + this.deltaAngle
+  }
+
+  /**
+   * Return the point on this ellipse arc at the specified parameter.
+   * @param param Input the parameter
+   * @returns Return the point on this ellipse arc at the specified parameter
+   */
+  getPointAtParam(param: number) {
+    return this.getPointAtAngle(param)
+  }
+
+  /**
+   * Return the parameter of the specified point. The point is projected onto the plane of this
+   * ellipse arc if it isn't on this ellipse arc.
+   * @param point Input the point on this ellipse arc
+   * @returns Return the parameter in the range from start parameter to end parameter if the point
+   * is on this ellipse arc
+   */
+  getParamAtPoint(point: AcGePoint3dLike) {
+    const vec = new AcGeVector3d(point).sub(this.center)
+    const angle = Math.atan2(
+      vec.dot(this.minorAxis) / this.minorAxisRadius,
+      vec.dot(this.majorAxis) / this.majorAxisRadius
+    )
+    const startParam = this.startParam
+    return startParam + AcGeMathUtil.normalizeAngle(angle - startParam)
+  }
+
+  /**
+   * Return the distance along this ellipse arc from the start point to the point at the
+   * specified parameter.
+   * @param param Input the parameter
+   * @returns Return the distance from the start point
+   */
+  getDistAtParam(param: number) {
+    const startParam = this.startParam
+    const segments = Math.ceil((Math.abs(param - startParam) / TAU) * 128)
+    return integrate(
+      t => this.getFirstDeriv(t).length(),
+      startParam,
+      param,
+      Math.max(8, segments)
+    )
+  }
+
+  /**
+   * Return the parameter of the point whose distance along this ellipse arc from the start point
+   * is equal to the specified distance.
+   * @param dist Input the distance from the start point
+   * @returns Return the parameter of the point
+   */
+  getParamAtDist(dist: number) {
+    const startParam = this.startParam
+    const length = this.getDistAtParam(this.endParam)
+    if (length == 0) return startParam
+    // Refine the estimated parameter by Newton's method
+    let param = startParam + (dist / length) * (this.endParam - startParam)
+    for (let i = 0; i < 10; ++i) {
+      const delta =
+        (this.getDistAtParam(param) - dist) / this.getFirstDeriv(param).length()
+      param -= delta
+      if (Math.abs(delta) < FLOAT_TOL) break
+    }
+    return param
+  }
+
+  /**
+   * Return the first derivative of this ellipse arc at the specified parameter.
+   * @param param Input the parameter
+   * @returns Return the first derivative
+   */
+  getFirstDeriv(param: number) {
+    return this.majorAxis
+      .clone()
+      .multiplyScalar(-Math.sin(param) * this.majorAxisRadius)
+      .addScaledVector(this.minorAxis, Math.cos(param) * this.minorAxisRadius)
+  }
+
+  /**
+   * Return the point on this ellipse arc that is the closest to the specified point.
+   * @param point Input the point
+   * @param extend Input true to treat this ellipse arc as a full ellipse
+   * @returns Return the closest point
+   */
+  getClosestPointTo(point: AcGePoint3dLike, extend: boolean = false) {
+    const startParam = extend ? 0 : this.startParam
+    const endParam = extend ? TAU : this.endParam
+    const a = this.majorAxisRadius
+    const b = this.minorAxisRadius
+    const vec = new AcGeVector3d(point).sub(this.center)
+    const x = vec.dot(this.majorAxis)
+    const y = vec.dot(this.minorAxis)
+    const distanceSq = (t: number) =>
+      (a * Math.cos(t) - x) ** 2 + (b * Math.sin(t) - y) ** 2
+
+    // Find the nearest sample point and refine its parameter by Newton's method
+    const samples = 64
+    let param = startParam
+    for (let i = 1; i <= samples; ++i) {
+      const t = startParam + ((endParam - startParam) * i) / samples
+      if (distanceSq(t) < distanceSq(param)) param = t
+    }
+    for (let i = 0; i < 20; ++i) {
+      const cos = Math.cos(param)
+      const sin = Math.sin(param)
+      const f = (a * a - b * b) * sin * cos - x * a * sin + y * b * cos
+      const df =
+        (a * a - b * b) * (cos * cos - sin * sin) - x * a * cos - y * b * sin
+      if (df == 0) break
+      const next = AcGeMathUtil.clamp(param - f / df, startParam, endParam)
+      // Stop if Newton's method moves toward one farther point
+      if (distanceSq(next) > distanceSq(param)) break
+      const converged = Math.abs(next - param) < FLOAT_TOL
+      param = next
+      if (converged) break
+    }
+    return this.getPointAtParam(param)
+  }
+
+  /**
+   * The area enclosed by this ellipse arc and the chord between its start point and end point.
+   * The area of the ellipse is returned if this ellipse arc is a full ellipse.
+   */
+  get area() {
+    const sweep = this.endParam - this.startParam
+    return (
+      ((sweep - Math.sin(sweep)) *
+        this.majorAxisRadius *
+        this.minorAxisRadius) /
+      2
+    )
+  }
+
+  /**
+   * Split this ellipse arc at the specified parameters. Parameters out of the range of this
+   * ellipse arc are ignored. One full ellipse is split into ellipse arcs between adjacent
+   * parameters and at least two parameters are required to split it.
+   * @param params Input parameters at which to split this ellipse arc
+   * @returns Return ellipse arcs split from this ellipse arc in order
+   */
+  split(params: number[]) {
+    const sorted = this.isFull
+      ? sortClosedParams(params, this.startParam, this.endParam)
+      : sortParams(params, this.startParam, this.endParam)
+    if (sorted.length == 0) return [this.clone()]
+    const arcs: AcGeEllipseArc3d[] = []
+    for (let i = 1; i < sorted.length; ++i) {
+      arcs.push(
+        new AcGeEllipseArc3d(
+          this.center,
+          this.normal,
+          this.majorAxis,
+          this.majorAxisRadius,
+          this.minorAxisRadius,
+          sorted[i - 1],
+          sorted[i]
+        )
+      )
+    }
+    return arcs
+  }
+
+  /**
+   * Return the spline offset from this ellipse arc by the specified distance. The offset curve of
+   * one ellipse isn't an ellipse, so it is approximated by one spline passing through points of
+   * the exact offset curve. Because the ellipse arc goes counterclockwise around its normal,
+   * positive distance offsets it outward.
+   * @param distance Input the offset distance
+   * @param tol Input the tolerance used to approximate the offset curve
+   * @returns Return the offset spline. Empty array is returned if the ellipse arc is offset inward
+   * by one distance which isn't less than its minor radius.
+   */
+  getOffsetCurves(distance: number, tol: AcGeTol = DEFAULT_TOL) {
+    if (distance <= -this.minorAxisRadius) return []
+    const normal = this.normal
+    return [
+      AcGeSpline3d.approximate(
+        param =>
+          this.getPointAtParam(param).addScaledVector(
+            _vector3
+              .crossVectors(this.getFirstDeriv(param), normal)
+              .normalize(),
+            distance
+          ),
+        param => this.getFirstDeriv(param),
+        this.startParam,
+        this.endParam,
+        tol
+      )
+    ]
+  }
+
   /**
    * Determines whether a given point is inside the ellipse.
    * @param point - The 3D point to check.
@@ -395,7 +614,58 @@ export class AcGeEllipseArc3d extends AcGeCurve3d {
   /**
    * @inheritdoc
    */
-  transform(_matrix: AcGeMatrix3d) {
+  transform(matrix: AcGeMatrix3d) {
+    const isFull = this.deltaAngle === TAU
+    const center = this.center.clone().applyMatrix4(matrix)
+    // Transformed half major axis and half minor axis are two conjugate semi-diameters
+    // of the new ellipse. So point on the new ellipse is 'center + u * cos(t) + v * sin(t)'.
+    const u = this.majorAxis
+      .clone()
+      .multiplyScalar(this.majorAxisRadius)
+      .add(this.center)
+      .applyMatrix4(matrix)
+      .sub(center)
+    const v = this.minorAxis
+      .multiplyScalar(this.minorAxisRadius)
+      .add(this.center)
+      .applyMatrix4(matrix)
+      .sub(center)
+
+    // Parameter of the new major axis, which maximizes |u * cos(t) + v * sin(t)|
+    const t0 = 0.5 * Math.atan2(2 * u.dot(v), u.dot(u) - v.dot(v))
+    const cos = Math.cos(t0)
+    const sin = Math.sin(t0)
+    const major = u.clone().multiplyScalar(cos).addScaledVector(v, sin)
+    const minor = v.clone().multiplyScalar(cos).addScaledVector(u, -sin)
+    const normal = new AcGeVector3d().crossVectors(u, v)
+    const expectedNormal = this.normal
+      .clone()
+      .applyNormalMatrix(_matrix2d.getNormalMatrix(matrix))
+    if (normal.lengthSq() === 0) normal.copy(expectedNormal)
+    normal.normalize()
+
+    let startAngle = this.startAngle - t0
+    let endAngle = this.endAngle - t0
+    if (normal.dot(expectedNormal) < 0) {
+      // Mirroring reverses direction of the arc. Keep the original side of the
+      // normal and measure angles in the opposite direction.
+      normal.negate()
+      startAngle = t0 - this.endAngle
+      endAngle = t0 - this.startAngle
+    }
+
+    this.center = center
+    this.normal = normal
+    this.majorAxis = major
+    this.majorAxisRadius = major.length()
+    this.minorAxisRadius = minor.length()
+    if (isFull) {
+      this.startAngle = 0
+      this.endAngle = TAU
+    } else {
+      this.startAngle = startAngle
+      this.endAngle = endAngle
+    }
     this._boundingBoxNeedsUpdate = true
     return this
   }
@@ -438,3 +708,6 @@ export class AcGeEllipseArc3d extends AcGeCurve3d {
     return new AcGePlane(this.normal, distance)
   }
 }
+
+const _matrix2d = /*@__PURE__*/ new AcGeMatrix2d()
+const _vector3 = /*@__PURE__*/ new AcGeVector3d()
@@ -0,0 +1,933 @@
+import { AcGeBox3d, AcGePoint2d, AcGePoint3d, AcGeVector3d } from '../math'
+import { AcGeMathUtil, AcGeTol, DEFAULT_TOL, TAU } from '../util'
+import { AcGeCircArc2d } from './AcGeCircArc2d'
+import { AcGeCircArc3d } from './AcGeCircArc3d'
+import { AcGeCurve2d } from './AcGeCurve2d'
+import { AcGeCurve3d } from './AcGeCurve3d'
+import { AcGeEllipseArc2d } from './AcGeEllipseArc2d'
+import { AcGeEllipseArc3d } from './AcGeEllipseArc3d'
+import { AcGeLine2d } from './AcGeLine2d'
+import { AcGeLine3d } from './AcGeLine3d'
+import { AcGeNurbsCurve } from './AcGeNurbsCurve'
+import { AcGePolyline2d } from './AcGePolyline2d'
+import { AcGeSpline3d } from './AcGeSpline3d'
+
+/**
+ * Specifies which ends of one curve are extended when computing intersections.
+ * Lines are extended infinitely, and circular arcs and elliptical arcs are
+ * extended to full circles and full ellipses. Splines and closed curves can't
+ * be extended.
+ */
+export enum AcGeExtendType {
+  /**
+   * The curve isn't extended.
+   */
+  None = 0,
+  /**
+   * The curve is extended beyond its start point.
+   */
+  Start = 1,
+  /**
+   * The curve is extended beyond its end point.
+   */
+  End = 2,
+  /**
+   * The curve is extended beyond both its start point and its end point.
+   */
+  Both = 3
+}
+
+/**
+ * Number of samples used to find roots of trigonometric functions
+ */
+const TRIG_SAMPLES = 64
+
+/**
+ * Number of spans each knot span of NURBS curves is divided into
+ */
+const NURBS_SPAN_DIVISIONS = 8
+
+/**
+ * Maximum included angle of spans of circular arcs and elliptical arcs
+ */
+const CONIC_SPAN_ANGLE = TAU / 32
+
+/**
+ * Maximum number of iterations of Newton's method
+ */
+const MAX_ITERATIONS = 50
+
+/**
+ * Line from its start point (parameter 0) to its end point (parameter 1). The
+ * parameter range is infinite on extended sides.
+ */
+interface AcGeLinePiece {
+  type: 'line'
+  start: AcGeVector3d
+  end: AcGeVector3d
+  min: number
+  max: number
+}
+
+/**
+ * Circular arc or elliptical arc 'center + xAxis * cos(t) + yAxis * sin(t)'.
+ * The two axes are perpendicular and scaled by radii of the arc.
+ */
+interface AcGeConicPiece {
+  type: 'conic'
+  center: AcGeVector3d
+  xAxis: AcGeVector3d
+  yAxis: AcGeVector3d
+  normal: AcGeVector3d
+  min: number
+  max: number
+}
+
+/**
+ * NURBS curve in the parameter range from min to max
+ */
+interface AcGeNurbsPiece {
+  type: 'nurbs'
+  curve: AcGeNurbsCurve
+  min: number
+  max: number
+}
+
+/**
+ * One piece of curves to intersect. Every supported curve is converted to one
+ * or more pieces.
+ */
+type AcGePiece = AcGeLinePiece | AcGeConicPiece | AcGeNurbsPiece
+
+/**
+ * Parameter range of one piece and its bounding box used by subdivision
+ */
+interface AcGeSpan {
+  min: number
+  max: number
+  box: AcGeBox3d
+}
+
+/**
+ * Return intersection points of two 2d curves. Supported curves are lines,
+ * circular arcs, elliptical arcs and polylines.
+ * @param curve1 Input the first curve
+ * @param curve2 Input the second curve
+ * @param extend1 Input ends of the first curve to extend
+ * @param extend2 Input ends of the second curve to extend
+ * @param tol Input the tolerance used to compare points
+ * @returns Return intersection points of the two curves
+ */
+function intersectCurves2d(
+  curve1: AcGeCurve2d,
+  curve2: AcGeCurve2d,
+  extend1: AcGeExtendType = AcGeExtendType.None,
+  extend2: AcGeExtendType = AcGeExtendType.None,
+  tol: AcGeTol = DEFAULT_TOL
+): AcGePoint2d[] {
+  const pieces1 = extendPieces(toPieces2d(curve1), extend1, tol.equalPointTol)
+  const pieces2 = extendPieces(toPieces2d(curve2), extend2, tol.equalPointTol)
+  return intersectPieces(pieces1, pieces2, tol.equalPointTol).map(
+    point => new AcGePoint2d(point.x, point.y)
+  )
+}
+
+/**
+ * Return intersection points of two 3d curves. Supported curves are lines,
+ * circular arcs, elliptical arcs and splines. One array of curves connected
+ * end to end, such as segments of one polyline, is intersected as one curve.
+ * So only the start of its first curve and the end of its last curve are
+ * extended.
+ * @param curve1 Input the first curve or the first array of connected curves
+ * @param curve2 Input the second curve or the second array of connected curves
+ * @param extend1 Input ends of the first curve to extend
+ * @param extend2 Input ends of the second curve to extend
+ * @param tol Input the tolerance used to compare points
+ * @returns Return intersection points of the two curves
+ */
+function intersectCurves3d(
+  curve1: AcGeCurve3d | AcGeCurve3d[],
+  curve2: AcGeCurve3d | AcGeCurve3d[],
+  extend1: AcGeExtendType = AcGeExtendType.None,
+  extend2: AcGeExtendType = AcGeExtendType.None,
+  tol: AcGeTol = DEFAULT_TOL
+): AcGePoint3d[] {
+  const pieces1 = extendPieces(toPieces3d(curve1), extend1, tol.equalPointTol)
+  const pieces2 = extendPieces(toPieces3d(curve2), extend2, tol.equalPointTol)
+  return intersectPieces(pieces1, pieces2, tol.equalPointTol).map(
+    point => new AcGePoint3d(point.x, point.y, point.z)
+  )
+}
+
+function toPieces2d(curve: AcGeCurve2d): AcGePiece[] {
+  if (curve instanceof AcGeLine2d) {
+    const start = curve.startPoint
+    const end = curve.endPoint
+    return [
+      createLine(
+        new AcGeVector3d(start.x, start.y, 0),
+        new AcGeVector3d(end.x, end.y, 0)
+      )
+    ]
+  } else if (curve instanceof AcGeCircArc2d) {
+    const center = curve.center
+    const radius = curve.radius
+    let range: [number, number] = [0, TAU]
+    if (!curve.closed) {
+      // Angles of 2d arcs are mirrored if they are clockwise. So angles are
+      // computed from their end points. Direction of arcs doesn't matter here.
+      const start = curve.startPoint
+      const end = curve.endPoint
+      const startAngle = Math.atan2(start.y - center.y, start.x - center.x)
+      const endAngle = Math.atan2(end.y - center.y, end.x - center.x)
+      range = curve.clockwise
+        ? createAngleRange(endAngle, startAngle)
+        : createAngleRange(startAngle, endAngle)
+    }
+    return [
+      createConic(
+        new AcGeVector3d(center.x, center.y, 0),
+        new AcGeVector3d(radius, 0, 0),
+        new AcGeVector3d(0, radius, 0),
+        range
+      )
+    ]
+  } else if (curve instanceof AcGeEllipseArc2d) {
+    const center = curve.center
+    const cos = Math.cos(curve.rotation)
+    const sin = Math.sin(curve.rotation)
+    const a = curve.majorAxisRadius
+    const b = curve.minorAxisRadius
+    let range: [number, number] = [0, TAU]
+    if (!curve.closed) {
+      range = curve.clockwise
+        ? createAngleRange(curve.endAngle, curve.startAngle)
+        : createAngleRange(curve.startAngle, curve.endAngle)
+    }
+    return [
+      createConic(
+        new AcGeVector3d(center.x, center.y, 0),
+        new AcGeVector3d(a * cos, a * sin, 0),
+        new AcGeVector3d(-b * sin, b * cos, 0),
+        range
+      )
+    ]
+  } else if (curve instanceof AcGePolyline2d) {
+    return curve.getCurves3d().map(toPiece3d)
+  }
+  throw new Error('AcGeIntersectionUtil: unsupported 2d curve type.')
+}
+
+function toPieces3d(curve: AcGeCurve3d | AcGeCurve3d[]): AcGePiece[] {
+  return Array.isArray(curve) ? curve.map(toPiece3d) : [toPiece3d(curve)]
+}
+
+function toPiece3d(curve: AcGeCurve3d): AcGePiece {
+  if (curve instanceof AcGeLine3d) {
+    return createLine(
+      new AcGeVector3d(curve.startPoint),
+      new AcGeVector3d(curve.endPoint)
+    )
+  } else if (curve instanceof AcGeCircArc3d) {
+    const refVec = curve.refVec.clone().normalize()
+    const yAxis = new AcGeVector3d()
+      .crossVectors(curve.normal, refVec)
+      .normalize()
+    return createConic(
+      new AcGeVector3d(curve.center),
+      refVec.multiplyScalar(curve.radius),
+      yAxis.multiplyScalar(curve.radius),
+      [curve.startParam, curve.endParam]
+    )
+  } else if (curve instanceof AcGeEllipseArc3d) {
+    return createConic(
+      new AcGeVector3d(curve.center),
+      curve.majorAxis.clone().multiplyScalar(curve.majorAxisRadius),
+      curve.minorAxis.multiplyScalar(curve.minorAxisRadius),
+      [curve.startParam, curve.endParam]
+    )
+  } else if (curve instanceof AcGeSpline3d) {
+    const controlPoints = []
+    for (let i = 0; i < curve.numControlPoints; ++i) {
+      controlPoints.push(curve.getControlPointAt(i))
+    }
+    return {
+      type: 'nurbs',
+      curve: new AcGeNurbsCurve(
+        curve.degree,
+        curve.knots,
+        controlPoints,
+        curve.weights
+      ),
+      min: curve.startParam,
+      max: curve.endParam
+    }
+  }
+  throw new Error('AcGeIntersectionUtil: unsupported 3d curve type.')
+}
+
+function createLine(start: AcGeVector3d, end: AcGeVector3d): AcGeLinePiece {
+  return { type: 'line', start, end, min: 0, max: 1 }
+}
+
+function createConic(
+  center: AcGeVector3d,
+  xAxis: AcGeVector3d,
+  yAxis: AcGeVector3d,
+  range: [number, number]
+): AcGeConicPiece {
+  const normal = new AcGeVector3d().crossVectors(xAxis, yAxis).normalize()
+  return {
+    type: 'conic',
+    center,
+    xAxis,
+    yAxis,
+    normal,
+    min: range[0],
+    max: range[1]
+  }
+}
+
+/**
+ * Return the counterclockwise angle range from the start angle to the end
+ * angle. The range is full if the two angles are equal.
+ */
+function createAngleRange(
+  startAngle: number,
+  endAngle: number
+): [number, number] {
+  const deltaAngle = AcGeMathUtil.normalizeAngle(endAngle - startAngle)
+  return [startAngle, startAngle + (deltaAngle == 0 ? TAU : deltaAngle)]
+}
+
+/**
+ * Extend the first piece and the last piece of connected pieces according to
+ * the specified extend type.
+ */
+function extendPieces(
+  pieces: AcGePiece[],
+  extend: AcGeExtendType,
+  tol: number
+) {
+  if (extend == AcGeExtendType.None || pieces.length == 0) return pieces
+
+  const first = pieces[0]
+  const last = pieces[pieces.length - 1]
+  // Closed curves can't be extended
+  if (pointAt(first, first.min).distanceTo(pointAt(last, last.max)) <= tol) {
+    return pieces
+  }
+  if (extend & AcGeExtendType.Start) extendPiece(first, true)
+  if (extend & AcGeExtendType.End) extendPiece(last, false)
+  return pieces
+}
+
+function extendPiece(piece: AcGePiece, atStart: boolean) {
+  if (piece.type == 'line') {
+    if (atStart) {
+      piece.min = -Infinity
+    } else {
+      piece.max = Infinity
+    }
+  } else if (piece.type == 'conic') {
+    piece.max = piece.min + TAU
+  }
+}
+
+function pointAt(piece: AcGePiece, t: number) {
+  switch (piece.type) {
+    case 'line':
+      return new AcGeVector3d()
+        .subVectors(piece.end, piece.start)
+        .multiplyScalar(t)
+        .add(piece.start)
+    case 'conic':
+      return piece.center
+        .clone()
+        .addScaledVector(piece.xAxis, Math.cos(t))
+        .addScaledVector(piece.yAxis, Math.sin(t))
+    case 'nurbs':
+      return new AcGeVector3d().fromArray(piece.curve.point(t))
+  }
+}
+
+function derivativeAt(piece: AcGePiece, t: number) {
+  switch (piece.type) {
+    case 'line':
+      return new AcGeVector3d().subVectors(piece.end, piece.start)
+    case 'conic':
+      return new AcGeVector3d()
+        .addScaledVector(piece.xAxis, -Math.sin(t))
+        .addScaledVector(piece.yAxis, Math.cos(t))
+    case 'nurbs':
+      return new AcGeVector3d().fromArray(piece.curve.derivative(t))
+  }
+}
+
+/**
+ * Return the parameter moved into the parameter range of the piece if the
+ * point at the parameter is on the piece within the tolerance. Otherwise,
+ * return undefined.
+ */
+function clampParam(
+  piece: AcGePiece,
+  t: number,
+  tol: number
+): number | undefined {
+  if (piece.type == 'conic') {
+    t = piece.min + AcGeMathUtil.normalizeAngle(t - piece.min)
+  }
+  if (t >= piece.min && t <= piece.max) return t
+  if (piece.type == 'nurbs') return undefined
+
+  const point = pointAt(piece, t)
+  if (
+    isFinite(piece.max) &&
+    point.distanceTo(pointAt(piece, piece.max)) <= tol
+  ) {
+    return piece.max
+  }
+  if (
+    isFinite(piece.min) &&
+    point.distanceTo(pointAt(piece, piece.min)) <= tol
+  ) {
+    return piece.min
+  }
+  return undefined
+}
+
+/**
+ * Return the parameter of the specified point on the conic. The point is
+ * assumed to be on the plane of the conic.
+ */
+function conicParamAt(conic: AcGeConicPiece, point: AcGeVector3d) {
+  const vector = new AcGeVector3d().subVectors(point, conic.center)
+  return Math.atan2(
+    vector.dot(conic.yAxis) / conic.yAxis.lengthSq(),
+    vector.dot(conic.xAxis) / conic.xAxis.lengthSq()
+  )
+}
+
+/**
+ * Return true if the specified point is on the line or the conic within the
+ * tolerance.
+ */
+function isOnPiece(
+  piece: AcGeLinePiece | AcGeConicPiece,
+  point: AcGeVector3d,
+  tol: number
+) {
+  let t: number
+  if (piece.type == 'line') {
+    const direction = new AcGeVector3d().subVectors(piece.end, piece.start)
+    t =
+      new AcGeVector3d().subVectors(point, piece.start).dot(direction) /
+      direction.lengthSq()
+  } else {
+    t = conicParamAt(piece, point)
+  }
+  return (
+    pointAt(piece, t).distanceTo(point) <= tol &&
+    clampParam(piece, t, tol) !== undefined
+  )
+}
+
+/**
+ * Return end points of the piece which are on the other piece. They are
+ * intersections of two overlapping pieces.
+ */
+function getOverlappingEnds(
+  piece: AcGeLinePiece | AcGeConicPiece,
+  other: AcGeLinePiece | AcGeConicPiece,
+  tol: number
+) {
+  const ends: AcGeVector3d[] = []
+  if (piece.type == 'conic' && piece.max - piece.min >= TAU) return ends
+  ;[piece.min, piece.max].forEach(t => {
+    if (!isFinite(t)) return
+    const point = pointAt(piece, t)
+    if (isOnPiece(other, point, tol)) ends.push(point)
+  })
+  return ends
+}
+
+function addPoint(points: AcGeVector3d[], point: AcGeVector3d, tol: number) {
+  if (!points.some(item => item.distanceTo(point) <= tol)) {
+    points.push(point)
+  }
+}
+
+function intersectPieces(
+  pieces1: AcGePiece[],
+  pieces2: AcGePiece[],
+  tol: number
+) {
+  const points: AcGeVector3d[] = []
+  pieces1.forEach(piece1 => {
+    pieces2.forEach(piece2 => {
+      intersectPiecePair(piece1, piece2, tol).forEach(point =>
+        addPoint(points, point, tol)
+      )
+    })
+  })
+  return points
+}
+
+function intersectPiecePair(
+  piece1: AcGePiece,
+  piece2: AcGePiece,
+  tol: number
+): AcGeVector3d[] {
+  if (piece1.type == 'nurbs' || piece2.type == 'nurbs') {
+    return intersectNumerically(piece1, piece2, tol)
+  } else if (piece1.type == 'line' && piece2.type == 'line') {
+    return intersectLineLine(piece1, piece2, tol)
+  } else if (piece1.type == 'line' && piece2.type == 'conic') {
+    return intersectLineConic(piece1, piece2, tol)
+  } else if (piece1.type == 'conic' && piece2.type == 'line') {
+    return intersectLineConic(piece2, piece1, tol)
+  } else if (piece1.type == 'conic' && piece2.type == 'conic') {
+    return intersectConicConic(piece1, piece2, tol)
+  }
+  return []
+}
+
+function intersectLineLine(
+  line1: AcGeLinePiece,
+  line2: AcGeLinePiece,
+  tol: number
+): AcGeVector3d[] {
+  const d1 = new AcGeVector3d().subVectors(line1.end, line1.start)
+  const d2 = new AcGeVector3d().subVectors(line2.end, line2.start)
+  const r = new AcGeVector3d().subVectors(line1.start, line2.start)
+  const a = d1.dot(d1)
+  const b = d1.dot(d2)
+  const c = d2.dot(d2)
+  if (AcGeTol.equalToZero(a) || AcGeTol.equalToZero(c)) return []
+
+  const det = a * c - b * b
+  if (det <= 1e-12 * a * c) {
+    // Parallel lines intersect only if they overlap
+    return [
+      ...getOverlappingEnds(line1, line2, tol),
+      ...getOverlappingEnds(line2, line1, tol)
+    ]
+  }
+
+  // Parameters of the closest points of the two lines
+  const d = d1.dot(r)
+  const e = d2.dot(r)
+  const s = (b * e - c * d) / det
+  const t = (a * e - b * d) / det
+  const point1 = pointAt(line1, s)
+  const point2 = pointAt(line2, t)
+  if (
+    point1.distanceTo(point2) <= tol &&
+    clampParam(line1, s, tol) !== undefined &&
+    clampParam(line2, t, tol) !== undefined
+  ) {
+    return [point1.add(point2).multiplyScalar(0.5)]
+  }
+  return []
+}
+
+function intersectLineConic(
+  line: AcGeLinePiece,
+  conic: AcGeConicPiece,
+  tol: number
+): AcGeVector3d[] {
+  const points: AcGeVector3d[] = []
+  const direction = new AcGeVector3d().subVectors(line.end, line.start)
+  const length = direction.length()
+  if (AcGeTol.equalToZero(length)) return points
+
+  const offset = new AcGeVector3d().subVectors(line.start, conic.center)
+  const startDist = offset.dot(conic.normal)
+  const slope = direction.dot(conic.normal) / length
+  const size =
+    offset.length() + Math.max(conic.xAxis.length(), conic.yAxis.length())
+
+  if (Math.abs(startDist) <= tol && Math.abs(slope) * size <= tol) {
+    // The line is on the plane of the conic. The signed distance from points
+    // on the conic to the line is 'm * (center - start) + m * xAxis * cos(t) +
+    // m * yAxis * sin(t)', where m is the unit vector perpendicular to the
+    // line on the plane.
+    const m = new AcGeVector3d()
+      .crossVectors(direction, conic.normal)
+      .normalize()
+    const roots = findTrigRoots(
+      [-m.dot(offset), m.dot(conic.xAxis), m.dot(conic.yAxis), 0, 0],
+      tol
+    )
+    roots.forEach(root => {
+      const t = clampParam(conic, root, tol)
+      if (t === undefined) return
+      const point = pointAt(conic, t)
+      const s =
+        new AcGeVector3d().subVectors(point, line.start).dot(direction) /
+        (length * length)
+      if (clampParam(line, s, tol) !== undefined) points.push(point)
+    })
+  } else if (!AcGeTol.equalToZero(slope)) {
+    // The line crosses the plane of the conic at one point
+    const s = -startDist / (slope * length)
+    if (clampParam(line, s, tol) === undefined) return points
+    const point = pointAt(line, s)
+    if (isOnPiece(conic, point, tol)) points.push(point)
+  }
+  return points
+}
+
+function intersectConicConic(
+  conic1: AcGeConicPiece,
+  conic2: AcGeConicPiece,
+  tol: number
+): AcGeVector3d[] {
+  const points: AcGeVector3d[] = []
+  const axis = new AcGeVector3d().crossVectors(conic1.normal, conic2.normal)
+  const offset = new AcGeVector3d().subVectors(conic1.center, conic2.center)
+  const size =
+    offset.length() +
+    Math.max(
+      conic1.xAxis.length(),
+      conic1.yAxis.length(),
+      conic2.xAxis.length(),
+      conic2.yAxis.length()
+    )
+
+  if (axis.length() * size > tol) {
+    // Intersections are on the line where the two planes intersect
+    const dist1 = conic1.normal.dot(conic1.center)
+    const dist2 = conic2.normal.dot(conic2.center)
+    const start = new AcGeVector3d()
+      .crossVectors(conic2.normal, axis)
+      .multiplyScalar(dist1)
+      .add(
+        new AcGeVector3d()
+          .crossVectors(axis, conic1.normal)
+          .multiplyScalar(dist2)
+      )
+      .divideScalar(axis.lengthSq())
+    const line: AcGeLinePiece = {
+      type: 'line',
+      start,
+      end: start.clone().add(axis.normalize()),
+      min: -Infinity,
+      max: Infinity
+    }
+    intersectLineConic(line, conic1, tol).forEach(point => {
+      if (isOnPiece(conic2, point, tol)) points.push(point)
+    })
+    return points
+  }
+
+  // The two conics are on parallel planes
+  if (Math.abs(offset.dot(conic2.normal)) > tol) return points
+
+  // Map points on the first conic to the unit circle of the second conic. So
+  // the first conic is 'u = u0 + u1 * cos(t) + u2 * sin(t)' and
+  // 'v = v0 + v1 * cos(t) + v2 * sin(t)', and intersections are roots of
+  // 'u^2 + v^2 - 1 = 0'.
+  const xLengthSq = conic2.xAxis.lengthSq()
+  const yLengthSq = conic2.yAxis.lengthSq()
+  const u0 = offset.dot(conic2.xAxis) / xLengthSq
+  const u1 = conic1.xAxis.dot(conic2.xAxis) / xLengthSq
+  const u2 = conic1.yAxis.dot(conic2.xAxis) / xLengthSq
+  const v0 = offset.dot(conic2.yAxis) / yLengthSq
+  const v1 = conic1.xAxis.dot(conic2.yAxis) / yLengthSq
+  const v2 = conic1.yAxis.dot(conic2.yAxis) / yLengthSq
+  const cosSq = u1 * u1 + v1 * v1
+  const sinSq = u2 * u2 + v2 * v2
+  const coefficients = [
+    u0 * u0 + v0 * v0 - 1 + (cosSq + sinSq) / 2,
+    2 * (u0 * u1 + v0 * v1),
+    2 * (u0 * u2 + v0 * v2),
+    (cosSq - sinSq) / 2,
+    u1 * u2 + v1 * v2
+  ]
+
+  // Distance from the second conic is about 'radius * f / 2'
+  const fTol = (2 * tol) / Math.sqrt(Math.min(xLengthSq, yLengthSq))
+  if (coefficients.every(value => Math.abs(value) <= fTol)) {
+    // The two conics overlap
+    return [
+      ...getOverlappingEnds(conic1, conic2, tol),
+      ...getOverlappingEnds(conic2, conic1, tol)
+    ]
+  }
+
+  findTrigRoots(coefficients, fTol).forEach(root => {
+    const t = clampParam(conic1, root, tol)
+    if (t === undefined) return
+    const point = pointAt(conic1, t)
+    if (isOnPiece(conic2, point, tol)) points.push(point)
+  })
+  return points
+}
+
+/**
+ * Return roots in the range from 0 to 2 * PI of the function 'a0 + a1 *
+ * cos(t) + a2 * sin(t) + a3 * cos(2t) + a4 * sin(2t)'. Local extrema whose
+ * absolute values are within the tolerance are returned as roots too, which
+ * are tangent points of curves.
+ */
+function findTrigRoots(a: number[], tol: number) {
+  const f = (t: number) =>
+    a[0] +
+    a[1] * Math.cos(t) +
+    a[2] * Math.sin(t) +
+    a[3] * Math.cos(2 * t) +
+    a[4] * Math.sin(2 * t)
+  const df = (t: number) =>
+    -a[1] * Math.sin(t) +
+    a[2] * Math.cos(t) -
+    2 * a[3] * Math.sin(2 * t) +
+    2 * a[4] * Math.cos(2 * t)
+
+  const roots: number[] = []
+  const step = TAU / TRIG_SAMPLES
+  for (let i = 0; i < TRIG_SAMPLES; ++i) {
+    // Split the interval at local extrema so that the function is monotonic
+    // in each sub-interval
+    const params = [i * step]
+    const d0 = df(i * step)
+    const d1 = df((i + 1) * step)
+    if (d0 * d1 <= 0 && (d0 != 0 || d1 != 0)) {
+      const extremum = bisect(df, i * step, (i + 1) * step)
+      if (Math.abs(f(extremum)) <= tol) roots.push(extremum)
+      params.push(extremum)
+    }
+    params.push((i + 1) * step)
+
+    for (let j = 1; j < params.length; ++j) {
+      const f0 = f(params[j - 1])
+      const f1 = f(params[j])
+      if (f0 == 0) {
+        roots.push(params[j - 1])
+      } else if (f0 * f1 < 0) {
+        roots.push(bisect(f, params[j - 1], params[j]))
+      }
+    }
+  }
+  return roots
+}
+
+/**
+ * Return the root of the function in the interval whose ends have values
+ * with different signs.
+ */
+function bisect(f: (t: number) => number, lower: number, upper: number) {
+  let lowerValue = f(lower)
+  for (let i = 0; i < 60; ++i) {
+    const middle = (lower + upper) / 2
+    const middleValue = f(middle)
+    if (lowerValue * middleValue <= 0) {
+      upper = middle
+    } else {
+      lower = middle
+      lowerValue = middleValue
+    }
+  }
+  return (lower + upper) / 2
+}
+
+/**
+ * Intersect pieces by subdivision. Both pieces are divided into small spans,
+ * and Newton's method starts from the middle of each pair of spans whose
+ * bounding boxes intersect.
+ */
+function intersectNumerically(
+  piece1: AcGePiece,
+  piece2: AcGePiece,
+  tol: number
+): AcGeVector3d[] {
+  const points: AcGeVector3d[] = []
+  const spans1 = createSpans(piece1, piece2, tol)
+  const spans2 = createSpans(piece2, piece1, tol)
+  spans1.forEach(span1 => {
+    spans2.forEach(span2 => {
+      if (!span1.box.intersectsBox(span2.box)) return
+      const point = solve(
+        piece1,
+        piece2,
+        (span1.min + span1.max) / 2,
+        (span2.min + span2.max) / 2,
+        tol
+      )
+      if (point) addPoint(points, point, tol)
+    })
+  })
+  return points
+}
+
+function createSpans(
+  piece: AcGePiece,
+  other: AcGePiece,
+  tol: number
+): AcGeSpan[] {
+  let min = piece.min
+  let max = piece.max
+  let params: number[]
+  if (piece.type == 'line') {
+    if (!isFinite(min) || !isFinite(max)) {
+      // Clip the infinite line to the bounding box of the other piece
+      const range = getLineRangeInBox(piece, getBox(other), tol)
+      if (!range) return []
+      min = Math.max(min, range[0])
+      max = Math.min(max, range[1])
+      if (min > max) return []
+    }
+    params = [min, max]
+  } else if (piece.type == 'conic') {
+    const count = Math.ceil((max - min) / CONIC_SPAN_ANGLE)
+    params = []
+    for (let i = 0; i <= count; ++i)
+      params.push(min + ((max - min) * i) / count)
+  } else {
+    const knots = piece.curve.knots().filter(knot => knot > min && knot < max)
+    const breaks = [...new Set([min, ...knots, max])]
+    params = [min]
+    for (let i = 1; i < breaks.length; ++i) {
+      for (let j = 1; j <= NURBS_SPAN_DIVISIONS; ++j) {
+        params.push(
+          breaks[i - 1] +
+            ((breaks[i] - breaks[i - 1]) * j) / NURBS_SPAN_DIVISIONS
+        )
+      }
+    }
+  }
+
+  const spans: AcGeSpan[] = []
+  for (let i = 1; i < params.length; ++i) {
+    const samples: AcGeVector3d[] = []
+    for (let j = 0; j <= 4; ++j) {
+      samples.push(
+        pointAt(piece, params[i - 1] + ((params[i] - params[i - 1]) * j) / 4)
+      )
+    }
+    // Expand the box by the deviation from the chord so that it covers the
+    // piece between samples
+    const chord = new AcGeLine3d(samples[0], samples[4])
+    let deviation = 0
+    for (let j = 1; j < 4; ++j) {
+      const closest = chord.closestPointToPoint(
+        samples[j],
+        true,
+        new AcGeVector3d()
+      )
+      deviation = Math.max(deviation, closest.distanceTo(samples[j]))
+    }
+    spans.push({
+      min: params[i - 1],
+      max: params[i],
+      box: new AcGeBox3d()
+        .setFromPoints(samples)
+        .expandByScalar(deviation + tol)
+    })
+  }
+  return spans
+}
+
+/**
+ * Return one box containing the piece. The box of one NURBS curve is the box
+ * of its control points because of the convex hull property.
+ */
+function getBox(piece: AcGePiece) {
+  const box = new AcGeBox3d()
+  if (piece.type == 'nurbs') {
+    box.setFromPoints(piece.curve.controlPoints())
+  } else if (piece.type == 'conic') {
+    const radius = Math.max(piece.xAxis.length(), piece.yAxis.length())
+    box.setFromPoints([piece.center]).expandByScalar(radius)
+  } else {
+    box.setFromPoints([piece.start, piece.end])
+  }
+  return box
+}
+
+/**
+ * Return the parameter range of the line whose projection covers the box
+ */
+function getLineRangeInBox(
+  line: AcGeLinePiece,
+  box: AcGeBox3d,
+  tol: number
+): [number, number] | undefined {
+  const direction = new AcGeVector3d().subVectors(line.end, line.start)
+  const lengthSq = direction.lengthSq()
+  if (AcGeTol.equalToZero(lengthSq) || box.isEmpty()) return undefined
+
+  let min = Infinity
+  let max = -Infinity
+  for (let i = 0; i < 8; ++i) {
+    const corner = new AcGeVector3d(
+      i & 1 ? box.max.x : box.min.x,
+      i & 2 ? box.max.y : box.min.y,
+      i & 4 ? box.max.z : box.min.z
+    )
+    const t = corner.sub(line.start).dot(direction) / lengthSq
+    min = Math.min(min, t)
+    max = Math.max(max, t)
+  }
+  const margin = tol / Math.sqrt(lengthSq)
+  return [min - margin, max + margin]
+}
+
+/**
+ * Find the intersection near the specified parameters by Newton's method,
+ * which minimizes the distance between points of the two pieces.
+ * @returns Return the intersection, or undefined if not found
+ */
+function solve(
+  piece1: AcGePiece,
+  piece2: AcGePiece,
+  u: number,
+  v: number,
+  tol: number
+) {
+  for (let i = 0; i < MAX_ITERATIONS; ++i) {
+    const diff = pointAt(piece1, u).sub(pointAt(piece2, v))
+    if (diff.length() <= tol * 1e-3) break
+
+    const d1 = derivativeAt(piece1, u)
+    const d2 = derivativeAt(piece2, v)
+    // Solve the normal equations of the linearized problem. The diagonal is
+    // damped slightly so that it still converges at tangent points.
+    const damping = 1e-9 * (d1.lengthSq() + d2.lengthSq())
+    const a = d1.dot(d1) + damping
+    const b = -d1.dot(d2)
+    const c = d2.dot(d2) + damping
+    const g1 = d1.dot(diff)
+    const g2 = -d2.dot(diff)
+    const det = a * c - b * b
+    if (det <= 0) break
+
+    const du = (b * g2 - c * g1) / det
+    const dv = (b * g1 - a * g2) / det
+    u = clampToDomain(piece1, u + du)
+    v = clampToDomain(piece2, v + dv)
+    if (Math.abs(du) + Math.abs(dv) <= 1e-14) break
+  }
+
+  const point1 = pointAt(piece1, u)
+  const point2 = pointAt(piece2, v)
+  if (
+    point1.distanceTo(point2) <= tol &&
+    clampParam(piece1, u, tol) !== undefined &&
+    clampParam(piece2, v, tol) !== undefined
+  ) {
+    return point1.add(point2).multiplyScalar(0.5)
+  }
+  return undefined
+}
+
+function clampToDomain(piece: AcGePiece, t: number) {
+  return piece.type == 'conic' ? t : Math.max(piece.min, Math.min(piece.max, t))
+}
+
+const AcGeIntersectionUtil = {
+  intersectCurves2d: intersectCurves2d,
+  intersectCurves3d: intersectCurves3d
+}
+
+export { AcGeIntersectionUtil, intersectCurves2d, intersectCurves3d }
@@ -3,10 +3,12 @@ import {
   AcGeMatrix3d,
   AcGePoint3d,
   AcGePoint3dLike,
-  AcGeVector3d
+  AcGeVector3d,
+  AcGeVector3dLike
 } from '../math'
 import { AcGeMathUtil } from '../util'
 import { AcGeCurve3d } from './AcGeCurve3d'
+import { sortParams } from './AcGeCurveUtil'
 
 /**
  * The class represents one 3d line geometry specified by its start point and end point.
@@ -245,6 +247,124 @@ export class AcGeLine3d extends AcGeCurve3d {
     return new AcGePoint3d().addVectors(lineStart, projectedVector)
   }
 
+  /**
+   * The parameter of the start point of this line. The parameter of one point on the line is
+   * its distance from the start point.
+   */
+  get startParam() {
+    return 0
+  }
+
+  /**
+   * The parameter of the end point of this line, which is equal to the length of this line.
+   */
+  get endParam() {
+    return this.length
+  }
+
+  /**
+   * Return the point on this line at the specified parameter.
+   * @param param Input the parameter, which is the distance from the start point
+   * @returns Return the point on this line at the specified parameter
+   */
+  getPointAtParam(param: number) {
+    return new AcGePoint3d(this._start).addScaledVector(this.direction, param)
+  }
+
+  /**
+   * Return the parameter of the specified point. The point is projected onto this line if it
+   * isn't on this line.
+   * @param point Input the point on this line
+   * @returns Return the parameter of the specified point
+   */
+  getParamAtPoint(point: AcGePoint3dLike) {
+    return _vector.subVectors(point, this._start).dot(this.direction)
+  }
+
+  /**
+   * Return the distance along this line from the start point to the point at the specified
+   * parameter.
+   * @param param Input the parameter
+   * @returns Return the distance from the start point
+   */
+  getDistAtParam(param: number) {
+    return param
+  }
+
+  /**
+   * Return the parameter of the point whose distance along this line from the start point is
+   * equal to the specified distance.
+   * @param dist Input the distance from the start point
+   * @returns Return the parameter of the point
+   */
+  getParamAtDist(dist: number) {
+    return dist
+  }
+
+  /**
+   * Return the first derivative of this line at the specified parameter, which is the unit
+   * direction vector of this line.
+   * @param _param Input the parameter
+   * @returns Return the first derivative
+   */
+  getFirstDeriv(_param: number) {
+    return this.direction
+  }
+
+  /**
+   * Return the point on this line that is the closest to the specified point.
+   * @param point Input the point
+   * @param extend Input true to treat this line as an infinite line
+   * @returns Return the closest point
+   */
+  getClosestPointTo(point: AcGePoint3dLike, extend: boolean = false) {
+    return this.closestPointToPoint(
+      new AcGePoint3d(point),
+      !extend,
+      new AcGePoint3d()
+    )
+  }
+
+  /**
+   * Split this line at the specified parameters. Parameters out of the range of this line are
+   * ignored.
+   * @param params Input parameters at which to split this line
+   * @returns Return lines split from this line in order
+   */
+  split(params: number[]) {
+    const points = sortParams(params, this.startParam, this.endParam).map(
+      param => this.getPointAtParam(param)
+    )
+    const lines: AcGeLine3d[] = []
+    for (let i = 1; i < points.length; ++i) {
+      lines.push(new AcGeLine3d(points[i - 1], points[i]))
+    }
+    return lines
+  }
+
+  /**
+   * Return the line offset from this line by the specified distance in the plane with the
+   * specified normal.
+   * @param distance Input the offset distance. Positive distance offsets this line to its right side
+   * when looking from the direction of the normal.
+   * @param normal Input the normal of the plane in which this line is offset
+   * @returns Return the offset line. Empty array is returned if this line is parallel to the normal.
+   */
+  getOffsetCurves(
+    distance: number,
+    normal: AcGeVector3dLike = AcGeVector3d.Z_AXIS
+  ) {
+    const offset = new AcGeVector3d().crossVectors(this.direction, normal)
+    if (offset.lengthSq() == 0) return []
+    offset.normalize().multiplyScalar(distance)
+    return [
+      new AcGeLine3d(
+        this._start.clone().add(offset),
+        this._end.clone().add(offset)
+      )
+    ]
+  }
+
   /**
    * @inheritdoc
    */
@@ -1,5 +1,11 @@
 import { AcGeEllipseArc2d, AcGeSpline3d } from '../geometry'
-import { AcGeBox2d, AcGeMatrix2d, AcGePoint2d, AcGePoint3d } from '../math'
+import {
+  AcGeBox2d,
+  AcGeMatrix2d,
+  AcGeMatrix3d,
+  AcGePoint2d,
+  AcGePoint3d
+} from '../math'
 import { AcGeCircArc2d } from './AcGeCircArc2d'
 import { AcGeCurve2d } from './AcGeCurve2d'
 import { AcGeLine2d } from './AcGeLine2d'
@@ -88,8 +94,27 @@ export class AcGeLoop2d extends AcGeCurve2d {
   /**
    * @inheritdoc
    */
-  transform(_matrix: AcGeMatrix2d) {
-    // TODO: implement it
+  transform(matrix: AcGeMatrix2d) {
+    let matrix3d: AcGeMatrix3d | undefined
+    this._curves.forEach(curve => {
+      if (curve instanceof AcGeSpline3d) {
+        // Spline is 3d curve. So convert 2d transformation to 3d transformation.
+        if (!matrix3d) {
+          const e = matrix.elements
+          matrix3d = new AcGeMatrix3d()
+          const te = matrix3d.elements
+          te[0] = e[0]
+          te[1] = e[1]
+          te[4] = e[3]
+          te[5] = e[4]
+          te[12] = e[6]
+          te[13] = e[7]
+        }
+        curve.transform(matrix3d)
+      } else {
+        curve.transform(matrix)
+      }
+    })
     this._boundingBoxNeedsUpdate = true
     return this
   }
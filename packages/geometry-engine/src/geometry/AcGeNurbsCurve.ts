@@ -1,6 +1,7 @@
 import { AcGePoint3d, AcGePoint3dLike } from '../math'
 import {
   calculateCurveLength,
+  evaluateNurbsDerivative,
   evaluateNurbsPoint,
   generateChordKnots,
   generateSqrtChordKnots,
@@ -79,6 +80,20 @@ export class AcGeNurbsCurve {
     )
   }
 
+  /**
+   * Calculate the first derivative of the curve at parameter u
+   */
+  derivative(u: number): number[] {
+    const controlPointsArray = this._controlPoints.map(p => [p.x, p.y, p.z])
+    return evaluateNurbsDerivative(
+      u,
+      this._degree,
+      this._knots,
+      controlPointsArray,
+      this._weights
+    )
+  }
+
   /**
    * Calculate curve length using numerical integration
    */
@@ -1,6 +1,17 @@
-import { AcGeBox2d, AcGeMatrix2d, AcGePoint2d, AcGePoint3d } from '../math'
+import {
+  AcGeBox2d,
+  AcGeMatrix2d,
+  AcGePoint2d,
+  AcGePoint2dLike,
+  AcGePoint3d,
+  AcGeVector2d
+} from '../math'
+import { AcGeMathUtil, AcGeTol, FLOAT_TOL } from '../util'
 import { AcGeCircArc2d } from './AcGeCircArc2d'
+import { AcGeCircArc3d } from './AcGeCircArc3d'
 import { AcGeCurve2d } from './AcGeCurve2d'
+import { sortClosedParams, sortParams } from './AcGeCurveUtil'
+import { AcGeLine3d } from './AcGeLine3d'
 
 /**
  * The class represents one vertex of the polyline geometry.
@@ -41,6 +52,13 @@ export class AcGePolyline2d<
     return this._vertices.length
   }
 
+  /**
+   * The vertices of the polyline
+   */
+  get vertices(): Array<T> {
+    return this._vertices
+  }
+
   /**
    * @inheritdoc
    */
@@ -140,6 +158,363 @@ export class AcGePolyline2d<
     return new AcGePoint2d(vertex.x, vertex.y)
   }
 
+  /**
+   * The number of segments in the polyline
+   */
+  private get numberOfSegments() {
+    const length = this._vertices.length
+    if (length < 2) return 0
+    return this._closed ? length : length - 1
+  }
+
+  /**
+   * The parameter of the start point of this polyline. The parameter of the vertex at index i is
+   * i and the parameter of one point on the segment starting at the vertex i is in the range
+   * from i to i + 1.
+   */
+  get startParam() {
+    return 0
+  }
+
+  /**
+   * The parameter of the end point of this polyline
+   */
+  get endParam() {
+    return this.numberOfSegments
+  }
+
+  /**
+   * Return the point on this polyline at the specified parameter.
+   * @param param Input the parameter
+   * @returns Return the point on this polyline at the specified parameter
+   */
+  getPointAtParam(param: number) {
+    const [index, ratio] = this.splitParam(param)
+    return this.getSegment(index).getPoint(ratio)
+  }
+
+  /**
+   * Return the parameter of the point on this polyline that is the closest to the specified
+   * point.
+   * @param point Input the point on this polyline
+   * @returns Return the parameter of the specified point
+   */
+  getParamAtPoint(point: AcGePoint2dLike) {
+    let result = 0
+    let minDistance = Infinity
+    for (let index = 0; index < this.numberOfSegments; ++index) {
+      const segment = this.getSegment(index)
+      const ratio = segment.getClosestRatio(point)
+      const distance = segment.getPoint(ratio).distanceTo(point)
+      if (distance < minDistance) {
+        minDistance = distance
+        result = index + ratio
+      }
+    }
+    return result
+  }
+
+  /**
+   * Return the distance along this polyline from the start point to the point at the specified
+   * parameter.
+   * @param param Input the parameter
+   * @returns Return the distance from the start point
+   */
+  getDistAtParam(param: number) {
+    const [index, ratio] = this.splitParam(param)
+    let distance = 0
+    for (let i = 0; i < index; ++i) {
+      distance += this.getSegment(i).length
+    }
+    return distance + this.getSegment(index).length * ratio
+  }
+
+  /**
+   * Return the parameter of the point whose distance along this polyline from the start point is
+   * equal to the specified distance.
+   * @param dist Input the distance from the start point
+   * @returns Return the parameter of the point
+   */
+  getParamAtDist(dist: number) {
+    const numberOfSegments = this.numberOfSegments
+    let distance = 0
+    for (let index = 0; index < numberOfSegments; ++index) {
+      const length = this.getSegment(index).length
+      if (distance + length >= dist || index == numberOfSegments - 1) {
+        return index + (length > 0 ? (dist - distance) / length : 0)
+      }
+      distance += length
+    }
+    return 0
+  }
+
+  /**
+   * Return the first derivative of this polyline at the specified parameter. The derivative at
+   * one vertex is the derivative of the segment starting at this vertex.
+   * @param param Input the parameter
+   * @returns Return the first derivative
+   */
+  getFirstDeriv(param: number) {
+    const [index, ratio] = this.splitParam(param)
+    return this.getSegment(index).getFirstDeriv(ratio)
+  }
+
+  /**
+   * Return the point on this polyline that is the closest to the specified point.
+   * @param point Input the point
+   * @returns Return the closest point
+   */
+  getClosestPointTo(point: AcGePoint2dLike) {
+    return this.getPointAtParam(this.getParamAtPoint(point))
+  }
+
+  /**
+   * The area enclosed by this polyline. If the polyline isn't closed, the area is calculated as
+   * if there is a straight segment from the last vertex to the first vertex.
+   */
+  get area() {
+    const vertices = this._vertices
+    let area = 0
+    for (let i = 0, length = vertices.length; i < length; ++i) {
+      const vertex = vertices[i]
+      const next = vertices[(i + 1) % length]
+      area += (vertex.x * next.y - next.x * vertex.y) / 2
+      if (i < this.numberOfSegments) area += this.getSegment(i).bulgeArea
+    }
+    return Math.abs(area)
+  }
+
+  /**
+   * Split this polyline at the specified parameters. Parameters out of the range of this polyline
+   * are ignored. One closed polyline is split into polylines between adjacent parameters and at
+   * least two parameters are required to split it.
+   * @param params Input parameters at which to split this polyline
+   * @returns Return polylines split from this polyline in order
+   */
+  split(params: number[]) {
+    const sorted = this._closed
+      ? sortClosedParams(params, this.startParam, this.endParam)
+      : sortParams(params, this.startParam, this.endParam)
+    if (sorted.length == 0 || this.numberOfSegments == 0) {
+      return [new AcGePolyline2d<T>(this.cloneVertices(), this._closed)]
+    }
+
+    const numberOfVertices = this._vertices.length
+    const createVertex = (param: number, endParam: number) => {
+      const index = Math.min(Math.floor(param), Math.ceil(endParam) - 1)
+      const segment = this.getSegment(index % numberOfVertices)
+      const point = segment.getPoint(param - index)
+      const ratio = Math.min(endParam, index + 1) - param
+      return {
+        ...this._vertices[index % numberOfVertices],
+        x: point.x,
+        y: point.y,
+        bulge: Math.tan(Math.atan(segment.bulge) * ratio)
+      }
+    }
+
+    const polylines: AcGePolyline2d<T>[] = []
+    for (let i = 1; i < sorted.length; ++i) {
+      const start = sorted[i - 1]
+      const end = sorted[i]
+      const vertices = [createVertex(start, end)]
+      for (let param = Math.floor(start) + 1; param < end; ++param) {
+        if (param - start > FLOAT_TOL && end - param > FLOAT_TOL) {
+          vertices.push(createVertex(param, end))
+        }
+      }
+      vertices.push({ ...createVertex(end, end), bulge: 0 })
+      polylines.push(new AcGePolyline2d<T>(vertices, false))
+    }
+    return polylines
+  }
+
+  /**
+   * Return polylines offset from this polyline by the specified distance. Each segment is offset
+   * by the distance. Gaps between adjacent straight segments are closed by extending them to
+   * their intersection and other gaps are closed by arcs around the original vertex. Parts of
+   * the offset curve which are closer to this polyline than the distance are trimmed away, so
+   * multiple polylines may be returned.
+   * @param distance Input the offset distance. Positive distance offsets this polyline to its
+   * right side, which is outward for one counterclockwise closed polyline.
+   * @returns Return offset polylines. Empty array is returned if this polyline can't be offset by
+   * the specified distance.
+   */
+  getOffsetCurves(distance: number) {
+    const segments: AcGePolyline2dSegment[] = []
+    for (let index = 0; index < this.numberOfSegments; ++index) {
+      const segment = this.getSegment(index)
+      if (segment.length > FLOAT_TOL) segments.push(segment)
+    }
+    if (segments.length == 0) return []
+    if (distance == 0) {
+      return [new AcGePolyline2d(this.cloneVertices(), this._closed)]
+    }
+
+    // Offset segments one by one and connect adjacent offset segments
+    const count = segments.length
+    const offsets = segments.map(segment => segment.offset(distance))
+    const joins: Array<AcGePolyline2dSegment | undefined> = []
+    const numberOfJoins = this._closed ? count : count - 1
+    for (let i = 0; i < numberOfJoins && count > 1; ++i) {
+      const j = (i + 1) % count
+      const [end, start, join] = AcGePolyline2dSegment.join(
+        offsets[i],
+        offsets[j],
+        segments[i],
+        segments[j],
+        distance
+      )
+      offsets[i] = end
+      offsets[j] = start
+      joins[i] = join
+    }
+    const raw: AcGePolyline2dSegment[] = []
+    offsets.forEach((offset, index) => {
+      raw.push(offset)
+      const join = joins[index]
+      if (join) raw.push(join)
+    })
+    const rawSegments = raw.filter(segment => segment.length > FLOAT_TOL)
+    if (rawSegments.length == 0) return []
+
+    const vertices: AcGePolyline2dVertex[] = rawSegments.map(segment => ({
+      x: segment.start.x,
+      y: segment.start.y,
+      bulge: segment.bulge
+    }))
+    if (!this._closed) {
+      const last = rawSegments[rawSegments.length - 1]
+      vertices.push({ x: last.end.x, y: last.end.y, bulge: 0 })
+    }
+    const polyline = new AcGePolyline2d(vertices, this._closed)
+
+    // Split the offset curve at its self-intersections and remove invalid parts
+    const params = AcGePolyline2dSegment.selfIntersect(
+      rawSegments,
+      this._closed
+    )
+    const pieces = params.length > 0 ? polyline.split(params) : [polyline]
+    const minDistance =
+      Math.abs(distance) - FLOAT_TOL * Math.max(1, Math.abs(distance))
+    return this.joinPieces(
+      pieces.filter(piece => {
+        for (let index = 0; index < piece.numberOfSegments; ++index) {
+          const point = piece.getPointAtParam(index + 0.5)
+          if (this.getClosestPointTo(point).distanceTo(point) < minDistance) {
+            return false
+          }
+        }
+        return true
+      })
+    )
+  }
+
+  /**
+   * Join pieces of the offset curve end to end. Pieces overlapping with another piece in the same
+   * direction are removed.
+   */
+  private joinPieces(pieces: AcGePolyline2d[]) {
+    const equal = (p1: AcGePoint2dLike, p2: AcGePoint2dLike) =>
+      Math.abs(p1.x - p2.x) <= FLOAT_TOL && Math.abs(p1.y - p2.y) <= FLOAT_TOL
+    const isSame = (piece1: AcGePolyline2d, piece2: AcGePolyline2d) =>
+      piece1.closed == piece2.closed &&
+      piece1.numberOfVertices == piece2.numberOfVertices &&
+      piece1.vertices.every((vertex, index) => {
+        const other = piece2.vertices[index]
+        return (
+          equal(vertex, other) &&
+          Math.abs((vertex.bulge || 0) - (other.bulge || 0)) <= FLOAT_TOL
+        )
+      })
+    const polylines: AcGePolyline2d[] = []
+    const remaining = pieces.filter(
+      (piece, index) =>
+        !pieces.slice(0, index).some(other => isSame(piece, other))
+    )
+    while (remaining.length > 0) {
+      const piece = remaining.shift()!
+      if (piece.closed) {
+        polylines.push(piece)
+        continue
+      }
+      let vertices = piece.vertices
+      for (;;) {
+        const end = vertices[vertices.length - 1]
+        const index = remaining.findIndex(
+          next => !next.closed && equal(next.vertices[0], end)
+        )
+        if (index < 0) break
+        vertices = vertices.slice(0, -1).concat(remaining[index].vertices)
+        remaining.splice(index, 1)
+      }
+      const closed =
+        this._closed &&
+        vertices.length > 2 &&
+        equal(vertices[0], vertices[vertices.length - 1])
+      if (closed) vertices = vertices.slice(0, -1)
+      polylines.push(new AcGePolyline2d(vertices, closed))
+    }
+    return polylines
+  }
+
+  /**
+   * Return segments of this polyline as 3d lines and 3d circular arcs on the plane parallel to the
+   * XY plane. Clockwise arc segments are created around the negative Z axis so that directions of
+   * all segments are kept.
+   * @param elevation Input the z coordinate of the plane
+   * @returns Return one 3d curve for each segment of this polyline
+   */
+  getCurves3d(elevation: number = 0): (AcGeLine3d | AcGeCircArc3d)[] {
+    const curves: (AcGeLine3d | AcGeCircArc3d)[] = []
+    for (let index = 0; index < this.numberOfSegments; ++index) {
+      curves.push(this.getSegment(index).toCurve3d(elevation))
+    }
+    return curves
+  }
+
+  /**
+   * Convert the specified parameter to the index of the segment and the ratio in this segment.
+   */
+  private splitParam(param: number): [number, number] {
+    const numberOfSegments = this.numberOfSegments
+    if (numberOfSegments == 0) return [0, 0]
+    const index = Math.min(Math.max(Math.floor(param), 0), numberOfSegments - 1)
+    return [index, param - index]
+  }
+
+  /**
+   * Return the segment starting at the vertex with the specified index.
+   */
+  private getSegment(index: number) {
+    const length = this._vertices.length
+    const vertex = this._vertices[index]
+    return new AcGePolyline2dSegment(
+      vertex,
+      this._vertices[(index + 1) % length] ?? vertex,
+      vertex.bulge || 0
+    )
+  }
+
+  /**
+   * Returns true if the specified matrix scales uniformly so that arc segments are
+   * still circular after transformation.
+   */
+  private isUniformlyScaledBy(matrix: AcGeMatrix2d) {
+    const e = matrix.elements
+    const xAxis = new AcGeVector2d(e[0], e[1])
+    const yAxis = new AcGeVector2d(e[3], e[4])
+    const length = xAxis.length()
+    return (
+      AcGeTol.equal(length, yAxis.length(), length * FLOAT_TOL) &&
+      AcGeTol.equalToZero(xAxis.dot(yAxis), length * length * FLOAT_TOL)
+    )
+  }
+
+  private cloneVertices() {
+    return this._vertices.map(vertex => ({ ...vertex }))
+  }
+
   /**
    * @inheritdoc
    */
@@ -149,10 +524,30 @@ export class AcGePolyline2d<
   }
 
   /**
-   * @inheritdoc
+   * Transforms this polyline by the specified matrix. Arc segments can't keep being
+   * circular if they are scaled non-uniformly. So one error is thrown in this case
+   * and this polyline isn't changed.
+   * @param matrix Input the transformation matrix
+   * @returns Return this polyline
    */
-  transform(_matrix: AcGeMatrix2d) {
-    // TODO: implement it
+  transform(matrix: AcGeMatrix2d) {
+    if (
+      this._vertices.some(vertex => vertex.bulge) &&
+      !this.isUniformlyScaledBy(matrix)
+    ) {
+      throw new Error(
+        '[AcGePolyline2d] Can not scale arc segments non-uniformly!'
+      )
+    }
+    // Mirroring reverses direction of arc segments
+    const mirrored = matrix.determinant() < 0
+    const point = new AcGePoint2d()
+    this._vertices.forEach(vertex => {
+      point.set(vertex.x, vertex.y).applyMatrix2d(matrix)
+      vertex.x = point.x
+      vertex.y = point.y
+      if (mirrored && vertex.bulge) vertex.bulge = -vertex.bulge
+    })
     this._boundingBoxNeedsUpdate = true
     return this
   }
@@ -209,3 +604,426 @@ export class AcGePolyline2d<
     return points
   }
 }
+
+/**
+ * One straight segment or arc segment of the polyline. The parameter of one point on the segment
+ * is the ratio in the range from 0 to 1.
+ */
+class AcGePolyline2dSegment {
+  readonly start: AcGePoint2d
+  readonly end: AcGePoint2d
+  readonly bulge: number
+  /** The included angle of the arc segment, which is negative if the arc is clockwise */
+  private _angle: number
+  private _center?: AcGePoint2d
+  private _radius: number
+  private _startAngle: number
+
+  constructor(start: AcGePoint2dLike, end: AcGePoint2dLike, bulge: number) {
+    this.start = new AcGePoint2d(start.x, start.y)
+    this.end = new AcGePoint2d(end.x, end.y)
+    this.bulge = this.start.equals(this.end) ? 0 : bulge
+    this._angle = 4 * Math.atan(this.bulge)
+    this._radius = 0
+    this._startAngle = 0
+    if (this.bulge) {
+      const dx = this.end.x - this.start.x
+      const dy = this.end.y - this.start.y
+      const offset = (1 - this.bulge * this.bulge) / (4 * this.bulge)
+      this._center = new AcGePoint2d(
+        (this.start.x + this.end.x) / 2 - dy * offset,
+        (this.start.y + this.end.y) / 2 + dx * offset
+      )
+      this._radius = this._center.distanceTo(this.start)
+      this._startAngle = Math.atan2(
+        this.start.y - this._center.y,
+        this.start.x - this._center.x
+      )
+    }
+  }
+
+  /**
+   * Return this segment as one 3d curve at the specified elevation. Clockwise arcs are created
+   * around the negative Z axis to keep the direction of this segment.
+   */
+  toCurve3d(elevation: number) {
+    const center = this._center
+    if (center) {
+      const sign = this._angle > 0 ? 1 : -1
+      return new AcGeCircArc3d(
+        { x: center.x, y: center.y, z: elevation },
+        this._radius,
+        sign * this._startAngle,
+        sign * (this._startAngle + this._angle),
+        { x: 0, y: 0, z: sign }
+      )
+    }
+    return new AcGeLine3d(
+      { x: this.start.x, y: this.start.y, z: elevation },
+      { x: this.end.x, y: this.end.y, z: elevation }
+    )
+  }
+
+  get length() {
+    return this._center
+      ? Math.abs(this._angle) * this._radius
+      : this.start.distanceTo(this.end)
+  }
+
+  /**
+   * The signed area between the arc segment and its chord
+   */
+  get bulgeArea() {
+    const angle = this._angle
+    return ((angle - Math.sin(angle)) * this._radius * this._radius) / 2
+  }
+
+  getPoint(ratio: number) {
+    const center = this._center
+    if (center) {
+      const angle = this._startAngle + this._angle * ratio
+      return new AcGePoint2d(
+        center.x + this._radius * Math.cos(angle),
+        center.y + this._radius * Math.sin(angle)
+      )
+    }
+    return new AcGePoint2d(
+      this.start.x + (this.end.x - this.start.x) * ratio,
+      this.start.y + (this.end.y - this.start.y) * ratio
+    )
+  }
+
+  getFirstDeriv(ratio: number) {
+    if (this._center) {
+      const angle = this._startAngle + this._angle * ratio
+      const scale = this._radius * this._angle
+      return new AcGeVector2d(-Math.sin(angle) * scale, Math.cos(angle) * scale)
+    }
+    return new AcGeVector2d().subVectors(this.end, this.start)
+  }
+
+  /**
+   * Return the segment offset from this segment. Positive distance offsets this segment to its
+   * right side. One arc segment collapsing to its center is replaced with one straight segment
+   * between offset points of its start point and end point.
+   */
+  offset(distance: number) {
+    const center = this._center
+    if (center) {
+      const scale =
+        (this._radius + Math.sign(this._angle) * distance) / this._radius
+      const start = new AcGePoint2d(
+        center.x + (this.start.x - center.x) * scale,
+        center.y + (this.start.y - center.y) * scale
+      )
+      const end = new AcGePoint2d(
+        center.x + (this.end.x - center.x) * scale,
+        center.y + (this.end.y - center.y) * scale
+      )
+      return new AcGePolyline2dSegment(
+        start,
+        end,
+        scale * this._radius > FLOAT_TOL ? this.bulge : 0
+      )
+    }
+    const direction = new AcGeVector2d()
+      .subVectors(this.end, this.start)
+      .normalize()
+    const offset = new AcGeVector2d(direction.y, -direction.x).multiplyScalar(
+      distance
+    )
+    return new AcGePolyline2dSegment(
+      new AcGePoint2d(this.start).add(offset),
+      new AcGePoint2d(this.end).add(offset),
+      0
+    )
+  }
+
+  /**
+   * Return the segment on the same line or circle as this segment with the specified end points.
+   */
+  withEnds(start: AcGePoint2dLike, end: AcGePoint2dLike) {
+    const center = this._center
+    if (!center) return new AcGePolyline2dSegment(start, end, 0)
+    const startAngle = Math.atan2(start.y - center.y, start.x - center.x)
+    const endAngle = Math.atan2(end.y - center.y, end.x - center.x)
+    const angle =
+      this._angle > 0
+        ? AcGeMathUtil.normalizeAngle(endAngle - startAngle)
+        : -AcGeMathUtil.normalizeAngle(startAngle - endAngle)
+    return new AcGePolyline2dSegment(start, end, Math.tan(angle / 4))
+  }
+
+  /**
+   * Return intersection points between this segment and the specified segment.
+   * @param other Input the other segment
+   * @param extend Input true to treat both segments as infinite lines or full circles
+   */
+  intersectWith(other: AcGePolyline2dSegment, extend = false) {
+    let points: AcGePoint2d[]
+    if (this._center && other._center) {
+      points = intersectCircles(
+        this._center,
+        this._radius,
+        other._center,
+        other._radius
+      )
+    } else if (this._center) {
+      points = intersectLineCircle(
+        other.start,
+        other.end,
+        this._center,
+        this._radius
+      )
+    } else if (other._center) {
+      points = intersectLineCircle(
+        this.start,
+        this.end,
+        other._center,
+        other._radius
+      )
+    } else {
+      points = intersectLines(this.start, this.end, other.start, other.end)
+    }
+    return extend
+      ? points
+      : points.filter(point => this.contains(point) && other.contains(point))
+  }
+
+  /**
+   * Return true if the specified point on the line or circle of this segment is on this segment.
+   */
+  contains(point: AcGePoint2dLike) {
+    return (
+      this.getPoint(this.getClosestRatio(point)).distanceTo(point) <= FLOAT_TOL
+    )
+  }
+
+  /**
+   * Connect two adjacent offset segments. Gaps between two straight segments are closed by
+   * extending them to their intersection and other gaps are closed by one arc segment around the
+   * original vertex. Overlapped segments are trimmed at their intersection.
+   * @param offset1 Input the offset of the first segment
+   * @param offset2 Input the offset of the second segment
+   * @param segment1 Input the first segment
+   * @param segment2 Input the second segment starting at the end point of the first segment
+   * @param distance Input the offset distance
+   * @returns Return the trimmed offset segments and the optional segment connecting them
+   */
+  static join(
+    offset1: AcGePolyline2dSegment,
+    offset2: AcGePolyline2dSegment,
+    segment1: AcGePolyline2dSegment,
+    segment2: AcGePolyline2dSegment,
+    distance: number
+  ): [
+    AcGePolyline2dSegment,
+    AcGePolyline2dSegment,
+    AcGePolyline2dSegment | undefined
+  ] {
+    if (offset1.end.distanceTo(offset2.start) <= FLOAT_TOL) {
+      return [offset1, offset2, undefined]
+    }
+    const vertex = segment1.end
+    const tangent1 = segment1.getFirstDeriv(1).normalize()
+    const tangent2 = segment2.getFirstDeriv(0).normalize()
+    const cross = tangent1.cross(tangent2)
+    const isGap =
+      Math.abs(cross) > FLOAT_TOL
+        ? cross * distance > 0
+        : tangent1.dot(tangent2) < 0
+
+    if (isGap) {
+      if (!offset1._center && !offset2._center) {
+        const point = offset1.intersectWith(offset2, true)[0]
+        if (point) {
+          return [
+            offset1.withEnds(offset1.start, point),
+            offset2.withEnds(point, offset2.end),
+            undefined
+          ]
+        }
+      }
+      const sign = Math.sign(distance)
+      const startAngle = Math.atan2(
+        offset1.end.y - vertex.y,
+        offset1.end.x - vertex.x
+      )
+      const endAngle = Math.atan2(
+        offset2.start.y - vertex.y,
+        offset2.start.x - vertex.x
+      )
+      const angle =
+        sign * AcGeMathUtil.normalizeAngle(sign * (endAngle - startAngle))
+      return [
+        offset1,
+        offset2,
+        new AcGePolyline2dSegment(
+          offset1.end,
+          offset2.start,
+          Math.tan(angle / 4)
+        )
+      ]
+    }
+
+    let closest: AcGePoint2d | undefined
+    offset1.intersectWith(offset2).forEach(point => {
+      if (!closest || point.distanceTo(vertex) < closest.distanceTo(vertex)) {
+        closest = point
+      }
+    })
+    if (closest) {
+      return [
+        offset1.withEnds(offset1.start, closest),
+        offset2.withEnds(closest, offset2.end),
+        undefined
+      ]
+    }
+    // The connecting segment is removed later because it is too close to the original vertex
+    return [
+      offset1,
+      offset2,
+      new AcGePolyline2dSegment(offset1.end, offset2.start, 0)
+    ]
+  }
+
+  /**
+   * Return parameters of self-intersections of the polyline consisting of the specified segments.
+   * Parameters may be duplicated. The parameter of one point on the segment at index i is i plus the ratio in this segment.
+   */
+  static selfIntersect(segments: AcGePolyline2dSegment[], closed: boolean) {
+    const params: number[] = []
+    const count = segments.length
+    for (let i = 0; i < count; ++i) {
+      for (let j = i + 1; j < count; ++j) {
+        const segment1 = segments[i]
+        const segment2 = segments[j]
+        const adjacent = j == i + 1 || (closed && i == 0 && j == count - 1)
+        const isEndPoint = (
+          segment: AcGePolyline2dSegment,
+          point: AcGePoint2d
+        ) =>
+          point.distanceTo(segment.start) <= FLOAT_TOL ||
+          point.distanceTo(segment.end) <= FLOAT_TOL
+        // End points on the other segment are added to split overlapped segments too
+        const points = segment1.intersectWith(segment2).concat(
+          [segment1.start, segment1.end].filter(point =>
+            segment2.contains(point)
+          ),
+          [segment2.start, segment2.end].filter(point =>
+            segment1.contains(point)
+          )
+        )
+        points.forEach(point => {
+          // Skip the shared vertex of adjacent segments
+          if (
+            adjacent &&
+            isEndPoint(segment1, point) &&
+            isEndPoint(segment2, point)
+          ) {
+            return
+          }
+          params.push(
+            i + segment1.getClosestRatio(point),
+            j + segment2.getClosestRatio(point)
+          )
+        })
+      }
+    }
+    return params
+  }
+
+  getClosestRatio(point: AcGePoint2dLike) {
+    const center = this._center
+    if (center) {
+      const angle = Math.atan2(point.y - center.y, point.x - center.x)
+      const delta = AcGeMathUtil.normalizeAngle(
+        this._angle > 0 ? angle - this._startAngle : this._startAngle - angle
+      )
+      const ratio = delta / Math.abs(this._angle)
+      if (ratio <= 1) return ratio
+      return this.start.distanceTo(point) < this.end.distanceTo(point) ? 0 : 1
+    }
+    const direction = new AcGeVector2d().subVectors(this.end, this.start)
+    const lengthSq = direction.lengthSq()
+    if (lengthSq == 0) return 0
+    const ratio =
+      new AcGeVector2d().subVectors(point, this.start).dot(direction) / lengthSq
+    return AcGeMathUtil.clamp(ratio, 0, 1)
+  }
+}
+
+/**
+ * Return intersection points of two infinite lines passing through the specified points.
+ */
+function intersectLines(
+  start1: AcGePoint2d,
+  end1: AcGePoint2d,
+  start2: AcGePoint2d,
+  end2: AcGePoint2d
+) {
+  const direction1 = new AcGeVector2d().subVectors(end1, start1)
+  const direction2 = new AcGeVector2d().subVectors(end2, start2)
+  const denominator = direction1.cross(direction2)
+  if (Math.abs(denominator) <= FLOAT_TOL * FLOAT_TOL) return []
+  const t =
+    new AcGeVector2d().subVectors(start2, start1).cross(direction2) /
+    denominator
+  return [new AcGePoint2d(start1).add(direction1.multiplyScalar(t))]
+}
+
+/**
+ * Return intersection points of one infinite line and one circle.
+ */
+function intersectLineCircle(
+  start: AcGePoint2d,
+  end: AcGePoint2d,
+  center: AcGePoint2d,
+  radius: number
+) {
+  const direction = new AcGeVector2d().subVectors(end, start).normalize()
+  const toCenter = new AcGeVector2d().subVectors(center, start)
+  const projection = toCenter.dot(direction)
+  const distanceSq = toCenter.lengthSq() - projection * projection
+  const halfChordSq = radius * radius - distanceSq
+  if (halfChordSq < -FLOAT_TOL * radius) return []
+  const halfChord = Math.sqrt(Math.max(halfChordSq, 0))
+  const point = (t: number) =>
+    new AcGePoint2d(start.x + direction.x * t, start.y + direction.y * t)
+  return halfChord <= FLOAT_TOL
+    ? [point(projection)]
+    : [point(projection - halfChord), point(projection + halfChord)]
+}
+
+/**
+ * Return intersection points of two circles.
+ */
+function intersectCircles(
+  center1: AcGePoint2d,
+  radius1: number,
+  center2: AcGePoint2d,
+  radius2: number
+) {
+  const distance = center1.distanceTo(center2)
+  if (
+    distance <= FLOAT_TOL ||
+    distance > radius1 + radius2 + FLOAT_TOL ||
+    distance < Math.abs(radius1 - radius2) - FLOAT_TOL
+  ) {
+    return []
+  }
+  const a =
+    (radius1 * radius1 - radius2 * radius2 + distance * distance) /
+    (2 * distance)
+  const h = Math.sqrt(Math.max(radius1 * radius1 - a * a, 0))
+  const dx = (center2.x - center1.x) / distance
+  const dy = (center2.y - center1.y) / distance
+  const x = center1.x + dx * a
+  const y = center1.y + dy * a
+  return h <= FLOAT_TOL
+    ? [new AcGePoint2d(x, y)]
+    : [
+        new AcGePoint2d(x - dy * h, y + dx * h),
+        new AcGePoint2d(x + dy * h, y - dx * h)
+      ]
+}
@@ -0,0 +1,736 @@
+import { AcGeBox2d, AcGePoint2d, AcGeVector2d } from '../math'
+import { AcGeMathUtil, AcGeTol, TAU } from '../util'
+import { AcGeCircArc2d } from './AcGeCircArc2d'
+import { AcGeEllipseArc2d } from './AcGeEllipseArc2d'
+import { intersectCurves2d } from './AcGeIntersectionUtil'
+import { AcGeLine2d } from './AcGeLine2d'
+import { AcGeBoundaryEdgeType, AcGeLoop2d } from './AcGeLoop2d'
+import { AcGePolyline2d } from './AcGePolyline2d'
+
+/**
+ * One edge of the loop of one region. It is a line segment if its bulge is zero. Otherwise, it is
+ * a circular arc and its bulge is the tangent of one fourth of the included angle of the arc. The
+ * bulge is negative if the arc goes clockwise from the start point to the end point.
+ * @internal
+ */
+export interface AcGeRegionEdge {
+  start: AcGePoint2d
+  end: AcGePoint2d
+  bulge: number
+}
+
+/**
+ * Type of boolean operations on regions
+ * @internal
+ */
+export type AcGeRegionBooleanType = 'union' | 'intersect' | 'subtract' | 'xor'
+
+/**
+ * Position of one edge of one region relative to another region
+ */
+type AcGeRegionEdgeStatus = 'inside' | 'outside' | 'same' | 'opposite'
+
+/**
+ * Center, radius, start angle and signed included angle of one arc edge
+ */
+interface AcGeRegionArc {
+  center: AcGePoint2d
+  radius: number
+  startAngle: number
+  sweep: number
+}
+
+/**
+ * The maximum number of times to subdivide one parameter interval of one spline
+ */
+const MAX_SPLINE_SUBDIVISION_DEPTH = 10
+
+/**
+ * Convert one loop to edges of one region. Line segments and circular arcs are kept. Elliptical
+ * arcs and splines are approximated by line segments.
+ * @param loop Input the loop to convert
+ * @param maxDeviation Input the maximum distance between one approximated curve and its line
+ * segments
+ * @param tol Input the tolerance used to drop zero-length edges
+ * @returns Return edges connected end to end. The end point of the last edge is the start point of
+ * the first edge.
+ * @internal
+ */
+export function createLoopEdges(
+  loop: AcGeLoop2d | AcGePolyline2d,
+  maxDeviation: number,
+  tol: AcGeTol
+) {
+  const edges: AcGeRegionEdge[] = []
+  if (loop instanceof AcGePolyline2d) {
+    const vertices = loop.vertices
+    const count = vertices.length
+    for (let index = 0; index < count; ++index) {
+      const vertex = vertices[index]
+      const next = vertices[(index + 1) % count]
+      // The polyline is always closed when used as one loop. The bulge of the last vertex is used
+      // only if the polyline itself is closed.
+      const bulge = index < count - 1 || loop.closed ? vertex.bulge || 0 : 0
+      edges.push({
+        start: new AcGePoint2d(vertex.x, vertex.y),
+        end: new AcGePoint2d(next.x, next.y),
+        bulge
+      })
+    }
+  } else {
+    loop.curves.forEach(curve => {
+      let curveEdges = createCurveEdges(curve, maxDeviation)
+      if (curveEdges.length == 0) return
+      const last = edges[edges.length - 1]
+      // Curves of one loop may not have the same direction
+      if (
+        last &&
+        last.end.distanceTo(curveEdges[curveEdges.length - 1].end) <
+          last.end.distanceTo(curveEdges[0].start)
+      ) {
+        curveEdges = reverseEdges(curveEdges)
+      }
+      edges.push(...curveEdges)
+    })
+  }
+
+  // Remove gaps between curves so that the loop is closed exactly
+  const result = edges.filter(edge => !tol.equalPoint2d(edge.start, edge.end))
+  result.forEach((edge, index) => {
+    edge.start = result[(index + result.length - 1) % result.length].end.clone()
+  })
+  return result
+}
+
+/**
+ * Convert one curve of one loop to edges of one region
+ */
+function createCurveEdges(curve: AcGeBoundaryEdgeType, maxDeviation: number) {
+  const edges: AcGeRegionEdge[] = []
+  if (curve instanceof AcGeLine2d) {
+    edges.push({
+      start: new AcGePoint2d(curve.startPoint),
+      end: new AcGePoint2d(curve.endPoint),
+      bulge: 0
+    })
+  } else if (curve instanceof AcGeCircArc2d) {
+    const sign = curve.clockwise ? -1 : 1
+    if (curve.closed) {
+      // One full circle is split into two half circles because its bulge is infinite
+      const start = new AcGePoint2d(curve.startPoint)
+      const middle = new AcGePoint2d(curve.center).multiplyScalar(2).sub(start)
+      edges.push({ start, end: middle, bulge: sign })
+      edges.push({ start: middle.clone(), end: start.clone(), bulge: sign })
+    } else {
+      edges.push({
+        start: new AcGePoint2d(curve.startPoint),
+        end: new AcGePoint2d(curve.endPoint),
+        bulge: sign * Math.tan(curve.deltaAngle / 4)
+      })
+    }
+  } else if (curve instanceof AcGeEllipseArc2d) {
+    const sweep = curve.closed ? TAU : curve.deltaAngle
+    const ratio = Math.min(maxDeviation / curve.majorAxisRadius, 1)
+    const step = Math.min(2 * Math.acos(1 - ratio), Math.PI / 2)
+    const count = Math.max(Math.ceil(sweep / step), 2)
+    const points: AcGePoint2d[] = []
+    for (let index = 0; index <= count; ++index) {
+      points.push(curve.getPoint(index / count))
+    }
+    pushPolylineEdges(edges, points)
+  } else {
+    const knots = curve.knots
+    const startParam = curve.startParam
+    const endParam = curve.endParam
+    const params = [startParam]
+    knots.forEach(knot => {
+      if (knot > params[params.length - 1] && knot < endParam) {
+        params.push(knot)
+      }
+    })
+    params.push(endParam)
+
+    const getPoint = (param: number) => {
+      const point = curve.getPointAtParam(param)
+      return new AcGePoint2d(point.x, point.y)
+    }
+    const points = [getPoint(startParam)]
+    const subdivide = (
+      t0: number,
+      p0: AcGePoint2d,
+      t1: number,
+      p1: AcGePoint2d,
+      depth: number
+    ) => {
+      const t = (t0 + t1) / 2
+      const p = getPoint(t)
+      if (
+        depth < 2 ||
+        (depth < MAX_SPLINE_SUBDIVISION_DEPTH &&
+          getDistanceToSegment(p, p0, p1) > maxDeviation)
+      ) {
+        subdivide(t0, p0, t, p, depth + 1)
+        subdivide(t, p, t1, p1, depth + 1)
+      } else {
+        points.push(p1)
+      }
+    }
+    for (let index = 1; index < params.length; ++index) {
+      const t0 = params[index - 1]
+      const t1 = params[index]
+      subdivide(t0, points[points.length - 1], t1, getPoint(t1), 0)
+    }
+    pushPolylineEdges(edges, points)
+  }
+  return edges
+}
+
+/**
+ * Append line segments between consecutive points
+ */
+function pushPolylineEdges(edges: AcGeRegionEdge[], points: AcGePoint2d[]) {
+  for (let index = 1; index < points.length; ++index) {
+    edges.push({
+      start: points[index - 1].clone(),
+      end: points[index].clone(),
+      bulge: 0
+    })
+  }
+}
+
+/**
+ * Return the distance from one point to one line segment
+ */
+function getDistanceToSegment(
+  point: AcGePoint2d,
+  start: AcGePoint2d,
+  end: AcGePoint2d
+) {
+  const direction = new AcGeVector2d(end).sub(start)
+  const lengthSq = direction.lengthSq()
+  if (lengthSq == 0) return point.distanceTo(start)
+  const offset = new AcGeVector2d(point).sub(start)
+  const t = Math.max(0, Math.min(1, offset.dot(direction) / lengthSq))
+  return point.distanceTo(
+    new AcGePoint2d(start).add(direction.multiplyScalar(t))
+  )
+}
+
+/**
+ * Return edges in reversed order and with reversed direction
+ */
+function reverseEdges(edges: AcGeRegionEdge[]) {
+  return edges
+    .map(edge => ({ start: edge.end, end: edge.start, bulge: -edge.bulge }))
+    .reverse()
+}
+
+/**
+ * Return center, radius, start angle and signed included angle of one arc edge
+ */
+function getArc(edge: AcGeRegionEdge): AcGeRegionArc {
+  const { start, end, bulge } = edge
+  const dx = end.x - start.x
+  const dy = end.y - start.y
+  const chord = Math.sqrt(dx * dx + dy * dy)
+  const offset = (1 - bulge * bulge) / (4 * bulge)
+  const center = new AcGePoint2d(
+    (start.x + end.x) / 2 - dy * offset,
+    (start.y + end.y) / 2 + dx * offset
+  )
+  return {
+    center,
+    radius: (chord * (1 + bulge * bulge)) / (4 * Math.abs(bulge)),
+    startAngle: Math.atan2(start.y - center.y, start.x - center.x),
+    sweep: 4 * Math.atan(bulge)
+  }
+}
+
+/**
+ * Return the point on one edge. The parameter is 0 at the start point and 1 at the end point.
+ */
+function getPointAt(edge: AcGeRegionEdge, t: number) {
+  if (edge.bulge == 0) {
+    return new AcGePoint2d(
+      edge.start.x + (edge.end.x - edge.start.x) * t,
+      edge.start.y + (edge.end.y - edge.start.y) * t
+    )
+  }
+  const arc = getArc(edge)
+  const angle = arc.startAngle + arc.sweep * t
+  return new AcGePoint2d(
+    arc.center.x + arc.radius * Math.cos(angle),
+    arc.center.y + arc.radius * Math.sin(angle)
+  )
+}
+
+/**
+ * Return the parameter of one point on one edge. The parameter is 0 at the start point and 1 at
+ * the end point.
+ */
+function getParamAt(edge: AcGeRegionEdge, point: AcGePoint2d) {
+  if (edge.bulge == 0) {
+    const direction = new AcGeVector2d(edge.end).sub(edge.start)
+    return (
+      new AcGeVector2d(point).sub(edge.start).dot(direction) /
+      direction.lengthSq()
+    )
+  }
+  const arc = getArc(edge)
+  const angle = Math.atan2(point.y - arc.center.y, point.x - arc.center.x)
+  const delta =
+    arc.sweep > 0
+      ? AcGeMathUtil.normalizeAngle(angle - arc.startAngle)
+      : AcGeMathUtil.normalizeAngle(arc.startAngle - angle)
+  return delta / Math.abs(arc.sweep)
+}
+
+/**
+ * Return the tangent direction of one edge at its start point or its end point
+ */
+function getTangent(edge: AcGeRegionEdge, atEnd: boolean) {
+  const chord = new AcGeVector2d(edge.end).sub(edge.start)
+  if (edge.bulge == 0) return chord
+  // The angle between the chord and the tangent is half of the included angle
+  const angle = 2 * Math.atan(edge.bulge)
+  return chord.rotateAround({ x: 0, y: 0 }, atEnd ? angle : -angle)
+}
+
+/**
+ * Return the bounding box of one edge
+ */
+function getEdgeBox(edge: AcGeRegionEdge) {
+  const box = new AcGeBox2d().setFromPoints([edge.start, edge.end])
+  if (edge.bulge != 0) {
+    const arc = getArc(edge)
+    for (let index = 0; index < 4; ++index) {
+      const angle = (index * Math.PI) / 2
+      if (getParamAt(edge, getAngularPoint(arc, angle)) <= 1) {
+        box.expandByPoint(getAngularPoint(arc, angle))
+      }
+    }
+  }
+  return box
+}
+
+/**
+ * Return the point of one arc at the specified angle
+ */
+function getAngularPoint(arc: AcGeRegionArc, angle: number) {
+  return new AcGePoint2d(
+    arc.center.x + arc.radius * Math.cos(angle),
+    arc.center.y + arc.radius * Math.sin(angle)
+  )
+}
+
+/**
+ * Return the length of one edge
+ */
+function getEdgeLength(edge: AcGeRegionEdge) {
+  if (edge.bulge == 0) return edge.start.distanceTo(edge.end)
+  const arc = getArc(edge)
+  return Math.abs(arc.sweep) * arc.radius
+}
+
+/**
+ * Return the signed area and the first moments of area of one loop. The area is positive if the
+ * loop is counterclockwise.
+ * @param edges Input edges of one loop
+ * @returns Return the signed area and the first moments of area about the y axis and the x axis
+ * @internal
+ */
+export function getLoopMoments(edges: AcGeRegionEdge[]) {
+  let area = 0
+  let x = 0
+  let y = 0
+  edges.forEach(edge => {
+    const { start, end, bulge } = edge
+    const cross = start.x * end.y - end.x * start.y
+    area += cross / 2
+    x += ((start.x + end.x) * cross) / 6
+    y += ((start.y + end.y) * cross) / 6
+    if (bulge != 0) {
+      // Add the circular segment between the chord and the arc
+      const arc = getArc(edge)
+      const sweep = Math.abs(arc.sweep)
+      const segmentArea =
+        (Math.sign(bulge) * ((sweep - Math.sin(sweep)) * arc.radius ** 2)) / 2
+      const distance =
+        (4 * arc.radius * Math.sin(sweep / 2) ** 3) /
+        (3 * (sweep - Math.sin(sweep)))
+      const angle = arc.startAngle + arc.sweep / 2
+      area += segmentArea
+      x += segmentArea * (arc.center.x + distance * Math.cos(angle))
+      y += segmentArea * (arc.center.y + distance * Math.sin(angle))
+    }
+  })
+  return { area, x, y }
+}
+
+/**
+ * Return the total length of edges of one loop
+ * @param edges Input edges of one loop
+ * @returns Return the total length of edges
+ * @internal
+ */
+export function getLoopLength(edges: AcGeRegionEdge[]) {
+  return edges.reduce((length, edge) => length + getEdgeLength(edge), 0)
+}
+
+/**
+ * Return the number of times the ray from one point in the positive x direction crosses one edge.
+ * Crossings at end points are counted by the half-open rule so that each vertex is counted once.
+ */
+function countCrossings(edge: AcGeRegionEdge, point: AcGePoint2d) {
+  if (edge.bulge == 0) {
+    return countLineCrossings(edge.start, edge.end, point)
+  }
+
+  // Split the arc into pieces which are monotonic in the y direction
+  const arc = getArc(edge)
+  const params = [0]
+  const firstQuarter = Math.ceil((arc.startAngle - Math.PI / 2) / Math.PI)
+  for (let k = firstQuarter - 4; k <= firstQuarter + 4; ++k) {
+    const t = (Math.PI / 2 + k * Math.PI - arc.startAngle) / arc.sweep
+    if (t > 0 && t < 1) params.push(t)
+  }
+  params.sort((a, b) => a - b)
+  params.push(1)
+
+  let count = 0
+  for (let index = 1; index < params.length; ++index) {
+    const t0 = params[index - 1]
+    const t1 = params[index]
+    const p0 = index == 1 ? edge.start : getAngularPoint(arc, angleAt(arc, t0))
+    const p1 =
+      index == params.length - 1
+        ? edge.end
+        : getAngularPoint(arc, angleAt(arc, t1))
+    if (p0.y > point.y == p1.y > point.y) continue
+    const dy = point.y - arc.center.y
+    const dx = Math.sqrt(Math.max(arc.radius ** 2 - dy * dy, 0))
+    const side = Math.cos(angleAt(arc, (t0 + t1) / 2)) >= 0 ? 1 : -1
+    if (arc.center.x + side * dx > point.x) ++count
+  }
+  return count
+}
+
+/**
+ * Return the angle of one arc at the specified parameter
+ */
+function angleAt(arc: AcGeRegionArc, t: number) {
+  return arc.startAngle + arc.sweep * t
+}
+
+/**
+ * Return 1 if the ray from one point in the positive x direction crosses one line segment
+ */
+function countLineCrossings(
+  start: AcGePoint2d,
+  end: AcGePoint2d,
+  point: AcGePoint2d
+) {
+  if (start.y > point.y == end.y > point.y) return 0
+  const x =
+    start.x + ((point.y - start.y) * (end.x - start.x)) / (end.y - start.y)
+  return x > point.x ? 1 : 0
+}
+
+/**
+ * Return true if one point is inside the region bounded by the specified edges according to the
+ * even-odd rule
+ */
+function containsPoint(edges: AcGeRegionEdge[], point: AcGePoint2d) {
+  let count = 0
+  edges.forEach(edge => {
+    count += countCrossings(edge, point)
+  })
+  return count % 2 == 1
+}
+
+/**
+ * Orient loops of one region so that the region is always on the left side of its edges. That is,
+ * outer loops are counterclockwise and holes are clockwise. Loops nested in an odd number of other
+ * loops are holes.
+ * @param loops Input loops of one region
+ * @returns Return oriented loops
+ * @internal
+ */
+export function orientLoops(loops: AcGeRegionEdge[][]) {
+  return loops.map((edges, index) => {
+    const point = getPointAt(edges[0], 0.5)
+    let depth = 0
+    loops.forEach((other, otherIndex) => {
+      if (otherIndex != index && containsPoint(other, point)) ++depth
+    })
+    const area = getLoopMoments(edges).area
+    return (depth % 2 == 0) == area > 0 ? edges : reverseEdges(edges)
+  })
+}
+
+/**
+ * Split edges of two regions at their intersections
+ */
+function splitAtIntersections(
+  edges1: AcGeRegionEdge[],
+  edges2: AcGeRegionEdge[],
+  tol: AcGeTol
+) {
+  const points1: AcGePoint2d[][] = edges1.map(() => [])
+  const points2: AcGePoint2d[][] = edges2.map(() => [])
+  const boxes2 = edges2.map(edge =>
+    getEdgeBox(edge).expandByScalar(tol.equalPointTol)
+  )
+  edges1.forEach((edge1, index1) => {
+    const box1 = getEdgeBox(edge1).expandByScalar(tol.equalPointTol)
+    const curve1 = toCurve(edge1)
+    edges2.forEach((edge2, index2) => {
+      if (!box1.intersectsBox(boxes2[index2])) return
+      const points = intersectCurves2d(curve1, toCurve(edge2), 0, 0, tol)
+      points.forEach(point => {
+        // Use end points of edges if possible so that split edges are connected exactly
+        const snapped =
+          [edge1.start, edge1.end, edge2.start, edge2.end].find(p =>
+            tol.equalPoint2d(p, point)
+          ) ?? point
+        points1[index1].push(snapped)
+        points2[index2].push(snapped)
+      })
+    })
+  })
+  return [
+    edges1.flatMap((edge, index) => splitEdge(edge, points1[index], tol)),
+    edges2.flatMap((edge, index) => splitEdge(edge, points2[index], tol))
+  ]
+}
+
+/**
+ * Convert one edge to one 2d curve
+ */
+function toCurve(edge: AcGeRegionEdge) {
+  return edge.bulge == 0
+    ? new AcGeLine2d(edge.start, edge.end)
+    : new AcGeCircArc2d(edge.start, edge.end, edge.bulge)
+}
+
+/**
+ * Split one edge at the specified points on it
+ */
+function splitEdge(edge: AcGeRegionEdge, points: AcGePoint2d[], tol: AcGeTol) {
+  const splits = points
+    .filter(
+      point =>
+        !tol.equalPoint2d(point, edge.start) &&
+        !tol.equalPoint2d(point, edge.end)
+    )
+    .map(point => ({ point, t: getParamAt(edge, point) }))
+    .sort((a, b) => a.t - b.t)
+
+  const result: AcGeRegionEdge[] = []
+  const sweep = edge.bulge == 0 ? 0 : 4 * Math.atan(edge.bulge)
+  let start = edge.start
+  let t0 = 0
+  const push = (end: AcGePoint2d, t1: number) => {
+    result.push({ start, end, bulge: Math.tan((sweep * (t1 - t0)) / 4) })
+  }
+  splits.forEach(({ point, t }) => {
+    if (tol.equalPoint2d(point, start)) return
+    push(point, t)
+    start = point
+    t0 = t
+  })
+  push(edge.end, 1)
+  return result
+}
+
+/**
+ * Return the position of each edge relative to the region bounded by other edges
+ */
+function classifyEdges(
+  edges: AcGeRegionEdge[],
+  others: AcGeRegionEdge[],
+  tol: AcGeTol
+) {
+  const middles = others.map(edge => getPointAt(edge, 0.5))
+  return edges.map(edge => {
+    const middle = getPointAt(edge, 0.5)
+    for (let index = 0; index < others.length; ++index) {
+      const other = others[index]
+      if (!tol.equalPoint2d(middle, middles[index])) continue
+      if (
+        tol.equalPoint2d(edge.start, other.start) &&
+        tol.equalPoint2d(edge.end, other.end)
+      ) {
+        return 'same'
+      }
+      if (
+        tol.equalPoint2d(edge.start, other.end) &&
+        tol.equalPoint2d(edge.end, other.start)
+      ) {
+        return 'opposite'
+      }
+    }
+    return containsPoint(others, middle) ? 'inside' : 'outside'
+  }) as AcGeRegionEdgeStatus[]
+}
+
+/**
+ * Connect edges into closed loops. If there are more than one edge starting at the end of the
+ * current edge, the one making the leftmost turn is selected so that loops touching at one vertex
+ * are separated.
+ */
+function linkEdges(edges: AcGeRegionEdge[], tol: AcGeTol) {
+  const used: boolean[] = new Array(edges.length).fill(false)
+  const loops: AcGeRegionEdge[][] = []
+  for (let index = 0; index < edges.length; ++index) {
+    if (used[index]) continue
+    used[index] = true
+    const loop = [edges[index]]
+    let current = edges[index]
+    let closed = false
+    while (!(closed = tol.equalPoint2d(current.end, loop[0].start))) {
+      const incoming = getTangent(current, true)
+      let next = -1
+      let maxAngle = -Infinity
+      edges.forEach((edge, candidate) => {
+        if (used[candidate] || !tol.equalPoint2d(edge.start, current.end)) {
+          return
+        }
+        const outgoing = getTangent(edge, false)
+        const angle = Math.atan2(
+          incoming.cross(outgoing),
+          incoming.dot(outgoing)
+        )
+        if (angle > maxAngle) {
+          maxAngle = angle
+          next = candidate
+        }
+      })
+      if (next < 0) break
+      used[next] = true
+      current = edges[next]
+      loop.push(current)
+    }
+    if (closed) loops.push(mergeEdges(loop, tol))
+  }
+  return loops
+}
+
+/**
+ * Merge consecutive collinear line segments and consecutive arcs on the same circle
+ */
+function mergeEdges(edges: AcGeRegionEdge[], tol: AcGeTol) {
+  const result: AcGeRegionEdge[] = []
+  edges.forEach(edge => {
+    const last = result[result.length - 1]
+    const merged = last && mergeEdge(last, edge, tol)
+    if (merged) {
+      result[result.length - 1] = merged
+    } else {
+      result.push({ ...edge })
+    }
+  })
+  if (result.length > 1) {
+    const merged = mergeEdge(result[result.length - 1], result[0], tol)
+    if (merged) {
+      result[0] = merged
+      result.pop()
+    }
+  }
+  return result
+}
+
+/**
+ * Return one edge merged from two connected edges or undefined if they can't be merged
+ */
+function mergeEdge(
+  edge1: AcGeRegionEdge,
+  edge2: AcGeRegionEdge,
+  tol: AcGeTol
+): AcGeRegionEdge | undefined {
+  if (edge1.bulge == 0 && edge2.bulge == 0) {
+    const direction1 = new AcGeVector2d(edge1.end).sub(edge1.start)
+    const direction2 = new AcGeVector2d(edge2.end).sub(edge2.start)
+    if (
+      direction1.dot(direction2) > 0 &&
+      getDistanceToSegment(edge1.end, edge1.start, edge2.end) <=
+        tol.equalPointTol
+    ) {
+      return { start: edge1.start, end: edge2.end, bulge: 0 }
+    }
+  } else if (edge1.bulge * edge2.bulge > 0) {
+    const arc1 = getArc(edge1)
+    const arc2 = getArc(edge2)
+    const sweep = arc1.sweep + arc2.sweep
+    if (
+      tol.equalPoint2d(arc1.center, arc2.center) &&
+      Math.abs(arc1.radius - arc2.radius) <= tol.equalPointTol &&
+      Math.abs(sweep) < Math.PI * 1.5
+    ) {
+      return { start: edge1.start, end: edge2.end, bulge: Math.tan(sweep / 4) }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Compute one boolean operation on two regions. Each region is filled according to the even-odd
+ * rule. Arcs of input regions are kept as arcs in the result.
+ * @param loops1 Input loops of the first region
+ * @param loops2 Input loops of the second region
+ * @param type Input the type of the boolean operation. The second region is subtracted from the
+ * first region for 'subtract'.
+ * @param tol Input the tolerance used to compare points
+ * @returns Return loops of the resulting region. Outer loops are counterclockwise and holes are
+ * clockwise.
+ * @internal
+ */
+export function computeRegionBoolean(
+  loops1: AcGeRegionEdge[][],
+  loops2: AcGeRegionEdge[][],
+  type: AcGeRegionBooleanType,
+  tol: AcGeTol
+) {
+  const [edges1, edges2] = splitAtIntersections(
+    orientLoops(loops1).flat(),
+    orientLoops(loops2).flat(),
+    tol
+  )
+  const status1 = classifyEdges(edges1, edges2, tol)
+  const status2 = classifyEdges(edges2, edges1, tol)
+
+  // Edges kept as they are and edges kept with reversed direction for each
+  // status. Coincident edges are taken from the first region only.
+  const rules: Record<
+    AcGeRegionBooleanType,
+    Record<'first' | 'second', [AcGeRegionEdgeStatus[], AcGeRegionEdgeStatus[]]>
+  > = {
+    union: { first: [['outside', 'same'], []], second: [['outside'], []] },
+    intersect: { first: [['inside', 'same'], []], second: [['inside'], []] },
+    subtract: {
+      first: [['outside', 'opposite'], []],
+      second: [[], ['inside']]
+    },
+    xor: {
+      first: [['outside'], ['inside']],
+      second: [['outside'], ['inside']]
+    }
+  }
+  const selected: AcGeRegionEdge[] = []
+  const select = (
+    edges: AcGeRegionEdge[],
+    status: AcGeRegionEdgeStatus[],
+    rule: [AcGeRegionEdgeStatus[], AcGeRegionEdgeStatus[]]
+  ) => {
+    edges.forEach((edge, index) => {
+      if (rule[0].includes(status[index])) {
+        selected.push(edge)
+      } else if (rule[1].includes(status[index])) {
+        selected.push(...reverseEdges([edge]))
+      }
+    })
+  }
+  select(edges1, status1, rules[type].first)
+  select(edges2, status2, rules[type].second)
+  return linkEdges(selected, tol)
+}
@@ -6,9 +6,13 @@ import {
   AcGeMatrix3d,
   AcGePoint3d,
   AcGePoint3dLike,
-  AcGePointLike
+  AcGePointLike,
+  AcGeVector3d,
+  AcGeVector3dLike
 } from '../math'
+import { AcGeTol, DEFAULT_TOL } from '../util'
 import { AcGeCurve3d } from './AcGeCurve3d'
+import { sortParams } from './AcGeCurveUtil'
 import { AcGeKnotParameterizationType, AcGeNurbsCurve } from './AcGeNurbsCurve'
 
 export class AcGeSpline3d extends AcGeCurve3d {
@@ -193,26 +197,172 @@ export class AcGeSpline3d extends AcGeCurve3d {
     return this._knotParameterization
   }
 
+  /**
+   * The parameter of the start point of this spline
+   */
+  get startParam() {
+    const knots = this._nurbsCurve.knots()
+    return knots[this._nurbsCurve.degree()]
+  }
+
+  /**
+   * The parameter of the end point of this spline
+   */
+  get endParam() {
+    const knots = this._nurbsCurve.knots()
+    return knots[knots.length - this._nurbsCurve.degree() - 1]
+  }
+
   /**
    * The start point of this spline
    */
   get startPoint(): AcGePoint3d {
-    const knots = this._nurbsCurve.knots()
-    const degree = this._nurbsCurve.degree()
-    const startParam = knots[degree]
-    const startPoint = this._nurbsCurve.point(startParam)
-    return new AcGePoint3d(startPoint[0], startPoint[1], startPoint[2])
+    return this.getPointAtParam(this.startParam)
   }
 
   /**
    * The end point of this spline
    */
   get endPoint(): AcGePoint3d {
-    const knots = this._nurbsCurve.knots()
-    const degree = this._nurbsCurve.degree()
-    const endParam = knots[knots.length - degree - 1]
-    const endPoint = this._nurbsCurve.point(endParam)
-    return new AcGePoint3d(endPoint[0], endPoint[1], endPoint[2])
+    return this.getPointAtParam(this.endParam)
+  }
+
+  /**
+   * Return the point on this spline at the specified parameter.
+   * @param param Input the parameter in the range from start parameter to end parameter
+   * @returns Return the point on this spline at the specified parameter
+   */
+  getPointAtParam(param: number): AcGePoint3d {
+    const point = this._nurbsCurve.point(param)
+    return new AcGePoint3d(point[0], point[1], point[2])
+  }
+
+  /**
+   * Return the parameter of the point on this spline that is the closest to the specified point.
+   * @param point Input the point on this spline
+   * @returns Return the parameter of the specified point
+   */
+  getParamAtPoint(point: AcGePoint3dLike) {
+    return this._nurbsCurve.closestParam(this.toVerbPoints([point])[0])
+  }
+
+  /**
+   * Return the distance along this spline from the start point to the point at the specified
+   * parameter.
+   * @param param Input the parameter
+   * @returns Return the distance from the start point
+   */
+  getDistAtParam(param: number) {
+    return this._nurbsCurve.lengthAtParam(param)
+  }
+
+  /**
+   * Return the parameter of the point whose distance along this spline from the start point is
+   * equal to the specified distance.
+   * @param dist Input the distance from the start point
+   * @returns Return the parameter of the point
+   */
+  getParamAtDist(dist: number) {
+    return this._nurbsCurve.paramAtLength(dist)
+  }
+
+  /**
+   * Return the first derivative of this spline at the specified parameter.
+   * @param param Input the parameter
+   * @returns Return the first derivative
+   */
+  getFirstDeriv(param: number) {
+    const deriv = this._nurbsCurve.derivatives(param, 1)[1]
+    return new AcGeVector3d(deriv[0], deriv[1], deriv[2])
+  }
+
+  /**
+   * Return the point on this spline that is the closest to the specified point.
+   * @param point Input the point
+   * @returns Return the closest point
+   */
+  getClosestPointTo(point: AcGePoint3dLike) {
+    const closest = this._nurbsCurve.closestPoint(this.toVerbPoints([point])[0])
+    return new AcGePoint3d(closest[0], closest[1], closest[2])
+  }
+
+  /**
+   * The area of the planar region enclosed by this spline and the line segment from its end point
+   * to its start point. The spline is approximated by line segments.
+   */
+  get area() {
+    const points = this.getPoints(200)
+    const normal = new AcGeVector3d()
+    const origin = points[0]
+    for (let i = 2; i < points.length; ++i) {
+      normal.add(
+        _vector1
+          .subVectors(points[i - 1], origin)
+          .cross(_vector2.subVectors(points[i], origin))
+      )
+    }
+    return normal.length() / 2
+  }
+
+  /**
+   * Split this spline at the specified parameters. Parameters out of the range of this spline are
+   * ignored. Splines split from one closed spline are open splines.
+   * @param params Input parameters at which to split this spline
+   * @returns Return splines split from this spline in order
+   */
+  split(params: number[]) {
+    const sorted = sortParams(params, this.startParam, this.endParam)
+    const splines: AcGeSpline3d[] = []
+    let curve = this._nurbsCurve
+    for (let i = 1; i < sorted.length - 1; ++i) {
+      const [left, right] = curve.split(sorted[i])
+      splines.push(this.createSpline(left))
+      curve = right
+    }
+    splines.push(this.createSpline(curve))
+    return splines
+  }
+
+  /**
+   * Return the spline offset from this spline by the specified distance in the plane with the
+   * specified normal. The offset spline is approximated by one spline passing through points of
+   * the exact offset curve.
+   * @param distance Input the offset distance. Positive distance offsets this spline to its right
+   * side when looking from the direction of the normal.
+   * @param normal Input the normal of the plane in which this spline is offset
+   * @param tol Input the tolerance used to approximate the offset curve
+   * @returns Return the offset spline
+   */
+  getOffsetCurves(
+    distance: number,
+    normal: AcGeVector3dLike = AcGeVector3d.Z_AXIS,
+    tol: AcGeTol = DEFAULT_TOL
+  ) {
+    const offsetDirection = (param: number) =>
+      _vector1.crossVectors(this.getFirstDeriv(param), normal).normalize()
+    return [
+      AcGeSpline3d.approximate(
+        param =>
+          this.getPointAtParam(param).addScaledVector(
+            offsetDirection(param),
+            distance
+          ),
+        param => this.getFirstDeriv(param),
+        this.startParam,
+        this.endParam,
+        tol
+      )
+    ]
+  }
+
+  private createSpline(curve: verb.geom.NurbsCurve) {
+    return new AcGeSpline3d(
+      this.toGePoints(curve.controlPoints()),
+      curve.knots(),
+      curve.weights(),
+      curve.degree(),
+      false
+    )
   }
 
   /**
@@ -252,6 +402,34 @@ export class AcGeSpline3d extends AcGeCurve3d {
     return this._controlPoints[newIndex]
   }
 
+  /**
+   * The number of control points in this spline
+   */
+  get numControlPoints() {
+    return this._controlPoints.length
+  }
+
+  /**
+   * The number of fit points in this spline. Return 0 if this spline is defined by control points.
+   */
+  get numFitPoints() {
+    return this._fitPoints ? this._fitPoints.length : 0
+  }
+
+  /**
+   * The knot vector of the underlying NURBS curve
+   */
+  get knots(): number[] {
+    return this._nurbsCurve.knots()
+  }
+
+  /**
+   * The weights of control points of the underlying NURBS curve
+   */
+  get weights(): number[] {
+    return this._nurbsCurve.weights()
+  }
+
   /**
    * Divide this spline into the specified nubmer of points
    * those points as an array of points.
@@ -316,8 +494,24 @@ export class AcGeSpline3d extends AcGeCurve3d {
   /**
    * @inheritdoc
    */
-  transform(_matrix: AcGeMatrix3d) {
-    // TODO: Implement this method
+  transform(matrix: AcGeMatrix3d) {
+    // NURBS curve is invariant under affine transformation. So it is enough to
+    // transform control points and keep knots and weights unchanged.
+    const transformPoints = (points: AcGePoint3dLike[]) =>
+      points.map(point => {
+        const p = new AcGePoint3d(point).applyMatrix4(matrix)
+        return { x: p.x, y: p.y, z: p.z }
+      })
+    this._controlPoints = transformPoints(this._controlPoints)
+    if (this._fitPoints) {
+      this._fitPoints = transformPoints(this._fitPoints)
+    }
+    this._nurbsCurve = verb.geom.NurbsCurve.byKnotsControlPointsWeights(
+      this._degree,
+      this._nurbsCurve.knots(),
+      this.toVerbPoints(this._controlPoints),
+      this._nurbsCurve.weights()
+    )
     this._boundingBoxNeedsUpdate = true
     return this
   }
@@ -361,6 +555,60 @@ export class AcGeSpline3d extends AcGeCurve3d {
     return gePoints
   }
 
+  /**
+   * Create one spline approximating the specified parametric curve. The spline passes through
+   * points of the curve at evenly spaced parameters. The number of points is doubled until the
+   * deviation between the spline and the curve at the middle of adjacent points is within the
+   * tolerance.
+   * @param getPoint Input the function returning the point of the curve at one parameter
+   * @param getFirstDeriv Input the function returning the first derivative of the curve at one
+   * parameter
+   * @param startParam Input the start parameter of the curve
+   * @param endParam Input the end parameter of the curve
+   * @param tol Input the tolerance used to approximate the curve
+   * @returns Return the spline approximating the curve
+   */
+  static approximate(
+    getPoint: (param: number) => AcGePoint3d,
+    getFirstDeriv: (param: number) => AcGeVector3d,
+    startParam: number,
+    endParam: number,
+    tol: AcGeTol = DEFAULT_TOL
+  ) {
+    const maxCount = 1024
+    let count = 16
+    for (;;) {
+      const step = (endParam - startParam) / count
+      const fitPoints: AcGePoint3d[] = []
+      for (let i = 0; i <= count; ++i) {
+        fitPoints.push(getPoint(startParam + step * i))
+      }
+      const spline = new AcGeSpline3d(fitPoints, 'Chord')
+      if (count >= maxCount) return spline
+
+      // The spline passes through fit points at their normalized chord lengths
+      const chords = [0]
+      for (let i = 1; i <= count; ++i) {
+        chords.push(chords[i - 1] + fitPoints[i].distanceTo(fitPoints[i - 1]))
+      }
+      const total = chords[count]
+      let deviation = 0
+      for (let i = 0; i < count && total > 0; ++i) {
+        const param = startParam + step * (i + 0.5)
+        const tangent = getFirstDeriv(param).normalize()
+        const delta = _vector2.subVectors(
+          spline.getPointAtParam((chords[i] + chords[i + 1]) / 2 / total),
+          getPoint(param)
+        )
+        // Only the deviation perpendicular to the curve is counted
+        delta.addScaledVector(tangent, -delta.dot(tangent))
+        deviation = Math.max(deviation, delta.length())
+      }
+      if (deviation <= tol.equalPointTol) return spline
+      count *= 2
+    }
+  }
+
   /**
    * Create a closed spline from fit points using AcGeNurbsCurve.createClosedCurve
    * @param fitPoints - Array of fit points defining the curve
@@ -383,3 +631,6 @@ export class AcGeSpline3d extends AcGeCurve3d {
     return new AcGeSpline3d(fitPoints, parameterization, degree, true)
   }
 }
+
+const _vector1 = /*@__PURE__*/ new AcGeVector3d()
+const _vector2 = /*@__PURE__*/ new AcGeVector3d()
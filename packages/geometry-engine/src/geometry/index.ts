@@ -1,10 +1,12 @@
 export * from './AcGeArea2d'
 export * from './AcGeShape2d'
 export * from './AcGeCurve2d'
+export * from './AcGeCurve3d'
 export * from './AcGeCircArc2d'
 export * from './AcGeCircArc3d'
 export * from './AcGeEllipseArc2d'
 export * from './AcGeEllipseArc3d'
+export * from './AcGeIntersectionUtil'
 export * from './AcGePolyline2d'
 export * from './AcGeLine2d'
 export * from './AcGeLine3d'
@@ -156,6 +156,20 @@ export class AcGeMatrix2d {
     return this
   }
 
+  /**
+   * Set this matrix to the 2d transformation in xy plane of the Matrix4 m. The z-component of
+   * the transformation is ignored.
+   * @param m Input one 4x4 matrix
+   * @returns Return this matrix
+   */
+  setFromMatrix4InXYPlane(m: AcGeMatrix3d) {
+    const me = m.elements
+
+    this.set(me[0], me[4], me[12], me[1], me[5], me[13], 0, 0, 1)
+
+    return this
+  }
+
   /**
    * Post-multiplies this matrix by m.
    * @param m Input one 3x3 matrix
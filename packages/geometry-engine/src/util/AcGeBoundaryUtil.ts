@@ -0,0 +1,332 @@
+import { AcGeBox2d, AcGePoint2d, AcGePoint2dLike } from '../math'
+import { FLOAT_TOL } from './AcGeConstants'
+import { isPointInPolygon } from './AcGeGeometryUtil'
+
+/**
+ * The boundary of the region enclosing one point.
+ */
+export interface AcGeBoundary2d {
+  /**
+   * The outer loop of the region in counterclockwise order. The first point isn't repeated at
+   * the end.
+   */
+  outer: AcGePoint2d[]
+  /**
+   * Outer loops of islands inside the region in clockwise order. Islands nested in other islands
+   * are included too so that the region can be filled by the even-odd rule.
+   */
+  islands: AcGePoint2d[][]
+}
+
+/**
+ * One segment of input curves with parameters of its intersections with other segments
+ */
+interface AcGeBoundarySegment {
+  start: AcGePoint2d
+  end: AcGePoint2d
+  box: AcGeBox2d
+  params: number[]
+}
+
+/**
+ * One closed walk along edges of the planar graph
+ */
+interface AcGeBoundaryFace {
+  vertices: number[]
+  area: number
+  component: number
+}
+
+/**
+ * Finds the smallest region enclosing the specified point which is bounded by the specified
+ * curves. It works like BHATCH command in AutoCAD.
+ *
+ * Curves are split at their intersections to build one planar graph. Dangling edges are removed
+ * and each face of the graph is traced by always turning right at vertices. The smallest face
+ * containing the point is the outer loop of the region. Other connected parts of the graph
+ * inside the outer loop are islands.
+ *
+ * @param curves Input curves approximated by points. One closed curve should repeat its first
+ * point at the end.
+ * @param point Input the point inside the region
+ * @param detectIslands Input whether to find islands inside the region
+ * @returns Return the boundary of the region, or undefined if the point isn't enclosed
+ */
+function traceBoundary(
+  curves: AcGePoint2dLike[][],
+  point: AcGePoint2dLike,
+  detectIslands: boolean = true
+): AcGeBoundary2d | undefined {
+  const extents = new AcGeBox2d()
+  curves.forEach(curve => curve.forEach(p => extents.expandByPoint(p)))
+  if (extents.isEmpty()) return undefined
+  const size = extents.size
+  const tol = Math.max(FLOAT_TOL, Math.hypot(size.width, size.height) * 1e-9)
+
+  const segments = createSegments(curves, tol)
+  splitSegments(segments, tol)
+
+  // Merge vertices within the tolerance and build edges of the planar graph
+  const vertices: AcGePoint2d[] = []
+  const grid = new Map<string, number[]>()
+  const findVertex = (p: AcGePoint2d) => {
+    const cx = Math.floor(p.x / tol)
+    const cy = Math.floor(p.y / tol)
+    for (let i = cx - 1; i <= cx + 1; ++i) {
+      for (let j = cy - 1; j <= cy + 1; ++j) {
+        const cell = grid.get(`${i},${j}`)
+        const found = cell?.find(index => vertices[index].distanceTo(p) <= tol)
+        if (found != null) return found
+      }
+    }
+    const key = `${cx},${cy}`
+    const cell = grid.get(key) ?? []
+    cell.push(vertices.length)
+    grid.set(key, cell)
+    vertices.push(p)
+    return vertices.length - 1
+  }
+  const neighbors: Set<number>[] = []
+  segments.forEach(segment => {
+    const params = [0, 1, ...segment.params].sort((a, b) => a - b)
+    let previous = -1
+    params.forEach(t => {
+      const current = findVertex(
+        new AcGePoint2d(
+          segment.start.x + (segment.end.x - segment.start.x) * t,
+          segment.start.y + (segment.end.y - segment.start.y) * t
+        )
+      )
+      while (neighbors.length < vertices.length) neighbors.push(new Set())
+      if (previous >= 0 && previous !== current) {
+        neighbors[previous].add(current)
+        neighbors[current].add(previous)
+      }
+      previous = current
+    })
+  })
+  removeDanglingEdges(neighbors)
+
+  const faces = traceFaces(vertices, neighbors)
+  let outer: AcGeBoundaryFace | undefined
+  faces.forEach(face => {
+    if (
+      face.area > 0 &&
+      (!outer || face.area < outer.area) &&
+      isPointInPolygon(
+        point,
+        face.vertices.map(index => vertices[index])
+      )
+    ) {
+      outer = face
+    }
+  })
+  if (!outer) return undefined
+
+  const toPoints = (face: AcGeBoundaryFace) =>
+    face.vertices.map(index => vertices[index].clone())
+  const outerPoints = toPoints(outer)
+  const islands: AcGePoint2d[][] = []
+  if (detectIslands) {
+    // The outer loop of one connected part is its only face with negative area
+    const components = new Map<number, AcGeBoundaryFace>()
+    faces.forEach(face => {
+      if (face.area >= 0 || face.component === outer!.component) return
+      const existing = components.get(face.component)
+      if (!existing || face.area < existing.area) {
+        components.set(face.component, face)
+      }
+    })
+    components.forEach(face => {
+      if (isPointInPolygon(vertices[face.vertices[0]], outerPoints)) {
+        islands.push(toPoints(face))
+      }
+    })
+  }
+  return { outer: outerPoints, islands }
+}
+
+/**
+ * Converts curves to segments and skips segments shorter than the tolerance.
+ */
+function createSegments(curves: AcGePoint2dLike[][], tol: number) {
+  const segments: AcGeBoundarySegment[] = []
+  curves.forEach(curve => {
+    for (let i = 0; i < curve.length - 1; ++i) {
+      const start = new AcGePoint2d(curve[i])
+      const end = new AcGePoint2d(curve[i + 1])
+      if (start.distanceTo(end) > tol) {
+        segments.push({
+          start,
+          end,
+          box: new AcGeBox2d().setFromPoints([start, end]),
+          params: []
+        })
+      }
+    }
+  })
+  return segments
+}
+
+/**
+ * Computes intersections of segments and stores their parameters in segments. Segments are
+ * sorted by the minimum x-coordinate so that only segments overlapping along X axis are checked.
+ */
+function splitSegments(segments: AcGeBoundarySegment[], tol: number) {
+  segments.sort((a, b) => a.box.min.x - b.box.min.x)
+  const count = segments.length
+  for (let i = 0; i < count; ++i) {
+    const s1 = segments[i]
+    for (let j = i + 1; j < count; ++j) {
+      const s2 = segments[j]
+      if (s2.box.min.x > s1.box.max.x + tol) break
+      if (
+        s2.box.min.y > s1.box.max.y + tol ||
+        s2.box.max.y < s1.box.min.y - tol
+      ) {
+        continue
+      }
+      intersectSegments(s1, s2, tol)
+    }
+  }
+}
+
+function intersectSegments(
+  s1: AcGeBoundarySegment,
+  s2: AcGeBoundarySegment,
+  tol: number
+) {
+  const rx = s1.end.x - s1.start.x
+  const ry = s1.end.y - s1.start.y
+  const sx = s2.end.x - s2.start.x
+  const sy = s2.end.y - s2.start.y
+  const qx = s2.start.x - s1.start.x
+  const qy = s2.start.y - s1.start.y
+  const length1 = Math.hypot(rx, ry)
+  const length2 = Math.hypot(sx, sy)
+  const denominator = rx * sy - ry * sx
+
+  if (Math.abs(denominator) <= tol * Math.max(length1, length2)) {
+    // Parallel segments intersect only if they are collinear and overlapped
+    if (Math.abs(qx * ry - qy * rx) > tol * length1) return
+    addParam(s1, (qx * rx + qy * ry) / (length1 * length1), tol / length1)
+    addParam(
+      s1,
+      ((qx + sx) * rx + (qy + sy) * ry) / (length1 * length1),
+      tol / length1
+    )
+    addParam(s2, (-qx * sx - qy * sy) / (length2 * length2), tol / length2)
+    addParam(
+      s2,
+      ((rx - qx) * sx + (ry - qy) * sy) / (length2 * length2),
+      tol / length2
+    )
+    return
+  }
+
+  const t = (qx * sy - qy * sx) / denominator
+  const u = (qx * ry - qy * rx) / denominator
+  const tol1 = tol / length1
+  const tol2 = tol / length2
+  if (t >= -tol1 && t <= 1 + tol1 && u >= -tol2 && u <= 1 + tol2) {
+    addParam(s1, t, tol1)
+    addParam(s2, u, tol2)
+  }
+}
+
+/**
+ * Adds one parameter in the segment. Parameters at ends of the segment are ignored.
+ */
+function addParam(segment: AcGeBoundarySegment, t: number, tol: number) {
+  if (t > tol && t < 1 - tol) segment.params.push(t)
+}
+
+/**
+ * Removes edges which don't belong to any closed loop by removing vertices with one edge
+ * repeatedly.
+ */
+function removeDanglingEdges(neighbors: Set<number>[]) {
+  const stack: number[] = []
+  neighbors.forEach((set, index) => {
+    if (set.size === 1) stack.push(index)
+  })
+  while (stack.length > 0) {
+    const index = stack.pop()!
+    const set = neighbors[index]
+    if (set.size !== 1) continue
+    const other = set.values().next().value as number
+    set.clear()
+    neighbors[other].delete(index)
+    if (neighbors[other].size === 1) stack.push(other)
+  }
+}
+
+/**
+ * Traces all faces of the planar graph. When one walk reaches one vertex, it continues along the
+ * next edge clockwise from the edge it arrives. So bounded faces are traced counterclockwise
+ * and have positive area, and the outer boundary of each connected part is traced clockwise and
+ * has negative area.
+ */
+function traceFaces(vertices: AcGePoint2d[], neighbors: Set<number>[]) {
+  // Neighbors of each vertex sorted by angle counterclockwise
+  const sorted = neighbors.map((set, index) => {
+    const origin = vertices[index]
+    return Array.from(set).sort((a, b) => {
+      const pa = vertices[a]
+      const pb = vertices[b]
+      return (
+        Math.atan2(pa.y - origin.y, pa.x - origin.x) -
+        Math.atan2(pb.y - origin.y, pb.x - origin.x)
+      )
+    })
+  })
+  const visited = sorted.map(list => list.map(() => false))
+
+  // Connected parts of the graph found by union-find
+  const parents = vertices.map((_, index) => index)
+  const find = (index: number): number => {
+    while (parents[index] !== index) {
+      parents[index] = parents[parents[index]]
+      index = parents[index]
+    }
+    return index
+  }
+  sorted.forEach((list, index) => {
+    list.forEach(other => {
+      parents[find(index)] = find(other)
+    })
+  })
+
+  const faces: AcGeBoundaryFace[] = []
+  sorted.forEach((list, start) => {
+    list.forEach((_, startSlot) => {
+      if (visited[start][startSlot]) return
+      const face: number[] = []
+      let from = start
+      let slot = startSlot
+      while (!visited[from][slot]) {
+        visited[from][slot] = true
+        face.push(from)
+        const to = sorted[from][slot]
+        const toList = sorted[to]
+        const back = toList.indexOf(from)
+        slot = (back - 1 + toList.length) % toList.length
+        from = to
+      }
+      let area = 0
+      for (let i = 0, j = face.length - 1; i < face.length; j = i++) {
+        const p1 = vertices[face[j]]
+        const p2 = vertices[face[i]]
+        area += p1.x * p2.y - p2.x * p1.y
+      }
+      faces.push({ vertices: face, area: area / 2, component: find(start) })
+    })
+  })
+  return faces
+}
+
+const AcGeBoundaryUtil = {
+  traceBoundary: traceBoundary
+}
+
+export { traceBoundary, AcGeBoundaryUtil }
@@ -209,6 +209,64 @@ export function evaluateNurbsPoint(
   return point
 }
 
+/**
+ * Calculate the first derivative of NURBS curve with respect to parameter u
+ */
+export function evaluateNurbsDerivative(
+  u: number,
+  degree: number,
+  knots: number[],
+  controlPoints: number[][],
+  weights: number[]
+): number[] {
+  const n = controlPoints.length - 1
+  const p = degree
+  const start = knots[p]
+  const end = knots[n + 1]
+
+  // Basis functions are zero at the end of the domain because knot spans are
+  // half-open. So the derivative at the end is evaluated on its left side.
+  u = Math.max(start, Math.min(end - (end - start) * 1e-10, u))
+
+  const point = [0, 0, 0]
+  const derivative = [0, 0, 0]
+  let weight = 0
+  let weightDerivative = 0
+
+  for (let i = 0; i <= n; i++) {
+    const basis = basisFunction(i, p, u, knots)
+    let basisDerivative = 0
+    if (p > 0) {
+      const d1 = knots[i + p] - knots[i]
+      const d2 = knots[i + p + 1] - knots[i + 1]
+      if (d1 > 1e-10) {
+        basisDerivative += (p / d1) * basisFunction(i, p - 1, u, knots)
+      }
+      if (d2 > 1e-10) {
+        basisDerivative -= (p / d2) * basisFunction(i + 1, p - 1, u, knots)
+      }
+    }
+    const w = weights[i] * basis
+    const wd = weights[i] * basisDerivative
+
+    for (let k = 0; k < 3; k++) {
+      point[k] += controlPoints[i][k] * w
+      derivative[k] += controlPoints[i][k] * wd
+    }
+    weight += w
+    weightDerivative += wd
+  }
+
+  if (weight < 1e-10) {
+    return [0, 0, 0]
+  }
+
+  // Quotient rule: C'(u) = (A'(u) - W'(u) * C(u)) / W(u)
+  return derivative.map(
+    (value, k) => (value - (weightDerivative * point[k]) / weight) / weight
+  )
+}
+
 /**
  * Calculate curve length using numerical integration
  */
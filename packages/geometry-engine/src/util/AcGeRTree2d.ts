@@ -0,0 +1,715 @@
+import { AcGeBox2d, AcGePoint2dLike } from '../math'
+
+/**
+ * Axis-aligned rectangle stored in nodes and entries of the R-tree
+ */
+interface AcGeRTreeRect {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+/**
+ * Leaf entry of the R-tree
+ */
+interface AcGeRTreeEntry<T> extends AcGeRTreeRect {
+  item: T
+}
+
+/**
+ * Node of the R-tree. Children of leaf nodes are entries. The height of leaf nodes is 1.
+ */
+interface AcGeRTreeNode<T> extends AcGeRTreeRect {
+  children: Array<AcGeRTreeNode<T> | AcGeRTreeEntry<T>>
+  leaf: boolean
+  height: number
+}
+
+/**
+ * Item and its bounding box used to load items into the R-tree
+ */
+export interface AcGeRTreeItem<T> {
+  item: T
+  box: AcGeBox2d
+}
+
+/**
+ * The class representing one 2d R-tree used to find items by their bounding boxes quickly. Each
+ * item can be stored only once. Inserting one item which is already in the tree updates its
+ * bounding box.
+ *
+ * Nodes are split by the R*-tree split algorithm and bulk loading is done by the
+ * Overlap Minimizing Top-down (OMT) algorithm.
+ */
+export class AcGeRTree2d<T> {
+  private _maxEntries: number
+  private _minEntries: number
+  private _root: AcGeRTreeNode<T>
+  private _entries: Map<T, AcGeRTreeEntry<T>>
+
+  /**
+   * Create one empty R-tree
+   * @param maxEntries Input the maximum number of children of one node. Larger values make
+   * insertion faster and queries slower.
+   */
+  constructor(maxEntries: number = 9) {
+    this._maxEntries = Math.max(4, maxEntries)
+    this._minEntries = Math.max(2, Math.ceil(this._maxEntries * 0.4))
+    this._root = createNode([])
+    this._entries = new Map()
+  }
+
+  /**
+   * The number of items in this tree
+   */
+  get size() {
+    return this._entries.size
+  }
+
+  /**
+   * Return true if the specified item is in this tree
+   * @param item Input the item to check
+   * @returns Return true if the specified item is in this tree
+   */
+  has(item: T) {
+    return this._entries.has(item)
+  }
+
+  /**
+   * Return the bounding box of the specified item
+   * @param item Input the item
+   * @returns Return the bounding box of the item or undefined if it isn't in this tree
+   */
+  getBox(item: T) {
+    const entry = this._entries.get(item)
+    if (entry) {
+      return new AcGeBox2d(
+        { x: entry.minX, y: entry.minY },
+        { x: entry.maxX, y: entry.maxY }
+      )
+    }
+    return undefined
+  }
+
+  /**
+   * Insert one item into this tree. If the item is already in this tree, its bounding box is
+   * updated.
+   * @param item Input the item to insert
+   * @param box Input the bounding box of the item
+   * @returns Return this tree
+   */
+  insert(item: T, box: AcGeBox2d) {
+    const old = this._entries.get(item)
+    if (old) {
+      if (
+        old.minX == box.min.x &&
+        old.minY == box.min.y &&
+        old.maxX == box.max.x &&
+        old.maxY == box.max.y
+      ) {
+        return this
+      }
+      this.removeEntry(old)
+    }
+    const entry = createEntry(item, box)
+    this._entries.set(item, entry)
+    this.insertEntry(entry, this._root.height - 1)
+    return this
+  }
+
+  /**
+   * Insert many items into this tree. It is much faster than inserting items one by one if this
+   * tree is empty, and queries on the resulting tree are faster too.
+   * @param items Input items and their bounding boxes
+   * @returns Return this tree
+   */
+  load(items: AcGeRTreeItem<T>[]) {
+    if (this._entries.size > 0 || items.length < this._minEntries) {
+      items.forEach(({ item, box }) => this.insert(item, box))
+      return this
+    }
+
+    items.forEach(({ item, box }) => {
+      this._entries.set(item, createEntry(item, box))
+    })
+    const entries = Array.from(this._entries.values())
+    this._root = this.build(entries, 0, entries.length - 1, 0)
+    return this
+  }
+
+  /**
+   * Remove one item from this tree
+   * @param item Input the item to remove
+   * @returns Return true if the item is removed. Return false if it isn't in this tree.
+   */
+  remove(item: T) {
+    const entry = this._entries.get(item)
+    if (!entry) return false
+    this._entries.delete(item)
+    this.removeEntry(entry)
+    return true
+  }
+
+  /**
+   * Remove all items from this tree
+   * @returns Return this tree
+   */
+  clear() {
+    this._root = createNode([])
+    this._entries.clear()
+    return this
+  }
+
+  /**
+   * Return all items in this tree
+   * @returns Return all items in this tree
+   */
+  all() {
+    return Array.from(this._entries.keys())
+  }
+
+  /**
+   * Return items whose bounding boxes intersect the specified box. Bounding boxes touching the
+   * specified box are considered intersecting.
+   * @param box Input the box to search
+   * @param filter Input one optional function to exclude items from the result
+   * @returns Return found items in no particular order
+   */
+  search(box: AcGeBox2d, filter?: (item: T) => boolean) {
+    const rect = toRect(box)
+    const result: T[] = []
+    if (!intersects(rect, this._root)) return result
+
+    const stack: AcGeRTreeNode<T>[] = [this._root]
+    let node: AcGeRTreeNode<T> | undefined
+    while ((node = stack.pop())) {
+      for (let i = 0; i < node.children.length; ++i) {
+        const child = node.children[i]
+        if (!intersects(rect, child)) continue
+        if (node.leaf) {
+          const item = (child as AcGeRTreeEntry<T>).item
+          if (!filter || filter(item)) result.push(item)
+        } else {
+          stack.push(child as AcGeRTreeNode<T>)
+        }
+      }
+    }
+    return result
+  }
+
+  /**
+   * Return items nearest to the specified point. The distance from the point to one item is the
+   * distance from the point to the bounding box of the item. It is zero if the point is inside
+   * the bounding box.
+   * @param point Input the point to search from
+   * @param count Input the maximum number of items to return
+   * @param maxDistance Input the maximum distance from the point to returned items
+   * @param filter Input one optional function to exclude items from the result
+   * @returns Return found items sorted by their distances to the point
+   */
+  nearest(
+    point: AcGePoint2dLike,
+    count: number = 1,
+    maxDistance: number = Infinity,
+    filter?: (item: T) => boolean
+  ) {
+    const result: T[] = []
+    if (count <= 0 || this._entries.size == 0) return result
+
+    const maxDistanceSq = maxDistance * maxDistance
+    const queue = new AcGeRTreeQueue<AcGeRTreeNode<T> | AcGeRTreeEntry<T>>()
+    let node: AcGeRTreeNode<T> | undefined = this._root
+    while (node) {
+      for (let i = 0; i < node.children.length; ++i) {
+        const child = node.children[i]
+        const distanceSq = getDistanceSq(point, child)
+        if (distanceSq <= maxDistanceSq) queue.push(child, distanceSq)
+      }
+
+      // Entries popped from the queue are nearer than all remaining nodes and entries
+      node = undefined
+      while (queue.length > 0) {
+        const next = queue.pop()!
+        if ('item' in next) {
+          if (!filter || filter(next.item)) {
+            result.push(next.item)
+            if (result.length == count) return result
+          }
+        } else {
+          node = next
+          break
+        }
+      }
+    }
+    return result
+  }
+
+  private insertEntry(
+    entry: AcGeRTreeNode<T> | AcGeRTreeEntry<T>,
+    level: number
+  ) {
+    const path: AcGeRTreeNode<T>[] = []
+    const node = this.chooseSubtree(entry, this._root, level, path)
+    node.children.push(entry)
+    extend(node, entry)
+
+    // Split overflowed nodes from the bottom up
+    while (level >= 0 && path[level].children.length > this._maxEntries) {
+      this.split(path, level)
+      --level
+    }
+    for (let i = level; i >= 0; --i) {
+      extend(path[i], entry)
+    }
+  }
+
+  /**
+   * Find the node at the specified level whose bounding box needs the least enlargement to
+   * include the specified rectangle
+   */
+  private chooseSubtree(
+    rect: AcGeRTreeRect,
+    node: AcGeRTreeNode<T>,
+    level: number,
+    path: AcGeRTreeNode<T>[]
+  ) {
+    for (;;) {
+      path.push(node)
+      if (node.leaf || path.length - 1 == level) break
+
+      let minArea = Infinity
+      let minEnlargement = Infinity
+      let target: AcGeRTreeNode<T> | undefined
+      for (let i = 0; i < node.children.length; ++i) {
+        const child = node.children[i] as AcGeRTreeNode<T>
+        const area = getArea(child)
+        const enlargement = getEnlargedArea(rect, child) - area
+        if (
+          enlargement < minEnlargement ||
+          (enlargement == minEnlargement && area < minArea)
+        ) {
+          minEnlargement = enlargement
+          minArea = Math.min(area, minArea)
+          target = child
+        }
+      }
+      node = target || (node.children[0] as AcGeRTreeNode<T>)
+    }
+    return node
+  }
+
+  /**
+   * Split one overflowed node into two nodes
+   */
+  private split(path: AcGeRTreeNode<T>[], level: number) {
+    const node = path[level]
+    const count = node.children.length
+    const min = this._minEntries
+
+    this.chooseSplitAxis(node, min, count)
+    const index = this.chooseSplitIndex(node, min, count)
+
+    const newNode = createNode(node.children.splice(index))
+    newNode.height = node.height
+    newNode.leaf = node.leaf
+    calculateRect(node)
+    calculateRect(newNode)
+
+    if (level > 0) {
+      path[level - 1].children.push(newNode)
+    } else {
+      this._root = createNode([node, newNode])
+      this._root.height = node.height + 1
+      this._root.leaf = false
+      calculateRect(this._root)
+    }
+  }
+
+  /**
+   * Sort children of one node along the axis with the smallest total margin of distributions
+   */
+  private chooseSplitAxis(node: AcGeRTreeNode<T>, min: number, count: number) {
+    const xMargin = this.getDistributionMargin(node, min, count, compareMinX)
+    const yMargin = this.getDistributionMargin(node, min, count, compareMinY)
+    if (xMargin < yMargin) node.children.sort(compareMinX)
+  }
+
+  /**
+   * Return the index at which children of one node are split with the least overlap
+   */
+  private chooseSplitIndex(node: AcGeRTreeNode<T>, min: number, count: number) {
+    let index = count - min
+    let minOverlap = Infinity
+    let minArea = Infinity
+    for (let i = min; i <= count - min; ++i) {
+      const rect1 = getChildrenRect(node, 0, i)
+      const rect2 = getChildrenRect(node, i, count)
+      const overlap = getIntersectionArea(rect1, rect2)
+      const area = getArea(rect1) + getArea(rect2)
+      if (overlap < minOverlap) {
+        minOverlap = overlap
+        index = i
+        minArea = Math.min(area, minArea)
+      } else if (overlap == minOverlap && area < minArea) {
+        minArea = area
+        index = i
+      }
+    }
+    return index
+  }
+
+  /**
+   * Return the total margin of all possible distributions of children sorted by one compare
+   * function
+   */
+  private getDistributionMargin(
+    node: AcGeRTreeNode<T>,
+    min: number,
+    count: number,
+    compare: (a: AcGeRTreeRect, b: AcGeRTreeRect) => number
+  ) {
+    node.children.sort(compare)
+    const left = getChildrenRect(node, 0, min)
+    const right = getChildrenRect(node, count - min, count)
+    let margin = getMargin(left) + getMargin(right)
+    for (let i = min; i < count - min; ++i) {
+      extend(left, node.children[i])
+      margin += getMargin(left)
+    }
+    for (let i = count - min - 1; i >= min; --i) {
+      extend(right, node.children[i])
+      margin += getMargin(right)
+    }
+    return margin
+  }
+
+  private removeEntry(entry: AcGeRTreeEntry<T>) {
+    // Depth-first search of the leaf node containing the entry
+    const path: AcGeRTreeNode<T>[] = []
+    const indices: number[] = []
+    let node: AcGeRTreeNode<T> | undefined = this._root
+    let parent: AcGeRTreeNode<T> | undefined
+    let index = 0
+    let goingUp = false
+    while (node || path.length > 0) {
+      if (!node) {
+        node = path.pop()!
+        parent = path[path.length - 1]
+        index = indices.pop()!
+        goingUp = true
+      }
+
+      if (node.leaf) {
+        const entryIndex = node.children.indexOf(entry)
+        if (entryIndex >= 0) {
+          node.children.splice(entryIndex, 1)
+          path.push(node)
+          this.condense(path)
+          return
+        }
+      }
+
+      if (!goingUp && !node.leaf && contains(node, entry)) {
+        path.push(node)
+        indices.push(index)
+        index = 0
+        parent = node
+        node = node.children[0] as AcGeRTreeNode<T>
+      } else if (parent) {
+        ++index
+        node = parent.children[index] as AcGeRTreeNode<T> | undefined
+        goingUp = false
+      } else {
+        node = undefined
+      }
+    }
+  }
+
+  /**
+   * Remove empty nodes and update bounding boxes along the path
+   */
+  private condense(path: AcGeRTreeNode<T>[]) {
+    for (let i = path.length - 1; i >= 0; --i) {
+      if (path[i].children.length == 0) {
+        if (i > 0) {
+          const siblings = path[i - 1].children
+          siblings.splice(siblings.indexOf(path[i]), 1)
+        } else {
+          this._root = createNode([])
+        }
+      } else {
+        calculateRect(path[i])
+      }
+    }
+  }
+
+  /**
+   * Build one subtree from entries in the range [left, right]
+   */
+  private build(
+    entries: AcGeRTreeEntry<T>[],
+    left: number,
+    right: number,
+    height: number
+  ): AcGeRTreeNode<T> {
+    const count = right - left + 1
+    let max = this._maxEntries
+    if (count <= max) {
+      const node = createNode(entries.slice(left, right + 1))
+      calculateRect(node)
+      return node
+    }
+
+    if (!height) {
+      // Target height of the tree and the number of children of the root
+      height = Math.ceil(Math.log(count) / Math.log(max))
+      max = Math.ceil(count / Math.pow(max, height - 1))
+    }
+
+    const node = createNode<T>([])
+    node.leaf = false
+    node.height = height
+
+    // Split entries into vertical slices and then into horizontal tiles
+    const count2 = Math.ceil(count / max)
+    const count1 = count2 * Math.ceil(Math.sqrt(max))
+    multiSelect(entries, left, right, count1, compareMinX)
+    for (let i = left; i <= right; i += count1) {
+      const right2 = Math.min(i + count1 - 1, right)
+      multiSelect(entries, i, right2, count2, compareMinY)
+      for (let j = i; j <= right2; j += count2) {
+        const right3 = Math.min(j + count2 - 1, right2)
+        node.children.push(this.build(entries, j, right3, height - 1))
+      }
+    }
+    calculateRect(node)
+    return node
+  }
+}
+
+/**
+ * Binary min-heap used to visit nodes and entries by their distances
+ */
+class AcGeRTreeQueue<T> {
+  private _items: T[] = []
+  private _keys: number[] = []
+
+  get length() {
+    return this._items.length
+  }
+
+  push(item: T, key: number) {
+    const items = this._items
+    const keys = this._keys
+    let pos = items.length
+    items.push(item)
+    keys.push(key)
+    while (pos > 0) {
+      const parent = (pos - 1) >> 1
+      if (keys[parent] <= key) break
+      items[pos] = items[parent]
+      keys[pos] = keys[parent]
+      pos = parent
+    }
+    items[pos] = item
+    keys[pos] = key
+  }
+
+  pop() {
+    const items = this._items
+    const keys = this._keys
+    if (items.length == 0) return undefined
+    const top = items[0]
+    const lastItem = items.pop()!
+    const lastKey = keys.pop()!
+    const length = items.length
+    if (length > 0) {
+      let pos = 0
+      const half = length >> 1
+      while (pos < half) {
+        let child = 2 * pos + 1
+        if (child + 1 < length && keys[child + 1] < keys[child]) ++child
+        if (keys[child] >= lastKey) break
+        items[pos] = items[child]
+        keys[pos] = keys[child]
+        pos = child
+      }
+      items[pos] = lastItem
+      keys[pos] = lastKey
+    }
+    return top
+  }
+}
+
+function createNode<T>(
+  children: Array<AcGeRTreeNode<T> | AcGeRTreeEntry<T>>
+): AcGeRTreeNode<T> {
+  return {
+    children,
+    height: 1,
+    leaf: true,
+    minX: Infinity,
+    minY: Infinity,
+    maxX: -Infinity,
+    maxY: -Infinity
+  }
+}
+
+function createEntry<T>(item: T, box: AcGeBox2d): AcGeRTreeEntry<T> {
+  return { item, ...toRect(box) }
+}
+
+function toRect(box: AcGeBox2d): AcGeRTreeRect {
+  return {
+    minX: box.min.x,
+    minY: box.min.y,
+    maxX: box.max.x,
+    maxY: box.max.y
+  }
+}
+
+function calculateRect<T>(node: AcGeRTreeNode<T>) {
+  const rect = getChildrenRect(node, 0, node.children.length)
+  node.minX = rect.minX
+  node.minY = rect.minY
+  node.maxX = rect.maxX
+  node.maxY = rect.maxY
+}
+
+function getChildrenRect<T>(
+  node: AcGeRTreeNode<T>,
+  start: number,
+  end: number
+): AcGeRTreeRect {
+  const rect = {
+    minX: Infinity,
+    minY: Infinity,
+    maxX: -Infinity,
+    maxY: -Infinity
+  }
+  for (let i = start; i < end; ++i) {
+    extend(rect, node.children[i])
+  }
+  return rect
+}
+
+function extend(a: AcGeRTreeRect, b: AcGeRTreeRect) {
+  a.minX = Math.min(a.minX, b.minX)
+  a.minY = Math.min(a.minY, b.minY)
+  a.maxX = Math.max(a.maxX, b.maxX)
+  a.maxY = Math.max(a.maxY, b.maxY)
+  return a
+}
+
+function compareMinX(a: AcGeRTreeRect, b: AcGeRTreeRect) {
+  return a.minX - b.minX
+}
+
+function compareMinY(a: AcGeRTreeRect, b: AcGeRTreeRect) {
+  return a.minY - b.minY
+}
+
+function getArea(a: AcGeRTreeRect) {
+  return (a.maxX - a.minX) * (a.maxY - a.minY)
+}
+
+function getMargin(a: AcGeRTreeRect) {
+  return a.maxX - a.minX + (a.maxY - a.minY)
+}
+
+function getEnlargedArea(a: AcGeRTreeRect, b: AcGeRTreeRect) {
+  return (
+    (Math.max(b.maxX, a.maxX) - Math.min(b.minX, a.minX)) *
+    (Math.max(b.maxY, a.maxY) - Math.min(b.minY, a.minY))
+  )
+}
+
+function getIntersectionArea(a: AcGeRTreeRect, b: AcGeRTreeRect) {
+  const minX = Math.max(a.minX, b.minX)
+  const minY = Math.max(a.minY, b.minY)
+  const maxX = Math.min(a.maxX, b.maxX)
+  const maxY = Math.min(a.maxY, b.maxY)
+  return Math.max(0, maxX - minX) * Math.max(0, maxY - minY)
+}
+
+function contains(a: AcGeRTreeRect, b: AcGeRTreeRect) {
+  return (
+    a.minX <= b.minX && a.minY <= b.minY && b.maxX <= a.maxX && b.maxY <= a.maxY
+  )
+}
+
+function intersects(a: AcGeRTreeRect, b: AcGeRTreeRect) {
+  return (
+    b.minX <= a.maxX && b.minY <= a.maxY && b.maxX >= a.minX && b.maxY >= a.minY
+  )
+}
+
+function getDistanceSq(point: AcGePoint2dLike, rect: AcGeRTreeRect) {
+  const dx = Math.max(rect.minX - point.x, 0, point.x - rect.maxX)
+  const dy = Math.max(rect.minY - point.y, 0, point.y - rect.maxY)
+  return dx * dx + dy * dy
+}
+
+/**
+ * Partially sort items in the range [left, right] so that they are split into groups of n items
+ * and items in one group are not greater than items in the next group
+ */
+function multiSelect<T>(
+  items: T[],
+  left: number,
+  right: number,
+  n: number,
+  compare: (a: T, b: T) => number
+) {
+  const stack = [left, right]
+  while (stack.length > 0) {
+    right = stack.pop()!
+    left = stack.pop()!
+    if (right - left <= n) continue
+    const middle = left + Math.ceil((right - left) / n / 2) * n
+    quickSelect(items, middle, left, right, compare)
+    stack.push(left, middle, middle, right)
+  }
+}
+
+/**
+ * Rearrange items in the range [left, right] so that the k-th item is at its sorted position,
+ * items before it are not greater and items after it are not less
+ */
+function quickSelect<T>(
+  items: T[],
+  k: number,
+  left: number,
+  right: number,
+  compare: (a: T, b: T) => number
+) {
+  while (right > left) {
+    const pivot = items[k]
+    let i = left
+    let j = right
+    swap(items, left, k)
+    if (compare(items[right], pivot) > 0) swap(items, left, right)
+    while (i < j) {
+      swap(items, i, j)
+      ++i
+      --j
+      while (compare(items[i], pivot) < 0) ++i
+      while (compare(items[j], pivot) > 0) --j
+    }
+    if (compare(items[left], pivot) == 0) {
+      swap(items, left, j)
+    } else {
+      ++j
+      swap(items, j, right)
+    }
+    if (j <= k) left = j + 1
+    if (k <= j) right = j - 1
+  }
+}
+
+function swap<T>(items: T[], i: number, j: number) {
+  const item = items[i]
+  items[i] = items[j]
+  items[j] = item
+}
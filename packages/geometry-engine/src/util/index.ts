@@ -1,5 +1,7 @@
+export * from './AcGeBoundaryUtil'
 export * from './AcGeConstants'
 export * from './AcGeGeometryUtil'
 export * from './AcGeMathUtil'
 export * from './AcGeNurbsUtil'
+export * from './AcGeRTree2d'
 export * from './AcGeTol'
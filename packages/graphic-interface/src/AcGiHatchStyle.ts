@@ -7,6 +7,29 @@ export interface AcGiHatchPatternLine {
   dashPattern: number[]
 }
 
+/**
+ * Gradient fill of hatches
+ */
+export interface AcGiHatchGradient {
+  /**
+   * The gradient pattern name. Predefined names are 'LINEAR', 'CYLINDER', 'INVCYLINDER',
+   * 'SPHERICAL', 'INVSPHERICAL', 'HEMISPHERICAL', 'INVHEMISPHERICAL', 'CURVED' and 'INVCURVED'.
+   */
+  name: string
+  /**
+   * The gradient angle in radians
+   */
+  angle: number
+  /**
+   * The shift of the gradient center in the range [0, 1]. 0 means the gradient is centered.
+   */
+  shift: number
+  /**
+   * RGB values of the start color and the end color
+   */
+  colors: [number, number]
+}
+
 /**
  * Hatch style
  */
@@ -14,4 +37,9 @@ export interface AcGiHatchStyle {
   solidFill: boolean
   patternAngle: number
   patternLines: AcGiHatchPatternLine[]
+  /**
+   * The gradient fill. If it is set, the area is filled with the gradient instead of the solid
+   * color or pattern lines.
+   */
+  gradient?: AcGiHatchGradient
 }
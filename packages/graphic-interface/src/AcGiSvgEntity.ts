@@ -0,0 +1,150 @@
+import {
+  AcGeBox3d,
+  AcGeMatrix3d,
+  AcGePoint3d
+} from '@mlightcad/geometry-engine'
+
+import { AcGiEntity } from './AcGiEntity'
+
+/**
+ * Information passed to markup builders of SVG entities when serializing them.
+ */
+export interface AcGiSvgRenderContext {
+  /**
+   * Height of the area (in drawing units) of the whole SVG document. Sizes which
+   * are relative to the drawing area (such as point size) are computed from it.
+   */
+  height: number
+  /**
+   * Generates one id which is unique in the whole SVG document.
+   */
+  nextId(): string
+}
+
+/**
+ * Function to build SVG markup of one SVG entity in its local coordinate system.
+ */
+export type AcGiSvgMarkupBuilder = (context: AcGiSvgRenderContext) => string
+
+/**
+ * Display object created by {@link AcGiSvgRenderer}.
+ *
+ * One SVG entity is either one leaf which holds markup of one primitive, or one
+ * group which holds child entities. Its markup is built when serializing the
+ * entity so that it doesn't depend on any DOM API.
+ */
+export class AcGiSvgEntity implements AcGiEntity {
+  basePoint: AcGePoint3d | undefined
+  objectId: string = ''
+  ownerId: string = ''
+  layerName: string = ''
+  visible: boolean = true
+  userData: object = {}
+  private _markup?: AcGiSvgMarkupBuilder
+  private _box: AcGeBox3d
+  private _children: AcGiSvgEntity[]
+  private _matrix?: AcGeMatrix3d
+  private _highlighted: boolean = false
+
+  /**
+   * Creates one SVG entity.
+   *
+   * @param markup - Builder of markup of this entity. It is undefined for groups.
+   * @param box - Bounding box of the markup in local coordinate system
+   * @param children - Child entities of this entity
+   */
+  constructor(
+    markup: AcGiSvgMarkupBuilder | undefined,
+    box: AcGeBox3d,
+    children: AcGiSvgEntity[] = []
+  ) {
+    this._markup = markup
+    this._box = box
+    this._children = children
+  }
+
+  /**
+   * Builder of markup of this entity. It is undefined for groups.
+   */
+  get markup() {
+    return this._markup
+  }
+
+  /**
+   * Child entities of this entity
+   */
+  get children(): ReadonlyArray<AcGiSvgEntity> {
+    return this._children
+  }
+
+  /**
+   * Transformation applied to this entity. It is undefined if no transformation
+   * is applied.
+   */
+  get matrix() {
+    return this._matrix
+  }
+
+  /**
+   * Return true if this entity is highlighted.
+   */
+  get highlighted() {
+    return this._highlighted
+  }
+
+  /**
+   * Bounding box of this entity and its children with transformation of this
+   * entity applied
+   */
+  get box(): AcGeBox3d {
+    const box = this._box.clone()
+    this._children.forEach(child => {
+      if (child.visible) box.union(child.box)
+    })
+    if (this._matrix && !box.isEmpty()) box.applyMatrix4(this._matrix)
+    return box
+  }
+
+  /**
+   * @inheritdoc
+   */
+  applyMatrix(matrix: AcGeMatrix3d) {
+    this._matrix = this._matrix
+      ? this._matrix.clone().premultiply(matrix)
+      : matrix.clone()
+  }
+
+  /**
+   * @inheritdoc
+   */
+  highlight() {
+    this._highlighted = true
+  }
+
+  /**
+   * @inheritdoc
+   */
+  unhighlight() {
+    this._highlighted = false
+  }
+
+  /**
+   * @inheritdoc
+   */
+  fastDeepClone(): AcGiSvgEntity {
+    const clone = new AcGiSvgEntity(
+      this._markup,
+      this._box.clone(),
+      this._children.map(child => child.fastDeepClone())
+    )
+    clone.basePoint = this.basePoint?.clone()
+    clone.objectId = this.objectId
+    clone.ownerId = this.ownerId
+    clone.layerName = this.layerName
+    clone.visible = this.visible
+    clone.userData = { ...this.userData }
+    clone._matrix = this._matrix?.clone()
+    clone._highlighted = this._highlighted
+    return clone
+  }
+}
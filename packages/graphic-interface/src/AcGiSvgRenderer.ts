@@ -0,0 +1,771 @@
+import { AcCmColor, AcCmColorMethod, AcCmTransparency } from '@mlightcad/common'
+import {
+  AcGeArea2d,
+  AcGeBox2d,
+  AcGeBox3d,
+  AcGeCircArc3d,
+  AcGeEllipseArc3d,
+  AcGeMatrix3d,
+  AcGePoint3d,
+  AcGePoint3dLike,
+  TAU
+} from '@mlightcad/geometry-engine'
+
+import { AcGiHatchGradient, AcGiHatchPatternLine } from './AcGiHatchStyle'
+import { AcGiImageStyle } from './AcGiImageStyle'
+import { AcGiLineWeight } from './AcGiLineWeight'
+import { AcGiPointStyle } from './AcGiPointStyle'
+import { AcGiFontMapping, AcGiRenderer } from './AcGiRenderer'
+import { AcGiSubEntityTraits } from './AcGiSubEntityTraits'
+import {
+  AcGiSvgEntity,
+  AcGiSvgMarkupBuilder,
+  AcGiSvgRenderContext
+} from './AcGiSvgEntity'
+import {
+  AcGiMTextAttachmentPoint,
+  AcGiMTextData,
+  AcGiTextStyle
+} from './AcGiTextStyle'
+
+/**
+ * Options to serialize SVG entities to one SVG document.
+ */
+export interface AcGiSvgOptions {
+  /**
+   * Value of attribute 'width' of the root 'svg' element. It is omitted if not
+   * specified.
+   */
+  width?: number | string
+  /**
+   * Value of attribute 'height' of the root 'svg' element. It is omitted if not
+   * specified.
+   */
+  height?: number | string
+  /**
+   * Background color in CSS format. The background is transparent if not specified.
+   */
+  background?: string
+  /**
+   * Margin (in drawing units) around the extents of the entities. Default value
+   * is 0.
+   */
+  margin?: number
+}
+
+/**
+ * Number of segments used to approximate one arc of boundaries of areas
+ */
+const ARC_SEGMENTS = 32
+
+/**
+ * Maximum number of lines generated for one line family of one hatch pattern.
+ * Line families which need more lines are skipped to avoid huge output.
+ */
+const MAX_HATCH_LINES = 5000
+
+/**
+ * Line weight (in 100ths of a millimeter) used for lines whose line weight is
+ * 'ByLayer', 'ByBlock' or default
+ */
+const DEFAULT_LINE_WEIGHT = 25
+
+/**
+ * Renderer to draw entities as SVG markup.
+ *
+ * It doesn't depend on any DOM API. So it can be used in Node.js, for example,
+ * to generate thumbnails of drawings. Entities drawn by this renderer are
+ * serialized to one SVG document by method {@link toSvg}.
+ *
+ * Geometries are written in world coordinate system. The y-axis is flipped by
+ * the root group so that the drawing isn't upside down.
+ *
+ * @example
+ * ```typescript
+ * const renderer = new AcGiSvgRenderer();
+ * const entities: AcGiSvgEntity[] = [];
+ * for (const entity of db.tables.blockTable.modelSpace.newIterator()) {
+ *   const object = entity.draw(renderer);
+ *   if (object) entities.push(object as AcGiSvgEntity);
+ * }
+ * const svg = await renderer.toSvg(entities, { background: '#000' });
+ * ```
+ */
+export class AcGiSvgRenderer implements AcGiRenderer<AcGiSvgEntity> {
+  basePoint: AcGePoint3d | undefined
+  private _subEntityTraits: AcGiSubEntityTraits
+  private _fontMapping: AcGiFontMapping
+  private _pendingImages: Promise<void>[]
+
+  /**
+   * Creates one SVG renderer.
+   */
+  constructor() {
+    this._subEntityTraits = {
+      rgbColor: 0xffffff,
+      color: new AcCmColor(AcCmColorMethod.ByLayer),
+      lineType: {
+        type: 'ByLayer',
+        name: '',
+        standardFlag: 0,
+        description: '',
+        totalPatternLength: 0
+      },
+      lineTypeScale: 1,
+      lineWeight: AcGiLineWeight.ByLayer,
+      fillType: {
+        solidFill: false,
+        patternAngle: 0,
+        patternLines: []
+      },
+      transparency: new AcCmTransparency(),
+      thickness: 0,
+      layer: '0'
+    }
+    this._fontMapping = {}
+    this._pendingImages = []
+  }
+
+  /**
+   * @inheritdoc
+   */
+  get subEntityTraits() {
+    return this._subEntityTraits
+  }
+
+  /**
+   * @inheritdoc
+   */
+  group(entities: AcGiSvgEntity[]) {
+    return new AcGiSvgEntity(undefined, new AcGeBox3d(), entities)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  point(point: AcGePoint3d, style: AcGiPointStyle) {
+    const x = point.x
+    const y = point.y
+    const stroke = this.strokeAttributes()
+    const mode = style.displayMode
+    const box = new AcGeBox3d().setFromPoints([point])
+    return this.createEntity(context => {
+      let size = style.displaySize
+      if (size === 0) {
+        size = context.height * 0.05
+      } else if (size < 0) {
+        size = (context.height * -size) / 100
+      }
+      const half = size / 2
+      let d = ''
+      switch (mode & 0x0f) {
+        case 0:
+          d = `M${fmt(x)} ${fmt(y)}h0`
+          break
+        case 2:
+          d = `M${fmt(x - half)} ${fmt(y)}h${fmt(size)}M${fmt(x)} ${fmt(y - half)}v${fmt(size)}`
+          break
+        case 3:
+          d = `M${fmt(x - half)} ${fmt(y - half)}l${fmt(size)} ${fmt(size)}M${fmt(x - half)} ${fmt(y + half)}l${fmt(size)} ${fmt(-size)}`
+          break
+        case 4:
+          d = `M${fmt(x)} ${fmt(y)}v${fmt(half)}`
+          break
+      }
+      let markup = d
+        ? `<path d="${d}" fill="none" stroke-linecap="round"${stroke}/>`
+        : ''
+      if (mode & 32) {
+        markup += `<circle cx="${fmt(x)}" cy="${fmt(y)}" r="${fmt(half)}" fill="none"${stroke}/>`
+      }
+      if (mode & 64) {
+        markup += `<rect x="${fmt(x - half)}" y="${fmt(y - half)}" width="${fmt(size)}" height="${fmt(size)}" fill="none"${stroke}/>`
+      }
+      return markup
+    }, box)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  circularArc(arc: AcGeCircArc3d) {
+    const stroke = this.strokeAttributes()
+    const center = arc.center
+    let markup: string
+    if (!this.isInXYPlane(arc.normal)) {
+      markup = this.polylineMarkup(arc.getPoints(ARC_SEGMENTS), stroke)
+    } else if (arc.closed || arc.deltaAngle >= TAU) {
+      markup = `<circle cx="${fmt(center.x)}" cy="${fmt(center.y)}" r="${fmt(arc.radius)}" fill="none"${stroke}/>`
+    } else {
+      const start = arc.startPoint
+      const end = arc.endPoint
+      const sweep = arc.normal.z > 0 ? 1 : 0
+      const radius = fmt(arc.radius)
+      const d = `M${fmt(start.x)} ${fmt(start.y)}A${radius} ${radius} 0 ${arc.isLargeArc} ${sweep} ${fmt(end.x)} ${fmt(end.y)}`
+      markup = `<path d="${d}" fill="none"${stroke}/>`
+    }
+    return this.createEntity(() => markup, arc.box.clone())
+  }
+
+  /**
+   * @inheritdoc
+   */
+  ellipticalArc(ellipseArc: AcGeEllipseArc3d) {
+    const stroke = this.strokeAttributes()
+    const center = ellipseArc.center
+    const majorAxis = ellipseArc.majorAxis
+    const rotation = (Math.atan2(majorAxis.y, majorAxis.x) * 180) / Math.PI
+    const rx = fmt(ellipseArc.majorAxisRadius)
+    const ry = fmt(ellipseArc.minorAxisRadius)
+    let markup: string
+    if (!this.isInXYPlane(ellipseArc.normal)) {
+      markup = this.polylineMarkup(ellipseArc.getPoints(ARC_SEGMENTS), stroke)
+    } else if (ellipseArc.closed || ellipseArc.deltaAngle >= TAU) {
+      markup = `<ellipse cx="${fmt(center.x)}" cy="${fmt(center.y)}" rx="${rx}" ry="${ry}" transform="rotate(${fmt(rotation)} ${fmt(center.x)} ${fmt(center.y)})" fill="none"${stroke}/>`
+    } else {
+      const start = ellipseArc.startPoint
+      const end = ellipseArc.endPoint
+      const sweep = ellipseArc.normal.z > 0 ? 1 : 0
+      const d = `M${fmt(start.x)} ${fmt(start.y)}A${rx} ${ry} ${fmt(rotation)} ${ellipseArc.isLargeArc} ${sweep} ${fmt(end.x)} ${fmt(end.y)}`
+      markup = `<path d="${d}" fill="none"${stroke}/>`
+    }
+    return this.createEntity(() => markup, ellipseArc.box.clone())
+  }
+
+  /**
+   * @inheritdoc
+   */
+  lines(points: AcGePoint3dLike[]) {
+    const markup = this.polylineMarkup(points, this.strokeAttributes())
+    const box = new AcGeBox3d().setFromPoints(points)
+    return this.createEntity(() => markup, box)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  lineSegments(array: Float32Array, itemSize: number, indices: Uint16Array) {
+    const box = new AcGeBox3d()
+    const point = new AcGePoint3d()
+    let d = ''
+    for (let i = 0; i + 1 < indices.length; i += 2) {
+      for (let j = 0; j < 2; ++j) {
+        const offset = indices[i + j] * itemSize
+        point.set(array[offset], array[offset + 1], 0)
+        box.expandByPoint(point)
+        d += `${j === 0 ? 'M' : 'L'}${fmt(point.x)} ${fmt(point.y)}`
+      }
+    }
+    const markup = `<path d="${d}" fill="none"${this.strokeAttributes()}/>`
+    return this.createEntity(() => markup, box)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  area(area: AcGeArea2d) {
+    const fillType = this.subEntityTraits.fillType
+    const boundaries = area.getPoints(ARC_SEGMENTS)
+    const d = boundaries
+      .filter(points => points.length > 1)
+      .map(points => this.pathData(points) + 'Z')
+      .join('')
+    const area2dBox = area.box
+    const box = new AcGeBox3d(
+      { x: area2dBox.min.x, y: area2dBox.min.y, z: 0 },
+      { x: area2dBox.max.x, y: area2dBox.max.y, z: 0 }
+    )
+
+    if (fillType.gradient) {
+      const gradient = fillType.gradient
+      const opacity = this.opacityAttribute()
+      return this.createEntity(context => {
+        const id = context.nextId()
+        return (
+          this.gradientMarkup(gradient, area2dBox, id) +
+          `<path d="${d}" fill="url(#${id})" fill-rule="evenodd" stroke="none"${opacity}/>`
+        )
+      }, box)
+    }
+
+    if (fillType.solidFill) {
+      const color = this.colorAttribute()
+      const opacity = this.opacityAttribute()
+      const markup = `<path d="${d}" fill="${color}" fill-rule="evenodd" stroke="none"${opacity}/>`
+      return this.createEntity(() => markup, box)
+    }
+
+    // Draw pattern lines clipped by boundaries of the area
+    const stroke = this.strokeAttributes(false)
+    const lines = fillType.patternLines
+      .map(line => this.patternLineMarkup(line, box, stroke))
+      .join('')
+    return this.createEntity(context => {
+      const id = context.nextId()
+      return (
+        `<clipPath id="${id}"><path d="${d}" clip-rule="evenodd"/></clipPath>` +
+        `<g clip-path="url(#${id})">${lines}</g>`
+      )
+    }, box)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  mtext(mtext: AcGiMTextData, style: AcGiTextStyle, _delay?: boolean) {
+    const lines = this.plainText(mtext.text).split('\n')
+    const height =
+      mtext.height || style.fixedTextHeight || style.lastHeight || 1
+    const lineHeight = height * (mtext.lineSpaceFactor ?? 1) * (5 / 3)
+    const widthFactor = mtext.widthFactor ?? (style.widthFactor || 1)
+    let rotation = mtext.rotation ?? 0
+    if (mtext.directionVector) {
+      const direction = mtext.directionVector
+      if (direction.x !== 0 || direction.y !== 0) {
+        rotation = Math.atan2(direction.y, direction.x)
+      }
+    }
+
+    // Compute text anchor and position of the first baseline based on
+    // attachment point in the coordinate system of the text (y-axis down).
+    const attachment = mtext.attachmentPoint ?? AcGiMTextAttachmentPoint.TopLeft
+    const column = (attachment - 1) % 3
+    const row = Math.floor((attachment - 1) / 3)
+    const anchor = ['start', 'middle', 'end'][column]
+    const totalHeight = height + (lines.length - 1) * lineHeight
+    const firstBaseline = [
+      height,
+      height - totalHeight / 2,
+      height - totalHeight
+    ][row]
+
+    const font = this.fontFamily(style)
+    const position = mtext.position
+    const transform = `translate(${fmt(position.x)} ${fmt(position.y)}) rotate(${fmt((rotation * 180) / Math.PI)}) scale(${fmt(widthFactor)} -1)`
+    const tspans = lines
+      .map(
+        (line, index) =>
+          `<tspan x="0" y="${fmt(firstBaseline + index * lineHeight)}">${escapeXml(line)}</tspan>`
+      )
+      .join('')
+    const markup = `<text transform="${transform}" font-size="${fmt(height)}" font-family="${escapeXml(font)}" text-anchor="${anchor}" fill="${this.colorAttribute()}" stroke="none"${this.opacityAttribute()} xml:space="preserve">${tspans}</text>`
+
+    // Estimate extents of the text because fonts aren't available here
+    const width =
+      mtext.width ||
+      Math.max(...lines.map(line => line.length)) * height * widthFactor * 0.8
+    const left = -[0, 0.5, 1][column] * width
+    const top = -firstBaseline + height
+    const corners = [
+      { x: left, y: top },
+      { x: left + width, y: top },
+      { x: left, y: top - totalHeight },
+      { x: left + width, y: top - totalHeight }
+    ].map(corner => {
+      const cos = Math.cos(rotation)
+      const sin = Math.sin(rotation)
+      return {
+        x: position.x + corner.x * cos - corner.y * sin,
+        y: position.y + corner.x * sin + corner.y * cos,
+        z: position.z || 0
+      }
+    })
+    return this.createEntity(
+      () => markup,
+      new AcGeBox3d().setFromPoints(corners)
+    )
+  }
+
+  /**
+   * @inheritdoc
+   */
+  image(blob: Blob, style: AcGiImageStyle) {
+    const box = new AcGeBox3d().setFromPoints(style.boundary)
+    const opacity = this.opacityAttribute()
+    const clip = this.pathData(style.boundary) + 'Z'
+    const origin = style.boundary[0] ?? box.min
+    const rotation = (style.roation * 180) / Math.PI
+    let href = ''
+    this._pendingImages.push(
+      readAsDataUrl(blob).then(
+        url => {
+          href = url
+        },
+        () => {
+          href = ''
+        }
+      )
+    )
+    return this.createEntity(context => {
+      if (!href) return ''
+      const id = context.nextId()
+      const width = box.max.x - box.min.x
+      const height = box.max.y - box.min.y
+      // Images are flipped back because the y-axis of the drawing is flipped
+      return (
+        `<clipPath id="${id}"><path d="${clip}"/></clipPath>` +
+        `<g clip-path="url(#${id})" transform="rotate(${fmt(rotation)} ${fmt(origin.x)} ${fmt(origin.y)})">` +
+        `<image href="${escapeXml(href)}" transform="translate(${fmt(box.min.x)} ${fmt(box.max.y)}) scale(1 -1)" width="${fmt(width)}" height="${fmt(height)}" preserveAspectRatio="none"${opacity}/>` +
+        '</g>'
+      )
+    }, box)
+  }
+
+  /**
+   * @inheritdoc
+   */
+  setFontMapping(mapping: AcGiFontMapping) {
+    this._fontMapping = { ...mapping }
+  }
+
+  /**
+   * Serializes the specified entities to one SVG document. The view box of the
+   * document is the extents of the entities.
+   *
+   * Images are embedded as data URLs which are read asynchronously from their
+   * blobs. So this method is asynchronous.
+   *
+   * @param entities - Entities created by this renderer
+   * @param options - Options to serialize entities
+   * @returns The content of the SVG document
+   */
+  async toSvg(entities: AcGiSvgEntity[], options: AcGiSvgOptions = {}) {
+    await Promise.all(this._pendingImages)
+    this._pendingImages = []
+
+    const box = new AcGeBox3d()
+    entities.forEach(entity => {
+      if (entity.visible) box.union(entity.box)
+    })
+    if (box.isEmpty()) box.set({ x: 0, y: 0, z: 0 }, { x: 1, y: 1, z: 0 })
+    const margin = options.margin ?? 0
+    const minX = box.min.x - margin
+    const maxY = box.max.y + margin
+    const width = Math.max(box.max.x - box.min.x + margin * 2, 1e-6)
+    const height = Math.max(box.max.y - box.min.y + margin * 2, 1e-6)
+
+    let id = 0
+    const context: AcGiSvgRenderContext = {
+      height,
+      nextId: () => `acgi-${++id}`
+    }
+    const content = entities
+      .map(entity => this.entityMarkup(entity, context))
+      .join('')
+
+    let attributes = `xmlns="http://www.w3.org/2000/svg" viewBox="${fmt(minX)} ${fmt(-maxY)} ${fmt(width)} ${fmt(height)}"`
+    if (options.width != null) attributes += ` width="${options.width}"`
+    if (options.height != null) attributes += ` height="${options.height}"`
+    const background = options.background
+      ? `<rect x="${fmt(minX)}" y="${fmt(-maxY)}" width="${fmt(width)}" height="${fmt(height)}" fill="${escapeXml(options.background)}"/>`
+      : ''
+    return `<svg ${attributes}>${background}<g transform="scale(1 -1)" stroke-linejoin="round">${content}</g></svg>`
+  }
+
+  private createEntity(markup: AcGiSvgMarkupBuilder, box: AcGeBox3d) {
+    const entity = new AcGiSvgEntity(markup, box)
+    entity.basePoint = this.basePoint?.clone()
+    entity.layerName = this.subEntityTraits.layer
+    return entity
+  }
+
+  private entityMarkup(
+    entity: AcGiSvgEntity,
+    context: AcGiSvgRenderContext
+  ): string {
+    if (!entity.visible) return ''
+    let content = entity.markup ? entity.markup(context) : ''
+    entity.children.forEach(child => {
+      content += this.entityMarkup(child, context)
+    })
+    if (!content) return ''
+
+    let attributes = ''
+    if (entity.matrix) {
+      attributes += ` transform="${this.matrixAttribute(entity.matrix)}"`
+    }
+    if (entity.objectId) {
+      attributes += ` data-object-id="${escapeXml(String(entity.objectId))}"`
+    }
+    if (entity.highlighted) attributes += ' class="highlighted"'
+    return attributes ? `<g${attributes}>${content}</g>` : content
+  }
+
+  private matrixAttribute(matrix: AcGeMatrix3d) {
+    const te = matrix.elements
+    return `matrix(${[te[0], te[1], te[4], te[5], te[12], te[13]].map(fmt).join(' ')})`
+  }
+
+  private isInXYPlane(normal: AcGePoint3dLike) {
+    return Math.abs(Math.abs(normal.z) - 1) < 1e-9
+  }
+
+  private pathData(points: { x: number; y: number }[]) {
+    return points
+      .map(
+        (point, index) =>
+          `${index === 0 ? 'M' : 'L'}${fmt(point.x)} ${fmt(point.y)}`
+      )
+      .join('')
+  }
+
+  private polylineMarkup(points: AcGePoint3dLike[], stroke: string) {
+    if (points.length === 0) return ''
+    return `<path d="${this.pathData(points)}" fill="none"${stroke}/>`
+  }
+
+  /**
+   * Generates lines of one line family of one hatch pattern which cover the
+   * specified bounding box.
+   */
+  private patternLineMarkup(
+    line: AcGiHatchPatternLine,
+    box: AcGeBox3d,
+    stroke: string
+  ) {
+    const angle = (line.angle * Math.PI) / 180
+    const dx = Math.cos(angle)
+    const dy = Math.sin(angle)
+    // Distance between two adjacent lines and shift along the line direction
+    const spacing = line.delta.x * -dy + line.delta.y * dx
+    const shift = line.delta.x * dx + line.delta.y * dy
+    if (Math.abs(spacing) < 1e-10) return ''
+
+    // Project corners of the box onto the line direction and its normal
+    const corners = [
+      { x: box.min.x, y: box.min.y },
+      { x: box.max.x, y: box.min.y },
+      { x: box.min.x, y: box.max.y },
+      { x: box.max.x, y: box.max.y }
+    ]
+    let minT = Infinity
+    let maxT = -Infinity
+    let minN = Infinity
+    let maxN = -Infinity
+    corners.forEach(corner => {
+      const x = corner.x - line.origin.x
+      const y = corner.y - line.origin.y
+      const t = x * dx + y * dy
+      const n = x * -dy + y * dx
+      minT = Math.min(minT, t)
+      maxT = Math.max(maxT, t)
+      minN = Math.min(minN, n)
+      maxN = Math.max(maxN, n)
+    })
+    const first = Math.ceil(Math.min(minN / spacing, maxN / spacing))
+    const last = Math.floor(Math.max(minN / spacing, maxN / spacing))
+    if (last - first + 1 > MAX_HATCH_LINES) return ''
+
+    const dashes = this.dashArray(line.dashPattern)
+    const period = dashes.reduce((sum, value) => sum + value, 0)
+    let d = ''
+    for (let k = first; k <= last; ++k) {
+      // Start point of the line is aligned with the dash pattern
+      const offset = k * shift
+      let start = minT - offset
+      if (period > 0) start = Math.floor(start / period) * period
+      start += offset
+      const x0 = line.origin.x + k * spacing * -dy + start * dx
+      const y0 = line.origin.y + k * spacing * dx + start * dy
+      const length = maxT - start
+      d += `M${fmt(x0)} ${fmt(y0)}l${fmt(length * dx)} ${fmt(length * dy)}`
+    }
+    if (!d) return ''
+    const dashArray =
+      dashes.length > 0
+        ? ` stroke-dasharray="${dashes.map(fmt).join(' ')}"`
+        : ''
+    return `<path d="${d}" fill="none"${stroke}${dashArray}/>`
+  }
+
+  /**
+   * Generates one SVG gradient approximating one gradient fill of hatches. Linear and cylinder
+   * gradients are converted to linear gradients and the others are converted to radial gradients.
+   * Two colors are swapped for gradients whose names start with 'INV'.
+   */
+  private gradientMarkup(
+    gradient: AcGiHatchGradient,
+    box: AcGeBox2d,
+    id: string
+  ) {
+    let name = gradient.name.toUpperCase()
+    let [first, second] = gradient.colors.map(
+      color => '#' + (color & 0xffffff).toString(16).padStart(6, '0')
+    )
+    if (name.startsWith('INV')) {
+      name = name.substring(3)
+      ;[first, second] = [second, first]
+    }
+
+    const dx = Math.cos(gradient.angle)
+    const dy = Math.sin(gradient.angle)
+    const width = box.max.x - box.min.x
+    const height = box.max.y - box.min.y
+    const half = (Math.abs(dx) * width + Math.abs(dy) * height) / 2
+    // The center is moved along the gradient direction by the shift
+    const cx = (box.min.x + box.max.x) / 2 + dx * gradient.shift * half
+    const cy = (box.min.y + box.max.y) / 2 + dy * gradient.shift * half
+    const stop = (offset: number, color: string) =>
+      `<stop offset="${fmt(offset)}" stop-color="${color}"/>`
+
+    if (name === 'LINEAR' || name === 'CYLINDER') {
+      const stops =
+        name === 'LINEAR'
+          ? stop(0, first) + stop(1, second)
+          : stop(0, first) + stop(0.5, second) + stop(1, first)
+      return (
+        `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${fmt(cx - dx * half)}" y1="${fmt(cy - dy * half)}" x2="${fmt(cx + dx * half)}" y2="${fmt(cy + dy * half)}">` +
+        stops +
+        '</linearGradient>'
+      )
+    }
+
+    // Hemispherical and curved gradients are lit from one side of the area
+    const radius = Math.hypot(width, height) / 2
+    const sideCenter = name === 'SPHERICAL' ? 0 : half
+    const x = cx + dy * sideCenter
+    const y = cy - dx * sideCenter
+    return (
+      `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="${fmt(x)}" cy="${fmt(y)}" r="${fmt(radius + sideCenter)}">` +
+      stop(0, second) +
+      stop(1, first) +
+      '</radialGradient>'
+    )
+  }
+
+  /**
+   * Converts one dash pattern of line types or hatch patterns to SVG dash array.
+   * Positive values are dashes, negative values are spaces and zeros are dots.
+   * Adjacent dashes or spaces are merged so that dashes and spaces alternate.
+   */
+  private dashArray(pattern: number[] | undefined, scale: number = 1) {
+    const result: number[] = []
+    if (!pattern || pattern.length === 0) return result
+    let isDash = true
+    pattern.forEach(value => {
+      const valueIsDash = value >= 0
+      const length = Math.abs(value) * scale
+      if (result.length > 0 && valueIsDash === isDash) {
+        result[result.length - 1] += length
+      } else if (result.length === 0 && !valueIsDash) {
+        // Dash array always starts with one dash
+        result.push(0, length)
+      } else {
+        result.push(length)
+      }
+      isDash = !valueIsDash
+    })
+    if (result.length % 2 === 1) result.push(0)
+    return result.every(value => value === 0) ? [] : result
+  }
+
+  private strokeAttributes(withLineType: boolean = true) {
+    const traits = this.subEntityTraits
+    let lineWeight = traits.lineWeight as number
+    if (lineWeight < 0) lineWeight = DEFAULT_LINE_WEIGHT
+    // Convert 100ths of a millimeter to pixels in 96 DPI
+    const width = Math.max((lineWeight / 100) * (96 / 25.4), 1)
+    let attributes = ` stroke="${this.colorAttribute()}" stroke-width="${fmt(width)}" vector-effect="non-scaling-stroke"${this.opacityAttribute()}`
+    if (withLineType) {
+      const elements = traits.lineType.pattern
+      const dashes = this.dashArray(
+        elements?.map(element => element.elementLength),
+        traits.lineTypeScale || 1
+      )
+      if (dashes.length > 0) {
+        attributes += ` stroke-dasharray="${dashes.map(fmt).join(' ')}"`
+      }
+    }
+    return attributes
+  }
+
+  private colorAttribute() {
+    const color = this.subEntityTraits.rgbColor
+    return '#' + (color & 0xffffff).toString(16).padStart(6, '0')
+  }
+
+  private opacityAttribute() {
+    const transparency = this.subEntityTraits.transparency
+    if (transparency && transparency.isByAlpha && transparency.alpha < 255) {
+      return ` opacity="${fmt(transparency.alpha / 255)}"`
+    }
+    return ''
+  }
+
+  private fontFamily(style: AcGiTextStyle) {
+    const fonts: string[] = []
+    const addFont = (font: string | undefined) => {
+      if (!font) return
+      const name = font.replace(/\.(shx|ttf|ttc|otf)$/i, '')
+      const mapped = this._fontMapping[name] ?? this._fontMapping[font]
+      if (mapped) fonts.push(mapped)
+      fonts.push(name)
+    }
+    addFont(style.font)
+    addFont(style.extendedFont)
+    fonts.push('sans-serif')
+    return fonts.map(font => (/\s/.test(font) ? `'${font}'` : font)).join(',')
+  }
+
+  /**
+   * Removes formatting codes from the content of one mtext and converts
+   * paragraph breaks to new lines.
+   */
+  private plainText(text: string) {
+    return (
+      text
+        // Escaped characters are replaced with placeholders temporarily
+        .replace(/\\\\/g, '\uE000')
+        .replace(/\\\{/g, '\uE001')
+        .replace(/\\\}/g, '\uE002')
+        .replace(/\\P/g, '\n')
+        .replace(/\\[ACcFfHhQTWp][^;]*;/g, '')
+        .replace(/\\S([^;]*);/g, (_, value: string) =>
+          value.replace(/[#^]/, '/')
+        )
+        .replace(/\\[LlOoKkNn]/g, '')
+        .replace(/\\~/g, ' ')
+        .replace(/[{}]/g, '')
+        .replace(/%%[cC]/g, '\u2300')
+        .replace(/%%[dD]/g, '\u00B0')
+        .replace(/%%[pP]/g, '\u00B1')
+        .replace(/%%%/g, '%')
+        .replace(/\uE000/g, '\\')
+        .replace(/\uE001/g, '{')
+        .replace(/\uE002/g, '}')
+    )
+  }
+}
+
+/**
+ * Formats one number in SVG markup. At most 6 decimal digits are kept.
+ */
+function fmt(value: number) {
+  if (!isFinite(value)) return '0'
+  return (Math.round(value * 1e6) / 1e6).toString()
+}
+
+/**
+ * Escapes special characters in text content and attribute values.
+ */
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Reads the content of one blob as data URL without using FileReader so that it
+ * works in Node.js too.
+ */
+async function readAsDataUrl(blob: Blob) {
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  let binary = ''
+  const chunkSize = 0x8000
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize))
+  }
+  return `data:${blob.type || 'image/png'};base64,${btoa(binary)}`
+}
@@ -8,6 +8,8 @@ export * from './AcGiPointStyle'
 export * from './AcGiRenderer'
 export * from './AcGiStyleType'
 export * from './AcGiSubEntityTraits'
+export * from './AcGiSvgEntity'
+export * from './AcGiSvgRenderer'
 export * from './AcGiTextStyle'
 export * from './AcGiView'
 export * from './AcGiViewport'
@@ -100,8 +100,12 @@ export class AcDbEntityConverter {
     } else if (entity.eType == libdxfrw.DRW_ETYPE.XLINE) {
       return this.convertXline(entity as DRW_Xline)
     } else if (entity.eType == libdxfrw.DRW_ETYPE.INSERT) {
+      // libdxfrw doesn't expose ATTDEF and ATTRIB entities (there are no such
+      // values in DRW_ETYPE). So attributes of block references are dropped.
       return this.convertBlockReference(entity as DRW_Insert)
     }
+    // libdxfrw doesn't expose MULTILEADER entities (there is no such value in
+    // DRW_ETYPE). So multileaders are dropped.
     return null
   }
 
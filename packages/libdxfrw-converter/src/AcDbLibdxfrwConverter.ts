@@ -351,6 +351,10 @@ export class AcDbLibdxfrwConverter extends AcDbDatabaseConverter<DRW_Database> {
     // Initial value:	1 (imperial) or 4 (metric)
     db.insunits = variant ? variant.getInt() : 1
 
+    variant = header.getVar('$MEASUREMENT')
+    // Initial value:	0 (imperial) or 1 (metric)
+    db.measurement = variant ? variant.getInt() : 0
+
     variant = header.getVar('$PDMODE')
     // Initial value:	0
     db.pdmode = variant ? variant.getInt() : 0
@@ -400,7 +404,8 @@ export class AcDbLibdxfrwConverter extends AcDbDatabaseConverter<DRW_Database> {
     db: AcDbDatabase,
     minimumChunkSize: number,
     startPercentage: { value: number },
-    progress?: AcDbConversionProgressCallback
+    progress?: AcDbConversionProgressCallback,
+    signal?: AbortSignal
   ) {
     if (model.mBlock) {
       const converter = new AcDbEntityConverter()
@@ -447,7 +452,7 @@ export class AcDbLibdxfrwConverter extends AcDbDatabaseConverter<DRW_Database> {
           if (percentage > 100) percentage = 100
           await progress(percentage, 'ENTITY', 'IN-PROGRESS')
         }
-      })
+      }, signal)
     }
   }
 
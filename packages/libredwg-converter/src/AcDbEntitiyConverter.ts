@@ -5,6 +5,8 @@ import {
   AcDb3PointAngularDimension,
   AcDbAlignedDimension,
   AcDbArc,
+  AcDbAttribute,
+  AcDbAttributeDefinition,
   AcDbBlockReference,
   AcDbCircle,
   AcDbDiametricDimension,
@@ -13,22 +15,29 @@ import {
   AcDbEntity,
   AcDbFace,
   AcDbHatch,
+  AcDbHatchObjectType,
   AcDbHatchPatternType,
   AcDbHatchStyle,
   AcDbLeader,
   AcDbLeaderAnnotationType,
   AcDbLine,
   AcDbLineSpacingStyle,
+  AcDbMline,
+  AcDbMlineJustification,
   AcDbMText,
   AcDbOrdinateDimension,
   AcDbPoint,
   AcDbPoly2dType,
   AcDbPoly3dType,
+  AcDbPolyFaceMesh,
+  AcDbPolygonMesh,
   AcDbPolyline,
+  AcDbPolyMeshType,
   AcDbRadialDimension,
   AcDbRasterImage,
   AcDbRasterImageClipBoundaryType,
   AcDbRay,
+  AcDbRotatedDimension,
   AcDbSpline,
   AcDbTable,
   AcDbTableCell,
@@ -59,6 +68,8 @@ import type {
   DwgAngularDimensionEntity,
   DwgArcEdge,
   DwgArcEntity,
+  DwgAttdefEntity,
+  DwgAttribEntity,
   DwgBoundaryPathEdge,
   DwgCircleEntity,
   DwgDimensionEntityCommon,
@@ -66,6 +77,7 @@ import type {
   DwgEllipseEdge,
   DwgEllipseEntity,
   DwgEntity,
+  DwgGradientHatchEntity,
   DwgHatchEntity,
   DwgImageEntity,
   DwgInsertEntity,
@@ -73,6 +85,7 @@ import type {
   DwgLineEdge,
   DwgLineEntity,
   DwgLWPolylineEntity,
+  DwgMLineEntity,
   DwgMTextEntity,
   DwgOrdinateDimensionEntity,
   DwgPointEntity,
@@ -110,6 +123,10 @@ export class AcDbEntityConverter {
       return this.convertFace(entity as Dwg3dFaceEntity)
     } else if (entity.type == 'ARC') {
       return this.convertArc(entity as DwgArcEntity)
+    } else if (entity.type == 'ATTDEF') {
+      return this.convertAttributeDefinition(entity as DwgAttdefEntity)
+    } else if (entity.type == 'ATTRIB') {
+      return this.convertAttribute(entity as DwgAttribEntity)
     } else if (entity.type == 'CIRCLE') {
       return this.convertCirle(entity as DwgCircleEntity)
     } else if (entity.type == 'DIMENSION') {
@@ -126,6 +143,8 @@ export class AcDbEntityConverter {
       return this.convertLine(entity as DwgLineEntity)
     } else if (entity.type == 'LWPOLYLINE') {
       return this.convertLWPolyline(entity as DwgLWPolylineEntity)
+    } else if (entity.type == 'MLINE') {
+      return this.convertMline(entity as DwgMLineEntity)
     } else if (entity.type == 'MTEXT') {
       return this.convertMText(entity as DwgMTextEntity)
     } else if (entity.type == 'POINT') {
@@ -153,6 +172,8 @@ export class AcDbEntityConverter {
     } else if (entity.type == 'INSERT') {
       return this.convertBlockReference(entity as DwgInsertEntity)
     }
+    // libredwg-web 0.4.x doesn't return MULTILEADER entities (there is no such value
+    // in the entity types of DwgEntity). So multileaders in DWG files are dropped.
     return null
   }
 
@@ -284,6 +305,15 @@ export class AcDbEntityConverter {
     // 32 = The polygon mesh is closed in the N direction
     // 64 = The polyline is a polyface mesh
     // 128 = The linetype pattern is generated continuously around the vertices of this polyline
+    //
+    // libredwg-web doesn't return DWG objects POLYLINE_PFACE and POLYLINE_MESH yet. Meshes
+    // are converted only if they are returned as 2d polylines with mesh flags.
+    if (polyline.flag & 0x40) {
+      return this.convertPolyFaceMesh(polyline)
+    } else if (polyline.flag & 0x10) {
+      return this.convertPolygonMesh(polyline)
+    }
+
     const isClosed = !!(polyline.flag & 0x01)
 
     // Filter out spline control points
@@ -315,7 +345,7 @@ export class AcDbEntityConverter {
         polyType = AcDbPoly2dType.QuadSplinePoly
       }
     }
-    return new AcDb2dPolyline(
+    const dbEntity = new AcDb2dPolyline(
       polyType,
       vertices,
       0,
@@ -324,6 +354,20 @@ export class AcDbEntityConverter {
       polyline.endWidth,
       bulges
     )
+    // Default widths of the polyline are used if both widths of one vertex are 0.
+    let index = 0
+    polyline.vertices.forEach(vertex => {
+      if (vertex.flag & 0x10) return
+      if (vertex.startWidth || vertex.endWidth) {
+        dbEntity.setWidthsAt(
+          index,
+          vertex.startWidth ?? 0,
+          vertex.endWidth ?? 0
+        )
+      }
+      ++index
+    })
+    return dbEntity
   }
 
   private convertPolyline3d(polyline: DwgPolyline3dEntity) {
@@ -368,6 +412,79 @@ export class AcDbEntityConverter {
     return new AcDb3dPolyline(polyType, vertices, isClosed)
   }
 
+  private convertPolyFaceMesh(polyline: DwgPolyline2dEntity) {
+    const dbEntity = new AcDbPolyFaceMesh()
+    polyline.vertices.forEach(vertex => {
+      // Vertices with flag 128 and 64 are mesh vertices and vertices with flag 128 only
+      // are face records.
+      if (!(vertex.flag & 0x80)) return
+      if (vertex.flag & 0x40) {
+        dbEntity.appendVertex({ x: vertex.x, y: vertex.y, z: vertex.z })
+      } else {
+        dbEntity.appendFaceRecord([
+          vertex.polyfaceIndex0 ?? 0,
+          vertex.polyfaceIndex1 ?? 0,
+          vertex.polyfaceIndex2 ?? 0,
+          vertex.polyfaceIndex3 ?? 0
+        ])
+      }
+    })
+    return dbEntity
+  }
+
+  private convertPolygonMesh(polyline: DwgPolyline2dEntity) {
+    // Filter out spline control points
+    const vertices: AcGePoint3dLike[] = []
+    polyline.vertices.forEach(vertex => {
+      if (!(vertex.flag & 0x10)) {
+        vertices.push({ x: vertex.x, y: vertex.y, z: vertex.z })
+      }
+    })
+
+    let polyMeshType = AcDbPolyMeshType.SimpleMesh
+    if (polyline.flag & 0x04) {
+      // Please don't use enum DwgSmoothType value here.
+      // It will result in libredwg-web bundled in this package.
+      if (polyline.smoothType == 6) {
+        // DwgSmoothType.CUBIC
+        polyMeshType = AcDbPolyMeshType.CubicSurfaceMesh
+      } else if (polyline.smoothType == 5) {
+        // DwgSmoothType.QUADRATIC
+        polyMeshType = AcDbPolyMeshType.QuadSurfaceMesh
+      } else if (polyline.smoothType == 8) {
+        // DwgSmoothType.BEZIER
+        polyMeshType = AcDbPolyMeshType.BezierSurfaceMesh
+      }
+    }
+
+    // Vertices of one smoothed mesh are the surface-fit vertices whose sizes are defined
+    // by surface densities instead of mesh vertex counts.
+    let mSize = polyline.meshMVertexCount ?? 0
+    let nSize = polyline.meshNVertexCount ?? 0
+    const mDensity = polyline.surfaceMDensity ?? 0
+    const nDensity = polyline.surfaceNDensity ?? 0
+    if (
+      polyMeshType != AcDbPolyMeshType.SimpleMesh &&
+      vertices.length != mSize * nSize &&
+      vertices.length == mDensity * nDensity
+    ) {
+      mSize = mDensity
+      nSize = nDensity
+    }
+
+    const dbEntity = new AcDbPolygonMesh(
+      polyMeshType,
+      mSize,
+      nSize,
+      vertices,
+      !!(polyline.flag & 0x01),
+      !!(polyline.flag & 0x20)
+    )
+    dbEntity.mSurfaceDensity = mDensity
+    dbEntity.nSurfaceDensity = nDensity
+    return dbEntity
+  }
+
   private convertHatch(hatch: DwgHatchEntity) {
     const dbEntity = new AcDbHatch()
 
@@ -386,6 +503,7 @@ export class AcDbEntityConverter {
     dbEntity.patternType = hatch.patternType as unknown as AcDbHatchPatternType
     dbEntity.patternAngle = hatch.patternAngle == null ? 0 : hatch.patternAngle
     dbEntity.patternScale = hatch.patternScale == null ? 0 : hatch.patternScale
+    this.processHatchGradient(hatch, dbEntity)
 
     const paths = hatch.boundaryPaths
     paths.forEach(path => {
@@ -494,6 +612,20 @@ export class AcDbEntityConverter {
     return dbEntity
   }
 
+  private processHatchGradient(hatch: DwgHatchEntity, dbEntity: AcDbHatch) {
+    // Don't use DwgHatchGradientFlag.Gradient to avoid bundling libredwg-web
+    if (hatch.gradientFlag != 1) return
+    const gradient = hatch as DwgGradientHatchEntity
+    dbEntity.hatchObjectType = AcDbHatchObjectType.GradientObject
+    dbEntity.gradientAngle = gradient.gradientRotation ?? 0
+    dbEntity.gradientShift = gradient.gradientDefinition
+    // Don't use DwgHatchGradientColorFlag.OneColor to avoid bundling libredwg-web
+    dbEntity.gradientOneColorMode = gradient.gradientColorFlag == 1
+    dbEntity.shadeTintValue = gradient.colorTint ?? 0
+    // libredwg-web returns neither the gradient name nor the gradient colors, so
+    // the default gradient name and colors of the hatch are kept.
+  }
+
   private convertTable(table: DwgTableEntity) {
     const dbEntity = new AcDbTable(
       table.name,
@@ -530,6 +662,62 @@ export class AcDbEntityConverter {
     return dbEntity
   }
 
+  private convertAttributeDefinition(attdef: DwgAttdefEntity) {
+    const dbEntity = new AcDbAttributeDefinition()
+    this.processAttributeText(attdef.text, dbEntity)
+    dbEntity.prompt = attdef.prompt ?? ''
+    dbEntity.tag = attdef.tag
+    dbEntity.flags = attdef.flags ?? 0
+    dbEntity.lockPositionInBlock = !!attdef.lockPositionFlag
+    return dbEntity
+  }
+
+  private convertAttribute(attrib: DwgAttribEntity) {
+    const dbEntity = new AcDbAttribute()
+    this.processAttributeText(attrib.text, dbEntity)
+    dbEntity.tag = attrib.tag
+    dbEntity.flags = attrib.flags ?? 0
+    dbEntity.lockPositionInBlock = !!attrib.lockPositionFlag
+    return dbEntity
+  }
+
+  private processAttributeText(
+    text: DwgAttribEntity['text'],
+    dbEntity: AcDbText
+  ) {
+    dbEntity.textString = text.text
+    dbEntity.styleName = text.styleName
+    dbEntity.height = text.textHeight
+    dbEntity.position.copy(text.startPoint)
+    dbEntity.rotation = text.rotation
+    dbEntity.oblique = text.obliqueAngle ?? 0
+    dbEntity.thickness = text.thickness
+    dbEntity.horizontalMode = text.halign as unknown as AcDbTextHorizontalMode
+    dbEntity.verticalMode = text.valign as unknown as AcDbTextVerticalMode
+    dbEntity.widthFactor = text.xScale ?? 1
+  }
+
+  private convertMline(mline: DwgMLineEntity) {
+    const dbEntity = new AcDbMline()
+    // libredwg-web doesn't resolve the style name yet and returns an empty string.
+    if (mline.mlineStyle) dbEntity.styleName = mline.mlineStyle
+    dbEntity.scale = mline.scale
+    dbEntity.justification = mline.justification as AcDbMlineJustification
+    if (mline.extrusionDirection) dbEntity.normal = mline.extrusionDirection
+    mline.vertices.forEach(vertex => {
+      dbEntity.appendVertex({
+        position: new AcGePoint3d(vertex.vertex),
+        direction: new AcGeVector3d(vertex.vertexDirection),
+        miter: new AcGeVector3d(vertex.miterDirection),
+        elementParams: vertex.lines.map(line => line.segmentParams)
+      })
+    })
+    // Set flags after appending vertices so that directions and miters stored
+    // in the file are kept as they are.
+    dbEntity.flags = mline.flags
+    return dbEntity
+  }
+
   private convertMText(mtext: DwgMTextEntity) {
     const dbEntity = new AcDbMText()
     dbEntity.contents = mtext.text
@@ -570,11 +758,19 @@ export class AcDbEntityConverter {
       dimension.subclassMarker == 'AcDbRotatedDimension'
     ) {
       const entity = dimension as DwgAlignedDimensionEntity
-      const dbEntity = new AcDbAlignedDimension(
-        entity.subDefinitionPoint1,
-        entity.subDefinitionPoint2,
-        entity.definitionPoint
-      )
+      const dbEntity =
+        dimension.subclassMarker == 'AcDbRotatedDimension'
+          ? new AcDbRotatedDimension(
+              entity.rotationAngle,
+              entity.subDefinitionPoint1,
+              entity.subDefinitionPoint2,
+              entity.definitionPoint
+            )
+          : new AcDbAlignedDimension(
+              entity.subDefinitionPoint1,
+              entity.subDefinitionPoint2,
+              entity.definitionPoint
+            )
       if (entity.insertionPoint) {
         dbEntity.dimBlockPosition = {
           x: entity.insertionPoint.x,
@@ -601,6 +797,7 @@ export class AcDbEntityConverter {
         entity.subDefinitionPoint1,
         entity.subDefinitionPoint2
       )
+      dbEntity.origin = entity.definitionPoint
       this.processDimensionCommonAttrs(dimension, dbEntity)
       return dbEntity
     } else if (dimension.subclassMarker == 'AcDbRadialDimension') {
@@ -713,7 +910,7 @@ export class AcDbEntityConverter {
     dbEntity: AcDbDimension
   ) {
     dbEntity.dimBlockId = entity.name
-    dbEntity.textPosition.copy(entity.textPoint)
+    dbEntity.textPosition = entity.textPoint
     dbEntity.textRotation = entity.textRotation || 0
     if (entity.textLineSpacingFactor) {
       dbEntity.textLineSpacingFactor = entity.textLineSpacingFactor
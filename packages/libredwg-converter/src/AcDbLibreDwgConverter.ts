@@ -1,6 +1,8 @@
 import {
   AcCmColor,
+  AcDbAttribute,
   AcDbBatchProcessing,
+  AcDbBlockReference,
   AcDbBlockTableRecord,
   AcDbConversionProgressCallback,
   AcDbDatabase,
@@ -30,6 +32,7 @@ import {
   createWorkerApi
 } from '@mlightcad/data-model'
 import {
+  DwgAttribEntity,
   DwgBlockRecordTableEntry,
   DwgCommonObject,
   DwgCommonTableEntry,
@@ -54,7 +57,11 @@ export class AcDbLibreDwgConverter extends AcDbDatabaseConverter<DwgDatabase> {
     }
   }
 
-  protected async parse(data: ArrayBuffer) {
+  protected async parse(
+    data: ArrayBuffer,
+    _workerUrl?: string,
+    signal?: AbortSignal
+  ) {
     if (this.config.useWorker && this.config.parserWorkerUrl) {
       const api = createWorkerApi({
         workerUrl: this.config.parserWorkerUrl,
@@ -64,7 +71,7 @@ export class AcDbLibreDwgConverter extends AcDbDatabaseConverter<DwgDatabase> {
       const result = await api.execute<
         ArrayBuffer,
         AcDbParsingTaskResult<DwgDatabase>
-      >(data)
+      >(data, undefined, signal)
       // Release worker
       api.destroy()
       return result.data!
@@ -112,7 +119,7 @@ export class AcDbLibreDwgConverter extends AcDbDatabaseConverter<DwgDatabase> {
   }
 
   /**
-   * Iterate entities in model space to get fonts used by text, mtext and insert entities
+   * Iterate entities in model space to get fonts used by text, mtext, attribute and insert entities
    */
   private getFontsInBlock(
     entities: DwgEntity[],
@@ -133,6 +140,10 @@ export class AcDbLibreDwgConverter extends AcDbDatabaseConverter<DwgDatabase> {
         const text = entity as DwgTextEntity
         const fontNames = styleMap.get(text.styleName)
         fontNames?.forEach(name => fonts.add(name))
+      } else if (entity.type == 'ATTRIB' || entity.type == 'ATTDEF') {
+        const attribute = entity as DwgAttribEntity
+        const fontNames = styleMap.get(attribute.text.styleName)
+        fontNames?.forEach(name => fonts.add(name))
       } else if (entity.type == 'INSERT') {
         const insert = entity as DwgInsertEntity
         const block = blockMap.get(insert.name)
@@ -407,12 +418,15 @@ export class AcDbLibreDwgConverter extends AcDbDatabaseConverter<DwgDatabase> {
     blockTableRecord: AcDbBlockTableRecord
   ) {
     const converter = new AcDbEntityConverter()
+    const attributes = new Map<string, DwgAttribEntity[]>()
+    entities = this.extractAttributes(entities, attributes)
     const entityCount = entities.length
     const dbEntities: AcDbEntity[] = []
     for (let i = 0; i < entityCount; i++) {
       const entity = entities[i]
       const dbEntity = converter.convert(entity)
       if (dbEntity) {
+        this.attachAttributes(converter, dbEntity, attributes)
         dbEntities.push(dbEntity)
       }
     }
@@ -430,12 +444,16 @@ export class AcDbLibreDwgConverter extends AcDbDatabaseConverter<DwgDatabase> {
     db: AcDbDatabase,
     minimumChunkSize: number,
     startPercentage: { value: number },
-    progress?: AcDbConversionProgressCallback
+    progress?: AcDbConversionProgressCallback,
+    signal?: AbortSignal
   ) {
     const converter = new AcDbEntityConverter()
 
+    // Attributes are attached to block references instead of model space
+    const attributes = new Map<string, DwgAttribEntity[]>()
+    let entities = this.extractAttributes(model.entities, attributes)
+
     // Create an instance of AcDbBatchProcessing
-    let entities = model.entities
     const entityCount = entities.length
     const batchProcessor = new AcDbBatchProcessing(
       entityCount,
@@ -456,6 +474,7 @@ export class AcDbLibreDwgConverter extends AcDbDatabaseConverter<DwgDatabase> {
         const entity = entities[i]
         const dbEntity = converter.convert(entity)
         if (dbEntity) {
+          this.attachAttributes(converter, dbEntity, attributes)
           dbEntities.push(dbEntity)
         }
       }
@@ -470,7 +489,7 @@ export class AcDbLibreDwgConverter extends AcDbDatabaseConverter<DwgDatabase> {
         if (percentage > 100) percentage = 100
         await progress(percentage, 'ENTITY', 'IN-PROGRESS')
       }
-    })
+    }, signal)
   }
 
   protected processHeader(model: DwgDatabase, db: AcDbDatabase) {
@@ -490,6 +509,8 @@ export class AcDbLibreDwgConverter extends AcDbDatabaseConverter<DwgDatabase> {
     if (header.EXTMIN) db.extmin = header.EXTMIN
     // Initial value of INSUNITS:	1 (imperial) or 4 (metric)
     db.insunits = header.INSUNITS ?? 1
+    // Initial value of MEASUREMENT: 0 (imperial) or 1 (metric)
+    db.measurement = header.MEASUREMENT ?? 0
     db.pdmode = header.PDMODE ?? 0
     db.pdsize = header.PDSIZE ?? 0.0
   }
@@ -563,6 +584,45 @@ export class AcDbLibreDwgConverter extends AcDbDatabaseConverter<DwgDatabase> {
     dbObject.ownerId = object.ownerHandle.toString()
   }
 
+  /**
+   * Removes ATTRIB entities from the specified entity array and groups them by
+   * the handle of their owner (the INSERT entity they belong to).
+   */
+  private extractAttributes(
+    entities: DwgEntity[],
+    attributes: Map<string, DwgAttribEntity[]>
+  ) {
+    return entities.filter(entity => {
+      if (entity.type != 'ATTRIB') return true
+      const ownerId = entity.ownerBlockRecordSoftId.toString()
+      let group = attributes.get(ownerId)
+      if (!group) {
+        group = []
+        attributes.set(ownerId, group)
+      }
+      group.push(entity as DwgAttribEntity)
+      return false
+    })
+  }
+
+  /**
+   * Converts ATTRIB entities owned by the specified block reference and
+   * attaches them to it.
+   */
+  private attachAttributes(
+    converter: AcDbEntityConverter,
+    dbEntity: AcDbEntity,
+    attributes: Map<string, DwgAttribEntity[]>
+  ) {
+    if (!(dbEntity instanceof AcDbBlockReference)) return
+    attributes.get(dbEntity.objectId)?.forEach(attribute => {
+      const dbAttribute = converter.convert(attribute)
+      if (dbAttribute instanceof AcDbAttribute) {
+        dbEntity.appendAttribute(dbAttribute)
+      }
+    })
+  }
+
   /**
    * Groups entities by their `type` property and flattens the result into a single array.
    *